@@ -65,6 +65,163 @@ CREATE TABLE table_policies (
   updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Row-level security policies (one JSON condition per table and operation)
+CREATE TABLE table_row_policies (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('read', 'insert', 'update', 'delete')),
+  condition TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(table_name, operation)
+);
+
+-- Full-text search configuration (indexed TEXT columns of each FTS5 shadow table)
+CREATE TABLE table_fulltext_indexes (
+  table_name TEXT PRIMARY KEY,
+  columns TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tables whose deletes are soft deletes (rows get a deleted_at timestamp)
+CREATE TABLE table_soft_deletes (
+  table_name TEXT PRIMARY KEY,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tables with a per-record change history
+CREATE TABLE table_audit_settings (
+  table_name TEXT PRIMARY KEY,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Change history of audited tables (row images as JSON, NULL where the row did not exist)
+CREATE TABLE table_audit_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete', 'restore', 'purge')),
+  before_data TEXT,
+  after_data TEXT,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('admin', 'api_key', 'user', 'system')),
+  actor_id TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Scripts run around writes to user tables (before_* may change or reject the write)
+CREATE TABLE table_triggers (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  name TEXT NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('before_insert', 'before_update', 'before_delete', 'after_write')),
+  script TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT 1,
+  timeout_ms INTEGER NOT NULL DEFAULT 50,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Trigger runs that failed, were rejected or printed logs (console output as JSON)
+CREATE TABLE table_trigger_logs (
+  id TEXT PRIMARY KEY,
+  trigger_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  event TEXT NOT NULL,
+  record_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'rejected', 'error', 'timeout')),
+  message TEXT,
+  logs TEXT NOT NULL DEFAULT '[]',
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Schedule of the background jobs run by the cron trigger (rows appear once a job is scheduled)
+CREATE TABLE background_jobs (
+  name TEXT PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT 1,
+  interval_minutes INTEGER NOT NULL,
+  next_run_at DATETIME,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Runs of background jobs, scheduled or started by an admin
+CREATE TABLE background_job_runs (
+  id TEXT PRIMARY KEY,
+  job_name TEXT NOT NULL,
+  triggered_by TEXT NOT NULL CHECK (triggered_by IN ('schedule', 'manual')),
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  message TEXT,
+  started_at DATETIME NOT NULL,
+  finished_at DATETIME NOT NULL,
+  duration_ms INTEGER NOT NULL DEFAULT 0
+);
+
+-- Signed storage URLs that were issued; a URL stops working once it expires or is revoked
+CREATE TABLE storage_signed_urls (
+  id TEXT PRIMARY KEY,
+  object_key TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('download', 'upload')),
+  content_type TEXT,
+  max_size INTEGER,
+  expires_at DATETIME NOT NULL,
+  created_by TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  revoked_at DATETIME
+);
+
+-- Multipart uploads in progress; R2 aborts the ones not completed within 7 days
+CREATE TABLE storage_multipart_uploads (
+  id TEXT PRIMARY KEY, -- R2 upload id
+  object_key TEXT NOT NULL,
+  content_type TEXT,
+  part_size INTEGER,
+  total_size INTEGER,
+  created_by TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Parts stored for a multipart upload, which R2 cannot list
+CREATE TABLE storage_multipart_parts (
+  upload_id TEXT NOT NULL REFERENCES storage_multipart_uploads(id) ON DELETE CASCADE,
+  part_number INTEGER NOT NULL,
+  etag TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  uploaded_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (upload_id, part_number)
+);
+
+-- Access policies of storage buckets (the first segment of object keys)
+CREATE TABLE storage_buckets (
+  id TEXT PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  access_policy TEXT NOT NULL DEFAULT 'owner' CHECK (access_policy IN ('public', 'owner', 'private')),
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Cache-Control of the files under a key prefix; the longest matching prefix applies
+CREATE TABLE storage_cache_rules (
+  id TEXT PRIMARY KEY,
+  prefix TEXT UNIQUE NOT NULL,
+  cache_control TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Presets stored images can be transformed with (NULL width or height follows the aspect ratio)
+CREATE TABLE storage_image_presets (
+  id TEXT PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  fit TEXT NOT NULL DEFAULT 'contain' CHECK (fit IN ('contain', 'cover', 'fill')),
+  format TEXT NOT NULL CHECK (format IN ('jpeg', 'webp', 'avif')),
+  quality INTEGER NOT NULL DEFAULT 80,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Schema snapshots for migration tracking
 CREATE TABLE schema_snapshots (
   id TEXT PRIMARY KEY,
@@ -126,9 +283,11 @@ CREATE TABLE hooks (
   table_name TEXT NOT NULL,
   event_type TEXT NOT NULL CHECK (event_type IN ('insert', 'update', 'delete')),
   enabled BOOLEAN NOT NULL DEFAULT true,
+  target_url TEXT, -- Outbound webhook; events of hooks without one are only queued
+  secret TEXT, -- Signs webhook payloads (HMAC-SHA256)
+  filters TEXT, -- JSON list of row filters (column=op.value) the event must match
   created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  UNIQUE(table_name, event_type)
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Event queue for processing
@@ -141,11 +300,30 @@ CREATE TABLE event_queue (
   event_data TEXT NOT NULL,
   processed BOOLEAN NOT NULL DEFAULT false,
   processed_at DATETIME,
+  delivery_status TEXT CHECK (delivery_status IN ('pending', 'delivered', 'dead')), -- NULL without webhook
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME,
+  last_status_code INTEGER,
+  last_error TEXT,
   created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (hook_id) REFERENCES hooks(id) ON DELETE CASCADE
 );
 
+-- Webhook delivery attempts of queued events
+CREATE TABLE webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  hook_id TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  status_code INTEGER,
+  error TEXT,
+  response_body TEXT,
+  duration_ms INTEGER NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (event_id) REFERENCES event_queue(id) ON DELETE CASCADE
+);
+
 -- Realtime subscriptions
 CREATE TABLE realtime_subscriptions (
   id TEXT PRIMARY KEY,
@@ -160,6 +338,25 @@ CREATE TABLE realtime_subscriptions (
   FOREIGN KEY (hook_id) REFERENCES hooks(id) ON DELETE CASCADE
 );
 
+-- Last realtime sequence number of each table
+CREATE TABLE realtime_sequences (
+  table_name TEXT PRIMARY KEY,
+  last_seq INTEGER NOT NULL DEFAULT 0
+);
+
+-- Recent realtime events of each table, for clients catching up and for retried broadcasts
+CREATE TABLE realtime_event_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  record_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('insert', 'update', 'delete')),
+  event_data TEXT NOT NULL,
+  published_at DATETIME,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(table_name, seq)
+);
+
 -- Push subscriptions
 CREATE TABLE push_subscriptions (
   id TEXT PRIMARY KEY,
@@ -301,13 +498,28 @@ CREATE INDEX idx_user_sessions_expires_at ON user_sessions(expires_at);
 -- API key indexes
 CREATE INDEX idx_api_keys_expires_at ON api_keys(expires_at);
 
+-- Audit log indexes
+CREATE INDEX idx_table_audit_log_record ON table_audit_log(table_name, record_id, created_at);
+CREATE INDEX idx_table_triggers_table ON table_triggers(table_name, created_at);
+CREATE INDEX idx_table_trigger_logs_trigger ON table_trigger_logs(trigger_id, created_at);
+
+-- Background job indexes
+CREATE INDEX idx_background_job_runs_job ON background_job_runs(job_name, started_at);
+
+-- Storage indexes
+CREATE INDEX idx_storage_signed_urls_key ON storage_signed_urls(object_key, expires_at);
+CREATE INDEX idx_storage_multipart_uploads_key ON storage_multipart_uploads(object_key, created_at);
+
 -- Realtime indexes
 CREATE INDEX idx_hooks_table_enabled ON hooks(table_name, enabled);
 CREATE INDEX idx_event_queue_unprocessed ON event_queue(processed, created_at) WHERE processed = false;
 CREATE INDEX idx_event_queue_hook ON event_queue(hook_id, processed);
+CREATE INDEX idx_event_queue_delivery ON event_queue(delivery_status, next_attempt_at) WHERE delivery_status = 'pending';
+CREATE INDEX idx_webhook_deliveries_event ON webhook_deliveries(event_id, created_at);
 CREATE INDEX idx_realtime_subscriptions_client ON realtime_subscriptions(client_id);
 CREATE INDEX idx_realtime_subscriptions_table ON realtime_subscriptions(table_name) WHERE table_name IS NOT NULL;
 CREATE INDEX idx_realtime_subscriptions_expires ON realtime_subscriptions(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX idx_realtime_event_log_unpublished ON realtime_event_log(table_name, seq) WHERE published_at IS NULL;
 
 -- Push notification indexes
 CREATE INDEX idx_push_subscriptions_user_id ON push_subscriptions(user_id);
@@ -0,0 +1,11 @@
+import { readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+
+// Stands in for the `.wasm` import of the Worker, which wrangler compiles at upload
+// (the Workers types only know modules compiled that way, so the constructor is cast)
+const require = createRequire(import.meta.url)
+const WasmModule = WebAssembly.Module as unknown as new (bytes: Uint8Array) => WebAssembly.Module
+
+export default new WasmModule(
+  readFileSync(require.resolve('@jitl/quickjs-wasmfile-release-sync/wasm'))
+)
@@ -0,0 +1,58 @@
+import type { D1Database } from '../../types/cloudflare'
+
+export interface RecordedStatement {
+  sql: string
+  params: unknown[]
+}
+
+type Awaitable<T> = T | Promise<T>
+
+// Answers of the stub; each receives the SQL and the bound parameters of the statement
+export interface StubDatabaseHandlers {
+  first?: (sql: string, params: unknown[]) => Awaitable<unknown>
+  all?: (sql: string, params: unknown[]) => Awaitable<unknown[]>
+  // Number of changed rows, 1 when not given
+  run?: (sql: string, params: unknown[]) => Awaitable<number | undefined>
+  // Results of a batch, one success per statement when not given
+  batch?: (statements: RecordedStatement[]) => Awaitable<unknown[] | undefined>
+}
+
+// Minimal D1 stub: statements run alone are recorded in `executed`, batches in `batches`;
+// unanswered lookups return no rows
+export function createStubDatabase(handlers: StubDatabaseHandlers = {}) {
+  const executed: RecordedStatement[] = []
+  const batches: RecordedStatement[][] = []
+
+  const createStatement = (sql: string, params: unknown[] = []) => ({
+    sql,
+    params,
+    bind: (...values: unknown[]) => createStatement(sql, values),
+    run: async () => {
+      executed.push({ sql, params })
+      const changes = (await handlers.run?.(sql, params)) ?? 1
+      return { success: true, meta: { changes, last_row_id: 1 } }
+    },
+    first: async () => {
+      executed.push({ sql, params })
+      return (await handlers.first?.(sql, params)) ?? null
+    },
+    all: async () => {
+      executed.push({ sql, params })
+      return { results: (await handlers.all?.(sql, params)) ?? [], success: true }
+    },
+  })
+
+  const db = {
+    prepare: (sql: string) => createStatement(sql),
+    batch: async (statements: RecordedStatement[]) => {
+      const recorded = statements.map(({ sql, params }) => ({ sql, params }))
+      batches.push(recorded)
+      return (
+        (await handlers.batch?.(recorded)) ??
+        recorded.map(() => ({ success: true, meta: { changes: 1 } }))
+      )
+    },
+  }
+
+  return { db: db as unknown as D1Database, executed, batches }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { buildAggregateClauses, parseAggregateParams } from '../../lib/aggregate'
+
+describe('Aggregate', () => {
+  const columns = ['id', 'category', 'status', 'price', 'qty']
+
+  describe('parseAggregateParams', () => {
+    it('should count rows by default', () => {
+      const query = parseAggregateParams({}, columns)
+      expect(query.aggregates).toEqual([{ fn: 'count', column: null }])
+      expect(query.groupBy).toEqual([])
+      expect(query.limit).toBe(100)
+    })
+
+    it('should parse functions, columns and group by', () => {
+      const query = parseAggregateParams(
+        { count: '', sum: 'price, qty', max: 'price', group_by: 'category,status' },
+        columns
+      )
+      expect(query.aggregates).toEqual([
+        { fn: 'count', column: null },
+        { fn: 'sum', column: 'price' },
+        { fn: 'sum', column: 'qty' },
+        { fn: 'max', column: 'price' },
+      ])
+      expect(query.groupBy).toEqual(['category', 'status'])
+    })
+
+    it('should count non-null values of a column', () => {
+      expect(parseAggregateParams({ count: 'price' }, columns).aggregates).toEqual([
+        { fn: 'count', column: 'price' },
+      ])
+    })
+
+    it('should reject unknown columns and missing arguments', () => {
+      expect(() => parseAggregateParams({ sum: 'password' }, columns)).toThrow(
+        "Invalid sum column 'password'"
+      )
+      expect(() => parseAggregateParams({ group_by: 'nope' }, columns)).toThrow(
+        "Invalid group_by column 'nope'"
+      )
+      expect(() => parseAggregateParams({ avg: '' }, columns)).toThrow(
+        "'avg' requires at least one column"
+      )
+    })
+
+    it('should only sort by group columns or aggregate aliases', () => {
+      const query = parseAggregateParams(
+        { sum: 'price', group_by: 'category', sortBy: 'sum_price', sortOrder: 'desc' },
+        columns
+      )
+      expect(query.sortBy).toBe('sum_price')
+      expect(query.sortOrder).toBe('DESC')
+
+      expect(() =>
+        parseAggregateParams({ group_by: 'category', sortBy: 'price' }, columns)
+      ).toThrow("Invalid sort field 'price'. Valid fields: category, count")
+    })
+
+    it('should validate the group limit', () => {
+      expect(parseAggregateParams({ limit: '10' }, columns).limit).toBe(10)
+      expect(() => parseAggregateParams({ limit: '5000' }, columns)).toThrow('limit must be')
+      expect(() => parseAggregateParams({ limit: 'abc' }, columns)).toThrow('limit must be')
+    })
+  })
+
+  describe('buildAggregateClauses', () => {
+    it('should build an ungrouped aggregate', () => {
+      const clauses = buildAggregateClauses(parseAggregateParams({ avg: 'price' }, columns))
+      expect(clauses).toEqual({ select: 'AVG("price") AS "avg_price"', groupBy: '', orderBy: '' })
+    })
+
+    it('should group and order by the group columns', () => {
+      const clauses = buildAggregateClauses(
+        parseAggregateParams({ count: '', sum: 'qty', group_by: 'category' }, columns)
+      )
+      expect(clauses.select).toBe('"category", COUNT(*) AS "count", SUM("qty") AS "sum_qty"')
+      expect(clauses.groupBy).toBe(' GROUP BY "category"')
+      expect(clauses.orderBy).toBe(' ORDER BY "category" ASC')
+    })
+
+    it('should order by an aggregate alias', () => {
+      const clauses = buildAggregateClauses(
+        parseAggregateParams({ group_by: 'status', sortBy: 'count', sortOrder: 'desc' }, columns)
+      )
+      expect(clauses.orderBy).toBe(' ORDER BY "count" DESC')
+    })
+
+    it('should reject sorting by anything outside the query', () => {
+      expect(() =>
+        buildAggregateClauses({
+          aggregates: [{ fn: 'count', column: null }],
+          groupBy: [],
+          sortBy: 'price',
+        })
+      ).toThrow("Invalid sort field 'price'")
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest'
+import { AuditLogManager, getAuditActor } from '../../lib/audit-log'
+import { DataManager } from '../../lib/data-manager'
+import type { AuthContext } from '../../types/auth'
+import { createStubDatabase, type RecordedStatement } from '../helpers/stub-d1'
+
+// `posts` is audited, rows are looked up by id in `rows`, history entries in `entries`
+function createAuditDatabase(
+  rows: Record<string, unknown>[] = [],
+  entries: Record<string, unknown>[] = []
+) {
+  return createStubDatabase({
+    first: (sql, params) => {
+      if (sql.includes('FROM table_audit_settings')) {
+        return params[0] === 'posts' ? { table_name: 'posts', created_at: '' } : null
+      }
+      if (sql.includes('FROM table_audit_log WHERE id = ?')) {
+        return entries.find((entry) => entry.id === params[0])
+      }
+      if (sql.startsWith('SELECT COUNT(*)')) return { total: entries.length }
+      if (sql.startsWith('SELECT * FROM "posts" WHERE id = ?')) {
+        return rows.find((row) => row.id === params[0])
+      }
+      return null
+    },
+    all: (sql, params) => {
+      if (sql.startsWith('PRAGMA table_info')) {
+        return Object.keys(rows[0] ?? {}).map((name) => ({ name }))
+      }
+      if (sql.includes('FROM table_audit_log')) return entries
+      if (!sql.startsWith('SELECT * FROM')) return []
+      const ids = new Set(params.filter((value) => typeof value === 'string'))
+      return rows.filter((row) => ids.has(row.id as string))
+    },
+  })
+}
+
+const auditInserts = (statements: RecordedStatement[]) =>
+  statements.filter((statement) => statement.sql.startsWith('INSERT INTO table_audit_log'))
+
+describe('Audit Log', () => {
+  describe('getAuditActor', () => {
+    it('should identify admins, API keys and end users', () => {
+      expect(getAuditActor({ type: 'admin', user: { id: 'u1' } } as AuthContext)).toEqual({
+        type: 'admin',
+        id: 'u1',
+      })
+      expect(
+        getAuditActor({ type: 'api_key', apiKey: { id: 'k1', name: 'ci', scopes: [] } })
+      ).toEqual({ type: 'api_key', id: 'k1' })
+      expect(getAuditActor(null)).toEqual({ type: 'system', id: null })
+    })
+  })
+
+  describe('DataManager', () => {
+    it('should record updates with before and after images in the same batch', async () => {
+      const { db, batches } = createAuditDatabase([{ id: 'a', title: 'Old', views: 1 }])
+      const dm = new DataManager(db, undefined, undefined, { type: 'user', id: 'u1' })
+
+      await dm.updateRecord('posts', 'a', { title: 'New' })
+
+      expect(batches).toHaveLength(1)
+      expect(batches[0][0].sql).toMatch(/^UPDATE "posts" SET "title" = \?/)
+      const [entry] = auditInserts(batches[0])
+      expect(entry.params.slice(1, 4)).toEqual(['posts', 'a', 'update'])
+      expect(JSON.parse(entry.params[4] as string)).toEqual({ id: 'a', title: 'Old', views: 1 })
+      expect(JSON.parse(entry.params[5] as string)).toMatchObject({ title: 'New', views: 1 })
+      expect(entry.params.slice(6, 8)).toEqual(['user', 'u1'])
+    })
+
+    it('should not record changes to tables without the audit log', async () => {
+      const { db, executed, batches } = createAuditDatabase([{ id: 'a', title: 'Old' }])
+      await new DataManager(db).updateRecord('comments', 'a', { title: 'New' })
+
+      expect(batches).toHaveLength(0)
+      expect(executed.map((statement) => statement.sql)).toContain(
+        'UPDATE "comments" SET "title" = ?, "updated_at" = ? WHERE id = ?'
+      )
+      expect(auditInserts(executed)).toHaveLength(0)
+    })
+
+    it('should record inserts and deletes of bulk operations', async () => {
+      const { db, batches } = createAuditDatabase([{ id: 'a' }, { id: 'b' }])
+      const dm = new DataManager(db)
+
+      await dm.bulkCreateRecords('posts', [{ id: 'c', title: 'C' }])
+      await dm.bulkDeleteRecords('posts', ['a', 'b'])
+
+      const [created] = auditInserts(batches[0])
+      expect(created.params.slice(2, 5)).toEqual(['c', 'insert', null])
+      expect(created.params.slice(6, 8)).toEqual(['system', null])
+
+      const deleted = auditInserts(batches[1])
+      expect(deleted.map((entry) => entry.params.slice(2, 4))).toEqual([
+        ['a', 'delete'],
+        ['b', 'delete'],
+      ])
+      expect(deleted[0].params[5]).toBeNull()
+    })
+  })
+
+  describe('revertRecord', () => {
+    const entry = (id: string, after: Record<string, unknown> | null) => ({
+      id,
+      table_name: 'posts',
+      record_id: 'a',
+      operation: after ? 'update' : 'delete',
+      before_data: null,
+      after_data: after ? JSON.stringify(after) : null,
+      actor_type: 'admin',
+      actor_id: 'u1',
+      created_at: '2024-01-01T00:00:00.000Z',
+    })
+
+    it('should update the record to the recorded version', async () => {
+      const { db, batches } = createAuditDatabase(
+        [{ id: 'a', title: 'Current', created_at: 'x' }],
+        [entry('e1', { id: 'a', title: 'Old', dropped: 1, created_at: 'x' })]
+      )
+      await new DataManager(db).revertRecord('posts', 'a', 'e1')
+
+      const update = batches[0][0]
+      expect(update.sql).toBe('UPDATE "posts" SET "title" = ?, "updated_at" = ? WHERE id = ?')
+      expect(update.params[0]).toBe('Old')
+    })
+
+    it('should insert the recorded version when the record is gone', async () => {
+      const { db, batches } = createAuditDatabase(
+        [],
+        [entry('e1', { id: 'a', title: 'Old', created_at: 'x' })]
+      )
+      await new DataManager(db).revertRecord('posts', 'a', 'e1')
+
+      expect(batches[0][0].sql).toMatch(/^INSERT INTO "posts"/)
+      expect(auditInserts(batches[0])[0].params[3]).toBe('insert')
+    })
+
+    it('should reject unknown entries and versions without the record', async () => {
+      const { db } = createAuditDatabase([{ id: 'a' }], [entry('e2', null)])
+      const dm = new DataManager(db)
+
+      await expect(dm.revertRecord('posts', 'a', 'e1')).rejects.toThrow(
+        "History entry 'e1' not found for record 'a'"
+      )
+      await expect(dm.revertRecord('posts', 'a', 'e2')).rejects.toThrow(
+        'Cannot revert to a version in which the record does not exist'
+      )
+    })
+  })
+
+  describe('AuditLogManager.getHistory', () => {
+    it('should return entries with parsed row images', async () => {
+      const { db } = createAuditDatabase(
+        [],
+        [
+          {
+            id: 'e1',
+            record_id: 'a',
+            operation: 'update',
+            before_data: '{"title":"Old"}',
+            after_data: '{"title":"New"}',
+          },
+        ]
+      )
+      const history = await new AuditLogManager(db).getHistory('posts', 'a')
+
+      expect(history.total).toBe(1)
+      expect(history.data[0]).toMatchObject({
+        id: 'e1',
+        before: { title: 'Old' },
+        after: { title: 'New' },
+      })
+    })
+  })
+})
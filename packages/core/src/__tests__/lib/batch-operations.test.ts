@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { resolveBatchReferences } from '../../lib/batch-operations'
+import { DataManager } from '../../lib/data-manager'
+import { HookManager } from '../../lib/hook-manager'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// SELECT ... WHERE id IN (...) reads from `rows`, batches are logged
+function createRowDatabase(rows: Record<string, unknown>[], log: string[] = []) {
+  return createStubDatabase({
+    all: (sql, params) => {
+      if (!sql.startsWith('SELECT * FROM')) return []
+      const ids = new Set(params.filter((value) => typeof value === 'string'))
+      return rows.filter((row) => ids.has(row.id as string))
+    },
+    batch: () => {
+      log.push('batch')
+      return undefined
+    },
+  })
+}
+
+describe('Batch Operations', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('resolveBatchReferences', () => {
+    it('should assign ids to creates and resolve references to them', () => {
+      const operations = resolveBatchReferences(
+        [
+          { op: 'create', table: 'orders', data: { total: 10 }, ref: 'order' },
+          { op: 'create', table: 'items', data: { order_id: { $ref: 'order' }, qty: 2 } },
+          { op: 'update', table: 'orders', id: { $ref: 'order' }, data: { total: 12 } },
+        ],
+        () => 'generated'
+      )
+
+      expect(operations).toEqual([
+        {
+          op: 'create',
+          table: 'orders',
+          id: 'generated',
+          data: { total: 10, id: 'generated' },
+          ref: 'order',
+        },
+        {
+          op: 'create',
+          table: 'items',
+          id: 'generated',
+          data: { order_id: 'generated', qty: 2, id: 'generated' },
+        },
+        { op: 'update', table: 'orders', id: 'generated', data: { total: 12 } },
+      ])
+    })
+
+    it('should keep ids given by the client', () => {
+      const [operation] = resolveBatchReferences(
+        [{ op: 'create', table: 'orders', data: { id: 'o1' } }],
+        () => 'generated'
+      )
+      expect(operation.id).toBe('o1')
+    })
+
+    it('should reject forward, unknown and duplicate references', () => {
+      expect(() =>
+        resolveBatchReferences(
+          [
+            { op: 'create', table: 'items', data: { order_id: { $ref: 'order' } } },
+            { op: 'create', table: 'orders', data: {}, ref: 'order' },
+          ],
+          () => 'x'
+        )
+      ).toThrow("operations[0]: unknown reference 'order'")
+
+      expect(() =>
+        resolveBatchReferences(
+          [
+            { op: 'create', table: 'orders', data: {}, ref: 'order' },
+            { op: 'create', table: 'orders', data: {}, ref: 'order' },
+          ],
+          () => 'x'
+        )
+      ).toThrow("operations[1]: duplicate reference 'order'")
+    })
+
+    it('should limit the number of operations', () => {
+      const operations = Array.from({ length: 101 }, () => ({
+        op: 'delete' as const,
+        table: 'orders',
+        id: 'a',
+      }))
+      expect(() => resolveBatchReferences(operations, () => 'x')).toThrow('at most 100 operations')
+    })
+  })
+
+  describe('DataManager.executeBatch', () => {
+    it('should write every operation in one batch and emit hooks after it', async () => {
+      const log: string[] = []
+      const { db, batches } = createRowDatabase([{ id: 'old', title: 'Old' }], log)
+      vi.spyOn(HookManager.prototype, 'processDataEvent').mockImplementation(
+        async (table, id, event) => {
+          log.push(`${event} ${table}/${id}`)
+        }
+      )
+      const dm = new DataManager(db)
+
+      await dm.executeBatch([
+        { op: 'create', table: 'orders', id: 'o1', data: { id: 'o1', total: 10 } },
+        { op: 'create', table: 'items', id: 'i1', data: { id: 'i1', order_id: 'o1' } },
+        { op: 'delete', table: 'orders', id: 'old', data: {} },
+      ])
+
+      expect(batches).toHaveLength(1)
+      expect(batches[0].map((statement) => statement.sql.split(' (')[0])).toEqual([
+        'INSERT INTO "orders"',
+        'INSERT INTO "items"',
+        'DELETE FROM "orders" WHERE id = ?',
+      ])
+      expect(log).toEqual(['batch', 'insert orders/o1', 'insert items/i1', 'delete orders/old'])
+    })
+
+    it('should see rows written earlier in the batch', async () => {
+      const { db, batches } = createRowDatabase([])
+      const dm = new DataManager(db)
+
+      await dm.executeBatch([
+        { op: 'create', table: 'orders', id: 'o1', data: { id: 'o1', total: 10 } },
+        { op: 'update', table: 'orders', id: 'o1', data: { total: 12 } },
+      ])
+      expect(batches[0]).toHaveLength(2)
+
+      await expect(
+        dm.executeBatch([
+          { op: 'create', table: 'orders', id: 'o2', data: { id: 'o2' } },
+          { op: 'delete', table: 'orders', id: 'o2', data: {} },
+          { op: 'update', table: 'orders', id: 'o2', data: { total: 1 } },
+        ])
+      ).rejects.toThrow('Records not found or access denied: o2')
+      expect(batches).toHaveLength(1)
+    })
+
+    it('should check access for every operation before writing', async () => {
+      const { db, batches } = createRowDatabase([{ id: 'theirs', owner_id: 'u2' }])
+      const dm = new DataManager(db)
+
+      await expect(
+        dm.executeBatch([
+          {
+            op: 'create',
+            table: 'orders',
+            id: 'o1',
+            data: { id: 'o1', owner_id: 'u2' },
+            accessPolicy: 'private',
+            userId: 'u1',
+          },
+          {
+            op: 'update',
+            table: 'orders',
+            id: 'o1',
+            data: { total: 1 },
+            accessPolicy: 'private',
+            userId: 'u1',
+          },
+        ])
+      ).resolves.toHaveLength(2)
+      expect(batches[0][0].params).toContain('u1')
+      expect(batches[0][1].sql).toMatch(/WHERE id = \? AND owner_id = \?$/)
+
+      await expect(
+        dm.executeBatch([
+          { op: 'delete', table: 'orders', id: 'theirs', data: {}, accessPolicy: 'private' },
+          {
+            op: 'delete',
+            table: 'orders',
+            id: 'other',
+            data: {},
+            accessPolicy: 'private',
+            userId: 'u1',
+          },
+        ])
+      ).rejects.toThrow('Records not found or access denied: other')
+      expect(batches).toHaveLength(1)
+    })
+
+    it('should reject system tables', async () => {
+      const { db } = createRowDatabase([])
+      await expect(
+        new DataManager(db).executeBatch([{ op: 'delete', table: 'admins', id: 'a', data: {} }])
+      ).rejects.toThrow('Cannot modify system table: admins')
+    })
+  })
+})
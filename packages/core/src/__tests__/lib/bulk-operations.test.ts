@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataManager } from '../../lib/data-manager'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// SELECT ... WHERE id IN (...) reads from `rows`
+function createRowDatabase(rows: Record<string, unknown>[]) {
+  return createStubDatabase({
+    all: (sql, params) => {
+      if (!sql.startsWith('SELECT * FROM')) return []
+      const ids = new Set(params.filter((value) => typeof value === 'string'))
+      return rows.filter((row) => ids.has(row.id as string))
+    },
+  })
+}
+
+describe('Bulk Operations', () => {
+  let rows: Record<string, unknown>[]
+
+  beforeEach(() => {
+    rows = [
+      { id: 'a', title: 'First', owner_id: 'user1' },
+      { id: 'b', title: 'Second', owner_id: 'user1' },
+    ]
+  })
+
+  it('should insert all records in a single batch', async () => {
+    const { db, batches } = createRowDatabase(rows)
+    const dm = new DataManager(db)
+
+    await dm.bulkCreateRecords('posts', [
+      { id: 'a', title: 'First' },
+      { id: 'b', title: 'Second' },
+    ])
+
+    expect(batches).toHaveLength(1)
+    expect(batches[0]).toHaveLength(2)
+    expect(batches[0][0].sql).toMatch(/^INSERT INTO "posts"/)
+  })
+
+  it('should set owner_id on private tables', async () => {
+    const { db, batches } = createRowDatabase(rows)
+    const dm = new DataManager(db)
+
+    await dm.bulkCreateRecords('posts', [{ title: 'Mine', owner_id: 'someone' }], 'private', 'u1')
+
+    expect(batches[0][0].params).toContain('u1')
+    expect(batches[0][0].params).not.toContain('someone')
+  })
+
+  it('should update records and return them in request order', async () => {
+    const { db, batches } = createRowDatabase(rows)
+    const dm = new DataManager(db)
+
+    const result = await dm.bulkUpdateRecords('posts', [
+      { id: 'b', data: { title: 'Changed', created_at: 'x' } },
+      { id: 'a', data: { title: 'Also changed' } },
+    ])
+
+    expect(result.map((row) => row.id)).toEqual(['b', 'a'])
+    expect(batches[0]).toHaveLength(2)
+    expect(batches[0][0].sql).toMatch(
+      /^UPDATE "posts" SET "title" = \?, "updated_at" = \? WHERE id/
+    )
+  })
+
+  it('should not write anything when a record is missing', async () => {
+    const { db, batches } = createRowDatabase(rows)
+    const dm = new DataManager(db)
+
+    await expect(
+      dm.bulkUpdateRecords('posts', [
+        { id: 'a', data: { title: 'Changed' } },
+        { id: 'missing', data: { title: 'Nope' } },
+      ])
+    ).rejects.toThrow('Records not found or access denied: missing')
+    await expect(dm.bulkDeleteRecords('posts', ['a', 'missing'])).rejects.toThrow(
+      'Records not found or access denied: missing'
+    )
+    expect(batches).toHaveLength(0)
+  })
+
+  it('should scope deletes to the owner on private tables', async () => {
+    const { db, batches } = createRowDatabase(rows)
+    const dm = new DataManager(db)
+
+    const deleted = await dm.bulkDeleteRecords('posts', ['a', 'b'], 'private', 'user1')
+
+    expect(deleted).toBe(2)
+    expect(batches[0]).toHaveLength(2)
+    expect(batches[0][0].sql).toBe('DELETE FROM "posts" WHERE id = ? AND owner_id = ?')
+    expect(batches[0][0].params).toEqual(['a', 'user1'])
+  })
+
+  it('should look up large id lists in chunks', async () => {
+    const many = Array.from({ length: 120 }, (_, i) => ({ id: `r${i}` }))
+    const { db } = createRowDatabase(many)
+    const dm = new DataManager(db)
+
+    const deleted = await dm.bulkDeleteRecords(
+      'posts',
+      many.map((row) => row.id)
+    )
+
+    expect(deleted).toBe(120)
+  })
+
+  it('should reject system tables', async () => {
+    const { db } = createRowDatabase(rows)
+    const dm = new DataManager(db)
+
+    await expect(dm.bulkDeleteRecords('admins', ['a'])).rejects.toThrow(
+      'Cannot modify system table: admins'
+    )
+  })
+})
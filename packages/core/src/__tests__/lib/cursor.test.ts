@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCursorCondition,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+} from '../../lib/cursor'
+
+describe('Cursor', () => {
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip a cursor position', () => {
+      const position = {
+        sortBy: 'created_at',
+        sortOrder: 'DESC' as const,
+        value: '2024-01-01T00:00:00Z',
+        id: 'abc123',
+      }
+      const cursor = encodeCursor(position)
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+      expect(decodeCursor(cursor)).toEqual(position)
+    })
+
+    it('should handle non-ASCII and null sort values', () => {
+      const position = { sortBy: 'name', sortOrder: 'ASC' as const, value: 'ユーザー', id: 'x' }
+      expect(decodeCursor(encodeCursor(position))).toEqual(position)
+
+      const nullPosition = { sortBy: 'name', sortOrder: 'ASC' as const, value: null, id: 'y' }
+      expect(decodeCursor(encodeCursor(nullPosition))).toEqual(nullPosition)
+    })
+
+    it('should encode long sort values', () => {
+      const position = {
+        sortBy: 'body',
+        sortOrder: 'ASC' as const,
+        value: 'x'.repeat(200_000),
+        id: 'z',
+      }
+      expect(decodeCursor(encodeCursor(position))).toEqual(position)
+    })
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not a cursor')).toThrow(InvalidCursorError)
+      expect(() => decodeCursor(btoa(JSON.stringify({ s: 'name' })))).toThrow('Invalid cursor')
+      expect(() =>
+        decodeCursor(btoa(JSON.stringify({ s: 'name', o: 'SIDEWAYS', v: 1, i: 'a' })))
+      ).toThrow('Invalid cursor')
+    })
+  })
+
+  describe('buildCursorCondition', () => {
+    it('should seek past the last row in descending order', () => {
+      const result = buildCursorCondition({
+        sortBy: 'created_at',
+        sortOrder: 'DESC',
+        value: '2024-01-01',
+        id: 'abc',
+      })
+      expect(result.sql).toBe(
+        '("created_at" < ? OR "created_at" IS NULL OR ("created_at" = ? AND id < ?))'
+      )
+      expect(result.params).toEqual(['2024-01-01', '2024-01-01', 'abc'])
+    })
+
+    it('should seek past the last row in ascending order', () => {
+      const result = buildCursorCondition({ sortBy: 'score', sortOrder: 'ASC', value: 10, id: 'a' })
+      expect(result.sql).toBe('("score" > ? OR ("score" = ? AND id > ?))')
+      expect(result.params).toEqual([10, 10, 'a'])
+    })
+
+    it('should handle NULL sort values', () => {
+      expect(
+        buildCursorCondition({ sortBy: 'score', sortOrder: 'ASC', value: null, id: 'a' }).sql
+      ).toBe('(("score" IS NULL AND id > ?) OR "score" IS NOT NULL)')
+      expect(
+        buildCursorCondition({ sortBy: 'score', sortOrder: 'DESC', value: null, id: 'a' }).sql
+      ).toBe('("score" IS NULL AND id < ?)')
+    })
+
+    it('should use only the id when sorting by id', () => {
+      const result = buildCursorCondition({ sortBy: 'id', sortOrder: 'ASC', value: 'a', id: 'a' })
+      expect(result.sql).toBe('id > ?')
+      expect(result.params).toEqual(['a'])
+    })
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest'
+import { DataManager } from '../../lib/data-manager'
+import {
+  buildMatchExpression,
+  buildMatchSubquery,
+  FullTextSearchManager,
+  isFullTextTable,
+  toSearchResult,
+} from '../../lib/full-text-search'
+import { createStubDatabase, type RecordedStatement } from '../helpers/stub-d1'
+
+// Full-text search is enabled on `posts`; searches return `searchRows`
+function createSearchDatabase(searchRows: Record<string, unknown>[] = []) {
+  return createStubDatabase({
+    first: (sql, params) => {
+      if (sql.includes('FROM table_fulltext_indexes')) {
+        return params[0] === 'posts'
+          ? { table_name: 'posts', columns: '["title","body"]', created_at: '', updated_at: '' }
+          : null
+      }
+      if (sql.startsWith('SELECT COUNT(*)')) return { total: searchRows.length }
+      return null
+    },
+    all: (sql) => (sql.includes('MATCH') ? searchRows : []),
+  })
+}
+
+describe('Full-Text Search', () => {
+  describe('buildMatchExpression', () => {
+    it('should quote every word so FTS5 syntax in input has no effect', () => {
+      expect(buildMatchExpression('hello world')).toBe('("hello" "world")')
+      expect(buildMatchExpression('title:x OR NEAR(a b)')).toBe('("title:x" "OR" "NEAR(a" "b)")')
+    })
+
+    it('should support prefix matches and phrases', () => {
+      expect(buildMatchExpression('fox* "quick brown"')).toBe('("fox"* "quick brown")')
+    })
+
+    it('should restrict matching to the given columns', () => {
+      expect(buildMatchExpression('hello', ['title', 'body'])).toBe('{"title" "body"} : ("hello")')
+    })
+
+    it('should reject queries without words and overly long queries', () => {
+      expect(() => buildMatchExpression('  -- ** ')).toThrow(
+        'Search query must contain at least one word'
+      )
+      expect(() => buildMatchExpression(Array.from({ length: 17 }, () => 'a').join(' '))).toThrow(
+        'at most 16 terms'
+      )
+    })
+  })
+
+  describe('helpers', () => {
+    it('should recognise shadow tables', () => {
+      expect(isFullTextTable('_fts_posts')).toBe(true)
+      expect(isFullTextTable('_fts_posts_data')).toBe(true)
+      expect(isFullTextTable('posts')).toBe(false)
+    })
+
+    it('should compute rank and one snippet per indexed column', () => {
+      const sql = buildMatchSubquery('posts', ['title', 'body'])
+      expect(sql).toContain('bm25("_fts_posts") AS _fts_rank')
+      expect(sql).toContain('snippet("_fts_posts", 2,')
+      expect(sql).toMatch(/WHERE "_fts_posts" MATCH \?$/)
+    })
+
+    it('should move match columns into _search', () => {
+      const row = {
+        id: '1',
+        title: 'Hello',
+        _fts_id: '1',
+        _fts_rank: -1.5,
+        _fts_snippet_0: '\u{E000}Hello\u{E001}',
+        _fts_snippet_1: 'no match here',
+      }
+      expect(toSearchResult(row, ['title', 'body'])).toEqual({
+        id: '1',
+        title: 'Hello',
+        _search: { score: 1.5, snippets: { title: '<mark>Hello</mark>' } },
+      })
+    })
+
+    it('should escape the stored text of snippets, keeping only the match tags', () => {
+      const row = {
+        id: '1',
+        _fts_rank: -1,
+        _fts_snippet_0: '<img src=x onerror="alert(1)"> \u{E000}Hello\u{E001} & <mark>bye</mark>',
+      }
+      expect(toSearchResult(row, ['title'])).toMatchObject({
+        _search: {
+          snippets: {
+            title:
+              '&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>Hello</mark> &amp; &lt;mark&gt;bye&lt;/mark&gt;',
+          },
+        },
+      })
+    })
+  })
+
+  describe('FullTextSearchManager', () => {
+    it('should refresh index entries by deleting and re-inserting from the table', async () => {
+      const { db } = createSearchDatabase()
+      const statements = (await new FullTextSearchManager(db).buildSyncStatements('posts', [
+        'a',
+        'b',
+      ])) as unknown as RecordedStatement[]
+
+      expect(statements.map((statement) => statement.sql)).toEqual([
+        'DELETE FROM "_fts_posts" WHERE _record_id IN (?, ?)',
+        'INSERT INTO "_fts_posts" (_record_id, "title", "body") SELECT id, "title", "body" FROM "posts" WHERE id IN (?, ?)',
+      ])
+      expect(statements[1].params).toEqual(['a', 'b'])
+    })
+
+    it('should not sync tables without full-text search', async () => {
+      const { db } = createSearchDatabase()
+      expect(await new FullTextSearchManager(db).buildSyncStatements('comments', ['a'])).toEqual([])
+    })
+  })
+
+  describe('DataManager', () => {
+    it('should sync the index in the same batch as single record writes', async () => {
+      const { db, batches } = createSearchDatabase()
+      const dm = new DataManager(db)
+
+      await dm.createRecord('posts', { id: 'n', title: 'New' })
+      await dm.updateRecord('posts', 'a', { title: 'Changed' })
+      await dm.deleteRecord('posts', 'b')
+      await dm.updateRecord('comments', 'c', { body: 'Not indexed' })
+
+      expect(batches).toHaveLength(3)
+      expect(batches.map((batch) => batch.map((statement) => statement.sql.split(' ')[0]))).toEqual(
+        [
+          ['INSERT', 'DELETE', 'INSERT'],
+          ['UPDATE', 'DELETE', 'INSERT'],
+          ['DELETE', 'DELETE', 'INSERT'],
+        ]
+      )
+      expect(batches[0][2].params).toEqual(['n'])
+      expect(batches[1][1].sql).toMatch(/^DELETE FROM "_fts_posts"/)
+      expect(batches[1][2].params).toEqual(['a'])
+      expect(batches[2][2].params).toEqual(['b'])
+    })
+
+    it('should sync the index in the same batch as bulk writes', async () => {
+      const { db, batches } = createSearchDatabase()
+      const dm = new DataManager(db)
+
+      await dm.bulkCreateRecords('posts', [
+        { id: 'a', title: 'First' },
+        { id: 'b', title: 'Second' },
+      ])
+
+      expect(batches).toHaveLength(1)
+      expect(batches[0].map((statement) => statement.sql.split(' ')[0])).toEqual([
+        'INSERT',
+        'INSERT',
+        'DELETE',
+        'INSERT',
+      ])
+      expect(batches[0][3].sql).toContain('INTO "_fts_posts"')
+    })
+
+    it('should rank results and apply access conditions', async () => {
+      const { db, executed } = createSearchDatabase([
+        { id: '1', title: 'Hello', owner_id: 'u1', _fts_id: '1', _fts_rank: -2 },
+      ])
+      const dm = new DataManager(db)
+
+      const result = await dm.searchFullText('posts', {
+        query: 'hello',
+        limit: 10,
+        accessPolicy: 'private',
+        userId: 'u1',
+      })
+
+      expect(result.total).toBe(1)
+      expect(result.data).toEqual([
+        { id: '1', title: 'Hello', owner_id: 'u1', _search: { score: 2, snippets: {} } },
+      ])
+      const query = executed.find((statement) => statement.sql.includes('ORDER BY'))
+      expect(query?.sql).toContain('WHERE owner_id = ? ORDER BY matches._fts_rank LIMIT ? OFFSET ?')
+      expect(query?.params).toEqual(['("hello")', 'u1', 10, 0])
+    })
+
+    it('should fail when full-text search is not enabled', async () => {
+      const { db } = createSearchDatabase()
+      await expect(
+        new DataManager(db).searchFullText('comments', { query: 'hello' })
+      ).rejects.toThrow("Full-text search is not enabled on table 'comments'")
+    })
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { checkPresetInput, isValidPresetName } from '../../lib/image-presets'
+
+describe('checkPresetInput', () => {
+  it('should accept a format with any of the optional settings', () => {
+    expect(checkPresetInput({ format: 'webp' })).toBeNull()
+    expect(
+      checkPresetInput({ width: 320, height: null, fit: 'cover', format: 'avif', quality: 50 })
+    ).toBeNull()
+  })
+
+  it('should refuse sizes, fits, formats and qualities outside the limits', () => {
+    expect(checkPresetInput({ width: 0, format: 'webp' })).toBe(
+      'width must be between 1 and 4096 pixels'
+    )
+    expect(checkPresetInput({ height: 10_000, format: 'webp' })).toMatch(/^height/)
+    expect(checkPresetInput({ fit: 'stretch' as never, format: 'webp' })).toMatch(/^fit/)
+    expect(checkPresetInput({ format: 'gif' as never })).toMatch(/^format/)
+    expect(checkPresetInput({})).toMatch(/^format/)
+    expect(checkPresetInput({ format: 'jpeg', quality: 101 })).toBe(
+      'quality must be between 1 and 100'
+    )
+  })
+
+  it('should accept single-segment preset names only', () => {
+    expect(isValidPresetName('thumb_2x')).toBe(true)
+    expect(isValidPresetName('a/b')).toBe(false)
+  })
+})
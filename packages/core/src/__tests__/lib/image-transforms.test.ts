@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkSourceImage,
+  decodeImage,
+  detectImageFormat,
+  MAX_SOURCE_PIXELS,
+  planTransform,
+  readImageSize,
+  renderImage,
+} from '../../lib/image-transforms'
+
+// A gradient image, so resizing has something to average
+function gradient(width: number, height: number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    data.set([(i % width) * 4, Math.floor(i / width) * 4, 128, 255], i * 4)
+  }
+  return { data, width, height }
+}
+
+describe('planTransform', () => {
+  const photo = { width: 4000, height: 3000 }
+
+  it('should fit inside the box without enlarging', () => {
+    expect(planTransform(photo, { width: 400, height: 400, fit: 'contain' })).toMatchObject({
+      width: 400,
+      height: 300,
+    })
+    expect(planTransform(photo, { width: 400, height: null, fit: 'cover' })).toMatchObject({
+      width: 400,
+      height: 300,
+    })
+    expect(
+      planTransform({ width: 100, height: 50 }, { width: 400, height: 400, fit: 'contain' })
+    ).toMatchObject({ width: 100, height: 50 })
+  })
+
+  it('should crop around the centre to cover the box', () => {
+    expect(planTransform(photo, { width: 200, height: 200, fit: 'cover' })).toEqual({
+      crop: { x: 500, y: 0, width: 3000, height: 3000 },
+      width: 200,
+      height: 200,
+    })
+    expect(planTransform(photo, { width: 400, height: 100, fit: 'cover' })).toEqual({
+      crop: { x: 0, y: 1000, width: 4000, height: 1000 },
+      width: 400,
+      height: 100,
+    })
+  })
+
+  it('should stretch to fill the box', () => {
+    expect(planTransform(photo, { width: 100, height: 100, fit: 'fill' })).toMatchObject({
+      crop: { x: 0, y: 0, width: 4000, height: 3000 },
+      width: 100,
+      height: 100,
+    })
+  })
+})
+
+describe('renderImage', () => {
+  it('should encode each format and decode what it encodes', async () => {
+    const source = gradient(64, 48)
+
+    const webp = await renderImage(source, {
+      width: 16,
+      height: 16,
+      fit: 'cover',
+      format: 'webp',
+      quality: 75,
+    })
+    expect(detectImageFormat(new Uint8Array(webp))).toBe('webp')
+    const thumbnail = await decodeImage(webp, 'webp')
+    expect([thumbnail.width, thumbnail.height]).toEqual([16, 16])
+
+    const jpeg = await renderImage(thumbnail, {
+      width: null,
+      height: null,
+      fit: 'contain',
+      format: 'jpeg',
+      quality: 80,
+    })
+    expect(detectImageFormat(new Uint8Array(jpeg))).toBe('jpeg')
+
+    const avif = await renderImage(source, {
+      width: 8,
+      height: null,
+      fit: 'contain',
+      format: 'avif',
+      quality: 50,
+    })
+    expect(detectImageFormat(new Uint8Array(avif))).toBe('avif')
+  })
+
+  it('should leave files that are not images unrecognised', () => {
+    expect(detectImageFormat(new TextEncoder().encode('not an image at all'))).toBeNull()
+  })
+})
+
+describe('readImageSize', () => {
+  it('should read the size of encoded images from their header', async () => {
+    const source = gradient(40, 30)
+    for (const format of ['jpeg', 'webp', 'avif'] as const) {
+      const image = new Uint8Array(
+        await renderImage(source, {
+          width: null,
+          height: null,
+          fit: 'contain',
+          format,
+          quality: 60,
+        })
+      )
+      expect(readImageSize(image, format)).toEqual({ width: 40, height: 30 })
+    }
+  })
+
+  it('should read PNG and extended WebP headers', () => {
+    const png = new Uint8Array(24)
+    png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13])
+    png.set(new TextEncoder().encode('IHDR'), 12)
+    new DataView(png.buffer).setUint32(16, 5000)
+    new DataView(png.buffer).setUint32(20, 4000)
+    expect(readImageSize(png, 'png')).toEqual({ width: 5000, height: 4000 })
+
+    // VP8X stores the canvas size minus one in 24 bits
+    const webp = new Uint8Array(30)
+    webp.set(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8X'))
+    webp.set([0x87, 0x13, 0x00, 0x9f, 0x0f, 0x00], 24)
+    expect(readImageSize(webp, 'webp')).toEqual({ width: 5000, height: 4000 })
+  })
+
+  it('should refuse truncated headers', () => {
+    expect(readImageSize(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00]), 'jpeg')).toBeNull()
+    expect(readImageSize(new Uint8Array(16), 'png')).toBeNull()
+  })
+
+  it('should reject sources above the pixel limit before decoding', () => {
+    expect(checkSourceImage({ width: 2000, height: 2000 })).toBeNull()
+    expect(checkSourceImage({ width: 5000, height: 4000 })).toBe(
+      `Images larger than ${MAX_SOURCE_PIXELS} pixels cannot be transformed`
+    )
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest'
+import { type JobDefinition, JobRunner } from '../../lib/job-runner'
+import { createStubDatabase, type RecordedStatement } from '../helpers/stub-d1'
+
+interface JobState {
+  name: string
+  enabled: number
+  interval_minutes: number
+  next_run_at: string | null
+}
+
+// `states` are the rows of background_jobs; claims succeed unless `taken` lists the job as taken
+// by another invocation
+function createJobDatabase(states: JobState[] = [], taken: string[] = []) {
+  return createStubDatabase({
+    run: (_sql, params) => (taken.includes(params[0] as string) ? 0 : 1),
+    all: (sql) => (sql.includes('FROM background_jobs') ? states : []),
+  })
+}
+
+function job(name: string, run: () => Promise<string> = async () => 'done'): JobDefinition {
+  return { name, description: name, intervalMinutes: 60, run: vi.fn(run) }
+}
+
+const claims = (statements: RecordedStatement[]) =>
+  statements.filter((statement) => statement.sql.startsWith('INSERT INTO background_jobs'))
+
+const recordedRuns = (batches: RecordedStatement[][]) =>
+  batches.flat().filter((statement) => statement.sql.startsWith('INSERT INTO background_job_runs'))
+
+const now = new Date('2024-01-01T12:00:00.000Z')
+
+describe('JobRunner', () => {
+  describe('runDue', () => {
+    it('should run jobs never scheduled and move their next run by their interval', async () => {
+      const { db, executed, batches } = createJobDatabase()
+      const cleanup = job('cleanup')
+
+      const runs = await new JobRunner(db, [cleanup]).runDue(now)
+
+      expect(cleanup.run).toHaveBeenCalledTimes(1)
+      expect(runs).toMatchObject([
+        { job_name: 'cleanup', triggered_by: 'schedule', status: 'success', message: 'done' },
+      ])
+      const [claim] = claims(executed)
+      expect(claim.params.slice(0, 3)).toEqual(['cleanup', 60, '2024-01-01T13:00:00.000Z'])
+      expect(claim.params[4]).toBeNull()
+      expect(recordedRuns(batches)).toHaveLength(1)
+    })
+
+    it('should only run enabled jobs that are due, allowing for late cron ticks', async () => {
+      const { db } = createJobDatabase([
+        { name: 'due', enabled: 1, interval_minutes: 5, next_run_at: '2024-01-01T12:00:30.000Z' },
+        { name: 'later', enabled: 1, interval_minutes: 5, next_run_at: '2024-01-01T12:05:00.000Z' },
+        { name: 'paused', enabled: 0, interval_minutes: 5, next_run_at: null },
+      ])
+      const jobs = [job('due'), job('later'), job('paused')]
+
+      const runs = await new JobRunner(db, jobs).runDue(now)
+
+      expect(runs.map((run) => run.job_name)).toEqual(['due'])
+      expect(jobs[1].run).not.toHaveBeenCalled()
+      expect(jobs[2].run).not.toHaveBeenCalled()
+    })
+
+    it('should record a failed job and go on with the others', async () => {
+      const { db, batches } = createJobDatabase()
+      const jobs = [
+        job('broken', async () => {
+          throw new Error('Storage unavailable')
+        }),
+        job('cleanup'),
+      ]
+
+      const runs = await new JobRunner(db, jobs).runDue(now)
+
+      expect(runs.map((run) => run.status)).toEqual(['failed', 'success'])
+      const [failure] = recordedRuns(batches)
+      expect(failure.params.slice(1, 5)).toEqual([
+        'broken',
+        'schedule',
+        'failed',
+        'Storage unavailable',
+      ])
+    })
+
+    it('should skip a job another invocation already claimed', async () => {
+      const { db } = createJobDatabase([], ['cleanup'])
+      const cleanup = job('cleanup')
+
+      const runs = await new JobRunner(db, [cleanup]).runDue(now)
+
+      expect(runs).toEqual([])
+      expect(cleanup.run).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('runJob', () => {
+    it('should run a job outside of its schedule', async () => {
+      const { db, executed } = createJobDatabase([
+        { name: 'cleanup', enabled: 0, interval_minutes: 60, next_run_at: null },
+      ])
+
+      const run = await new JobRunner(db, [job('cleanup')]).runJob('cleanup')
+
+      expect(run).toMatchObject({ job_name: 'cleanup', triggered_by: 'manual', status: 'success' })
+      expect(claims(executed)).toHaveLength(0)
+    })
+
+    it('should return null for jobs that are not registered', async () => {
+      const { db } = createJobDatabase()
+
+      expect(await new JobRunner(db, [job('cleanup')]).runJob('unknown')).toBeNull()
+    })
+  })
+})
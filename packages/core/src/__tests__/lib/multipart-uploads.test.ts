@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkMultipartInput,
+  checkPartsComplete,
+  MIN_PART_SIZE,
+  type MultipartPart,
+  type MultipartUpload,
+  MultipartUploadManager,
+} from '../../lib/multipart-uploads'
+import type { R2Bucket, R2UploadedPart } from '../../types/cloudflare'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// D1 stub keeping uploads and parts in maps
+function createUploadDatabase() {
+  const uploads = new Map<string, MultipartUpload>()
+  const parts = new Map<string, MultipartPart>()
+
+  const { db } = createStubDatabase({
+    run: (sql, params) => {
+      if (sql.startsWith('INSERT INTO storage_multipart_uploads')) {
+        const [id, object_key, content_type, part_size, total_size, created_by, created_at] =
+          params as [string, string, string, number, number | null, string | null, string]
+        uploads.set(id, {
+          id,
+          object_key,
+          content_type,
+          part_size,
+          total_size,
+          created_by,
+          created_at,
+        })
+      }
+      if (sql.startsWith('INSERT INTO storage_multipart_parts')) {
+        const [uploadId, part_number, etag, size, uploaded_at] = params as [
+          string,
+          number,
+          string,
+          number,
+          string,
+        ]
+        parts.set(`${uploadId}:${part_number}`, { part_number, etag, size, uploaded_at })
+      }
+      return 1
+    },
+    first: (_sql, params) => uploads.get(params[0] as string),
+    all: (_sql, params) =>
+      [...parts.entries()]
+        .filter(([key]) => key.startsWith(`${params[0]}:`))
+        .map(([, part]) => part)
+        .sort((a, b) => a.part_number - b.part_number),
+    batch: (statements) => {
+      for (const statement of statements) {
+        if (statement.sql.startsWith('DELETE FROM storage_multipart_uploads')) {
+          uploads.delete(statement.params[0] as string)
+        }
+        if (statement.sql.startsWith('DELETE FROM storage_multipart_parts')) {
+          for (const key of parts.keys()) {
+            if (key.startsWith(`${statement.params[0]}:`)) parts.delete(key)
+          }
+        }
+      }
+      return undefined
+    },
+  })
+
+  return { db, uploads, parts }
+}
+
+// R2 bucket stub recording the parts it receives and the parts it is completed with
+function createStubBucket() {
+  const completed: R2UploadedPart[][] = []
+  const multipartUpload = (key: string, uploadId: string) => ({
+    key,
+    uploadId,
+    uploadPart: async (partNumber: number) => ({ partNumber, etag: `etag-${partNumber}` }),
+    abort: async () => {},
+    complete: async (uploadedParts: R2UploadedPart[]) => {
+      completed.push(uploadedParts)
+      return { key, size: 0, uploaded: new Date(), etag: 'final' }
+    },
+  })
+
+  const bucket = {
+    createMultipartUpload: async (key: string) => multipartUpload(key, 'upload-1'),
+    resumeMultipartUpload: multipartUpload,
+  }
+  return { bucket: bucket as unknown as R2Bucket, completed }
+}
+
+const part = (part_number: number, size: number): MultipartPart => ({
+  part_number,
+  etag: `etag-${part_number}`,
+  size,
+  uploaded_at: '2024-01-01T00:00:00.000Z',
+})
+
+describe('checkPartsComplete', () => {
+  it('should accept equal parts followed by a smaller last part', () => {
+    expect(checkPartsComplete([part(1, MIN_PART_SIZE), part(2, MIN_PART_SIZE), part(3, 10)])).toBe(
+      null
+    )
+    expect(checkPartsComplete([part(1, 10)])).toBe(null)
+  })
+
+  it('should name the problem of an incomplete upload', () => {
+    expect(checkPartsComplete([])).toBe('No parts have been uploaded')
+    expect(checkPartsComplete([part(1, MIN_PART_SIZE), part(3, 10)])).toBe('Part 2 is missing')
+    expect(checkPartsComplete([part(1, 10), part(2, 10)])).toBe(
+      `Every part but the last must be at least ${MIN_PART_SIZE} bytes`
+    )
+    expect(checkPartsComplete([part(1, MIN_PART_SIZE), part(2, MIN_PART_SIZE + 1)])).toBe(
+      `Part 2 is ${MIN_PART_SIZE + 1} bytes; every part but the last must be ${MIN_PART_SIZE} bytes`
+    )
+  })
+})
+
+describe('checkMultipartInput', () => {
+  it('should refuse part sizes R2 cannot assemble and files of too many parts', () => {
+    expect(checkMultipartInput({ key: 'a.mp4', partSize: 1024 })).toMatch(/^part_size must be/)
+    expect(checkMultipartInput({ key: 'a.mp4', totalSize: MIN_PART_SIZE * 20_000 })).toMatch(
+      /more than 10000 parts/
+    )
+    expect(checkMultipartInput({ key: 'a.mp4', totalSize: 1 })).toBe(null)
+  })
+})
+
+describe('MultipartUploadManager', () => {
+  it('should record parts, resume from them and complete the upload in order', async () => {
+    const { db, uploads, parts } = createUploadDatabase()
+    const { bucket, completed } = createStubBucket()
+    const manager = new MultipartUploadManager(db, bucket)
+
+    const upload = await manager.create({ key: 'videos/a.mp4', contentType: 'video/mp4' })
+    expect(upload).toMatchObject({ id: 'upload-1', part_size: 8 * 1024 * 1024 })
+
+    await manager.uploadPart(upload, 2, new ArrayBuffer(10), 10)
+    await manager.uploadPart(upload, 1, new ArrayBuffer(MIN_PART_SIZE), MIN_PART_SIZE)
+
+    const stored = await manager.listParts(upload.id)
+    expect(stored.map((p) => [p.part_number, p.size])).toEqual([
+      [1, MIN_PART_SIZE],
+      [2, 10],
+    ])
+
+    await manager.complete(upload, stored)
+    expect(completed).toEqual([
+      [
+        { partNumber: 1, etag: 'etag-1' },
+        { partNumber: 2, etag: 'etag-2' },
+      ],
+    ])
+    expect(uploads.size).toBe(0)
+    expect(parts.size).toBe(0)
+  })
+
+  it('should refuse part numbers out of range', async () => {
+    const { db } = createUploadDatabase()
+    const manager = new MultipartUploadManager(db, createStubBucket().bucket)
+    const upload = await manager.create({ key: 'a.bin' })
+
+    await expect(manager.uploadPart(upload, 0, new ArrayBuffer(1), 1)).rejects.toThrow(
+      'Part number must be between 1 and 10000'
+    )
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { compileFilter } from '../../lib/query-filter'
+
+describe('Query Filter', () => {
+  const columns = ['id', 'name', 'age', 'status', 'deleted_at']
+
+  it('should keep plain values as equality checks', () => {
+    const result = compileFilter({ name: 'Alice', age: 30 }, columns)
+    expect(result.sql).toBe('"name" = ? AND "age" = ?')
+    expect(result.params).toEqual(['Alice', 30])
+  })
+
+  it('should compile comparison operators', () => {
+    const result = compileFilter({ age: { gte: 18, lt: 65 }, status: { ne: 'banned' } }, columns)
+    expect(result.sql).toBe('"age" >= ? AND "age" < ? AND "status" != ?')
+    expect(result.params).toEqual([18, 65, 'banned'])
+  })
+
+  it('should compile list, range and null operators', () => {
+    const result = compileFilter(
+      {
+        status: { in: ['active', 'pending'] },
+        age: { between: [20, 30] },
+        deleted_at: { is_null: true },
+      },
+      columns
+    )
+    expect(result.sql).toBe('"status" IN (?, ?) AND "age" BETWEEN ? AND ? AND "deleted_at" IS NULL')
+    expect(result.params).toEqual(['active', 'pending', 20, 30])
+  })
+
+  it('should treat null equality as IS NULL', () => {
+    expect(compileFilter({ deleted_at: null }, columns).sql).toBe('"deleted_at" IS NULL')
+    expect(compileFilter({ deleted_at: { ne: null } }, columns).sql).toBe(
+      '"deleted_at" IS NOT NULL'
+    )
+  })
+
+  it('should compile like as GLOB and ilike as LIKE', () => {
+    const result = compileFilter({ name: { like: 'Al%_*' }, status: { ilike: 'act%' } }, columns)
+    expect(result.sql).toBe('"name" GLOB ? AND "status" LIKE ?')
+    expect(result.params).toEqual(['Al*?[*]', 'act%'])
+  })
+
+  it('should compile nested and/or groups', () => {
+    const result = compileFilter(
+      {
+        or: [{ status: 'active' }, { and: [{ age: { gt: 60 } }, { name: { ne: 'root' } }] }],
+      },
+      columns
+    )
+    expect(result.sql).toBe('(("status" = ?) OR ((("age" > ?) AND ("name" != ?))))')
+    expect(result.params).toEqual(['active', 60, 'root'])
+  })
+
+  it('should handle empty lists', () => {
+    expect(compileFilter({ status: { in: [] } }, columns).sql).toBe('1 = 0')
+    expect(compileFilter({ status: { not_in: [] } }, columns).sql).toBe('1 = 1')
+    expect(compileFilter({ or: [] }, columns).sql).toBe('1 = 0')
+    expect(compileFilter({}, columns).sql).toBe('')
+  })
+
+  it('should reject unknown columns and operators', () => {
+    expect(() => compileFilter({ password: 'x' }, columns)).toThrow(
+      "Invalid filter field 'password'"
+    )
+    expect(() => compileFilter({ age: { regex: '.*' } as never }, columns)).toThrow(
+      "Unsupported filter operator 'regex'"
+    )
+    expect(() => compileFilter({ or: [{ password: 'x' }] }, columns)).toThrow(
+      "Invalid filter field 'password'"
+    )
+  })
+
+  it('should reject malformed operator values', () => {
+    expect(() => compileFilter({ age: { in: 5 } as never }, columns)).toThrow(
+      "'in' on 'age' requires an array of values"
+    )
+    expect(() => compileFilter({ age: { between: [1] } as never }, columns)).toThrow(
+      "'between' on 'age' requires exactly two values"
+    )
+    expect(() => compileFilter({ name: { like: 5 } as never }, columns)).toThrow(
+      "'like' on 'name' requires a string pattern"
+    )
+    expect(() => compileFilter({ age: {} }, columns)).toThrow('at least one operator')
+  })
+
+  it('should reject deeply nested filters', () => {
+    let where: Parameters<typeof compileFilter>[0] = { id: '1' }
+    for (let i = 0; i < 10; i++) {
+      where = { and: [where] }
+    }
+    expect(() => compileFilter(where, columns)).toThrow('nested too deeply')
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { RealtimeAccessFilter, type RealtimeEventTarget } from '../../lib/realtime-access'
+import type { PolicyCondition } from '../../lib/row-policy'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// `posts` rows are stored in `rows`; `policy` is the table access policy and `readPolicy` the
+// read row policy; row policies on row images are evaluated by `evaluateImage`
+function createAccessDatabase(options: {
+  policy?: 'public' | 'private'
+  readPolicy?: PolicyCondition
+  rows?: Record<string, unknown>[]
+  evaluateImage?: (params: unknown[]) => boolean
+}) {
+  return createStubDatabase({
+    first: (sql, params) => {
+      if (sql.includes('FROM table_policies')) {
+        return options.policy ? { access_policy: options.policy } : null
+      }
+      if (sql.includes('FROM table_row_policies')) {
+        return options.readPolicy ? { condition: JSON.stringify(options.readPolicy) } : null
+      }
+      if (sql.startsWith('SELECT 1 AS allowed')) {
+        return options.evaluateImage?.(params) ? { allowed: 1 } : null
+      }
+      if (sql.startsWith('SELECT "id" FROM "posts"')) {
+        const [id, ownerId] = params
+        const row = (options.rows ?? []).find((candidate) => candidate.id === id)
+        if (!row) return null
+        return sql.includes('owner_id = ?') && row.owner_id !== ownerId ? null : { id }
+      }
+      return null
+    },
+  })
+}
+
+const event = (
+  eventType: RealtimeEventTarget['eventType'],
+  data: Record<string, unknown> = { title: 'Updated' },
+  table = 'posts'
+): RealtimeEventTarget => ({ table, recordId: 'p1', eventType, data })
+
+describe('RealtimeAccessFilter', () => {
+  it('should deliver every event to admin and API key connections', async () => {
+    const { db, executed } = createAccessDatabase({ policy: 'private' })
+    const canReceive = new RealtimeAccessFilter(db).forEvent(event('update'))
+
+    expect(await canReceive({})).toBe(true)
+    expect(executed).toHaveLength(0)
+  })
+
+  it('should deliver changes of private tables only to the owner of the stored row', async () => {
+    const { db } = createAccessDatabase({
+      policy: 'private',
+      rows: [{ id: 'p1', owner_id: 'u1' }],
+    })
+    // The update payload holds only the changed columns, so the stored row decides
+    const canReceive = new RealtimeAccessFilter(db).forEvent(event('update'))
+
+    expect(await canReceive({ userId: 'u1' })).toBe(true)
+    expect(await canReceive({ userId: 'u2' })).toBe(false)
+  })
+
+  it('should deliver changes of public tables to every user who can read the row', async () => {
+    const { db } = createAccessDatabase({ policy: 'public', rows: [{ id: 'p1', owner_id: 'u1' }] })
+    const canReceive = new RealtimeAccessFilter(db).forEvent(event('insert'))
+
+    expect(await canReceive({ userId: 'u2' })).toBe(true)
+  })
+
+  it('should check deletes against the deleted row', async () => {
+    const { db } = createAccessDatabase({ policy: 'private' })
+    const canReceive = new RealtimeAccessFilter(db).forEvent(
+      event('delete', { id: 'p1', owner_id: 'u1' })
+    )
+
+    expect(await canReceive({ userId: 'u1' })).toBe(true)
+    expect(await canReceive({ userId: 'u2' })).toBe(false)
+  })
+
+  it('should evaluate read row policies against the deleted row', async () => {
+    const { db, executed } = createAccessDatabase({
+      policy: 'private',
+      readPolicy: { column: 'team', op: 'eq', value: { auth: 'role' } },
+      evaluateImage: (params) => params[0] === params[1],
+    })
+    const canReceive = new RealtimeAccessFilter(db).forEvent(
+      event('delete', { id: 'p1', team: 'red' })
+    )
+
+    expect(await canReceive({ userId: 'u1', role: 'red' })).toBe(true)
+    expect(await canReceive({ userId: 'u2', role: 'blue' })).toBe(false)
+
+    const check = executed.find((statement) => statement.sql.startsWith('SELECT 1 AS allowed'))
+    expect(check?.sql).toBe('SELECT 1 AS allowed FROM (SELECT ? AS "team") WHERE ("team" = ?)')
+  })
+
+  it('should bind only the columns the policy reads from wide deleted rows', async () => {
+    const { db, executed } = createAccessDatabase({
+      policy: 'private',
+      readPolicy: { column: 'team', op: 'eq', value: 'red' },
+      evaluateImage: (params) => params[0] === params[1],
+    })
+    // More columns than D1 accepts as bound parameters in one statement
+    const wideRow: Record<string, unknown> = { id: 'p1', team: 'red' }
+    for (let i = 0; i < 150; i++) wideRow[`column_${i}`] = `value ${i}`
+    const canReceive = new RealtimeAccessFilter(db).forEvent(event('delete', wideRow))
+
+    expect(await canReceive({ userId: 'u1' })).toBe(true)
+
+    const check = executed.find((statement) => statement.sql.startsWith('SELECT 1 AS allowed'))
+    expect(check?.params).toEqual(['red', 'red'])
+  })
+
+  it('should evaluate each identity once per event and look policies up once', async () => {
+    const { db, executed } = createAccessDatabase({
+      policy: 'private',
+      rows: [{ id: 'p1', owner_id: 'u1' }],
+    })
+    const filter = new RealtimeAccessFilter(db)
+    const canReceive = filter.forEvent(event('update'))
+
+    await Promise.all([canReceive({ userId: 'u1' }), canReceive({ userId: 'u1' })])
+    await filter.forEvent(event('update'))({ userId: 'u1' })
+
+    const count = (fragment: string) =>
+      executed.filter((statement) => statement.sql.includes(fragment)).length
+    expect(count('FROM table_policies')).toBe(1)
+    expect(count('FROM table_row_policies')).toBe(1)
+    expect(count('FROM "posts"')).toBe(2)
+  })
+
+  it('should never deliver system table events to end users', async () => {
+    const { db, executed } = createAccessDatabase({ policy: 'public' })
+    const canReceive = new RealtimeAccessFilter(db).forEvent(event('insert', {}, 'api_keys'))
+
+    expect(await canReceive({ userId: 'u1' })).toBe(false)
+    expect(executed).toHaveLength(0)
+  })
+})
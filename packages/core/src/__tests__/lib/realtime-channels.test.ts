@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { canJoinChannel, MAX_PRESENCE_BYTES, parseChannelFrame } from '../../lib/realtime-channels'
+
+describe('parseChannelFrame', () => {
+  it('should accept join, track and broadcast messages', () => {
+    expect(parseChannelFrame({ type: 'join', channel: 'doc:42', extra: true })).toEqual({
+      type: 'join',
+      channel: 'doc:42',
+    })
+    expect(
+      parseChannelFrame({ type: 'track', channel: 'doc:42', presence: { name: 'Ada' } })
+    ).toEqual({ type: 'track', channel: 'doc:42', presence: { name: 'Ada' } })
+    expect(
+      parseChannelFrame({
+        type: 'broadcast',
+        channel: 'doc:42',
+        event: 'cursor',
+        payload: { x: 1, y: 2 },
+      })
+    ).toEqual({ type: 'broadcast', channel: 'doc:42', event: 'cursor', payload: { x: 1, y: 2 } })
+  })
+
+  it('should reject invalid channels, presence and events', () => {
+    expect(() => parseChannelFrame({ type: 'join', channel: 'doc 42' })).toThrow('channel must')
+    expect(() => parseChannelFrame({ type: 'shout', channel: 'doc' })).toThrow('type must')
+    expect(() => parseChannelFrame({ type: 'track', channel: 'doc', presence: [] })).toThrow(
+      'presence must be an object'
+    )
+    expect(() =>
+      parseChannelFrame({
+        type: 'track',
+        channel: 'doc',
+        presence: { name: 'x'.repeat(MAX_PRESENCE_BYTES) },
+      })
+    ).toThrow(`presence must not exceed ${MAX_PRESENCE_BYTES} bytes`)
+    expect(() => parseChannelFrame({ type: 'broadcast', channel: 'doc' })).toThrow('event must')
+  })
+})
+
+describe('canJoinChannel', () => {
+  it('should keep user channels private to their user', () => {
+    expect(canJoinChannel('user:u1', { userId: 'u1' })).toBe(true)
+    expect(canJoinChannel('user:u1:typing', { userId: 'u1' })).toBe(true)
+    expect(canJoinChannel('user:u1', { userId: 'u2' })).toBe(false)
+    expect(canJoinChannel('user:u10', { userId: 'u1' })).toBe(false)
+  })
+
+  it('should let users join shared channels and admins join any channel', () => {
+    expect(canJoinChannel('doc:42', { userId: 'u2' })).toBe(true)
+    expect(canJoinChannel('user:u1', {})).toBe(true)
+  })
+})
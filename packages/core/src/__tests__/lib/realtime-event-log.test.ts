@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EVENT_LOG_RETENTION,
+  formatEventId,
+  parseEventId,
+  parseSequenceCursor,
+  RealtimeEventLog,
+} from '../../lib/realtime-event-log'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// `rows` are the logged events of `posts`, whose last sequence is `lastSeq`; the insert of an
+// appended event returns `lastSeq + 1`
+function createEventLogDatabase(rows: Array<{ seq: number }> = [], lastSeq = 0) {
+  const toRow = ({ seq }: { seq: number }) => ({
+    id: `evt-${seq}`,
+    table_name: 'posts',
+    seq,
+    record_id: `p${seq}`,
+    event_type: 'insert',
+    event_data: JSON.stringify({ id: `p${seq}` }),
+    created_at: '2024-01-01T00:00:00Z',
+  })
+
+  return createStubDatabase({
+    all: (sql, params) => {
+      if (sql.includes('FROM realtime_sequences')) {
+        return lastSeq > 0 ? [{ table_name: 'posts', last_seq: lastSeq }] : []
+      }
+      const [, afterSeq, untilSeq] = params as [string, number, number]
+      return rows.filter((row) => row.seq > afterSeq && row.seq <= untilSeq).map(toRow)
+    },
+    batch: () => [{ results: [] }, { results: [{ seq: lastSeq + 1 }] }, { results: [] }],
+  })
+}
+
+describe('parseSequenceCursor', () => {
+  it('should accept non-negative integer sequences per table', () => {
+    expect(parseSequenceCursor({ posts: 12, comments: 0 })).toEqual({ posts: 12, comments: 0 })
+    expect(() => parseSequenceCursor([1])).toThrow('since must be an object')
+    expect(() => parseSequenceCursor({ posts: -1 })).toThrow('since.posts must be')
+    expect(() => parseSequenceCursor({ posts: '3' })).toThrow('since.posts must be')
+  })
+})
+
+describe('event ids', () => {
+  it('should round-trip the table and sequence of an event', () => {
+    expect(formatEventId({ table: 'posts', seq: 42 })).toBe('posts:42')
+    expect(parseEventId('posts:42')).toEqual({ posts: 42 })
+    expect(parseEventId('V1StGXR8_Z5jdHi6B-myT')).toEqual({})
+  })
+})
+
+describe('RealtimeEventLog', () => {
+  it('should assign the next sequence of the table and trim old events in one batch', async () => {
+    const { db, batches } = createEventLogDatabase([], 41)
+    const eventLog = new RealtimeEventLog(db)
+
+    const event = await eventLog.append({
+      id: 'evt-42',
+      table: 'posts',
+      recordId: 'p42',
+      eventType: 'insert',
+      data: { id: 'p42' },
+      timestamp: '2024-01-01T00:00:00Z',
+    })
+
+    expect(event.seq).toBe(42)
+    expect(batches).toHaveLength(1)
+    expect(batches[0][0].sql).toContain('ON CONFLICT(table_name) DO UPDATE')
+    expect(batches[0][1].params).toEqual([
+      'evt-42',
+      'p42',
+      'insert',
+      '{"id":"p42"}',
+      '2024-01-01T00:00:00Z',
+      'posts',
+    ])
+    expect(batches[0][2].params).toEqual(['posts', 'posts', EVENT_LOG_RETENTION])
+  })
+
+  it('should replay the events after a sequence, up to the last one delivered', async () => {
+    const { db } = createEventLogDatabase([{ seq: 3 }, { seq: 4 }, { seq: 5 }], 5)
+    const eventLog = new RealtimeEventLog(db)
+
+    const replay = await eventLog.replay('posts', 2, 4)
+
+    expect(replay).toEqual({
+      gap: false,
+      events: [
+        expect.objectContaining({ id: 'evt-3', seq: 3, table: 'posts', data: { id: 'p3' } }),
+        expect.objectContaining({ id: 'evt-4', seq: 4 }),
+      ],
+    })
+    expect(await eventLog.replay('posts', 5)).toEqual({ gap: false, events: [] })
+  })
+
+  it('should report a gap when missed events are no longer kept', async () => {
+    const { db } = createEventLogDatabase([{ seq: 3 }, { seq: 4 }, { seq: 5 }], 5)
+    const eventLog = new RealtimeEventLog(db)
+
+    expect(await eventLog.replay('posts', 1)).toEqual({ gap: true, latestSeq: 5 })
+  })
+})
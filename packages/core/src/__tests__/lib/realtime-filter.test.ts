@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import type { RealtimeEventTarget } from '../../lib/realtime-access'
+import {
+  matchesFilter,
+  mergeSubscriptionSpecs,
+  parseRealtimeFilter,
+  parseSubscriptionSpecs,
+  RealtimeSubscriptionMatcher,
+} from '../../lib/realtime-filter'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// Returns `row` for single-row lookups
+const createRowDatabase = (row: Record<string, unknown> | null) =>
+  createStubDatabase({ first: () => row })
+
+const event = (
+  eventType: RealtimeEventTarget['eventType'],
+  data: Record<string, unknown>,
+  table = 'tasks'
+): RealtimeEventTarget => ({ table, recordId: 't1', eventType, data })
+
+describe('parseRealtimeFilter', () => {
+  it('should parse scalar and list filters', () => {
+    expect(parseRealtimeFilter('status=eq.open')).toEqual({
+      column: 'status',
+      op: 'eq',
+      value: 'open',
+    })
+    expect(parseRealtimeFilter('project_id=in.(a,b)')).toEqual({
+      column: 'project_id',
+      op: 'in',
+      value: ['a', 'b'],
+    })
+    expect(parseRealtimeFilter('archived_at=is_null.true')).toEqual({
+      column: 'archived_at',
+      op: 'is_null',
+      value: true,
+    })
+  })
+
+  it('should reject malformed filters', () => {
+    expect(() => parseRealtimeFilter('status')).toThrow('Expected column=operator.value')
+    expect(() => parseRealtimeFilter('status=matches.open')).toThrow('Unsupported filter operator')
+    expect(() => parseRealtimeFilter('project_id=in.a,b')).toThrow('requires a list')
+    expect(() => parseRealtimeFilter('score=between.(1)')).toThrow('exactly two values')
+  })
+})
+
+describe('parseSubscriptionSpecs', () => {
+  it('should default the id to the table name and validate filters', () => {
+    expect(
+      parseSubscriptionSpecs([
+        { table: 'tasks', events: ['insert', 'insert'], filters: ['status=eq.open'] },
+      ])
+    ).toEqual([{ id: 'tasks', table: 'tasks', events: ['insert'], filters: ['status=eq.open'] }])
+
+    expect(() => parseSubscriptionSpecs([{ table: 'tasks', events: ['upsert'] }])).toThrow(
+      'events must be a list'
+    )
+    expect(() => parseSubscriptionSpecs([{ table: 'tasks', filters: ['status'] }])).toThrow(
+      'Invalid filter'
+    )
+  })
+
+  it('should replace subscriptions with the same id when merging', () => {
+    const merged = mergeSubscriptionSpecs(
+      [
+        { id: 'a', table: 'tasks' },
+        { id: 'b', table: 'projects' },
+      ],
+      [{ id: 'a', table: 'tasks', filters: ['status=eq.open'] }]
+    )
+
+    expect(merged).toEqual([
+      { id: 'b', table: 'projects' },
+      { id: 'a', table: 'tasks', filters: ['status=eq.open'] },
+    ])
+  })
+})
+
+describe('matchesFilter', () => {
+  it('should compare numbers numerically and follow SQL null semantics', () => {
+    expect(matchesFilter(10, parseRealtimeFilter('priority=gt.9'))).toBe(true)
+    expect(matchesFilter(10, parseRealtimeFilter('priority=between.(1,5)'))).toBe(false)
+    expect(matchesFilter(null, parseRealtimeFilter('status=ne.open'))).toBe(false)
+    expect(matchesFilter(null, parseRealtimeFilter('status=eq.null'))).toBe(true)
+    expect(matchesFilter('Open', parseRealtimeFilter('status=ilike.op%'))).toBe(true)
+    expect(matchesFilter('Open', parseRealtimeFilter('status=like.op%'))).toBe(false)
+  })
+})
+
+describe('RealtimeSubscriptionMatcher', () => {
+  it('should match by table, event type and filters', async () => {
+    const matcher = new RealtimeSubscriptionMatcher(
+      undefined,
+      event('insert', { id: 't1', status: 'open', project_id: 'b' })
+    )
+
+    const ids = await matcher.matchingIds([
+      { id: 'open', table: 'tasks', filters: ['status=eq.open', 'project_id=in.(a,b)'] },
+      { id: 'closed', table: 'tasks', filters: ['status=eq.closed'] },
+      { id: 'deletes', table: 'tasks', events: ['delete'] },
+      { id: 'all', table: '*' },
+      { id: 'projects', table: 'projects' },
+    ])
+
+    expect(ids).toEqual(['open', 'all'])
+  })
+
+  it('should read columns missing from an update from the stored row once', async () => {
+    const { db, executed } = createRowDatabase({ id: 't1', status: 'open', project_id: 'a' })
+    const matcher = new RealtimeSubscriptionMatcher(db, event('update', { title: 'Renamed' }))
+
+    const ids = await matcher.matchingIds([
+      { id: 'a', table: 'tasks', filters: ['project_id=eq.a'] },
+      { id: 'b', table: 'tasks', filters: ['project_id=eq.b'] },
+      { id: 'title', table: 'tasks', filters: ['title=eq.Renamed'] },
+    ])
+
+    expect(ids).toEqual(['a', 'title'])
+    expect(executed.map((statement) => statement.sql)).toEqual([
+      'SELECT * FROM "tasks" WHERE id = ?',
+    ])
+  })
+
+  it('should not match filtered subscriptions when the row cannot be read', async () => {
+    const matcher = new RealtimeSubscriptionMatcher(undefined, event('update', { title: 'x' }))
+
+    expect(await matcher.matches({ id: 'a', table: 'tasks', filters: ['status=eq.open'] })).toBe(
+      false
+    )
+  })
+})
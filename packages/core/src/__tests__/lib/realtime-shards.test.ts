@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  checkShardSubscriptions,
+  parseShardName,
+  publishRealtimeEvent,
+  resolveShardName,
+} from '../../lib/realtime-shards'
+import type { CustomDurableObjectNamespace } from '../../types/cloudflare'
+
+// Namespace stub recording which shard received which request
+// `failingShard` answers 500; `heldShard` only answers once `release` is called
+function createStubNamespace(failingShard?: string, heldShard?: string) {
+  const requests: Array<{ shard: string; url: string; body: unknown }> = []
+  let release = () => {}
+  const held = new Promise<void>((resolve) => {
+    release = resolve
+  })
+
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (shard: string) => ({
+      fetch: async (url: string, init: { body: string }) => {
+        requests.push({ shard, url, body: JSON.parse(init.body) })
+        if (shard === heldShard) await held
+        return new Response(null, { status: shard === failingShard ? 500 : 200 })
+      },
+    }),
+  }
+
+  return { namespace: namespace as unknown as CustomDurableObjectNamespace, requests, release }
+}
+
+const event = {
+  id: 'evt-1',
+  table: 'posts',
+  seq: 1,
+  recordId: 'p1',
+  eventType: 'insert' as const,
+  data: { id: 'p1' },
+  timestamp: '2024-01-01T00:00:00Z',
+}
+
+describe('resolveShardName', () => {
+  it('should use the table or channel of the connection', () => {
+    expect(resolveShardName({ table: 'posts' })).toBe('table:posts')
+    expect(resolveShardName({ table: '*' })).toBe('table:*')
+    expect(resolveShardName({ channel: 'doc:42' })).toBe('channel:doc:42')
+    expect(() => resolveShardName({ table: 'posts', channel: 'doc:42' })).toThrow('not both')
+  })
+
+  it('should infer the table from a single subscribed table', () => {
+    expect(resolveShardName({ tables: ['posts'], subscriptions: [{ table: 'posts' }] })).toBe(
+      'table:posts'
+    )
+    expect(() => resolveShardName({ tables: ['posts', 'comments'] })).toThrow(
+      'Each table needs its own connection'
+    )
+    expect(() => resolveShardName({})).toThrow('Specify the table or channel')
+  })
+})
+
+describe('checkShardSubscriptions', () => {
+  it('should only accept subscriptions to the table of the shard', () => {
+    const posts = parseShardName('table:posts')
+    expect(posts).toEqual({ kind: 'table', table: 'posts' })
+    if (!posts) return
+
+    expect(() => checkShardSubscriptions(posts, [{ id: 'a', table: 'posts' }])).not.toThrow()
+    expect(() => checkShardSubscriptions(posts, [{ id: 'b', table: 'comments' }])).toThrow(
+      "open another one for 'comments'"
+    )
+  })
+
+  it('should let the fan-out shard subscribe to any table and channels to none', () => {
+    const wildcard = parseShardName('table:*')
+    const channel = parseShardName('channel:doc:42')
+    expect(channel).toEqual({ kind: 'channel', channel: 'doc:42' })
+    if (!wildcard || !channel) return
+
+    expect(() => checkShardSubscriptions(wildcard, [{ id: 'a', table: 'posts' }])).not.toThrow()
+    expect(() => checkShardSubscriptions(channel, [{ id: 'a', table: 'posts' }])).toThrow(
+      'cannot subscribe to tables'
+    )
+    expect(parseShardName('global')).toBeNull()
+  })
+})
+
+describe('publishRealtimeEvent', () => {
+  it('should send events to the shard of their table and to the fan-out shard', async () => {
+    const { namespace, requests } = createStubNamespace()
+
+    const { fanOut } = await publishRealtimeEvent(namespace, event)
+    await fanOut
+
+    expect(requests).toEqual([
+      { shard: 'table:*', url: 'http://internal/broadcast', body: { type: 'event', event } },
+      { shard: 'table:posts', url: 'http://internal/broadcast', body: { type: 'event', event } },
+    ])
+  })
+
+  it('should fail when the shard of the table rejects the event', async () => {
+    const { namespace } = createStubNamespace('table:posts')
+
+    await expect(publishRealtimeEvent(namespace, event)).rejects.toThrow(
+      'Broadcast to table:posts failed: 500'
+    )
+  })
+
+  it('should not fail when only the fan-out shard rejects the event', async () => {
+    const { namespace } = createStubNamespace('table:*')
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const { fanOut } = await publishRealtimeEvent(namespace, event)
+    await fanOut
+
+    expect(consoleError).toHaveBeenCalledWith('Broadcast to table:* failed: 500')
+    consoleError.mockRestore()
+  })
+
+  it('should not wait for the fan-out shard', async () => {
+    const { namespace, release } = createStubNamespace(undefined, 'table:*')
+    let fannedOut = false
+
+    const { fanOut } = await publishRealtimeEvent(namespace, event)
+    const settled = fanOut.then(() => {
+      fannedOut = true
+    })
+
+    expect(fannedOut).toBe(false)
+    release()
+    await settled
+    expect(fannedOut).toBe(true)
+  })
+})
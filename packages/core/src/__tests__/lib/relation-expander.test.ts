@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from 'vitest'
+import { parseFieldList, pickColumns, validateSelect } from '../../lib/projection'
+import { describeRelations, RelationExpander } from '../../lib/relation-expander'
+import type { TableAccessController } from '../../lib/table-access-controller'
+import type { TableDataManager } from '../../lib/table-data-manager'
+import type { TableOperations } from '../../lib/table-operations'
+import type { D1Database } from '../../types/cloudflare'
+
+const foreignKeys = {
+  posts: [{ from: 'author_id', table: 'users', to: 'id' }],
+  comments: [{ from: 'post_id', table: 'posts', to: 'id' }],
+  links: [
+    { from: 'source_id', table: 'posts', to: 'id' },
+    { from: 'target_id', table: 'posts', to: 'id' },
+  ],
+  users: [{ from: 'admin_id', table: 'admins', to: 'id' }],
+}
+
+describe('Relation Expander', () => {
+  describe('describeRelations', () => {
+    it('should name forward relations after the foreign key column', () => {
+      expect(describeRelations('posts', foreignKeys)).toContainEqual({
+        name: 'author_id',
+        type: 'one',
+        table: 'users',
+        column: 'author_id',
+        foreignColumn: 'id',
+      })
+    })
+
+    it('should name reverse relations after the referencing table', () => {
+      const names = describeRelations('posts', foreignKeys).map((relation) => relation.name)
+      expect(names).toEqual(['author_id', 'comments', 'links:source_id', 'links:target_id'])
+      expect(describeRelations('posts', foreignKeys)[1]).toEqual({
+        name: 'comments',
+        type: 'many',
+        table: 'comments',
+        column: 'id',
+        foreignColumn: 'post_id',
+      })
+    })
+
+    it('should skip relations to system tables', () => {
+      expect(describeRelations('users', foreignKeys).map((relation) => relation.name)).toEqual([
+        'posts',
+      ])
+    })
+  })
+
+  describe('expandRecords', () => {
+    const users = [
+      { id: 'u1', name: 'Alice' },
+      { id: 'u2', name: 'Bob' },
+    ]
+    const comments = [
+      { id: 'c1', post_id: 'p1' },
+      { id: 'c2', post_id: 'p1' },
+    ]
+
+    function createExpander() {
+      const lookup = async (table: string, column: string, values: (string | number)[]) =>
+        (table === 'users' ? users : comments).filter((row) =>
+          values.includes(row[column as keyof typeof row])
+        )
+      const tableDataManager = { getRecordsByColumnValues: vi.fn(lookup) }
+      const tableAccessController = {
+        // The user may only read Alice
+        getRecordsByColumnValuesWithAccessControl: vi.fn(
+          async (table: string, column: string, values: (string | number)[]) =>
+            (await lookup(table, column, values)).filter((row) => row.id !== 'u2')
+        ),
+      }
+      const tableOperations = {
+        getForeignKeys: vi.fn(
+          async (table: string) => foreignKeys[table as keyof typeof foreignKeys] || []
+        ),
+      }
+      const db = {
+        prepare: () => ({
+          all: async () => ({ results: Object.keys(foreignKeys).map((name) => ({ name })) }),
+        }),
+      }
+
+      const expander = new RelationExpander(
+        db as unknown as D1Database,
+        tableOperations as unknown as TableOperations,
+        tableDataManager as unknown as TableDataManager,
+        tableAccessController as unknown as TableAccessController
+      )
+      return { expander, tableDataManager, tableAccessController, tableOperations }
+    }
+
+    const posts = [
+      { id: 'p1', author_id: 'u1' },
+      { id: 'p2', author_id: 'u2' },
+      { id: 'p3', author_id: null },
+    ]
+
+    it('should embed many-to-one and one-to-many relations', async () => {
+      const { expander, tableDataManager } = createExpander()
+      const relations = await expander.resolveRelations('posts', ['author_id', 'comments'])
+
+      const result = await expander.expandRecords(posts, relations)
+
+      expect(result[0]._expand).toEqual({ author_id: users[0], comments })
+      expect(result[1]._expand).toEqual({ author_id: users[1], comments: [] })
+      expect(result[2]._expand).toEqual({ author_id: null, comments: [] })
+      // One lookup per relation, with each key requested once
+      expect(tableDataManager.getRecordsByColumnValues).toHaveBeenCalledWith(
+        'users',
+        'id',
+        ['u1', 'u2'],
+        1000
+      )
+    })
+
+    it('should apply access control to related tables for users', async () => {
+      const { expander, tableDataManager } = createExpander()
+      const relations = await expander.resolveRelations('posts', ['author_id'])
+
+      const result = await expander.expandRecords(posts, relations, {
+        userId: 'u1',
+        userRole: 'user',
+      })
+
+      expect(result[0]._expand).toEqual({ author_id: users[0] })
+      expect(result[1]._expand).toEqual({ author_id: null })
+      expect(tableDataManager.getRecordsByColumnValues).not.toHaveBeenCalled()
+    })
+
+    it('should only scan other tables for reverse relations', async () => {
+      const { expander, tableOperations } = createExpander()
+
+      await expander.resolveRelations('posts', ['author_id'])
+      expect(tableOperations.getForeignKeys).toHaveBeenCalledTimes(1)
+
+      await expander.resolveRelations('posts', ['comments'])
+      expect(tableOperations.getForeignKeys).toHaveBeenCalledTimes(1 + 4)
+    })
+
+    it('should reject unknown relations and too many relations', async () => {
+      const { expander } = createExpander()
+
+      await expect(expander.resolveRelations('posts', ['links'])).rejects.toThrow(
+        "Unknown relation 'links'. Available relations: author_id, comments, links:source_id, links:target_id"
+      )
+      await expect(
+        expander.resolveRelations('posts', ['a', 'b', 'c', 'd', 'e', 'f'])
+      ).rejects.toThrow('At most 5 relations')
+    })
+  })
+
+  describe('projection', () => {
+    it('should parse comma separated field lists', () => {
+      expect(parseFieldList(' id, title,,id ')).toEqual(['id', 'title'])
+      expect(parseFieldList('')).toBeUndefined()
+      expect(parseFieldList(undefined)).toBeUndefined()
+    })
+
+    it('should reject unknown columns', () => {
+      expect(() => validateSelect(['id', 'password'], ['id', 'title'])).toThrow(
+        "Invalid select field 'password'. Valid fields: id, title"
+      )
+    })
+
+    it('should keep only selected columns and extra keys', () => {
+      const rows = [{ id: '1', title: 'a', author_id: 'u1', _expand: { author_id: null } }]
+      expect(pickColumns(rows, ['title'], ['_expand'])).toEqual([
+        { title: 'a', _expand: { author_id: null } },
+      ])
+    })
+  })
+})
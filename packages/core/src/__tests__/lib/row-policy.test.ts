@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { compileRowPolicy, getPolicyReferences } from '../../lib/row-policy'
+
+describe('Row Policy', () => {
+  const identity = { userId: 'user-1', role: 'editor' }
+
+  describe('compileRowPolicy', () => {
+    it('should compile a column comparison against the caller', () => {
+      const result = compileRowPolicy(
+        { column: 'author_id', op: 'eq', value: { auth: 'user_id' } },
+        identity
+      )
+      expect(result.sql).toBe('"author_id" = ?')
+      expect(result.params).toEqual(['user-1'])
+      expect(result.columns).toEqual(['author_id'])
+    })
+
+    it('should compile caller attribute checks', () => {
+      const result = compileRowPolicy(
+        { auth: 'role', op: 'in', value: ['admin', 'editor'] },
+        identity
+      )
+      expect(result.sql).toBe('? IN (?, ?)')
+      expect(result.params).toEqual(['editor', 'admin', 'editor'])
+      expect(result.columns).toEqual([])
+    })
+
+    it('should combine nested groups', () => {
+      const result = compileRowPolicy(
+        {
+          any: [
+            { column: 'status', op: 'eq', value: 'published' },
+            {
+              all: [
+                { column: 'author_id', op: 'eq', value: { auth: 'user_id' } },
+                { not: { column: 'archived_at', op: 'is_not_null' } },
+              ],
+            },
+          ],
+        },
+        identity
+      )
+      expect(result.sql).toBe(
+        '("status" = ? OR ("author_id" = ? AND NOT ("archived_at" IS NOT NULL)))'
+      )
+      expect(result.params).toEqual(['published', 'user-1'])
+    })
+
+    it('should compile membership checks as a subquery', () => {
+      const result = compileRowPolicy(
+        { member_of: { table: 'team_members', column: 'team_id' } },
+        identity
+      )
+      expect(result.sql).toBe(
+        '"team_id" IN (SELECT "team_id" FROM "team_members" WHERE "user_id" = ?)'
+      )
+      expect(result.params).toEqual(['user-1'])
+    })
+
+    it('should bind NULL for anonymous callers', () => {
+      const result = compileRowPolicy(
+        { column: 'author_id', op: 'eq', value: { auth: 'user_id' } },
+        {}
+      )
+      expect(result.params).toEqual([null])
+    })
+
+    it('should handle constant and empty conditions', () => {
+      expect(compileRowPolicy({ allow: true }, identity).sql).toBe('1 = 1')
+      expect(compileRowPolicy({ allow: false }, identity).sql).toBe('1 = 0')
+      expect(compileRowPolicy({ all: [] }, identity).sql).toBe('1 = 1')
+      expect(compileRowPolicy({ any: [] }, identity).sql).toBe('1 = 0')
+      expect(compileRowPolicy({ column: 'id', op: 'in', value: [] }, identity).sql).toBe('1 = 0')
+    })
+
+    it('should reject invalid identifiers', () => {
+      expect(() =>
+        compileRowPolicy({ column: 'id; DROP TABLE users', op: 'eq', value: 1 }, identity)
+      ).toThrow()
+      expect(() =>
+        compileRowPolicy({ member_of: { table: 'bad-table', column: 'team_id' } }, identity)
+      ).toThrow()
+    })
+
+    it('should reject mismatched operator values', () => {
+      expect(() => compileRowPolicy({ column: 'id', op: 'in', value: 'x' }, identity)).toThrow(
+        "Row policy operator 'in' requires an array value"
+      )
+      expect(() => compileRowPolicy({ column: 'id', op: 'eq', value: ['x'] }, identity)).toThrow(
+        "Row policy operator 'eq' does not accept an array value"
+      )
+    })
+
+    it('should reject deeply nested conditions', () => {
+      let condition: Parameters<typeof compileRowPolicy>[0] = { allow: true }
+      for (let i = 0; i < 10; i++) {
+        condition = { not: condition }
+      }
+      expect(() => compileRowPolicy(condition, identity)).toThrow('nested too deeply')
+    })
+  })
+
+  describe('getPolicyReferences', () => {
+    it('should collect referenced columns and tables', () => {
+      const refs = getPolicyReferences({
+        all: [
+          { column: 'status', op: 'eq', value: 'published' },
+          { auth: 'role', op: 'eq', value: 'editor' },
+          { member_of: { table: 'team_members', column: 'team_id' } },
+        ],
+      })
+      expect(refs.columns).toEqual(['status', 'team_id'])
+      expect(refs.tables).toEqual(['team_members'])
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { checkScriptSyntax, runScript } from '../../lib/script-sandbox'
+
+describe('runScript', () => {
+  it('should return the value and the mutated ctx', async () => {
+    const outcome = await runScript(
+      'console.log("hi", { a: 1 }); ctx.record.slug = ctx.record.title.toLowerCase(); return 42',
+      { record: { title: 'Hello' } },
+      { timeoutMs: 100 }
+    )
+    expect(outcome).toEqual({
+      status: 'ok',
+      value: 42,
+      ctx: { record: { title: 'Hello', slug: 'hello' } },
+      logs: [{ level: 'log', message: 'hi {"a":1}' }],
+      durationMs: expect.any(Number),
+    })
+  })
+
+  it('should report rejections with their message', async () => {
+    const outcome = await runScript('reject("Title is required")', {}, { timeoutMs: 100 })
+    expect(outcome).toMatchObject({ status: 'rejected', message: 'Title is required' })
+  })
+
+  it('should report thrown errors', async () => {
+    const outcome = await runScript('ctx.missing.field = 1', {}, { timeoutMs: 100 })
+    expect(outcome.status).toBe('error')
+    expect(outcome).toMatchObject({ message: expect.stringContaining('TypeError') })
+  })
+
+  it('should stop scripts that run past their time limit', async () => {
+    const outcome = await runScript('while (true) {}', {}, { timeoutMs: 20 })
+    expect(outcome).toMatchObject({
+      status: 'timeout',
+      message: 'Script exceeded its time limit of 20 ms',
+    })
+  })
+
+  it('should not expose host globals', async () => {
+    const outcome = await runScript(
+      'return [typeof fetch, typeof process, typeof setTimeout]',
+      {},
+      { timeoutMs: 100 }
+    )
+    expect(outcome).toMatchObject({ value: ['undefined', 'undefined', 'undefined'] })
+  })
+})
+
+describe('checkScriptSyntax', () => {
+  it('should return null for valid scripts and the error otherwise', async () => {
+    expect(await checkScriptSyntax('return ctx.record')).toBeNull()
+    expect(await checkScriptSyntax('return (')).toMatch(/SyntaxError/)
+  })
+})
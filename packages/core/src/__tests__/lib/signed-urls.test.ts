@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  buildSignedUrlPath,
+  parseSignedUrlParams,
+  type SignedUrlGrant,
+  SignedUrlManager,
+} from '../../lib/signed-urls'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+const SECRET = 'test-secret-that-is-long-enough-for-hmac'
+
+// D1 stub keeping the grants in a map
+function createGrantDatabase() {
+  const grants = new Map<string, SignedUrlGrant>()
+
+  return createStubDatabase({
+    run: (sql, params) => {
+      if (sql.startsWith('INSERT INTO storage_signed_urls')) {
+        const [id, object_key, action, content_type, max_size, expires_at, created_by, created_at] =
+          params as [string, string, SignedUrlGrant['action'], null, null, string, null, string]
+        grants.set(id, {
+          id,
+          object_key,
+          action,
+          content_type,
+          max_size,
+          expires_at,
+          created_by,
+          created_at,
+          revoked_at: null,
+        })
+      }
+      if (sql.startsWith('UPDATE storage_signed_urls SET revoked_at')) {
+        const grant = grants.get(params[1] as string)
+        if (!grant) return 0
+        grant.revoked_at = params[0] as string
+      }
+      return 1
+    },
+    first: (_sql, params) => grants.get(params[0] as string),
+  }).db
+}
+
+// Parameters of a signed URL as a server receives them
+function receivedParams(path: string) {
+  const query = Object.fromEntries(new URL(path, 'https://example.com').searchParams)
+  const params = parseSignedUrlParams(query)
+  if (!params) throw new Error('Signed URL without parameters')
+  return params
+}
+
+describe('SignedUrlManager', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should accept a URL it signed for the same key and action', async () => {
+    const manager = new SignedUrlManager(createGrantDatabase(), SECRET)
+    const { grant, params } = await manager.create({
+      key: 'reports/q1.pdf',
+      action: 'upload',
+      contentType: 'application/pdf',
+      maxSize: 1024,
+    })
+
+    const path = buildSignedUrlPath(grant.object_key, params)
+    expect(path).toMatch(/^\/api\/storage\/signed\/reports%2Fq1\.pdf\?id=/)
+
+    const verification = await manager.verify('reports/q1.pdf', 'upload', receivedParams(path))
+    expect(verification).toMatchObject({
+      valid: true,
+      grant: { content_type: 'application/pdf', max_size: 1024 },
+    })
+  })
+
+  it('should reject a URL whose key, action or limits were changed', async () => {
+    const manager = new SignedUrlManager(createGrantDatabase(), SECRET)
+    const { params } = await manager.create({ key: 'a.txt', action: 'upload', maxSize: 10 })
+
+    const results = await Promise.all([
+      manager.verify('b.txt', 'upload', params),
+      manager.verify('a.txt', 'download', params),
+      manager.verify('a.txt', 'upload', { ...params, maxSize: 10_000 }),
+      manager.verify('a.txt', 'upload', { ...params, expires: params.expires + 3600 }),
+    ])
+
+    expect(results).toEqual(Array(4).fill({ valid: false, reason: 'Invalid signature' }))
+  })
+
+  it('should reject URLs signed with another secret', async () => {
+    const db = createGrantDatabase()
+    const { params } = await new SignedUrlManager(db, 'another-secret').create({
+      key: 'a.txt',
+      action: 'download',
+    })
+
+    expect(await new SignedUrlManager(db, SECRET).verify('a.txt', 'download', params)).toEqual({
+      valid: false,
+      reason: 'Invalid signature',
+    })
+  })
+
+  it('should reject expired and revoked URLs', async () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') })
+    const manager = new SignedUrlManager(createGrantDatabase(), SECRET)
+    const expiring = await manager.create({ key: 'a.txt', action: 'download', expiresIn: 60 })
+    const revoked = await manager.create({ key: 'a.txt', action: 'download' })
+
+    expect(await manager.revoke(revoked.grant.id)).toBe(true)
+    vi.setSystemTime(new Date('2024-01-01T00:02:00Z'))
+
+    expect(await manager.verify('a.txt', 'download', expiring.params)).toEqual({
+      valid: false,
+      reason: 'Signed URL has expired',
+    })
+    expect(await manager.verify('a.txt', 'download', revoked.params)).toEqual({
+      valid: false,
+      reason: 'Signed URL has been revoked',
+    })
+  })
+
+  it('should refuse expiries and size limits out of range', async () => {
+    const manager = new SignedUrlManager(createGrantDatabase(), SECRET)
+
+    await expect(
+      manager.create({ key: 'a.txt', action: 'download', expiresIn: 30 * 24 * 3600 })
+    ).rejects.toThrow('expires_in must be between 1 and 604800 seconds')
+    await expect(manager.create({ key: 'a.txt', action: 'download', maxSize: 10 })).rejects.toThrow(
+      'max_size only applies to uploads'
+    )
+  })
+})
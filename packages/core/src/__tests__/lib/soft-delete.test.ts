@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { DataManager } from '../../lib/data-manager'
+import { SoftDeleteManager } from '../../lib/soft-delete'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// Soft delete is enabled on `posts`; SELECT ... WHERE id IN (...) reads from `rows` and
+// `trashed` rows are counted in the trash
+function createSoftDeleteDatabase(rows: Record<string, unknown>[] = [], trashed = 0) {
+  return createStubDatabase({
+    first: (sql, params) => {
+      if (sql.includes('FROM table_soft_deletes')) {
+        return params[0] === 'posts' ? { table_name: 'posts', created_at: '' } : null
+      }
+      if (sql.startsWith('SELECT COUNT(*)')) return { count: trashed, total: trashed }
+      return null
+    },
+    all: (sql, params) => {
+      if (sql.startsWith('SELECT id FROM')) return rows.filter((row) => row.deleted_at)
+      if (!sql.startsWith('SELECT * FROM')) return []
+      const ids = new Set(params.filter((value) => typeof value === 'string'))
+      return rows.filter((row) => ids.has(row.id as string))
+    },
+  })
+}
+
+describe('Soft Delete', () => {
+  describe('deletes', () => {
+    it('should move records to the trash instead of deleting them', async () => {
+      const { db, executed } = createSoftDeleteDatabase()
+      await new DataManager(db).deleteRecord('posts', 'a')
+
+      const write = executed.find((statement) => statement.sql.startsWith('UPDATE'))
+      expect(write?.sql).toBe(
+        'UPDATE "posts" SET "deleted_at" = ? WHERE id = ? AND "posts"."deleted_at" IS NULL'
+      )
+      expect(write?.params[1]).toBe('a')
+      expect(executed.some((statement) => statement.sql.startsWith('DELETE'))).toBe(false)
+    })
+
+    it('should keep deleting rows of other tables', async () => {
+      const { db, executed } = createSoftDeleteDatabase()
+      await new DataManager(db).deleteRecord('comments', 'a')
+
+      expect(executed.map((statement) => statement.sql)).toContain(
+        'DELETE FROM "comments" WHERE id = ?'
+      )
+    })
+
+    it('should trash bulk deletes scoped to the owner', async () => {
+      const { db, batches } = createSoftDeleteDatabase([{ id: 'a', owner_id: 'u1' }])
+      await new DataManager(db).bulkDeleteRecords('posts', ['a'], 'private', 'u1')
+
+      expect(batches[0][0].sql).toBe(
+        'UPDATE "posts" SET "deleted_at" = ? WHERE id = ? AND owner_id = ? AND "posts"."deleted_at" IS NULL'
+      )
+    })
+  })
+
+  describe('reads', () => {
+    it('should hide trashed records unless they are requested', async () => {
+      const { db, executed } = createSoftDeleteDatabase()
+      const dm = new DataManager(db)
+
+      await dm.getTableDataWithSortAndFilter('posts', 10, 0, 'id', 'ASC', { title: 'x' })
+      expect(executed.at(-1)?.sql).toContain(
+        'WHERE "posts"."deleted_at" IS NULL AND "title" = ? ORDER BY'
+      )
+
+      await dm.getTableDataWithSortAndFilter(
+        'posts',
+        10,
+        0,
+        'id',
+        'ASC',
+        undefined,
+        undefined,
+        true
+      )
+      expect(executed.at(-1)?.sql).not.toContain('deleted_at')
+    })
+
+    it('should hide trashed records from access-controlled reads', async () => {
+      const { db, executed } = createSoftDeleteDatabase()
+      await new DataManager(db).getRecordByIdWithAccessControl('posts', 'a', 'private', 'u1')
+
+      expect(executed.at(-1)?.sql).toBe(
+        'SELECT * FROM "posts" WHERE id = ? AND owner_id = ? AND "posts"."deleted_at" IS NULL LIMIT 1'
+      )
+    })
+
+    it('should not allow updates to move records in or out of the trash', async () => {
+      const { db, executed } = createSoftDeleteDatabase()
+      await new DataManager(db).updateRecord('posts', 'a', { title: 'x', deleted_at: null })
+
+      const write = executed.find((statement) => statement.sql.startsWith('UPDATE'))
+      expect(write?.sql).toBe(
+        'UPDATE "posts" SET "title" = ?, "updated_at" = ? WHERE id = ? AND "posts"."deleted_at" IS NULL'
+      )
+    })
+  })
+
+  describe('trash', () => {
+    it('should restore trashed records in one batch', async () => {
+      const { db, batches } = createSoftDeleteDatabase([{ id: 'a', deleted_at: '2024-01-01' }])
+      const restored = await new DataManager(db).restoreRecords('posts', ['a'])
+
+      expect(restored).toHaveLength(1)
+      expect(batches[0][0].sql).toBe(
+        'UPDATE "posts" SET "deleted_at" = NULL WHERE id = ? AND "deleted_at" IS NOT NULL'
+      )
+    })
+
+    it('should not restore records that are not in the trash', async () => {
+      const { db, batches } = createSoftDeleteDatabase([])
+      await expect(new DataManager(db).restoreRecords('posts', ['a'])).rejects.toThrow(
+        'Records not found or access denied: a'
+      )
+      expect(batches).toHaveLength(0)
+    })
+
+    it('should empty the whole trash when no ids are given', async () => {
+      const { db, batches } = createSoftDeleteDatabase([
+        { id: 'a', deleted_at: '2024-01-01' },
+        { id: 'b', deleted_at: null },
+      ])
+      const purged = await new DataManager(db).purgeRecords('posts')
+
+      expect(purged).toBe(1)
+      expect(batches[0][0]).toEqual({
+        sql: 'DELETE FROM "posts" WHERE id IN (?) AND "deleted_at" IS NOT NULL',
+        params: ['a'],
+      })
+    })
+
+    it('should require soft delete to be enabled', async () => {
+      const { db } = createSoftDeleteDatabase()
+      await expect(new DataManager(db).getTrash('comments')).rejects.toThrow(
+        "Soft delete is not enabled on table 'comments'"
+      )
+    })
+  })
+
+  describe('SoftDeleteManager', () => {
+    it('should add the deleted_at column when enabling', async () => {
+      const { db, batches } = createSoftDeleteDatabase()
+      await new SoftDeleteManager(db).enable('comments')
+
+      expect(batches[0][0].sql).toBe('ALTER TABLE "comments" ADD COLUMN "deleted_at" DATETIME')
+      expect(batches[0][1].sql).toMatch(/^CREATE INDEX IF NOT EXISTS "idx_comments_deleted_at"/)
+    })
+
+    it('should refuse to disable while the trash holds records', async () => {
+      const { db } = createSoftDeleteDatabase([], 3)
+      await expect(new SoftDeleteManager(db).disable('posts')).rejects.toThrow(
+        "Cannot disable soft delete on 'posts' while the trash holds 3 records"
+      )
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkCacheControl,
+  ifRangeMatches,
+  isNotModified,
+  parseRange,
+} from '../../lib/storage-cache'
+
+describe('parseRange', () => {
+  it('should read single byte ranges, open-ended ranges and suffixes', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ offset: 0, length: 100 })
+    expect(parseRange('bytes=900-', 1000)).toEqual({ offset: 900, length: 100 })
+    expect(parseRange('bytes=990-2000', 1000)).toEqual({ offset: 990, length: 10 })
+    expect(parseRange('bytes=-100', 1000)).toEqual({ offset: 900, length: 100 })
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ offset: 0, length: 1000 })
+  })
+
+  it('should send the whole file for absent, malformed and multiple ranges', () => {
+    expect(parseRange(undefined, 1000)).toBeNull()
+    expect(parseRange('items=0-1', 1000)).toBeNull()
+    expect(parseRange('bytes=5-1', 1000)).toBeNull()
+    expect(parseRange('bytes=0-1,5-6', 1000)).toBeNull()
+  })
+
+  it('should refuse ranges starting past the end', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable')
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable')
+    expect(parseRange('bytes=-10', 0)).toBe('unsatisfiable')
+  })
+})
+
+describe('conditional requests', () => {
+  const object = { httpEtag: '"abc"', uploaded: new Date('2024-01-01T00:00:00.500Z') }
+  const headers = (init: Record<string, string>) => new Headers(init)
+
+  it('should compare If-None-Match weakly and prefer it over If-Modified-Since', () => {
+    expect(isNotModified(headers({ 'If-None-Match': '"x", W/"abc"' }), object)).toBe(true)
+    expect(isNotModified(headers({ 'If-None-Match': '*' }), object)).toBe(true)
+    expect(
+      isNotModified(
+        headers({ 'If-None-Match': '"x"', 'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT' }),
+        object
+      )
+    ).toBe(false)
+  })
+
+  it('should compare If-Modified-Since to the second', () => {
+    expect(
+      isNotModified(headers({ 'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT' }), object)
+    ).toBe(true)
+    expect(
+      isNotModified(headers({ 'If-Modified-Since': 'Sun, 31 Dec 2023 23:59:59 GMT' }), object)
+    ).toBe(false)
+    expect(isNotModified(headers({ 'If-Modified-Since': 'yesterday' }), object)).toBe(false)
+  })
+
+  it('should honour If-Range only for the same version', () => {
+    expect(ifRangeMatches('"abc"', object)).toBe(true)
+    expect(ifRangeMatches('W/"abc"', object)).toBe(false)
+    expect(ifRangeMatches('Mon, 01 Jan 2024 00:00:00 GMT', object)).toBe(true)
+    expect(ifRangeMatches('Mon, 01 Jan 2024 00:00:01 GMT', object)).toBe(false)
+  })
+})
+
+describe('checkCacheControl', () => {
+  it('should refuse values that would break the header', () => {
+    expect(checkCacheControl('public, max-age=3600')).toBeNull()
+    expect(checkCacheControl('')).toMatch(/non-empty/)
+    expect(checkCacheControl('max-age=1\r\nSet-Cookie: a=b')).toMatch(/printable ASCII/)
+  })
+})
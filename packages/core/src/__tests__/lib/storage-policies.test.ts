@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canAccessObject,
+  getBucketName,
+  isValidBucketName,
+  StoragePolicyManager,
+} from '../../lib/storage-policies'
+import type { D1Database } from '../../types/cloudflare'
+
+describe('getBucketName', () => {
+  it('should use the first segment of the key', () => {
+    expect(getBucketName('avatars/users/u1.png')).toBe('avatars')
+    expect(getBucketName('readme.txt')).toBeNull()
+    expect(getBucketName('/leading-slash.txt')).toBeNull()
+  })
+
+  it('should accept single-segment names only', () => {
+    expect(isValidBucketName('user-avatars_2')).toBe(true)
+    expect(isValidBucketName('a/b')).toBe(false)
+    expect(isValidBucketName('')).toBe(false)
+  })
+})
+
+describe('canAccessObject', () => {
+  const own = { exists: true, ownerId: 'alice' }
+  const others = { exists: true, ownerId: 'bob' }
+  const missing = { exists: false }
+
+  it('should let every user read public buckets and only owners change them', () => {
+    expect(canAccessObject('public', 'read', 'alice', others)).toBe(true)
+    expect(canAccessObject('public', 'write', 'alice', others)).toBe(false)
+    expect(canAccessObject('public', 'write', 'alice', own)).toBe(true)
+    expect(canAccessObject('public', 'write', 'alice', missing)).toBe(true)
+  })
+
+  it('should keep owner-only buckets to the owner of each object', () => {
+    expect(canAccessObject('owner', 'read', 'alice', own)).toBe(true)
+    expect(canAccessObject('owner', 'read', 'alice', others)).toBe(false)
+    expect(canAccessObject('owner', 'read', 'alice', missing)).toBe(false)
+    expect(canAccessObject('owner', 'write', 'alice', missing)).toBe(true)
+  })
+
+  it('should keep objects stored before owners were recorded readable but not changeable', () => {
+    const ownerless = { exists: true }
+    expect(canAccessObject('owner', 'read', 'alice', ownerless)).toBe(true)
+    expect(canAccessObject('public', 'read', 'alice', ownerless)).toBe(true)
+    expect(canAccessObject('owner', 'write', 'alice', ownerless)).toBe(false)
+    expect(canAccessObject('public', 'write', 'alice', ownerless)).toBe(false)
+    expect(canAccessObject('private', 'read', 'alice', ownerless)).toBe(false)
+  })
+
+  it('should refuse end users everything in private buckets', () => {
+    expect(canAccessObject('private', 'read', 'alice', own)).toBe(false)
+    expect(canAccessObject('private', 'write', 'alice', missing)).toBe(false)
+  })
+})
+
+describe('StoragePolicyManager', () => {
+  it('should default to owner-only and look each bucket up once', async () => {
+    const lookups: unknown[] = []
+    const db = {
+      prepare: () => ({
+        bind: (name: string) => ({
+          first: async () => {
+            lookups.push(name)
+            return name === 'shared' ? { access_policy: 'public' } : null
+          },
+        }),
+      }),
+    } as unknown as D1Database
+    const manager = new StoragePolicyManager(db)
+
+    expect(await manager.getBucketPolicy('shared')).toBe('public')
+    expect(await manager.getBucketPolicy('shared')).toBe('public')
+    expect(await manager.getBucketPolicy('docs')).toBe('owner')
+    expect(await manager.getBucketPolicy(null)).toBe('owner')
+    expect(lookups).toEqual(['shared', 'docs'])
+  })
+})
@@ -15,9 +15,27 @@ describe('Table Operations', () => {
         'oauth_providers',
         'app_settings',
         'table_policies',
+        'table_row_policies',
+        'table_fulltext_indexes',
+        'table_soft_deletes',
+        'table_audit_settings',
+        'table_audit_log',
+        'table_triggers',
+        'table_trigger_logs',
+        'background_jobs',
+        'background_job_runs',
+        'storage_signed_urls',
+        'storage_buckets',
+        'storage_multipart_uploads',
+        'storage_multipart_parts',
+        'storage_cache_rules',
+        'storage_image_presets',
         'hooks',
         'event_queue',
+        'webhook_deliveries',
         'realtime_subscriptions',
+        'realtime_sequences',
+        'realtime_event_log',
         'custom_queries',
         'custom_query_logs',
         'push_subscriptions',
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { TableSettingStore } from '../../lib/table-settings'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+// The feature is on for `posts`; with `missingTable`, lookups fail as they do before the
+// settings table is created
+function createSettingsDatabase(missingTable = false) {
+  const stub = createStubDatabase({
+    first: (_sql, params) => {
+      if (missingTable) throw new Error('no such table: table_audit_settings')
+      return params[0] === 'posts' ? { table_name: 'posts', created_at: '' } : null
+    },
+  })
+  const lookups = () => stub.executed.map((statement) => statement.params[0])
+  return { ...stub, lookups }
+}
+
+describe('Table Settings', () => {
+  it('should read a switch once per instance', async () => {
+    const { db, lookups } = createSettingsDatabase()
+    const settings = new TableSettingStore(db, 'table_audit_settings')
+
+    expect(await settings.isEnabled('posts')).toBe(true)
+    expect(await settings.isEnabled('posts')).toBe(true)
+    expect(await settings.isEnabled('comments')).toBe(false)
+    expect(lookups()).toEqual(['posts', 'comments'])
+  })
+
+  it('should treat a missing settings table as off', async () => {
+    const { db } = createSettingsDatabase(true)
+    const settings = new TableSettingStore(db, 'table_audit_settings')
+
+    expect(await settings.get('posts')).toBeNull()
+    expect(await settings.isEnabled('posts')).toBe(false)
+  })
+
+  it('should record the switch after the statements it is given, in one batch', async () => {
+    const { db, batches, lookups } = createSettingsDatabase()
+    const settings = new TableSettingStore(db, 'table_soft_deletes')
+
+    await settings.enable('comments', [db.prepare('ALTER TABLE "comments" ADD COLUMN x')])
+
+    expect(batches).toHaveLength(1)
+    expect(batches[0][0].sql).toBe('ALTER TABLE "comments" ADD COLUMN x')
+    expect(batches[0][1].sql).toMatch(/^INSERT INTO table_soft_deletes/)
+    expect(batches[0][1].params).toEqual(['comments'])
+    expect(await settings.isEnabled('comments')).toBe(true)
+    expect(lookups()).toEqual([])
+  })
+
+  it('should forget the switch when it is turned off', async () => {
+    const { db, batches, lookups } = createSettingsDatabase()
+    const settings = new TableSettingStore(db, 'table_audit_settings')
+
+    await settings.disable('posts')
+
+    expect(batches[0]).toEqual([
+      { sql: 'DELETE FROM table_audit_settings WHERE table_name = ?', params: ['posts'] },
+    ])
+    expect(await settings.isEnabled('posts')).toBe(false)
+    expect(lookups()).toEqual([])
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import { DataManager } from '../../lib/data-manager'
+import type { TableTrigger, TriggerEvent } from '../../lib/table-triggers'
+import { TriggerManager } from '../../lib/table-triggers'
+import { createStubDatabase, type RecordedStatement } from '../helpers/stub-d1'
+
+// `triggers` are returned for their table, rows of `posts` are looked up by id in `rows`
+function createTriggerDatabase(triggers: TableTrigger[], rows: Record<string, unknown>[] = []) {
+  return createStubDatabase({
+    first: (sql, params) => {
+      if (sql.startsWith('SELECT * FROM "posts" WHERE id = ?')) {
+        return rows.find((row) => row.id === params[0])
+      }
+      return null
+    },
+    all: (sql, params) => {
+      if (!sql.includes('FROM table_triggers')) return []
+      return triggers
+        .filter((trigger) => trigger.table_name === params[0])
+        .map((trigger) => ({ ...trigger, enabled: trigger.enabled ? 1 : 0 }))
+    },
+  })
+}
+
+function trigger(event: TriggerEvent, script: string, overrides: Partial<TableTrigger> = {}) {
+  return {
+    id: `trg-${event}`,
+    table_name: 'posts',
+    name: event,
+    event,
+    script,
+    enabled: true,
+    timeout_ms: 100,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const writes = (statements: RecordedStatement[]) =>
+  statements.filter((statement) => /^(INSERT INTO|UPDATE|DELETE FROM) "posts"/.test(statement.sql))
+
+const triggerLogs = (batches: RecordedStatement[][]) =>
+  batches.flat().filter((statement) => statement.sql.startsWith('INSERT INTO table_trigger_logs'))
+
+describe('Table Triggers', () => {
+  describe('before_insert', () => {
+    it('should write the record as the script changed it, keeping the id and owner', async () => {
+      const { db, executed } = createTriggerDatabase([
+        trigger(
+          'before_insert',
+          `ctx.record.slug = ctx.record.title.toLowerCase().replace(/ /g, '-')
+           ctx.record.id = 'other'
+           ctx.record.owner_id = 'someone-else'`
+        ),
+      ])
+
+      await new DataManager(db).createRecordWithAccessControl(
+        'posts',
+        { id: 'p1', title: 'Hello World' },
+        'private',
+        'u1'
+      )
+
+      const [insert] = writes(executed)
+      const columns = insert.sql.match(/\(([^)]+)\) VALUES/)?.[1].split(', ') ?? []
+      const row = Object.fromEntries(
+        columns.map((col, i) => [col.replace(/"/g, ''), insert.params[i]])
+      )
+      expect(row).toMatchObject({ id: 'p1', owner_id: 'u1', slug: 'hello-world' })
+    })
+
+    it('should use the record returned by the script, in trigger order', async () => {
+      const { db, executed } = createTriggerDatabase([
+        trigger('before_insert', 'return { ...ctx.record, score: 1 }', { id: 'first' }),
+        trigger('before_insert', 'ctx.record.score += 1', { id: 'second' }),
+      ])
+
+      await new DataManager(db).createRecordWithId('posts', { id: 'p1', title: 'A' })
+
+      const [insert] = writes(executed)
+      expect(insert.sql).toContain('"score"')
+      expect(insert.params).toContain(2)
+    })
+
+    it('should reject the write with the message of the script and log the run', async () => {
+      const { db, executed, batches } = createTriggerDatabase([
+        trigger('before_insert', `if (!ctx.record.title) reject('Title is required')`),
+      ])
+
+      await expect(
+        new DataManager(db).createRecordWithId('posts', { id: 'p1', title: '' })
+      ).rejects.toThrow('Title is required')
+
+      expect(writes(executed)).toHaveLength(0)
+      const [log] = triggerLogs(batches)
+      expect(log.params.slice(1, 7)).toEqual([
+        'trg-before_insert',
+        'posts',
+        'before_insert',
+        'p1',
+        'rejected',
+        'Title is required',
+      ])
+    })
+
+    it('should fail the write when a script runs past its time limit', async () => {
+      const { db, executed } = createTriggerDatabase([
+        trigger('before_insert', 'while (true) {}', { name: 'spin', timeout_ms: 10 }),
+      ])
+
+      await expect(new DataManager(db).createRecordWithId('posts', { id: 'p1' })).rejects.toThrow(
+        "Trigger 'spin' failed: Script exceeded its time limit of 10 ms"
+      )
+      expect(writes(executed)).toHaveLength(0)
+    })
+
+    it('should skip disabled triggers and triggers of other events', async () => {
+      const { db, executed } = createTriggerDatabase([
+        trigger('before_insert', `reject('disabled')`, { enabled: false }),
+        trigger('before_delete', `reject('deletes only')`),
+      ])
+
+      await new DataManager(db).createRecordWithId('posts', { id: 'p1' })
+
+      expect(writes(executed)).toHaveLength(1)
+    })
+  })
+
+  describe('before_update', () => {
+    it('should see the stored row and not be able to change system fields', async () => {
+      const { db, executed } = createTriggerDatabase(
+        [
+          trigger(
+            'before_update',
+            `ctx.record.views = ctx.old.views + 1
+             ctx.record.created_at = 'tampered'`
+          ),
+        ],
+        [{ id: 'p1', title: 'Old', views: 4, created_at: '2024-01-01' }]
+      )
+
+      await new DataManager(db).updateRecord('posts', 'p1', { title: 'New' })
+
+      const [update] = writes(executed)
+      expect(update.sql).toMatch(
+        /^UPDATE "posts" SET "title" = \?, "views" = \?, "updated_at" = \?/
+      )
+      expect(update.params.slice(0, 2)).toEqual(['New', 5])
+    })
+  })
+
+  describe('before_delete', () => {
+    it('should prevent the delete when the script rejects it', async () => {
+      const { db, executed } = createTriggerDatabase(
+        [trigger('before_delete', `if (ctx.old.locked) reject('Post is locked')`)],
+        [{ id: 'p1', locked: 1 }]
+      )
+
+      await expect(new DataManager(db).deleteRecord('posts', 'p1')).rejects.toThrow(
+        'Post is locked'
+      )
+      expect(writes(executed)).toHaveLength(0)
+    })
+  })
+
+  describe('after_write', () => {
+    it('should run after the write and only log its failures', async () => {
+      const { db, executed, batches } = createTriggerDatabase(
+        [
+          trigger(
+            'after_write',
+            `console.log(ctx.operation, ctx.record.title); throw new Error('boom')`
+          ),
+        ],
+        [{ id: 'p1', title: 'Old' }]
+      )
+
+      await new DataManager(db).updateRecord('posts', 'p1', { title: 'New' })
+
+      expect(writes(executed)).toHaveLength(1)
+      const [log] = triggerLogs(batches)
+      expect(log.params[5]).toBe('error')
+      expect(log.params[6]).toContain('boom')
+      expect(JSON.parse(log.params[7] as string)).toEqual([{ level: 'log', message: 'update New' }])
+    })
+  })
+
+  describe('TriggerManager.testScript', () => {
+    it('should report the record a before-trigger would write', async () => {
+      const { db, executed } = createTriggerDatabase([])
+
+      const result = await new TriggerManager(db).testScript('ctx.record.total = 3', {
+        table: 'posts',
+        operation: 'insert',
+        record: { title: 'A' },
+        old: null,
+        actor: { type: 'admin', id: 'u1' },
+      })
+
+      expect(result).toMatchObject({ status: 'ok', record: { title: 'A', total: 3 } })
+      expect(executed).toHaveLength(0)
+    })
+  })
+})
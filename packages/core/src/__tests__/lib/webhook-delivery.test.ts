@@ -0,0 +1,159 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  retryDelaySeconds,
+  signWebhookPayload,
+  WEBHOOK_MAX_ATTEMPTS,
+  WebhookDispatcher,
+} from '../../lib/webhook-delivery'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+// Local receiver: answers with the status given in the path (`/status/500`), 200 otherwise
+let server: Server
+let baseUrl: string
+const received: ReceivedRequest[] = []
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      const status = Number(/^\/status\/(\d+)$/.exec(req.url ?? '')?.[1] ?? 200)
+      res.writeHead(status, { 'Content-Type': 'text/plain' })
+      res.end(status === 200 ? 'ok' : 'receiver error')
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+})
+
+// `rows` are the due events returned by the dispatcher's query; batches are recorded so that
+// the logged attempt and the new state of the event can be checked
+function createEventDatabase(rows: Array<Record<string, unknown>>) {
+  return createStubDatabase({
+    all: () => rows,
+    first: (_sql, params) => rows.find((row) => row.id === params[0]),
+    batch: () => [],
+  })
+}
+
+function dueEvent(targetPath: string, attempts = 0) {
+  return {
+    id: 'evt-1',
+    hook_id: 'hook-1',
+    event_data: JSON.stringify({
+      table_name: 'posts',
+      event_type: 'insert',
+      record_id: 'p1',
+      timestamp: '2024-01-01T00:00:00Z',
+      data: { id: 'p1', title: 'Hello' },
+    }),
+    attempts,
+    target_url: `${baseUrl}${targetPath}`,
+    secret: 'whsec_test_secret_value',
+  }
+}
+
+describe('retryDelaySeconds', () => {
+  it('should start at the interval of the delivery job and double, up to six hours', () => {
+    expect(retryDelaySeconds(1)).toBe(5 * 60)
+    expect(retryDelaySeconds(2)).toBe(10 * 60)
+    expect(retryDelaySeconds(5)).toBe(80 * 60)
+    expect(retryDelaySeconds(20)).toBe(6 * 60 * 60)
+  })
+})
+
+describe('WebhookDispatcher', () => {
+  it('should POST a signed payload and mark the event delivered', async () => {
+    received.length = 0
+    const { db, batches } = createEventDatabase([dueEvent('/hook')])
+
+    const results = await new WebhookDispatcher(db).deliverDue()
+
+    expect(results).toEqual([
+      { eventId: 'evt-1', status: 'delivered', attempt: 1, statusCode: 200, error: null },
+    ])
+    expect(received).toHaveLength(1)
+    const [request] = received
+    expect(JSON.parse(request.body)).toEqual({
+      id: 'evt-1',
+      hook_id: 'hook-1',
+      table_name: 'posts',
+      event_type: 'insert',
+      record_id: 'p1',
+      timestamp: '2024-01-01T00:00:00Z',
+      data: { id: 'p1', title: 'Hello' },
+    })
+    expect(request.headers['x-vibebase-delivery']).toBe('evt-1')
+
+    const timestamp = Number(request.headers['x-vibebase-timestamp'])
+    const expected = await signWebhookPayload('whsec_test_secret_value', timestamp, request.body)
+    expect(request.headers['x-vibebase-signature']).toBe(`sha256=${expected}`)
+
+    const [logAttempt, updateEvent] = batches[0]
+    expect(logAttempt.params.slice(1, 7)).toEqual(['evt-1', 'hook-1', 1, 200, null, 'ok'])
+    expect(updateEvent.params.slice(0, 7)).toEqual([
+      'delivered',
+      1,
+      null,
+      200,
+      null,
+      true,
+      expect.any(String),
+    ])
+  })
+
+  it('should schedule a retry with backoff when the receiver fails', async () => {
+    const { db, batches } = createEventDatabase([dueEvent('/status/500', 2)])
+    const before = Date.now()
+
+    const [result] = await new WebhookDispatcher(db).deliverDue()
+
+    expect(result).toEqual({
+      eventId: 'evt-1',
+      status: 'pending',
+      attempt: 3,
+      statusCode: 500,
+      error: 'Receiver responded with 500',
+    })
+    const [status, attempts, nextAttemptAt] = batches[0][1].params as [string, number, string]
+    expect([status, attempts]).toEqual(['pending', 3])
+    const delay = new Date(nextAttemptAt).getTime() - before
+    expect(delay).toBeGreaterThanOrEqual(retryDelaySeconds(3) * 1000)
+    expect(delay).toBeLessThan(retryDelaySeconds(4) * 1000)
+  })
+
+  it('should dead-letter the event after the last attempt', async () => {
+    const { db, batches } = createEventDatabase([dueEvent('/status/410', WEBHOOK_MAX_ATTEMPTS - 1)])
+
+    const [result] = await new WebhookDispatcher(db).deliverDue()
+
+    expect(result.status).toBe('dead')
+    expect(batches[0][1].params.slice(0, 3)).toEqual(['dead', WEBHOOK_MAX_ATTEMPTS, null])
+  })
+
+  it('should redeliver a dead event right away with a fresh retry budget', async () => {
+    received.length = 0
+    const { db, batches } = createEventDatabase([dueEvent('/hook', WEBHOOK_MAX_ATTEMPTS)])
+
+    const result = await new WebhookDispatcher(db).redeliver('evt-1')
+
+    expect(result).toEqual(expect.objectContaining({ status: 'delivered', attempt: 1 }))
+    expect(received).toHaveLength(1)
+    expect(batches[0][1].params[0]).toBe('delivered')
+    expect(await new WebhookDispatcher(db).redeliver('missing')).toBeNull()
+  })
+})
@@ -0,0 +1,158 @@
+import { Hono } from 'hono'
+import { describe, expect, it, vi } from 'vitest'
+import { hooks } from '../../routes/hooks'
+import { jobs } from '../../routes/jobs'
+import { realtime } from '../../routes/realtime'
+import { storage } from '../../routes/storage'
+import type { Env, Variables } from '../../types'
+import type { AuthContext } from '../../types/auth'
+import type { CustomDurableObjectNamespace, ExecutionContext } from '../../types/cloudflare'
+import { createMockEnv } from '../helpers/mock-env'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+const userAuth = {
+  type: 'user',
+  user: { id: 'u1', email: 'u1@example.com', role: 'user' },
+} as AuthContext
+const adminAuth = {
+  type: 'admin',
+  user: { id: 'admin-1', email: 'admin@example.com' },
+} as AuthContext
+
+const executionCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+} as unknown as ExecutionContext
+
+// Mounts the routes behind a stand-in for the auth middleware, on an empty database
+function request(
+  authContext: AuthContext | null,
+  method: string,
+  path: string,
+  mount: (app: Hono<{ Bindings: Env; Variables: Variables }>) => void
+) {
+  const app = new Hono<{ Bindings: Env; Variables: Variables }>()
+  app.use('*', async (c, next) => {
+    if (authContext) c.set('authContext', authContext)
+    await next()
+  })
+  mount(app)
+
+  const env = createMockEnv({
+    DB: createStubDatabase().db,
+    REALTIME: {} as CustomDurableObjectNamespace,
+  })
+  return app.request(path, { method }, env, executionCtx)
+}
+
+describe('Admin-only routes', () => {
+  describe('realtime', () => {
+    const mountRealtime = (app: Hono<{ Bindings: Env; Variables: Variables }>) =>
+      app.route('/api/realtime', realtime)
+
+    it('should refuse end users retrying failed broadcasts', async () => {
+      const res = await request(userAuth, 'POST', '/api/realtime/process-events', mountRealtime)
+
+      expect(res.status).toBe(403)
+      expect(await res.json()).toEqual({ error: 'Admin access required' })
+    })
+
+    it('should refuse unauthenticated retries', async () => {
+      const res = await request(null, 'POST', '/api/realtime/process-events', mountRealtime)
+
+      expect(res.status).toBe(401)
+    })
+
+    it('should let admins retry failed broadcasts', async () => {
+      const res = await request(adminAuth, 'POST', '/api/realtime/process-events', mountRealtime)
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toMatchObject({ success: true, processed: 0 })
+    })
+  })
+
+  describe('hooks', () => {
+    const mountHooks = (app: Hono<{ Bindings: Env; Variables: Variables }>) =>
+      app.route('/api/hooks', hooks)
+
+    it('should refuse end users reading hooks, events and deliveries', async () => {
+      for (const path of [
+        '/api/hooks',
+        '/api/hooks/events',
+        '/api/hooks/events?status=dead',
+        '/api/hooks/events/evt-1/deliveries',
+      ]) {
+        const res = await request(userAuth, 'GET', path, mountHooks)
+
+        expect(res.status).toBe(403)
+        expect(await res.json()).toEqual({ error: 'Admin access required' })
+      }
+    })
+
+    it('should let admins list hooks', async () => {
+      const res = await request(adminAuth, 'GET', '/api/hooks', mountHooks)
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({ data: [], total: 0 })
+    })
+  })
+
+  describe('jobs', () => {
+    const mountJobs = (app: Hono<{ Bindings: Env; Variables: Variables }>) =>
+      app.route('/api/jobs', jobs)
+
+    it('should refuse end users reading jobs and runs', async () => {
+      for (const path of ['/api/jobs', '/api/jobs/runs', '/api/jobs/runs?status=failed']) {
+        const res = await request(userAuth, 'GET', path, mountJobs)
+
+        expect(res.status).toBe(403)
+        expect(await res.json()).toEqual({ error: 'Admin access required' })
+      }
+    })
+
+    it('should let admins read the run history', async () => {
+      const res = await request(adminAuth, 'GET', '/api/jobs/runs', mountJobs)
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toMatchObject({ data: [] })
+    })
+  })
+
+  describe('storage', () => {
+    const mountStorage = (app: Hono<{ Bindings: Env; Variables: Variables }>) =>
+      app.route('/api/storage', storage)
+
+    it('should refuse end users managing buckets, cache rules and image presets', async () => {
+      for (const [method, path] of [
+        ['GET', '/api/storage/buckets'],
+        ['PUT', '/api/storage/buckets/avatars'],
+        ['DELETE', '/api/storage/buckets/avatars'],
+        ['GET', '/api/storage/cache-rules'],
+        ['PUT', '/api/storage/cache-rules'],
+        ['DELETE', '/api/storage/cache-rules/rule-1'],
+        ['GET', '/api/storage/image-presets'],
+        ['PUT', '/api/storage/image-presets/thumb'],
+        ['DELETE', '/api/storage/image-presets/thumb'],
+      ]) {
+        const res = await request(userAuth, method, path, mountStorage)
+
+        expect(res.status).toBe(403)
+        expect(await res.json()).toEqual({ error: 'Admin access required' })
+      }
+    })
+
+    it('should refuse unauthenticated requests', async () => {
+      const res = await request(null, 'GET', '/api/storage/buckets', mountStorage)
+
+      expect(res.status).toBe(401)
+      expect(await res.json()).toEqual({ error: 'Authentication required' })
+    })
+
+    it('should let admins list image presets', async () => {
+      const res = await request(adminAuth, 'GET', '/api/storage/image-presets', mountStorage)
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({ success: true, data: { presets: [] } })
+    })
+  })
+})
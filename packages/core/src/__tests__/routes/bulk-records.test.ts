@@ -0,0 +1,135 @@
+import { Hono } from 'hono'
+import { describe, expect, it, vi } from 'vitest'
+import type { PolicyCondition } from '../../lib/row-policy'
+import { tables } from '../../routes/tables'
+import type { Env, Variables } from '../../types'
+import type { AuthContext } from '../../types/auth'
+import type { ExecutionContext } from '../../types/cloudflare'
+import { createMockEnv } from '../helpers/mock-env'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+const rows = [
+  { id: 'p1', owner_id: 'u1', status: 'draft' },
+  { id: 'p2', owner_id: 'u2', status: 'published' },
+]
+
+const userAuth: AuthContext = {
+  type: 'user',
+  user: { id: 'u1', email: 'u1@example.com', role: 'user' },
+} as AuthContext
+const adminAuth: AuthContext = {
+  type: 'admin',
+  user: { id: 'admin-1', email: 'admin@example.com' },
+} as AuthContext
+
+// `posts` is private with the rows above; `deletePolicy` is its delete row policy
+function createPostsDatabase(options: { deletePolicy?: PolicyCondition } = {}) {
+  return createStubDatabase({
+    first: (sql) => {
+      if (sql.includes('FROM table_row_policies')) {
+        return options.deletePolicy ? { condition: JSON.stringify(options.deletePolicy) } : null
+      }
+      return null
+    },
+    all: (sql, params) => {
+      if (!sql.startsWith('SELECT * FROM "posts"')) return []
+      return rows.filter(
+        (row) =>
+          params.includes(row.id) &&
+          (!sql.includes('owner_id = ?') || params.includes(row.owner_id)) &&
+          (!sql.includes('"status" = ?') || params.includes(row.status))
+      )
+    },
+  })
+}
+
+// Mounts the tables routes behind a stand-in for the auth middleware
+function createApp(authContext: AuthContext | null) {
+  const app = new Hono<{ Bindings: Env; Variables: Variables }>()
+  app.use('*', async (c, next) => {
+    if (authContext) c.set('authContext', authContext)
+    await next()
+  })
+  app.route('/api/tables', tables)
+  return app
+}
+
+const executionCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+} as unknown as ExecutionContext
+
+function bulkDelete(
+  authContext: AuthContext | null,
+  ids: string[],
+  stub = createPostsDatabase(),
+  table = 'posts'
+) {
+  return createApp(authContext).request(
+    `/api/tables/${table}/bulk`,
+    {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids }),
+    },
+    createMockEnv({ DB: stub.db }),
+    executionCtx
+  )
+}
+
+const deletes = (stub: ReturnType<typeof createPostsDatabase>) =>
+  stub.batches.flat().filter((statement) => statement.sql.startsWith('DELETE FROM "posts"'))
+
+describe('Bulk record routes', () => {
+  it('should require authentication', async () => {
+    const stub = createPostsDatabase()
+    const res = await bulkDelete(null, ['p1'], stub)
+
+    expect(res.status).toBe(401)
+    expect(stub.batches).toHaveLength(0)
+  })
+
+  it('should refuse system tables', async () => {
+    const res = await bulkDelete(adminAuth, ['u1'], createPostsDatabase(), 'admins')
+
+    expect(res.status).toBe(403)
+  })
+
+  it('should delete nothing when a user includes a row of another owner', async () => {
+    const stub = createPostsDatabase()
+    const res = await bulkDelete(userAuth, ['p1', 'p2'], stub)
+
+    expect(res.status).toBe(404)
+    expect(stub.batches).toHaveLength(0)
+  })
+
+  it('should limit the deletes of a user to their own rows', async () => {
+    const stub = createPostsDatabase()
+    const res = await bulkDelete(userAuth, ['p1'], stub)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ success: true, deleted: 1 })
+    const [statement] = deletes(stub)
+    expect(statement.sql).toContain('owner_id = ?')
+    expect(statement.params).toEqual(['p1', 'u1'])
+  })
+
+  it('should let admins delete the rows of any owner', async () => {
+    const stub = createPostsDatabase()
+    const res = await bulkDelete(adminAuth, ['p1', 'p2'], stub)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ success: true, deleted: 2 })
+    expect(deletes(stub).every((statement) => !statement.sql.includes('owner_id'))).toBe(true)
+  })
+
+  it('should apply the delete row policy to user deletes', async () => {
+    const stub = createPostsDatabase({
+      deletePolicy: { column: 'status', op: 'eq', value: 'published' },
+    })
+    const res = await bulkDelete(userAuth, ['p1'], stub)
+
+    expect(res.status).toBe(404)
+    expect(stub.batches).toHaveLength(0)
+  })
+})
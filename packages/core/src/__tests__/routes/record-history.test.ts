@@ -0,0 +1,76 @@
+import { Hono } from 'hono'
+import { describe, expect, it, vi } from 'vitest'
+import { data } from '../../routes/data'
+import type { Env, Variables } from '../../types'
+import type { AuthContext } from '../../types/auth'
+import type { ExecutionContext } from '../../types/cloudflare'
+import { createMockEnv } from '../helpers/mock-env'
+import { createStubDatabase } from '../helpers/stub-d1'
+
+const entry = {
+  id: 'e1',
+  table_name: 'posts',
+  record_id: 'p1',
+  operation: 'update',
+  before: JSON.stringify({ id: 'p1', owner_id: 'u1', secret: 'old' }),
+  after: JSON.stringify({ id: 'p1', owner_id: 'u1', secret: 'new' }),
+  actor_type: 'user',
+  actor_id: 'u2',
+  created_at: '2024-01-02T00:00:00.000Z',
+}
+
+// `posts` exists and its record `p1` has one history entry
+const createHistoryDatabase = () =>
+  createStubDatabase({
+    first: (sql) => (sql.includes('COUNT(*)') ? { count: 1, total: 1 } : null),
+    all: (sql) => {
+      if (sql.includes('FROM sqlite_master')) return [{ name: 'posts', sql: 'CREATE TABLE posts' }]
+      return sql.includes('FROM table_audit_log') ? [entry] : []
+    },
+  })
+
+const executionCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+} as unknown as ExecutionContext
+
+// Requests the history of `p1` through the data routes with the given auth context
+function getHistory(authContext: AuthContext | null) {
+  const app = new Hono<{ Bindings: Env; Variables: Variables }>()
+  app.use('*', async (c, next) => {
+    if (authContext) c.set('authContext', authContext)
+    await next()
+  })
+  app.route('/api/data', data)
+
+  const { db } = createHistoryDatabase()
+  return app.request('/api/data/posts/p1/history', {}, createMockEnv({ DB: db }), executionCtx)
+}
+
+describe('Record history route', () => {
+  it('should refuse end users, even for records they own', async () => {
+    const res = await getHistory({
+      type: 'user',
+      user: { id: 'u1', email: 'u1@example.com', role: 'user' },
+    } as AuthContext)
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toEqual({ error: 'Only admins and API keys can read record history' })
+  })
+
+  it('should require authentication', async () => {
+    expect((await getHistory(null)).status).toBe(401)
+  })
+
+  it('should return the entries to admins', async () => {
+    const res = await getHistory({
+      type: 'admin',
+      user: { id: 'admin-1', email: 'admin@example.com' },
+    } as AuthContext)
+
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as { data: Array<Record<string, unknown>> }
+    expect(body.data).toHaveLength(1)
+    expect(body.data[0]).toMatchObject({ id: 'e1', actor_id: 'u2' })
+  })
+})
@@ -7,9 +7,12 @@ beforeEach(() => {
 })
 
 import { Hono } from 'hono'
+import { renderImage } from '../lib/image-transforms'
+import { MAX_PART_SIZE } from '../lib/multipart-uploads'
 import { storage } from '../routes/storage'
 import type { Env, Variables } from '../types'
 import { createMockEnv } from './helpers/mock-env'
+import { createStubDatabase } from './helpers/stub-d1'
 
 // Type definitions for test responses
 interface StorageListResponse {
@@ -88,7 +91,10 @@ interface MockR2Object {
 
 interface MockR2Bucket {
   storage: Map<string, { data: ArrayBuffer; metadata: MockR2Object }>
-  get(key: string): Promise<MockR2Object | null>
+  get(
+    key: string,
+    options?: { range?: { offset: number; length: number } }
+  ): Promise<MockR2Object | null>
   put(
     key: string,
     value: ArrayBuffer,
@@ -110,15 +116,17 @@ function createMockR2Bucket(): MockR2Bucket {
   return {
     storage,
 
-    async get(key: string) {
+    async get(key: string, options?: { range?: { offset: number; length: number } }) {
       const item = storage.get(key)
       if (!item) return null
 
+      const range = options?.range
+      const bytes = range ? item.data.slice(range.offset, range.offset + range.length) : item.data
       const mockObject: MockR2Object = {
         ...item.metadata,
         body: new ReadableStream({
           start(controller) {
-            controller.enqueue(new Uint8Array(item.data))
+            controller.enqueue(new Uint8Array(bytes))
             controller.close()
           },
         }),
@@ -456,6 +464,61 @@ describe('Storage API', () => {
       const content = await res.text()
       expect(content).toBe('special file')
     })
+
+    it('should serve byte ranges with 206', async () => {
+      const res = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { Range: 'bytes=0-3' },
+      })
+      expect(res.status).toBe(206)
+      expect(res.headers.get('Content-Range')).toBe('bytes 0-3/17')
+      expect(res.headers.get('Content-Length')).toBe('4')
+      expect(res.headers.get('Accept-Ranges')).toBe('bytes')
+      expect(await res.text()).toBe('test')
+
+      const suffix = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { Range: 'bytes=-7' },
+      })
+      expect(await suffix.text()).toBe('content')
+    })
+
+    it('should refuse ranges past the end of the file with 416', async () => {
+      const res = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { Range: 'bytes=100-' },
+      })
+      expect(res.status).toBe(416)
+      expect(res.headers.get('Content-Range')).toBe('bytes */17')
+    })
+
+    it('should send the whole file when If-Range names another version', async () => {
+      const res = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { Range: 'bytes=0-3', 'If-Range': '"another-version"' },
+      })
+      expect(res.status).toBe(200)
+      expect(await res.text()).toBe('test file content')
+    })
+
+    it('should answer conditional requests for an unchanged file with 304', async () => {
+      const first = await app.request('/api/storage/files/test-download.txt/content')
+      const etag = first.headers.get('ETag') as string
+      const lastModified = first.headers.get('Last-Modified') as string
+
+      const byEtag = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { 'If-None-Match': `W/${etag}` },
+      })
+      expect(byEtag.status).toBe(304)
+      expect(byEtag.headers.get('ETag')).toBe(etag)
+      expect(byEtag.headers.get('Cache-Control')).toBe('max-age=3600')
+
+      const byDate = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { 'If-Modified-Since': lastModified },
+      })
+      expect(byDate.status).toBe(304)
+
+      const changed = await app.request('/api/storage/files/test-download.txt/content', {
+        headers: { 'If-None-Match': '"stale"', 'If-Modified-Since': lastModified },
+      })
+      expect(changed.status).toBe(200)
+    })
   })
 
   describe('GET /info/:key', () => {
@@ -600,4 +663,502 @@ describe('Storage API', () => {
       expect(res.status).toBe(400)
     })
   })
+
+  describe('Signed URLs', () => {
+    // Grants of signed URLs kept in a map, for the statements the routes run
+    const createGrantDatabase = () => {
+      const grants = new Map<string, Record<string, unknown>>()
+      const createStatement = (sql: string, params: unknown[] = []) => ({
+        bind: (...values: unknown[]) => createStatement(sql, values),
+        run: async () => {
+          if (sql.startsWith('INSERT INTO storage_signed_urls')) {
+            const [id, object_key, action, content_type, max_size, expires_at] = params
+            grants.set(id as string, {
+              id,
+              object_key,
+              action,
+              content_type,
+              max_size,
+              expires_at,
+              revoked_at: null,
+            })
+          } else if (sql.startsWith('UPDATE storage_signed_urls')) {
+            const grant = grants.get(params[1] as string)
+            if (grant) grant.revoked_at = params[0]
+          }
+          return { success: true, meta: { changes: 1 } }
+        },
+        first: async () => grants.get(params[0] as string) ?? null,
+      })
+      return { prepare: (sql: string) => createStatement(sql) }
+    }
+
+    // Signed URLs are used without the auth header, so only their path and query are kept
+    const pathOf = (url: string) => {
+      const { pathname, search } = new URL(url)
+      return `${pathname}${search}`
+    }
+
+    beforeEach(() => {
+      const db = createGrantDatabase()
+      app = new Hono<{ Bindings: Env; Variables: Variables }>()
+      app.use('*', async (c, next) => {
+        c.env = {
+          ...createMockEnv(),
+          DB: db,
+          JWT_SECRET: 'storage-test-secret-of-sufficient-length',
+          USER_STORAGE: mockR2Bucket as unknown as R2Bucket,
+        } as unknown as Env
+        await next()
+      })
+      app.route('/api/storage', storage)
+    })
+
+    it('should upload through a signed upload URL within its limits', async () => {
+      const res = await app.request('/api/storage/presigned-upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file_name: 'avatar.png', content_type: 'image/png', max_size: 8 }),
+      })
+      expect(res.status).toBe(200)
+      const { data } = (await res.json()) as { data: { upload_url: string; method: string } }
+      expect(data.method).toBe('PUT')
+
+      const upload = (contentType: string, body: string) =>
+        app.request(pathOf(data.upload_url), {
+          method: 'PUT',
+          headers: { 'Content-Type': contentType },
+          body,
+        })
+
+      expect((await upload('text/plain', 'png')).status).toBe(403)
+      expect((await upload('image/png', 'much too large')).status).toBe(413)
+      expect((await upload('image/png', 'png')).status).toBe(201)
+      expect(mockR2Bucket.storage.has('avatar.png')).toBe(true)
+    })
+
+    it('should download through a signed URL until it is revoked', async () => {
+      await mockR2Bucket.put('report.txt', new TextEncoder().encode('quarterly').buffer, {
+        httpMetadata: { contentType: 'text/plain' },
+      })
+
+      const res = await app.request('/api/storage/files/report.txt/url?expires_in=60')
+      const { data } = (await res.json()) as { data: { id: string; url: string } }
+
+      const download = await app.request(pathOf(data.url))
+      expect(download.status).toBe(200)
+      expect(await download.text()).toBe('quarterly')
+
+      const otherFile = await app.request(pathOf(data.url).replace('report.txt', 'secret.txt'))
+      expect(otherFile.status).toBe(403)
+
+      await app.request(`/api/storage/signed-urls/${data.id}`, { method: 'DELETE' })
+      const revoked = await app.request(pathOf(data.url))
+      expect(revoked.status).toBe(403)
+      const error = (await revoked.json()) as StorageErrorResponse
+      expect(error.error.message).toBe('Signed URL has been revoked')
+    })
+
+    it('should refuse requests without a signature', async () => {
+      const res = await app.request('/api/storage/signed/report.txt')
+      expect(res.status).toBe(403)
+    })
+  })
+
+  describe('Bucket policies', () => {
+    // Policies of the buckets, as the storage_buckets table returns them
+    const policies = new Map<string, string>()
+    const policyDatabase = {
+      prepare: (sql: string) => {
+        const statement = (params: unknown[]) => ({
+          bind: (...values: unknown[]) => statement(values),
+          first: async () =>
+            sql.startsWith('SELECT access_policy') && policies.has(params[0] as string)
+              ? { access_policy: policies.get(params[0] as string) }
+              : null,
+          all: async () => ({ results: [] }),
+          run: async () => ({ success: true, meta: { changes: 1 } }),
+        })
+        return statement([])
+      },
+    }
+
+    // Requests of an end user, or of an admin
+    const as = (userId: string, type: 'user' | 'admin' = 'user') => {
+      const client = new Hono<{ Bindings: Env; Variables: Variables }>()
+      client.use('*', async (c, next) => {
+        c.env = {
+          ...createMockEnv(),
+          DB: policyDatabase,
+          USER_STORAGE: mockR2Bucket as unknown as R2Bucket,
+        } as unknown as Env
+        c.set('authContext', { type, user: { id: userId } } as Variables['authContext'])
+        await next()
+      })
+      client.route('/api/storage', storage)
+      return (path: string, init?: RequestInit) => client.request(`/api/storage${path}`, init)
+    }
+
+    const upload = (request: ReturnType<typeof as>, key: string, body = 'content') =>
+      request(`/files/${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'text/plain', 'X-Metadata-OwnerId': 'someone-else' },
+        body,
+      })
+
+    beforeEach(() => {
+      policies.clear()
+    })
+
+    it('should record the uploading user as the owner', async () => {
+      const res = await upload(as('alice'), 'docs/a.txt')
+      expect(res.status).toBe(201)
+
+      const stored = mockR2Bucket.storage.get('docs/a.txt')
+      expect(stored?.metadata.customMetadata?.ownerId).toBe('alice')
+    })
+
+    it('should keep the files of owner-only buckets to their owner', async () => {
+      await upload(as('alice'), 'docs/a.txt')
+      const bob = as('bob')
+
+      expect((await bob('/files/docs%2Fa.txt')).status).toBe(404)
+      expect((await bob('/files/docs%2Fa.txt/content')).status).toBe(404)
+      expect((await upload(bob, 'docs/a.txt', 'overwritten')).status).toBe(403)
+      expect((await bob('/files/docs%2Fa.txt', { method: 'DELETE' })).status).toBe(403)
+      expect(
+        (
+          await bob('/move', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ source: 'docs/a.txt', destination: 'docs/b.txt' }),
+          })
+        ).status
+      ).toBe(403)
+
+      const list = (await (await bob('/files')).json()) as StorageListResponse
+      expect(list.data.files).toEqual([])
+      expect((await as('alice')('/files/docs%2Fa.txt/content')).status).toBe(200)
+    })
+
+    it('should let every user read public buckets but only owners change them', async () => {
+      policies.set('shared', 'public')
+      await upload(as('alice'), 'shared/a.txt')
+      const bob = as('bob')
+
+      const list = (await (await bob('/files')).json()) as StorageListResponse
+      expect(list.data.files.map((file) => file.name)).toEqual(['shared/a.txt'])
+      expect((await bob('/files/shared%2Fa.txt/content')).status).toBe(200)
+      expect((await bob('/files/shared%2Fa.txt', { method: 'DELETE' })).status).toBe(403)
+
+      const copy = await bob('/copy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: 'shared/a.txt', destination: 'shared/b.txt' }),
+      })
+      expect(copy.status).toBe(200)
+      expect(mockR2Bucket.storage.get('shared/b.txt')?.metadata.customMetadata?.ownerId).toBe('bob')
+    })
+
+    it('should refuse end users in private buckets but not admins', async () => {
+      policies.set('internal', 'private')
+
+      expect((await upload(as('alice'), 'internal/a.txt')).status).toBe(403)
+      expect((await upload(as('admin-1', 'admin'), 'internal/a.txt')).status).toBe(201)
+      expect((await as('alice')('/files/internal%2Fa.txt')).status).toBe(403)
+    })
+
+    it('should only let admins manage bucket policies', async () => {
+      const body = { method: 'PUT', body: JSON.stringify({ access_policy: 'public' }) }
+
+      expect((await as('alice')('/buckets/shared', body)).status).toBe(403)
+      expect(
+        (
+          await as('admin-1', 'admin')('/buckets/shared', {
+            ...body,
+            body: '{"access_policy":"x"}',
+          })
+        ).status
+      ).toBe(400)
+      expect((await as('admin-1', 'admin')('/buckets/a%2Fb', body)).status).toBe(400)
+    })
+  })
+
+  describe('Multipart uploads', () => {
+    beforeEach(() => {
+      const db = {
+        prepare: () => ({
+          bind: () => ({ first: async () => null }),
+        }),
+      }
+      app = new Hono<{ Bindings: Env; Variables: Variables }>()
+      app.use('*', async (c, next) => {
+        c.env = {
+          ...createMockEnv(),
+          DB: db,
+          USER_STORAGE: mockR2Bucket as unknown as R2Bucket,
+        } as unknown as Env
+        await next()
+      })
+      app.route('/api/storage', storage)
+    })
+
+    it('should refuse part sizes R2 cannot assemble', async () => {
+      const res = await app.request('/api/storage/multipart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file_name: 'video.mp4', part_size: 1024 }),
+      })
+      expect(res.status).toBe(400)
+    })
+
+    it('should refuse parts out of range and of unknown uploads', async () => {
+      const put = (path: string) =>
+        app.request(path, { method: 'PUT', body: 'part', headers: { 'Content-Length': '4' } })
+
+      expect((await put('/api/storage/multipart/upload-1/parts/0')).status).toBe(400)
+      expect((await put('/api/storage/multipart/upload-1/parts/10001')).status).toBe(400)
+      expect((await put('/api/storage/multipart/upload-1/parts/1')).status).toBe(404)
+    })
+
+    it('should require the length of parts before reading them', async () => {
+      const put = (headers: Record<string, string>) =>
+        app.request('/api/storage/multipart/upload-1/parts/1', {
+          method: 'PUT',
+          body: 'part',
+          headers,
+        })
+
+      expect((await put({})).status).toBe(411)
+      expect((await put({ 'Content-Length': 'four' })).status).toBe(411)
+      expect((await put({ 'Content-Length': String(MAX_PART_SIZE + 1) })).status).toBe(413)
+      expect((await put({ 'Content-Length': '0' })).status).toBe(400)
+    })
+
+    it('should stream parts to R2 and record their declared length', async () => {
+      const received: unknown[] = []
+      const bucket = {
+        ...mockR2Bucket,
+        resumeMultipartUpload: () => ({
+          uploadPart: async (partNumber: number, value: unknown) => {
+            received.push(value)
+            return { partNumber, etag: 'etag-1' }
+          },
+        }),
+      }
+      const { db, executed } = createStubDatabase({
+        first: (sql) =>
+          sql.includes('FROM storage_multipart_uploads')
+            ? { id: 'upload-1', object_key: 'video.mp4', created_by: null }
+            : null,
+      })
+      const client = new Hono<{ Bindings: Env; Variables: Variables }>()
+      client.route('/api/storage', storage)
+
+      const res = await client.request(
+        '/api/storage/multipart/upload-1/parts/1',
+        { method: 'PUT', body: 'part', headers: { 'Content-Length': '4' } },
+        createMockEnv({ DB: db, USER_STORAGE: bucket as unknown as Env['USER_STORAGE'] })
+      )
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toMatchObject({ data: { part_number: 1, etag: 'etag-1', size: 4 } })
+      expect(received[0]).toBeInstanceOf(ReadableStream)
+      expect(await new Response(received[0] as ReadableStream).text()).toBe('part')
+      const insert = executed.find((statement) => statement.sql.includes('INSERT'))
+      expect(insert?.params.slice(0, 4)).toEqual(['upload-1', 1, 'etag-1', 4])
+    })
+  })
+
+  describe('Cache rules', () => {
+    // storage_cache_rules with a single rule for the `public/` prefix
+    const ruleDatabase = {
+      prepare: () => ({
+        bind: (key: string) => ({
+          first: async () =>
+            key.startsWith('public/') ? { cache_control: 'public, max-age=86400' } : null,
+        }),
+      }),
+    }
+
+    const as = (type: 'admin' | 'user') => {
+      const client = new Hono<{ Bindings: Env; Variables: Variables }>()
+      client.use('*', async (c, next) => {
+        c.env = {
+          ...createMockEnv(),
+          DB: ruleDatabase,
+          USER_STORAGE: mockR2Bucket as unknown as R2Bucket,
+        } as unknown as Env
+        c.set('authContext', { type, user: { id: 'u1' } } as Variables['authContext'])
+        await next()
+      })
+      client.route('/api/storage', storage)
+      return (path: string, init?: RequestInit) => client.request(`/api/storage${path}`, init)
+    }
+
+    it('should serve files with their own, their prefix or the default Cache-Control', async () => {
+      const data = new TextEncoder().encode('x')
+      await mockR2Bucket.put('public/logo.png', data)
+      await mockR2Bucket.put('public/banner.png', data, {
+        httpMetadata: { cacheControl: 'no-store' },
+      })
+      await mockR2Bucket.put('notes.txt', data)
+      const admin = as('admin')
+
+      const cacheControl = async (key: string) =>
+        (await admin(`/files/${encodeURIComponent(key)}/content`)).headers.get('Cache-Control')
+      expect(await cacheControl('public/logo.png')).toBe('public, max-age=86400')
+      expect(await cacheControl('public/banner.png')).toBe('no-store')
+      expect(await cacheControl('notes.txt')).toBe('private, no-cache')
+    })
+
+    it('should store the Cache-Control of an upload with the file', async () => {
+      const res = await as('admin')('/files/report.pdf', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/pdf', 'X-Cache-Control': 'max-age=60' },
+        body: 'pdf',
+      })
+      expect(res.status).toBe(201)
+      expect(mockR2Bucket.storage.get('report.pdf')?.metadata.httpMetadata?.cacheControl).toBe(
+        'max-age=60'
+      )
+    })
+
+    it('should let admins only manage rules, and refuse invalid ones', async () => {
+      const rule = (request: ReturnType<typeof as>, body: unknown) =>
+        request('/cache-rules', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+
+      expect((await rule(as('user'), { prefix: 'a/', cache_control: 'no-store' })).status).toBe(403)
+      expect((await rule(as('admin'), { prefix: '', cache_control: 'no-store' })).status).toBe(400)
+      expect(
+        (await rule(as('admin'), { prefix: 'a/', cache_control: 'max-age=1\r\nX-Evil: 1' })).status
+      ).toBe(400)
+    })
+  })
+
+  describe('Image transforms', () => {
+    const preset = {
+      id: 'preset-1',
+      name: 'thumb',
+      width: 8,
+      height: 8,
+      fit: 'cover',
+      format: 'webp',
+      quality: 70,
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+    }
+    // storage_image_presets with the `thumb` preset; no bucket policies or cache rules
+    const presetDatabase = {
+      prepare: (sql: string) => ({
+        bind: (name: string) => ({
+          first: async () =>
+            sql.includes('storage_image_presets') && name === 'thumb' ? preset : null,
+        }),
+        all: async () => ({ results: sql.includes('storage_image_presets') ? [preset] : [] }),
+      }),
+    }
+
+    const as = (type: 'admin' | 'user') => {
+      const client = new Hono<{ Bindings: Env; Variables: Variables }>()
+      client.use('*', async (c, next) => {
+        c.env = {
+          ...createMockEnv(),
+          DB: presetDatabase,
+          USER_STORAGE: mockR2Bucket as unknown as R2Bucket,
+        } as unknown as Env
+        c.set('authContext', { type, user: { id: 'u1' } } as Variables['authContext'])
+        await next()
+      })
+      client.route('/api/storage', storage)
+      return (path: string, init?: RequestInit) => client.request(`/api/storage${path}`, init)
+    }
+
+    beforeEach(async () => {
+      const pixels = new Uint8ClampedArray(32 * 24 * 4).fill(200)
+      const photo = await renderImage(
+        { data: pixels, width: 32, height: 24 },
+        { width: null, height: null, fit: 'contain', format: 'jpeg', quality: 90 }
+      )
+      await mockR2Bucket.put('photos/a.jpg', photo, {
+        httpMetadata: { contentType: 'image/jpeg' },
+        customMetadata: { ownerId: 'u1' },
+      })
+    })
+
+    it('should transform an image by a preset and store the result', async () => {
+      const put = vi.spyOn(mockR2Bucket, 'put')
+      const admin = as('admin')
+
+      const res = await admin('/files/photos%2Fa.jpg/transform?preset=thumb')
+      expect(res.status).toBe(200)
+      expect(res.headers.get('Content-Type')).toBe('image/webp')
+      expect(mockR2Bucket.storage.has('.transforms/thumb/photos/a.jpg.webp')).toBe(true)
+
+      const again = await admin('/files/photos%2Fa.jpg/transform?preset=thumb')
+      expect(again.status).toBe(200)
+      expect(put).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refuse unknown presets and files that are not images', async () => {
+      await mockR2Bucket.put('notes.txt', new TextEncoder().encode('text'))
+      const admin = as('admin')
+
+      expect((await admin('/files/photos%2Fa.jpg/transform?preset=huge')).status).toBe(404)
+      expect((await admin('/files/notes.txt/transform?preset=thumb')).status).toBe(400)
+    })
+
+    it('should hide transformed copies from end users', async () => {
+      await as('admin')('/files/photos%2Fa.jpg/transform?preset=thumb')
+      const user = as('user')
+
+      const copy = encodeURIComponent('.transforms/thumb/photos/a.jpg.webp')
+      expect((await user(`/files/${copy}/content`)).status).toBe(404)
+      expect((await user('/files/photos%2Fa.jpg/transform?preset=thumb')).status).toBe(200)
+
+      const list = (await (await user('/files')).json()) as StorageListResponse
+      expect(list.data.files.map((file) => file.name)).toEqual(['photos/a.jpg'])
+    })
+
+    describe('transformed copies', () => {
+      const copyExists = (key: string) => mockR2Bucket.storage.has(`.transforms/thumb/${key}.webp`)
+
+      beforeEach(async () => {
+        await as('admin')('/files/photos%2Fa.jpg/transform?preset=thumb')
+        expect(copyExists('photos/a.jpg')).toBe(true)
+      })
+
+      it('should be deleted with their file', async () => {
+        const res = await as('user')('/files/photos%2Fa.jpg', { method: 'DELETE' })
+
+        expect(res.status).toBe(200)
+        expect(copyExists('photos/a.jpg')).toBe(false)
+      })
+
+      it('should be deleted when their file is moved', async () => {
+        const res = await as('user')('/move', {
+          method: 'POST',
+          body: JSON.stringify({ source: 'photos/a.jpg', destination: 'photos/b.jpg' }),
+        })
+
+        expect(res.status).toBe(200)
+        expect(copyExists('photos/a.jpg')).toBe(false)
+      })
+
+      it('should be deleted when their file is overwritten', async () => {
+        const res = await as('user')('/files/photos%2Fa.jpg', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'image/jpeg' },
+          body: 'replaced',
+        })
+
+        expect(res.status).toBe(201)
+        expect(copyExists('photos/a.jpg')).toBe(false)
+      })
+    })
+  })
 })
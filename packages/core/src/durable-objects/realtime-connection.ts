@@ -1,17 +1,44 @@
 import { DurableObject } from 'cloudflare:workers'
+import {
+  RealtimeAccessFilter,
+  type RealtimeEventTarget,
+  type RealtimeRecipient,
+} from '../lib/realtime-access'
+import {
+  CHANNEL_FRAME_TYPES,
+  type ChannelFrame,
+  type ChannelMembership,
+  canJoinChannel,
+  type PresenceMember,
+  parseChannelFrame,
+} from '../lib/realtime-channels'
+import {
+  formatEventId,
+  parseEventId,
+  parseSequenceCursor,
+  RealtimeEventLog,
+  type RealtimeSequenceCursor,
+} from '../lib/realtime-event-log'
+import {
+  mergeSubscriptionSpecs,
+  parseSubscriptionSpecs,
+  RealtimeSubscriptionMatcher,
+  type RealtimeSubscriptionSpec,
+} from '../lib/realtime-filter'
+import {
+  checkShardSubscriptions,
+  parseShardName,
+  type RealtimeEventPayload,
+  type RealtimeShard,
+} from '../lib/realtime-shards'
+import type { Env } from '../types'
 
 export interface RealtimeMessage {
   type: 'event' | 'ping' | 'subscribe' | 'unsubscribe'
-  event?: {
-    id: string
-    table: string
-    recordId: string
-    eventType: 'insert' | 'update' | 'delete'
-    data: Record<string, unknown>
-    timestamp: string
-  }
+  event?: RealtimeEventPayload
   subscriptions?: {
     tables?: string[]
+    specs?: RealtimeSubscriptionSpec[] // Subscriptions with event types and row filters
     hookIds?: string[]
   }
 }
@@ -19,17 +46,90 @@ export interface RealtimeMessage {
 interface Connection {
   id: string
   userId?: string
+  role?: string
+  shard: RealtimeShard
   subscriptions: {
-    tables: Set<string>
+    specs: RealtimeSubscriptionSpec[]
     hookIds: Set<string>
   }
+  channels: Record<string, ChannelMembership>
   writer: WritableStreamDefaultWriter<Uint8Array>
+  // Messages are written one after the other; senders do not wait for the client to read them
+  outbox: Promise<void>
+  queued: number
   lastPing: number
 }
 
-export class RealtimeConnectionManager extends DurableObject {
+// State of a WebSocket connection, kept in the socket's attachment so that it survives
+// hibernation of the Durable Object
+export interface SocketAttachment {
+  clientId: string
+  userId?: string
+  role?: string
+  shard: string // Name of the table or channel shard the socket connected to
+  subscriptions: RealtimeSubscriptionSpec[]
+  channels: Record<string, ChannelMembership>
+  connectedAt: string
+}
+
+// Frames clients send on a WebSocket; channel frames are validated by parseChannelFrame
+interface ClientFrame {
+  type?: string
+  tables?: unknown // Plain table subscriptions
+  subscriptions?: unknown // Subscriptions with event types and row filters
+  ids?: unknown // Subscription ids, for unsubscribe
+}
+
+// A connection of either transport, as seen by channels
+interface ChannelPeer extends RealtimeRecipient {
+  clientId: string
+  shard: RealtimeShard
+  channels: Record<string, ChannelMembership>
+  send: (data: Record<string, unknown>) => void
+  save: () => boolean // Persist the memberships; false when they do not fit
+}
+
+// A connection catching up on the events it missed, as seen by replays
+interface ReplayTarget extends RealtimeRecipient {
+  clientId: string
+  getSpecs: () => RealtimeSubscriptionSpec[] // Read when the replay runs
+  send: (data: Record<string, unknown>, eventId?: string) => void
+}
+
+// Answer to a request an SSE client makes on its connection through the API
+export type ClientResult =
+  | { success: true }
+  | { success: false; error: string; status: 400 | 403 | 404 }
+
+// Answered by the runtime without waking the Durable Object
+const PING_FRAME = '{"type":"ping"}'
+const PONG_FRAME = '{"type":"pong"}'
+
+const MAX_SUBSCRIPTIONS = 100
+
+// SSE messages a client may leave unread before its stream is closed; it then reconnects and
+// catches up from the event log
+const MAX_QUEUED_MESSAGES = 500
+
+const ATTACHMENT_TOO_LARGE =
+  'Subscriptions and channels are too large to keep; use fewer filters, channels or presence'
+
+type BroadcastEvent = RealtimeEventPayload
+
+// Events reach end users only when they could read the row (see RealtimeAccessFilter)
+export class RealtimeConnectionManager extends DurableObject<Env> {
   private connections: Map<string, Connection> = new Map()
   private pingInterval?: number
+  // Last sequence delivered per table; events are delivered one at a time, in order
+  private deliveredSeqs: Map<string, number> = new Map()
+  private deliveries: Promise<unknown> = Promise.resolve()
+  // Clients whose missed events are being replayed; live events reach them afterwards
+  private replaying: Set<string> = new Set()
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env)
+    this.ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair(PING_FRAME, PONG_FRAME))
+  }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url)
@@ -39,6 +139,11 @@ export class RealtimeConnectionManager extends DurableObject {
       return this.handleSSEConnection(request)
     }
 
+    // Handle WebSocket connections (hibernatable)
+    if (url.pathname === '/websocket') {
+      return this.handleWebSocketConnection(request)
+    }
+
     // Handle event broadcasts
     if (url.pathname === '/broadcast' && request.method === 'POST') {
       return this.handleBroadcast(request)
@@ -56,11 +161,30 @@ export class RealtimeConnectionManager extends DurableObject {
     const url = new URL(request.url)
     const clientId = url.searchParams.get('clientId')
     const userId = url.searchParams.get('userId')
+    const role = url.searchParams.get('role')
 
     if (!clientId) {
       return new Response('Missing clientId', { status: 400 })
     }
 
+    const shard = parseShardName(url.searchParams.get('shard') ?? '')
+    if (!shard) {
+      return new Response('Missing or invalid shard', { status: 400 })
+    }
+
+    let specs: RealtimeSubscriptionSpec[]
+    let since: RealtimeSequenceCursor
+    try {
+      specs = parseInitialSubscriptions(url)
+      checkShardSubscriptions(shard, specs)
+      since = parseResumeCursor(url, request.headers.get('Last-Event-ID'))
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : 'Invalid subscriptions', {
+        status: 400,
+      })
+    }
+    const sequences = await this.latestSequences(shard)
+
     // Create SSE response with proper headers
     const { readable, writable } = new TransformStream()
     const writer = writable.getWriter()
@@ -70,23 +194,43 @@ export class RealtimeConnectionManager extends DurableObject {
     const connection: Connection = {
       id: clientId,
       userId: userId || undefined,
+      role: role || undefined,
+      shard,
       subscriptions: {
-        tables: new Set(),
+        specs,
         hookIds: new Set(),
       },
+      channels: {},
       writer,
+      outbox: Promise.resolve(),
+      queued: 0,
       lastPing: Date.now(),
     }
 
     this.connections.set(clientId, connection)
 
-    // Send initial connection message
-    await this.sendToClient(connection, {
+    // Send initial connection message; it is read once the response is returned
+    this.sendToClient(connection, {
       type: 'connected',
       clientId,
+      subscriptions: specs,
+      sequences,
       timestamp: new Date().toISOString(),
     })
 
+    this.startReplay(
+      {
+        clientId,
+        userId: connection.userId,
+        role: connection.role,
+        getSpecs: () => connection.subscriptions.specs,
+        send: (data, eventId) => this.sendToClient(connection, data, eventId),
+      },
+      shard,
+      sequences,
+      since
+    )
+
     // Start ping interval if not already running
     if (!this.pingInterval) {
       this.startPingInterval()
@@ -94,7 +238,7 @@ export class RealtimeConnectionManager extends DurableObject {
 
     // Clean up on disconnect
     request.signal.addEventListener('abort', () => {
-      this.connections.delete(clientId)
+      this.removeConnection(connection)
       writer.close().catch(() => {})
 
       // Stop ping interval if no more connections
@@ -114,6 +258,209 @@ export class RealtimeConnectionManager extends DurableObject {
     })
   }
 
+  private async handleWebSocketConnection(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return new Response('Expected WebSocket upgrade', { status: 426 })
+    }
+
+    const url = new URL(request.url)
+    const clientId = url.searchParams.get('clientId')
+    const userId = url.searchParams.get('userId')
+    const role = url.searchParams.get('role')
+
+    if (!clientId) {
+      return new Response('Missing clientId', { status: 400 })
+    }
+
+    const shard = parseShardName(url.searchParams.get('shard') ?? '')
+    if (!shard) {
+      return new Response('Missing or invalid shard', { status: 400 })
+    }
+
+    let specs: RealtimeSubscriptionSpec[]
+    let since: RealtimeSequenceCursor
+    try {
+      specs = parseInitialSubscriptions(url)
+      checkShardSubscriptions(shard, specs)
+      since = parseResumeCursor(url, null)
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : 'Invalid subscriptions', {
+        status: 400,
+      })
+    }
+    const sequences = await this.latestSequences(shard)
+
+    const [client, server] = Object.values(new WebSocketPair())
+
+    // Accepting through the state (instead of server.accept()) lets the Durable Object
+    // hibernate while the socket stays open; the client id tag finds it again
+    this.ctx.acceptWebSocket(server, [clientId])
+
+    const attachment: SocketAttachment = {
+      clientId,
+      userId: userId || undefined,
+      role: role || undefined,
+      shard: url.searchParams.get('shard') as string,
+      subscriptions: specs,
+      channels: {},
+      connectedAt: new Date().toISOString(),
+    }
+    if (!this.saveAttachment(server, attachment)) {
+      attachment.subscriptions = []
+      server.serializeAttachment(attachment)
+      this.sendToSocket(server, { type: 'error', message: ATTACHMENT_TOO_LARGE })
+    }
+
+    server.send(
+      JSON.stringify({
+        type: 'connected',
+        clientId,
+        subscriptions: attachment.subscriptions,
+        sequences,
+        timestamp: attachment.connectedAt,
+      })
+    )
+
+    this.startReplay(
+      {
+        clientId,
+        userId: attachment.userId,
+        role: attachment.role,
+        getSpecs: () =>
+          (server.deserializeAttachment() as SocketAttachment | null)?.subscriptions ?? [],
+        send: (data) => this.sendToSocket(server, data),
+      },
+      shard,
+      sequences,
+      since
+    )
+
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
+  // Frames received on hibernatable WebSockets
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    let frame: ClientFrame
+    try {
+      frame = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message))
+    } catch {
+      this.sendToSocket(ws, { type: 'error', message: 'Invalid JSON frame' })
+      return
+    }
+
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null
+    if (!attachment) {
+      ws.close(1011, 'Missing connection state')
+      return
+    }
+
+    if (CHANNEL_FRAME_TYPES.includes(frame.type as ChannelFrame['type'])) {
+      let channelFrame: ChannelFrame
+      try {
+        channelFrame = parseChannelFrame(frame)
+      } catch (error) {
+        this.sendToSocket(ws, {
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Invalid channel message',
+        })
+        return
+      }
+
+      const result = this.applyChannelFrame(this.socketPeer(ws, attachment), channelFrame)
+      if (!result.success) {
+        this.sendToSocket(ws, {
+          type: 'error',
+          channel: channelFrame.channel,
+          message: result.error,
+        })
+      }
+      return
+    }
+
+    switch (frame.type) {
+      case 'subscribe':
+      case 'unsubscribe': {
+        let subscriptions: RealtimeSubscriptionSpec[]
+        try {
+          subscriptions =
+            frame.type === 'subscribe'
+              ? mergeSubscriptionSpecs(attachment.subscriptions, [
+                  ...specsFromTables(parseStringList(frame.tables, 'tables')),
+                  ...(frame.subscriptions === undefined
+                    ? []
+                    : parseSubscriptionSpecs(frame.subscriptions)),
+                ])
+              : removeSubscriptions(
+                  attachment.subscriptions,
+                  parseStringList(frame.tables, 'tables'),
+                  parseStringList(frame.ids, 'ids'),
+                  frame.tables === undefined && frame.ids === undefined
+                )
+          checkShardSubscriptions(socketShard(attachment), subscriptions)
+        } catch (error) {
+          this.sendToSocket(ws, {
+            type: 'error',
+            message: error instanceof Error ? error.message : 'Invalid subscriptions',
+          })
+          return
+        }
+
+        if (subscriptions.length > MAX_SUBSCRIPTIONS) {
+          this.sendToSocket(ws, {
+            type: 'error',
+            message: `Cannot have more than ${MAX_SUBSCRIPTIONS} subscriptions`,
+          })
+          return
+        }
+
+        const previous = attachment.subscriptions
+        attachment.subscriptions = subscriptions
+        if (!this.saveAttachment(ws, attachment)) {
+          attachment.subscriptions = previous
+          this.sendToSocket(ws, { type: 'error', message: ATTACHMENT_TOO_LARGE })
+          return
+        }
+
+        this.sendToSocket(ws, {
+          type: 'subscriptions_updated',
+          subscriptions,
+          timestamp: new Date().toISOString(),
+        })
+        return
+      }
+
+      case 'ping':
+        // Pings with extra fields are not auto-answered by the runtime
+        this.sendToSocket(ws, { type: 'pong', timestamp: new Date().toISOString() })
+        return
+
+      default:
+        this.sendToSocket(ws, {
+          type: 'error',
+          message: `Unknown message type: ${String(frame.type)}`,
+        })
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null
+    if (attachment) {
+      this.announceDeparture(attachment.clientId, attachment.channels, ws)
+    }
+
+    // Complete the closing handshake; 1005 and 1006 are reserved and cannot be sent
+    try {
+      ws.close(code === 1005 || code === 1006 ? 1000 : code, reason)
+    } catch {
+      // Already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null
+    console.error(`WebSocket error for client ${attachment?.clientId}:`, error)
+  }
+
   private async handleBroadcast(request: Request): Promise<Response> {
     try {
       const message: RealtimeMessage = await request.json()
@@ -123,22 +470,7 @@ export class RealtimeConnectionManager extends DurableObject {
       }
 
       const event = message.event
-      let broadcastCount = 0
-
-      // Broadcast to all relevant connections
-      for (const [_clientId, connection] of this.connections) {
-        // Check if connection is subscribed to this event
-        if (
-          connection.subscriptions.tables.has(event.table) ||
-          connection.subscriptions.tables.has('*')
-        ) {
-          await this.sendToClient(connection, {
-            type: 'event',
-            ...event,
-          })
-          broadcastCount++
-        }
-      }
+      const broadcastCount = await this.enqueueDelivery(() => this.deliverInOrder(event))
 
       return new Response(
         JSON.stringify({
@@ -155,6 +487,66 @@ export class RealtimeConnectionManager extends DurableObject {
     }
   }
 
+  // Run deliveries one after the other, so that events keep their order across awaits
+  private enqueueDelivery<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.deliveries.then(task)
+    this.deliveries = run.catch(() => {})
+    return run
+  }
+
+  // Deliver an event after any event of its table that has not arrived yet, and skip events
+  // that were already delivered (broadcasts retried by /process-events)
+  private async deliverInOrder(event: BroadcastEvent): Promise<number> {
+    const delivered = this.deliveredSeqs.get(event.table)
+    if (delivered !== undefined && event.seq <= delivered) {
+      return 0
+    }
+
+    const missed =
+      delivered !== undefined && event.seq > delivered + 1 && this.env.DB
+        ? await new RealtimeEventLog(this.env.DB).range(event.table, delivered, event.seq - 1)
+        : []
+
+    let broadcastCount = 0
+    for (const next of [...missed, event]) {
+      broadcastCount += await this.deliverEvent(next)
+      this.deliveredSeqs.set(next.table, next.seq)
+    }
+    return broadcastCount
+  }
+
+  private async deliverEvent(event: BroadcastEvent): Promise<number> {
+    let broadcastCount = 0
+    const canReceive = this.createAccessFilter().forEvent(event)
+    const matcher = new RealtimeSubscriptionMatcher(this.env.DB, event)
+
+    // Broadcast to all relevant connections
+    for (const [clientId, connection] of this.connections) {
+      if (this.replaying.has(clientId)) continue
+
+      // Check if connection is subscribed to this event and may read its row
+      const ids = await matcher.matchingIds(connection.subscriptions.specs)
+      if (ids.length > 0 && (await canReceive(connection))) {
+        this.sendToClient(connection, eventFrame(event, ids), formatEventId(event))
+        broadcastCount++
+      }
+    }
+
+    // Broadcast to WebSocket connections, including those accepted before hibernation
+    for (const ws of this.ctx.getWebSockets()) {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null
+      if (!attachment || this.replaying.has(attachment.clientId)) continue
+
+      const ids = await matcher.matchingIds(attachment.subscriptions)
+      if (ids.length > 0 && (await canReceive(attachment))) {
+        this.sendToSocket(ws, eventFrame(event, ids))
+        broadcastCount++
+      }
+    }
+
+    return broadcastCount
+  }
+
   private async handleDisconnect(request: Request): Promise<Response> {
     try {
       const { clientId } = (await request.json()) as { clientId?: string }
@@ -167,6 +559,11 @@ export class RealtimeConnectionManager extends DurableObject {
       if (connection) {
         await connection.writer.close().catch(() => {})
         this.connections.delete(clientId)
+        this.announceDeparture(clientId, connection.channels)
+      }
+
+      for (const ws of this.ctx.getWebSockets(clientId)) {
+        ws.close(1000, 'Disconnected')
       }
 
       return new Response(JSON.stringify({ success: true }), {
@@ -178,15 +575,140 @@ export class RealtimeConnectionManager extends DurableObject {
     }
   }
 
-  private async sendToClient(connection: Connection, data: Record<string, unknown>): Promise<void> {
+  // Without a database only admins and API keys can be cleared to receive events
+  private createAccessFilter(): Pick<RealtimeAccessFilter, 'forEvent'> {
+    if (this.env.DB) {
+      return new RealtimeAccessFilter(this.env.DB)
+    }
+    return {
+      forEvent: (_event: RealtimeEventTarget) => async (recipient: RealtimeRecipient) =>
+        !recipient.userId,
+    }
+  }
+
+  // Latest sequences of the tables a shard delivers, announced to new connections as the
+  // position to resume from
+  private async latestSequences(shard: RealtimeShard): Promise<RealtimeSequenceCursor> {
+    if (shard.kind === 'channel' || !this.env.DB) return {}
+    const eventLog = new RealtimeEventLog(this.env.DB)
+    return eventLog.latestSequences(shard.table === '*' ? undefined : [shard.table])
+  }
+
+  // Send a resuming client the events it missed, before any live event
+  // Tables the client has no position for are replayed from the time it connected, so nothing
+  // broadcast while the replay waits its turn is lost
+  private startReplay(
+    target: ReplayTarget,
+    shard: RealtimeShard,
+    sequences: RealtimeSequenceCursor,
+    since: RealtimeSequenceCursor
+  ): void {
+    if (shard.kind === 'channel' || Object.keys(since).length === 0 || !this.env.DB) return
+
+    const cursor: RealtimeSequenceCursor = { ...sequences }
+    for (const [table, seq] of Object.entries(since)) {
+      if (shard.table === '*' || shard.table === table) {
+        cursor[table] = seq
+      }
+    }
+
+    const eventLog = new RealtimeEventLog(this.env.DB)
+    this.replaying.add(target.clientId)
+    this.enqueueDelivery(() => this.replayEvents(eventLog, target, cursor))
+      .catch((error) => console.error(`Replay for client ${target.clientId} failed:`, error))
+      .finally(() => this.replaying.delete(target.clientId))
+  }
+
+  private async replayEvents(
+    eventLog: RealtimeEventLog,
+    target: ReplayTarget,
+    cursor: RealtimeSequenceCursor
+  ): Promise<void> {
+    const filter = this.createAccessFilter()
+
+    for (const [table, seq] of Object.entries(cursor)) {
+      // Events the shard has not delivered yet reach the client live
+      const replay = await eventLog.replay(table, seq, this.deliveredSeqs.get(table))
+      if (replay.gap) {
+        // Too far behind the retained log: the client has to refetch the table
+        target.send({
+          type: 'resync_required',
+          table,
+          seq: replay.latestSeq,
+          timestamp: new Date().toISOString(),
+        })
+        continue
+      }
+
+      for (const event of replay.events) {
+        const matcher = new RealtimeSubscriptionMatcher(this.env.DB, event)
+        const ids = await matcher.matchingIds(target.getSpecs())
+        if (ids.length > 0 && (await filter.forEvent(event)(target))) {
+          target.send(eventFrame(event, ids), formatEventId(event))
+        }
+      }
+    }
+  }
+
+  // Queue a message on an SSE stream. Writes resolve only once the client reads them, so they
+  // are chained per connection: a slow client does not hold up deliveries to the others
+  private sendToClient(
+    connection: Connection,
+    data: Record<string, unknown>,
+    eventId?: string
+  ): void {
+    if (connection.queued >= MAX_QUEUED_MESSAGES) {
+      console.error(`Client ${connection.id} is too far behind; closing its stream`)
+      connection.writer.abort('Client too far behind').catch(() => {})
+      this.removeConnection(connection)
+      return
+    }
+
+    // The id line lets EventSource send Last-Event-ID when it reconnects
+    const message = `${eventId ? `id: ${eventId}\n` : ''}data: ${JSON.stringify(data)}\n\n`
+    connection.queued++
+    connection.outbox = connection.outbox.then(async () => {
+      try {
+        // Messages still queued when the connection went away are dropped
+        if (this.connections.get(connection.id) !== connection) return
+        await connection.writer.write(new TextEncoder().encode(message))
+        connection.lastPing = Date.now()
+      } catch (error) {
+        // Connection might be closed
+        console.error(`Failed to send to client ${connection.id}:`, error)
+        this.removeConnection(connection)
+      } finally {
+        connection.queued--
+      }
+    })
+  }
+
+  // Forget an SSE connection, unless a reconnect with its client id already replaced it
+  private removeConnection(connection: Connection): void {
+    if (this.connections.get(connection.id) === connection) {
+      this.connections.delete(connection.id)
+      this.announceDeparture(connection.id, connection.channels)
+    }
+  }
+
+  // Attachments are limited to 2 KB; callers report state that does not fit instead of failing
+  private saveAttachment(ws: WebSocket, attachment: SocketAttachment): boolean {
     try {
-      const encoder = new TextEncoder()
-      const message = `data: ${JSON.stringify(data)}\n\n`
-      await connection.writer.write(encoder.encode(message))
+      ws.serializeAttachment(attachment)
+      return true
     } catch (error) {
-      // Connection might be closed
-      console.error(`Failed to send to client ${connection.id}:`, error)
-      this.connections.delete(connection.id)
+      console.error(`Failed to save state of client ${attachment.clientId}:`, error)
+      return false
+    }
+  }
+
+  private sendToSocket(ws: WebSocket, data: Record<string, unknown>): void {
+    try {
+      ws.send(JSON.stringify(data))
+    } catch (error) {
+      // Socket might be closing; the runtime drops it from getWebSockets() once closed
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null
+      console.error(`Failed to send to client ${attachment?.clientId}:`, error)
     }
   }
 
@@ -195,20 +717,17 @@ export class RealtimeConnectionManager extends DurableObject {
       const now = Date.now()
       const timeout = 30000 // 30 seconds
 
-      for (const [clientId, connection] of this.connections) {
-        // Send ping
+      for (const connection of this.connections.values()) {
+        // Send ping; connections that fail to take it are removed
         this.sendToClient(connection, {
           type: 'ping',
           timestamp: new Date().toISOString(),
-        }).catch(() => {
-          // Remove dead connections
-          this.connections.delete(clientId)
         })
 
         // Check for stale connections
         if (now - connection.lastPing > timeout * 2) {
           connection.writer.close().catch(() => {})
-          this.connections.delete(clientId)
+          this.removeConnection(connection)
         }
       }
 
@@ -220,29 +739,378 @@ export class RealtimeConnectionManager extends DurableObject {
     }, 25000) as unknown as number // Ping every 25 seconds
   }
 
-  // Handle subscription updates from clients
+  // Handle subscription updates sent through /api/realtime/subscribe
   async updateSubscriptions(
     clientId: string,
+    userId: string | undefined,
     subscriptions: RealtimeMessage['subscriptions']
-  ): Promise<void> {
+  ): Promise<ClientResult> {
     const connection = this.connections.get(clientId)
-    if (!connection) return
+    const sockets = this.ctx.getWebSockets(clientId)
+    const owners = [
+      ...(connection ? [connection.userId] : []),
+      ...sockets.map((ws) => (ws.deserializeAttachment() as SocketAttachment | null)?.userId),
+    ]
+    if (owners.length === 0) {
+      return { success: false, error: 'Unknown client', status: 404 }
+    }
+    // Only the identity that opened the connection may change its subscriptions
+    if (owners.some((owner) => (owner ?? null) !== (userId ?? null))) {
+      return { success: false, error: 'Client belongs to another user', status: 403 }
+    }
+
+    // Tables and filtered subscriptions together replace the current subscriptions
+    const specs =
+      subscriptions?.tables || subscriptions?.specs
+        ? mergeSubscriptionSpecs(
+            specsFromTables(subscriptions.tables ?? []),
+            subscriptions.specs ?? []
+          )
+        : undefined
+
+    // WebSocket clients keep their subscriptions in the socket attachment
+    for (const ws of sockets) {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null
+      if (!attachment || !specs) continue
+
+      const previous = attachment.subscriptions
+      attachment.subscriptions = specs
+      if (!this.saveAttachment(ws, attachment)) {
+        attachment.subscriptions = previous
+        this.sendToSocket(ws, { type: 'error', message: ATTACHMENT_TOO_LARGE })
+        continue
+      }
+      this.sendToSocket(ws, {
+        type: 'subscriptions_updated',
+        subscriptions: specs,
+        timestamp: new Date().toISOString(),
+      })
+    }
 
-    if (subscriptions?.tables) {
-      connection.subscriptions.tables = new Set(subscriptions.tables)
+    if (!connection) return { success: true }
+
+    if (specs) {
+      connection.subscriptions.specs = specs
     }
     if (subscriptions?.hookIds) {
       connection.subscriptions.hookIds = new Set(subscriptions.hookIds)
     }
 
     // Send confirmation
-    await this.sendToClient(connection, {
+    this.sendToClient(connection, {
       type: 'subscriptions_updated',
-      subscriptions: {
-        tables: Array.from(connection.subscriptions.tables),
-        hookIds: Array.from(connection.subscriptions.hookIds),
-      },
+      subscriptions: connection.subscriptions.specs,
+      hookIds: Array.from(connection.subscriptions.hookIds),
       timestamp: new Date().toISOString(),
     })
+    return { success: true }
+  }
+
+  // Handle channel messages of SSE clients, sent through /api/realtime/channels
+  async channelMessage(
+    clientId: string,
+    userId: string | undefined,
+    message: unknown
+  ): Promise<ClientResult> {
+    const connection = this.connections.get(clientId)
+    if (!connection) {
+      return { success: false, error: 'Unknown client', status: 404 }
+    }
+    // Only the identity that opened the stream may act for it
+    if ((connection.userId ?? null) !== (userId ?? null)) {
+      return { success: false, error: 'Client belongs to another user', status: 403 }
+    }
+
+    let frame: ChannelFrame
+    try {
+      frame = parseChannelFrame(message)
+    } catch (error) {
+      const messageText = error instanceof Error ? error.message : 'Invalid channel message'
+      return { success: false, error: messageText, status: 400 }
+    }
+
+    return this.applyChannelFrame(this.connectionPeer(connection), frame)
+  }
+
+  // Apply a join/track/untrack/leave/broadcast frame and notify the channel's members
+  private applyChannelFrame(peer: ChannelPeer, frame: ChannelFrame): ClientResult {
+    const { channel } = frame
+    const membership = peer.channels[channel]
+    const timestamp = new Date().toISOString()
+
+    // Channels are sharded: a connection takes part in the channel it connected to
+    if (peer.shard.kind !== 'channel' || peer.shard.channel !== channel) {
+      return {
+        success: false,
+        error: `This connection does not serve channel ${channel}; open one for it`,
+        status: 400,
+      }
+    }
+
+    switch (frame.type) {
+      case 'join':
+      case 'track': {
+        if (!canJoinChannel(channel, peer)) {
+          return { success: false, error: `Not allowed to join channel ${channel}`, status: 403 }
+        }
+        const updated: ChannelMembership = { ...(membership ?? { joinedAt: timestamp }) }
+        if (frame.type === 'track') {
+          updated.presence = frame.presence
+        }
+        peer.channels[channel] = updated
+        if (!peer.save()) {
+          restoreMembership(peer.channels, channel, membership)
+          return { success: false, error: ATTACHMENT_TOO_LARGE, status: 400 }
+        }
+
+        // A new member learns the current presence; the others learn about tracked members
+        if (!membership) {
+          peer.send({
+            type: 'presence_sync',
+            channel,
+            members: this.presenceOf(channel),
+            timestamp,
+          })
+        }
+        if (frame.type === 'track') {
+          const member = toPresenceMember(peer, updated)
+          for (const other of this.channelPeers()) {
+            if (!other.channels[channel] || (other.clientId === peer.clientId && !membership)) {
+              continue
+            }
+            other.send({ type: 'presence_join', channel, member, timestamp })
+          }
+        }
+        return { success: true }
+      }
+
+      case 'untrack':
+      case 'leave': {
+        if (!membership) return { success: true }
+
+        if (frame.type === 'leave') {
+          delete peer.channels[channel]
+        } else {
+          peer.channels[channel] = { joinedAt: membership.joinedAt }
+        }
+        // Removing state always fits
+        peer.save()
+
+        if (membership.presence) {
+          for (const other of this.channelPeers()) {
+            if (other.channels[channel] || other.clientId === peer.clientId) {
+              other.send({ type: 'presence_leave', channel, clientId: peer.clientId, timestamp })
+            }
+          }
+        }
+        return { success: true }
+      }
+
+      case 'broadcast': {
+        if (!membership) {
+          return {
+            success: false,
+            error: `Join channel ${channel} before broadcasting to it`,
+            status: 403,
+          }
+        }
+
+        const message = {
+          type: 'broadcast',
+          channel,
+          event: frame.event,
+          payload: frame.payload,
+          from: { clientId: peer.clientId, userId: peer.userId },
+          timestamp,
+        }
+        for (const other of this.channelPeers()) {
+          if (other.clientId !== peer.clientId && other.channels[channel]) {
+            other.send(message)
+          }
+        }
+        return { success: true }
+      }
+    }
+  }
+
+  // Tell the remaining members of a departed connection's channels that it left
+  private announceDeparture(
+    clientId: string,
+    channels: Record<string, ChannelMembership>,
+    closingSocket?: WebSocket
+  ): void {
+    const tracked = Object.keys(channels).filter((channel) => channels[channel].presence)
+    if (tracked.length === 0) return
+
+    const timestamp = new Date().toISOString()
+    for (const other of this.channelPeers(closingSocket)) {
+      if (other.clientId === clientId) continue
+      for (const channel of tracked) {
+        if (other.channels[channel]) {
+          other.send({ type: 'presence_leave', channel, clientId, timestamp })
+        }
+      }
+    }
+  }
+
+  private presenceOf(channel: string): PresenceMember[] {
+    const members: PresenceMember[] = []
+    for (const peer of this.channelPeers()) {
+      const membership = peer.channels[channel]
+      if (membership?.presence) {
+        members.push(toPresenceMember(peer, membership))
+      }
+    }
+    return members
+  }
+
+  // Connections of both transports, including sockets accepted before hibernation
+  private channelPeers(excludedSocket?: WebSocket): ChannelPeer[] {
+    const peers = [...this.connections.values()].map((connection) =>
+      this.connectionPeer(connection)
+    )
+    for (const ws of this.ctx.getWebSockets()) {
+      if (ws === excludedSocket) continue
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null
+      if (attachment) {
+        peers.push(this.socketPeer(ws, attachment))
+      }
+    }
+    return peers
+  }
+
+  private connectionPeer(connection: Connection): ChannelPeer {
+    return {
+      clientId: connection.id,
+      userId: connection.userId,
+      role: connection.role,
+      shard: connection.shard,
+      channels: connection.channels,
+      send: (data) => {
+        this.sendToClient(connection, data)
+      },
+      save: () => true,
+    }
+  }
+
+  private socketPeer(ws: WebSocket, attachment: SocketAttachment): ChannelPeer {
+    // Sockets accepted before channels existed have no memberships yet
+    attachment.channels ??= {}
+    return {
+      clientId: attachment.clientId,
+      userId: attachment.userId,
+      role: attachment.role,
+      shard: socketShard(attachment),
+      channels: attachment.channels,
+      send: (data) => this.sendToSocket(ws, data),
+      save: () => this.saveAttachment(ws, attachment),
+    }
   }
 }
+
+function socketShard(attachment: SocketAttachment): RealtimeShard {
+  // Sockets accepted before sharding have no shard; they subscribed to any table
+  return parseShardName(attachment.shard ?? '') ?? { kind: 'table', table: '*' }
+}
+
+function toPresenceMember(peer: ChannelPeer, membership: ChannelMembership): PresenceMember {
+  return {
+    clientId: peer.clientId,
+    userId: peer.userId,
+    presence: membership.presence ?? {},
+    joinedAt: membership.joinedAt,
+  }
+}
+
+function restoreMembership(
+  channels: Record<string, ChannelMembership>,
+  channel: string,
+  membership: ChannelMembership | undefined
+): void {
+  if (membership) {
+    channels[channel] = membership
+  } else {
+    delete channels[channel]
+  }
+}
+
+// Deduplicate table names and drop anything that is not a non-empty string
+function normalizeTables(tables: unknown[]): string[] {
+  const names = tables
+    .filter((table): table is string => typeof table === 'string')
+    .map((table) => table.trim())
+    .filter((table) => table.length > 0)
+  return [...new Set(names)]
+}
+
+// Plain table subscriptions are identified by their table name
+function specsFromTables(tables: string[]): RealtimeSubscriptionSpec[] {
+  return normalizeTables(tables).map((table) => ({ id: table, table }))
+}
+
+function parseStringList(value: unknown, name: string): string[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${name} must be an array of strings`)
+  }
+  return value
+}
+
+// Remove subscriptions by table or id; without either every subscription is removed
+function removeSubscriptions(
+  current: RealtimeSubscriptionSpec[],
+  tables: string[],
+  ids: string[],
+  all: boolean
+): RealtimeSubscriptionSpec[] {
+  if (all) return []
+  return current.filter((spec) => !tables.includes(spec.table) && !ids.includes(spec.id))
+}
+
+// Subscriptions a connection starts with: `tables` (comma-separated) and `subscriptions` (JSON)
+function parseInitialSubscriptions(url: URL): RealtimeSubscriptionSpec[] {
+  const tables = url.searchParams.get('tables')
+  const subscriptions = url.searchParams.get('subscriptions')
+
+  let filtered: RealtimeSubscriptionSpec[] = []
+  if (subscriptions) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(subscriptions)
+    } catch {
+      throw new Error('subscriptions must be a JSON array')
+    }
+    filtered = parseSubscriptionSpecs(parsed)
+  }
+
+  const specs = mergeSubscriptionSpecs(specsFromTables(tables ? tables.split(',') : []), filtered)
+  if (specs.length > MAX_SUBSCRIPTIONS) {
+    throw new Error(`Cannot have more than ${MAX_SUBSCRIPTIONS} subscriptions`)
+  }
+  return specs
+}
+
+// Positions a connection resumes from: `since` (JSON object of table sequences), and the
+// `<table>:<seq>` id EventSource sends as Last-Event-ID when it reconnects
+function parseResumeCursor(url: URL, lastEventIdHeader: string | null): RealtimeSequenceCursor {
+  const since = url.searchParams.get('since')
+  let cursor: RealtimeSequenceCursor = {}
+  if (since) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(since)
+    } catch {
+      throw new Error('since must be a JSON object')
+    }
+    cursor = parseSequenceCursor(parsed)
+  }
+
+  // The stream's own position is newer than the `since` of the URL it reconnects with
+  const lastEventId = lastEventIdHeader || url.searchParams.get('lastEventId')
+  return lastEventId ? { ...cursor, ...parseEventId(lastEventId) } : cursor
+}
+
+// Events name the subscriptions they matched, so clients can route them
+function eventFrame(event: BroadcastEvent, subscriptionIds: string[]): Record<string, unknown> {
+  return { type: 'event', ...event, subscriptions: subscriptionIds }
+}
@@ -4,6 +4,8 @@ import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
 import { AdminAuthManager } from './lib/admin-auth-manager'
 import { AppSettingsManager } from './lib/app-settings-manager'
+import { createBackgroundJobs } from './lib/background-jobs'
+import { JobRunner } from './lib/job-runner'
 import { getOrGenerateJWTSecret, logSecurityWarnings } from './lib/security-utils'
 import { multiAuth } from './middleware/auth'
 import { securityHeaders } from './middleware/security-headers'
@@ -18,6 +20,7 @@ import { customQueries } from './routes/custom-queries'
 import { data } from './routes/data'
 import { docs } from './routes/docs'
 import { hooks } from './routes/hooks'
+import { jobs } from './routes/jobs'
 import { push } from './routes/push'
 import { realtime } from './routes/realtime'
 import { snapshots } from './routes/snapshots'
@@ -122,6 +125,7 @@ app.use('*', async (c, next) => {
     c.req.path.startsWith('/api/auth/') ||
     c.req.path.startsWith('/assets/') ||
     c.req.path.startsWith('/favicon.') ||
+    c.req.path.startsWith('/api/storage/signed/') || // Checked by their signature
     c.req.path === '/api/realtime/test-sse' ||
     c.req.path === '/api/push/vapid-public-key'
   ) {
@@ -173,6 +177,7 @@ app.route('/api/admin/oauth', adminOAuth)
 app.route('/api/api-keys', apiKeys)
 app.route('/api/app-settings', appSettings)
 app.route('/api/hooks', hooks)
+app.route('/api/jobs', jobs)
 app.route('/api/realtime', realtime)
 app.route('/api/custom-queries', customQueries)
 app.route('/api/custom', custom)
@@ -246,35 +251,21 @@ export default {
   async scheduled(event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
     console.log('Cron trigger executed:', event.cron)
 
-    try {
-      // Get WORKER_DOMAIN from environment or DB
-      let workerDomain = env.WORKER_DOMAIN
-
-      if (!workerDomain && env.DB) {
-        const appSettings = new AppSettingsManager(env.DB)
-        workerDomain = (await appSettings.getWorkerDomain()) || undefined
-      }
-
-      if (!workerDomain) {
-        console.warn('WORKER_DOMAIN not found, skipping cron processing')
-        return
-      }
-
-      // Call the process-events endpoint internally
-      const url = `https://${workerDomain}/api/realtime/process-events`
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${env.JWT_SECRET}`, // Use internal auth
-        },
-      })
+    if (!env.DB) {
+      console.warn('Database not configured, skipping background jobs')
+      return
+    }
 
-      if (!response.ok) {
-        console.error('Failed to process events via cron:', response.status, await response.text())
+    // Jobs run here in the worker; they are scheduled from the time of the cron tick
+    try {
+      const runner = new JobRunner(env.DB, createBackgroundJobs(env.DB, env))
+      const runs = await runner.runDue(new Date(event.scheduledTime))
+      const failed = runs.filter((run) => run.status === 'failed')
+      if (failed.length > 0) {
+        console.warn(`Background jobs failed: ${failed.map((run) => run.job_name).join(', ')}`)
       }
     } catch (error) {
-      console.error('Error in cron handler:', error)
+      console.error('Error running background jobs:', error)
     }
   },
 
@@ -0,0 +1,156 @@
+/**
+ * Aggregate queries for the data API (count, sum, avg, min, max with group by)
+ * Aggregates are requested per function, e.g. `?count&sum=price,qty&group_by=category`
+ */
+import { validateAndEscapeColumnName } from './sql-utils'
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export const AGGREGATE_FUNCTIONS: readonly AggregateFunction[] = [
+  'count',
+  'sum',
+  'avg',
+  'min',
+  'max',
+]
+
+export interface AggregateField {
+  fn: AggregateFunction
+  column: string | null // null counts rows (COUNT(*))
+}
+
+export interface AggregateQuery {
+  aggregates: AggregateField[]
+  groupBy: string[]
+  sortBy?: string // A group by column or an aggregate alias such as `sum_price`
+  sortOrder?: 'ASC' | 'DESC'
+  limit?: number
+}
+
+export type AggregateParams = Partial<
+  Record<AggregateFunction | 'group_by' | 'sortBy' | 'sortOrder' | 'limit', string>
+>
+
+const MAX_GROUP_BY_COLUMNS = 5
+const DEFAULT_GROUP_LIMIT = 100
+const MAX_GROUP_LIMIT = 1000
+
+/**
+ * Name of an aggregate in the result rows: `count` for COUNT(*), otherwise `<fn>_<column>`
+ */
+export function aggregateAlias(field: AggregateField): string {
+  return field.column === null ? field.fn : `${field.fn}_${field.column}`
+}
+
+/**
+ * Parse aggregate query parameters, validating columns against the table
+ * Without any aggregate function, rows are counted
+ */
+export function parseAggregateParams(
+  params: AggregateParams,
+  validColumns: string[]
+): AggregateQuery {
+  const aggregates: AggregateField[] = []
+
+  for (const fn of AGGREGATE_FUNCTIONS) {
+    const value = params[fn]
+    if (value === undefined) continue
+
+    const columns = splitList(value)
+    if (columns.length === 0 || (fn === 'count' && columns.includes('*'))) {
+      if (fn !== 'count') {
+        throw new Error(`'${fn}' requires at least one column`)
+      }
+      aggregates.push({ fn, column: null })
+    }
+    for (const column of columns.filter((col) => col !== '*')) {
+      assertColumn(column, validColumns, fn)
+      aggregates.push({ fn, column })
+    }
+  }
+
+  if (aggregates.length === 0) {
+    aggregates.push({ fn: 'count', column: null })
+  }
+
+  const groupBy = splitList(params.group_by)
+  if (groupBy.length > MAX_GROUP_BY_COLUMNS) {
+    throw new Error(`At most ${MAX_GROUP_BY_COLUMNS} group_by columns are allowed`)
+  }
+  for (const column of groupBy) {
+    assertColumn(column, validColumns, 'group_by')
+  }
+
+  const sortBy = params.sortBy || undefined
+  if (sortBy) {
+    const sortable = [...groupBy, ...aggregates.map(aggregateAlias)]
+    if (!sortable.includes(sortBy)) {
+      throw new Error(`Invalid sort field '${sortBy}'. Valid fields: ${sortable.join(', ')}`)
+    }
+  }
+
+  const limit = params.limit ? Number(params.limit) : DEFAULT_GROUP_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GROUP_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_GROUP_LIMIT}`)
+  }
+
+  return {
+    aggregates,
+    groupBy,
+    sortBy,
+    sortOrder: params.sortOrder?.toLowerCase() === 'desc' ? 'DESC' : 'ASC',
+    limit,
+  }
+}
+
+/**
+ * Build the SELECT list, GROUP BY and ORDER BY clauses of an aggregate query
+ */
+export function buildAggregateClauses(query: AggregateQuery): {
+  select: string
+  groupBy: string
+  orderBy: string
+} {
+  const groupColumns = query.groupBy.map((column) => validateAndEscapeColumnName(column))
+  const aggregates = query.aggregates.map((field) => {
+    const argument = field.column === null ? '*' : validateAndEscapeColumnName(field.column)
+    return `${field.fn.toUpperCase()}(${argument}) AS ${validateAndEscapeColumnName(aggregateAlias(field))}`
+  })
+
+  const sortOrder = query.sortOrder || 'ASC'
+  let orderBy = ''
+  if (query.sortBy) {
+    // Only group columns and aggregate aliases of this query can be sorted on
+    const sortable = [...query.groupBy, ...query.aggregates.map(aggregateAlias)]
+    if (!sortable.includes(query.sortBy)) {
+      throw new Error(`Invalid sort field '${query.sortBy}'`)
+    }
+    orderBy = ` ORDER BY ${validateAndEscapeColumnName(query.sortBy)} ${sortOrder}`
+  } else if (groupColumns.length > 0) {
+    orderBy = ` ORDER BY ${groupColumns.map((column) => `${column} ${sortOrder}`).join(', ')}`
+  }
+
+  return {
+    select: [...groupColumns, ...aggregates].join(', '),
+    groupBy: groupColumns.length > 0 ? ` GROUP BY ${groupColumns.join(', ')}` : '',
+    orderBy,
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  if (!value) return []
+  return [
+    ...new Set(
+      value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    ),
+  ]
+}
+
+function assertColumn(column: string, validColumns: string[], param: string): void {
+  if (!validColumns.includes(column)) {
+    throw new Error(`Invalid ${param} column '${column}'. Valid fields: ${validColumns.join(', ')}`)
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Per-record change history for user tables
+ * When a table is audited, every write through DataManager also records the row before and
+ * after the change, who made it and when; the history is kept until the table is dropped
+ */
+import type { AuthContext } from '../types/auth'
+import type { D1Database, D1PreparedStatement } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import { type TableSetting, TableSettingStore } from './table-settings'
+import { generateId } from './utils'
+
+export type AuditOperation = 'insert' | 'update' | 'delete' | 'restore' | 'purge'
+
+export type AuditActorType = 'admin' | 'api_key' | 'user' | 'system'
+
+export interface AuditActor {
+  type: AuditActorType
+  id: string | null
+}
+
+// Writes made outside of a request (scheduled jobs, internal callers)
+export const SYSTEM_ACTOR: AuditActor = { type: 'system', id: null }
+
+// One changed row, as passed by DataManager
+export interface AuditChange {
+  recordId: string
+  operation: AuditOperation
+  before: Record<string, unknown> | null // null when the row did not exist yet
+  after: Record<string, unknown> | null // null when the row is gone (deleted or purged)
+}
+
+export interface AuditEntry {
+  id: string
+  table_name: string
+  record_id: string
+  operation: AuditOperation
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  actor_type: AuditActorType
+  actor_id: string | null
+  created_at: string
+}
+
+export type AuditConfig = TableSetting
+
+interface AuditLogRow {
+  id: string
+  table_name: string
+  record_id: string
+  operation: AuditOperation
+  before_data: string | null
+  after_data: string | null
+  actor_type: AuditActorType
+  actor_id: string | null
+  created_at: string
+}
+
+/**
+ * Identify who is making a request, for the audit log
+ */
+export function getAuditActor(authContext: AuthContext | null | undefined): AuditActor {
+  switch (authContext?.type) {
+    case 'admin':
+    case 'user':
+      return { type: authContext.type, id: authContext.user.id }
+    case 'api_key':
+      return { type: 'api_key', id: authContext.apiKey.id }
+    default:
+      return SYSTEM_ACTOR
+  }
+}
+
+function toAuditEntry(row: AuditLogRow): AuditEntry {
+  return {
+    id: row.id,
+    table_name: row.table_name,
+    record_id: row.record_id,
+    operation: row.operation,
+    before: row.before_data ? JSON.parse(row.before_data) : null,
+    after: row.after_data ? JSON.parse(row.after_data) : null,
+    actor_type: row.actor_type,
+    actor_id: row.actor_id,
+    created_at: row.created_at,
+  }
+}
+
+/**
+ * Manages the audit setting of tables and reads and writes their change history
+ */
+export class AuditLogManager {
+  private settings: TableSettingStore
+
+  constructor(private db: D1Database) {
+    this.settings = new TableSettingStore(db, 'table_audit_settings')
+  }
+
+  /**
+   * Get the audit setting of a table, or null when its changes are not recorded
+   */
+  async getConfig(tableName: string): Promise<AuditConfig | null> {
+    return this.settings.get(tableName)
+  }
+
+  /**
+   * Check if changes to a table are recorded
+   */
+  async isEnabled(tableName: string): Promise<boolean> {
+    return this.settings.isEnabled(tableName)
+  }
+
+  /**
+   * Start recording changes to a table
+   */
+  async enable(tableName: string): Promise<void> {
+    await this.settings.enable(tableName)
+  }
+
+  /**
+   * Stop recording changes to a table; the history recorded so far is kept
+   */
+  async disable(tableName: string): Promise<void> {
+    await this.settings.disable(tableName)
+  }
+
+  /**
+   * Forget the setting and the history of a table (used when the table is dropped)
+   */
+  async removeTable(tableName: string): Promise<void> {
+    await this.settings.disable(tableName, [
+      this.db.prepare('DELETE FROM table_audit_log WHERE table_name = ?').bind(tableName),
+    ])
+  }
+
+  /**
+   * Statements recording changes, to run in the same batch as the write itself
+   * Empty when the table is not audited
+   */
+  async buildEntryStatements(
+    tableName: string,
+    changes: AuditChange[],
+    actor: AuditActor
+  ): Promise<D1PreparedStatement[]> {
+    if (changes.length === 0 || !(await this.isEnabled(tableName))) return []
+
+    const now = getCurrentDateTimeISO()
+    return changes.map((change) =>
+      this.db
+        .prepare(
+          `INSERT INTO table_audit_log (id, table_name, record_id, operation, before_data, after_data, actor_type, actor_id, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          generateId(),
+          tableName,
+          change.recordId,
+          change.operation,
+          change.before ? JSON.stringify(change.before) : null,
+          change.after ? JSON.stringify(change.after) : null,
+          actor.type,
+          actor.id,
+          now
+        )
+    )
+  }
+
+  /**
+   * Get the history of a record, most recent change first
+   */
+  async getHistory(
+    tableName: string,
+    recordId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: AuditEntry[]; total: number }> {
+    const countResult = await this.db
+      .prepare(
+        'SELECT COUNT(*) as total FROM table_audit_log WHERE table_name = ? AND record_id = ?'
+      )
+      .bind(tableName, recordId)
+      .first<{ total: number }>()
+
+    // Entries written in one batch share a timestamp; rowid keeps them in write order
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM table_audit_log WHERE table_name = ? AND record_id = ?
+         ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`
+      )
+      .bind(tableName, recordId, limit, offset)
+      .all<AuditLogRow>()
+
+    return {
+      data: (result.results || []).map(toAuditEntry),
+      total: countResult?.total || 0,
+    }
+  }
+
+  /**
+   * Get one history entry of a record
+   */
+  async getEntry(tableName: string, recordId: string, entryId: string): Promise<AuditEntry | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM table_audit_log WHERE id = ? AND table_name = ? AND record_id = ?')
+      .bind(entryId, tableName, recordId)
+      .first<AuditLogRow>()
+
+    return row ? toAuditEntry(row) : null
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * The jobs the cron trigger runs, see job-runner.ts
+ */
+import type { Env } from '../types'
+import type { CustomDurableObjectNamespace, D1Database } from '../types/cloudflare'
+import { HookManager } from './hook-manager'
+import type { JobDefinition } from './job-runner'
+import { deleteStaleMultipartUploads, MULTIPART_UPLOAD_LIFETIME_DAYS } from './multipart-uploads'
+import { RealtimeEventLog } from './realtime-event-log'
+import { SchemaSnapshotManager } from './schema-snapshot'
+import { deleteExpiredSignedUrls } from './signed-urls'
+import { deleteExpiredUserSessions } from './user-auth-manager'
+import { WEBHOOK_DELIVERY_INTERVAL_MINUTES, WebhookDispatcher } from './webhook-delivery'
+
+// Processed hook events are kept this long before they are removed
+export const PROCESSED_EVENT_RETENTION_DAYS = 7
+
+// Newest schema snapshots kept by the pruning job
+export const SNAPSHOT_RETENTION_COUNT = 50
+
+/**
+ * Register the background jobs of the worker
+ */
+export function createBackgroundJobs(db: D1Database, env: Env): JobDefinition[] {
+  return [
+    {
+      name: 'realtime-event-retry',
+      description: 'Broadcast again the realtime events whose broadcast failed',
+      intervalMinutes: 5,
+      run: async () => {
+        if (!env.REALTIME) return 'Realtime is not configured'
+        const { processed, total } = await new RealtimeEventLog(db).retryUnpublished(
+          env.REALTIME as CustomDurableObjectNamespace
+        )
+        if (processed < total) {
+          throw new Error(`Retried ${processed} of ${total} failed events`)
+        }
+        return `Retried ${total} failed events`
+      },
+    },
+    {
+      name: 'webhook-delivery',
+      description: 'Send the webhook events whose next attempt is due',
+      intervalMinutes: WEBHOOK_DELIVERY_INTERVAL_MINUTES,
+      run: async () => {
+        const results = await new WebhookDispatcher(db).deliverDue()
+        const delivered = results.filter((result) => result.status === 'delivered').length
+        // Events that failed are retried later, or marked dead once out of attempts
+        return `Delivered ${delivered} of ${results.length} events`
+      },
+    },
+    {
+      name: 'event-cleanup',
+      description: `Remove hook events processed more than ${PROCESSED_EVENT_RETENTION_DAYS} days ago`,
+      intervalMinutes: 24 * 60,
+      run: async () => {
+        const removed = await new HookManager(db).cleanupProcessedEvents(
+          PROCESSED_EVENT_RETENTION_DAYS
+        )
+        return `Removed ${removed} processed events`
+      },
+    },
+    {
+      name: 'session-expiry',
+      description: 'Delete the user sessions whose refresh token has expired',
+      intervalMinutes: 60,
+      run: async () => {
+        const removed = await deleteExpiredUserSessions(db)
+        return `Deleted ${removed} expired sessions`
+      },
+    },
+    {
+      name: 'signed-url-cleanup',
+      description: 'Delete the records of signed storage URLs that have expired',
+      intervalMinutes: 24 * 60,
+      run: async () => {
+        const removed = await deleteExpiredSignedUrls(db)
+        return `Deleted ${removed} expired signed URLs`
+      },
+    },
+    {
+      name: 'multipart-upload-cleanup',
+      description: `Forget the multipart uploads R2 aborted after ${MULTIPART_UPLOAD_LIFETIME_DAYS} days`,
+      intervalMinutes: 24 * 60,
+      run: async () => {
+        const removed = await deleteStaleMultipartUploads(db)
+        return `Deleted ${removed} abandoned multipart uploads`
+      },
+    },
+    {
+      name: 'snapshot-pruning',
+      description: `Keep the ${SNAPSHOT_RETENTION_COUNT} newest schema snapshots`,
+      intervalMinutes: 24 * 60,
+      run: async () => {
+        const removed = await new SchemaSnapshotManager(db, env.SYSTEM_STORAGE).pruneSnapshots(
+          SNAPSHOT_RETENTION_COUNT
+        )
+        return `Removed ${removed} old snapshots`
+      },
+    },
+  ]
+}
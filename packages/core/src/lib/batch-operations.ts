@@ -0,0 +1,112 @@
+/**
+ * Transactional multi-table writes for the data API
+ * A batch is an ordered list of create / update / delete operations; an operation can
+ * name itself with `ref` so later operations can use its id as `{ "$ref": "<name>" }`
+ */
+
+export type BatchOperationType = 'create' | 'update' | 'delete'
+
+export interface BatchReference {
+  $ref: string
+}
+
+export interface BatchOperation {
+  op: BatchOperationType
+  table: string
+  id?: string | BatchReference // Required for update and delete
+  data?: Record<string, unknown> // Required for create and update
+  ref?: string
+}
+
+export interface ResolvedBatchOperation {
+  op: BatchOperationType
+  table: string
+  id: string
+  data: Record<string, unknown>
+  ref?: string
+}
+
+export interface BatchOperationResult {
+  op: BatchOperationType
+  table: string
+  id: string
+  ref?: string
+  data: Record<string, unknown> | null // The record after commit, null once deleted
+}
+
+export const MAX_BATCH_OPERATIONS = 100
+
+/**
+ * Check if a value is a reference to the id of an earlier operation
+ */
+export function isBatchReference(value: unknown): value is BatchReference {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const keys = Object.keys(value)
+  return (
+    keys.length === 1 && keys[0] === '$ref' && typeof (value as BatchReference).$ref === 'string'
+  )
+}
+
+/**
+ * Assign ids to created records and replace references with the ids they point to
+ * References may only point to earlier operations, so the batch can run in order
+ */
+export function resolveBatchReferences(
+  operations: BatchOperation[],
+  generateId: () => string
+): ResolvedBatchOperation[] {
+  if (operations.length === 0) {
+    throw new Error('A batch must contain at least one operation')
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    throw new Error(`A batch can contain at most ${MAX_BATCH_OPERATIONS} operations`)
+  }
+
+  const ids = new Map<string, string>()
+
+  return operations.map((operation, index) => {
+    const resolve = (value: unknown): unknown => {
+      if (!isBatchReference(value)) return value
+      const id = ids.get(value.$ref)
+      if (id === undefined) {
+        throw new Error(
+          `operations[${index}]: unknown reference '${value.$ref}' (references must point to an earlier operation)`
+        )
+      }
+      return id
+    }
+
+    const data: Record<string, unknown> = {}
+    if (operation.op !== 'delete') {
+      for (const [key, value] of Object.entries(operation.data ?? {})) {
+        data[key] = resolve(value)
+      }
+    }
+
+    let id: string
+    if (operation.op === 'create') {
+      id = data.id ? String(data.id) : generateId()
+      data.id = id
+    } else {
+      if (operation.id === undefined) {
+        throw new Error(`operations[${index}]: '${operation.op}' requires an id`)
+      }
+      id = String(resolve(operation.id))
+    }
+
+    if (operation.ref !== undefined) {
+      if (ids.has(operation.ref)) {
+        throw new Error(`operations[${index}]: duplicate reference '${operation.ref}'`)
+      }
+      ids.set(operation.ref, id)
+    }
+
+    return {
+      op: operation.op,
+      table: operation.table,
+      id,
+      data,
+      ...(operation.ref !== undefined && { ref: operation.ref }),
+    }
+  })
+}
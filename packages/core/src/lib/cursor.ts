@@ -0,0 +1,91 @@
+/**
+ * Opaque cursors for keyset pagination
+ * A cursor records the sort column, direction and the (sort value, id) of the last row returned
+ */
+import type { FilterScalar } from '../types/database'
+import { validateAndEscapeColumnName } from './sql-utils'
+
+export interface CursorPosition {
+  sortBy: string
+  sortOrder: 'ASC' | 'DESC'
+  value: FilterScalar
+  id: string
+}
+
+/**
+ * A cursor that cannot be decoded, or that was issued for a different sort
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message)
+    this.name = 'InvalidCursorError'
+  }
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  const json = JSON.stringify({
+    s: position.sortBy,
+    o: position.sortOrder,
+    v: position.value,
+    i: position.id,
+  })
+  const bytes = new TextEncoder().encode(json)
+  // Spreading every byte into one call overflows the stack for long sort values
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '')
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  let payload: unknown
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/')
+    const binary = atob(base64)
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    payload = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new InvalidCursorError()
+  }
+
+  const { s, o, v, i } = (payload ?? {}) as Record<string, unknown>
+  if (
+    typeof s !== 'string' ||
+    (o !== 'ASC' && o !== 'DESC') ||
+    typeof i !== 'string' ||
+    !(v === null || ['string', 'number', 'boolean'].includes(typeof v))
+  ) {
+    throw new InvalidCursorError()
+  }
+
+  return { sortBy: s, sortOrder: o, value: v as FilterScalar, id: i }
+}
+
+/**
+ * Build the condition selecting rows strictly after the cursor position
+ * Rows are ordered by (sort column, id); SQLite sorts NULLs first in ascending order
+ */
+export function buildCursorCondition(position: CursorPosition): {
+  sql: string
+  params: FilterScalar[]
+} {
+  const column = validateAndEscapeColumnName(position.sortBy)
+  const after = position.sortOrder === 'ASC' ? '>' : '<'
+
+  if (position.sortBy === 'id') {
+    return { sql: `id ${after} ?`, params: [position.id] }
+  }
+
+  if (position.value === null) {
+    return position.sortOrder === 'ASC'
+      ? { sql: `((${column} IS NULL AND id > ?) OR ${column} IS NOT NULL)`, params: [position.id] }
+      : { sql: `(${column} IS NULL AND id < ?)`, params: [position.id] }
+  }
+
+  const nullsAfter = position.sortOrder === 'DESC' ? ` OR ${column} IS NULL` : ''
+  return {
+    sql: `(${column} ${after} ?${nullsAfter} OR (${column} = ? AND id ${after} ?))`,
+    params: [position.value, position.value, position.id],
+  }
+}
@@ -1,12 +1,28 @@
 import type {
+  CursorPageResult,
   CustomDurableObjectNamespace,
   D1Database,
+  D1PreparedStatement,
   ExecutionContext,
   TableDataResult,
 } from '../types/cloudflare'
 import type { WhereClause } from '../types/database'
+import { type AggregateQuery, buildAggregateClauses } from './aggregate'
+import { type AuditActor, type AuditChange, AuditLogManager, SYSTEM_ACTOR } from './audit-log'
+import type { BatchOperationResult, ResolvedBatchOperation } from './batch-operations'
+import { buildCursorCondition, decodeCursor, encodeCursor, InvalidCursorError } from './cursor'
 import { createTimestamps, getCurrentDateTimeISO } from './datetime-utils'
+import {
+  buildMatchExpression,
+  buildMatchSubquery,
+  FullTextSearchManager,
+  toSearchResult,
+} from './full-text-search'
 import { HookManager } from './hook-manager'
+import { buildSelectList, pickColumns } from './projection'
+import { compileFilter } from './query-filter'
+import { buildRowImageCheck, type CompiledRowPolicy } from './row-policy'
+import { SOFT_DELETE_COLUMN, SoftDeleteManager } from './soft-delete'
 import {
   createColumnList,
   validateAndEscapeColumnName,
@@ -14,21 +30,79 @@ import {
   validateNotSystemTable,
 } from './sql-utils'
 import { SYSTEM_TABLES } from './table-manager'
+import { type TriggerContext, TriggerManager } from './table-triggers'
 
 interface DataManagerEnvironment {
   REALTIME?: CustomDurableObjectNamespace
   WORKER_DOMAIN?: string
 }
 
+// Maximum values per IN (...) lookup query (D1 caps bound parameters per statement)
+const BULK_LOOKUP_CHUNK_SIZE = 50
+
+export interface CursorQueryOptions {
+  limit?: number
+  sortBy: string
+  sortOrder?: 'ASC' | 'DESC'
+  cursor?: string
+  whereClause?: WhereClause
+  includeTotal?: boolean
+  accessPolicy?: 'public' | 'private'
+  userId?: string
+  rowPolicy?: CompiledRowPolicy
+  select?: string[]
+  includeDeleted?: boolean // Also return soft-deleted rows (admins only)
+}
+
+export interface AggregateQueryOptions extends AggregateQuery {
+  whereClause?: WhereClause
+  accessPolicy?: 'public' | 'private'
+  userId?: string
+  rowPolicy?: CompiledRowPolicy
+}
+
+export interface FullTextQueryOptions {
+  query: string
+  columns?: string[] // Restrict matching to some of the indexed columns
+  limit?: number
+  offset?: number
+  accessPolicy?: 'public' | 'private'
+  userId?: string
+  rowPolicy?: CompiledRowPolicy
+}
+
+// A batch operation with the access rules of the caller (none for admins and API keys)
+export interface BatchWriteOperation extends ResolvedBatchOperation {
+  accessPolicy?: 'public' | 'private'
+  userId?: string
+  rowPolicy?: CompiledRowPolicy
+}
+
+export interface ColumnLookupOptions {
+  accessPolicy?: 'public' | 'private'
+  userId?: string
+  rowPolicy?: CompiledRowPolicy
+  limit?: number
+}
+
 export class DataManager {
   private hookManager: HookManager
+  private fullTextSearch: FullTextSearchManager
+  private softDelete: SoftDeleteManager
+  private auditLog: AuditLogManager
+  private triggers: TriggerManager
 
   constructor(
     private db: D1Database,
     private env?: DataManagerEnvironment,
-    private executionCtx?: ExecutionContext
+    private executionCtx?: ExecutionContext,
+    private actor: AuditActor = SYSTEM_ACTOR // Who the writes are recorded as in the audit log
   ) {
     this.hookManager = new HookManager(db, env?.WORKER_DOMAIN)
+    this.fullTextSearch = new FullTextSearchManager(db)
+    this.softDelete = new SoftDeleteManager(db)
+    this.auditLog = new AuditLogManager(db)
+    this.triggers = new TriggerManager(db, executionCtx)
   }
 
   private async enableForeignKeys(): Promise<void> {
@@ -59,19 +133,53 @@ export class DataManager {
     if (!dataWithTimestamps.updated_at) {
       dataWithTimestamps.updated_at = timestamps.updated_at
     }
+    const row = await this.triggerBeforeInsert(
+      tableName,
+      dataWithTimestamps,
+      data.id !== undefined ? { id: data.id } : {}
+    )
 
     // Build INSERT statement
-    const columns = Object.keys(dataWithTimestamps)
-    const values = Object.values(dataWithTimestamps)
+    const columns = Object.keys(row)
+    const values = Object.values(row)
     const placeholders = columns.map(() => '?').join(', ')
     const safeColumns = createColumnList(columns)
 
     const sql = `INSERT INTO ${safeTableName} (${safeColumns}) VALUES (${placeholders})`
 
-    await this.db
-      .prepare(sql)
-      .bind(...(values as (string | number | boolean | null)[]))
-      .run()
+    const statement = this.db.prepare(sql).bind(...(values as (string | number | boolean | null)[]))
+    const auditInsert = (id: unknown) =>
+      this.auditStatements(tableName, [
+        { recordId: String(id), operation: 'insert', before: null, after: { ...row, id } },
+      ])
+
+    let id = row.id
+    if (id !== undefined && id !== null) {
+      await this.runWrite(tableName, String(id), statement, await auditInsert(id))
+    } else {
+      // A column default generated the id, so it is looked up after the write and the index and
+      // audit entries follow in a second batch
+      const result = await statement.run()
+      id = (
+        await this.db
+          .prepare(`SELECT id FROM ${safeTableName} WHERE rowid = ?`)
+          .bind(result.meta?.last_row_id ?? null)
+          .first<{ id: string }>()
+      )?.id
+      if (id === undefined || id === null) return
+
+      const related = [
+        ...(await this.fullTextSearch.buildSyncStatements(tableName, [String(id)])),
+        ...(await auditInsert(id)),
+      ]
+      if (related.length > 0) {
+        await this.db.batch(related)
+      }
+    }
+
+    await this.triggerAfterWrite(tableName, [
+      { operation: 'insert', record: { ...row, id }, old: null },
+    ])
   }
 
   // Delete a record from a table
@@ -83,15 +191,27 @@ export class DataManager {
     const safeTableName = validateAndEscapeTableName(tableName)
 
     // Get record data before deletion for hooks
+    const whereClause = ['WHERE id = ?', ...(await this.visibleConditions(tableName))].join(' AND ')
     const record = await this.db
-      .prepare(`SELECT * FROM ${safeTableName} WHERE id = ?`)
+      .prepare(`SELECT * FROM ${safeTableName} ${whereClause}`)
       .bind(id)
       .first()
+    if (record) {
+      await this.triggerBeforeDelete(tableName, [record as Record<string, unknown>])
+    }
 
-    await this.db.prepare(`DELETE FROM ${safeTableName} WHERE id = ?`).bind(id).run()
+    await this.runWrite(
+      tableName,
+      id,
+      await this.prepareDelete(tableName, whereClause, [id]),
+      record ? await this.auditDeletes(tableName, [record as Record<string, unknown>]) : []
+    )
 
     // Process hooks after successful delete
     if (record) {
+      await this.triggerAfterWrite(tableName, [
+        { operation: 'delete', record: null, old: record as Record<string, unknown> },
+      ])
       await this.hookManager.processDataEvent(
         tableName,
         id,
@@ -106,10 +226,17 @@ export class DataManager {
   }
 
   // Get data from any table
-  async getTableData(tableName: string, limit = 100, offset = 0): Promise<TableDataResult> {
+  async getTableData(
+    tableName: string,
+    limit = 100,
+    offset = 0,
+    includeDeleted = false
+  ): Promise<TableDataResult> {
     const safeTableName = validateAndEscapeTableName(tableName)
+    const conditions = await this.visibleConditions(tableName, includeDeleted)
+    const whereSQL = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
     const countResult = await this.db
-      .prepare(`SELECT COUNT(*) as total FROM ${safeTableName}`)
+      .prepare(`SELECT COUNT(*) as total FROM ${safeTableName}${whereSQL}`)
       .first()
 
     // Check if table has created_at column for ordering
@@ -125,7 +252,7 @@ export class DataManager {
     }
 
     const dataResult = await this.db
-      .prepare(`SELECT * FROM ${safeTableName} ${orderClause} LIMIT ? OFFSET ?`)
+      .prepare(`SELECT * FROM ${safeTableName}${whereSQL} ${orderClause} LIMIT ? OFFSET ?`)
       .bind(limit, offset)
       .all()
 
@@ -153,26 +280,26 @@ export class DataManager {
     offset = 0,
     sortBy?: string,
     sortOrder: 'ASC' | 'DESC' = 'DESC',
-    whereClause?: WhereClause
+    whereClause?: WhereClause,
+    select?: string[],
+    includeDeleted = false
   ): Promise<TableDataResult> {
     const safeTableName = validateAndEscapeTableName(tableName)
 
     // Build WHERE clause
-    let whereSQL = ''
+    const conditions = await this.visibleConditions(tableName, includeDeleted)
     const bindParams: Array<string | number | boolean | null> = []
 
     if (whereClause && Object.keys(whereClause).length > 0) {
-      const conditions: string[] = []
-
-      for (const [key, value] of Object.entries(whereClause)) {
-        const safeColumn = validateAndEscapeColumnName(key)
-        conditions.push(`${safeColumn} = ?`)
-        bindParams.push(value)
+      const filter = compileFilter(whereClause)
+      if (filter.sql) {
+        conditions.push(filter.sql)
+        bindParams.push(...filter.params)
       }
-
-      whereSQL = ` WHERE ${conditions.join(' AND ')}`
     }
 
+    const whereSQL = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+
     // Count total with filters
     const countResult = await this.db
       .prepare(`SELECT COUNT(*) as total FROM ${safeTableName}${whereSQL}`)
@@ -192,7 +319,7 @@ export class DataManager {
     // Query data with filters and pagination
     const dataResult = await this.db
       .prepare(
-        `SELECT * FROM ${safeTableName}${whereSQL} ORDER BY ${safeSortBy === 'ROWID' ? 'ROWID' : safeSortBy} ${sortOrder} LIMIT ? OFFSET ?`
+        `SELECT ${buildSelectList(select)} FROM ${safeTableName}${whereSQL} ORDER BY ${safeSortBy === 'ROWID' ? 'ROWID' : safeSortBy} ${sortOrder} LIMIT ? OFFSET ?`
       )
       .bind(...bindParams, limit, offset)
       .all()
@@ -211,20 +338,16 @@ export class DataManager {
     limit = 100,
     offset = 0,
     sortBy?: string,
-    sortOrder: 'ASC' | 'DESC' = 'DESC'
+    sortOrder: 'ASC' | 'DESC' = 'DESC',
+    rowPolicy?: CompiledRowPolicy
   ): Promise<TableDataResult> {
     const safeTableName = validateAndEscapeTableName(tableName)
 
-    // Build WHERE clause for private tables
-    let whereClause = ''
-    let countWhereClause = ''
-    const bindings: (string | number | boolean | null)[] = []
-
-    if (accessPolicy === 'private' && userId) {
-      whereClause = ' WHERE owner_id = ?'
-      countWhereClause = ' WHERE owner_id = ?'
-      bindings.push(userId)
-    }
+    // Build WHERE clause from the row policy or the private table owner check
+    const { conditions, bindings } = this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+    conditions.push(...(await this.visibleConditions(tableName)))
+    const whereClause = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+    const countWhereClause = whereClause
 
     // Get total count with access control
     const countSql = `SELECT COUNT(*) as total FROM ${safeTableName}${countWhereClause}`
@@ -267,26 +390,22 @@ export class DataManager {
     offset = 0,
     sortBy?: string,
     sortOrder: 'ASC' | 'DESC' = 'DESC',
-    whereClause?: WhereClause
+    whereClause?: WhereClause,
+    rowPolicy?: CompiledRowPolicy,
+    select?: string[]
   ): Promise<TableDataResult> {
     const safeTableName = validateAndEscapeTableName(tableName)
 
     // Build WHERE clause combining access control and user filters
-    const conditions: string[] = []
-    const bindings: (string | number | boolean | null)[] = []
-
-    // Add access control condition for private tables
-    if (accessPolicy === 'private' && userId) {
-      conditions.push('owner_id = ?')
-      bindings.push(userId)
-    }
+    const { conditions, bindings } = this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+    conditions.push(...(await this.visibleConditions(tableName)))
 
     // Add user-provided WHERE conditions
     if (whereClause && Object.keys(whereClause).length > 0) {
-      for (const [key, value] of Object.entries(whereClause)) {
-        const safeColumn = validateAndEscapeColumnName(key)
-        conditions.push(`${safeColumn} = ?`)
-        bindings.push(value)
+      const filter = compileFilter(whereClause)
+      if (filter.sql) {
+        conditions.push(filter.sql)
+        bindings.push(...filter.params)
       }
     }
 
@@ -311,7 +430,7 @@ export class DataManager {
     // Get data with access control, filters and sorting
     const dataResult = await this.db
       .prepare(
-        `SELECT * FROM ${safeTableName}${whereSQL} ORDER BY ${safeSortBy === 'ROWID' ? 'ROWID' : safeSortBy} ${sortOrder} LIMIT ? OFFSET ?`
+        `SELECT ${buildSelectList(select)} FROM ${safeTableName}${whereSQL} ORDER BY ${safeSortBy === 'ROWID' ? 'ROWID' : safeSortBy} ${sortOrder} LIMIT ? OFFSET ?`
       )
       .bind(...bindings, limit, offset)
       .all()
@@ -322,11 +441,182 @@ export class DataManager {
     }
   }
 
+  // Get a page of table data using keyset pagination on (sortBy, id)
+  async getTableDataWithCursor(
+    tableName: string,
+    options: CursorQueryOptions
+  ): Promise<CursorPageResult> {
+    const {
+      limit = 100,
+      sortBy,
+      sortOrder = 'DESC',
+      cursor,
+      whereClause,
+      includeTotal,
+      select,
+    } = options
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const safeSortBy = validateAndEscapeColumnName(sortBy)
+
+    // Access control and user filters apply to both the page and the optional count
+    const { conditions, bindings } = options.accessPolicy
+      ? this.buildAccessConditions(options.accessPolicy, options.userId, options.rowPolicy)
+      : { conditions: [] as string[], bindings: [] as (string | number | boolean | null)[] }
+    conditions.push(...(await this.visibleConditions(tableName, options.includeDeleted)))
+
+    if (whereClause && Object.keys(whereClause).length > 0) {
+      const filter = compileFilter(whereClause)
+      if (filter.sql) {
+        conditions.push(filter.sql)
+        bindings.push(...filter.params)
+      }
+    }
+
+    let total: number | undefined
+    if (includeTotal) {
+      const countWhere = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+      const countResult = await this.db
+        .prepare(`SELECT COUNT(*) as total FROM ${safeTableName}${countWhere}`)
+        .bind(...bindings)
+        .first()
+      total = (countResult as { total: number })?.total || 0
+    }
+
+    const pageConditions = [...conditions]
+    const pageBindings = [...bindings]
+    if (cursor) {
+      const position = decodeCursor(cursor)
+      if (position.sortBy !== sortBy || position.sortOrder !== sortOrder) {
+        throw new InvalidCursorError('Cursor does not match the requested sort order')
+      }
+      const after = buildCursorCondition(position)
+      pageConditions.push(after.sql)
+      pageBindings.push(...after.params)
+    }
+
+    const whereSQL = pageConditions.length > 0 ? ` WHERE ${pageConditions.join(' AND ')}` : ''
+    const orderSQL =
+      sortBy === 'id' ? `id ${sortOrder}` : `${safeSortBy} ${sortOrder}, id ${sortOrder}`
+
+    // The cursor is built from the sort column and id, so fetch them even if not selected
+    const selectList = buildSelectList(select && [...new Set([...select, 'id', sortBy])])
+
+    // Fetch one extra row to find out whether another page exists
+    const dataResult = await this.db
+      .prepare(`SELECT ${selectList} FROM ${safeTableName}${whereSQL} ORDER BY ${orderSQL} LIMIT ?`)
+      .bind(...pageBindings, limit + 1)
+      .all()
+
+    const rows = (dataResult.results as Record<string, unknown>[]) || []
+    const hasMore = rows.length > limit
+    const data = hasMore ? rows.slice(0, limit) : rows
+    const last = data[data.length - 1]
+
+    return {
+      data: select ? pickColumns(data, select) : data,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({
+              sortBy,
+              sortOrder,
+              value: (last[sortBy] ?? null) as string | number | boolean | null,
+              id: String(last.id),
+            })
+          : null,
+      hasMore,
+      total,
+    }
+  }
+
+  // Compute aggregates (optionally grouped) over the rows matching the filter
+  async getAggregates(
+    tableName: string,
+    options: AggregateQueryOptions
+  ): Promise<Record<string, unknown>[]> {
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const clauses = buildAggregateClauses(options)
+
+    // Access control and user filters restrict the rows being aggregated
+    const { conditions, bindings } = options.accessPolicy
+      ? this.buildAccessConditions(options.accessPolicy, options.userId, options.rowPolicy)
+      : { conditions: [] as string[], bindings: [] as (string | number | boolean | null)[] }
+    conditions.push(...(await this.visibleConditions(tableName)))
+
+    if (options.whereClause && Object.keys(options.whereClause).length > 0) {
+      const filter = compileFilter(options.whereClause)
+      if (filter.sql) {
+        conditions.push(filter.sql)
+        bindings.push(...filter.params)
+      }
+    }
+
+    const whereSQL = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.db
+      .prepare(
+        `SELECT ${clauses.select} FROM ${safeTableName}${whereSQL}${clauses.groupBy}${clauses.orderBy} LIMIT ?`
+      )
+      .bind(...bindings, options.limit ?? 100)
+      .all()
+
+    return (result.results as Record<string, unknown>[]) || []
+  }
+
+  // Full-text search ranked by relevance, restricted to the rows the caller may read
+  // Each record carries its score and highlighted snippets under `_search`
+  async searchFullText(tableName: string, options: FullTextQueryOptions): Promise<TableDataResult> {
+    const config = await this.fullTextSearch.getConfig(tableName)
+    if (!config) {
+      throw new Error(`Full-text search is not enabled on table '${tableName}'`)
+    }
+
+    const { limit = 20, offset = 0 } = options
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const match = buildMatchExpression(options.query, options.columns)
+
+    const { conditions, bindings } = options.accessPolicy
+      ? this.buildAccessConditions(options.accessPolicy, options.userId, options.rowPolicy)
+      : { conditions: [] as string[], bindings: [] as (string | number | boolean | null)[] }
+    conditions.push(...(await this.visibleConditions(tableName)))
+    const whereSQL = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+
+    // Match columns are all prefixed with `_fts_`, so access conditions refer to the table
+    const fromSQL = `FROM ${safeTableName} JOIN (${buildMatchSubquery(tableName, config.columns)}) AS matches ON ${safeTableName}.id = matches._fts_id${whereSQL}`
+
+    const countResult = await this.db
+      .prepare(`SELECT COUNT(*) as total ${fromSQL}`)
+      .bind(match, ...bindings)
+      .first()
+    const total = (countResult as { total: number })?.total || 0
+
+    const dataResult = await this.db
+      .prepare(
+        `SELECT ${safeTableName}.*, matches.* ${fromSQL} ORDER BY matches._fts_rank LIMIT ? OFFSET ?`
+      )
+      .bind(match, ...bindings, limit, offset)
+      .all()
+
+    const rows = (dataResult.results as Record<string, unknown>[]) || []
+    return {
+      data: rows.map((row) => toSearchResult(row, config.columns)),
+      total,
+      hasMore: offset + rows.length < total,
+    }
+  }
+
   // Get single record by ID
-  async getRecordById(tableName: string, id: string): Promise<Record<string, unknown> | null> {
+  async getRecordById(
+    tableName: string,
+    id: string,
+    select?: string[],
+    includeDeleted = false
+  ): Promise<Record<string, unknown> | null> {
     const safeTableName = validateAndEscapeTableName(tableName)
+    const whereClause = [
+      'WHERE id = ?',
+      ...(await this.visibleConditions(tableName, includeDeleted)),
+    ].join(' AND ')
     const result = await this.db
-      .prepare(`SELECT * FROM ${safeTableName} WHERE id = ? LIMIT 1`)
+      .prepare(`SELECT ${buildSelectList(select)} FROM ${safeTableName} ${whereClause} LIMIT 1`)
       .bind(id)
       .first()
 
@@ -338,19 +628,18 @@ export class DataManager {
     tableName: string,
     id: string,
     accessPolicy: 'public' | 'private',
-    userId?: string
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy,
+    select?: string[]
   ): Promise<Record<string, unknown> | null> {
-    let whereClause = 'WHERE id = ?'
-    const bindings: (string | number | boolean | null)[] = [id]
-
-    if (accessPolicy === 'private' && userId) {
-      whereClause += ' AND owner_id = ?'
-      bindings.push(userId)
-    }
+    const access = this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+    access.conditions.push(...(await this.visibleConditions(tableName)))
+    const whereClause = ['WHERE id = ?', ...access.conditions].join(' AND ')
+    const bindings: (string | number | boolean | null)[] = [id, ...access.bindings]
 
     const safeTableName = validateAndEscapeTableName(tableName)
     const result = await this.db
-      .prepare(`SELECT * FROM ${safeTableName} ${whereClause} LIMIT 1`)
+      .prepare(`SELECT ${buildSelectList(select)} FROM ${safeTableName} ${whereClause} LIMIT 1`)
       .bind(...bindings)
       .first()
 
@@ -378,7 +667,7 @@ export class DataManager {
 
     // Generate ID if not provided
     const id = (data.id as string) || this.generateId()
-    const dataWithId = { ...data, id } as Record<string, unknown>
+    let dataWithId = { ...data, id } as Record<string, unknown>
 
     // Add timestamps if not provided
     const timestamps = createTimestamps()
@@ -388,6 +677,7 @@ export class DataManager {
     if (!dataWithId.updated_at) {
       dataWithId.updated_at = timestamps.updated_at
     }
+    dataWithId = await this.triggerBeforeInsert(tableName, dataWithId, { id })
 
     // Build INSERT statement
     const columns = Object.keys(dataWithId)
@@ -397,12 +687,19 @@ export class DataManager {
 
     const sql = `INSERT INTO ${safeTableName} (${safeColumns}) VALUES (${placeholders})`
 
-    await this.db
-      .prepare(sql)
-      .bind(...(values as (string | number | boolean | null)[]))
-      .run()
+    await this.runWrite(
+      tableName,
+      id as string,
+      this.db.prepare(sql).bind(...(values as (string | number | boolean | null)[])),
+      await this.auditStatements(tableName, [
+        { recordId: id as string, operation: 'insert', before: null, after: dataWithId },
+      ])
+    )
 
     // Process hooks after successful insert
+    await this.triggerAfterWrite(tableName, [
+      { operation: 'insert', record: dataWithId, old: null },
+    ])
     await this.hookManager.processDataEvent(tableName, id as string, 'insert', dataWithId, {
       env: this.env,
       executionCtx: this.executionCtx,
@@ -416,7 +713,8 @@ export class DataManager {
     tableName: string,
     data: Record<string, unknown>,
     accessPolicy: 'public' | 'private',
-    userId?: string
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
   ): Promise<string> {
     await this.enableForeignKeys()
 
@@ -426,12 +724,11 @@ export class DataManager {
 
     // Generate ID if not provided
     const id = (data.id as string) || this.generateId()
-    const dataWithId = { ...data, id } as Record<string, unknown>
+    let dataWithId = { ...data, id } as Record<string, unknown>
 
     // Add owner_id for private tables
-    if (accessPolicy === 'private' && userId) {
-      dataWithId.owner_id = userId
-    }
+    const owner = accessPolicy === 'private' && userId ? { owner_id: userId } : {}
+    Object.assign(dataWithId, owner)
 
     // Add timestamps if not provided
     const timestamps = createTimestamps()
@@ -441,6 +738,12 @@ export class DataManager {
     if (!dataWithId.updated_at) {
       dataWithId.updated_at = timestamps.updated_at
     }
+    dataWithId = await this.triggerBeforeInsert(tableName, dataWithId, { id, ...owner })
+
+    // The new row must satisfy the insert policy
+    if (rowPolicy) {
+      await this.assertRowSatisfiesPolicy(dataWithId, rowPolicy)
+    }
 
     // Build INSERT statement
     const columns = Object.keys(dataWithId)
@@ -450,12 +753,19 @@ export class DataManager {
 
     const sql = `INSERT INTO ${safeTableName} (${safeColumns}) VALUES (${placeholders})`
 
-    await this.db
-      .prepare(sql)
-      .bind(...(values as (string | number | boolean | null)[]))
-      .run()
+    await this.runWrite(
+      tableName,
+      id as string,
+      this.db.prepare(sql).bind(...(values as (string | number | boolean | null)[])),
+      await this.auditStatements(tableName, [
+        { recordId: id as string, operation: 'insert', before: null, after: dataWithId },
+      ])
+    )
 
     // Process hooks after successful insert
+    await this.triggerAfterWrite(tableName, [
+      { operation: 'insert', record: dataWithId, old: null },
+    ])
     await this.hookManager.processDataEvent(tableName, id as string, 'insert', dataWithId, {
       env: this.env,
       executionCtx: this.executionCtx,
@@ -472,10 +782,15 @@ export class DataManager {
     validateNotSystemTable(tableName, SYSTEM_TABLES)
     const safeTableName = validateAndEscapeTableName(tableName)
 
+    // Records in the trash can only be restored, not updated
+    const whereClause = ['WHERE id = ?', ...(await this.visibleConditions(tableName))].join(' AND ')
+    const before = await this.getRowBeforeWrite(tableName, whereClause, [id])
+
     // Remove system fields from update data
-    const updateData = { ...data }
+    const updateData = await this.triggerBeforeUpdate(tableName, data, before)
     delete updateData.id
     delete updateData.created_at
+    await this.removeSoftDeleteColumn(tableName, updateData)
 
     // Add updated_at timestamp
     updateData.updated_at = getCurrentDateTimeISO()
@@ -484,15 +799,21 @@ export class DataManager {
     const values = Object.values(updateData)
     const safeColumns = columns.map((col) => validateAndEscapeColumnName(col))
     const setClause = safeColumns.map((col) => `${col} = ?`).join(', ')
+    const sql = `UPDATE ${safeTableName} SET ${setClause} ${whereClause}`
 
-    const sql = `UPDATE ${safeTableName} SET ${setClause} WHERE id = ?`
-
-    const _result = await this.db
-      .prepare(sql)
-      .bind(...(values as (string | number | boolean | null)[]), id)
-      .run()
+    await this.runWrite(
+      tableName,
+      id,
+      this.db.prepare(sql).bind(...(values as (string | number | boolean | null)[]), id),
+      before ? await this.auditUpdates(tableName, [{ before, data: updateData }]) : []
+    )
 
     // Process hooks after successful update
+    if (before) {
+      await this.triggerAfterWrite(tableName, [
+        { operation: 'update', record: { ...before, ...updateData }, old: before },
+      ])
+    }
     await this.hookManager.processDataEvent(tableName, id, 'update', updateData, {
       env: this.env,
       executionCtx: this.executionCtx,
@@ -505,7 +826,8 @@ export class DataManager {
     id: string,
     data: Record<string, unknown>,
     accessPolicy: 'public' | 'private',
-    userId?: string
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
   ): Promise<void> {
     await this.enableForeignKeys()
 
@@ -513,10 +835,24 @@ export class DataManager {
     validateNotSystemTable(tableName, SYSTEM_TABLES)
     const safeTableName = validateAndEscapeTableName(tableName)
 
-    // For private tables, check ownership first
-    if (accessPolicy === 'private' && userId) {
+    let existingRow: Record<string, unknown> | null = null
+    const visible = await this.visibleConditions(tableName)
+    const lookupClause = ['WHERE id = ?', ...visible].join(' AND ')
+
+    if (rowPolicy) {
+      // The current row must be visible through the update policy
+      existingRow = await this.db
+        .prepare(`SELECT * FROM ${safeTableName} ${lookupClause} AND (${rowPolicy.sql})`)
+        .bind(id, ...rowPolicy.params)
+        .first()
+
+      if (!existingRow) {
+        throw new Error('Record not found or access denied')
+      }
+    } else if (accessPolicy === 'private' && userId) {
+      // For private tables, check ownership first
       const existingRecord = await this.db
-        .prepare(`SELECT owner_id FROM ${safeTableName} WHERE id = ?`)
+        .prepare(`SELECT owner_id FROM ${safeTableName} ${lookupClause}`)
         .bind(id)
         .first()
 
@@ -530,40 +866,52 @@ export class DataManager {
       }
     }
 
+    const before = existingRow ?? (await this.getRowBeforeWrite(tableName, lookupClause, [id]))
+
     // Remove system fields from update data
-    const updateData = { ...data }
+    const updateData = await this.triggerBeforeUpdate(tableName, data, before)
     delete updateData.id
     delete updateData.created_at
     delete updateData.owner_id // Don't allow changing ownership
+    await this.removeSoftDeleteColumn(tableName, updateData)
 
     // Add updated_at timestamp
     updateData.updated_at = getCurrentDateTimeISO()
 
+    // The row as it will look after the update must still satisfy the policy
+    if (rowPolicy && existingRow) {
+      await this.assertRowSatisfiesPolicy({ ...existingRow, ...updateData }, rowPolicy)
+    }
+
     const columns = Object.keys(updateData)
     const values = Object.values(updateData)
     const safeColumns = columns.map((col) => validateAndEscapeColumnName(col))
     const setClause = safeColumns.map((col) => `${col} = ?`).join(', ')
 
-    let whereClause = 'WHERE id = ?'
+    // Additional access control for private tables or row policies
+    const access = this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+    const whereClause = ['WHERE id = ?', ...access.conditions, ...visible].join(' AND ')
     const bindings: (string | number | boolean | null)[] = [
       ...(values as (string | number | boolean | null)[]),
       id,
+      ...access.bindings,
     ]
 
-    // Additional access control for private tables
-    if (accessPolicy === 'private' && userId) {
-      whereClause += ' AND owner_id = ?'
-      bindings.push(userId)
-    }
-
     const sql = `UPDATE ${safeTableName} SET ${setClause} ${whereClause}`
 
-    await this.db
-      .prepare(sql)
-      .bind(...bindings)
-      .run()
+    await this.runWrite(
+      tableName,
+      id,
+      this.db.prepare(sql).bind(...bindings),
+      before ? await this.auditUpdates(tableName, [{ before, data: updateData }]) : []
+    )
 
     // Process hooks after successful update
+    if (before) {
+      await this.triggerAfterWrite(tableName, [
+        { operation: 'update', record: { ...before, ...updateData }, old: before },
+      ])
+    }
     await this.hookManager.processDataEvent(tableName, id, 'update', updateData, {
       env: this.env,
       executionCtx: this.executionCtx,
@@ -575,7 +923,8 @@ export class DataManager {
     tableName: string,
     id: string,
     accessPolicy: 'public' | 'private',
-    userId?: string
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
   ): Promise<void> {
     await this.enableForeignKeys()
 
@@ -584,13 +933,10 @@ export class DataManager {
     const safeTableName = validateAndEscapeTableName(tableName)
 
     // Get record data before deletion for hooks and access control
-    let whereClause = 'WHERE id = ?'
-    const bindings: (string | number | boolean | null)[] = [id]
-
-    if (accessPolicy === 'private' && userId) {
-      whereClause += ' AND owner_id = ?'
-      bindings.push(userId)
-    }
+    const access = this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+    access.conditions.push(...(await this.visibleConditions(tableName)))
+    const whereClause = ['WHERE id = ?', ...access.conditions].join(' AND ')
+    const bindings: (string | number | boolean | null)[] = [id, ...access.bindings]
 
     const record = await this.db
       .prepare(`SELECT * FROM ${safeTableName} ${whereClause}`)
@@ -600,14 +946,20 @@ export class DataManager {
     if (!record) {
       throw new Error('Record not found or access denied')
     }
+    await this.triggerBeforeDelete(tableName, [record as Record<string, unknown>])
 
-    // Delete the record
-    await this.db
-      .prepare(`DELETE FROM ${safeTableName} ${whereClause}`)
-      .bind(...bindings)
-      .run()
+    // Delete the record (or move it to the trash)
+    await this.runWrite(
+      tableName,
+      id,
+      await this.prepareDelete(tableName, whereClause, bindings),
+      await this.auditDeletes(tableName, [record as Record<string, unknown>])
+    )
 
     // Process hooks after successful delete
+    await this.triggerAfterWrite(tableName, [
+      { operation: 'delete', record: null, old: record as Record<string, unknown> },
+    ])
     await this.hookManager.processDataEvent(
       tableName,
       id,
@@ -620,6 +972,849 @@ export class DataManager {
     )
   }
 
+  // Insert many records in one batch (all-or-nothing)
+  // Without an access policy the caller is trusted (admin / API key)
+  async bulkCreateRecords(
+    tableName: string,
+    records: Record<string, unknown>[],
+    accessPolicy?: 'public' | 'private',
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
+  ): Promise<Record<string, unknown>[]> {
+    await this.enableForeignKeys()
+
+    validateNotSystemTable(tableName, SYSTEM_TABLES)
+    const safeTableName = validateAndEscapeTableName(tableName)
+
+    const rows: Record<string, unknown>[] = []
+    for (const data of records) {
+      const timestamps = createTimestamps()
+      const id = (data.id as string) || this.generateId()
+      const owner = accessPolicy === 'private' && userId ? { owner_id: userId } : {}
+      const row = await this.triggerBeforeInsert(
+        tableName,
+        {
+          ...data,
+          id,
+          created_at: data.created_at || timestamps.created_at,
+          updated_at: data.updated_at || timestamps.updated_at,
+          ...owner, // Add owner_id for private tables
+        },
+        { id, ...owner }
+      )
+
+      // Every new row must satisfy the insert policy
+      if (rowPolicy) {
+        await this.assertRowSatisfiesPolicy(row, rowPolicy)
+      }
+
+      rows.push(row)
+    }
+
+    const statements = rows.map((row) => {
+      const columns = Object.keys(row)
+      const placeholders = columns.map(() => '?').join(', ')
+      return this.db
+        .prepare(
+          `INSERT INTO ${safeTableName} (${createColumnList(columns)}) VALUES (${placeholders})`
+        )
+        .bind(...(Object.values(row) as (string | number | boolean | null)[]))
+    })
+
+    // The full-text index is refreshed in the same batch, after the rows are written
+    const ids = rows.map((row) => row.id as string)
+    await this.db.batch([
+      ...statements,
+      ...(await this.fullTextSearch.buildSyncStatements(tableName, ids)),
+      ...(await this.auditStatements(
+        tableName,
+        rows.map((row) => ({
+          recordId: row.id as string,
+          operation: 'insert',
+          before: null,
+          after: row,
+        }))
+      )),
+    ])
+
+    // Process hooks after the whole batch succeeded, one event per row
+    await this.triggerAfterWrite(
+      tableName,
+      rows.map((row) => ({ operation: 'insert', record: row, old: null }))
+    )
+    for (const row of rows) {
+      await this.hookManager.processDataEvent(tableName, row.id as string, 'insert', row, {
+        env: this.env,
+        executionCtx: this.executionCtx,
+      })
+    }
+
+    return this.getRecordsByIds(tableName, ids)
+  }
+
+  // Update many records in one batch (all-or-nothing)
+  // Fails without writing anything if any record is missing or not accessible
+  async bulkUpdateRecords(
+    tableName: string,
+    updates: { id: string; data: Record<string, unknown> }[],
+    accessPolicy?: 'public' | 'private',
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
+  ): Promise<Record<string, unknown>[]> {
+    await this.enableForeignKeys()
+
+    validateNotSystemTable(tableName, SYSTEM_TABLES)
+    const safeTableName = validateAndEscapeTableName(tableName)
+
+    const access = accessPolicy
+      ? this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+      : { conditions: [], bindings: [] }
+    access.conditions.push(...(await this.visibleConditions(tableName)))
+    const ids = updates.map((update) => update.id)
+    const existingRows = await this.getRecordsByIds(tableName, ids, access)
+    this.assertAllRecordsFound(ids, existingRows)
+    const existingById = new Map(existingRows.map((row) => [row.id as string, row]))
+
+    const changes: { id: string; data: Record<string, unknown> }[] = []
+    for (const { id, data } of updates) {
+      // Remove system fields from update data
+      const updateData = await this.triggerBeforeUpdate(tableName, data, existingById.get(id))
+      delete updateData.id
+      delete updateData.created_at
+      if (accessPolicy) {
+        delete updateData.owner_id // Don't allow end users to change ownership
+      }
+      await this.removeSoftDeleteColumn(tableName, updateData)
+      updateData.updated_at = getCurrentDateTimeISO()
+
+      // The row as it will look after the update must still satisfy the policy
+      if (rowPolicy) {
+        await this.assertRowSatisfiesPolicy({ ...existingById.get(id), ...updateData }, rowPolicy)
+      }
+
+      changes.push({ id, data: updateData })
+    }
+
+    const whereClause = ['WHERE id = ?', ...access.conditions].join(' AND ')
+    const statements = changes.map(({ id, data }) => {
+      const setClause = Object.keys(data)
+        .map((col) => `${validateAndEscapeColumnName(col)} = ?`)
+        .join(', ')
+      return this.db
+        .prepare(`UPDATE ${safeTableName} SET ${setClause} ${whereClause}`)
+        .bind(
+          ...(Object.values(data) as (string | number | boolean | null)[]),
+          id,
+          ...access.bindings
+        )
+    })
+
+    await this.db.batch([
+      ...statements,
+      ...(await this.fullTextSearch.buildSyncStatements(tableName, ids)),
+      ...(await this.auditUpdates(
+        tableName,
+        changes.map(({ id, data }) => ({ before: existingById.get(id) ?? { id }, data }))
+      )),
+    ])
+
+    // Process hooks after the whole batch succeeded, one event per row
+    await this.triggerAfterWrite(
+      tableName,
+      changes.map(({ id, data }) => {
+        const old = existingById.get(id) ?? { id }
+        return { operation: 'update', record: { ...old, ...data }, old }
+      })
+    )
+    for (const { id, data } of changes) {
+      await this.hookManager.processDataEvent(tableName, id, 'update', data, {
+        env: this.env,
+        executionCtx: this.executionCtx,
+      })
+    }
+
+    return this.getRecordsByIds(tableName, ids)
+  }
+
+  // Delete many records in one batch (all-or-nothing)
+  // Fails without deleting anything if any record is missing or not accessible
+  async bulkDeleteRecords(
+    tableName: string,
+    ids: string[],
+    accessPolicy?: 'public' | 'private',
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
+  ): Promise<number> {
+    await this.enableForeignKeys()
+
+    validateNotSystemTable(tableName, SYSTEM_TABLES)
+
+    // Get record data before deletion for hooks and access control
+    const access = accessPolicy
+      ? this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+      : { conditions: [], bindings: [] }
+    access.conditions.push(...(await this.visibleConditions(tableName)))
+    const records = await this.getRecordsByIds(tableName, ids, access)
+    this.assertAllRecordsFound(ids, records)
+    await this.triggerBeforeDelete(tableName, records)
+
+    const whereClause = ['WHERE id = ?', ...access.conditions].join(' AND ')
+    const statements: D1PreparedStatement[] = []
+    for (const id of ids) {
+      statements.push(await this.prepareDelete(tableName, whereClause, [id, ...access.bindings]))
+    }
+    await this.db.batch([
+      ...statements,
+      ...(await this.fullTextSearch.buildSyncStatements(tableName, ids)),
+      ...(await this.auditDeletes(tableName, records)),
+    ])
+
+    // Process hooks after the whole batch succeeded, one event per row
+    await this.triggerAfterWrite(
+      tableName,
+      records.map((record) => ({ operation: 'delete', record: null, old: record }))
+    )
+    for (const record of records) {
+      await this.hookManager.processDataEvent(tableName, record.id as string, 'delete', record, {
+        env: this.env,
+        executionCtx: this.executionCtx,
+      })
+    }
+
+    return records.length
+  }
+
+  // Run an ordered list of writes across tables as one batch (all-or-nothing)
+  // Access is checked per operation against the rows as earlier operations leave them
+  async executeBatch(operations: BatchWriteOperation[]): Promise<BatchOperationResult[]> {
+    await this.enableForeignKeys()
+
+    // Rows written earlier in the batch (null once deleted), keyed by table and id
+    const pending = new Map<string, Record<string, unknown> | null>()
+    const touched = new Map<string, Set<string>>()
+    const statements: D1PreparedStatement[] = []
+    const audit: D1PreparedStatement[] = []
+    const events: {
+      table: string
+      id: string
+      event: 'insert' | 'update' | 'delete'
+      data: Record<string, unknown>
+    }[] = []
+    const written: Omit<TriggerContext, 'actor'>[] = []
+
+    for (const operation of operations) {
+      validateNotSystemTable(operation.table, SYSTEM_TABLES)
+      const safeTableName = validateAndEscapeTableName(operation.table)
+      const { table, id, accessPolicy, userId, rowPolicy } = operation
+      const key = `${table}:${id}`
+      const access = accessPolicy
+        ? this.buildAccessConditions(accessPolicy, userId, rowPolicy)
+        : { conditions: [], bindings: [] }
+      access.conditions.push(...(await this.visibleConditions(table)))
+      const whereClause = ['WHERE id = ?', ...access.conditions].join(' AND ')
+
+      if (operation.op === 'create') {
+        const timestamps = createTimestamps()
+        const owner = accessPolicy === 'private' && userId ? { owner_id: userId } : {}
+        const row = await this.triggerBeforeInsert(
+          table,
+          {
+            ...operation.data,
+            id,
+            created_at: operation.data.created_at || timestamps.created_at,
+            updated_at: operation.data.updated_at || timestamps.updated_at,
+            ...owner, // Add owner_id for private tables
+          },
+          { id, ...owner }
+        )
+
+        // The new row must satisfy the insert policy
+        if (rowPolicy) {
+          await this.assertRowSatisfiesPolicy(row, rowPolicy)
+        }
+
+        const columns = Object.keys(row)
+        statements.push(
+          this.db
+            .prepare(
+              `INSERT INTO ${safeTableName} (${createColumnList(columns)}) VALUES (${columns.map(() => '?').join(', ')})`
+            )
+            .bind(...(Object.values(row) as (string | number | boolean | null)[]))
+        )
+        pending.set(key, row)
+        events.push({ table, id, event: 'insert', data: row })
+        written.push({ table, operation: 'insert', record: row, old: null })
+        audit.push(
+          ...(await this.auditStatements(table, [
+            { recordId: id, operation: 'insert', before: null, after: row },
+          ]))
+        )
+      } else {
+        const existing = await this.getBatchTargetRow(operation, pending.get(key), access)
+
+        if (operation.op === 'update') {
+          // Remove system fields from update data
+          const updateData = await this.triggerBeforeUpdate(table, operation.data, existing)
+          delete updateData.id
+          delete updateData.created_at
+          if (accessPolicy) {
+            delete updateData.owner_id // Don't allow end users to change ownership
+          }
+          await this.removeSoftDeleteColumn(table, updateData)
+          updateData.updated_at = getCurrentDateTimeISO()
+
+          // The row as it will look after the update must still satisfy the policy
+          if (rowPolicy) {
+            await this.assertRowSatisfiesPolicy({ ...existing, ...updateData }, rowPolicy)
+          }
+
+          const setClause = Object.keys(updateData)
+            .map((col) => `${validateAndEscapeColumnName(col)} = ?`)
+            .join(', ')
+          statements.push(
+            this.db
+              .prepare(`UPDATE ${safeTableName} SET ${setClause} ${whereClause}`)
+              .bind(
+                ...(Object.values(updateData) as (string | number | boolean | null)[]),
+                id,
+                ...access.bindings
+              )
+          )
+          pending.set(key, { ...existing, ...updateData })
+          events.push({ table, id, event: 'update', data: updateData })
+          written.push({
+            table,
+            operation: 'update',
+            record: { ...existing, ...updateData },
+            old: existing,
+          })
+          audit.push(...(await this.auditUpdates(table, [{ before: existing, data: updateData }])))
+        } else {
+          await this.triggerBeforeDelete(table, [existing])
+          statements.push(await this.prepareDelete(table, whereClause, [id, ...access.bindings]))
+          pending.set(key, null)
+          events.push({ table, id, event: 'delete', data: existing })
+          written.push({ table, operation: 'delete', record: null, old: existing })
+          audit.push(...(await this.auditDeletes(table, [existing])))
+        }
+      }
+
+      const ids = touched.get(table) ?? new Set<string>()
+      touched.set(table, ids.add(id))
+    }
+
+    // The full-text indexes are refreshed in the same batch, after all rows are written
+    for (const [table, ids] of touched) {
+      statements.push(...(await this.fullTextSearch.buildSyncStatements(table, Array.from(ids))))
+    }
+    await this.db.batch([...statements, ...audit])
+
+    // Process hooks only after the whole batch committed, in operation order
+    for (const { table, ...change } of written) {
+      await this.triggerAfterWrite(table, [change])
+    }
+    for (const { table, id, event, data } of events) {
+      await this.hookManager.processDataEvent(table, id, event, data, {
+        env: this.env,
+        executionCtx: this.executionCtx,
+      })
+    }
+
+    // Return every record as the batch left it
+    const records = new Map<string, Record<string, unknown>>()
+    for (const [table, ids] of touched) {
+      for (const row of await this.getRecordsByIds(table, Array.from(ids))) {
+        records.set(`${table}:${row.id}`, row)
+      }
+    }
+
+    return operations.map(({ op, table, id, ref }) => ({
+      op,
+      table,
+      id,
+      ...(ref !== undefined && { ref }),
+      data: records.get(`${table}:${id}`) ?? null,
+    }))
+  }
+
+  // List the records in the trash of a soft delete table, most recently deleted first
+  async getTrash(tableName: string, limit = 100, offset = 0): Promise<TableDataResult> {
+    await this.assertSoftDeleteEnabled(tableName)
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const safeColumn = validateAndEscapeColumnName(SOFT_DELETE_COLUMN)
+
+    const countResult = await this.db
+      .prepare(`SELECT COUNT(*) as total FROM ${safeTableName} WHERE ${safeColumn} IS NOT NULL`)
+      .first()
+    const total = (countResult as { total: number })?.total || 0
+
+    const dataResult = await this.db
+      .prepare(
+        `SELECT * FROM ${safeTableName} WHERE ${safeColumn} IS NOT NULL ORDER BY ${safeColumn} DESC LIMIT ? OFFSET ?`
+      )
+      .bind(limit, offset)
+      .all()
+    const rows = (dataResult.results as Record<string, unknown>[]) || []
+
+    return { data: rows, total, hasMore: offset + rows.length < total }
+  }
+
+  // Move records out of the trash in one batch (all-or-nothing)
+  // Restored records reappear to readers, so they are announced as inserts
+  async restoreRecords(tableName: string, ids: string[]): Promise<Record<string, unknown>[]> {
+    validateNotSystemTable(tableName, SYSTEM_TABLES)
+    await this.assertSoftDeleteEnabled(tableName)
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const trashed = `${validateAndEscapeColumnName(SOFT_DELETE_COLUMN)} IS NOT NULL`
+
+    const records = await this.getRecordsByIds(tableName, ids, {
+      conditions: [trashed],
+      bindings: [],
+    })
+    this.assertAllRecordsFound(ids, records)
+
+    await this.db.batch([
+      ...ids.map((id) =>
+        this.db
+          .prepare(
+            `UPDATE ${safeTableName} SET ${validateAndEscapeColumnName(SOFT_DELETE_COLUMN)} = NULL WHERE id = ? AND ${trashed}`
+          )
+          .bind(id)
+      ),
+      ...(await this.auditStatements(
+        tableName,
+        records.map((record) => ({
+          recordId: record.id as string,
+          operation: 'restore',
+          before: null,
+          after: { ...record, [SOFT_DELETE_COLUMN]: null },
+        }))
+      )),
+    ])
+
+    // Process hooks after the whole batch succeeded, one event per row
+    const restored = await this.getRecordsByIds(tableName, ids)
+    for (const record of restored) {
+      await this.hookManager.processDataEvent(tableName, record.id as string, 'insert', record, {
+        env: this.env,
+        executionCtx: this.executionCtx,
+      })
+    }
+
+    return restored
+  }
+
+  // Permanently delete records from the trash (the whole trash when no ids are given)
+  // Their delete events were already emitted when they were moved to the trash
+  async purgeRecords(tableName: string, ids?: string[]): Promise<number> {
+    validateNotSystemTable(tableName, SYSTEM_TABLES)
+    await this.assertSoftDeleteEnabled(tableName)
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const trashed = `${validateAndEscapeColumnName(SOFT_DELETE_COLUMN)} IS NOT NULL`
+
+    let purgeIds: string[]
+    if (ids) {
+      const records = await this.getRecordsByIds(tableName, ids, {
+        conditions: [trashed],
+        bindings: [],
+      })
+      this.assertAllRecordsFound(ids, records)
+      purgeIds = ids
+    } else {
+      const result = await this.db.prepare(`SELECT id FROM ${safeTableName} WHERE ${trashed}`).all()
+      purgeIds = ((result.results as { id: unknown }[]) || []).map((row) => String(row.id))
+    }
+
+    if (purgeIds.length === 0) return 0
+
+    const statements: D1PreparedStatement[] = []
+    for (let i = 0; i < purgeIds.length; i += BULK_LOOKUP_CHUNK_SIZE) {
+      const chunk = purgeIds.slice(i, i + BULK_LOOKUP_CHUNK_SIZE)
+      statements.push(
+        this.db
+          .prepare(
+            `DELETE FROM ${safeTableName} WHERE id IN (${chunk.map(() => '?').join(', ')}) AND ${trashed}`
+          )
+          .bind(...chunk)
+      )
+    }
+    await this.db.batch([
+      ...statements,
+      ...(await this.fullTextSearch.buildSyncStatements(tableName, purgeIds)),
+      ...(await this.auditStatements(
+        tableName,
+        purgeIds.map((id) => ({ recordId: id, operation: 'purge', before: null, after: null }))
+      )),
+    ])
+
+    return purgeIds.length
+  }
+
+  // Bring a record back to the version recorded by one of its audit log entries
+  // The revert is a write of its own: an update, or an insert when the row no longer exists
+  async revertRecord(
+    tableName: string,
+    id: string,
+    entryId: string
+  ): Promise<Record<string, unknown> | null> {
+    validateNotSystemTable(tableName, SYSTEM_TABLES)
+
+    const entry = await this.auditLog.getEntry(tableName, id, entryId)
+    if (!entry) {
+      throw new Error(`History entry '${entryId}' not found for record '${id}'`)
+    }
+    if (!entry.after) {
+      throw new Error('Cannot revert to a version in which the record does not exist')
+    }
+
+    // Columns dropped since the version was recorded are left out
+    const columns = new Set((await this.getTableColumns(tableName)).map((col) => col.name))
+    const version = Object.fromEntries(
+      Object.entries(entry.after).filter(
+        ([column]) => columns.has(column) && column !== SOFT_DELETE_COLUMN
+      )
+    )
+
+    const current = await this.getRecordById(tableName, id, undefined, true)
+    if (!current) {
+      await this.createRecordWithId(tableName, { ...version, id })
+    } else {
+      // A trashed record is restored first, then updated
+      if (current[SOFT_DELETE_COLUMN]) {
+        await this.restoreRecords(tableName, [id])
+      }
+      await this.updateRecord(tableName, id, version)
+    }
+
+    return this.getRecordById(tableName, id)
+  }
+
+  // Get records whose column matches any of the given values (used to expand relations)
+  // With an access policy, only rows the user may read are returned
+  async getRecordsByColumnValues(
+    tableName: string,
+    column: string,
+    values: (string | number)[],
+    options: ColumnLookupOptions = {}
+  ): Promise<Record<string, unknown>[]> {
+    const access = options.accessPolicy
+      ? this.buildAccessConditions(options.accessPolicy, options.userId, options.rowPolicy)
+      : { conditions: [], bindings: [] }
+    access.conditions.push(...(await this.visibleConditions(tableName)))
+    return this.selectWhereIn(tableName, column, values, access, options.limit)
+  }
+
+  // Fetch records by id, in the order given, optionally restricted by access conditions
+  private async getRecordsByIds(
+    tableName: string,
+    ids: string[],
+    access: { conditions: string[]; bindings: (string | number | boolean | null)[] } = {
+      conditions: [],
+      bindings: [],
+    }
+  ): Promise<Record<string, unknown>[]> {
+    const rows = await this.selectWhereIn(tableName, 'id', ids, access)
+
+    const byId = new Map(rows.map((row) => [String(row.id), row]))
+    return ids.flatMap((id) => {
+      const row = byId.get(id)
+      return row ? [row] : []
+    })
+  }
+
+  private async selectWhereIn(
+    tableName: string,
+    column: string,
+    values: (string | number)[],
+    access: { conditions: string[]; bindings: (string | number | boolean | null)[] },
+    limit?: number
+  ): Promise<Record<string, unknown>[]> {
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const safeColumn = validateAndEscapeColumnName(column)
+    const rows: Record<string, unknown>[] = []
+
+    // D1 limits bound parameters per statement, so look values up in chunks
+    for (let i = 0; i < values.length; i += BULK_LOOKUP_CHUNK_SIZE) {
+      if (limit !== undefined && rows.length >= limit) break
+      const chunk = values.slice(i, i + BULK_LOOKUP_CHUNK_SIZE)
+      const conditions = [
+        `${safeColumn} IN (${chunk.map(() => '?').join(', ')})`,
+        ...access.conditions,
+      ]
+      const bindings = [...chunk, ...access.bindings]
+      let sql = `SELECT * FROM ${safeTableName} WHERE ${conditions.join(' AND ')}`
+      if (limit !== undefined) {
+        sql += ' LIMIT ?'
+        bindings.push(limit - rows.length)
+      }
+      const result = await this.db
+        .prepare(sql)
+        .bind(...bindings)
+        .all()
+      rows.push(...((result.results as Record<string, unknown>[]) || []))
+    }
+
+    return rows
+  }
+
+  // Get the current row targeted by a batch update or delete, checking access to it
+  // Rows written earlier in the batch are checked as they will be, not as stored now
+  private async getBatchTargetRow(
+    operation: BatchWriteOperation,
+    pendingRow: Record<string, unknown> | null | undefined,
+    access: { conditions: string[]; bindings: (string | number | boolean | null)[] }
+  ): Promise<Record<string, unknown>> {
+    if (pendingRow === undefined) {
+      const rows = await this.getRecordsByIds(operation.table, [operation.id], access)
+      this.assertAllRecordsFound([operation.id], rows)
+      return rows[0]
+    }
+
+    if (pendingRow === null) {
+      throw new Error(`Records not found or access denied: ${operation.id}`)
+    }
+    if (operation.rowPolicy) {
+      await this.assertRowSatisfiesPolicy(pendingRow, operation.rowPolicy)
+    } else if (
+      operation.accessPolicy === 'private' &&
+      operation.userId &&
+      pendingRow.owner_id !== operation.userId
+    ) {
+      throw new Error('Access denied - user does not own this record')
+    }
+    return pendingRow
+  }
+
+  private assertAllRecordsFound(ids: string[], rows: Record<string, unknown>[]): void {
+    const found = new Set(rows.map((row) => String(row.id)))
+    const missing = ids.filter((id) => !found.has(id))
+    if (missing.length > 0) {
+      throw new Error(`Records not found or access denied: ${missing.join(', ')}`)
+    }
+  }
+
+  // Build access conditions: a row policy replaces the default owner_id check
+  private buildAccessConditions(
+    accessPolicy: 'public' | 'private',
+    userId?: string,
+    rowPolicy?: CompiledRowPolicy
+  ): { conditions: string[]; bindings: (string | number | boolean | null)[] } {
+    if (rowPolicy) {
+      return { conditions: [`(${rowPolicy.sql})`], bindings: [...rowPolicy.params] }
+    }
+
+    if (accessPolicy === 'private' && userId) {
+      return { conditions: ['owner_id = ?'], bindings: [userId] }
+    }
+
+    return { conditions: [], bindings: [] }
+  }
+
+  // Audit log entries for changed rows, empty when the table is not audited
+  private async auditStatements(
+    tableName: string,
+    changes: AuditChange[]
+  ): Promise<D1PreparedStatement[]> {
+    return this.auditLog.buildEntryStatements(tableName, changes, this.actor)
+  }
+
+  // Audit log entries for updates; the after image is the current row with the changes applied
+  private async auditUpdates(
+    tableName: string,
+    updates: { before: Record<string, unknown>; data: Record<string, unknown> }[]
+  ): Promise<D1PreparedStatement[]> {
+    return this.auditStatements(
+      tableName,
+      updates.map(({ before, data }) => ({
+        recordId: before.id as string,
+        operation: 'update',
+        before,
+        after: { ...before, ...data },
+      }))
+    )
+  }
+
+  // Audit log entries for deletes; trashed rows are gone for readers, so there is no after image
+  private async auditDeletes(
+    tableName: string,
+    records: Record<string, unknown>[]
+  ): Promise<D1PreparedStatement[]> {
+    return this.auditStatements(
+      tableName,
+      records.map((record) => ({
+        recordId: record.id as string,
+        operation: 'delete',
+        before: record,
+        after: null,
+      }))
+    )
+  }
+
+  // Row about to be changed, read only when the audit log (for the before image) or a trigger
+  // (as `ctx.old`) needs it
+  private async getRowBeforeWrite(
+    tableName: string,
+    whereClause: string,
+    bindings: (string | number | boolean | null)[]
+  ): Promise<Record<string, unknown> | null> {
+    if (
+      !(await this.auditLog.isEnabled(tableName)) &&
+      !(await this.triggers.hasTriggers(tableName, ['before_update', 'after_write']))
+    ) {
+      return null
+    }
+    return this.db
+      .prepare(`SELECT * FROM ${validateAndEscapeTableName(tableName)} ${whereClause}`)
+      .bind(...bindings)
+      .first()
+  }
+
+  // Run the before-insert triggers on a new row; `pinned` fields (id, owner) cannot be changed
+  private async triggerBeforeInsert(
+    tableName: string,
+    row: Record<string, unknown>,
+    pinned: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (!(await this.triggers.hasTriggers(tableName, ['before_insert']))) return row
+    const record = await this.triggers.runBefore('before_insert', {
+      table: tableName,
+      operation: 'insert',
+      record: row,
+      old: null,
+      actor: this.actor,
+    })
+    return { ...record, ...pinned }
+  }
+
+  // Run the before-update triggers on the changes to a row; returns a copy of the changes to
+  // write, which the caller strips of system fields as usual
+  private async triggerBeforeUpdate(
+    tableName: string,
+    data: Record<string, unknown>,
+    old: Record<string, unknown> | null | undefined
+  ): Promise<Record<string, unknown>> {
+    if (!old || !(await this.triggers.hasTriggers(tableName, ['before_update']))) return { ...data }
+    const record = await this.triggers.runBefore('before_update', {
+      table: tableName,
+      operation: 'update',
+      record: { ...data },
+      old,
+      actor: this.actor,
+    })
+    return { ...record }
+  }
+
+  // Run the before-delete triggers of each row; they can only reject the delete
+  private async triggerBeforeDelete(
+    tableName: string,
+    records: Record<string, unknown>[]
+  ): Promise<void> {
+    if (!(await this.triggers.hasTriggers(tableName, ['before_delete']))) return
+    for (const record of records) {
+      await this.triggers.runBefore('before_delete', {
+        table: tableName,
+        operation: 'delete',
+        record: null,
+        old: record,
+        actor: this.actor,
+      })
+    }
+  }
+
+  // Run the after-write triggers of committed changes, in the background when possible
+  private async triggerAfterWrite(
+    tableName: string,
+    changes: Omit<TriggerContext, 'table' | 'actor'>[]
+  ): Promise<void> {
+    if (changes.length === 0 || !(await this.triggers.hasTriggers(tableName, ['after_write']))) {
+      return
+    }
+    const run = (async () => {
+      for (const change of changes) {
+        await this.triggers.runAfter({ table: tableName, ...change, actor: this.actor })
+      }
+    })()
+    if (this.executionCtx) {
+      this.executionCtx.waitUntil(run)
+    } else {
+      await run
+    }
+  }
+
+  // Run a single-row write, in one batch with the refresh of its full-text index entry and its
+  // audit log entries when there are any
+  private async runWrite(
+    tableName: string,
+    id: string,
+    statement: D1PreparedStatement,
+    audit: D1PreparedStatement[]
+  ): Promise<void> {
+    const related = [...(await this.fullTextSearch.buildSyncStatements(tableName, [id])), ...audit]
+    if (related.length === 0) {
+      await statement.run()
+      return
+    }
+    await this.db.batch([statement, ...related])
+  }
+
+  // Condition hiding soft-deleted rows (none when the table has no soft delete)
+  private async visibleConditions(tableName: string, includeDeleted = false): Promise<string[]> {
+    if (includeDeleted) return []
+    const condition = await this.softDelete.buildVisibleCondition(tableName)
+    return condition ? [condition] : []
+  }
+
+  // Statement deleting the rows matched by a WHERE clause
+  // On soft delete tables the rows are moved to the trash instead
+  private async prepareDelete(
+    tableName: string,
+    whereClause: string,
+    bindings: (string | number | boolean | null)[]
+  ): Promise<D1PreparedStatement> {
+    const safeTableName = validateAndEscapeTableName(tableName)
+    if (await this.softDelete.isEnabled(tableName)) {
+      return this.db
+        .prepare(
+          `UPDATE ${safeTableName} SET ${validateAndEscapeColumnName(SOFT_DELETE_COLUMN)} = ? ${whereClause}`
+        )
+        .bind(getCurrentDateTimeISO(), ...bindings)
+    }
+    return this.db.prepare(`DELETE FROM ${safeTableName} ${whereClause}`).bind(...bindings)
+  }
+
+  // Records only enter and leave the trash through delete and restore, not through updates
+  private async removeSoftDeleteColumn(
+    tableName: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (await this.softDelete.isEnabled(tableName)) {
+      delete data[SOFT_DELETE_COLUMN]
+    }
+  }
+
+  private async assertSoftDeleteEnabled(tableName: string): Promise<void> {
+    if (!(await this.softDelete.isEnabled(tableName))) {
+      throw new Error(`Soft delete is not enabled on table '${tableName}'`)
+    }
+  }
+
+  // Check a candidate row (not yet written) against a row policy
+  // Only the columns the policy reads are bound, so wide tables stay within D1's parameter limit
+  private async assertRowSatisfiesPolicy(
+    row: Record<string, unknown>,
+    rowPolicy: CompiledRowPolicy
+  ): Promise<void> {
+    const check = buildRowImageCheck(row, rowPolicy)
+    const result = await this.db
+      .prepare(check.sql)
+      .bind(...check.params)
+      .first()
+
+    if (!result) {
+      throw new Error('Access denied - row policy violation')
+    }
+  }
+
   // Generate unique ID (similar to what SQLite's randomblob would generate)
   private generateId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36)
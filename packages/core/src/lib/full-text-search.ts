@@ -0,0 +1,250 @@
+/**
+ * Full-text search backed by SQLite FTS5
+ * Each enabled table gets a shadow FTS5 table (`_fts_<table>`) holding a copy of the
+ * indexed TEXT columns keyed by record id, which DataManager keeps in sync on every write
+ */
+import type { D1Database, D1PreparedStatement } from '../types/cloudflare'
+import {
+  createColumnList,
+  validateAndEscapeColumnName,
+  validateAndEscapeTableName,
+} from './sql-utils'
+
+export const FULL_TEXT_TABLE_PREFIX = '_fts_'
+
+// Unindexed column of the shadow table holding the id of the indexed record
+const RECORD_ID_COLUMN = '_record_id'
+
+// Maximum number of words or phrases in a search query
+const MAX_SEARCH_TERMS = 16
+
+// Number of tokens around the matches in each snippet
+const SNIPPET_TOKENS = 16
+
+// Private use characters FTS5 puts around matches; the stored text is HTML-escaped before
+// they become <mark> tags, so only the tags added here reach clients as markup
+const MATCH_START = '\u{E000}'
+const MATCH_END = '\u{E001}'
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+// Maximum ids per sync statement (D1 caps bound parameters per statement)
+const SYNC_CHUNK_SIZE = 50
+
+export interface FullTextConfig {
+  table_name: string
+  columns: string[]
+  created_at: string
+  updated_at: string
+}
+
+interface FullTextConfigRecord {
+  table_name: string
+  columns: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Check if a table is an FTS5 shadow table (or one of SQLite's FTS5 internal tables)
+ */
+export function isFullTextTable(tableName: string): boolean {
+  return tableName.startsWith(FULL_TEXT_TABLE_PREFIX)
+}
+
+/**
+ * Name of the FTS5 shadow table of a user table
+ */
+export function fullTextTableName(tableName: string): string {
+  return `${FULL_TEXT_TABLE_PREFIX}${tableName}`
+}
+
+/**
+ * Turn free text into a safe FTS5 MATCH expression
+ * Words are matched as literal terms (a trailing `*` makes a prefix match) and
+ * double quoted text is matched as a phrase, so FTS5 operators in user input have no effect
+ * All terms must match; `columns` restricts matching to some of the indexed columns
+ */
+export function buildMatchExpression(query: string, columns?: string[]): string {
+  const terms: string[] = []
+
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const [, phrase, word] = match
+    const text = (phrase ?? word).replace(/"/g, '')
+    const prefix = phrase === undefined && text.endsWith('*')
+    const value = prefix ? text.replace(/\*+$/, '') : text
+
+    // Words made only of punctuation are dropped by the tokenizer anyway
+    if (!/[\p{L}\p{N}]/u.test(value)) continue
+    terms.push(`"${value}"${prefix ? '*' : ''}`)
+  }
+
+  if (terms.length === 0) {
+    throw new Error('Search query must contain at least one word')
+  }
+  if (terms.length > MAX_SEARCH_TERMS) {
+    throw new Error(`Search query can contain at most ${MAX_SEARCH_TERMS} terms`)
+  }
+
+  const expression = `(${terms.join(' ')})`
+  if (!columns || columns.length === 0) return expression
+
+  const columnFilter = columns.map((column) => validateAndEscapeColumnName(column)).join(' ')
+  return `{${columnFilter}} : ${expression}`
+}
+
+/**
+ * Subquery matching the shadow table of a table (bound to one MATCH expression)
+ * Yields `_fts_id`, the bm25 `_fts_rank` (lower is more relevant) and one
+ * `_fts_snippet_<n>` per indexed column, computed where FTS5 auxiliary functions are allowed
+ */
+export function buildMatchSubquery(tableName: string, columns: string[]): string {
+  const safeFtsTable = validateAndEscapeTableName(fullTextTableName(tableName))
+  const snippets = columns.map(
+    (_, index) =>
+      `snippet(${safeFtsTable}, ${index + 1}, char(${MATCH_START.codePointAt(0)}), char(${MATCH_END.codePointAt(0)}), '…', ${SNIPPET_TOKENS}) AS _fts_snippet_${index}`
+  )
+
+  return `SELECT ${RECORD_ID_COLUMN} AS _fts_id, bm25(${safeFtsTable}) AS _fts_rank, ${snippets.join(', ')} FROM ${safeFtsTable} WHERE ${safeFtsTable} MATCH ?`
+}
+
+/**
+ * Move the match columns of a search result row into `_search`
+ * The score is the negated bm25 rank, so higher scores are more relevant
+ * Snippets are HTML-escaped text in which only the matches are wrapped in <mark>
+ */
+export function toSearchResult(
+  row: Record<string, unknown>,
+  columns: string[]
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (!key.startsWith('_fts_')) record[key] = value
+  }
+
+  const snippets: Record<string, string> = {}
+  columns.forEach((column, index) => {
+    const snippet = row[`_fts_snippet_${index}`]
+    if (typeof snippet === 'string' && snippet.includes(MATCH_START)) {
+      snippets[column] = highlightSnippet(snippet)
+    }
+  })
+
+  return { ...record, _search: { score: -Number(row._fts_rank), snippets } }
+}
+
+// Escape the snippet text, then turn the match markers into <mark> tags
+function highlightSnippet(snippet: string): string {
+  return snippet
+    .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+    .replaceAll(MATCH_START, '<mark>')
+    .replaceAll(MATCH_END, '</mark>')
+}
+
+/**
+ * Manages FTS5 shadow tables: configuration, (re)building and keeping them in sync
+ */
+export class FullTextSearchManager {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Get the full-text configuration of a table, or null when search is not enabled
+   */
+  async getConfig(tableName: string): Promise<FullTextConfig | null> {
+    let record: FullTextConfigRecord | null
+    try {
+      record = await this.db
+        .prepare('SELECT * FROM table_fulltext_indexes WHERE table_name = ?')
+        .bind(tableName)
+        .first()
+    } catch {
+      // Databases created before full-text search existed have no configuration table
+      return null
+    }
+
+    return record ? { ...record, columns: JSON.parse(record.columns) as string[] } : null
+  }
+
+  /**
+   * Enable full-text search on the given columns, rebuilding the index from current rows
+   * Columns must already be validated as TEXT columns of the table
+   */
+  async enable(tableName: string, columns: string[]): Promise<void> {
+    if (columns.includes(RECORD_ID_COLUMN)) {
+      throw new Error(`Column '${RECORD_ID_COLUMN}' cannot be used for full-text search`)
+    }
+
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const safeFtsTable = validateAndEscapeTableName(fullTextTableName(tableName))
+    const safeColumns = createColumnList(columns)
+
+    await this.db.batch([
+      this.db.prepare(`DROP TABLE IF EXISTS ${safeFtsTable}`),
+      this.db.prepare(
+        `CREATE VIRTUAL TABLE ${safeFtsTable} USING fts5(${RECORD_ID_COLUMN} UNINDEXED, ${safeColumns}, tokenize='unicode61 remove_diacritics 2')`
+      ),
+      this.db.prepare(
+        `INSERT INTO ${safeFtsTable} (${RECORD_ID_COLUMN}, ${safeColumns}) SELECT id, ${safeColumns} FROM ${safeTableName}`
+      ),
+      this.db
+        .prepare(`
+          INSERT INTO table_fulltext_indexes (table_name, columns, created_at, updated_at)
+          VALUES (?, ?, datetime('now'), datetime('now'))
+          ON CONFLICT(table_name) DO UPDATE SET
+            columns = excluded.columns,
+            updated_at = excluded.updated_at
+        `)
+        .bind(tableName, JSON.stringify(columns)),
+    ])
+  }
+
+  /**
+   * Disable full-text search, dropping the shadow table
+   */
+  async disable(tableName: string): Promise<void> {
+    const safeFtsTable = validateAndEscapeTableName(fullTextTableName(tableName))
+
+    await this.db.batch([
+      this.db.prepare(`DROP TABLE IF EXISTS ${safeFtsTable}`),
+      this.db.prepare('DELETE FROM table_fulltext_indexes WHERE table_name = ?').bind(tableName),
+    ])
+  }
+
+  /**
+   * Statements that refresh the index entries of the given records from the table
+   * Deleted records simply drop out, so the same statements serve inserts, updates and deletes
+   * Returns no statements when full-text search is not enabled on the table
+   */
+  async buildSyncStatements(tableName: string, ids: string[]): Promise<D1PreparedStatement[]> {
+    const config = await this.getConfig(tableName)
+    if (!config || ids.length === 0) return []
+
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const safeFtsTable = validateAndEscapeTableName(fullTextTableName(tableName))
+    const safeColumns = createColumnList(config.columns)
+    const statements: D1PreparedStatement[] = []
+
+    for (let i = 0; i < ids.length; i += SYNC_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + SYNC_CHUNK_SIZE)
+      const placeholders = chunk.map(() => '?').join(', ')
+      statements.push(
+        this.db
+          .prepare(`DELETE FROM ${safeFtsTable} WHERE ${RECORD_ID_COLUMN} IN (${placeholders})`)
+          .bind(...chunk),
+        this.db
+          .prepare(
+            `INSERT INTO ${safeFtsTable} (${RECORD_ID_COLUMN}, ${safeColumns}) SELECT id, ${safeColumns} FROM ${safeTableName} WHERE id IN (${placeholders})`
+          )
+          .bind(...chunk)
+      )
+    }
+
+    return statements
+  }
+}
@@ -2,12 +2,15 @@ import { nanoid } from 'nanoid'
 import type {
   CustomDurableObjectNamespace,
   D1Database,
-  DurableObjectStub,
   ExecutionContext,
 } from '../types/cloudflare'
 import { getCurrentDateTimeISO } from './datetime-utils'
 import { NotificationManager } from './notification-manager'
+import { RealtimeEventLog } from './realtime-event-log'
+import { RealtimeSubscriptionMatcher } from './realtime-filter'
+import { publishRealtimeEvent } from './realtime-shards'
 import { VapidStorage } from './vapid-storage'
+import type { WebhookDeliveryStatus } from './webhook-delivery'
 
 interface RealtimeEnvironment {
   REALTIME?: CustomDurableObjectNamespace
@@ -26,10 +29,22 @@ export interface Hook {
   table_name: string
   event_type: HookEventType
   enabled: boolean
+  target_url: string | null
+  filters: string | null // JSON list of row filters
   created_at: string
   updated_at: string
 }
 
+export interface HookOptions {
+  targetUrl?: string | null
+  secret?: string | null
+  filters?: string[] | null
+}
+
+export interface HookUpdate extends HookOptions {
+  enabled?: boolean
+}
+
 export interface EventQueueItem {
   id: string
   hook_id: string
@@ -38,10 +53,25 @@ export interface EventQueueItem {
   event_type: HookEventType
   event_data: string
   processed: boolean
+  delivery_status: WebhookDeliveryStatus | null
+  attempts: number
+  next_attempt_at: string | null
+  last_status_code: number | null
+  last_error: string | null
   created_at: string
   processed_at: string | null
 }
 
+export interface EventQueueQuery {
+  status?: WebhookDeliveryStatus
+  hookId?: string
+  limit?: number
+}
+
+// The secret is only handed out when it is set, never listed
+const HOOK_COLUMNS =
+  'id, table_name, event_type, enabled, target_url, filters, created_at, updated_at'
+
 export class HookManager {
   constructor(
     private db: D1Database,
@@ -50,7 +80,7 @@ export class HookManager {
 
   async listHooks(): Promise<Hook[]> {
     const result = await this.db
-      .prepare('SELECT * FROM hooks ORDER BY table_name, event_type')
+      .prepare(`SELECT ${HOOK_COLUMNS} FROM hooks ORDER BY table_name, event_type`)
       .all<Hook>()
 
     return result.results || []
@@ -60,15 +90,29 @@ export class HookManager {
     return this.listHooks()
   }
 
-  async createHook(tableName: string, eventType: HookEventType): Promise<string> {
+  async createHook(
+    tableName: string,
+    eventType: HookEventType,
+    options: HookOptions = {}
+  ): Promise<string> {
     const id = nanoid()
     const now = getCurrentDateTimeISO()
 
     await this.db
       .prepare(
-        'INSERT INTO hooks (id, table_name, event_type, enabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+        'INSERT INTO hooks (id, table_name, event_type, enabled, target_url, secret, filters, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .bind(
+        id,
+        tableName,
+        eventType,
+        true,
+        options.targetUrl ?? null,
+        options.secret ?? null,
+        options.filters?.length ? JSON.stringify(options.filters) : null,
+        now,
+        now
       )
-      .bind(id, tableName, eventType, true, now, now)
       .run()
 
     return id
@@ -82,7 +126,14 @@ export class HookManager {
       .bind(enabled, now, id)
       .run()
 
-    const result = await this.db.prepare('SELECT * FROM hooks WHERE id = ?').bind(id).first<Hook>()
+    return this.getHook(id)
+  }
+
+  async getHook(id: string): Promise<Hook> {
+    const result = await this.db
+      .prepare(`SELECT ${HOOK_COLUMNS} FROM hooks WHERE id = ?`)
+      .bind(id)
+      .first<Hook>()
 
     if (!result) {
       throw new Error('Hook not found')
@@ -95,13 +146,44 @@ export class HookManager {
     await this.toggleHook(id, enabled)
   }
 
+  /**
+   * Change the status, webhook or filters of a hook; fields left undefined are kept
+   */
+  async updateHook(id: string, update: HookUpdate): Promise<Hook> {
+    const assignments: string[] = []
+    const values: unknown[] = []
+    const set = (column: string, value: unknown) => {
+      assignments.push(`${column} = ?`)
+      values.push(value)
+    }
+
+    if (update.enabled !== undefined) set('enabled', update.enabled)
+    if (update.targetUrl !== undefined) set('target_url', update.targetUrl)
+    if (update.secret !== undefined) set('secret', update.secret)
+    if (update.filters !== undefined) {
+      set('filters', update.filters?.length ? JSON.stringify(update.filters) : null)
+    }
+
+    if (assignments.length > 0) {
+      set('updated_at', getCurrentDateTimeISO())
+      await this.db
+        .prepare(`UPDATE hooks SET ${assignments.join(', ')} WHERE id = ?`)
+        .bind(...values, id)
+        .run()
+    }
+
+    return this.getHook(id)
+  }
+
   async deleteHook(id: string): Promise<void> {
     await this.db.prepare('DELETE FROM hooks WHERE id = ?').bind(id).run()
   }
 
   async getActiveHooks(tableName: string, eventType: HookEventType): Promise<Hook[]> {
     const result = await this.db
-      .prepare('SELECT * FROM hooks WHERE table_name = ? AND event_type = ? AND enabled = true')
+      .prepare(
+        `SELECT ${HOOK_COLUMNS} FROM hooks WHERE table_name = ? AND event_type = ? AND enabled = true`
+      )
       .bind(tableName, eventType)
       .all<Hook>()
 
@@ -119,9 +201,20 @@ export class HookManager {
 
     await this.db
       .prepare(
-        'INSERT INTO event_queue (id, hook_id, table_name, record_id, event_type, event_data, processed, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+        'INSERT INTO event_queue (id, hook_id, table_name, record_id, event_type, event_data, processed, delivery_status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .bind(
+        id,
+        hook.id,
+        hook.table_name,
+        recordId,
+        hook.event_type,
+        data,
+        false,
+        // Picked up by the webhook dispatcher of the cron handler
+        hook.target_url ? 'pending' : null,
+        now
       )
-      .bind(id, hook.id, hook.table_name, recordId, hook.event_type, data, false, now)
       .run()
   }
 
@@ -134,6 +227,38 @@ export class HookManager {
     return result.results || []
   }
 
+  /**
+   * Queued events, newest first, optionally by webhook delivery status and hook
+   */
+  async listEvents(query: EventQueueQuery = {}): Promise<EventQueueItem[]> {
+    const conditions: string[] = []
+    const values: unknown[] = []
+
+    if (query.status) {
+      conditions.push('delivery_status = ?')
+      values.push(query.status)
+    }
+    if (query.hookId) {
+      conditions.push('hook_id = ?')
+      values.push(query.hookId)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.db
+      .prepare(`SELECT * FROM event_queue ${where} ORDER BY created_at DESC LIMIT ?`)
+      .bind(...values, query.limit ?? 100)
+      .all<EventQueueItem>()
+
+    return result.results || []
+  }
+
+  async getEvent(id: string): Promise<EventQueueItem | null> {
+    return this.db
+      .prepare('SELECT * FROM event_queue WHERE id = ?')
+      .bind(id)
+      .first<EventQueueItem>()
+  }
+
   async markEventProcessed(id: string): Promise<void> {
     const now = getCurrentDateTimeISO()
 
@@ -166,8 +291,26 @@ export class HookManager {
   ): Promise<void> {
     try {
       const hooks = await this.getActiveHooks(tableName, eventType)
+      const matcher = new RealtimeSubscriptionMatcher(this.db, {
+        table: tableName,
+        recordId,
+        eventType,
+        data: eventData,
+      })
 
       for (const hook of hooks) {
+        // Row filters use the syntax of realtime subscriptions
+        if (
+          hook.filters &&
+          !(await matcher.matches({
+            id: hook.id,
+            table: tableName,
+            filters: JSON.parse(hook.filters),
+          }))
+        ) {
+          continue
+        }
+
         await this.queueEvent(hook, recordId, {
           table_name: tableName,
           event_type: eventType,
@@ -247,34 +390,26 @@ export class HookManager {
     eventData: Record<string, unknown>,
     realtimeNamespace: CustomDurableObjectNamespace
   ): Promise<void> {
+    const eventLog = new RealtimeEventLog(this.db)
     try {
-      const id = realtimeNamespace.idFromName('global')
-      const stub = realtimeNamespace.get(id) as DurableObjectStub
-
-      const response = await stub.fetch('http://internal/broadcast', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          type: 'event',
-          event: {
-            table: tableName,
-            recordId,
-            eventType,
-            data: eventData,
-            timestamp: getCurrentDateTimeISO(),
-          },
-        }),
+      // The log assigns the event its sequence number in the table before it is sent
+      const event = await eventLog.append({
+        id: nanoid(),
+        table: tableName,
+        recordId,
+        eventType,
+        data: eventData,
+        timestamp: getCurrentDateTimeISO(),
       })
 
-      if (!response.ok) {
-        throw new Error(`Broadcast failed: ${response.status}`)
-      }
+      // Sent to the shard of the table and to the fan-out shard of '*' subscribers
+      const { fanOut } = await publishRealtimeEvent(realtimeNamespace, event)
+      await eventLog.markPublished(event.id)
+      await fanOut
     } catch (error) {
       console.error('Realtime broadcast failed:', error)
       // エラーでもメイン処理には影響しない
-      // フック記録があるのでCronで再送信される
+      // 未送信のイベントはログに残るのでCronで再送信される
     }
   }
 }
@@ -0,0 +1,143 @@
+/**
+ * Image presets
+ * Stored images are only transformed through presets that admins configure, so clients cannot
+ * make the Worker render arbitrary sizes and fill R2 with copies of them.
+ */
+import type { D1Database } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import {
+  IMAGE_FITS,
+  IMAGE_FORMATS,
+  type ImageFit,
+  type ImageFormat,
+  type ImageTransform,
+  MAX_OUTPUT_DIMENSION,
+} from './image-transforms'
+import { generateId } from './utils'
+
+export const DEFAULT_IMAGE_QUALITY = 80
+
+export interface ImagePreset extends ImageTransform {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ImagePresetInput {
+  width?: number | null
+  height?: number | null
+  fit?: ImageFit
+  format?: ImageFormat
+  quality?: number
+}
+
+/**
+ * Check that a preset name is a single key segment of letters, digits, `-` and `_`
+ */
+export function isValidPresetName(name: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(name)
+}
+
+/**
+ * Check the settings of a preset
+ * Returns the problem, or null when the settings are valid
+ */
+export function checkPresetInput(input: ImagePresetInput): string | null {
+  for (const side of ['width', 'height'] as const) {
+    const value = input[side]
+    if (
+      value !== undefined &&
+      value !== null &&
+      (!Number.isInteger(value) || value < 1 || value > MAX_OUTPUT_DIMENSION)
+    ) {
+      return `${side} must be between 1 and ${MAX_OUTPUT_DIMENSION} pixels`
+    }
+  }
+  if (input.fit !== undefined && !IMAGE_FITS.includes(input.fit)) {
+    return `fit must be one of ${IMAGE_FITS.join(', ')}`
+  }
+  if (input.format === undefined || !IMAGE_FORMATS.includes(input.format)) {
+    return `format must be one of ${IMAGE_FORMATS.join(', ')}`
+  }
+  if (
+    input.quality !== undefined &&
+    (!Number.isInteger(input.quality) || input.quality < 1 || input.quality > 100)
+  ) {
+    return 'quality must be between 1 and 100'
+  }
+  return null
+}
+
+/**
+ * Reads and changes image presets
+ */
+export class ImagePresetManager {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Get a preset by name
+   */
+  async getPreset(name: string): Promise<ImagePreset | null> {
+    return this.db
+      .prepare('SELECT * FROM storage_image_presets WHERE name = ?')
+      .bind(name)
+      .first<ImagePreset>()
+  }
+
+  /**
+   * List the presets by name
+   */
+  async listPresets(): Promise<ImagePreset[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM storage_image_presets ORDER BY name')
+      .all<ImagePreset>()
+    return result.results || []
+  }
+
+  /**
+   * Create a preset or replace its settings
+   * The settings must pass checkPresetInput
+   */
+  async setPreset(name: string, input: ImagePresetInput): Promise<ImagePreset> {
+    const invalid = checkPresetInput(input)
+    if (invalid) throw new Error(invalid)
+
+    const now = getCurrentDateTimeISO()
+    await this.db
+      .prepare(
+        `INSERT INTO storage_image_presets (id, name, width, height, fit, format, quality, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET
+           width = excluded.width, height = excluded.height, fit = excluded.fit,
+           format = excluded.format, quality = excluded.quality, updated_at = excluded.updated_at`
+      )
+      .bind(
+        generateId(),
+        name,
+        input.width ?? null,
+        input.height ?? null,
+        input.fit ?? 'contain',
+        input.format,
+        input.quality ?? DEFAULT_IMAGE_QUALITY,
+        now,
+        now
+      )
+      .run()
+
+    const preset = await this.getPreset(name)
+    if (!preset) throw new Error(`Preset '${name}' was not saved`)
+    return preset
+  }
+
+  /**
+   * Remove a preset. Returns false when it does not exist
+   */
+  async deletePreset(name: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM storage_image_presets WHERE name = ?')
+      .bind(name)
+      .run()
+    return (result.meta.changes || 0) > 0
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Image transformations
+ * Stored images are resized, cropped and converted with the jSquash codecs, which are pure
+ * WebAssembly and run the same in the Worker and under Node. The modules are imported compiled
+ * (wrangler compiles `.wasm?module` imports at upload) and instantiated when a codec is first used.
+ * Results are stored back in R2 under TRANSFORM_PREFIX and reused until the source or the preset
+ * that made them changes. They are deleted with the preset, and with the source when it is
+ * deleted, moved or overwritten.
+ */
+
+import avifDecodeWasm from '@jsquash/avif/codec/dec/avif_dec.wasm?module'
+import avifEncodeWasm from '@jsquash/avif/codec/enc/avif_enc.wasm?module'
+import avifDecode, { init as initAvifDecode } from '@jsquash/avif/decode'
+import avifEncode, { init as initAvifEncode } from '@jsquash/avif/encode'
+import jpegDecodeWasm from '@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm?module'
+import jpegEncodeWasm from '@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm?module'
+import jpegDecode, { init as initJpegDecode } from '@jsquash/jpeg/decode'
+import jpegEncode, { init as initJpegEncode } from '@jsquash/jpeg/encode'
+import pngWasm from '@jsquash/png/codec/pkg/squoosh_png_bg.wasm?module'
+import { init as initPngDecode, decode as pngDecode } from '@jsquash/png/decode'
+import resize, { initResize } from '@jsquash/resize'
+import resizeWasm from '@jsquash/resize/lib/resize/pkg/squoosh_resize_bg.wasm?module'
+import webpDecodeWasm from '@jsquash/webp/codec/dec/webp_dec.wasm?module'
+// Workers and Node both support WebAssembly SIMD, so the encoder loads its SIMD build
+import webpEncodeWasm from '@jsquash/webp/codec/enc/webp_enc_simd.wasm?module'
+import webpDecode, { init as initWebpDecode } from '@jsquash/webp/decode'
+import webpEncode, { init as initWebpEncode } from '@jsquash/webp/encode'
+import type { R2Bucket } from '../types/cloudflare'
+
+export type ImageFit = 'contain' | 'cover' | 'fill'
+export type ImageFormat = 'jpeg' | 'webp' | 'avif'
+export type SourceImageFormat = ImageFormat | 'png'
+
+export const IMAGE_FITS: ImageFit[] = ['contain', 'cover', 'fill']
+export const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'webp', 'avif']
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+}
+
+// Key prefix of the transformed copies; end users cannot reach it directly
+export const TRANSFORM_PREFIX = '.transforms/'
+
+// A Worker has 128 MB of memory. Besides the source file, a transform holds up to four copies
+// of the pixels at 4 bytes each (in the codec's memory, decoded, cropped and resized): about
+// 84 MB at the limits, leaving room for the Worker itself
+export const MAX_SOURCE_SIZE = 20 * 1024 * 1024
+export const MAX_SOURCE_PIXELS = 4_000_000
+export const MAX_OUTPUT_DIMENSION = 4096
+
+export interface ImageTransform {
+  width: number | null
+  height: number | null
+  // contain: fit inside the box; cover: fill the box, cropping the overflow around the
+  // centre; fill: stretch to the box. contain and cover never enlarge the image
+  fit: ImageFit
+  format: ImageFormat
+  quality: number // 1 to 100
+}
+
+// Decoded RGBA pixels, as the codecs take and return them
+export interface RawImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+export interface TransformPlan {
+  crop: { x: number; y: number; width: number; height: number }
+  width: number
+  height: number
+}
+
+/**
+ * Format of an encoded image, read from its signature; null for other files
+ */
+export function detectImageFormat(bytes: Uint8Array): SourceImageFormat | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg'
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'png'
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp'
+  if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) return 'avif'
+  return null
+}
+
+/**
+ * Size of an encoded image, read from its header without decoding it; null when the header
+ * cannot be read. The format comes from detectImageFormat
+ */
+export function readImageSize(
+  bytes: Uint8Array,
+  format: SourceImageFormat
+): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+
+  let size: { width: number; height: number } | null
+  try {
+    switch (format) {
+      case 'png':
+        // The IHDR chunk comes first
+        size =
+          ascii(12, 16) === 'IHDR'
+            ? { width: view.getUint32(16), height: view.getUint32(20) }
+            : null
+        break
+      case 'jpeg':
+        size = readJpegSize(bytes, view)
+        break
+      case 'webp':
+        size = readWebpSize(bytes, view, ascii(12, 16))
+        break
+      case 'avif':
+        size = readAvifSize(view, ascii)
+        break
+    }
+  } catch {
+    // Reads past the end of a truncated header
+    return null
+  }
+  // A JPEG height of 0 is only given after the image data, which is not read here
+  return size && size.width > 0 && size.height > 0 ? size : null
+}
+
+// The first start-of-frame segment holds the size; markers C4, C8 and CC are not frames
+function readJpegSize(bytes: Uint8Array, view: DataView) {
+  let offset = 2
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    if (marker === 0xff) {
+      offset++ // Fill byte
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2 // Markers without a segment
+      continue
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+// Lossy (VP8), lossless (VP8L) and extended (VP8X) files keep the size in their first chunk
+function readWebpSize(bytes: Uint8Array, view: DataView, chunk: string) {
+  switch (chunk) {
+    case 'VP8 ':
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+    case 'VP8L': {
+      const bits = view.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    case 'VP8X': {
+      const uint24 = (offset: number) =>
+        bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+      return { width: uint24(24) + 1, height: uint24(27) + 1 }
+    }
+    default:
+      return null
+  }
+}
+
+// The `ispe` properties in meta/iprp/ipco hold the size of each image item (the main image,
+// and thumbnails or alpha planes); the largest one is what decoding allocates
+function readAvifSize(view: DataView, ascii: (start: number, end: number) => string) {
+  const children = (start: number, end: number) => {
+    const boxes: Array<{ type: string; start: number; end: number }> = []
+    let offset = start
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset)
+      let header = 8
+      if (size === 1) {
+        size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12)
+        header = 16
+      } else if (size === 0) {
+        size = end - offset // The box runs to the end of the file
+      }
+      if (size < header || offset + size > end) break
+      boxes.push({
+        type: ascii(offset + 4, offset + 8),
+        start: offset + header,
+        end: offset + size,
+      })
+      offset += size
+    }
+    return boxes
+  }
+  const find = (boxes: ReturnType<typeof children>, type: string) =>
+    boxes.find((box) => box.type === type)
+
+  // meta is a full box: its children follow 4 bytes of version and flags
+  const meta = find(children(0, view.byteLength), 'meta')
+  const iprp = meta && find(children(meta.start + 4, meta.end), 'iprp')
+  const ipco = iprp && find(children(iprp.start, iprp.end), 'ipco')
+  if (!ipco) return null
+
+  let largest: { width: number; height: number } | null = null
+  for (const box of children(ipco.start, ipco.end)) {
+    if (box.type !== 'ispe') continue
+    const size = { width: view.getUint32(box.start + 4), height: view.getUint32(box.start + 8) }
+    if (!largest || size.width * size.height > largest.width * largest.height) largest = size
+  }
+  return largest
+}
+
+/**
+ * Key of the copy of an object transformed by a preset
+ */
+export function getTransformKey(key: string, preset: string, format: ImageFormat): string {
+  return `${TRANSFORM_PREFIX}${preset}/${key}.${format === 'jpeg' ? 'jpg' : format}`
+}
+
+/**
+ * Whether a key holds a transformed copy
+ */
+export function isTransformKey(key: string): boolean {
+  return key.startsWith(TRANSFORM_PREFIX)
+}
+
+/**
+ * Region of the source to keep and the size to scale it to
+ * A transform with neither width nor height keeps the size; with one of them, the other follows
+ * the aspect ratio of the source
+ */
+export function planTransform(
+  source: { width: number; height: number },
+  transform: Pick<ImageTransform, 'width' | 'height' | 'fit'>
+): TransformPlan {
+  const whole = { x: 0, y: 0, width: source.width, height: source.height }
+  const { width, height, fit } = transform
+
+  if (width === null && height === null) {
+    return { crop: whole, width: source.width, height: source.height }
+  }
+
+  if (width !== null && height !== null && fit === 'fill') {
+    return { crop: whole, width, height }
+  }
+
+  if (width !== null && height !== null && fit === 'cover') {
+    const crop = { ...whole }
+    if (source.width * height > source.height * width) {
+      crop.width = Math.max(1, Math.round((source.height * width) / height))
+      crop.x = Math.floor((source.width - crop.width) / 2)
+    } else {
+      crop.height = Math.max(1, Math.round((source.width * height) / width))
+      crop.y = Math.floor((source.height - crop.height) / 2)
+    }
+    const scale = Math.min(1, width / crop.width)
+    return {
+      crop,
+      width: Math.max(1, Math.round(crop.width * scale)),
+      height: Math.max(1, Math.round(crop.height * scale)),
+    }
+  }
+
+  // contain, and every fit when only one side is given
+  const scale = Math.min(
+    1,
+    width === null ? Number.POSITIVE_INFINITY : width / source.width,
+    height === null ? Number.POSITIVE_INFINITY : height / source.height
+  )
+  return {
+    crop: whole,
+    width: Math.max(1, Math.round(source.width * scale)),
+    height: Math.max(1, Math.round(source.height * scale)),
+  }
+}
+
+/**
+ * Check that an image is small enough to transform, from the size in its header
+ */
+export function checkSourceImage(image: { width: number; height: number }): string | null {
+  if (image.width * image.height > MAX_SOURCE_PIXELS) {
+    return `Images larger than ${MAX_SOURCE_PIXELS} pixels cannot be transformed`
+  }
+  return null
+}
+
+// Instantiate a codec once, when it is first used
+const once = (init: () => Promise<unknown>) => {
+  let ready: Promise<unknown> | undefined
+  return () => {
+    ready ??= init()
+    return ready
+  }
+}
+
+const decoders: Record<SourceImageFormat, () => Promise<unknown>> = {
+  jpeg: once(() => initJpegDecode(jpegDecodeWasm)),
+  png: once(() => initPngDecode(pngWasm)),
+  webp: once(() => initWebpDecode(webpDecodeWasm)),
+  avif: once(() => initAvifDecode(avifDecodeWasm)),
+}
+
+const encoders: Record<ImageFormat, () => Promise<unknown>> = {
+  jpeg: once(() => initJpegEncode(jpegEncodeWasm)),
+  webp: once(() => initWebpEncode(webpEncodeWasm)),
+  avif: once(() => initAvifEncode(avifEncodeWasm)),
+}
+
+const resizer = once(() => initResize(resizeWasm))
+
+/**
+ * Decode an image; the format comes from detectImageFormat
+ */
+export async function decodeImage(data: ArrayBuffer, format: SourceImageFormat): Promise<RawImage> {
+  await decoders[format]()
+  switch (format) {
+    case 'jpeg':
+      return jpegDecode(data)
+    case 'png':
+      return pngDecode(data)
+    case 'webp':
+      return webpDecode(data)
+    case 'avif': {
+      const image = await avifDecode(data)
+      if (!image) throw new Error('Failed to decode AVIF image')
+      return image
+    }
+  }
+}
+
+// Copy a region of an image
+function cropImage(image: RawImage, region: TransformPlan['crop']): RawImage {
+  if (region.width === image.width && region.height === image.height) return image
+
+  const data = new Uint8ClampedArray(region.width * region.height * 4)
+  for (let row = 0; row < region.height; row++) {
+    const start = ((region.y + row) * image.width + region.x) * 4
+    data.set(image.data.subarray(start, start + region.width * 4), row * region.width * 4)
+  }
+  return { data, width: region.width, height: region.height }
+}
+
+/**
+ * Crop, resize and encode a decoded image
+ */
+export async function renderImage(
+  image: RawImage,
+  transform: ImageTransform
+): Promise<ArrayBuffer> {
+  const plan = planTransform(image, transform)
+  let output = cropImage(image, plan.crop)
+
+  if (output.width !== plan.width || output.height !== plan.height) {
+    await resizer()
+    output = await resize(output, {
+      width: plan.width,
+      height: plan.height,
+      method: 'lanczos3',
+      fitMethod: 'stretch',
+    })
+  }
+
+  await encoders[transform.format]()
+  switch (transform.format) {
+    case 'jpeg':
+      return jpegEncode(output, { quality: transform.quality })
+    case 'webp':
+      return webpEncode(output, { quality: transform.quality })
+    case 'avif':
+      // AVIF encoding is slow; the fastest speed keeps it within a request
+      return avifEncode(output, { quality: transform.quality, speed: 10 })
+  }
+}
+
+/**
+ * Delete the transformed copies made by a preset
+ */
+export async function deleteTransformedImages(bucket: R2Bucket, preset: string): Promise<number> {
+  let deleted = 0
+  let cursor: string | undefined
+  do {
+    const result = await bucket.list({ prefix: `${TRANSFORM_PREFIX}${preset}/`, cursor })
+    if (result.objects.length > 0) {
+      await bucket.delete(result.objects.map((object) => object.key))
+      deleted += result.objects.length
+    }
+    cursor = result.truncated ? result.cursor : undefined
+  } while (cursor)
+  return deleted
+}
+
+/**
+ * Delete the copies of objects transformed by any of the presets
+ * Used when the objects are deleted, moved or overwritten; copies are only made in the current
+ * format of a preset, as changing a preset deletes its copies
+ */
+export async function deleteTransformedCopies(
+  bucket: R2Bucket,
+  keys: string[],
+  presets: Array<{ name: string; format: ImageFormat }>
+): Promise<void> {
+  const copies = keys.flatMap((key) =>
+    presets.map((preset) => getTransformKey(key, preset.name, preset.format))
+  )
+  // R2 deletes at most 1000 keys per call
+  for (let start = 0; start < copies.length; start += 1000) {
+    await bucket.delete(copies.slice(start, start + 1000))
+  }
+}
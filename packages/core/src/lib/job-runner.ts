@@ -0,0 +1,308 @@
+/**
+ * Background job runner
+ * Maintenance work of the worker (retrying broadcasts, sending webhooks, cleaning up old rows)
+ * is registered as jobs, each with its own interval. The cron trigger calls the runner directly
+ * from `scheduled`, which starts the jobs that are due one after the other; admins can change a
+ * job's schedule, pause it or run it right away. Every run is kept in a per-job history.
+ */
+import type { D1Database } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import { generateId } from './utils'
+
+// The cron trigger fires every 5 minutes, so shorter intervals would not be kept
+export const MIN_JOB_INTERVAL_MINUTES = 5
+export const MAX_JOB_INTERVAL_MINUTES = 7 * 24 * 60
+
+// Runs kept per job; older ones are removed as new ones are recorded
+const MAX_RUNS_PER_JOB = 100
+
+// Cron ticks do not land on the exact millisecond, so a job due within this margin runs now
+// rather than one tick later
+const SCHEDULE_TOLERANCE_MS = 60 * 1000
+
+export type JobRunStatus = 'success' | 'failed'
+
+export type JobRunTrigger = 'schedule' | 'manual'
+
+export interface JobDefinition {
+  name: string
+  description: string
+  intervalMinutes: number // Default schedule, until an admin changes it
+  // Does the work and returns a summary of it; throwing marks the run as failed
+  run: () => Promise<string>
+}
+
+export interface JobRun {
+  id: string
+  job_name: string
+  triggered_by: JobRunTrigger
+  status: JobRunStatus
+  message: string | null
+  started_at: string
+  finished_at: string
+  duration_ms: number
+}
+
+export interface BackgroundJob {
+  name: string
+  description: string
+  enabled: boolean
+  interval_minutes: number
+  default_interval_minutes: number
+  next_run_at: string | null // null until the first scheduled run
+  last_run: JobRun | null
+  last_failure: JobRun | null
+}
+
+export interface BackgroundJobUpdate {
+  enabled?: boolean
+  interval_minutes?: number
+}
+
+interface JobStateRow {
+  name: string
+  enabled: number
+  interval_minutes: number
+  next_run_at: string | null
+}
+
+const RUN_COLUMNS =
+  'id, job_name, triggered_by, status, message, started_at, finished_at, duration_ms'
+
+/**
+ * Runs the registered jobs on their schedules and keeps their history
+ */
+export class JobRunner {
+  constructor(
+    private db: D1Database,
+    private jobs: JobDefinition[]
+  ) {}
+
+  /**
+   * Run the enabled jobs whose next run is due, in the order they were registered
+   * A job is claimed by moving its next run forward before it starts, so overlapping cron
+   * invocations do not run it twice
+   */
+  async runDue(now: Date = new Date()): Promise<JobRun[]> {
+    const states = await this.getStates()
+    const runs: JobRun[] = []
+
+    for (const job of this.jobs) {
+      const state = states.get(job.name)
+      if (state && !state.enabled) continue
+      if (
+        state?.next_run_at &&
+        Date.parse(state.next_run_at) > now.getTime() + SCHEDULE_TOLERANCE_MS
+      ) {
+        continue
+      }
+
+      const intervalMinutes = state?.interval_minutes ?? job.intervalMinutes
+      const claimed = await this.claim(job, intervalMinutes, state?.next_run_at ?? null, now)
+      if (!claimed) continue
+
+      runs.push(await this.execute(job, 'schedule'))
+    }
+
+    return runs
+  }
+
+  /**
+   * Run a job right away, outside of its schedule
+   * Returns null when no job has this name
+   */
+  async runJob(name: string): Promise<JobRun | null> {
+    const job = this.jobs.find((candidate) => candidate.name === name)
+    if (!job) return null
+    return this.execute(job, 'manual')
+  }
+
+  /**
+   * List the registered jobs with their schedule, last run and last failure
+   */
+  async listJobs(): Promise<BackgroundJob[]> {
+    const [states, lastRuns, lastFailures] = await Promise.all([
+      this.getStates(),
+      this.getLatestRuns(false),
+      this.getLatestRuns(true),
+    ])
+
+    return this.jobs.map((job) => {
+      const state = states.get(job.name)
+      return {
+        name: job.name,
+        description: job.description,
+        enabled: state ? Boolean(state.enabled) : true,
+        interval_minutes: state?.interval_minutes ?? job.intervalMinutes,
+        default_interval_minutes: job.intervalMinutes,
+        next_run_at: state?.next_run_at ?? null,
+        last_run: lastRuns.get(job.name) ?? null,
+        last_failure: lastFailures.get(job.name) ?? null,
+      }
+    })
+  }
+
+  /**
+   * Get one registered job
+   */
+  async getJob(name: string): Promise<BackgroundJob | null> {
+    const jobs = await this.listJobs()
+    return jobs.find((job) => job.name === name) ?? null
+  }
+
+  /**
+   * Pause, resume or reschedule a job
+   * A new interval takes effect with a run at the next cron tick
+   * Returns null when no job has this name
+   */
+  async updateJob(name: string, update: BackgroundJobUpdate): Promise<BackgroundJob | null> {
+    const job = this.jobs.find((candidate) => candidate.name === name)
+    if (!job) return null
+
+    const state = (await this.getStates()).get(name)
+    const enabled = update.enabled ?? (state ? Boolean(state.enabled) : true)
+    const intervalMinutes =
+      update.interval_minutes ?? state?.interval_minutes ?? job.intervalMinutes
+    const nextRunAt = state && state.interval_minutes === intervalMinutes ? state.next_run_at : null
+
+    await this.db
+      .prepare(
+        `INSERT INTO background_jobs (name, enabled, interval_minutes, next_run_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET enabled = excluded.enabled,
+           interval_minutes = excluded.interval_minutes, next_run_at = excluded.next_run_at,
+           updated_at = excluded.updated_at`
+      )
+      .bind(name, enabled ? 1 : 0, intervalMinutes, nextRunAt, getCurrentDateTimeISO())
+      .run()
+
+    return this.getJob(name)
+  }
+
+  /**
+   * List the runs of all jobs or of one, newest first
+   */
+  async listRuns(
+    options: { jobName?: string; status?: JobRunStatus; limit?: number } = {}
+  ): Promise<JobRun[]> {
+    const conditions: string[] = []
+    const params: unknown[] = []
+    if (options.jobName) {
+      conditions.push('job_name = ?')
+      params.push(options.jobName)
+    }
+    if (options.status) {
+      conditions.push('status = ?')
+      params.push(options.status)
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const result = await this.db
+      .prepare(
+        `SELECT ${RUN_COLUMNS} FROM background_job_runs ${where}
+         ORDER BY started_at DESC, rowid DESC LIMIT ?`
+      )
+      .bind(...params, options.limit ?? 50)
+      .all<JobRun>()
+    return result.results || []
+  }
+
+  private async getStates(): Promise<Map<string, JobStateRow>> {
+    const result = await this.db
+      .prepare('SELECT name, enabled, interval_minutes, next_run_at FROM background_jobs')
+      .all<JobStateRow>()
+    return new Map((result.results || []).map((row) => [row.name, row]))
+  }
+
+  // The most recent run of each job, or its most recent failed run
+  private async getLatestRuns(failedOnly: boolean): Promise<Map<string, JobRun>> {
+    const result = await this.db
+      .prepare(
+        `SELECT ${RUN_COLUMNS} FROM (
+           SELECT *, ROW_NUMBER() OVER (PARTITION BY job_name ORDER BY started_at DESC, rowid DESC) AS position
+           FROM background_job_runs ${failedOnly ? "WHERE status = 'failed'" : ''}
+         ) WHERE position = 1`
+      )
+      .all<JobRun>()
+    return new Map((result.results || []).map((run) => [run.job_name, run]))
+  }
+
+  // Moves the next run forward, unless another invocation already did since the state was read
+  private async claim(
+    job: JobDefinition,
+    intervalMinutes: number,
+    previousNextRunAt: string | null,
+    now: Date
+  ): Promise<boolean> {
+    const nextRunAt = new Date(now.getTime() + intervalMinutes * 60 * 1000).toISOString()
+    const result = await this.db
+      .prepare(
+        `INSERT INTO background_jobs (name, enabled, interval_minutes, next_run_at, updated_at)
+         VALUES (?, 1, ?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET next_run_at = excluded.next_run_at, updated_at = excluded.updated_at
+         WHERE background_jobs.next_run_at IS ?`
+      )
+      .bind(job.name, intervalMinutes, nextRunAt, getCurrentDateTimeISO(), previousNextRunAt)
+      .run()
+    return (result.meta.changes || 0) > 0
+  }
+
+  private async execute(job: JobDefinition, triggeredBy: JobRunTrigger): Promise<JobRun> {
+    const startedAt = Date.now()
+    let status: JobRunStatus = 'success'
+    let message: string | null
+
+    try {
+      message = await job.run()
+    } catch (error) {
+      console.error(`Background job ${job.name} failed:`, error)
+      status = 'failed'
+      message = error instanceof Error ? error.message : String(error)
+    }
+
+    const finishedAt = Date.now()
+    const run: JobRun = {
+      id: generateId(),
+      job_name: job.name,
+      triggered_by: triggeredBy,
+      status,
+      message,
+      started_at: new Date(startedAt).toISOString(),
+      finished_at: new Date(finishedAt).toISOString(),
+      duration_ms: finishedAt - startedAt,
+    }
+    await this.recordRun(run)
+    return run
+  }
+
+  // The history of the job is trimmed in the same batch
+  private async recordRun(run: JobRun): Promise<void> {
+    try {
+      await this.db.batch([
+        this.db
+          .prepare(
+            `INSERT INTO background_job_runs (${RUN_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .bind(
+            run.id,
+            run.job_name,
+            run.triggered_by,
+            run.status,
+            run.message,
+            run.started_at,
+            run.finished_at,
+            run.duration_ms
+          ),
+        this.db
+          .prepare(
+            `DELETE FROM background_job_runs WHERE job_name = ? AND id NOT IN (
+               SELECT id FROM background_job_runs WHERE job_name = ? ORDER BY started_at DESC, rowid DESC LIMIT ?
+             )`
+          )
+          .bind(run.job_name, run.job_name, MAX_RUNS_PER_JOB),
+      ])
+    } catch (error) {
+      console.error('Failed to record background job run:', error)
+    }
+  }
+}
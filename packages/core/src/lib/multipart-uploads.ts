@@ -0,0 +1,293 @@
+/**
+ * Multipart uploads
+ * Large files are uploaded in parts on top of R2 multipart uploads, so no request carries the
+ * whole file and an interrupted upload continues from the parts already stored. R2 cannot list
+ * the parts of an upload, so every upload and its parts are recorded in D1, where clients look
+ * up what is left to send. R2 aborts uploads that are not completed within 7 days.
+ */
+import type { D1Database, R2Bucket, R2Object } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+
+// R2 requires every part but the last to be at least 5 MiB, and all of them the same size
+export const MIN_PART_SIZE = 5 * 1024 * 1024
+// Largest request body a worker accepts
+export const MAX_PART_SIZE = 100 * 1024 * 1024
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024
+export const MAX_PARTS = 10_000
+
+export const MULTIPART_UPLOAD_LIFETIME_DAYS = 7
+
+export interface MultipartUpload {
+  id: string // The R2 upload id
+  object_key: string
+  content_type: string | null
+  part_size: number | null // Size the client sends its parts in, when it declared one
+  total_size: number | null // Size of the whole file, when the client declared it
+  created_by: string | null
+  created_at: string
+}
+
+export interface MultipartPart {
+  part_number: number
+  etag: string
+  size: number
+  uploaded_at: string
+}
+
+export interface MultipartUploadInput {
+  key: string
+  contentType?: string | null
+  customMetadata?: Record<string, string>
+  cacheControl?: string
+  partSize?: number
+  totalSize?: number
+  createdBy?: string | null
+}
+
+/**
+ * Check the declared part size and file size of a new upload
+ * Returns the problem, or null when the input is valid
+ */
+export function checkMultipartInput(input: MultipartUploadInput): string | null {
+  const partSize = input.partSize ?? DEFAULT_PART_SIZE
+  if (!Number.isInteger(partSize) || partSize < MIN_PART_SIZE || partSize > MAX_PART_SIZE) {
+    return `part_size must be between ${MIN_PART_SIZE} and ${MAX_PART_SIZE} bytes`
+  }
+  if (input.totalSize !== undefined) {
+    if (!Number.isInteger(input.totalSize) || input.totalSize < 1) {
+      return 'total_size must be a positive number of bytes'
+    }
+    if (Math.ceil(input.totalSize / partSize) > MAX_PARTS) {
+      return `A file of total_size needs more than ${MAX_PARTS} parts; use larger parts`
+    }
+  }
+  return null
+}
+
+/**
+ * Check a part number, which runs from 1 to MAX_PARTS
+ */
+export function checkPartNumber(partNumber: number): string | null {
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PARTS) {
+    return `Part number must be between 1 and ${MAX_PARTS}`
+  }
+  return null
+}
+
+/**
+ * Check that uploaded parts make up a whole file R2 can assemble: numbered from 1 without gaps,
+ * all but the last of one size of at least MIN_PART_SIZE, and the last no larger
+ * Returns the problem, or null when the upload can be completed
+ */
+export function checkPartsComplete(parts: MultipartPart[]): string | null {
+  if (parts.length === 0) return 'No parts have been uploaded'
+
+  const sorted = [...parts].sort((a, b) => a.part_number - b.part_number)
+  const missing = sorted.findIndex((part, index) => part.part_number !== index + 1)
+  if (missing !== -1) return `Part ${missing + 1} is missing`
+
+  const partSize = sorted[0].size
+  if (sorted.length > 1 && partSize < MIN_PART_SIZE) {
+    return `Every part but the last must be at least ${MIN_PART_SIZE} bytes`
+  }
+  const uneven = sorted.find(
+    (part, index) =>
+      (index < sorted.length - 1 && part.size !== partSize) ||
+      (index === sorted.length - 1 && part.size > partSize)
+  )
+  if (uneven) {
+    return `Part ${uneven.part_number} is ${uneven.size} bytes; every part but the last must be ${partSize} bytes`
+  }
+  return null
+}
+
+/**
+ * Forget the uploads R2 has aborted for being older than MULTIPART_UPLOAD_LIFETIME_DAYS
+ */
+export async function deleteStaleMultipartUploads(db: D1Database): Promise<number> {
+  const cutoff = new Date(
+    Date.now() - MULTIPART_UPLOAD_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString()
+  const [, uploads] = await db.batch([
+    db
+      .prepare(
+        'DELETE FROM storage_multipart_parts WHERE upload_id IN (SELECT id FROM storage_multipart_uploads WHERE created_at <= ?)'
+      )
+      .bind(cutoff),
+    db.prepare('DELETE FROM storage_multipart_uploads WHERE created_at <= ?').bind(cutoff),
+  ])
+  return uploads.meta.changes || 0
+}
+
+/**
+ * Creates, continues, completes and aborts multipart uploads
+ */
+export class MultipartUploadManager {
+  constructor(
+    private db: D1Database,
+    private bucket: R2Bucket
+  ) {}
+
+  /**
+   * Start an upload in R2 and record it
+   */
+  async create(input: MultipartUploadInput): Promise<MultipartUpload> {
+    const invalid = checkMultipartInput(input)
+    if (invalid) throw new Error(invalid)
+
+    const contentType = input.contentType || 'application/octet-stream'
+    const r2Upload = await this.bucket.createMultipartUpload(input.key, {
+      httpMetadata: { contentType, cacheControl: input.cacheControl },
+      customMetadata: input.customMetadata,
+    })
+
+    const upload: MultipartUpload = {
+      id: r2Upload.uploadId,
+      object_key: input.key,
+      content_type: contentType,
+      part_size: input.partSize ?? DEFAULT_PART_SIZE,
+      total_size: input.totalSize ?? null,
+      created_by: input.createdBy ?? null,
+      created_at: getCurrentDateTimeISO(),
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO storage_multipart_uploads (id, object_key, content_type, part_size, total_size, created_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        upload.id,
+        upload.object_key,
+        upload.content_type,
+        upload.part_size,
+        upload.total_size,
+        upload.created_by,
+        upload.created_at
+      )
+      .run()
+
+    return upload
+  }
+
+  /**
+   * Get one upload in progress
+   */
+  async get(id: string): Promise<MultipartUpload | null> {
+    return this.db
+      .prepare('SELECT * FROM storage_multipart_uploads WHERE id = ?')
+      .bind(id)
+      .first<MultipartUpload>()
+  }
+
+  /**
+   * List uploads in progress, newest first, optionally of one object or creator
+   */
+  async list(
+    options: { key?: string; createdBy?: string; limit?: number } = {}
+  ): Promise<MultipartUpload[]> {
+    const conditions: string[] = []
+    const params: unknown[] = []
+    if (options.key) {
+      conditions.push('object_key = ?')
+      params.push(options.key)
+    }
+    if (options.createdBy) {
+      conditions.push('created_by = ?')
+      params.push(options.createdBy)
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM storage_multipart_uploads ${where}
+         ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .bind(...params, options.limit ?? 100)
+      .all<MultipartUpload>()
+    return result.results || []
+  }
+
+  /**
+   * Parts stored so far, by part number
+   */
+  async listParts(id: string): Promise<MultipartPart[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT part_number, etag, size, uploaded_at FROM storage_multipart_parts
+         WHERE upload_id = ? ORDER BY part_number`
+      )
+      .bind(id)
+      .all<MultipartPart>()
+    return result.results || []
+  }
+
+  /**
+   * Store one part of `size` bytes; sending a part number again replaces that part
+   * A stream is passed on to R2 as it arrives, which needs it to have a known length, like the
+   * body of a request with Content-Length
+   */
+  async uploadPart(
+    upload: MultipartUpload,
+    partNumber: number,
+    data: ReadableStream | ArrayBuffer,
+    size: number
+  ): Promise<MultipartPart> {
+    const invalid = checkPartNumber(partNumber)
+    if (invalid) throw new Error(invalid)
+
+    const r2Upload = this.bucket.resumeMultipartUpload(upload.object_key, upload.id)
+    const uploaded = await r2Upload.uploadPart(partNumber, data)
+
+    const part: MultipartPart = {
+      part_number: partNumber,
+      etag: uploaded.etag,
+      size,
+      uploaded_at: getCurrentDateTimeISO(),
+    }
+    await this.db
+      .prepare(
+        `INSERT INTO storage_multipart_parts (upload_id, part_number, etag, size, uploaded_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(upload_id, part_number) DO UPDATE SET
+           etag = excluded.etag, size = excluded.size, uploaded_at = excluded.uploaded_at`
+      )
+      .bind(upload.id, part.part_number, part.etag, part.size, part.uploaded_at)
+      .run()
+
+    return part
+  }
+
+  /**
+   * Assemble the stored parts into the object and forget the upload
+   * The parts must pass checkPartsComplete
+   */
+  async complete(upload: MultipartUpload, parts: MultipartPart[]): Promise<R2Object> {
+    const invalid = checkPartsComplete(parts)
+    if (invalid) throw new Error(invalid)
+
+    const r2Upload = this.bucket.resumeMultipartUpload(upload.object_key, upload.id)
+    const object = await r2Upload.complete(
+      parts.map((part) => ({ partNumber: part.part_number, etag: part.etag }))
+    )
+
+    await this.forget(upload.id)
+    return object
+  }
+
+  /**
+   * Abort the upload, dropping its stored parts
+   */
+  async abort(upload: MultipartUpload): Promise<void> {
+    const r2Upload = this.bucket.resumeMultipartUpload(upload.object_key, upload.id)
+    await r2Upload.abort()
+    await this.forget(upload.id)
+  }
+
+  private async forget(id: string): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM storage_multipart_parts WHERE upload_id = ?').bind(id),
+      this.db.prepare('DELETE FROM storage_multipart_uploads WHERE id = ?').bind(id),
+    ])
+  }
+}
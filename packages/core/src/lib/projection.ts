@@ -0,0 +1,59 @@
+/**
+ * Field projection for record reads (the `select` parameter of the data API)
+ */
+import { createColumnList } from './sql-utils'
+
+/**
+ * Parse a comma separated list such as `id,title, author_id`
+ * Returns undefined when the parameter is missing or empty
+ */
+export function parseFieldList(param: string | undefined): string[] | undefined {
+  if (!param) return undefined
+  const fields = [
+    ...new Set(
+      param
+        .split(',')
+        .map((field) => field.trim())
+        .filter(Boolean)
+    ),
+  ]
+  return fields.length > 0 ? fields : undefined
+}
+
+/**
+ * Ensure every selected field is a column of the table
+ */
+export function validateSelect(select: string[], validColumns: string[]): void {
+  const unknown = select.filter((field) => !validColumns.includes(field))
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid select field${unknown.length > 1 ? 's' : ''} '${unknown.join("', '")}'. Valid fields: ${validColumns.join(', ')}`
+    )
+  }
+}
+
+/**
+ * Build the column list of a SELECT statement, `*` when nothing is selected
+ */
+export function buildSelectList(select?: string[]): string {
+  return select && select.length > 0 ? createColumnList(select) : '*'
+}
+
+/**
+ * Keep only the selected columns of each row
+ * Keys listed in `keep` (such as `_expand`) are carried over as well
+ */
+export function pickColumns(
+  rows: Record<string, unknown>[],
+  select: string[],
+  keep: string[] = []
+): Record<string, unknown>[] {
+  const keys = [...select, ...keep]
+  return rows.map((row) => {
+    const picked: Record<string, unknown> = {}
+    for (const key of keys) {
+      if (key in row) picked[key] = row[key]
+    }
+    return picked
+  })
+}
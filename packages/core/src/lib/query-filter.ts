@@ -0,0 +1,233 @@
+/**
+ * Filter compiler for the `where` parameter of the data API
+ * Turns a JSON filter into a parameterized SQL condition
+ */
+import type { FilterOperators, FilterScalar, WhereClause } from '../types/database'
+import { validateAndEscapeColumnName } from './sql-utils'
+
+export type FilterOperator = keyof FilterOperators
+
+export const FILTER_OPERATORS: readonly FilterOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'not_in',
+  'like',
+  'ilike',
+  'is_null',
+  'between',
+]
+
+export interface CompiledFilter {
+  sql: string
+  params: FilterScalar[]
+}
+
+const MAX_FILTER_DEPTH = 8
+const MAX_IN_VALUES = 100
+
+const COMPARISON_OPERATORS: Record<'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte', string> = {
+  eq: '=',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+}
+
+/**
+ * Compile a filter into a SQL condition
+ * When validColumns is given, unknown columns are rejected
+ * Returns an empty condition for an empty filter
+ */
+export function compileFilter(where: WhereClause, validColumns?: string[]): CompiledFilter {
+  const params: FilterScalar[] = []
+  const conditions = compileGroup(where, validColumns, params, 0)
+  return { sql: conditions.join(' AND '), params }
+}
+
+function compileGroup(
+  where: WhereClause,
+  validColumns: string[] | undefined,
+  params: FilterScalar[],
+  depth: number
+): string[] {
+  if (depth > MAX_FILTER_DEPTH) {
+    throw new Error(`Filter is nested too deeply (max depth ${MAX_FILTER_DEPTH})`)
+  }
+  if (!isPlainObject(where)) {
+    throw new Error('Filter must be a JSON object')
+  }
+
+  const conditions: string[] = []
+
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue
+
+    if (key === 'and' || key === 'or') {
+      if (!Array.isArray(value)) {
+        throw new Error(`'${key}' must be an array of filters`)
+      }
+      const children = value.map((child) => {
+        const childConditions = compileGroup(child as WhereClause, validColumns, params, depth + 1)
+        return childConditions.length > 0 ? `(${childConditions.join(' AND ')})` : '1 = 1'
+      })
+      // Empty groups follow the usual identities: and([]) is true, or([]) is false
+      if (children.length === 0) {
+        conditions.push(key === 'and' ? '1 = 1' : '1 = 0')
+      } else {
+        conditions.push(`(${children.join(key === 'and' ? ' AND ' : ' OR ')})`)
+      }
+      continue
+    }
+
+    if (validColumns && !validColumns.includes(key)) {
+      throw new Error(`Invalid filter field '${key}'. Valid fields: ${validColumns.join(', ')}`)
+    }
+    const column = validateAndEscapeColumnName(key)
+
+    if (isPlainObject(value)) {
+      conditions.push(...compileOperators(key, column, value as FilterOperators, params))
+    } else if (value === null) {
+      conditions.push(`${column} IS NULL`)
+    } else if (isScalar(value)) {
+      conditions.push(`${column} = ?`)
+      params.push(value)
+    } else {
+      throw new Error(`Invalid filter value for '${key}'`)
+    }
+  }
+
+  return conditions
+}
+
+function compileOperators(
+  field: string,
+  column: string,
+  operators: FilterOperators,
+  params: FilterScalar[]
+): string[] {
+  const conditions: string[] = []
+  const entries = Object.entries(operators).filter(([, value]) => value !== undefined)
+  if (entries.length === 0) {
+    throw new Error(`Filter for '${field}' must contain at least one operator`)
+  }
+
+  for (const [op, value] of entries) {
+    switch (op) {
+      case 'eq':
+      case 'ne':
+        // Comparing with null only makes sense as IS / IS NOT
+        if (value === null) {
+          conditions.push(`${column} ${op === 'eq' ? 'IS NULL' : 'IS NOT NULL'}`)
+          break
+        }
+        conditions.push(`${column} ${COMPARISON_OPERATORS[op]} ?`)
+        params.push(expectScalar(field, op, value))
+        break
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        conditions.push(`${column} ${COMPARISON_OPERATORS[op]} ?`)
+        params.push(expectScalar(field, op, value))
+        break
+      case 'in':
+      case 'not_in': {
+        const values = expectArray(field, op, value)
+        if (values.length > MAX_IN_VALUES) {
+          throw new Error(`'${op}' on '${field}' accepts at most ${MAX_IN_VALUES} values`)
+        }
+        if (values.length === 0) {
+          conditions.push(op === 'in' ? '1 = 0' : '1 = 1')
+          break
+        }
+        conditions.push(
+          `${column} ${op === 'in' ? 'IN' : 'NOT IN'} (${values.map(() => '?').join(', ')})`
+        )
+        params.push(...values)
+        break
+      }
+      case 'like':
+        // SQLite LIKE ignores case, so the case-sensitive variant is rewritten as GLOB
+        conditions.push(`${column} GLOB ?`)
+        params.push(likeToGlob(expectString(field, op, value)))
+        break
+      case 'ilike':
+        conditions.push(`${column} LIKE ?`)
+        params.push(expectString(field, op, value))
+        break
+      case 'is_null':
+        if (typeof value !== 'boolean') {
+          throw new Error(`'is_null' on '${field}' must be true or false`)
+        }
+        conditions.push(`${column} ${value ? 'IS NULL' : 'IS NOT NULL'}`)
+        break
+      case 'between': {
+        const range = expectArray(field, op, value)
+        if (range.length !== 2) {
+          throw new Error(`'between' on '${field}' requires exactly two values`)
+        }
+        conditions.push(`${column} BETWEEN ? AND ?`)
+        params.push(range[0], range[1])
+        break
+      }
+      default:
+        throw new Error(
+          `Unsupported filter operator '${op}'. Supported operators: ${FILTER_OPERATORS.join(', ')}`
+        )
+    }
+  }
+
+  return conditions
+}
+
+// Translate a LIKE pattern (% and _) into the equivalent GLOB pattern
+function likeToGlob(pattern: string): string {
+  let glob = ''
+  for (const char of pattern) {
+    if (char === '%') glob += '*'
+    else if (char === '_') glob += '?'
+    else if (char === '*' || char === '?' || char === '[') glob += `[${char}]`
+    else glob += char
+  }
+  return glob
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isScalar(value: unknown): value is FilterScalar {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  )
+}
+
+function expectScalar(field: string, op: string, value: unknown): FilterScalar {
+  if (!isScalar(value)) {
+    throw new Error(`'${op}' on '${field}' requires a single value`)
+  }
+  return value
+}
+
+function expectString(field: string, op: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error(`'${op}' on '${field}' requires a string pattern`)
+  }
+  return value
+}
+
+function expectArray(field: string, op: string, value: unknown): FilterScalar[] {
+  if (!Array.isArray(value) || !value.every(isScalar)) {
+    throw new Error(`'${op}' on '${field}' requires an array of values`)
+  }
+  return value
+}
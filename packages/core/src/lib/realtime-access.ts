@@ -0,0 +1,136 @@
+/**
+ * Access control for realtime delivery
+ * An end user receives an event only when they could read the row through /api/data: the row as
+ * stored for inserts and updates (whose payload may only hold the changed columns), and the
+ * deleted row for deletes. Connections of admins and API keys receive every event.
+ */
+import type { D1Database } from '../types/cloudflare'
+import { DataManager } from './data-manager'
+import {
+  buildRowImageCheck,
+  type CompiledRowPolicy,
+  compileRowPolicy,
+  type PolicyCondition,
+} from './row-policy'
+import { TableAccessController } from './table-access-controller'
+import { SYSTEM_TABLES } from './table-operations'
+
+// Identity of a realtime connection; no userId means an admin or API key connection
+export interface RealtimeRecipient {
+  userId?: string
+  role?: string
+}
+
+export interface RealtimeEventTarget {
+  table: string
+  recordId: string
+  eventType: 'insert' | 'update' | 'delete'
+  data: Record<string, unknown>
+}
+
+/**
+ * Decides which connections may receive an event
+ * Policies are looked up once per instance, so create one per broadcast
+ */
+export class RealtimeAccessFilter {
+  private accessController: TableAccessController
+  private dataManager: DataManager
+  private accessPolicies = new Map<string, Promise<'public' | 'private'>>()
+  private readPolicies = new Map<string, Promise<PolicyCondition | null>>()
+
+  constructor(private db: D1Database) {
+    this.accessController = new TableAccessController(db)
+    this.dataManager = new DataManager(db)
+  }
+
+  /**
+   * Get a check for one event that evaluates each identity once
+   */
+  forEvent(event: RealtimeEventTarget): (recipient: RealtimeRecipient) => Promise<boolean> {
+    const decisions = new Map<string, Promise<boolean>>()
+
+    return (recipient) => {
+      if (!recipient.userId) return Promise.resolve(true)
+
+      const key = `${recipient.userId}\u0000${recipient.role ?? ''}`
+      let decision = decisions.get(key)
+      if (!decision) {
+        decision = this.canRead(event, recipient.userId, recipient.role)
+        decisions.set(key, decision)
+      }
+      return decision
+    }
+  }
+
+  private async canRead(
+    event: RealtimeEventTarget,
+    userId: string,
+    role?: string
+  ): Promise<boolean> {
+    // End users never read system tables through /api/data
+    if ((SYSTEM_TABLES as readonly string[]).includes(event.table)) return false
+
+    try {
+      const accessPolicy = await this.getAccessPolicy(event.table)
+      const condition = await this.getReadPolicy(event.table)
+      const rowPolicy = condition ? compileRowPolicy(condition, { userId, role }) : undefined
+
+      if (event.eventType === 'delete') {
+        return await this.rowImageReadable(event.data, accessPolicy, userId, rowPolicy)
+      }
+
+      const row = await this.dataManager.getRecordByIdWithAccessControl(
+        event.table,
+        event.recordId,
+        accessPolicy,
+        userId,
+        rowPolicy,
+        ['id']
+      )
+      return row !== null
+    } catch (error) {
+      // Fail closed: a broken policy must not leak rows
+      console.error(`Realtime access check failed for table ${event.table}:`, error)
+      return false
+    }
+  }
+
+  // Evaluate the read access against a row that is no longer stored
+  private async rowImageReadable(
+    row: Record<string, unknown>,
+    accessPolicy: 'public' | 'private',
+    userId: string,
+    rowPolicy?: CompiledRowPolicy
+  ): Promise<boolean> {
+    if (!rowPolicy) {
+      return accessPolicy === 'public' || row.owner_id === userId
+    }
+
+    // Same check as DataManager's on writes, binding only the columns the policy reads
+    const check = buildRowImageCheck(row, rowPolicy)
+    const result = await this.db
+      .prepare(check.sql)
+      .bind(...check.params)
+      .first()
+
+    return result !== null
+  }
+
+  private getAccessPolicy(tableName: string): Promise<'public' | 'private'> {
+    let policy = this.accessPolicies.get(tableName)
+    if (!policy) {
+      policy = this.accessController.getTableAccessPolicy(tableName)
+      this.accessPolicies.set(tableName, policy)
+    }
+    return policy
+  }
+
+  private getReadPolicy(tableName: string): Promise<PolicyCondition | null> {
+    let policy = this.readPolicies.get(tableName)
+    if (!policy) {
+      policy = this.accessController.getRowPolicy(tableName, 'read')
+      this.readPolicies.set(tableName, policy)
+    }
+    return policy
+  }
+}
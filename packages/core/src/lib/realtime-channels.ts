@@ -0,0 +1,99 @@
+/**
+ * Presence and broadcast channels of the realtime service
+ * Connections join named channels to see who else is there (presence) and to send ephemeral
+ * messages to the other members (broadcast); nothing is stored in D1. Members are identified
+ * by their authenticated connection, never by what clients claim.
+ */
+import type { RealtimeRecipient } from './realtime-access'
+
+export type PresenceState = Record<string, unknown>
+
+// A connection's membership of one channel
+export interface ChannelMembership {
+  presence?: PresenceState // Set while the connection is tracked in the channel's presence
+  joinedAt: string
+}
+
+export interface PresenceMember {
+  clientId: string
+  userId?: string
+  presence: PresenceState
+  joinedAt: string
+}
+
+export type ChannelFrame =
+  | { type: 'join'; channel: string }
+  | { type: 'track'; channel: string; presence: PresenceState }
+  | { type: 'untrack'; channel: string }
+  | { type: 'leave'; channel: string }
+  | { type: 'broadcast'; channel: string; event: string; payload?: unknown }
+
+export const CHANNEL_FRAME_TYPES: readonly ChannelFrame['type'][] = [
+  'join',
+  'track',
+  'untrack',
+  'leave',
+  'broadcast',
+]
+
+export const MAX_PRESENCE_BYTES = 512
+export const MAX_BROADCAST_BYTES = 16 * 1024
+
+const CHANNEL_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/
+const EVENT_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,50}$/
+
+/**
+ * Validate a channel frame sent by a client
+ */
+export function parseChannelFrame(input: unknown): ChannelFrame {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Channel messages must be objects')
+  }
+  const { type, channel, presence, event, payload } = input as Record<string, unknown>
+
+  if (!CHANNEL_FRAME_TYPES.includes(type as ChannelFrame['type'])) {
+    throw new Error(`type must be one of ${CHANNEL_FRAME_TYPES.join(', ')}`)
+  }
+  if (typeof channel !== 'string' || !CHANNEL_NAME_PATTERN.test(channel)) {
+    throw new Error(
+      'channel must be 1-100 characters of letters, digits, underscores, dots, colons or dashes'
+    )
+  }
+
+  switch (type as ChannelFrame['type']) {
+    case 'track':
+      if (!presence || typeof presence !== 'object' || Array.isArray(presence)) {
+        throw new Error('presence must be an object')
+      }
+      if (byteLength(presence) > MAX_PRESENCE_BYTES) {
+        throw new Error(`presence must not exceed ${MAX_PRESENCE_BYTES} bytes`)
+      }
+      return { type: 'track', channel, presence: presence as PresenceState }
+    case 'broadcast':
+      if (typeof event !== 'string' || !EVENT_NAME_PATTERN.test(event)) {
+        throw new Error(
+          'event must be 1-50 characters of letters, digits, underscores, dots, colons or dashes'
+        )
+      }
+      if (payload !== undefined && byteLength(payload) > MAX_BROADCAST_BYTES) {
+        throw new Error(`payload must not exceed ${MAX_BROADCAST_BYTES} bytes`)
+      }
+      return { type: 'broadcast', channel, event, payload }
+    default:
+      return { type, channel } as ChannelFrame
+  }
+}
+
+/**
+ * Check whether a connection may join a channel
+ * `user:<id>` channels (and `user:<id>:<name>`) are private to that user; admins and API keys
+ * may join any channel
+ */
+export function canJoinChannel(channel: string, recipient: RealtimeRecipient): boolean {
+  if (!recipient.userId || !channel.startsWith('user:')) return true
+  return channel.split(':')[1] === recipient.userId
+}
+
+function byteLength(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length
+}
@@ -0,0 +1,226 @@
+/**
+ * Ordered log of realtime events
+ * Every data change gets the next sequence number of its table and is kept in D1 until newer
+ * events of the table push it out. Clients catching up after a reconnect ask for the events
+ * after the last sequence they saw, and broadcasts that failed are retried from the log.
+ */
+import type { CustomDurableObjectNamespace, D1Database } from '../types/cloudflare'
+import { publishRealtimeEvent, type RealtimeEventPayload } from './realtime-shards'
+
+// Events kept per table; clients further behind have to refetch their data
+export const EVENT_LOG_RETENTION = 1000
+
+// Last sequence seen per table, as sent by clients resuming a connection
+export type RealtimeSequenceCursor = Record<string, number>
+
+interface EventLogRow {
+  id: string
+  table_name: string
+  seq: number
+  record_id: string
+  event_type: RealtimeEventPayload['eventType']
+  event_data: string
+  created_at: string
+}
+
+// Events a client missed, or a gap when some of them are no longer kept
+export type RealtimeReplay =
+  | { gap: false; events: RealtimeEventPayload[] }
+  | { gap: true; latestSeq: number }
+
+function toEvent(row: EventLogRow): RealtimeEventPayload {
+  return {
+    id: row.id,
+    table: row.table_name,
+    seq: row.seq,
+    recordId: row.record_id,
+    eventType: row.event_type,
+    data: JSON.parse(row.event_data),
+    timestamp: row.created_at,
+  }
+}
+
+/**
+ * Validate a cursor: an object mapping table names to non-negative integer sequences
+ */
+export function parseSequenceCursor(input: unknown): RealtimeSequenceCursor {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('since must be an object mapping tables to sequence numbers')
+  }
+
+  const cursor: RealtimeSequenceCursor = {}
+  for (const [table, seq] of Object.entries(input)) {
+    if (typeof seq !== 'number' || !Number.isSafeInteger(seq) || seq < 0) {
+      throw new Error(`since.${table} must be a non-negative integer`)
+    }
+    cursor[table] = seq
+  }
+  return cursor
+}
+
+/**
+ * Parse an SSE event id (`<table>:<seq>`) into a cursor entry; ids of other forms are ignored
+ */
+export function parseEventId(eventId: string): RealtimeSequenceCursor {
+  const separator = eventId.lastIndexOf(':')
+  const seq = Number(eventId.slice(separator + 1))
+  if (separator <= 0 || !Number.isSafeInteger(seq) || seq < 0) return {}
+  return { [eventId.slice(0, separator)]: seq }
+}
+
+export function formatEventId(event: Pick<RealtimeEventPayload, 'table' | 'seq'>): string {
+  return `${event.table}:${event.seq}`
+}
+
+export class RealtimeEventLog {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Assign the next sequence number of the event's table and store the event
+   * Runs as one batch, so sequence numbers are unique and follow the order of the writes;
+   * events beyond the retention of the table are dropped at the same time
+   */
+  async append(event: Omit<RealtimeEventPayload, 'seq'>): Promise<RealtimeEventPayload> {
+    const [, inserted] = await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO realtime_sequences (table_name, last_seq) VALUES (?, 1)
+           ON CONFLICT(table_name) DO UPDATE SET last_seq = last_seq + 1`
+        )
+        .bind(event.table),
+      this.db
+        .prepare(
+          `INSERT INTO realtime_event_log (id, table_name, seq, record_id, event_type, event_data, created_at)
+           SELECT ?, table_name, last_seq, ?, ?, ?, ? FROM realtime_sequences WHERE table_name = ?
+           RETURNING seq`
+        )
+        .bind(
+          event.id,
+          event.recordId,
+          event.eventType,
+          JSON.stringify(event.data),
+          event.timestamp,
+          event.table
+        ),
+      this.db
+        .prepare(
+          `DELETE FROM realtime_event_log WHERE table_name = ?
+           AND seq <= (SELECT last_seq FROM realtime_sequences WHERE table_name = ?) - ?`
+        )
+        .bind(event.table, event.table, EVENT_LOG_RETENTION),
+    ])
+
+    const row = (inserted.results as Array<{ seq: number }> | undefined)?.[0]
+    if (!row) {
+      throw new Error(`Failed to assign a sequence number to event ${event.id}`)
+    }
+    return { ...event, seq: row.seq }
+  }
+
+  async markPublished(id: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE realtime_event_log SET published_at = CURRENT_TIMESTAMP WHERE id = ?')
+      .bind(id)
+      .run()
+  }
+
+  /**
+   * Events whose broadcast has not succeeded yet, in the order of each table
+   */
+  async listUnpublished(limit: number = 100): Promise<RealtimeEventPayload[]> {
+    const result = await this.db
+      .prepare(
+        'SELECT * FROM realtime_event_log WHERE published_at IS NULL ORDER BY table_name, seq LIMIT ?'
+      )
+      .bind(limit)
+      .all<EventLogRow>()
+
+    return (result.results || []).map(toEvent)
+  }
+
+  /**
+   * Broadcast again the events whose broadcast failed, in the order of each table
+   * A failed event blocks the later events of its table, so that they stay in order
+   */
+  async retryUnpublished(
+    namespace: CustomDurableObjectNamespace,
+    limit: number = 100
+  ): Promise<{ processed: number; total: number }> {
+    const events = await this.listUnpublished(limit)
+    const blockedTables = new Set<string>()
+    const fanOuts: Promise<void>[] = []
+    let processed = 0
+
+    for (const event of events) {
+      if (blockedTables.has(event.table)) continue
+
+      try {
+        // Shards skip the events they already delivered
+        const { fanOut } = await publishRealtimeEvent(namespace, event)
+        fanOuts.push(fanOut)
+        await this.markPublished(event.id)
+        processed++
+      } catch (error) {
+        console.error(`Failed to process event ${event.id}:`, error)
+        blockedTables.add(event.table)
+      }
+    }
+
+    await Promise.all(fanOuts)
+    return { processed, total: events.length }
+  }
+
+  /**
+   * Events of a table after `afterSeq`, up to and including `untilSeq` when given
+   */
+  async range(table: string, afterSeq: number, untilSeq?: number): Promise<RealtimeEventPayload[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM realtime_event_log WHERE table_name = ? AND seq > ? AND seq <= ?
+         ORDER BY seq LIMIT ?`
+      )
+      .bind(table, afterSeq, untilSeq ?? Number.MAX_SAFE_INTEGER, EVENT_LOG_RETENTION)
+      .all<EventLogRow>()
+
+    return (result.results || []).map(toEvent)
+  }
+
+  /**
+   * Events a client missed since the last sequence it saw of a table
+   * Reports a gap when the first missed event is no longer kept
+   */
+  async replay(table: string, afterSeq: number, untilSeq?: number): Promise<RealtimeReplay> {
+    if (untilSeq !== undefined && afterSeq >= untilSeq) {
+      return { gap: false, events: [] }
+    }
+
+    const latestSeq = (await this.latestSequences([table]))[table] ?? 0
+    if (afterSeq >= Math.min(latestSeq, untilSeq ?? latestSeq)) {
+      return { gap: false, events: [] }
+    }
+
+    const events = await this.range(table, afterSeq, untilSeq)
+    if (events.length === 0 || events[0].seq !== afterSeq + 1) {
+      return { gap: true, latestSeq }
+    }
+    return { gap: false, events }
+  }
+
+  /**
+   * Last sequence number of the given tables, or of every table
+   */
+  async latestSequences(tables?: string[]): Promise<RealtimeSequenceCursor> {
+    if (tables?.length === 0) return {}
+
+    const statement = tables
+      ? this.db
+          .prepare(
+            `SELECT table_name, last_seq FROM realtime_sequences WHERE table_name IN (${tables.map(() => '?').join(', ')})`
+          )
+          .bind(...tables)
+      : this.db.prepare('SELECT table_name, last_seq FROM realtime_sequences')
+
+    const result = await statement.all<{ table_name: string; last_seq: number }>()
+    return Object.fromEntries((result.results || []).map((row) => [row.table_name, row.last_seq]))
+  }
+}
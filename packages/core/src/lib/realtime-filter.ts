@@ -0,0 +1,288 @@
+/**
+ * Server-side filters for realtime subscriptions
+ * A subscription selects a table, optionally some event types and row filters written as
+ * `column=op.value` (e.g. `status=eq.open`, `project_id=in.(a,b)`), with the operators of the
+ * data API's `where` filter; the realtime Durable Object only sends events that match
+ */
+import type { D1Database } from '../types/cloudflare'
+import type { FilterScalar } from '../types/database'
+import { FILTER_OPERATORS, type FilterOperator } from './query-filter'
+import type { RealtimeEventTarget } from './realtime-access'
+import { validateAndEscapeColumnName, validateAndEscapeTableName } from './sql-utils'
+
+export type RealtimeEventType = RealtimeEventTarget['eventType']
+
+export const REALTIME_EVENT_TYPES: readonly RealtimeEventType[] = ['insert', 'update', 'delete']
+
+export interface RealtimeSubscriptionSpec {
+  id: string // Chosen by the client; plain table subscriptions use the table name
+  table: string // '*' for every table
+  events?: RealtimeEventType[] // Every event type when omitted
+  filters?: string[] // All must match
+}
+
+export interface ParsedRealtimeFilter {
+  column: string
+  op: FilterOperator
+  value: FilterScalar | FilterScalar[]
+}
+
+export const MAX_SUBSCRIPTION_FILTERS = 10
+const MAX_ID_LENGTH = 100
+const MAX_IN_VALUES = 100
+
+/**
+ * Parse a `column=op.value` filter
+ * Lists are written `(a,b)`; `null`, `true` and `false` are literals
+ */
+export function parseRealtimeFilter(filter: string): ParsedRealtimeFilter {
+  const match = /^([^=]+)=([a-z_]+)\.(.*)$/s.exec(filter)
+  if (!match) {
+    throw new Error(`Invalid filter '${filter}'. Expected column=operator.value`)
+  }
+
+  const [, column, op, raw] = match
+  // Rejects anything that could not be a column name
+  validateAndEscapeColumnName(column)
+
+  if (!(FILTER_OPERATORS as readonly string[]).includes(op)) {
+    throw new Error(
+      `Unsupported filter operator '${op}'. Supported operators: ${FILTER_OPERATORS.join(', ')}`
+    )
+  }
+
+  switch (op as FilterOperator) {
+    case 'in':
+    case 'not_in':
+    case 'between': {
+      if (!raw.startsWith('(') || !raw.endsWith(')')) {
+        throw new Error(`'${op}' on '${column}' requires a list such as (a,b)`)
+      }
+      const inner = raw.slice(1, -1)
+      const values = inner === '' ? [] : inner.split(',').map(parseLiteral)
+      if (op === 'between' && values.length !== 2) {
+        throw new Error(`'between' on '${column}' requires exactly two values`)
+      }
+      if (values.length > MAX_IN_VALUES) {
+        throw new Error(`'${op}' on '${column}' accepts at most ${MAX_IN_VALUES} values`)
+      }
+      return { column, op: op as FilterOperator, value: values }
+    }
+    case 'is_null':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new Error(`'is_null' on '${column}' must be true or false`)
+      }
+      return { column, op: 'is_null', value: raw === 'true' }
+    case 'like':
+    case 'ilike':
+      return { column, op: op as FilterOperator, value: raw }
+    default:
+      return { column, op: op as FilterOperator, value: parseLiteral(raw) }
+  }
+}
+
+/**
+ * Validate subscriptions sent by a client, rejecting the whole list on the first error
+ */
+export function parseSubscriptionSpecs(input: unknown): RealtimeSubscriptionSpec[] {
+  if (!Array.isArray(input)) {
+    throw new Error('subscriptions must be an array')
+  }
+
+  return input.map((item): RealtimeSubscriptionSpec => {
+    if (!item || typeof item !== 'object') {
+      throw new Error('Each subscription must be an object')
+    }
+    const { id, table, events, filters } = item as Record<string, unknown>
+
+    if (typeof table !== 'string' || table.trim() === '') {
+      throw new Error('Each subscription needs a table')
+    }
+    const subscriptionId = id === undefined ? table.trim() : id
+    if (
+      typeof subscriptionId !== 'string' ||
+      subscriptionId === '' ||
+      subscriptionId.length > MAX_ID_LENGTH
+    ) {
+      throw new Error(`Subscription ids must be strings of 1-${MAX_ID_LENGTH} characters`)
+    }
+
+    const spec: RealtimeSubscriptionSpec = { id: subscriptionId, table: table.trim() }
+
+    if (events !== undefined) {
+      if (
+        !Array.isArray(events) ||
+        events.some((event) => !REALTIME_EVENT_TYPES.includes(event as RealtimeEventType))
+      ) {
+        throw new Error(`events must be a list of ${REALTIME_EVENT_TYPES.join(', ')}`)
+      }
+      spec.events = [...new Set(events as RealtimeEventType[])]
+    }
+
+    if (filters !== undefined) {
+      if (!Array.isArray(filters) || filters.some((filter) => typeof filter !== 'string')) {
+        throw new Error('filters must be a list of strings')
+      }
+      if (filters.length > MAX_SUBSCRIPTION_FILTERS) {
+        throw new Error(`A subscription accepts at most ${MAX_SUBSCRIPTION_FILTERS} filters`)
+      }
+      filters.forEach((filter) => parseRealtimeFilter(filter))
+      if (filters.length > 0) spec.filters = filters
+    }
+
+    return spec
+  })
+}
+
+/**
+ * Add subscriptions to a list, replacing those with the same id
+ */
+export function mergeSubscriptionSpecs(
+  current: RealtimeSubscriptionSpec[],
+  added: RealtimeSubscriptionSpec[]
+): RealtimeSubscriptionSpec[] {
+  const addedIds = new Set(added.map((spec) => spec.id))
+  return [...current.filter((spec) => !addedIds.has(spec.id)), ...added]
+}
+
+/**
+ * Matches subscriptions against one event
+ * Update events only carry the changed columns, so when a filter names another column the
+ * stored row is loaded (once per event) and the changes are applied on top of it
+ */
+export class RealtimeSubscriptionMatcher {
+  private storedRow?: Promise<Record<string, unknown> | null>
+
+  constructor(
+    private db: D1Database | undefined,
+    private event: RealtimeEventTarget
+  ) {}
+
+  /**
+   * Ids of the subscriptions the event matches
+   */
+  async matchingIds(specs: RealtimeSubscriptionSpec[]): Promise<string[]> {
+    const ids: string[] = []
+    for (const spec of specs) {
+      if (await this.matches(spec)) ids.push(spec.id)
+    }
+    return ids
+  }
+
+  async matches(spec: RealtimeSubscriptionSpec): Promise<boolean> {
+    if (spec.table !== '*' && spec.table !== this.event.table) return false
+    if (spec.events && !spec.events.includes(this.event.eventType)) return false
+    if (!spec.filters || spec.filters.length === 0) return true
+
+    try {
+      const filters = spec.filters.map(parseRealtimeFilter)
+      const row = await this.getRow(filters.map((filter) => filter.column))
+      return filters.every((filter) => matchesFilter(row[filter.column], filter))
+    } catch (error) {
+      console.error(`Realtime filter evaluation failed for subscription ${spec.id}:`, error)
+      return false
+    }
+  }
+
+  private async getRow(columns: string[]): Promise<Record<string, unknown>> {
+    const { data } = this.event
+    if (this.event.eventType !== 'update' || columns.every((column) => column in data)) {
+      return data
+    }
+
+    if (!this.storedRow) {
+      this.storedRow = this.loadStoredRow()
+    }
+    return { ...((await this.storedRow) ?? {}), ...data }
+  }
+
+  private async loadStoredRow(): Promise<Record<string, unknown> | null> {
+    if (!this.db) return null
+    const safeTableName = validateAndEscapeTableName(this.event.table)
+    return this.db
+      .prepare(`SELECT * FROM ${safeTableName} WHERE id = ?`)
+      .bind(this.event.recordId)
+      .first<Record<string, unknown>>()
+  }
+}
+
+/**
+ * Evaluate a filter against a column value, following SQL semantics (NULL matches nothing
+ * but is_null)
+ */
+export function matchesFilter(value: unknown, filter: ParsedRealtimeFilter): boolean {
+  const { op } = filter
+
+  if (op === 'is_null') {
+    return (value === null || value === undefined) === filter.value
+  }
+  if (value === null || value === undefined) {
+    // eq.null / ne.null behave like IS NULL / IS NOT NULL, as in the where filter
+    if (filter.value === null && (op === 'eq' || op === 'ne')) return op === 'eq'
+    return op === 'not_in' && Array.isArray(filter.value) && filter.value.length === 0
+  }
+
+  switch (op) {
+    case 'eq':
+      return filter.value !== null && compare(value, filter.value as FilterScalar) === 0
+    case 'ne':
+      return filter.value === null || compare(value, filter.value as FilterScalar) !== 0
+    case 'gt':
+      return compare(value, filter.value as FilterScalar) > 0
+    case 'gte':
+      return compare(value, filter.value as FilterScalar) >= 0
+    case 'lt':
+      return compare(value, filter.value as FilterScalar) < 0
+    case 'lte':
+      return compare(value, filter.value as FilterScalar) <= 0
+    case 'in':
+      return (filter.value as FilterScalar[]).some((item) => compare(value, item) === 0)
+    case 'not_in':
+      return (filter.value as FilterScalar[]).every((item) => compare(value, item) !== 0)
+    case 'between': {
+      const [low, high] = filter.value as FilterScalar[]
+      return compare(value, low) >= 0 && compare(value, high) <= 0
+    }
+    case 'like':
+      return likeToRegExp(String(filter.value), false).test(String(value))
+    case 'ilike':
+      return likeToRegExp(String(filter.value), true).test(String(value))
+    default:
+      return false
+  }
+}
+
+function parseLiteral(raw: string): FilterScalar {
+  if (raw === 'null') return null
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  return raw
+}
+
+// Compare a row value with a filter literal; literals are strings, so they are read as
+// numbers or booleans when the row value is one (like column affinity in SQLite)
+function compare(value: unknown, literal: FilterScalar): number {
+  if (literal === null) return Number.NaN
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    const left = Number(value)
+    const right =
+      literal === true ? 1 : literal === false ? 0 : literal === '' ? Number.NaN : Number(literal)
+    if (!Number.isNaN(right)) return left - right
+  }
+
+  const left = String(value)
+  const right = String(literal)
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+// Translate a LIKE pattern (% and _) into an anchored regular expression
+function likeToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+  let source = ''
+  for (const char of pattern) {
+    if (char === '%') source += '.*'
+    else if (char === '_') source += '.'
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+  return new RegExp(`^${source}$`, ignoreCase ? 'is' : 's')
+}
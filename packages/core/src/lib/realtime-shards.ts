@@ -0,0 +1,146 @@
+/**
+ * Sharding of the realtime service
+ * Every table and every channel has its own Durable Object, so throughput grows with the number
+ * of tables and channels and one busy table cannot delay the others. A connection belongs to one
+ * shard. Subscribers of every table ('*') connect to the fan-out shard, which receives the
+ * events of all tables.
+ */
+import type { CustomDurableObjectNamespace, DurableObjectStub } from '../types/cloudflare'
+import type { RealtimeSubscriptionSpec } from './realtime-filter'
+
+export type RealtimeShard = { kind: 'table'; table: string } | { kind: 'channel'; channel: string }
+
+export const WILDCARD_SHARD = 'table:*'
+
+export interface RealtimeEventPayload {
+  id: string
+  table: string
+  seq: number // Position in the table's event log (see RealtimeEventLog)
+  recordId: string
+  eventType: 'insert' | 'update' | 'delete'
+  data: Record<string, unknown>
+  timestamp: string
+}
+
+// Query parameters and bodies that select the shard of a connection
+export interface RealtimeShardSelector {
+  table?: string
+  channel?: string
+  tables?: string[] // Legacy list; must name a single table
+  subscriptions?: Array<{ table: string }>
+}
+
+export function tableShard(table: string): string {
+  return `table:${table}`
+}
+
+export function channelShard(channel: string): string {
+  return `channel:${channel}`
+}
+
+/**
+ * Parse a shard name created by tableShard or channelShard
+ */
+export function parseShardName(name: string): RealtimeShard | null {
+  const separator = name.indexOf(':')
+  const kind = name.slice(0, separator)
+  const value = name.slice(separator + 1)
+  if (separator === -1 || value === '') return null
+
+  if (kind === 'table') return { kind: 'table', table: value }
+  if (kind === 'channel') return { kind: 'channel', channel: value }
+  return null
+}
+
+/**
+ * Find the shard a connection or subscription update belongs to
+ * An explicit table or channel wins; otherwise every listed table must be the same one
+ */
+export function resolveShardName(selector: RealtimeShardSelector): string {
+  if (selector.table && selector.channel) {
+    throw new Error('A connection serves either a table or a channel, not both')
+  }
+  if (selector.channel) return channelShard(selector.channel)
+  if (selector.table) return tableShard(selector.table)
+
+  const tables = new Set([
+    ...(selector.tables ?? []).map((table) => table.trim()).filter((table) => table !== ''),
+    ...(selector.subscriptions ?? []).map((subscription) => subscription.table),
+  ])
+  if (tables.size === 1) {
+    return tableShard([...tables][0])
+  }
+  throw new Error(
+    tables.size === 0
+      ? 'Specify the table or channel of the connection'
+      : 'Each table needs its own connection; specify a single table'
+  )
+}
+
+/**
+ * Check that subscriptions can be served by a shard: table shards only receive the events of
+ * their table (the fan-out shard those of every table), and channel shards no table events
+ */
+export function checkShardSubscriptions(
+  shard: RealtimeShard,
+  specs: RealtimeSubscriptionSpec[]
+): void {
+  for (const spec of specs) {
+    if (shard.kind === 'channel') {
+      throw new Error('Channel connections cannot subscribe to tables')
+    }
+    if (spec.table !== shard.table && shard.table !== '*') {
+      throw new Error(
+        `This connection serves table '${shard.table}'; open another one for '${spec.table}'`
+      )
+    }
+  }
+}
+
+export function getShardStub(
+  namespace: CustomDurableObjectNamespace,
+  shardName: string
+): DurableObjectStub {
+  return namespace.get(namespace.idFromName(shardName))
+}
+
+/**
+ * Deliver a change event to the shard of its table and to the fan-out shard
+ * Resolves once the table shard accepted the event and fails if it did not; the fan-out shard
+ * neither fails nor delays the publish. `fanOut` settles when the fan-out shard answered and has
+ * to be kept alive by the caller. An event the fan-out shard misses reaches it with the next event
+ * of its table, as shards read the events they missed from the event log.
+ */
+export async function publishRealtimeEvent(
+  namespace: CustomDurableObjectNamespace,
+  event: RealtimeEventPayload
+): Promise<{ fanOut: Promise<void> }> {
+  const body = JSON.stringify({ type: 'event', event })
+  const send = (shard: string) =>
+    getShardStub(namespace, shard).fetch('http://internal/broadcast', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    })
+
+  const fanOut = send(WILDCARD_SHARD).then(
+    (response) => {
+      if (!response.ok) {
+        console.error(`Broadcast to ${WILDCARD_SHARD} failed: ${response.status}`)
+      }
+    },
+    (error) => console.error(`Broadcast to ${WILDCARD_SHARD} failed:`, error)
+  )
+
+  const shard = tableShard(event.table)
+  const response = await send(shard).catch(async (error) => {
+    await fanOut
+    throw error
+  })
+  if (!response.ok) {
+    await fanOut
+    throw new Error(`Broadcast to ${shard} failed: ${response.status}`)
+  }
+
+  return { fanOut }
+}
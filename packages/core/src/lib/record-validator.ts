@@ -0,0 +1,78 @@
+/**
+ * Record validation against a table schema
+ * Shared by the single-record and bulk data endpoints
+ */
+
+// Validate record data against table schema
+export async function validateRecordData(
+  data: Record<string, unknown>,
+  columns: Array<{ name: string; type: string; notnull: number }>,
+  operation: 'create' | 'update'
+): Promise<string[]> {
+  const errors: string[] = []
+
+  // Skip validation for system columns
+  const systemColumns = ['id', 'created_at', 'updated_at']
+  const userColumns = columns.filter((col) => !systemColumns.includes(col.name))
+
+  for (const column of userColumns) {
+    const value = data[column.name]
+    const hasValue = value !== undefined && value !== null && value !== ''
+
+    // Check required fields (NOT NULL constraint)
+    if (operation === 'create' && column.notnull && !hasValue) {
+      errors.push(`Field '${column.name}' is required`)
+      continue
+    }
+
+    // Skip validation if no value provided for update
+    if (operation === 'update' && !hasValue) {
+      continue
+    }
+
+    // Type validation
+    if (hasValue) {
+      const typeError = validateFieldType(column.name, value, column.type)
+      if (typeError) {
+        errors.push(typeError)
+      }
+    }
+  }
+
+  return errors
+}
+
+function validateFieldType(fieldName: string, value: unknown, sqlType: string): string | null {
+  const type = sqlType.toUpperCase()
+
+  switch (type) {
+    case 'INTEGER':
+      if (!Number.isInteger(Number(value))) {
+        return `Field '${fieldName}' must be an integer`
+      }
+      break
+    case 'REAL':
+      if (Number.isNaN(Number(value))) {
+        return `Field '${fieldName}' must be a number`
+      }
+      break
+    case 'TEXT':
+      if (typeof value !== 'string') {
+        return `Field '${fieldName}' must be a string`
+      }
+      break
+    case 'BOOLEAN':
+      if (typeof value !== 'boolean' && value !== 0 && value !== 1) {
+        return `Field '${fieldName}' must be a boolean`
+      }
+      break
+    case 'BLOB':
+      // Accept any value for BLOB
+      break
+    default:
+      // For custom types, accept any value
+      break
+  }
+
+  return null
+}
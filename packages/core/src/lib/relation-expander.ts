@@ -0,0 +1,206 @@
+import type { D1Database } from '../types/cloudflare'
+import { isFullTextTable } from './full-text-search'
+import type { TableAccessController } from './table-access-controller'
+import type { TableDataManager } from './table-data-manager'
+import type { TableOperations } from './table-operations'
+import { isSystemTable } from './table-operations'
+
+// Limits that keep a single read from fanning out into too many queries or rows
+const MAX_EXPAND_RELATIONS = 5
+const MAX_EXPANDED_ROWS = 1000
+
+export interface ForeignKey {
+  from: string
+  table: string
+  to: string
+}
+
+/**
+ * A relation that can be embedded into a record with `expand`
+ * - one: this table's column references a row of another table (many-to-one)
+ * - many: rows of another table reference this table (one-to-many)
+ */
+export interface TableRelation {
+  name: string
+  type: 'one' | 'many'
+  table: string // Related table
+  column: string // Column on this table holding the key
+  foreignColumn: string // Column on the related table matching the key
+}
+
+/**
+ * Describe the relations of a table from the foreign keys of all tables
+ * Forward relations are named after the foreign key column (`author_id`)
+ * Reverse relations are named after the referencing table (`comments`), or
+ * `table:column` when that table references this one more than once
+ */
+export function describeRelations(
+  tableName: string,
+  foreignKeys: Record<string, ForeignKey[]>
+): TableRelation[] {
+  const relations: TableRelation[] = []
+
+  for (const fk of foreignKeys[tableName] || []) {
+    if (isSystemTable(fk.table)) continue
+    relations.push({
+      name: fk.from,
+      type: 'one',
+      table: fk.table,
+      column: fk.from,
+      foreignColumn: fk.to,
+    })
+  }
+
+  for (const [otherTable, keys] of Object.entries(foreignKeys)) {
+    if (isSystemTable(otherTable)) continue
+    const incoming = keys.filter((fk) => fk.table === tableName)
+    for (const fk of incoming) {
+      relations.push({
+        name: incoming.length > 1 ? `${otherTable}:${fk.from}` : otherTable,
+        type: 'many',
+        table: otherTable,
+        column: fk.to,
+        foreignColumn: fk.from,
+      })
+    }
+  }
+
+  return relations
+}
+
+/**
+ * Columns a query must return so the given relations can be expanded
+ */
+export function getRelationColumns(relations: TableRelation[]): string[] {
+  return [...new Set(relations.map((relation) => relation.column))]
+}
+
+/**
+ * Resolves `expand` names to relations and embeds related rows under `_expand`
+ */
+export class RelationExpander {
+  constructor(
+    private db: D1Database,
+    private tableOperations: TableOperations,
+    private tableDataManager: TableDataManager,
+    private tableAccessController: TableAccessController
+  ) {}
+
+  /**
+   * Resolve relation names for a table, throwing on unknown names
+   */
+  async resolveRelations(tableName: string, names: string[]): Promise<TableRelation[]> {
+    if (names.length > MAX_EXPAND_RELATIONS) {
+      throw new Error(`At most ${MAX_EXPAND_RELATIONS} relations can be expanded at once`)
+    }
+
+    // Forward relations only need this table's foreign keys
+    const foreignKeys: Record<string, ForeignKey[]> = {
+      [tableName]: await this.tableOperations.getForeignKeys(tableName),
+    }
+    let relations = describeRelations(tableName, foreignKeys)
+
+    // Reverse relations need the foreign keys of every user table
+    if (names.some((name) => !relations.some((relation) => relation.name === name))) {
+      for (const table of await this.getUserTableNames()) {
+        if (!(table in foreignKeys)) {
+          foreignKeys[table] = await this.tableOperations.getForeignKeys(table)
+        }
+      }
+      relations = describeRelations(tableName, foreignKeys)
+    }
+
+    return names.map((name) => {
+      const relation = relations.find((candidate) => candidate.name === name)
+      if (!relation) {
+        const available = relations.map((candidate) => candidate.name)
+        throw new Error(
+          `Unknown relation '${name}'. Available relations: ${available.length > 0 ? available.join(', ') : 'none'}`
+        )
+      }
+      return relation
+    })
+  }
+
+  /**
+   * List the relations of a table (used for API documentation)
+   */
+  async listRelations(tableName: string): Promise<TableRelation[]> {
+    const foreignKeys: Record<string, ForeignKey[]> = {}
+    for (const table of await this.getUserTableNames()) {
+      foreignKeys[table] = await this.tableOperations.getForeignKeys(table)
+    }
+    return describeRelations(tableName, foreignKeys)
+  }
+
+  /**
+   * Embed related rows into each record under `_expand`
+   * When a user is given, related tables are read with that user's access policy,
+   * so rows the user cannot see are left out (or null for many-to-one relations)
+   */
+  async expandRecords(
+    records: Record<string, unknown>[],
+    relations: TableRelation[],
+    user?: { userId?: string; userRole?: string }
+  ): Promise<Record<string, unknown>[]> {
+    const expanded = records.map((record) => ({ record, _expand: {} as Record<string, unknown> }))
+
+    for (const relation of relations) {
+      const keys = [
+        ...new Set(
+          records
+            .map((record) => record[relation.column])
+            .filter((value): value is string | number => value !== null && value !== undefined)
+        ),
+      ]
+
+      const relatedRows =
+        keys.length === 0
+          ? []
+          : user
+            ? await this.tableAccessController.getRecordsByColumnValuesWithAccessControl(
+                relation.table,
+                relation.foreignColumn,
+                keys,
+                user.userId,
+                user.userRole,
+                MAX_EXPANDED_ROWS
+              )
+            : await this.tableDataManager.getRecordsByColumnValues(
+                relation.table,
+                relation.foreignColumn,
+                keys,
+                MAX_EXPANDED_ROWS
+              )
+
+      const byKey = new Map<string, Record<string, unknown>[]>()
+      for (const row of relatedRows) {
+        const key = String(row[relation.foreignColumn])
+        byKey.set(key, [...(byKey.get(key) || []), row])
+      }
+
+      for (const { record, _expand } of expanded) {
+        const value = record[relation.column]
+        const matches = value === null || value === undefined ? [] : byKey.get(String(value)) || []
+        _expand[relation.name] = relation.type === 'one' ? (matches[0] ?? null) : matches
+      }
+    }
+
+    return expanded.map(({ record, _expand }) => ({ ...record, _expand }))
+  }
+
+  private async getUserTableNames(): Promise<string[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT name FROM sqlite_master
+         WHERE type='table'
+         AND name NOT LIKE 'sqlite_%'
+         AND name NOT LIKE '_cf_%'`
+      )
+      .all()
+
+    return (result.results as { name: string }[])
+      .map((table) => table.name)
+      .filter((name) => !isSystemTable(name) && !isFullTextTable(name))
+  }
+}
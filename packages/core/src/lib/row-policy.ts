@@ -0,0 +1,256 @@
+/**
+ * Row-level security policies for user tables
+ * Policies are stored as JSON conditions and compiled into parameterized SQL fragments
+ */
+import { validateAndEscapeColumnName, validateAndEscapeTableName } from './sql-utils'
+
+export type RowPolicyOperation = 'read' | 'insert' | 'update' | 'delete'
+
+export const ROW_POLICY_OPERATIONS: readonly RowPolicyOperation[] = [
+  'read',
+  'insert',
+  'update',
+  'delete',
+]
+
+export type PolicyComparisonOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'not_in'
+  | 'is_null'
+  | 'is_not_null'
+
+export const POLICY_COMPARISON_OPERATORS: readonly PolicyComparisonOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'not_in',
+  'is_null',
+  'is_not_null',
+]
+
+// Attributes of the caller that conditions can refer to
+export type PolicyIdentityField = 'user_id' | 'role'
+
+export type PolicyScalar = string | number | boolean | null
+
+export type PolicyValue = PolicyScalar | PolicyScalar[] | { auth: PolicyIdentityField }
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { allow: boolean }
+  | { column: string; op: PolicyComparisonOperator; value?: PolicyValue }
+  | { auth: PolicyIdentityField; op: PolicyComparisonOperator; value?: PolicyValue }
+  | {
+      member_of: {
+        table: string // Join table, e.g. team_members
+        column: string // Column on the protected row, e.g. team_id
+        foreign_column?: string // Matching column on the join table (defaults to column)
+        user_column?: string // Join table column holding the user id (defaults to user_id)
+      }
+    }
+
+export interface PolicyIdentity {
+  userId?: string
+  role?: string
+}
+
+export interface CompiledRowPolicy {
+  sql: string
+  params: PolicyScalar[]
+  columns: string[] // Row columns the expression reads
+}
+
+const MAX_POLICY_DEPTH = 8
+
+const SQL_OPERATORS: Record<Exclude<PolicyComparisonOperator, 'in' | 'not_in'>, string> = {
+  eq: '=',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  is_null: 'IS NULL',
+  is_not_null: 'IS NOT NULL',
+}
+
+/**
+ * Compile a policy condition into a SQL boolean expression for the given caller
+ * Column references are left unqualified so the fragment can be used in any WHERE clause
+ */
+export function compileRowPolicy(
+  condition: PolicyCondition,
+  identity: PolicyIdentity
+): CompiledRowPolicy {
+  const params: PolicyScalar[] = []
+  const sql = compileCondition(condition, identity, params, 0)
+  return { sql, params, columns: getPolicyReferences(condition).columns }
+}
+
+/**
+ * Query checking a compiled policy against a row image (a row that is not stored as it is)
+ * Only the columns the policy reads are bound, as a one-row derived table; the query returns
+ * a row when the image satisfies the policy
+ */
+export function buildRowImageCheck(
+  row: Record<string, unknown>,
+  rowPolicy: CompiledRowPolicy
+): { sql: string; params: PolicyScalar[] } {
+  const selectList = rowPolicy.columns
+    .map((column) => `? AS ${validateAndEscapeColumnName(column)}`)
+    .join(', ')
+  const values = rowPolicy.columns.map((column) => toPolicyScalar(row[column]))
+  const from = selectList ? ` FROM (SELECT ${selectList})` : ''
+
+  return {
+    sql: `SELECT 1 AS allowed${from} WHERE (${rowPolicy.sql})`,
+    params: [...values, ...rowPolicy.params],
+  }
+}
+
+/**
+ * Collect the row columns and join tables a condition refers to (for validation on save)
+ */
+export function getPolicyReferences(condition: PolicyCondition): {
+  columns: string[]
+  tables: string[]
+} {
+  const columns = new Set<string>()
+  const tables = new Set<string>()
+
+  const visit = (node: PolicyCondition): void => {
+    if ('all' in node) node.all.forEach(visit)
+    else if ('any' in node) node.any.forEach(visit)
+    else if ('not' in node) visit(node.not)
+    else if ('column' in node) columns.add(node.column)
+    else if ('member_of' in node) {
+      columns.add(node.member_of.column)
+      tables.add(node.member_of.table)
+    }
+  }
+
+  visit(condition)
+  return { columns: Array.from(columns), tables: Array.from(tables) }
+}
+
+function compileCondition(
+  condition: PolicyCondition,
+  identity: PolicyIdentity,
+  params: PolicyScalar[],
+  depth: number
+): string {
+  if (depth > MAX_POLICY_DEPTH) {
+    throw new Error(`Row policy is nested too deeply (max depth ${MAX_POLICY_DEPTH})`)
+  }
+
+  if ('allow' in condition) {
+    return condition.allow ? '1 = 1' : '1 = 0'
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const children = 'all' in condition ? condition.all : condition.any
+    // Empty groups follow the usual identities: all([]) is true, any([]) is false
+    if (children.length === 0) {
+      return 'all' in condition ? '1 = 1' : '1 = 0'
+    }
+    const joiner = 'all' in condition ? ' AND ' : ' OR '
+    return `(${children
+      .map((child) => compileCondition(child, identity, params, depth + 1))
+      .join(joiner)})`
+  }
+
+  if ('not' in condition) {
+    return `NOT (${compileCondition(condition.not, identity, params, depth + 1)})`
+  }
+
+  if ('member_of' in condition) {
+    const { table, column, foreign_column, user_column } = condition.member_of
+    const safeTable = validateAndEscapeTableName(table)
+    const safeColumn = validateAndEscapeColumnName(column)
+    const safeForeignColumn = validateAndEscapeColumnName(foreign_column || column)
+    const safeUserColumn = validateAndEscapeColumnName(user_column || 'user_id')
+    params.push(identity.userId ?? null)
+    return `${safeColumn} IN (SELECT ${safeForeignColumn} FROM ${safeTable} WHERE ${safeUserColumn} = ?)`
+  }
+
+  // Comparison: the left side is either a row column or a caller attribute
+  let left: string
+  if ('column' in condition) {
+    left = validateAndEscapeColumnName(condition.column)
+  } else {
+    left = '?'
+    params.push(resolveIdentityField(condition.auth, identity))
+  }
+
+  return compileComparison(left, condition.op, condition.value, identity, params)
+}
+
+function compileComparison(
+  left: string,
+  op: PolicyComparisonOperator,
+  value: PolicyValue | undefined,
+  identity: PolicyIdentity,
+  params: PolicyScalar[]
+): string {
+  if (op === 'is_null' || op === 'is_not_null') {
+    return `${left} ${SQL_OPERATORS[op]}`
+  }
+
+  if (op === 'in' || op === 'not_in') {
+    if (!Array.isArray(value)) {
+      throw new Error(`Row policy operator '${op}' requires an array value`)
+    }
+    if (value.length === 0) {
+      return op === 'in' ? '1 = 0' : '1 = 1'
+    }
+    params.push(...value)
+    return `${left} ${op === 'in' ? 'IN' : 'NOT IN'} (${value.map(() => '?').join(', ')})`
+  }
+
+  if (Array.isArray(value)) {
+    throw new Error(`Row policy operator '${op}' does not accept an array value`)
+  }
+
+  if (!(op in SQL_OPERATORS)) {
+    throw new Error(`Unsupported row policy operator: ${op}`)
+  }
+
+  params.push(resolveValue(value, identity))
+  return `${left} ${SQL_OPERATORS[op]} ?`
+}
+
+function resolveValue(value: PolicyValue | undefined, identity: PolicyIdentity): PolicyScalar {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return resolveIdentityField(value.auth, identity)
+  }
+  return (value as PolicyScalar | undefined) ?? null
+}
+
+function resolveIdentityField(field: PolicyIdentityField, identity: PolicyIdentity): PolicyScalar {
+  switch (field) {
+    case 'user_id':
+      return identity.userId ?? null
+    case 'role':
+      return identity.role ?? null
+    default:
+      throw new Error(`Unknown identity field: ${field}`)
+  }
+}
+
+// JSON columns arrive parsed in row images; bind them as the stored text
+function toPolicyScalar(value: unknown): PolicyScalar {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value as PolicyScalar
+}
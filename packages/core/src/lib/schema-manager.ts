@@ -1,5 +1,6 @@
 import type { D1Database } from '../types/cloudflare'
 import type { CountResult, TableInfo } from '../types/database'
+import { FULL_TEXT_TABLE_PREFIX, isFullTextTable } from './full-text-search'
 import type { SchemaSnapshotManager } from './schema-snapshot'
 import {
   validateAndEscapeColumnName,
@@ -60,6 +61,11 @@ export class SchemaManager {
     validateNotSystemTable(tableName, SYSTEM_TABLES)
     const safeTableName = validateAndEscapeTableName(tableName)
 
+    // Full-text search shadow tables are managed internally
+    if (isFullTextTable(tableName)) {
+      throw new Error(`Table names starting with '${FULL_TEXT_TABLE_PREFIX}' are reserved`)
+    }
+
     // Build CREATE TABLE statement
     const columnDefs = columns
       .map((col) => {
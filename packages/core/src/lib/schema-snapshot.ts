@@ -14,6 +14,7 @@ import type {
   TableInfo,
 } from '../types/database'
 import { getCurrentDateTimeISO } from './datetime-utils'
+import { isFullTextTable } from './full-text-search'
 import type { IndexInfo } from './index-manager'
 import { generateId } from './utils'
 
@@ -59,6 +60,9 @@ export class SchemaSnapshotManager {
 
     for (const table of result.results) {
       const tableInfo = table as TableInfo
+      // FTS5 shadow tables are rebuilt from their configuration, not snapshotted
+      if (isFullTextTable(tableInfo.name)) continue
+
       const columnsResult = await this.db.prepare(`PRAGMA table_info("${tableInfo.name}")`).all()
 
       const foreignKeysResult = await this.db
@@ -431,7 +435,10 @@ export class SchemaSnapshotManager {
         .all()
 
       // Sort tables for deletion in reverse dependency order
-      const tableNames = currentTables.results.map((t: Record<string, unknown>) => t.name as string)
+      // FTS5 shadow tables are left in place so full-text indexes keep working after a restore
+      const tableNames = currentTables.results
+        .map((t: Record<string, unknown>) => t.name as string)
+        .filter((name) => !isFullTextTable(name))
       const deletionOrder = this.sortTablesForDeletion(tableNames)
 
       // Add DROP statements in correct order
@@ -0,0 +1,190 @@
+/**
+ * Sandbox for admin-written JavaScript
+ * Scripts run in QuickJS compiled to WebAssembly, inside the Worker but isolated from it: they
+ * get a JSON copy of their input, `reject()` and a `console` whose output is captured, and
+ * nothing else (no fetch, no bindings, no timers). Every run has a fresh context with a time
+ * and memory limit.
+ */
+import RELEASE_SYNC from '@jitl/quickjs-wasmfile-release-sync'
+import quickjsWasm from '@jitl/quickjs-wasmfile-release-sync/wasm'
+import {
+  newQuickJSWASMModuleFromVariant,
+  newVariant,
+  type QuickJSContext,
+  type QuickJSHandle,
+  type QuickJSWASMModule,
+  shouldInterruptAfterDeadline,
+} from 'quickjs-emscripten-core'
+
+export type SandboxLogLevel = 'log' | 'info' | 'warn' | 'error'
+
+export interface SandboxLogEntry {
+  level: SandboxLogLevel
+  message: string
+}
+
+export type SandboxOutcome =
+  | { status: 'ok'; value: unknown; ctx: unknown; logs: SandboxLogEntry[]; durationMs: number }
+  | {
+      status: 'rejected' | 'error' | 'timeout'
+      message: string
+      logs: SandboxLogEntry[]
+      durationMs: number
+    }
+
+export interface SandboxOptions {
+  timeoutMs: number
+  memoryLimitBytes?: number
+}
+
+export const MAX_SCRIPT_LENGTH = 20_000
+const DEFAULT_MEMORY_LIMIT_BYTES = 16 * 1024 * 1024
+const MAX_STACK_SIZE_BYTES = 512 * 1024
+const MAX_LOG_ENTRIES = 50
+const MAX_LOG_MESSAGE_LENGTH = 1000
+const LOG_LEVELS: readonly SandboxLogLevel[] = ['log', 'info', 'warn', 'error']
+
+// The WebAssembly module is instantiated once per isolate
+let quickjs: Promise<QuickJSWASMModule> | undefined
+
+function loadQuickJS(): Promise<QuickJSWASMModule> {
+  quickjs ??= newQuickJSWASMModuleFromVariant(newVariant(RELEASE_SYNC, { wasmModule: quickjsWasm }))
+  return quickjs
+}
+
+// The script is the body of a function of `ctx`; what it returns and what it left in `ctx`
+// come back as JSON. `reject` throws a marker object so that it can be told from other errors.
+function wrapScript(source: string): string {
+  return `(() => {
+  const ctx = JSON.parse(globalThis.__input)
+  const reject = (message) => {
+    throw { __rejected: true, message: String(message ?? 'Rejected') }
+  }
+  const value = (function (ctx, reject) {
+${source}
+  })(ctx, reject)
+  return JSON.stringify({ value: value === undefined ? null : value, ctx })
+})()`
+}
+
+/**
+ * Check that a script compiles; returns the syntax error, or null
+ */
+export async function checkScriptSyntax(source: string): Promise<string | null> {
+  const vm = (await loadQuickJS()).newContext()
+  try {
+    const result = vm.evalCode(wrapScript(source), 'script.js', { compileOnly: true })
+    if (result.error) {
+      const error = vm.dump(result.error)
+      result.error.dispose()
+      return describeError(error)
+    }
+    result.value.dispose()
+    return null
+  } finally {
+    vm.dispose()
+  }
+}
+
+/**
+ * Run a script with `ctx` as input
+ */
+export async function runScript(
+  source: string,
+  ctx: unknown,
+  options: SandboxOptions
+): Promise<SandboxOutcome> {
+  const runtime = (await loadQuickJS()).newRuntime()
+  runtime.setMemoryLimit(options.memoryLimitBytes ?? DEFAULT_MEMORY_LIMIT_BYTES)
+  runtime.setMaxStackSize(MAX_STACK_SIZE_BYTES)
+  const vm = runtime.newContext()
+  const logs: SandboxLogEntry[] = []
+  const startedAt = Date.now()
+
+  try {
+    installConsole(vm, logs)
+    vm.newString(JSON.stringify(ctx ?? null)).consume((input) =>
+      vm.setProp(vm.global, '__input', input)
+    )
+
+    // Checked regularly while the script runs
+    runtime.setInterruptHandler(shouldInterruptAfterDeadline(startedAt + options.timeoutMs))
+    const result = vm.evalCode(wrapScript(source), 'script.js')
+    const durationMs = Date.now() - startedAt
+
+    if (result.error) {
+      const error = vm.dump(result.error)
+      result.error.dispose()
+
+      if (error && typeof error === 'object' && (error as { __rejected?: boolean }).__rejected) {
+        return {
+          status: 'rejected',
+          message: (error as { message: string }).message,
+          logs,
+          durationMs,
+        }
+      }
+      if (isInterrupt(error)) {
+        return {
+          status: 'timeout',
+          message: `Script exceeded its time limit of ${options.timeoutMs} ms`,
+          logs,
+          durationMs,
+        }
+      }
+      return { status: 'error', message: describeError(error), logs, durationMs }
+    }
+
+    const output = JSON.parse(vm.dump(result.value) as string) as { value: unknown; ctx: unknown }
+    result.value.dispose()
+    return { status: 'ok', value: output.value, ctx: output.ctx, logs, durationMs }
+  } catch (error) {
+    // Failures of the sandbox itself, such as running out of memory while converting values
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      logs,
+      durationMs: Date.now() - startedAt,
+    }
+  } finally {
+    vm.dispose()
+    runtime.dispose()
+  }
+}
+
+// console.log/info/warn/error append to the captured logs, within limits
+function installConsole(vm: QuickJSContext, logs: SandboxLogEntry[]): void {
+  const consoleHandle = vm.newObject()
+  for (const level of LOG_LEVELS) {
+    vm.newFunction(level, (...args: QuickJSHandle[]) => {
+      if (logs.length < MAX_LOG_ENTRIES) {
+        const message = args
+          .map((arg) => {
+            const value = vm.dump(arg)
+            return typeof value === 'string' ? value : JSON.stringify(value)
+          })
+          .join(' ')
+        logs.push({ level, message: message.slice(0, MAX_LOG_MESSAGE_LENGTH) })
+      }
+    }).consume((fn) => vm.setProp(consoleHandle, level, fn))
+  }
+  vm.setProp(vm.global, 'console', consoleHandle)
+  consoleHandle.dispose()
+}
+
+function isInterrupt(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    (error as { name?: string }).name === 'InternalError' &&
+    (error as { message?: string }).message === 'interrupted'
+  )
+}
+
+function describeError(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const { name, message } = error as { name?: string; message: string }
+    return name ? `${name}: ${message}` : message
+  }
+  return typeof error === 'string' ? error : JSON.stringify(error)
+}
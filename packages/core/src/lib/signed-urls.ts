@@ -0,0 +1,310 @@
+/**
+ * Signed storage URLs
+ * A signed URL lets whoever holds it download one file, or upload one file, without an auth
+ * header until it expires. The URL carries the object key, the action, the allowed content
+ * type and size of uploads and the expiry, with an HMAC of all of them under the server secret,
+ * so none of them can be changed. Every issued URL is also recorded by its id, which lets
+ * admins list and revoke them before they expire.
+ */
+import type { D1Database } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import { generateId } from './utils'
+
+export type SignedUrlAction = 'download' | 'upload'
+
+export const DEFAULT_SIGNED_URL_EXPIRY_SECONDS = 60 * 60
+export const MAX_SIGNED_URL_EXPIRY_SECONDS = 7 * 24 * 60 * 60
+
+// Versioned prefix of the signed string, which also keeps these signatures apart from other
+// uses of the secret
+const SIGNATURE_VERSION = 'vibebase-storage-url-v1'
+
+export interface SignedUrlGrant {
+  id: string
+  object_key: string
+  action: SignedUrlAction
+  content_type: string | null // Uploads must be sent with this Content-Type; any when null
+  max_size: number | null // Largest upload in bytes; no limit when null
+  expires_at: string
+  created_by: string | null
+  created_at: string
+  revoked_at: string | null
+}
+
+export interface SignedUrlInput {
+  key: string
+  action: SignedUrlAction
+  contentType?: string | null
+  maxSize?: number | null
+  expiresIn?: number // Seconds
+  createdBy?: string | null
+}
+
+// What a signed URL carries besides the key, as query parameters
+export interface SignedUrlParams {
+  id: string
+  expires: number // Unix seconds
+  contentType: string | null
+  maxSize: number | null
+  signature: string
+}
+
+export type SignedUrlVerification =
+  | { valid: true; grant: SignedUrlGrant }
+  | { valid: false; reason: string }
+
+/**
+ * Path of the signed URL of an object, with its query string
+ */
+export function buildSignedUrlPath(key: string, params: SignedUrlParams): string {
+  const query = new URLSearchParams({ id: params.id, expires: String(params.expires) })
+  if (params.contentType !== null) query.set('content_type', params.contentType)
+  if (params.maxSize !== null) query.set('max_size', String(params.maxSize))
+  query.set('sig', params.signature)
+  return `/api/storage/signed/${encodeURIComponent(key)}?${query}`
+}
+
+/**
+ * Read the parameters of a signed URL from its query string
+ * Returns null when one is missing or malformed
+ */
+export function parseSignedUrlParams(query: Record<string, string>): SignedUrlParams | null {
+  const expires = Number(query.expires)
+  const maxSize = query.max_size === undefined ? null : Number(query.max_size)
+  if (!query.id || !query.sig || !Number.isInteger(expires)) return null
+  if (maxSize !== null && !Number.isInteger(maxSize)) return null
+
+  return {
+    id: query.id,
+    expires,
+    contentType: query.content_type ?? null,
+    maxSize,
+    signature: query.sig,
+  }
+}
+
+/**
+ * Check the expiry and size limit of a signed URL to be issued
+ * Returns the problem, or null when the input is valid
+ */
+export function checkSignedUrlInput(input: SignedUrlInput): string | null {
+  const expiresIn = input.expiresIn ?? DEFAULT_SIGNED_URL_EXPIRY_SECONDS
+  if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_SIGNED_URL_EXPIRY_SECONDS) {
+    return `expires_in must be between 1 and ${MAX_SIGNED_URL_EXPIRY_SECONDS} seconds`
+  }
+  if (input.maxSize !== undefined && input.maxSize !== null) {
+    if (input.action !== 'upload') return 'max_size only applies to uploads'
+    if (!Number.isInteger(input.maxSize) || input.maxSize < 1) {
+      return 'max_size must be a positive number of bytes'
+    }
+  }
+  return null
+}
+
+/**
+ * Delete the grants that have expired; their URLs fail verification on their own
+ */
+export async function deleteExpiredSignedUrls(db: D1Database): Promise<number> {
+  const result = await db
+    .prepare('DELETE FROM storage_signed_urls WHERE expires_at <= ?')
+    .bind(getCurrentDateTimeISO())
+    .run()
+  return result.meta.changes || 0
+}
+
+/**
+ * Issues, verifies and revokes signed storage URLs
+ */
+export class SignedUrlManager {
+  constructor(
+    private db: D1Database,
+    private secret: string
+  ) {}
+
+  /**
+   * Record a new grant and sign it
+   */
+  async create(input: SignedUrlInput): Promise<{ grant: SignedUrlGrant; params: SignedUrlParams }> {
+    const invalid = checkSignedUrlInput(input)
+    if (invalid) throw new Error(invalid)
+
+    const expiresIn = input.expiresIn ?? DEFAULT_SIGNED_URL_EXPIRY_SECONDS
+    const expires = Math.floor(Date.now() / 1000) + expiresIn
+    const grant: SignedUrlGrant = {
+      id: generateId(),
+      object_key: input.key,
+      action: input.action,
+      // Downloads are served with the stored content type
+      content_type: input.action === 'upload' ? (input.contentType ?? null) : null,
+      max_size: input.maxSize ?? null,
+      expires_at: new Date(expires * 1000).toISOString(),
+      created_by: input.createdBy ?? null,
+      created_at: getCurrentDateTimeISO(),
+      revoked_at: null,
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO storage_signed_urls (id, object_key, action, content_type, max_size, expires_at, created_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        grant.id,
+        grant.object_key,
+        grant.action,
+        grant.content_type,
+        grant.max_size,
+        grant.expires_at,
+        grant.created_by,
+        grant.created_at
+      )
+      .run()
+
+    const unsigned = {
+      id: grant.id,
+      expires,
+      contentType: grant.content_type,
+      maxSize: grant.max_size,
+    }
+    const signature = await this.sign(grant.object_key, grant.action, unsigned)
+    return { grant, params: { ...unsigned, signature } }
+  }
+
+  /**
+   * Check that a URL was signed by this server for this key and action, has not expired and
+   * has not been revoked
+   */
+  async verify(
+    key: string,
+    action: SignedUrlAction,
+    params: SignedUrlParams
+  ): Promise<SignedUrlVerification> {
+    const validSignature = await this.verifySignature(key, action, params)
+    if (!validSignature) {
+      return { valid: false, reason: 'Invalid signature' }
+    }
+    if (params.expires * 1000 < Date.now()) {
+      return { valid: false, reason: 'Signed URL has expired' }
+    }
+
+    const grant = await this.get(params.id)
+    if (!grant) {
+      return { valid: false, reason: 'Signed URL is no longer valid' }
+    }
+    if (grant.revoked_at) {
+      return { valid: false, reason: 'Signed URL has been revoked' }
+    }
+    return { valid: true, grant }
+  }
+
+  /**
+   * Get one grant
+   */
+  async get(id: string): Promise<SignedUrlGrant | null> {
+    return this.db
+      .prepare('SELECT * FROM storage_signed_urls WHERE id = ?')
+      .bind(id)
+      .first<SignedUrlGrant>()
+  }
+
+  /**
+   * List grants that have not expired yet, newest first, optionally of one object or creator
+   */
+  async list(
+    options: { key?: string; createdBy?: string; limit?: number } = {}
+  ): Promise<SignedUrlGrant[]> {
+    const conditions = ['expires_at > ?']
+    const params: unknown[] = [getCurrentDateTimeISO()]
+    if (options.key) {
+      conditions.push('object_key = ?')
+      params.push(options.key)
+    }
+    if (options.createdBy) {
+      conditions.push('created_by = ?')
+      params.push(options.createdBy)
+    }
+
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM storage_signed_urls WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .bind(...params, options.limit ?? 100)
+      .all<SignedUrlGrant>()
+    return result.results || []
+  }
+
+  /**
+   * Revoke a grant, so its URL stops working right away
+   * Returns false when there is no such grant
+   */
+  async revoke(id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('UPDATE storage_signed_urls SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?')
+      .bind(getCurrentDateTimeISO(), id)
+      .run()
+    return (result.meta.changes || 0) > 0
+  }
+
+  private async sign(
+    key: string,
+    action: SignedUrlAction,
+    params: Omit<SignedUrlParams, 'signature'>
+  ): Promise<string> {
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      await this.importKey(),
+      signedString(key, action, params)
+    )
+    return Array.from(new Uint8Array(signature))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('')
+  }
+
+  // crypto.subtle.verify compares in constant time
+  private async verifySignature(
+    key: string,
+    action: SignedUrlAction,
+    params: SignedUrlParams
+  ): Promise<boolean> {
+    const pairs = /^[0-9a-f]{64}$/.test(params.signature) ? params.signature.match(/../g) : null
+    if (!pairs) return false
+    const bytes = new Uint8Array(pairs.map((pair) => parseInt(pair, 16)))
+
+    return crypto.subtle.verify(
+      'HMAC',
+      await this.importKey(),
+      bytes,
+      signedString(key, action, params)
+    )
+  }
+
+  private importKey(): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    )
+  }
+}
+
+// Encoded as a JSON array, so no field can run into the next
+function signedString(
+  key: string,
+  action: SignedUrlAction,
+  params: Omit<SignedUrlParams, 'signature'>
+): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      SIGNATURE_VERSION,
+      params.id,
+      action,
+      key,
+      params.contentType,
+      params.maxSize,
+      params.expires,
+    ])
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * Soft delete for user tables
+ * When enabled, deleting a record sets its `deleted_at` column instead of removing the row;
+ * deleted rows are hidden from reads until they are restored or purged from the trash
+ */
+import type { D1Database } from '../types/cloudflare'
+import { validateAndEscapeColumnName, validateAndEscapeTableName } from './sql-utils'
+import { type TableSetting, TableSettingStore } from './table-settings'
+
+export const SOFT_DELETE_COLUMN = 'deleted_at'
+
+export type SoftDeleteConfig = TableSetting
+
+/**
+ * Manages the soft delete setting of tables and the condition hiding deleted rows
+ */
+export class SoftDeleteManager {
+  private settings: TableSettingStore
+
+  constructor(private db: D1Database) {
+    this.settings = new TableSettingStore(db, 'table_soft_deletes')
+  }
+
+  /**
+   * Get the soft delete setting of a table, or null when deletes are permanent
+   */
+  async getConfig(tableName: string): Promise<SoftDeleteConfig | null> {
+    return this.settings.get(tableName)
+  }
+
+  /**
+   * Check if deletes on a table are soft deletes
+   */
+  async isEnabled(tableName: string): Promise<boolean> {
+    return this.settings.isEnabled(tableName)
+  }
+
+  /**
+   * Condition hiding soft-deleted rows, or null when the table has no soft delete
+   * The column is qualified with the table name so the condition also works in joins
+   */
+  async buildVisibleCondition(tableName: string): Promise<string | null> {
+    if (!(await this.isEnabled(tableName))) return null
+    return `${validateAndEscapeTableName(tableName)}.${validateAndEscapeColumnName(SOFT_DELETE_COLUMN)} IS NULL`
+  }
+
+  /**
+   * Enable soft delete, adding the `deleted_at` column (and an index on it) when missing
+   */
+  async enable(tableName: string): Promise<void> {
+    const safeTableName = validateAndEscapeTableName(tableName)
+    const safeColumn = validateAndEscapeColumnName(SOFT_DELETE_COLUMN)
+    const columns = await this.db.prepare(`PRAGMA table_info(${safeTableName})`).all()
+    const hasColumn = (columns.results as { name: string }[]).some(
+      (column) => column.name === SOFT_DELETE_COLUMN
+    )
+
+    await this.settings.enable(tableName, [
+      ...(hasColumn
+        ? []
+        : [this.db.prepare(`ALTER TABLE ${safeTableName} ADD COLUMN ${safeColumn} DATETIME`)]),
+      this.db.prepare(
+        `CREATE INDEX IF NOT EXISTS ${validateAndEscapeTableName(`idx_${tableName}_${SOFT_DELETE_COLUMN}`)} ON ${safeTableName} (${safeColumn})`
+      ),
+    ])
+  }
+
+  /**
+   * Disable soft delete; deletes become permanent again
+   * The trash must be empty, otherwise deleted rows would silently reappear
+   */
+  async disable(tableName: string): Promise<void> {
+    if (await this.isEnabled(tableName)) {
+      const safeTableName = validateAndEscapeTableName(tableName)
+      const safeColumn = validateAndEscapeColumnName(SOFT_DELETE_COLUMN)
+      const trashed = await this.db
+        .prepare(`SELECT COUNT(*) as count FROM ${safeTableName} WHERE ${safeColumn} IS NOT NULL`)
+        .first<{ count: number }>()
+      if (trashed && trashed.count > 0) {
+        throw new Error(
+          `Cannot disable soft delete on '${tableName}' while the trash holds ${trashed.count} records`
+        )
+      }
+    }
+
+    await this.removeConfig(tableName)
+  }
+
+  /**
+   * Forget the setting of a table without checking its trash (used when the table is dropped)
+   */
+  async removeConfig(tableName: string): Promise<void> {
+    await this.settings.disable(tableName)
+  }
+}
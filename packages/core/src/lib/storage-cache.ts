@@ -0,0 +1,189 @@
+/**
+ * Storage HTTP caching
+ * File content is served with its ETag and upload date, so clients revalidate it with
+ * If-None-Match or If-Modified-Since and get a 304 when it has not changed, and fetch byte ranges
+ * of it to seek in media or resume downloads. Its Cache-Control is the file's own, else that of
+ * the longest matching prefix in `storage_cache_rules`, else DEFAULT_CACHE_CONTROL.
+ */
+import type { D1Database, R2Object } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import { generateId } from './utils'
+
+// Files are behind authentication, so shared caches must not keep them; browsers keep them and
+// revalidate them on every use
+export const DEFAULT_CACHE_CONTROL = 'private, no-cache'
+
+const MAX_CACHE_CONTROL_LENGTH = 256
+const MAX_PREFIX_LENGTH = 1024
+
+export interface ByteRange {
+  offset: number
+  length: number
+}
+
+export interface StorageCacheRule {
+  id: string
+  prefix: string
+  cache_control: string
+  created_at: string
+  updated_at: string
+}
+
+type Validators = Pick<R2Object, 'httpEtag' | 'uploaded'>
+
+/**
+ * Byte range asked for by a Range header, for an object of `size` bytes
+ * Returns null when the whole object should be sent: no header, a header that is not a single
+ * `bytes=` range (several ranges are answered with the whole object), or a malformed one.
+ * Returns 'unsatisfiable' when the range starts past the end of the object
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number
+): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) return null
+  const [, first, last] = match
+  if (!first && !last) return null
+
+  // bytes=-500 is the last 500 bytes
+  if (!first) {
+    const suffix = Number(last)
+    if (suffix === 0 || size === 0) return 'unsatisfiable'
+    const offset = Math.max(0, size - suffix)
+    return { offset, length: size - offset }
+  }
+
+  const offset = Number(first)
+  if (offset >= size) return 'unsatisfiable'
+  const end = last ? Math.min(Number(last), size - 1) : size - 1
+  if (end < offset) return null
+  return { offset, length: end - offset + 1 }
+}
+
+// Dates in HTTP headers have a precision of one second
+const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000)
+
+/**
+ * Whether a conditional GET can be answered with 304 Not Modified
+ * If-None-Match is compared weakly and, when present, If-Modified-Since is ignored
+ */
+export function isNotModified(headers: Headers, object: Validators): boolean {
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true
+    const etag = object.httpEtag.replace(/^W\//, '')
+    return ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    return !Number.isNaN(since) && toSeconds(object.uploaded) <= Math.floor(since / 1000)
+  }
+  return false
+}
+
+/**
+ * Whether the Range header of a request may be honoured under its If-Range header, which holds
+ * either an ETag (compared strongly) or the Last-Modified date of the copy the client has
+ */
+export function ifRangeMatches(ifRange: string, object: Validators): boolean {
+  const value = ifRange.trim()
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !value.startsWith('W/') && value === object.httpEtag
+  }
+  const date = Date.parse(value)
+  return !Number.isNaN(date) && Math.floor(date / 1000) === toSeconds(object.uploaded)
+}
+
+/**
+ * Check a Cache-Control value set on a file or a prefix
+ * Returns the problem, or null when the value is valid
+ */
+export function checkCacheControl(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return 'cache_control must be a non-empty string'
+  }
+  if (value.length > MAX_CACHE_CONTROL_LENGTH || !/^[\x20-\x7e]+$/.test(value)) {
+    return `cache_control must be at most ${MAX_CACHE_CONTROL_LENGTH} printable ASCII characters`
+  }
+  return null
+}
+
+/**
+ * Check the key prefix of a cache rule
+ */
+export function checkCachePrefix(value: unknown): string | null {
+  if (typeof value !== 'string' || value === '' || value.length > MAX_PREFIX_LENGTH) {
+    return `prefix must be a string of 1 to ${MAX_PREFIX_LENGTH} characters`
+  }
+  return null
+}
+
+/**
+ * Reads and changes the Cache-Control rules of key prefixes
+ */
+export class StorageCacheRuleManager {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Cache-Control of the longest prefix of a key that has a rule, or null when none has
+   */
+  async getCacheControl(key: string): Promise<string | null> {
+    const result = await this.db
+      .prepare(
+        `SELECT cache_control FROM storage_cache_rules
+         WHERE substr(?, 1, length(prefix)) = prefix
+         ORDER BY length(prefix) DESC LIMIT 1`
+      )
+      .bind(key)
+      .first<{ cache_control: string }>()
+    return result?.cache_control ?? null
+  }
+
+  /**
+   * List the rules by prefix
+   */
+  async listRules(): Promise<StorageCacheRule[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM storage_cache_rules ORDER BY prefix')
+      .all<StorageCacheRule>()
+    return result.results || []
+  }
+
+  /**
+   * Create the rule of a prefix or change its Cache-Control
+   */
+  async setRule(prefix: string, cacheControl: string): Promise<StorageCacheRule> {
+    const now = getCurrentDateTimeISO()
+    await this.db
+      .prepare(
+        `INSERT INTO storage_cache_rules (id, prefix, cache_control, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(prefix) DO UPDATE SET
+           cache_control = excluded.cache_control,
+           updated_at = excluded.updated_at`
+      )
+      .bind(generateId(), prefix, cacheControl, now, now)
+      .run()
+
+    const rule = await this.db
+      .prepare('SELECT * FROM storage_cache_rules WHERE prefix = ?')
+      .bind(prefix)
+      .first<StorageCacheRule>()
+    if (!rule) throw new Error(`Cache rule of '${prefix}' was not saved`)
+    return rule
+  }
+
+  /**
+   * Remove a rule. Returns false when it does not exist
+   */
+  async deleteRule(id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM storage_cache_rules WHERE id = ?')
+      .bind(id)
+      .run()
+    return (result.meta.changes || 0) > 0
+  }
+}
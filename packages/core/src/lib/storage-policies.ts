@@ -0,0 +1,145 @@
+/**
+ * Storage bucket policies
+ * Objects are grouped into buckets by the first segment of their key (`avatars/u1.png` is in
+ * `avatars`), and each bucket has an access policy, as tables do in `table_policies`. The end
+ * user who uploads an object is recorded as its owner in the object's custom metadata. Admins
+ * and API keys are not held to these policies.
+ */
+import type { D1Database } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import { generateId } from './utils'
+
+// public: every user reads every object, and changes only their own
+// owner: users read and change only their own objects
+// private: end users have no access; only admins and API keys
+export type BucketAccessPolicy = 'public' | 'owner' | 'private'
+
+export type StorageOperation = 'read' | 'write'
+
+export const BUCKET_ACCESS_POLICIES: BucketAccessPolicy[] = ['public', 'owner', 'private']
+
+// Policy of buckets without a row, and of objects at the root of the storage
+export const DEFAULT_BUCKET_POLICY: BucketAccessPolicy = 'owner'
+
+// Custom metadata key holding the id of the user who owns an object
+export const OWNER_METADATA_KEY = 'ownerId'
+
+export interface StorageBucket {
+  id: string
+  name: string
+  access_policy: BucketAccessPolicy
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Bucket of an object key; null for objects at the root of the storage
+ */
+export function getBucketName(key: string): string | null {
+  const separator = key.indexOf('/')
+  return separator > 0 ? key.slice(0, separator) : null
+}
+
+/**
+ * Check that a bucket name is a single key segment of letters, digits, `-` and `_`
+ */
+export function isValidBucketName(name: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(name)
+}
+
+/**
+ * Whether an end user may read or write an object under a bucket policy
+ * `ownerId` is the recorded owner of the object, undefined when it does not exist or has none;
+ * creating an object that does not exist yet is a write anyone with access to the bucket may do
+ * Objects stored before owners were recorded have none: they stay readable by every user, as they
+ * were then, and only admins and API keys change them until an owner is assigned
+ */
+export function canAccessObject(
+  policy: BucketAccessPolicy,
+  operation: StorageOperation,
+  userId: string,
+  object: { exists: boolean; ownerId?: string }
+): boolean {
+  if (policy === 'private') return false
+  if (operation === 'read' && policy === 'public') return true
+  if (operation === 'read' && object.exists && object.ownerId === undefined) return true
+  if (operation === 'write' && !object.exists) return true
+  return object.ownerId !== undefined && object.ownerId === userId
+}
+
+/**
+ * Reads and changes bucket policies
+ * Policies are cached for the life of the instance, which is one request
+ */
+export class StoragePolicyManager {
+  private cache = new Map<string, BucketAccessPolicy>()
+
+  constructor(private db: D1Database) {}
+
+  /**
+   * Policy of a bucket, or of the root of the storage when the name is null
+   */
+  async getBucketPolicy(name: string | null): Promise<BucketAccessPolicy> {
+    if (name === null) return DEFAULT_BUCKET_POLICY
+
+    const cached = this.cache.get(name)
+    if (cached) return cached
+
+    const result = await this.db
+      .prepare('SELECT access_policy FROM storage_buckets WHERE name = ?')
+      .bind(name)
+      .first<{ access_policy: BucketAccessPolicy }>()
+
+    const policy = result?.access_policy || DEFAULT_BUCKET_POLICY
+    this.cache.set(name, policy)
+    return policy
+  }
+
+  /**
+   * List the buckets that have a policy
+   */
+  async listBuckets(): Promise<StorageBucket[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM storage_buckets ORDER BY name')
+      .all<StorageBucket>()
+    return result.results || []
+  }
+
+  /**
+   * Create a bucket or change its policy
+   */
+  async setBucketPolicy(name: string, policy: BucketAccessPolicy): Promise<StorageBucket> {
+    const now = getCurrentDateTimeISO()
+    await this.db
+      .prepare(
+        `INSERT INTO storage_buckets (id, name, access_policy, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET
+           access_policy = excluded.access_policy,
+           updated_at = excluded.updated_at`
+      )
+      .bind(generateId(), name, policy, now, now)
+      .run()
+    this.cache.set(name, policy)
+
+    const bucket = await this.db
+      .prepare('SELECT * FROM storage_buckets WHERE name = ?')
+      .bind(name)
+      .first<StorageBucket>()
+    if (!bucket) throw new Error(`Bucket '${name}' was not saved`)
+    return bucket
+  }
+
+  /**
+   * Remove the policy of a bucket, which falls back to the default policy
+   * Its objects are kept. Returns false when the bucket has no policy
+   */
+  async deleteBucketPolicy(name: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM storage_buckets WHERE name = ?')
+      .bind(name)
+      .run()
+    this.cache.delete(name)
+    return (result.meta.changes || 0) > 0
+  }
+}
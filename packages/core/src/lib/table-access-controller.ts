@@ -4,8 +4,18 @@ import type {
   ExecutionContext,
   TableDataResult,
 } from '../types/cloudflare'
-import { DataManager } from './data-manager'
+import type { AuditActor } from './audit-log'
+import type { BatchOperationResult, ResolvedBatchOperation } from './batch-operations'
+import { type BatchWriteOperation, DataManager } from './data-manager'
 import { ErrorHandler } from './error-handler'
+import { isFullTextTable } from './full-text-search'
+import {
+  type CompiledRowPolicy,
+  compileRowPolicy,
+  type PolicyCondition,
+  type PolicyIdentity,
+  type RowPolicyOperation,
+} from './row-policy'
 import { SYSTEM_TABLES } from './table-operations'
 import { generateId } from './utils'
 
@@ -14,6 +24,24 @@ interface TableAccessControllerEnvironment {
   WORKER_DOMAIN?: string
 }
 
+export interface RowPolicy {
+  id: string
+  table_name: string
+  operation: RowPolicyOperation
+  condition: PolicyCondition
+  created_at: string
+  updated_at: string
+}
+
+interface RowPolicyRecord {
+  id: string
+  table_name: string
+  operation: RowPolicyOperation
+  condition: string
+  created_at: string
+  updated_at: string
+}
+
 /**
  * Handles table access control and user-specific data operations
  */
@@ -24,10 +52,11 @@ export class TableAccessController {
   constructor(
     private db: D1Database,
     private env?: TableAccessControllerEnvironment,
-    private executionCtx?: ExecutionContext
+    private executionCtx?: ExecutionContext,
+    actor?: AuditActor
   ) {
     this.errorHandler = ErrorHandler.getInstance()
-    this.dataManager = new DataManager(db, env, executionCtx)
+    this.dataManager = new DataManager(db, env, executionCtx, actor)
   }
 
   /**
@@ -39,10 +68,12 @@ export class TableAccessController {
     limit = 100,
     offset = 0,
     sortBy?: string,
-    sortOrder: 'ASC' | 'DESC' = 'DESC'
+    sortOrder: 'ASC' | 'DESC' = 'DESC',
+    userRole?: string
   ): Promise<TableDataResult> {
     // Get access policy for the table
     const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'read', { userId, role: userRole })
 
     return this.dataManager.getTableDataWithAccessControl(
       tableName,
@@ -51,7 +82,8 @@ export class TableAccessController {
       limit,
       offset,
       sortBy,
-      sortOrder
+      sortOrder,
+      rowPolicy
     )
   }
 
@@ -61,12 +93,44 @@ export class TableAccessController {
   async getRecordByIdWithAccessControl(
     tableName: string,
     id: string,
-    userId?: string
+    userId?: string,
+    userRole?: string,
+    select?: string[]
   ): Promise<Record<string, unknown> | null> {
     // Get access policy for the table
     const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'read', { userId, role: userRole })
 
-    return this.dataManager.getRecordByIdWithAccessControl(tableName, id, accessPolicy, userId)
+    return this.dataManager.getRecordByIdWithAccessControl(
+      tableName,
+      id,
+      accessPolicy,
+      userId,
+      rowPolicy,
+      select
+    )
+  }
+
+  /**
+   * Get records whose column matches any of the given values, limited to rows the user may read
+   */
+  async getRecordsByColumnValuesWithAccessControl(
+    tableName: string,
+    column: string,
+    values: (string | number)[],
+    userId?: string,
+    userRole?: string,
+    limit?: number
+  ): Promise<Record<string, unknown>[]> {
+    const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'read', { userId, role: userRole })
+
+    return this.dataManager.getRecordsByColumnValues(tableName, column, values, {
+      accessPolicy,
+      userId,
+      rowPolicy,
+      limit,
+    })
   }
 
   /**
@@ -75,12 +139,23 @@ export class TableAccessController {
   async createRecordWithAccessControl(
     tableName: string,
     data: Record<string, unknown>,
-    userId?: string
+    userId?: string,
+    userRole?: string
   ): Promise<string> {
     // Get access policy for the table
     const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'insert', {
+      userId,
+      role: userRole,
+    })
 
-    return this.dataManager.createRecordWithAccessControl(tableName, data, accessPolicy, userId)
+    return this.dataManager.createRecordWithAccessControl(
+      tableName,
+      data,
+      accessPolicy,
+      userId,
+      rowPolicy
+    )
   }
 
   /**
@@ -90,12 +165,24 @@ export class TableAccessController {
     tableName: string,
     id: string,
     data: Record<string, unknown>,
-    userId?: string
+    userId?: string,
+    userRole?: string
   ): Promise<void> {
     // Get access policy for the table
     const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'update', {
+      userId,
+      role: userRole,
+    })
 
-    return this.dataManager.updateRecordWithAccessControl(tableName, id, data, accessPolicy, userId)
+    return this.dataManager.updateRecordWithAccessControl(
+      tableName,
+      id,
+      data,
+      accessPolicy,
+      userId,
+      rowPolicy
+    )
   }
 
   /**
@@ -104,14 +191,118 @@ export class TableAccessController {
   async deleteRecordWithAccessControl(
     tableName: string,
     id: string,
-    userId?: string
+    userId?: string,
+    userRole?: string
   ): Promise<void> {
     // Get access policy for the table
     const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'delete', {
+      userId,
+      role: userRole,
+    })
+
+    return this.dataManager.deleteRecordWithAccessControl(
+      tableName,
+      id,
+      accessPolicy,
+      userId,
+      rowPolicy
+    )
+  }
+
+  /**
+   * Insert many records in one batch with access control
+   */
+  async bulkCreateRecordsWithAccessControl(
+    tableName: string,
+    records: Record<string, unknown>[],
+    userId?: string,
+    userRole?: string
+  ): Promise<Record<string, unknown>[]> {
+    const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'insert', {
+      userId,
+      role: userRole,
+    })
+
+    return this.dataManager.bulkCreateRecords(tableName, records, accessPolicy, userId, rowPolicy)
+  }
+
+  /**
+   * Update many records in one batch with access control
+   */
+  async bulkUpdateRecordsWithAccessControl(
+    tableName: string,
+    updates: { id: string; data: Record<string, unknown> }[],
+    userId?: string,
+    userRole?: string
+  ): Promise<Record<string, unknown>[]> {
+    const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'update', {
+      userId,
+      role: userRole,
+    })
+
+    return this.dataManager.bulkUpdateRecords(tableName, updates, accessPolicy, userId, rowPolicy)
+  }
+
+  /**
+   * Delete many records in one batch with access control
+   */
+  async bulkDeleteRecordsWithAccessControl(
+    tableName: string,
+    ids: string[],
+    userId?: string,
+    userRole?: string
+  ): Promise<number> {
+    const accessPolicy = await this.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.getCompiledRowPolicy(tableName, 'delete', {
+      userId,
+      role: userRole,
+    })
 
-    return this.dataManager.deleteRecordWithAccessControl(tableName, id, accessPolicy, userId)
+    return this.dataManager.bulkDeleteRecords(tableName, ids, accessPolicy, userId, rowPolicy)
   }
 
+  /**
+   * Run an ordered list of writes across tables as one batch with access control
+   */
+  async executeBatchWithAccessControl(
+    operations: ResolvedBatchOperation[],
+    userId?: string,
+    userRole?: string
+  ): Promise<BatchOperationResult[]> {
+    const accessPolicies = new Map<string, 'public' | 'private'>()
+    const rowPolicies = new Map<string, CompiledRowPolicy | undefined>()
+    const policyOperations = { create: 'insert', update: 'update', delete: 'delete' } as const
+
+    const writes: BatchWriteOperation[] = []
+    for (const operation of operations) {
+      if (!accessPolicies.has(operation.table)) {
+        accessPolicies.set(operation.table, await this.getTableAccessPolicy(operation.table))
+      }
+
+      const policyKey = `${operation.table}:${operation.op}`
+      if (!rowPolicies.has(policyKey)) {
+        rowPolicies.set(
+          policyKey,
+          await this.getCompiledRowPolicy(operation.table, policyOperations[operation.op], {
+            userId,
+            role: userRole,
+          })
+        )
+      }
+
+      writes.push({
+        ...operation,
+        accessPolicy: accessPolicies.get(operation.table),
+        userId,
+        rowPolicy: rowPolicies.get(policyKey),
+      })
+    }
+
+    return this.dataManager.executeBatch(writes)
+  }
   /**
    * Get access policy for a table
    */
@@ -150,6 +341,105 @@ export class TableAccessController {
     )
   }
 
+  /**
+   * Get all row-level policies defined for a table
+   */
+  async getRowPolicies(tableName: string): Promise<RowPolicy[]> {
+    return this.errorHandler.handleOperation(
+      async () => {
+        const result = await this.db
+          .prepare('SELECT * FROM table_row_policies WHERE table_name = ? ORDER BY operation')
+          .bind(tableName)
+          .all()
+
+        return ((result.results || []) as unknown as RowPolicyRecord[]).map((record) => ({
+          ...record,
+          condition: JSON.parse(record.condition) as PolicyCondition,
+        }))
+      },
+      { operationName: 'getRowPolicies', tableName }
+    )
+  }
+
+  /**
+   * Get the row-level policy condition for one operation, if any
+   */
+  async getRowPolicy(
+    tableName: string,
+    operation: RowPolicyOperation
+  ): Promise<PolicyCondition | null> {
+    return this.errorHandler.handleOperation(
+      async () => {
+        const result = await this.db
+          .prepare(
+            'SELECT condition FROM table_row_policies WHERE table_name = ? AND operation = ?'
+          )
+          .bind(tableName, operation)
+          .first()
+
+        const condition = (result as { condition?: string } | null)?.condition
+        return condition ? (JSON.parse(condition) as PolicyCondition) : null
+      },
+      { operationName: 'getRowPolicy', tableName }
+    )
+  }
+
+  /**
+   * Compile the row-level policy for an operation against the caller's identity
+   * Returns undefined when the table only uses its public/private access policy
+   */
+  async getCompiledRowPolicy(
+    tableName: string,
+    operation: RowPolicyOperation,
+    identity: PolicyIdentity
+  ): Promise<CompiledRowPolicy | undefined> {
+    const condition = await this.getRowPolicy(tableName, operation)
+    return condition ? compileRowPolicy(condition, identity) : undefined
+  }
+
+  /**
+   * Create or replace the row-level policy for an operation
+   */
+  async setRowPolicy(
+    tableName: string,
+    operation: RowPolicyOperation,
+    condition: PolicyCondition
+  ): Promise<void> {
+    return this.errorHandler.handleOperation(
+      async () => {
+        // Compile once with an empty identity to reject malformed conditions before saving
+        compileRowPolicy(condition, {})
+
+        await this.db
+          .prepare(`
+            INSERT INTO table_row_policies (id, table_name, operation, condition, created_at, updated_at)
+            VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+            ON CONFLICT(table_name, operation) DO UPDATE SET
+              condition = excluded.condition,
+              updated_at = excluded.updated_at
+          `)
+          .bind(generateId(), tableName, operation, JSON.stringify(condition))
+          .run()
+      },
+      { operationName: 'setRowPolicy', tableName }
+    )
+  }
+
+  /**
+   * Remove the row-level policy for an operation (falls back to the table access policy)
+   */
+  async deleteRowPolicy(tableName: string, operation: RowPolicyOperation): Promise<void> {
+    return this.errorHandler.handleOperation(
+      async () => {
+        await this.db
+          .prepare('DELETE FROM table_row_policies WHERE table_name = ? AND operation = ?')
+          .bind(tableName, operation)
+          .run()
+      },
+      { operationName: 'deleteRowPolicy', tableName }
+    )
+  }
+
   /**
    * Check if user has access to a table based on policy and ownership
    */
@@ -246,6 +536,8 @@ export class TableAccessController {
         const accessibleTables = []
 
         for (const table of tablesResult.results as { name: string }[]) {
+          if (isFullTextTable(table.name)) continue
+
           const accessPolicy = await this.getTableAccessPolicy(table.name)
           const readAccess = await this.checkTableAccess(table.name, userId, 'read')
           const writeAccess = await this.checkTableAccess(table.name, userId, 'write')
@@ -1,13 +1,24 @@
 import type {
+  CursorPageResult,
   CustomDurableObjectNamespace,
   D1Database,
   ExecutionContext,
   TableDataResult,
 } from '../types/cloudflare'
 import type { CountResult, IndexColumnInfo, WhereClause } from '../types/database'
-import { DataManager } from './data-manager'
+import type { AuditActor } from './audit-log'
+import type { BatchOperationResult } from './batch-operations'
+import {
+  type AggregateQueryOptions,
+  type BatchWriteOperation,
+  type CursorQueryOptions,
+  DataManager,
+  type FullTextQueryOptions,
+} from './data-manager'
 import { ErrorHandler } from './error-handler'
 import type { IndexInfo } from './index-manager'
+import type { CompiledRowPolicy } from './row-policy'
+import { SoftDeleteManager } from './soft-delete'
 import { validateAndEscapeTableName } from './sql-utils'
 
 interface TableDataManagerEnvironment {
@@ -21,14 +32,17 @@ interface TableDataManagerEnvironment {
 export class TableDataManager {
   private errorHandler: ErrorHandler
   private dataManager: DataManager
+  private softDelete: SoftDeleteManager
 
   constructor(
     private db: D1Database,
     private env?: TableDataManagerEnvironment,
-    private executionCtx?: ExecutionContext
+    private executionCtx?: ExecutionContext,
+    actor?: AuditActor
   ) {
     this.errorHandler = ErrorHandler.getInstance()
-    this.dataManager = new DataManager(db, env, executionCtx)
+    this.dataManager = new DataManager(db, env, executionCtx, actor)
+    this.softDelete = new SoftDeleteManager(db)
   }
 
   /**
@@ -48,8 +62,13 @@ export class TableDataManager {
   /**
    * Get data from any table
    */
-  async getTableData(tableName: string, limit = 100, offset = 0): Promise<TableDataResult> {
-    return this.dataManager.getTableData(tableName, limit, offset)
+  async getTableData(
+    tableName: string,
+    limit = 100,
+    offset = 0,
+    includeDeleted = false
+  ): Promise<TableDataResult> {
+    return this.dataManager.getTableData(tableName, limit, offset, includeDeleted)
   }
 
   /**
@@ -74,7 +93,9 @@ export class TableDataManager {
     offset = 0,
     sortBy?: string,
     sortOrder: 'ASC' | 'DESC' = 'DESC',
-    whereClause?: WhereClause
+    whereClause?: WhereClause,
+    select?: string[],
+    includeDeleted = false
   ): Promise<TableDataResult> {
     return this.dataManager.getTableDataWithSortAndFilter(
       tableName,
@@ -82,10 +103,32 @@ export class TableDataManager {
       offset,
       sortBy,
       sortOrder,
-      whereClause
+      whereClause,
+      select,
+      includeDeleted
     )
   }
 
+  /**
+   * Get a page of table data using keyset pagination
+   */
+  async getTableDataWithCursor(
+    tableName: string,
+    options: CursorQueryOptions
+  ): Promise<CursorPageResult> {
+    return this.dataManager.getTableDataWithCursor(tableName, options)
+  }
+
+  /**
+   * Compute aggregates over table data
+   */
+  async getAggregates(
+    tableName: string,
+    options: AggregateQueryOptions
+  ): Promise<Record<string, unknown>[]> {
+    return this.dataManager.getAggregates(tableName, options)
+  }
+
   /**
    * Get data from table with access control and WHERE filtering
    */
@@ -97,7 +140,9 @@ export class TableDataManager {
     offset = 0,
     sortBy?: string,
     sortOrder: 'ASC' | 'DESC' = 'DESC',
-    whereClause?: WhereClause
+    whereClause?: WhereClause,
+    rowPolicy?: CompiledRowPolicy,
+    select?: string[]
   ): Promise<TableDataResult> {
     return this.dataManager.getTableDataWithAccessControlAndFilter(
       tableName,
@@ -107,15 +152,34 @@ export class TableDataManager {
       offset,
       sortBy,
       sortOrder,
-      whereClause
+      whereClause,
+      rowPolicy,
+      select
     )
   }
 
   /**
    * Get a specific record by ID
    */
-  async getRecordById(tableName: string, id: string): Promise<Record<string, unknown> | null> {
-    return this.dataManager.getRecordById(tableName, id)
+  async getRecordById(
+    tableName: string,
+    id: string,
+    select?: string[],
+    includeDeleted = false
+  ): Promise<Record<string, unknown> | null> {
+    return this.dataManager.getRecordById(tableName, id, select, includeDeleted)
+  }
+
+  /**
+   * Get records whose column matches any of the given values
+   */
+  async getRecordsByColumnValues(
+    tableName: string,
+    column: string,
+    values: (string | number)[],
+    limit?: number
+  ): Promise<Record<string, unknown>[]> {
+    return this.dataManager.getRecordsByColumnValues(tableName, column, values, { limit })
   }
 
   /**
@@ -125,6 +189,72 @@ export class TableDataManager {
     return this.dataManager.createRecordWithId(tableName, data)
   }
 
+  /**
+   * Insert many records in one batch
+   */
+  async bulkCreateRecords(
+    tableName: string,
+    records: Record<string, unknown>[]
+  ): Promise<Record<string, unknown>[]> {
+    return this.dataManager.bulkCreateRecords(tableName, records)
+  }
+
+  /**
+   * Update many records in one batch
+   */
+  async bulkUpdateRecords(
+    tableName: string,
+    updates: { id: string; data: Record<string, unknown> }[]
+  ): Promise<Record<string, unknown>[]> {
+    return this.dataManager.bulkUpdateRecords(tableName, updates)
+  }
+
+  /**
+   * Delete many records in one batch
+   */
+  async bulkDeleteRecords(tableName: string, ids: string[]): Promise<number> {
+    return this.dataManager.bulkDeleteRecords(tableName, ids)
+  }
+
+  /**
+   * Run an ordered list of writes across tables as one batch
+   */
+  async executeBatch(operations: BatchWriteOperation[]): Promise<BatchOperationResult[]> {
+    return this.dataManager.executeBatch(operations)
+  }
+
+  /**
+   * List the records in the trash of a soft delete table
+   */
+  async getTrash(tableName: string, limit = 100, offset = 0): Promise<TableDataResult> {
+    return this.dataManager.getTrash(tableName, limit, offset)
+  }
+
+  /**
+   * Move records out of the trash
+   */
+  async restoreRecords(tableName: string, ids: string[]): Promise<Record<string, unknown>[]> {
+    return this.dataManager.restoreRecords(tableName, ids)
+  }
+
+  /**
+   * Permanently delete records from the trash
+   */
+  async purgeRecords(tableName: string, ids?: string[]): Promise<number> {
+    return this.dataManager.purgeRecords(tableName, ids)
+  }
+
+  /**
+   * Bring a record back to the version recorded by an audit log entry
+   */
+  async revertRecord(
+    tableName: string,
+    id: string,
+    entryId: string
+  ): Promise<Record<string, unknown> | null> {
+    return this.dataManager.revertRecord(tableName, id, entryId)
+  }
+
   /**
    * Update a record in a table
    */
@@ -265,6 +395,12 @@ export class TableDataManager {
           }
         }
 
+        // Soft-deleted rows are never search results
+        const visibleCondition = await this.softDelete.buildVisibleCondition(tableName)
+        if (visibleCondition) {
+          whereConditions.push(visibleCondition)
+        }
+
         // Build final query
         const whereClause = whereConditions.join(' AND ')
         const tableName_escaped = validateAndEscapeTableName(tableName)
@@ -300,6 +436,13 @@ export class TableDataManager {
     )
   }
 
+  /**
+   * Full-text search over the columns indexed with FTS5, ranked by relevance
+   */
+  async searchFullText(tableName: string, options: FullTextQueryOptions): Promise<TableDataResult> {
+    return this.dataManager.searchFullText(tableName, options)
+  }
+
   /**
    * Get table row count
    */
@@ -1,4 +1,5 @@
 import type {
+  CursorPageResult,
   CustomDurableObjectNamespace,
   D1Database,
   ExecutionContext,
@@ -9,17 +10,36 @@ import type {
   ValidationResult,
 } from '../types/cloudflare'
 import type { WhereClause } from '../types/database'
+import { type AuditActor, type AuditConfig, type AuditEntry, AuditLogManager } from './audit-log'
+import type { BatchOperationResult, ResolvedBatchOperation } from './batch-operations'
+import type {
+  AggregateQueryOptions,
+  CursorQueryOptions,
+  FullTextQueryOptions,
+} from './data-manager'
 import { ErrorHandler } from './error-handler'
+import { type FullTextConfig, FullTextSearchManager } from './full-text-search'
 import type { IndexInfo } from './index-manager'
 import { IndexManager } from './index-manager'
+import { RelationExpander, type TableRelation } from './relation-expander'
+import type { PolicyCondition, RowPolicyOperation } from './row-policy'
 import type { ColumnDefinition, ColumnInfo } from './schema-manager'
 import { SchemaManager } from './schema-manager'
 import { SchemaSnapshotManager } from './schema-snapshot'
+import { type SoftDeleteConfig, SoftDeleteManager } from './soft-delete'
 import { validateAndEscapeColumnName, validateAndEscapeTableName } from './sql-utils'
-import { TableAccessController } from './table-access-controller'
+import { type RowPolicy, TableAccessController } from './table-access-controller'
 import { TableDataManager } from './table-data-manager'
 import type { LocalTableInfo } from './table-operations'
 import { SYSTEM_TABLES, TableOperations } from './table-operations'
+import {
+  type TableTrigger,
+  type TriggerContext,
+  type TriggerInput,
+  type TriggerLogEntry,
+  TriggerManager,
+  type TriggerTestResult,
+} from './table-triggers'
 import { TableValidator } from './table-validator'
 
 interface TableManagerEnvironment {
@@ -42,12 +62,18 @@ export class TableManager {
   private tableDataManager: TableDataManager
   private tableAccessController: TableAccessController
   private tableValidator: TableValidator
+  private relationExpander: RelationExpander
+  private fullTextSearch: FullTextSearchManager
+  private softDelete: SoftDeleteManager
+  private auditLog: AuditLogManager
+  private triggers: TriggerManager
 
   constructor(
     private db: D1Database,
     private systemStorage?: R2Bucket,
     private executionCtx?: ExecutionContext,
-    private env?: TableManagerEnvironment
+    private env?: TableManagerEnvironment,
+    actor?: AuditActor // Who data writes are recorded as in the audit log
   ) {
     this.errorHandler = ErrorHandler.getInstance()
 
@@ -62,9 +88,19 @@ export class TableManager {
 
     // Initialize new specialized components
     this.tableOperations = new TableOperations(db, this.schemaManager)
-    this.tableDataManager = new TableDataManager(db, env, executionCtx)
-    this.tableAccessController = new TableAccessController(db, env, executionCtx)
+    this.tableDataManager = new TableDataManager(db, env, executionCtx, actor)
+    this.tableAccessController = new TableAccessController(db, env, executionCtx, actor)
     this.tableValidator = new TableValidator(db)
+    this.relationExpander = new RelationExpander(
+      db,
+      this.tableOperations,
+      this.tableDataManager,
+      this.tableAccessController
+    )
+    this.fullTextSearch = new FullTextSearchManager(db)
+    this.softDelete = new SoftDeleteManager(db)
+    this.auditLog = new AuditLogManager(db)
+    this.triggers = new TriggerManager(db, executionCtx)
   }
 
   // =================== TABLE OPERATIONS ===================
@@ -98,10 +134,22 @@ export class TableManager {
   }
 
   /**
-   * Drop a user table
+   * Drop a user table (and its full-text index, settings, history and triggers, if any)
    */
   async dropTable(tableName: string): Promise<void> {
-    return this.tableOperations.dropTable(tableName)
+    await this.tableOperations.dropTable(tableName)
+    if (await this.fullTextSearch.getConfig(tableName)) {
+      await this.fullTextSearch.disable(tableName)
+    }
+    if (await this.softDelete.getConfig(tableName)) {
+      await this.softDelete.removeConfig(tableName)
+    }
+    if (await this.auditLog.getConfig(tableName)) {
+      await this.auditLog.removeTable(tableName)
+    }
+    if ((await this.triggers.listTriggers(tableName).catch(() => [])).length > 0) {
+      await this.triggers.removeTable(tableName)
+    }
   }
 
   // =================== DATA OPERATIONS ===================
@@ -123,8 +171,13 @@ export class TableManager {
   /**
    * Get data from any table
    */
-  async getTableData(tableName: string, limit = 100, offset = 0): Promise<TableDataResult> {
-    return this.tableDataManager.getTableData(tableName, limit, offset)
+  async getTableData(
+    tableName: string,
+    limit = 100,
+    offset = 0,
+    includeDeleted = false
+  ): Promise<TableDataResult> {
+    return this.tableDataManager.getTableData(tableName, limit, offset, includeDeleted)
   }
 
   /**
@@ -149,7 +202,9 @@ export class TableManager {
     offset = 0,
     sortBy?: string,
     sortOrder: 'ASC' | 'DESC' = 'DESC',
-    whereClause?: WhereClause
+    whereClause?: WhereClause,
+    select?: string[],
+    includeDeleted = false
   ): Promise<TableDataResult> {
     return this.tableDataManager.getTableDataWithSortAndFilter(
       tableName,
@@ -157,7 +212,9 @@ export class TableManager {
       offset,
       sortBy,
       sortOrder,
-      whereClause
+      whereClause,
+      select,
+      includeDeleted
     )
   }
 
@@ -171,10 +228,16 @@ export class TableManager {
     offset = 0,
     sortBy?: string,
     sortOrder: 'ASC' | 'DESC' = 'DESC',
-    whereClause?: WhereClause
+    whereClause?: WhereClause,
+    userRole?: string,
+    select?: string[]
   ): Promise<TableDataResult> {
-    // Get table access policy
+    // Get table access policy and any row-level read policy
     const accessPolicy = await this.tableAccessController.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.tableAccessController.getCompiledRowPolicy(tableName, 'read', {
+      userId,
+      role: userRole,
+    })
 
     return this.tableDataManager.getTableDataWithAccessControlAndFilter(
       tableName,
@@ -184,15 +247,88 @@ export class TableManager {
       offset,
       sortBy,
       sortOrder,
-      whereClause
+      whereClause,
+      rowPolicy,
+      select
     )
   }
 
+  /**
+   * Get a page of table data using keyset pagination
+   */
+  async getTableDataWithCursor(
+    tableName: string,
+    options: Omit<CursorQueryOptions, 'accessPolicy' | 'userId' | 'rowPolicy'>
+  ): Promise<CursorPageResult> {
+    return this.tableDataManager.getTableDataWithCursor(tableName, options)
+  }
+
+  /**
+   * Get a page of table data using keyset pagination with access control
+   */
+  async getTableDataWithCursorAndAccessControl(
+    tableName: string,
+    userId: string,
+    options: Omit<CursorQueryOptions, 'accessPolicy' | 'userId' | 'rowPolicy'>,
+    userRole?: string
+  ): Promise<CursorPageResult> {
+    const accessPolicy = await this.tableAccessController.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.tableAccessController.getCompiledRowPolicy(tableName, 'read', {
+      userId,
+      role: userRole,
+    })
+
+    return this.tableDataManager.getTableDataWithCursor(tableName, {
+      ...options,
+      accessPolicy,
+      userId,
+      rowPolicy,
+    })
+  }
+
+  /**
+   * Compute aggregates over table data
+   */
+  async getAggregates(
+    tableName: string,
+    options: Omit<AggregateQueryOptions, 'accessPolicy' | 'userId' | 'rowPolicy'>
+  ): Promise<Record<string, unknown>[]> {
+    return this.tableDataManager.getAggregates(tableName, options)
+  }
+
+  /**
+   * Compute aggregates over the table data a user may read
+   */
+  async getAggregatesWithAccessControl(
+    tableName: string,
+    userId: string,
+    options: Omit<AggregateQueryOptions, 'accessPolicy' | 'userId' | 'rowPolicy'>,
+    userRole?: string
+  ): Promise<Record<string, unknown>[]> {
+    const accessPolicy = await this.tableAccessController.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.tableAccessController.getCompiledRowPolicy(tableName, 'read', {
+      userId,
+      role: userRole,
+    })
+
+    return this.tableDataManager.getAggregates(tableName, {
+      ...options,
+      accessPolicy,
+      userId,
+      rowPolicy,
+    })
+  }
+
   /**
    * Get a specific record by ID
    */
-  async getRecordById(tableName: string, id: string): Promise<Record<string, unknown> | null> {
-    return this.tableDataManager.getRecordById(tableName, id)
+  async getRecordById(
+    tableName: string,
+    id: string,
+    select?: string[],
+    includeDeleted = false
+  ): Promise<Record<string, unknown> | null> {
+    return this.tableDataManager.getRecordById(tableName, id, select, includeDeleted)
   }
 
   /**
@@ -220,7 +356,8 @@ export class TableManager {
     limit = 100,
     offset = 0,
     sortBy?: string,
-    sortOrder: 'ASC' | 'DESC' = 'DESC'
+    sortOrder: 'ASC' | 'DESC' = 'DESC',
+    userRole?: string
   ): Promise<TableDataResult> {
     return this.tableAccessController.getTableDataWithAccessControl(
       tableName,
@@ -228,7 +365,8 @@ export class TableManager {
       limit,
       offset,
       sortBy,
-      sortOrder
+      sortOrder,
+      userRole
     )
   }
 
@@ -238,9 +376,17 @@ export class TableManager {
   async getRecordByIdWithAccessControl(
     tableName: string,
     id: string,
-    userId?: string
+    userId?: string,
+    userRole?: string,
+    select?: string[]
   ): Promise<Record<string, unknown> | null> {
-    return this.tableAccessController.getRecordByIdWithAccessControl(tableName, id, userId)
+    return this.tableAccessController.getRecordByIdWithAccessControl(
+      tableName,
+      id,
+      userId,
+      userRole,
+      select
+    )
   }
 
   /**
@@ -249,9 +395,15 @@ export class TableManager {
   async createRecordWithAccessControl(
     tableName: string,
     data: Record<string, unknown>,
-    userId?: string
+    userId?: string,
+    userRole?: string
   ): Promise<string> {
-    return this.tableAccessController.createRecordWithAccessControl(tableName, data, userId)
+    return this.tableAccessController.createRecordWithAccessControl(
+      tableName,
+      data,
+      userId,
+      userRole
+    )
   }
 
   /**
@@ -261,9 +413,16 @@ export class TableManager {
     tableName: string,
     id: string,
     data: Record<string, unknown>,
-    userId?: string
+    userId?: string,
+    userRole?: string
   ): Promise<void> {
-    return this.tableAccessController.updateRecordWithAccessControl(tableName, id, data, userId)
+    return this.tableAccessController.updateRecordWithAccessControl(
+      tableName,
+      id,
+      data,
+      userId,
+      userRole
+    )
   }
 
   /**
@@ -272,9 +431,106 @@ export class TableManager {
   async deleteRecordWithAccessControl(
     tableName: string,
     id: string,
-    userId?: string
+    userId?: string,
+    userRole?: string
   ): Promise<void> {
-    return this.tableAccessController.deleteRecordWithAccessControl(tableName, id, userId)
+    return this.tableAccessController.deleteRecordWithAccessControl(tableName, id, userId, userRole)
+  }
+
+  /**
+   * Insert many records in one batch (all-or-nothing)
+   */
+  async bulkCreateRecords(
+    tableName: string,
+    records: Record<string, unknown>[]
+  ): Promise<Record<string, unknown>[]> {
+    return this.tableDataManager.bulkCreateRecords(tableName, records)
+  }
+
+  /**
+   * Update many records in one batch (all-or-nothing)
+   */
+  async bulkUpdateRecords(
+    tableName: string,
+    updates: { id: string; data: Record<string, unknown> }[]
+  ): Promise<Record<string, unknown>[]> {
+    return this.tableDataManager.bulkUpdateRecords(tableName, updates)
+  }
+
+  /**
+   * Delete many records in one batch (all-or-nothing)
+   */
+  async bulkDeleteRecords(tableName: string, ids: string[]): Promise<number> {
+    return this.tableDataManager.bulkDeleteRecords(tableName, ids)
+  }
+
+  /**
+   * Insert many records in one batch with access control
+   */
+  async bulkCreateRecordsWithAccessControl(
+    tableName: string,
+    records: Record<string, unknown>[],
+    userId?: string,
+    userRole?: string
+  ): Promise<Record<string, unknown>[]> {
+    return this.tableAccessController.bulkCreateRecordsWithAccessControl(
+      tableName,
+      records,
+      userId,
+      userRole
+    )
+  }
+
+  /**
+   * Update many records in one batch with access control
+   */
+  async bulkUpdateRecordsWithAccessControl(
+    tableName: string,
+    updates: { id: string; data: Record<string, unknown> }[],
+    userId?: string,
+    userRole?: string
+  ): Promise<Record<string, unknown>[]> {
+    return this.tableAccessController.bulkUpdateRecordsWithAccessControl(
+      tableName,
+      updates,
+      userId,
+      userRole
+    )
+  }
+
+  /**
+   * Delete many records in one batch with access control
+   */
+  async bulkDeleteRecordsWithAccessControl(
+    tableName: string,
+    ids: string[],
+    userId?: string,
+    userRole?: string
+  ): Promise<number> {
+    return this.tableAccessController.bulkDeleteRecordsWithAccessControl(
+      tableName,
+      ids,
+      userId,
+      userRole
+    )
+  }
+
+  /**
+   * Run an ordered list of writes across tables as one batch (all-or-nothing)
+   */
+  async executeBatch(operations: ResolvedBatchOperation[]): Promise<BatchOperationResult[]> {
+    return this.tableDataManager.executeBatch(operations)
+  }
+
+  /**
+   * Run an ordered list of writes across tables as one batch with access control
+   */
+  async executeBatchWithAccessControl(
+    operations: ResolvedBatchOperation[],
+    userId?: string,
+    userRole?: string
+  ): Promise<BatchOperationResult[]> {
+    return this.tableAccessController.executeBatchWithAccessControl(operations, userId, userRole)
   }
 
   /**
@@ -291,6 +547,58 @@ export class TableManager {
     return this.tableAccessController.setTableAccessPolicy(tableName, policy)
   }
 
+  /**
+   * Get row-level policies for a table
+   */
+  async getRowPolicies(tableName: string): Promise<RowPolicy[]> {
+    return this.tableAccessController.getRowPolicies(tableName)
+  }
+
+  /**
+   * Create or replace the row-level policy for an operation
+   */
+  async setRowPolicy(
+    tableName: string,
+    operation: RowPolicyOperation,
+    condition: PolicyCondition
+  ): Promise<void> {
+    return this.tableAccessController.setRowPolicy(tableName, operation, condition)
+  }
+
+  /**
+   * Remove the row-level policy for an operation
+   */
+  async deleteRowPolicy(tableName: string, operation: RowPolicyOperation): Promise<void> {
+    return this.tableAccessController.deleteRowPolicy(tableName, operation)
+  }
+
+  // =================== RELATIONS ===================
+
+  /**
+   * Resolve `expand` names to the relations of a table
+   */
+  async resolveRelations(tableName: string, names: string[]): Promise<TableRelation[]> {
+    return this.relationExpander.resolveRelations(tableName, names)
+  }
+
+  /**
+   * List the relations of a table that can be expanded
+   */
+  async listRelations(tableName: string): Promise<TableRelation[]> {
+    return this.relationExpander.listRelations(tableName)
+  }
+
+  /**
+   * Embed related rows into records (without a user, related tables are read unrestricted)
+   */
+  async expandRecords(
+    records: Record<string, unknown>[],
+    relations: TableRelation[],
+    user?: { userId?: string; userRole?: string }
+  ): Promise<Record<string, unknown>[]> {
+    return this.relationExpander.expandRecords(records, relations, user)
+  }
+
   // =================== SEARCH ===================
 
   /**
@@ -312,6 +620,229 @@ export class TableManager {
     return this.tableDataManager.searchRecords(tableName, searchParams, limit, offset)
   }
 
+  /**
+   * Get the full-text search configuration of a table (null when not enabled)
+   */
+  async getFullTextConfig(tableName: string): Promise<FullTextConfig | null> {
+    return this.fullTextSearch.getConfig(tableName)
+  }
+
+  /**
+   * Enable full-text search on TEXT columns, (re)building the FTS5 index
+   */
+  async enableFullTextSearch(tableName: string, columns: string[]): Promise<void> {
+    return this.errorHandler.handleOperation(() => this.fullTextSearch.enable(tableName, columns), {
+      operationName: 'enableFullTextSearch',
+      tableName,
+    })
+  }
+
+  /**
+   * Disable full-text search and drop the FTS5 index
+   */
+  async disableFullTextSearch(tableName: string): Promise<void> {
+    return this.errorHandler.handleOperation(() => this.fullTextSearch.disable(tableName), {
+      operationName: 'disableFullTextSearch',
+      tableName,
+    })
+  }
+
+  /**
+   * Full-text search over table data
+   */
+  async searchFullText(
+    tableName: string,
+    options: Omit<FullTextQueryOptions, 'accessPolicy' | 'userId' | 'rowPolicy'>
+  ): Promise<TableDataResult> {
+    return this.tableDataManager.searchFullText(tableName, options)
+  }
+
+  /**
+   * Full-text search over the table data a user may read
+   */
+  async searchFullTextWithAccessControl(
+    tableName: string,
+    userId: string,
+    options: Omit<FullTextQueryOptions, 'accessPolicy' | 'userId' | 'rowPolicy'>,
+    userRole?: string
+  ): Promise<TableDataResult> {
+    const accessPolicy = await this.tableAccessController.getTableAccessPolicy(tableName)
+    const rowPolicy = await this.tableAccessController.getCompiledRowPolicy(tableName, 'read', {
+      userId,
+      role: userRole,
+    })
+
+    return this.tableDataManager.searchFullText(tableName, {
+      ...options,
+      accessPolicy,
+      userId,
+      rowPolicy,
+    })
+  }
+
+  /**
+   * Get the soft delete setting of a table (null when deletes are permanent)
+   */
+  async getSoftDeleteConfig(tableName: string): Promise<SoftDeleteConfig | null> {
+    return this.softDelete.getConfig(tableName)
+  }
+
+  /**
+   * Enable soft delete, adding the deleted_at column when missing
+   */
+  async enableSoftDelete(tableName: string): Promise<void> {
+    return this.errorHandler.handleOperation(() => this.softDelete.enable(tableName), {
+      operationName: 'enableSoftDelete',
+      tableName,
+    })
+  }
+
+  /**
+   * Disable soft delete (the trash must be empty)
+   */
+  async disableSoftDelete(tableName: string): Promise<void> {
+    return this.errorHandler.handleOperation(() => this.softDelete.disable(tableName), {
+      operationName: 'disableSoftDelete',
+      tableName,
+    })
+  }
+
+  /**
+   * List the records in the trash of a soft delete table
+   */
+  async getTrash(tableName: string, limit = 100, offset = 0): Promise<TableDataResult> {
+    return this.tableDataManager.getTrash(tableName, limit, offset)
+  }
+
+  /**
+   * Move records out of the trash (all-or-nothing)
+   */
+  async restoreRecords(tableName: string, ids: string[]): Promise<Record<string, unknown>[]> {
+    return this.tableDataManager.restoreRecords(tableName, ids)
+  }
+
+  /**
+   * Permanently delete records from the trash (the whole trash when no ids are given)
+   */
+  async purgeRecords(tableName: string, ids?: string[]): Promise<number> {
+    return this.tableDataManager.purgeRecords(tableName, ids)
+  }
+
+  /**
+   * Get the audit setting of a table (null when its changes are not recorded)
+   */
+  async getAuditConfig(tableName: string): Promise<AuditConfig | null> {
+    return this.auditLog.getConfig(tableName)
+  }
+
+  /**
+   * Start recording the change history of a table's records
+   */
+  async enableAuditLog(tableName: string): Promise<void> {
+    return this.errorHandler.handleOperation(() => this.auditLog.enable(tableName), {
+      operationName: 'enableAuditLog',
+      tableName,
+    })
+  }
+
+  /**
+   * Stop recording changes (the history recorded so far is kept)
+   */
+  async disableAuditLog(tableName: string): Promise<void> {
+    return this.errorHandler.handleOperation(() => this.auditLog.disable(tableName), {
+      operationName: 'disableAuditLog',
+      tableName,
+    })
+  }
+
+  /**
+   * Get the change history of a record, most recent change first
+   */
+  async getRecordHistory(
+    tableName: string,
+    id: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: AuditEntry[]; total: number }> {
+    return this.auditLog.getHistory(tableName, id, limit, offset)
+  }
+
+  /**
+   * Bring a record back to the version recorded by an audit log entry
+   */
+  async revertRecord(
+    tableName: string,
+    id: string,
+    entryId: string
+  ): Promise<Record<string, unknown> | null> {
+    return this.tableDataManager.revertRecord(tableName, id, entryId)
+  }
+
+  // =================== TRIGGERS ===================
+
+  /**
+   * List the triggers of a table, in the order they run
+   */
+  async listTriggers(tableName: string): Promise<TableTrigger[]> {
+    return this.triggers.listTriggers(tableName)
+  }
+
+  /**
+   * Get one trigger of a table
+   */
+  async getTrigger(tableName: string, id: string): Promise<TableTrigger | null> {
+    return this.triggers.getTrigger(tableName, id)
+  }
+
+  /**
+   * Attach a trigger to a table
+   */
+  async createTrigger(tableName: string, input: TriggerInput): Promise<TableTrigger> {
+    return this.errorHandler.handleOperation(() => this.triggers.createTrigger(tableName, input), {
+      operationName: 'createTrigger',
+      tableName,
+    })
+  }
+
+  /**
+   * Change a trigger (null when it does not exist)
+   */
+  async updateTrigger(
+    tableName: string,
+    id: string,
+    changes: Partial<TriggerInput>
+  ): Promise<TableTrigger | null> {
+    return this.errorHandler.handleOperation(
+      () => this.triggers.updateTrigger(tableName, id, changes),
+      { operationName: 'updateTrigger', tableName }
+    )
+  }
+
+  /**
+   * Remove a trigger and its log (false when it does not exist)
+   */
+  async deleteTrigger(tableName: string, id: string): Promise<boolean> {
+    return this.triggers.deleteTrigger(tableName, id)
+  }
+
+  /**
+   * Get the recorded runs of a trigger, most recent first
+   */
+  async getTriggerLogs(tableName: string, id: string, limit = 50): Promise<TriggerLogEntry[]> {
+    return this.triggers.listLogs(tableName, id, limit)
+  }
+
+  /**
+   * Run a trigger script against a sample record without writing anything
+   */
+  async testTriggerScript(
+    script: string,
+    context: TriggerContext,
+    timeoutMs?: number
+  ): Promise<TriggerTestResult> {
+    return this.triggers.testScript(script, context, timeoutMs)
+  }
+
   // =================== INDEX MANAGEMENT ===================
 
   /**
@@ -1,6 +1,7 @@
 import type { D1Database } from '../types/cloudflare'
 import type { CountResult, TableInfo } from '../types/database'
 import { ErrorHandler } from './error-handler'
+import { isFullTextTable } from './full-text-search'
 import type { ColumnDefinition, ColumnInfo, SchemaManager } from './schema-manager'
 import { validateAndEscapeTableName } from './sql-utils'
 
@@ -16,9 +17,27 @@ export const SYSTEM_TABLES = [
   'oauth_providers',
   'app_settings',
   'table_policies',
+  'table_row_policies',
+  'table_fulltext_indexes',
+  'table_soft_deletes',
+  'table_audit_settings',
+  'table_audit_log',
+  'table_triggers',
+  'table_trigger_logs',
+  'background_jobs',
+  'background_job_runs',
+  'storage_signed_urls',
+  'storage_buckets',
+  'storage_multipart_uploads',
+  'storage_multipart_parts',
+  'storage_cache_rules',
+  'storage_image_presets',
   'hooks',
   'event_queue',
+  'webhook_deliveries',
   'realtime_subscriptions',
+  'realtime_sequences',
+  'realtime_event_log',
   'custom_queries',
   'custom_query_logs',
   'push_subscriptions',
@@ -78,7 +97,12 @@ export class TableOperations {
 
         const tables: LocalTableInfo[] = []
 
-        for (const table of result.results as TableInfo[]) {
+        // FTS5 shadow tables are internal to full-text search
+        const tableInfos = (result.results as TableInfo[]).filter(
+          (table) => !isFullTextTable(table.name)
+        )
+
+        for (const table of tableInfos) {
           // Get row count for each table
           let rowCount = 0
           try {
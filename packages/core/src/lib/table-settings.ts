@@ -0,0 +1,80 @@
+/**
+ * Per-table feature switches
+ * Soft delete and the audit log are turned on for a table by a row in their own settings table
+ * (`table_name`, `created_at`). Managers are created for each request, so the switches are read
+ * once per instance and the instance keeps its cache in step with the changes it makes.
+ */
+import type { D1Database, D1PreparedStatement } from '../types/cloudflare'
+
+export type TableSettingsTable = 'table_soft_deletes' | 'table_audit_settings'
+
+export interface TableSetting {
+  table_name: string
+  created_at: string
+}
+
+/**
+ * Reads and changes one feature switch of user tables
+ */
+export class TableSettingStore {
+  private enabledTables = new Map<string, boolean>()
+
+  constructor(
+    private db: D1Database,
+    private settingsTable: TableSettingsTable
+  ) {}
+
+  /**
+   * Get the setting row of a table, or null when the feature is off
+   */
+  async get(tableName: string): Promise<TableSetting | null> {
+    try {
+      return await this.db
+        .prepare(`SELECT * FROM ${this.settingsTable} WHERE table_name = ?`)
+        .bind(tableName)
+        .first<TableSetting>()
+    } catch {
+      // Databases created before the feature existed have no settings table; it is off there
+      return null
+    }
+  }
+
+  /**
+   * Check if the feature is on for a table
+   */
+  async isEnabled(tableName: string): Promise<boolean> {
+    let enabled = this.enabledTables.get(tableName)
+    if (enabled === undefined) {
+      enabled = (await this.get(tableName)) !== null
+      this.enabledTables.set(tableName, enabled)
+    }
+    return enabled
+  }
+
+  /**
+   * Turn the feature on, running `statements` in the same batch before the switch is recorded
+   */
+  async enable(tableName: string, statements: D1PreparedStatement[] = []): Promise<void> {
+    await this.db.batch([
+      ...statements,
+      this.db
+        .prepare(
+          `INSERT INTO ${this.settingsTable} (table_name, created_at) VALUES (?, datetime('now'))
+           ON CONFLICT(table_name) DO NOTHING`
+        )
+        .bind(tableName),
+    ])
+    this.enabledTables.set(tableName, true)
+  }
+
+  /**
+   * Turn the feature off, running `statements` in the same batch
+   */
+  async disable(tableName: string, statements: D1PreparedStatement[] = []): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM ${this.settingsTable} WHERE table_name = ?`).bind(tableName),
+      ...statements,
+    ])
+    this.enabledTables.set(tableName, false)
+  }
+}
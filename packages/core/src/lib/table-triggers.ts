@@ -0,0 +1,394 @@
+/**
+ * Scripted triggers on user tables
+ * Admins attach small JavaScript functions to a table's writes. Before-triggers run inside
+ * DataManager ahead of each insert, update or delete and may change the record being written or
+ * reject the write with a message; after-triggers run once the write committed and only observe
+ * it. Scripts run in the sandbox of script-sandbox.ts with a time limit, and runs that failed or
+ * printed something are kept in a per-trigger log.
+ */
+import type { D1Database, ExecutionContext } from '../types/cloudflare'
+import type { AuditActor } from './audit-log'
+import { getCurrentDateTimeISO } from './datetime-utils'
+import { runScript, type SandboxLogEntry, type SandboxOutcome } from './script-sandbox'
+import { generateId } from './utils'
+
+export const TRIGGER_EVENTS = [
+  'before_insert',
+  'before_update',
+  'before_delete',
+  'after_write',
+] as const
+
+export type TriggerEvent = (typeof TRIGGER_EVENTS)[number]
+
+export type TriggerOperation = 'insert' | 'update' | 'delete'
+
+export const DEFAULT_TRIGGER_TIMEOUT_MS = 50
+export const MAX_TRIGGER_TIMEOUT_MS = 1000
+
+// Runs kept per trigger; older ones are removed as new ones are recorded
+const MAX_LOGS_PER_TRIGGER = 100
+
+export interface TableTrigger {
+  id: string
+  table_name: string
+  name: string
+  event: TriggerEvent
+  script: string
+  enabled: boolean
+  timeout_ms: number
+  created_at: string
+  updated_at: string
+}
+
+export interface TriggerInput {
+  name: string
+  event: TriggerEvent
+  script: string
+  enabled?: boolean
+  timeout_ms?: number
+}
+
+// What a script receives as `ctx`
+export interface TriggerContext {
+  table: string
+  operation: TriggerOperation
+  record: Record<string, unknown> | null // Data being written (before) or the row as written (after)
+  old: Record<string, unknown> | null // The row before the write; null for inserts
+  actor: AuditActor
+}
+
+export interface TriggerLogEntry {
+  id: string
+  trigger_id: string
+  table_name: string
+  event: TriggerEvent
+  record_id: string | null
+  status: SandboxOutcome['status']
+  message: string | null
+  logs: SandboxLogEntry[]
+  duration_ms: number
+  created_at: string
+}
+
+export type TriggerTestResult =
+  | Exclude<SandboxOutcome, { status: 'ok' }>
+  | (Extract<SandboxOutcome, { status: 'ok' }> & { record: Record<string, unknown> | null })
+
+interface TriggerRow extends Omit<TableTrigger, 'enabled'> {
+  enabled: number
+}
+
+interface TriggerLogRow extends Omit<TriggerLogEntry, 'logs'> {
+  logs: string
+}
+
+const TRIGGER_COLUMNS =
+  'id, table_name, name, event, script, enabled, timeout_ms, created_at, updated_at'
+
+function toTrigger(row: TriggerRow): TableTrigger {
+  return { ...row, enabled: Boolean(row.enabled) }
+}
+
+/**
+ * Manages the triggers of tables and runs them around writes
+ */
+export class TriggerManager {
+  // Enabled triggers are looked up once per instance (one request)
+  private enabledTriggers = new Map<string, TableTrigger[]>()
+
+  constructor(
+    private db: D1Database,
+    private executionCtx?: ExecutionContext
+  ) {}
+
+  /**
+   * List the triggers of a table, in the order they run
+   */
+  async listTriggers(tableName: string): Promise<TableTrigger[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT ${TRIGGER_COLUMNS} FROM table_triggers WHERE table_name = ? ORDER BY created_at, rowid`
+      )
+      .bind(tableName)
+      .all<TriggerRow>()
+    return (result.results || []).map(toTrigger)
+  }
+
+  /**
+   * Get one trigger of a table
+   */
+  async getTrigger(tableName: string, id: string): Promise<TableTrigger | null> {
+    const row = await this.db
+      .prepare(`SELECT ${TRIGGER_COLUMNS} FROM table_triggers WHERE id = ? AND table_name = ?`)
+      .bind(id, tableName)
+      .first<TriggerRow>()
+    return row ? toTrigger(row) : null
+  }
+
+  /**
+   * Attach a trigger to a table
+   */
+  async createTrigger(tableName: string, input: TriggerInput): Promise<TableTrigger> {
+    const now = getCurrentDateTimeISO()
+    const trigger: TableTrigger = {
+      id: generateId(),
+      table_name: tableName,
+      name: input.name,
+      event: input.event,
+      script: input.script,
+      enabled: input.enabled ?? true,
+      timeout_ms: input.timeout_ms ?? DEFAULT_TRIGGER_TIMEOUT_MS,
+      created_at: now,
+      updated_at: now,
+    }
+
+    await this.db
+      .prepare(`INSERT INTO table_triggers (${TRIGGER_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .bind(
+        trigger.id,
+        tableName,
+        trigger.name,
+        trigger.event,
+        trigger.script,
+        trigger.enabled ? 1 : 0,
+        trigger.timeout_ms,
+        now,
+        now
+      )
+      .run()
+    this.enabledTriggers.delete(tableName)
+
+    return trigger
+  }
+
+  /**
+   * Change a trigger; returns null when it does not exist
+   */
+  async updateTrigger(
+    tableName: string,
+    id: string,
+    changes: Partial<TriggerInput>
+  ): Promise<TableTrigger | null> {
+    const existing = await this.getTrigger(tableName, id)
+    if (!existing) return null
+
+    const updated: TableTrigger = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updated_at: getCurrentDateTimeISO(),
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE table_triggers SET name = ?, event = ?, script = ?, enabled = ?, timeout_ms = ?, updated_at = ?
+         WHERE id = ? AND table_name = ?`
+      )
+      .bind(
+        updated.name,
+        updated.event,
+        updated.script,
+        updated.enabled ? 1 : 0,
+        updated.timeout_ms,
+        updated.updated_at,
+        id,
+        tableName
+      )
+      .run()
+    this.enabledTriggers.delete(tableName)
+
+    return updated
+  }
+
+  /**
+   * Remove a trigger and its log; returns false when it does not exist
+   */
+  async deleteTrigger(tableName: string, id: string): Promise<boolean> {
+    const [result] = await this.db.batch([
+      this.db
+        .prepare('DELETE FROM table_triggers WHERE id = ? AND table_name = ?')
+        .bind(id, tableName),
+      this.db
+        .prepare('DELETE FROM table_trigger_logs WHERE trigger_id = ? AND table_name = ?')
+        .bind(id, tableName),
+    ])
+    this.enabledTriggers.delete(tableName)
+    return (result?.meta?.changes ?? 0) > 0
+  }
+
+  /**
+   * Forget the triggers and logs of a table (used when the table is dropped)
+   */
+  async removeTable(tableName: string): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM table_triggers WHERE table_name = ?').bind(tableName),
+      this.db.prepare('DELETE FROM table_trigger_logs WHERE table_name = ?').bind(tableName),
+    ])
+    this.enabledTriggers.set(tableName, [])
+  }
+
+  /**
+   * Get the recorded runs of a trigger, most recent first
+   */
+  async listLogs(tableName: string, triggerId: string, limit = 50): Promise<TriggerLogEntry[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM table_trigger_logs WHERE trigger_id = ? AND table_name = ?
+         ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .bind(triggerId, tableName, limit)
+      .all<TriggerLogRow>()
+    return (result.results || []).map((row) => ({ ...row, logs: JSON.parse(row.logs || '[]') }))
+  }
+
+  /**
+   * Run a script against a sample context without writing anything (the dashboard test runner)
+   * Completed runs also report the record a before-trigger would write
+   */
+  async testScript(
+    script: string,
+    context: TriggerContext,
+    timeoutMs = DEFAULT_TRIGGER_TIMEOUT_MS
+  ): Promise<TriggerTestResult> {
+    const outcome = await runScript(script, context, { timeoutMs })
+    if (outcome.status !== 'ok') return outcome
+    return { ...outcome, record: nextRecord(outcome, context.record) }
+  }
+
+  /**
+   * Check if a table has enabled triggers for any of the given events
+   */
+  async hasTriggers(tableName: string, events: TriggerEvent[]): Promise<boolean> {
+    const triggers = await this.getEnabledTriggers(tableName)
+    return triggers.some((trigger) => events.includes(trigger.event))
+  }
+
+  /**
+   * Run the before-triggers of a write, in order, each seeing the record as the previous one
+   * left it; returns the record to write
+   * A rejection or a failing script throws, and the write must not happen
+   */
+  async runBefore(
+    event: Exclude<TriggerEvent, 'after_write'>,
+    context: TriggerContext
+  ): Promise<Record<string, unknown> | null> {
+    let record = context.record
+    for (const trigger of await this.getEnabledTriggers(context.table)) {
+      if (trigger.event !== event) continue
+
+      const outcome = await runScript(
+        trigger.script,
+        { ...context, record },
+        { timeoutMs: trigger.timeout_ms }
+      )
+      await this.recordRun(trigger, context, outcome)
+
+      if (outcome.status === 'rejected') {
+        throw new Error(outcome.message)
+      }
+      if (outcome.status !== 'ok') {
+        throw new Error(`Trigger '${trigger.name}' failed: ${outcome.message}`)
+      }
+
+      // Deletes cannot be changed, only rejected
+      if (event !== 'before_delete') {
+        record = nextRecord(outcome, record)
+      }
+    }
+    return record
+  }
+
+  /**
+   * Run the after-triggers of a committed write; failures are only logged
+   */
+  async runAfter(context: TriggerContext): Promise<void> {
+    for (const trigger of await this.getEnabledTriggers(context.table)) {
+      if (trigger.event !== 'after_write') continue
+
+      try {
+        const outcome = await runScript(trigger.script, context, {
+          timeoutMs: trigger.timeout_ms,
+        })
+        await this.recordRun(trigger, context, outcome)
+      } catch (error) {
+        console.error(`After-write trigger '${trigger.name}' failed:`, error)
+      }
+    }
+  }
+
+  private async getEnabledTriggers(tableName: string): Promise<TableTrigger[]> {
+    let triggers = this.enabledTriggers.get(tableName)
+    if (triggers === undefined) {
+      try {
+        triggers = (await this.listTriggers(tableName)).filter(
+          (trigger) => trigger.enabled && trigger.table_name === tableName
+        )
+      } catch {
+        // Databases created before triggers existed have no triggers table
+        triggers = []
+      }
+      this.enabledTriggers.set(tableName, triggers)
+    }
+    return triggers
+  }
+
+  // Runs are logged when they did not complete or printed something, and the log of the
+  // trigger is trimmed in the same batch
+  private async recordRun(
+    trigger: TableTrigger,
+    context: TriggerContext,
+    outcome: SandboxOutcome
+  ): Promise<void> {
+    if (outcome.status === 'ok' && outcome.logs.length === 0) return
+
+    const recordId = context.record?.id ?? context.old?.id
+    const write = this.db
+      .batch([
+        this.db
+          .prepare(
+            `INSERT INTO table_trigger_logs (id, trigger_id, table_name, event, record_id, status, message, logs, duration_ms, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .bind(
+            generateId(),
+            trigger.id,
+            trigger.table_name,
+            trigger.event,
+            recordId === undefined || recordId === null ? null : String(recordId),
+            outcome.status,
+            outcome.status === 'ok' ? null : outcome.message,
+            JSON.stringify(outcome.logs),
+            outcome.durationMs,
+            getCurrentDateTimeISO()
+          ),
+        this.db
+          .prepare(
+            `DELETE FROM table_trigger_logs WHERE trigger_id = ? AND id NOT IN (
+               SELECT id FROM table_trigger_logs WHERE trigger_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+             )`
+          )
+          .bind(trigger.id, trigger.id, MAX_LOGS_PER_TRIGGER),
+      ])
+      .catch((error) => console.error('Failed to record trigger run:', error))
+
+    if (this.executionCtx) {
+      this.executionCtx.waitUntil(write)
+    } else {
+      await write
+    }
+  }
+}
+
+// A script changes the record by returning a new one, or by editing `ctx.record` in place
+function nextRecord(
+  outcome: Extract<SandboxOutcome, { status: 'ok' }>,
+  current: Record<string, unknown> | null
+): Record<string, unknown> | null {
+  if (isPlainObject(outcome.value)) return outcome.value
+  const ctx = outcome.ctx as { record?: unknown } | null
+  return isPlainObject(ctx?.record) ? ctx.record : current
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -4,6 +4,22 @@ import type { D1Database } from '../types/cloudflare'
 import { getCurrentDateTimeISO } from './datetime-utils'
 import { generateId } from './utils'
 
+// Refresh tokens, and with them sessions, last 30 days from sign-in
+export const USER_SESSION_LIFETIME_SECONDS = 30 * 24 * 60 * 60
+
+/**
+ * Delete the sessions whose refresh token has expired
+ * `expires_at` is that of the access token, which a refresh extends; the session itself ends
+ * with its refresh token, counted from when the session was created
+ */
+export async function deleteExpiredUserSessions(db: D1Database): Promise<number> {
+  const result = await db
+    .prepare(`DELETE FROM user_sessions WHERE created_at < datetime('now', ?)`)
+    .bind(`-${USER_SESSION_LIFETIME_SECONDS} seconds`)
+    .run()
+  return result.meta.changes || 0
+}
+
 export class UserAuthManager {
   constructor(
     private db: D1Database,
@@ -38,7 +54,7 @@ export class UserAuthManager {
       scope: ['user'],
       aud: this.domain,
       iss: 'vibebase-local',
-      exp: now + 30 * 24 * 60 * 60, // 30 days
+      exp: now + USER_SESSION_LIFETIME_SECONDS, // 30 days
       iat: now,
     }
 
@@ -0,0 +1,247 @@
+/**
+ * Outbound webhooks
+ * Events queued for hooks with a target URL are POSTed to it as JSON, signed with the hook's
+ * secret. The cron handler sends the events that are due; failed deliveries are retried with
+ * exponential backoff until the event is dead-lettered, from where it can be redelivered by hand.
+ * Every attempt is logged in `webhook_deliveries`.
+ */
+import { nanoid } from 'nanoid'
+import type { D1Database } from '../types/cloudflare'
+import { getCurrentDateTimeISO } from './datetime-utils'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+export const WEBHOOK_MAX_ATTEMPTS = 8
+// The delivery job sends due events this often, so retries are spaced in multiples of it
+export const WEBHOOK_DELIVERY_INTERVAL_MINUTES = 5
+export const WEBHOOK_RETRY_BASE_SECONDS = WEBHOOK_DELIVERY_INTERVAL_MINUTES * 60
+const WEBHOOK_RETRY_MAX_SECONDS = 6 * 60 * 60
+const WEBHOOK_TIMEOUT_MS = 10_000
+// Response bodies are logged for debugging, not kept in full
+const MAX_LOGGED_RESPONSE_LENGTH = 1024
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Vibebase-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Vibebase-Timestamp'
+
+export interface WebhookDeliveryAttempt {
+  id: string
+  event_id: string
+  hook_id: string
+  attempt: number
+  status_code: number | null
+  error: string | null
+  response_body: string | null
+  duration_ms: number
+  created_at: string
+}
+
+export interface WebhookDeliveryResult {
+  eventId: string
+  status: WebhookDeliveryStatus
+  attempt: number
+  statusCode: number | null
+  error: string | null
+}
+
+// A queued event joined with the webhook of its hook
+interface WebhookEventRow {
+  id: string
+  hook_id: string
+  event_data: string
+  attempts: number
+  target_url: string | null
+  secret: string | null
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${nanoid(32)}`
+}
+
+/**
+ * Seconds to wait before retrying after the given failed attempt (1-based): one interval of the
+ * delivery job, doubling with each attempt, capped at six hours
+ * The retry goes out with the first run of the job once the delay is over
+ */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempt - 1), WEBHOOK_RETRY_MAX_SECONDS)
+}
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>` with the hook's secret, hex encoded
+ * Receivers recompute it from the timestamp header and the raw body
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export class WebhookDispatcher {
+  constructor(
+    private db: D1Database,
+    private fetcher: typeof fetch = fetch
+  ) {}
+
+  /**
+   * Send the events whose next attempt is due, oldest first
+   */
+  async deliverDue(limit: number = 50): Promise<WebhookDeliveryResult[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT e.id, e.hook_id, e.event_data, e.attempts, h.target_url, h.secret
+         FROM event_queue e JOIN hooks h ON h.id = e.hook_id
+         WHERE e.delivery_status = 'pending' AND h.enabled = true AND h.target_url IS NOT NULL
+         AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= ?)
+         ORDER BY e.created_at ASC LIMIT ?`
+      )
+      .bind(getCurrentDateTimeISO(), limit)
+      .all<WebhookEventRow>()
+
+    const results: WebhookDeliveryResult[] = []
+    for (const event of result.results || []) {
+      results.push(await this.attempt(event))
+    }
+    return results
+  }
+
+  /**
+   * Send an event again right away, whatever its state, with a fresh retry budget
+   * Returns null when the event does not exist
+   */
+  async redeliver(eventId: string): Promise<WebhookDeliveryResult | null> {
+    const event = await this.db
+      .prepare(
+        `SELECT e.id, e.hook_id, e.event_data, e.attempts, h.target_url, h.secret
+         FROM event_queue e JOIN hooks h ON h.id = e.hook_id WHERE e.id = ?`
+      )
+      .bind(eventId)
+      .first<WebhookEventRow>()
+
+    if (!event) return null
+    if (!event.target_url) {
+      throw new Error('The hook of this event has no target URL')
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE event_queue SET delivery_status = 'pending', attempts = 0, next_attempt_at = NULL,
+         processed = false, processed_at = NULL, updated_at = ? WHERE id = ?`
+      )
+      .bind(getCurrentDateTimeISO(), eventId)
+      .run()
+
+    return this.attempt({ ...event, attempts: 0 })
+  }
+
+  async listAttempts(eventId: string): Promise<WebhookDeliveryAttempt[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM webhook_deliveries WHERE event_id = ? ORDER BY created_at ASC')
+      .bind(eventId)
+      .all<WebhookDeliveryAttempt>()
+
+    return result.results || []
+  }
+
+  // Send one attempt and record its outcome together with the new state of the event
+  private async attempt(event: WebhookEventRow): Promise<WebhookDeliveryResult> {
+    const attempt = event.attempts + 1
+    const body = JSON.stringify({
+      id: event.id,
+      hook_id: event.hook_id,
+      ...JSON.parse(event.event_data),
+    })
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Vibebase-Webhooks',
+      'X-Vibebase-Delivery': event.id,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    }
+    if (event.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] =
+        `sha256=${await signWebhookPayload(event.secret, timestamp, body)}`
+    }
+
+    let statusCode: number | null = null
+    let responseBody: string | null = null
+    let error: string | null = null
+    const startedAt = Date.now()
+
+    try {
+      const response = await this.fetcher(event.target_url as string, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      })
+      statusCode = response.status
+      responseBody = (await response.text()).slice(0, MAX_LOGGED_RESPONSE_LENGTH)
+      if (!response.ok) {
+        error = `Receiver responded with ${response.status}`
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError)
+    }
+
+    const durationMs = Date.now() - startedAt
+    const now = getCurrentDateTimeISO()
+    const status: WebhookDeliveryStatus =
+      error === null ? 'delivered' : attempt >= WEBHOOK_MAX_ATTEMPTS ? 'dead' : 'pending'
+    const nextAttemptAt =
+      status === 'pending'
+        ? new Date(Date.now() + retryDelaySeconds(attempt) * 1000).toISOString()
+        : null
+
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO webhook_deliveries (id, event_id, hook_id, attempt, status_code, error, response_body, duration_ms, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          nanoid(),
+          event.id,
+          event.hook_id,
+          attempt,
+          statusCode,
+          error,
+          responseBody,
+          durationMs,
+          now
+        ),
+      this.db
+        .prepare(
+          `UPDATE event_queue SET delivery_status = ?, attempts = ?, next_attempt_at = ?,
+           last_status_code = ?, last_error = ?, processed = ?, processed_at = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .bind(
+          status,
+          attempt,
+          nextAttemptAt,
+          statusCode,
+          error,
+          status === 'delivered',
+          status === 'delivered' ? now : null,
+          now,
+          event.id
+        ),
+    ])
+
+    return { eventId: event.id, status, attempt, statusCode, error }
+  }
+}
@@ -30,8 +30,12 @@ export async function multiAuth(c: Context<{ Bindings: Env; Variables: Variables
 
   if (authHeader?.startsWith('Bearer ')) {
     token = authHeader.substring(7)
-  } else if (urlToken && c.req.path.startsWith('/api/realtime/sse')) {
-    // Only allow URL token for SSE endpoints for security reasons
+  } else if (
+    urlToken &&
+    (c.req.path.startsWith('/api/realtime/sse') || c.req.path === '/api/realtime/ws')
+  ) {
+    // Only allow URL token for SSE and WebSocket endpoints for security reasons
+    // (neither EventSource nor WebSocket can send headers from browsers)
     token = urlToken
   }
 
@@ -200,6 +200,12 @@ export function securityHeaders(config: SecurityHeadersConfig = DEFAULT_SECURITY
       return
     }
 
+    // Skip security headers for WebSocket upgrades, whose 101 response comes from the
+    // Durable Object and has immutable headers
+    if (c.res.status === 101) {
+      return
+    }
+
     // Use more permissive settings for API routes to support mobile/desktop apps
     const isApiRoute = c.req.path.startsWith('/api/')
     const activeConfig = isApiRoute ? getAPISecurityConfig() : config
@@ -1,8 +1,28 @@
 import { Hono } from 'hono'
-import { TableManager } from '../lib/table-manager'
+import { z } from 'zod'
+import { type AggregateQuery, aggregateAlias, parseAggregateParams } from '../lib/aggregate'
+import { getAuditActor } from '../lib/audit-log'
+import {
+  type BatchOperationResult,
+  MAX_BATCH_OPERATIONS,
+  type ResolvedBatchOperation,
+  resolveBatchReferences,
+} from '../lib/batch-operations'
+import { InvalidCursorError } from '../lib/cursor'
+import { parseFieldList, pickColumns, validateSelect } from '../lib/projection'
+import { compileFilter } from '../lib/query-filter'
+import { validateRecordData } from '../lib/record-validator'
+import { getRelationColumns, type TableRelation } from '../lib/relation-expander'
+import type { ColumnInfo } from '../lib/schema-manager'
+import { SYSTEM_TABLES, TableManager } from '../lib/table-manager'
+import { generateId } from '../lib/utils'
 import { getAuthContext, getCurrentEndUser } from '../middleware/auth'
 import type { Env, Variables } from '../types'
-import type { CustomDurableObjectNamespace, TableDataResult } from '../types/cloudflare'
+import type {
+  CursorPageResult,
+  CustomDurableObjectNamespace,
+  TableDataResult,
+} from '../types/cloudflare'
 import type { WhereClause } from '../types/database'
 
 export const data = new Hono<{ Bindings: Env; Variables: Variables }>()
@@ -15,14 +35,124 @@ data.use('*', async (c, next) => {
   }
   c.set(
     'tableManager',
-    new TableManager(c.env.DB, c.env.SYSTEM_STORAGE, c.executionCtx, {
-      REALTIME: c.env.REALTIME as CustomDurableObjectNamespace,
-      WORKER_DOMAIN: c.env.WORKER_DOMAIN,
-    })
+    new TableManager(
+      c.env.DB,
+      c.env.SYSTEM_STORAGE,
+      c.executionCtx,
+      {
+        REALTIME: c.env.REALTIME as CustomDurableObjectNamespace,
+        WORKER_DOMAIN: c.env.WORKER_DOMAIN,
+      },
+      getAuditActor(getAuthContext(c))
+    )
   )
   await next()
 })
 
+const batchIdSchema = z.union([z.string().min(1), z.object({ $ref: z.string().min(1) }).strict()])
+
+const batchSchema = z.object({
+  operations: z
+    .array(
+      z.discriminatedUnion('op', [
+        z.object({
+          op: z.literal('create'),
+          table: z.string().min(1),
+          data: z.record(z.unknown()),
+          ref: z.string().min(1).optional(),
+        }),
+        z.object({
+          op: z.literal('update'),
+          table: z.string().min(1),
+          id: batchIdSchema,
+          data: z.record(z.unknown()),
+          ref: z.string().min(1).optional(),
+        }),
+        z.object({
+          op: z.literal('delete'),
+          table: z.string().min(1),
+          id: batchIdSchema,
+          ref: z.string().min(1).optional(),
+        }),
+      ])
+    )
+    .min(1)
+    .max(MAX_BATCH_OPERATIONS),
+})
+
+// POST /api/data/_batch - Run create/update/delete operations across tables atomically
+// Registered before the table middleware, which would otherwise treat `_batch` as a table name
+data.post('/_batch', async (c) => {
+  const tm = c.get('tableManager') as TableManager
+  const authContext = getAuthContext(c)
+  const currentUser = getCurrentEndUser(c)
+
+  try {
+    const parsed = batchSchema.safeParse(await c.req.json().catch(() => null))
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid batch request', details: parsed.error.issues }, 400)
+    }
+
+    const tables = await tm.getTables()
+    for (const table of new Set(parsed.data.operations.map((operation) => operation.table))) {
+      if (SYSTEM_TABLES.includes(table as (typeof SYSTEM_TABLES)[number])) {
+        return c.json({ error: `Cannot modify system table '${table}'` }, 403)
+      }
+      if (!tables.some((t) => t.name === table)) {
+        return c.json({ error: `Table '${table}' not found` }, 404)
+      }
+    }
+
+    let operations: ResolvedBatchOperation[]
+    try {
+      operations = resolveBatchReferences(parsed.data.operations, generateId)
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid reference' }, 400)
+    }
+
+    // Validate every operation before touching the database
+    const columnsByTable = new Map<string, ColumnInfo[]>()
+    const errors: string[] = []
+    for (const [index, operation] of operations.entries()) {
+      if (operation.op === 'delete') continue
+      if (!columnsByTable.has(operation.table)) {
+        columnsByTable.set(operation.table, await tm.getTableColumns(operation.table))
+      }
+      const columns = columnsByTable.get(operation.table) ?? []
+      const operationErrors = await validateRecordData(
+        operation.data,
+        columns,
+        operation.op === 'create' ? 'create' : 'update'
+      )
+      errors.push(...operationErrors.map((error) => `operations[${index}]: ${error}`))
+    }
+    if (errors.length > 0) {
+      return c.json({ error: 'Validation failed', details: errors }, 400)
+    }
+
+    let results: BatchOperationResult[]
+    if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+      results = await tm.executeBatch(operations)
+    } else if (authContext?.type === 'user' && currentUser) {
+      results = await tm.executeBatchWithAccessControl(operations, currentUser.id, currentUser.role)
+    } else {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    return c.json({ success: true, results })
+  } catch (error) {
+    console.error('Error executing batch:', error)
+    const message = error instanceof Error ? error.message : 'Failed to execute batch'
+    if (message.startsWith('Records not found or access denied')) {
+      return c.json({ error: message }, 404)
+    }
+    if (message.startsWith('Access denied')) {
+      return c.json({ error: message }, 403)
+    }
+    return c.json({ error: message }, 400)
+  }
+})
+
 // Middleware to validate table exists and check access policies
 data.use('/:tableName/*', async (c, next) => {
   const tm = c.get('tableManager') as TableManager
@@ -88,18 +218,92 @@ data.get('/:tableName', async (c) => {
 
     // Parse WHERE clause from query parameter
     let whereClause: WhereClause | undefined
-    const whereParam = c.req.query('where')
-    if (whereParam) {
+    try {
+      whereClause = parseWhereParam(c.req.query('where'), validColumns)
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 400)
+    }
+
+    // Field projection (?select=) and relation expansion (?expand=)
+    let readOptions: ReadOptions
+    try {
+      readOptions = await parseReadOptions(
+        tm,
+        tableName,
+        c.req.query('select'),
+        c.req.query('expand'),
+        validColumns
+      )
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 400)
+    }
+    const expandUser =
+      authContext?.type === 'user' && currentUser
+        ? { userId: currentUser.id, userRole: currentUser.role }
+        : undefined
+
+    let includeDeleted: boolean
+    try {
+      includeDeleted = parseIncludeDeleted(c.req.query('include_deleted'), authContext?.type)
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 403)
+    }
+
+    // Cursor (keyset) pagination: opt in with ?pagination=cursor or by passing a cursor
+    const cursor = c.req.query('cursor')
+    if (c.req.query('pagination') === 'cursor' || cursor !== undefined) {
+      if (!validColumns.includes('id')) {
+        return c.json({ error: 'Cursor pagination requires an id column' }, 400)
+      }
+
+      const cursorOptions = {
+        limit,
+        sortBy,
+        sortOrder: sortOrder as 'ASC' | 'DESC',
+        cursor: cursor || undefined,
+        whereClause,
+        includeTotal: c.req.query('include_total') === 'true',
+        select: readOptions.columns,
+        includeDeleted,
+      }
+
+      let page: CursorPageResult
       try {
-        whereClause = JSON.parse(whereParam)
-      } catch (_error) {
-        return c.json(
-          {
-            error: 'Invalid WHERE clause format. Must be valid JSON.',
-          },
-          400
-        )
+        if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+          page = await tm.getTableDataWithCursor(tableName, cursorOptions)
+        } else if (authContext?.type === 'user' && currentUser) {
+          page = await tm.getTableDataWithCursorAndAccessControl(
+            tableName,
+            currentUser.id,
+            cursorOptions,
+            currentUser.role
+          )
+        } else {
+          return c.json({ error: 'Authentication required' }, 401)
+        }
+      } catch (error) {
+        // Malformed or stale cursors are client errors
+        if (error instanceof InvalidCursorError) {
+          return c.json({ error: error.message }, 400)
+        }
+        throw error
       }
+
+      return c.json({
+        data: await applyReadOptions(tm, page.data, readOptions, expandUser),
+        pagination: {
+          mode: 'cursor',
+          limit,
+          next_cursor: page.nextCursor,
+          has_more: page.hasMore,
+          ...(page.total !== undefined && { total: page.total }),
+        },
+        sort: { by: sortBy, order: sortOrder },
+        access_info: {
+          table_policy: tableInfo?.access_policy || 'public',
+          auth_type: authContext?.type || 'none',
+        },
+      })
     }
 
     let result: TableDataResult
@@ -113,7 +317,9 @@ data.get('/:tableName', async (c) => {
         offset,
         sortBy,
         sortOrder,
-        whereClause
+        whereClause,
+        readOptions.columns,
+        includeDeleted
       )
     } else if (authContext?.type === 'user' && currentUser) {
       // Users get access control applied
@@ -124,7 +330,9 @@ data.get('/:tableName', async (c) => {
         offset,
         sortBy,
         sortOrder,
-        whereClause
+        whereClause,
+        currentUser.role,
+        readOptions.columns
       )
     } else if (authContext?.type === 'api_key') {
       // API keys can access data based on scopes and table policy
@@ -136,7 +344,9 @@ data.get('/:tableName', async (c) => {
         offset,
         sortBy,
         sortOrder,
-        whereClause
+        whereClause,
+        readOptions.columns,
+        includeDeleted
       )
     } else {
       return c.json({ error: 'Authentication required' }, 401)
@@ -145,7 +355,7 @@ data.get('/:tableName', async (c) => {
     const baseUrl = new URL(c.req.url).origin
 
     return c.json({
-      data: result.data,
+      data: await applyReadOptions(tm, result.data, readOptions, expandUser),
       pagination: {
         page,
         limit,
@@ -178,6 +388,62 @@ data.get('/:tableName', async (c) => {
   }
 })
 
+// GET /api/data/:tableName/aggregate - Count, sum, avg, min and max, optionally grouped
+data.get('/:tableName/aggregate', async (c) => {
+  const tm = c.get('tableManager') as TableManager
+  const tableName = c.req.param('tableName')
+  const tableInfo = c.get('tableInfo')
+  const authContext = c.get('authContext')
+  const currentUser = c.get('currentEndUser')
+
+  try {
+    const columns = await tm.getTableColumns(tableName)
+    const validColumns = columns.map((col) => col.name)
+
+    let query: AggregateQuery
+    let whereClause: WhereClause | undefined
+    try {
+      query = parseAggregateParams(c.req.query(), validColumns)
+      whereClause = parseWhereParam(c.req.query('where'), validColumns)
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 400)
+    }
+
+    let rows: Record<string, unknown>[]
+    if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+      rows = await tm.getAggregates(tableName, { ...query, whereClause })
+    } else if (authContext?.type === 'user' && currentUser) {
+      // Users only aggregate over the rows they may read
+      rows = await tm.getAggregatesWithAccessControl(
+        tableName,
+        currentUser.id,
+        { ...query, whereClause },
+        currentUser.role
+      )
+    } else {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    return c.json({
+      data: rows,
+      group_by: query.groupBy,
+      aggregates: query.aggregates.map(aggregateAlias),
+      access_info: {
+        table_policy: tableInfo?.access_policy || 'public',
+        auth_type: authContext?.type || 'none',
+      },
+    })
+  } catch (error) {
+    console.error('Error aggregating table data:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to aggregate data',
+      },
+      500
+    )
+  }
+})
+
 // GET /api/data/:tableName/:id - Get single record
 data.get('/:tableName/:id', async (c) => {
   const tm = c.get('tableManager') as TableManager
@@ -187,19 +453,44 @@ data.get('/:tableName/:id', async (c) => {
   const currentUser = c.get('currentEndUser')
 
   try {
+    let readOptions: ReadOptions
+    try {
+      readOptions = await parseReadOptions(
+        tm,
+        tableName,
+        c.req.query('select'),
+        c.req.query('expand')
+      )
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 400)
+    }
+
+    let includeDeleted: boolean
+    try {
+      includeDeleted = parseIncludeDeleted(c.req.query('include_deleted'), authContext?.type)
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 403)
+    }
+
     let record: Record<string, unknown> | null
 
     // Apply access control based on authentication type
     if (authContext?.type === 'admin') {
       // Admins can access all records
-      record = await tm.getRecordById(tableName, id)
+      record = await tm.getRecordById(tableName, id, readOptions.columns, includeDeleted)
     } else if (authContext?.type === 'user' && currentUser) {
       // Users get access control applied
-      record = await tm.getRecordByIdWithAccessControl(tableName, id, currentUser.id)
+      record = await tm.getRecordByIdWithAccessControl(
+        tableName,
+        id,
+        currentUser.id,
+        currentUser.role,
+        readOptions.columns
+      )
     } else if (authContext?.type === 'api_key') {
       // API keys can access records based on scopes and table policy
       // For now, treat API keys as admin-level access
-      record = await tm.getRecordById(tableName, id)
+      record = await tm.getRecordById(tableName, id, readOptions.columns, includeDeleted)
     } else {
       return c.json({ error: 'Authentication required' }, 401)
     }
@@ -208,7 +499,13 @@ data.get('/:tableName/:id', async (c) => {
       return c.json({ error: `Record with id '${id}' not found` }, 404)
     }
 
-    return c.json({ data: record })
+    const expandUser =
+      authContext?.type === 'user' && currentUser
+        ? { userId: currentUser.id, userRole: currentUser.role }
+        : undefined
+    const [data] = await applyReadOptions(tm, [record], readOptions, expandUser)
+
+    return c.json({ data })
   } catch (error) {
     console.error('Error fetching record:', error)
     return c.json(
@@ -252,7 +549,7 @@ data.post('/:tableName', async (c) => {
       id = await tm.createRecordWithId(tableName, body)
     } else if (authContext?.type === 'user' && currentUser) {
       // Users get owner_id automatically set for private tables
-      id = await tm.createRecordWithAccessControl(tableName, body, currentUser.id)
+      id = await tm.createRecordWithAccessControl(tableName, body, currentUser.id, currentUser.role)
     } else if (authContext?.type === 'api_key') {
       // API keys can create records (for now, treat as admin-level)
       id = await tm.createRecordWithId(tableName, body)
@@ -263,7 +560,12 @@ data.post('/:tableName', async (c) => {
     // Get the created record to return (with access control)
     let createdRecord: Record<string, unknown> | null
     if (authContext?.type === 'user' && currentUser) {
-      createdRecord = await tm.getRecordByIdWithAccessControl(tableName, id, currentUser.id)
+      createdRecord = await tm.getRecordByIdWithAccessControl(
+        tableName,
+        id,
+        currentUser.id,
+        currentUser.role
+      )
     } else {
       createdRecord = await tm.getRecordById(tableName, id)
     }
@@ -320,7 +622,7 @@ data.put('/:tableName/:id', async (c) => {
     // Check if record exists with proper access control
     const existingRecord = isAdminOrApiKey
       ? await tm.getRecordById(tableName, id)
-      : await tm.getRecordByIdWithAccessControl(tableName, id, currentUser?.id)
+      : await tm.getRecordByIdWithAccessControl(tableName, id, currentUser?.id, currentUser?.role)
 
     if (!existingRecord) {
       return c.json({ error: `Record with id '${id}' not found` }, 404)
@@ -338,13 +640,19 @@ data.put('/:tableName/:id', async (c) => {
     if (isAdminOrApiKey) {
       await tm.updateRecord(tableName, id, body)
     } else {
-      await tm.updateRecordWithAccessControl(tableName, id, body, currentUser?.id)
+      await tm.updateRecordWithAccessControl(
+        tableName,
+        id,
+        body,
+        currentUser?.id,
+        currentUser?.role
+      )
     }
 
     // Get updated record
     const updatedRecord = isAdminOrApiKey
       ? await tm.getRecordById(tableName, id)
-      : await tm.getRecordByIdWithAccessControl(tableName, id, currentUser?.id)
+      : await tm.getRecordByIdWithAccessControl(tableName, id, currentUser?.id, currentUser?.role)
 
     return c.json({
       success: true,
@@ -384,7 +692,7 @@ data.delete('/:tableName/:id', async (c) => {
     // Check if record exists with proper access control
     const existingRecord = isAdminOrApiKey
       ? await tm.getRecordById(tableName, id)
-      : await tm.getRecordByIdWithAccessControl(tableName, id, currentUser?.id)
+      : await tm.getRecordByIdWithAccessControl(tableName, id, currentUser?.id, currentUser?.role)
 
     if (!existingRecord) {
       return c.json({ error: `Record with id '${id}' not found` }, 404)
@@ -394,7 +702,7 @@ data.delete('/:tableName/:id', async (c) => {
     if (isAdminOrApiKey) {
       await tm.deleteRecord(tableName, id)
     } else {
-      await tm.deleteRecordWithAccessControl(tableName, id, currentUser?.id)
+      await tm.deleteRecordWithAccessControl(tableName, id, currentUser?.id, currentUser?.role)
     }
 
     return c.json({
@@ -412,76 +720,158 @@ data.delete('/:tableName/:id', async (c) => {
   }
 })
 
-// Helper function to validate record data against table schema
-async function validateRecordData(
-  data: Record<string, unknown>,
-  columns: Array<{ name: string; type: string; notnull: number }>,
-  operation: 'create' | 'update'
-): Promise<string[]> {
-  const errors: string[] = []
-
-  // Skip validation for system columns
-  const systemColumns = ['id', 'created_at', 'updated_at']
-  const userColumns = columns.filter((col) => !systemColumns.includes(col.name))
+// GET /api/data/:tableName/:id/history - Change history of a record, most recent first
+// Admins and API keys only: entries hold full row images and actor ids, which row and column
+// policies do not cover
+data.get('/:tableName/:id/history', async (c) => {
+  const tm = c.get('tableManager') as TableManager
+  const tableName = c.req.param('tableName')
+  const id = c.req.param('id')
+  const authContext = c.get('authContext')
 
-  for (const column of userColumns) {
-    const value = data[column.name]
-    const hasValue = value !== undefined && value !== null && value !== ''
+  if (authContext?.type === 'user') {
+    return c.json({ error: 'Only admins and API keys can read record history' }, 403)
+  }
+  if (authContext?.type !== 'admin' && authContext?.type !== 'api_key') {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
 
-    // Check required fields (NOT NULL constraint)
-    if (operation === 'create' && column.notnull && !hasValue) {
-      errors.push(`Field '${column.name}' is required`)
-      continue
+  try {
+    const limit = Number(c.req.query('limit') || '50')
+    const offset = Number(c.req.query('offset') || '0')
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return c.json({ error: 'limit must be an integer between 1 and 100' }, 400)
     }
-
-    // Skip validation if no value provided for update
-    if (operation === 'update' && !hasValue) {
-      continue
+    if (!Number.isInteger(offset) || offset < 0) {
+      return c.json({ error: 'offset must be a non-negative integer' }, 400)
     }
 
-    // Type validation
-    if (hasValue) {
-      const typeError = validateFieldType(column.name, value, column.type)
-      if (typeError) {
-        errors.push(typeError)
-      }
-    }
+    const history = await tm.getRecordHistory(tableName, id, limit, offset)
+
+    return c.json({
+      data: history.data,
+      pagination: {
+        total: history.total,
+        limit,
+        offset,
+        hasMore: offset + history.data.length < history.total,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching record history:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch record history',
+      },
+      500
+    )
   }
+})
+
+// POST /api/data/:tableName/:id/history/:entryId/revert - Bring a record back to a recorded version
+// Admins and API keys only
+data.post('/:tableName/:id/history/:entryId/revert', async (c) => {
+  const tm = c.get('tableManager') as TableManager
+  const tableName = c.req.param('tableName')
+  const id = c.req.param('id')
+  const entryId = c.req.param('entryId')
+  const authContext = c.get('authContext')
+
+  if (authContext?.type === 'user') {
+    return c.json({ error: 'Only admins and API keys can revert records' }, 403)
+  }
+  if (authContext?.type !== 'admin' && authContext?.type !== 'api_key') {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+    return c.json({ error: 'Cannot modify system table' }, 403)
+  }
+
+  try {
+    const record = await tm.revertRecord(tableName, id, entryId)
+    return c.json({ success: true, data: record })
+  } catch (error) {
+    console.error('Error reverting record:', error)
+    const message = error instanceof Error ? error.message : 'Failed to revert record'
+    return c.json({ error: message }, message.startsWith('History entry') ? 404 : 400)
+  }
+})
 
-  return errors
+// Parse the where query parameter, validating operators and columns up front
+// so bad filters are reported as client errors
+function parseWhereParam(
+  whereParam: string | undefined,
+  validColumns: string[]
+): WhereClause | undefined {
+  if (!whereParam) return undefined
+
+  let whereClause: WhereClause
+  try {
+    whereClause = JSON.parse(whereParam)
+  } catch (_error) {
+    throw new Error('Invalid WHERE clause format. Must be valid JSON.')
+  }
+
+  try {
+    compileFilter(whereClause, validColumns)
+  } catch (error) {
+    throw new Error(
+      `Invalid WHERE clause: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  return whereClause
+}
+
+// Parse the include_deleted query parameter (trashed rows of soft delete tables)
+// Only admins and API keys may see the trash, end users get an error
+function parseIncludeDeleted(param: string | undefined, authType: string | undefined): boolean {
+  if (param === undefined || param === 'false') return false
+  if (authType !== 'admin' && authType !== 'api_key') {
+    throw new Error('include_deleted is only available to admins and API keys')
+  }
+  return true
 }
 
-function validateFieldType(fieldName: string, value: unknown, sqlType: string): string | null {
-  const type = sqlType.toUpperCase()
+interface ReadOptions {
+  select?: string[]
+  relations: TableRelation[]
+  columns?: string[] // Columns to query: the selection plus the keys needed for expansion
+}
 
-  switch (type) {
-    case 'INTEGER':
-      if (!Number.isInteger(Number(value))) {
-        return `Field '${fieldName}' must be an integer`
-      }
-      break
-    case 'REAL':
-      if (Number.isNaN(Number(value))) {
-        return `Field '${fieldName}' must be a number`
-      }
-      break
-    case 'TEXT':
-      if (typeof value !== 'string') {
-        return `Field '${fieldName}' must be a string`
-      }
-      break
-    case 'BOOLEAN':
-      if (typeof value !== 'boolean' && value !== 0 && value !== 1) {
-        return `Field '${fieldName}' must be a boolean`
-      }
-      break
-    case 'BLOB':
-      // Accept any value for BLOB
-      break
-    default:
-      // For custom types, accept any value
-      break
+// Parse the select and expand query parameters, throwing on unknown columns or relations
+async function parseReadOptions(
+  tm: TableManager,
+  tableName: string,
+  selectParam: string | undefined,
+  expandParam: string | undefined,
+  validColumns?: string[]
+): Promise<ReadOptions> {
+  const select = parseFieldList(selectParam)
+  if (select) {
+    const columns = validColumns ?? (await tm.getTableColumns(tableName)).map((col) => col.name)
+    validateSelect(select, columns)
   }
 
-  return null
+  const expand = parseFieldList(expandParam)
+  const relations = expand ? await tm.resolveRelations(tableName, expand) : []
+
+  return {
+    select,
+    relations,
+    columns: select && [...new Set([...select, ...getRelationColumns(relations)])],
+  }
+}
+
+// Expand relations, then drop columns that were only fetched for the expansion
+async function applyReadOptions(
+  tm: TableManager,
+  records: Record<string, unknown>[],
+  options: ReadOptions,
+  user?: { userId?: string; userRole?: string }
+): Promise<Record<string, unknown>[]> {
+  const expanded =
+    options.relations.length > 0
+      ? await tm.expandRecords(records, options.relations, user)
+      : records
+  return options.select ? pickColumns(expanded, options.select, ['_expand']) : expanded
 }
@@ -1,4 +1,5 @@
 import { Hono } from 'hono'
+import { describeRelations, type ForeignKey, type TableRelation } from '../lib/relation-expander'
 import type { ColumnInfo } from '../lib/schema-manager'
 import { type LocalTableInfo, TableManager } from '../lib/table-manager'
 import type { Env, Variables } from '../types'
@@ -65,10 +66,12 @@ docs.get('/tables/:tableName', async (c) => {
 
     const columns = await tm.getTableColumns(tableName)
     const searchableColumns = await tm.getSearchableColumns(tableName)
+    const relations = await tm.listRelations(tableName)
     const documentation = await generateTableDocumentation(
       table,
       columns,
       searchableColumns,
+      relations,
       baseUrl
     )
 
@@ -149,10 +152,17 @@ async function generateOpenAPISpec(tables: LocalTableInfo[], tm: TableManager, b
     },
   }
 
+  // Foreign keys of every table, used to describe the relations available to `expand`
+  const foreignKeys: Record<string, ForeignKey[]> = {}
+  for (const table of tables) {
+    foreignKeys[table.name] = await tm.getForeignKeys(table.name)
+  }
+
   // Generate schemas and paths for each table
   for (const table of tables) {
     const columns = await tm.getTableColumns(table.name)
     const searchableColumns = await tm.getSearchableColumns(table.name)
+    const relations = describeRelations(table.name, foreignKeys)
 
     // Generate schema
     const schema = generateTableSchema(table.name, columns)
@@ -161,7 +171,7 @@ async function generateOpenAPISpec(tables: LocalTableInfo[], tm: TableManager, b
     spec.components.schemas[`${table.name}Update`] = schema.update
 
     // Generate paths
-    const paths = generateTablePaths(table.name, searchableColumns)
+    const paths = generateTablePaths(table.name, searchableColumns, columns, relations)
     Object.assign(spec.paths, paths)
   }
 
@@ -247,8 +257,12 @@ function getFieldSchema(column: ColumnInfo) {
 // Generate OpenAPI paths for a table
 function generateTablePaths(
   tableName: string,
-  searchableColumns: Array<{ name: string; type: string }> = []
+  searchableColumns: Array<{ name: string; type: string }> = [],
+  columns: ColumnInfo[] = [],
+  relations: TableRelation[] = []
 ) {
+  const readParameters = generateReadParameters(columns, relations)
+
   return {
     [`/api/data/${tableName}`]: {
       get: {
@@ -279,6 +293,7 @@ function generateTablePaths(
             description: 'Sort order',
             schema: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
           },
+          ...readParameters,
         ],
         responses: {
           '200': {
@@ -363,6 +378,7 @@ function generateTablePaths(
             description: 'Record ID',
             schema: { type: 'string' },
           },
+          ...readParameters,
         ],
         responses: {
           '200': {
@@ -458,12 +474,28 @@ function generateTablePaths(
     [`/api/tables/${tableName}/search`]: {
       get: {
         summary: `Search ${tableName} records`,
-        description: `Search records in the ${tableName} table by indexed column values. Only columns with database indexes can be searched.`,
+        description: `Search records in the ${tableName} table by indexed column values. Only columns with database indexes can be searched. With \`q\`, runs a full-text search ranked by relevance instead (requires full-text search to be enabled on the table); each record then includes \`_search\` with its score and highlighted snippets.`,
         parameters: [
+          {
+            name: 'q',
+            in: 'query',
+            required: false,
+            description:
+              'Full-text query. All words must match; a trailing * matches a prefix and "double quotes" match a phrase',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'columns',
+            in: 'query',
+            required: false,
+            description:
+              'Comma separated full-text indexed columns to match (used with q, defaults to all)',
+            schema: { type: 'string' },
+          },
           {
             name: 'column',
             in: 'query',
-            required: true,
+            required: false,
             description:
               searchableColumns.length > 0
                 ? `Column name to search. Available columns and their supported operators:\n${searchableColumns.map((col) => `- ${col.name} (${col.type}): ${col.type === 'TEXT' ? 'eq, is_null, is_not_null' : 'eq, lt, le, gt, ge, ne, is_null, is_not_null'}`).join('\n')}`
@@ -479,8 +511,8 @@ function generateTablePaths(
           {
             name: 'operator',
             in: 'query',
-            required: true,
-            description: 'Search operator',
+            required: false,
+            description: 'Search operator (required unless q is given)',
             schema: {
               type: 'string',
               enum: ['eq', 'lt', 'le', 'gt', 'ge', 'ne', 'is_null', 'is_not_null'],
@@ -589,13 +621,66 @@ function generateTablePaths(
   }
 }
 
+// Describe the select and expand query parameters of record reads
+function generateReadParameters(columns: ColumnInfo[], relations: TableRelation[]) {
+  return [
+    {
+      name: 'select',
+      in: 'query',
+      description: 'Comma separated columns to return (default: all columns)',
+      style: 'form',
+      explode: false,
+      schema: {
+        type: 'array',
+        items: columns.length > 0 ? { type: 'string', enum: columns.map((col) => col.name) } : {},
+      },
+    },
+    {
+      name: 'expand',
+      in: 'query',
+      description:
+        relations.length > 0
+          ? `Comma separated relations to embed under _expand (${relations
+              .map((relation) => `${relation.name}: ${relation.type} ${relation.table}`)
+              .join(', ')})`
+          : 'Comma separated relations to embed under _expand (this table has no relations)',
+      style: 'form',
+      explode: false,
+      schema: {
+        type: 'array',
+        items:
+          relations.length > 0
+            ? { type: 'string', enum: relations.map((relation) => relation.name) }
+            : { type: 'string' },
+      },
+    },
+  ]
+}
+
 // Generate documentation for a specific table
 async function generateTableDocumentation(
   table: LocalTableInfo,
   columns: ColumnInfo[],
   searchableColumns: Array<{ name: string; type: string }>,
+  relations: TableRelation[],
   baseUrl: string
 ) {
+  const readParameters = [
+    {
+      name: 'select',
+      type: 'string',
+      description: 'Comma separated columns to return (default: all columns)',
+    },
+    {
+      name: 'expand',
+      type: 'string',
+      description:
+        relations.length > 0
+          ? `Comma separated relations to embed under _expand (${relations.map((relation) => relation.name).join(', ')})`
+          : 'Comma separated relations to embed under _expand (no relations available)',
+    },
+  ]
+
   const userColumns = columns.filter(
     (col) => !['id', 'created_at', 'updated_at'].includes(col.name)
   )
@@ -635,12 +720,14 @@ async function generateTableDocumentation(
             type: 'string',
             description: 'Sort order: asc or desc (default: desc)',
           },
+          ...readParameters,
         ],
       },
       get: {
         method: 'GET',
         url: `${baseUrl}/api/data/${table.name}/{id}`,
         description: `Get a specific ${table.name} record by ID`,
+        parameters: readParameters,
       },
       create: {
         method: 'POST',
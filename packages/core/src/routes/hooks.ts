@@ -2,7 +2,10 @@ import { zValidator } from '@hono/zod-validator'
 import { Hono } from 'hono'
 import { z } from 'zod'
 import { HookManager } from '../lib/hook-manager'
+import { MAX_SUBSCRIPTION_FILTERS, parseRealtimeFilter } from '../lib/realtime-filter'
 import { TableManager } from '../lib/table-manager'
+import { generateWebhookSecret, WebhookDispatcher } from '../lib/webhook-delivery'
+import { requireAdmin } from '../middleware/auth'
 import type { Env, Variables } from '../types'
 import type { CustomDurableObjectNamespace } from '../types/cloudflare'
 
@@ -14,6 +17,7 @@ hooks.use('*', async (c, next) => {
     return c.json({ error: 'Database not configured' }, 500)
   }
   c.set('hookManager', new HookManager(c.env.DB, c.env.WORKER_DOMAIN))
+  c.set('webhookDispatcher', new WebhookDispatcher(c.env.DB))
   c.set(
     'tableManager',
     new TableManager(c.env.DB, c.env.SYSTEM_STORAGE, c.executionCtx, {
@@ -24,19 +28,53 @@ hooks.use('*', async (c, next) => {
   await next()
 })
 
+// Webhook receivers must be reachable over HTTP(S)
+const targetUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), 'target_url must be an http(s) URL')
+
+// Row filters, written like those of realtime subscriptions
+const filtersSchema = z
+  .array(z.string())
+  .max(MAX_SUBSCRIPTION_FILTERS)
+  .superRefine((filters, ctx) => {
+    for (const filter of filters) {
+      try {
+        parseRealtimeFilter(filter)
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : 'Invalid filter',
+        })
+      }
+    }
+  })
+
 // Schema for creating hooks
 const createHookSchema = z.object({
   table_name: z.string().min(1),
   event_type: z.enum(['insert', 'update', 'delete']),
+  target_url: targetUrlSchema.optional(),
+  secret: z.string().min(16).optional(),
+  filters: filtersSchema.optional(),
 })
 
 // Schema for updating hooks
-const updateHookSchema = z.object({
-  enabled: z.boolean(),
-})
+const updateHookSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    target_url: targetUrlSchema.nullable().optional(),
+    secret: z.string().min(16).optional(),
+    rotate_secret: z.boolean().optional(),
+    filters: filtersSchema.nullable().optional(),
+  })
+  .refine((update) => Object.keys(update).length > 0, 'Nothing to update')
+
+const eventStatusSchema = z.enum(['pending', 'delivered', 'dead'])
 
 // GET /api/hooks - List all hooks
-hooks.get('/', async (c) => {
+hooks.get('/', requireAdmin, async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const hooks = await hookManager.getAllHooks()
@@ -57,11 +95,11 @@ hooks.get('/', async (c) => {
 })
 
 // POST /api/hooks - Create a new hook
-hooks.post('/', zValidator('json', createHookSchema), async (c) => {
+hooks.post('/', requireAdmin, zValidator('json', createHookSchema), async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const tableManager = c.get('tableManager') as TableManager
-    const { table_name, event_type } = c.req.valid('json')
+    const { table_name, event_type, target_url, filters } = c.req.valid('json')
 
     // Validate table exists
     const tables = await tableManager.getTables()
@@ -76,19 +114,22 @@ hooks.post('/', zValidator('json', createHookSchema), async (c) => {
       return c.json({ error: 'Cannot create hooks on system tables' }, 400)
     }
 
+    // Webhooks are always signed; the secret is only returned here
+    const secret = target_url ? (c.req.valid('json').secret ?? generateWebhookSecret()) : null
+
     // Create the hook
-    const hookId = await hookManager.createHook(table_name, event_type)
+    const hookId = await hookManager.createHook(table_name, event_type, {
+      targetUrl: target_url,
+      secret,
+      filters,
+    })
 
     return c.json(
       {
         success: true,
         data: {
-          id: hookId,
-          table_name,
-          event_type,
-          enabled: true,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+          ...(await hookManager.getHook(hookId)),
+          ...(secret && { secret }),
         },
         message: 'Hook created successfully',
       },
@@ -105,18 +146,38 @@ hooks.post('/', zValidator('json', createHookSchema), async (c) => {
   }
 })
 
-// PUT /api/hooks/:id - Update hook status
-hooks.put('/:id', zValidator('json', updateHookSchema), async (c) => {
+// PUT /api/hooks/:id - Update hook status, webhook or filters
+hooks.put('/:id', requireAdmin, zValidator('json', updateHookSchema), async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const hookId = c.req.param('id')
-    const { enabled } = c.req.valid('json')
+    const { enabled, target_url, rotate_secret, filters } = c.req.valid('json')
 
-    await hookManager.updateHookStatus(hookId, enabled)
+    const current = await hookManager.getHook(hookId).catch(() => null)
+    if (!current) {
+      return c.json({ error: 'Hook not found' }, 404)
+    }
+
+    // A hook that gains a webhook without a secret gets one, as on creation
+    let secret = c.req.valid('json').secret
+    if (!secret && (rotate_secret || (target_url && !current.target_url))) {
+      secret = generateWebhookSecret()
+    }
+
+    const hook = await hookManager.updateHook(hookId, {
+      enabled,
+      targetUrl: target_url,
+      secret: target_url === null ? null : secret,
+      filters,
+    })
 
     return c.json({
       success: true,
-      message: `Hook ${enabled ? 'enabled' : 'disabled'} successfully`,
+      data: { ...hook, ...(secret && target_url !== null && { secret }) },
+      message:
+        enabled === undefined
+          ? 'Hook updated successfully'
+          : `Hook ${enabled ? 'enabled' : 'disabled'} successfully`,
     })
   } catch (error) {
     console.error('Error updating hook:', error)
@@ -130,7 +191,7 @@ hooks.put('/:id', zValidator('json', updateHookSchema), async (c) => {
 })
 
 // DELETE /api/hooks/:id - Delete a hook
-hooks.delete('/:id', async (c) => {
+hooks.delete('/:id', requireAdmin, async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const hookId = c.req.param('id')
@@ -152,13 +213,23 @@ hooks.delete('/:id', async (c) => {
   }
 })
 
-// GET /api/hooks/events - Get unprocessed events
-hooks.get('/events', async (c) => {
+// GET /api/hooks/events - Get unprocessed events, or webhook deliveries by status and hook
+hooks.get('/events', requireAdmin, async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const limit = parseInt(c.req.query('limit') || '100')
+    const status = c.req.query('status')
+    const hookId = c.req.query('hook_id')
+
+    const parsedStatus = eventStatusSchema.safeParse(status)
+    if (status !== undefined && !parsedStatus.success) {
+      return c.json({ error: 'status must be one of pending, delivered, dead' }, 400)
+    }
 
-    const events = await hookManager.getUnprocessedEvents(limit)
+    const events =
+      status === undefined && hookId === undefined
+        ? await hookManager.getUnprocessedEvents(limit)
+        : await hookManager.listEvents({ status: parsedStatus.data, hookId, limit })
 
     return c.json({
       data: events,
@@ -175,8 +246,75 @@ hooks.get('/events', async (c) => {
   }
 })
 
+// GET /api/hooks/events/:id/deliveries - Webhook delivery attempts of an event
+hooks.get('/events/:id/deliveries', requireAdmin, async (c) => {
+  try {
+    const hookManager = c.get('hookManager') as HookManager
+    const eventId = c.req.param('id')
+
+    const event = await hookManager.getEvent(eventId)
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404)
+    }
+
+    const webhookDispatcher = c.get('webhookDispatcher') as WebhookDispatcher
+    const deliveries = await webhookDispatcher.listAttempts(eventId)
+
+    return c.json({
+      data: { event, deliveries },
+    })
+  } catch (error) {
+    console.error('Error fetching deliveries:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch deliveries',
+      },
+      500
+    )
+  }
+})
+
+// POST /api/hooks/events/:id/redeliver - Send an event to its webhook again right away
+hooks.post('/events/:id/redeliver', requireAdmin, async (c) => {
+  try {
+    const hookManager = c.get('hookManager') as HookManager
+    const eventId = c.req.param('id')
+
+    const event = await hookManager.getEvent(eventId)
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404)
+    }
+    if (event.delivery_status === null) {
+      return c.json({ error: 'The hook of this event has no webhook' }, 400)
+    }
+
+    const webhookDispatcher = c.get('webhookDispatcher') as WebhookDispatcher
+    const result = await webhookDispatcher.redeliver(eventId)
+    if (!result) {
+      return c.json({ error: 'Event not found' }, 404)
+    }
+
+    return c.json({
+      success: result.status === 'delivered',
+      data: result,
+      message:
+        result.status === 'delivered'
+          ? 'Event redelivered successfully'
+          : `Redelivery failed: ${result.error}`,
+    })
+  } catch (error) {
+    console.error('Error redelivering event:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to redeliver event',
+      },
+      500
+    )
+  }
+})
+
 // POST /api/hooks/events/:id/process - Mark event as processed
-hooks.post('/events/:id/process', async (c) => {
+hooks.post('/events/:id/process', requireAdmin, async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const eventId = c.req.param('id')
@@ -199,7 +337,7 @@ hooks.post('/events/:id/process', async (c) => {
 })
 
 // POST /api/hooks/cleanup - Clean up old processed events
-hooks.post('/cleanup', async (c) => {
+hooks.post('/cleanup', requireAdmin, async (c) => {
   try {
     const hookManager = c.get('hookManager') as HookManager
     const daysToKeep = parseInt(c.req.query('days') || '7')
@@ -0,0 +1,138 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { createBackgroundJobs } from '../lib/background-jobs'
+import { JobRunner, MAX_JOB_INTERVAL_MINUTES, MIN_JOB_INTERVAL_MINUTES } from '../lib/job-runner'
+import { requireAdmin } from '../middleware/auth'
+import type { Env, Variables } from '../types'
+
+export const jobs = new Hono<{ Bindings: Env; Variables: Variables }>()
+
+// Middleware to add the job runner
+jobs.use('*', async (c, next) => {
+  if (!c.env.DB) {
+    return c.json({ error: 'Database not configured' }, 500)
+  }
+  c.set('jobRunner', new JobRunner(c.env.DB, createBackgroundJobs(c.env.DB, c.env)))
+  await next()
+})
+
+// Schema for updating a job's schedule
+const updateJobSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    interval_minutes: z
+      .number()
+      .int()
+      .min(MIN_JOB_INTERVAL_MINUTES)
+      .max(MAX_JOB_INTERVAL_MINUTES)
+      .optional(),
+  })
+  .refine((update) => Object.keys(update).length > 0, 'Nothing to update')
+
+const runStatusSchema = z.enum(['success', 'failed'])
+
+// GET /api/jobs - List the background jobs with their schedule, last run and last failure
+jobs.get('/', requireAdmin, async (c) => {
+  try {
+    const jobRunner = c.get('jobRunner') as JobRunner
+    const list = await jobRunner.listJobs()
+
+    return c.json({
+      data: list,
+      total: list.length,
+    })
+  } catch (error) {
+    console.error('Error fetching jobs:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch jobs',
+      },
+      500
+    )
+  }
+})
+
+// GET /api/jobs/runs - Run history of all jobs, filtered by job and status
+jobs.get('/runs', requireAdmin, async (c) => {
+  try {
+    const jobRunner = c.get('jobRunner') as JobRunner
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100)
+    const status = c.req.query('status')
+
+    const parsedStatus = runStatusSchema.safeParse(status)
+    if (status !== undefined && !parsedStatus.success) {
+      return c.json({ error: 'status must be one of success, failed' }, 400)
+    }
+
+    const runs = await jobRunner.listRuns({
+      jobName: c.req.query('job'),
+      status: parsedStatus.data,
+      limit,
+    })
+
+    return c.json({
+      data: runs,
+      total: runs.length,
+    })
+  } catch (error) {
+    console.error('Error fetching job runs:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch job runs',
+      },
+      500
+    )
+  }
+})
+
+// PUT /api/jobs/:name - Pause, resume or reschedule a job
+jobs.put('/:name', requireAdmin, zValidator('json', updateJobSchema), async (c) => {
+  try {
+    const jobRunner = c.get('jobRunner') as JobRunner
+    const job = await jobRunner.updateJob(c.req.param('name'), c.req.valid('json'))
+
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      data: job,
+      message: 'Job updated successfully',
+    })
+  } catch (error) {
+    console.error('Error updating job:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to update job',
+      },
+      500
+    )
+  }
+})
+
+// POST /api/jobs/:name/run - Run a job now; its schedule is left as is
+jobs.post('/:name/run', requireAdmin, async (c) => {
+  try {
+    const jobRunner = c.get('jobRunner') as JobRunner
+    const run = await jobRunner.runJob(c.req.param('name'))
+
+    if (!run) {
+      return c.json({ error: 'Job not found' }, 404)
+    }
+
+    return c.json({
+      success: run.status === 'success',
+      data: run,
+    })
+  } catch (error) {
+    console.error('Error running job:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to run job',
+      },
+      500
+    )
+  }
+})
@@ -1,15 +1,26 @@
 import { zValidator } from '@hono/zod-validator'
 import { Hono } from 'hono'
 import { z } from 'zod'
-import { HookManager } from '../lib/hook-manager'
+import { RealtimeEventLog } from '../lib/realtime-event-log'
+import { parseSubscriptionSpecs, type RealtimeSubscriptionSpec } from '../lib/realtime-filter'
+import {
+  channelShard,
+  checkShardSubscriptions,
+  getShardStub,
+  parseShardName,
+  resolveShardName,
+} from '../lib/realtime-shards'
+import { requireAdmin } from '../middleware/auth'
 import type { Env, Variables } from '../types'
-import type { CustomDurableObjectNamespace, DurableObjectStub } from '../types/cloudflare'
+import type { CustomDurableObjectNamespace } from '../types/cloudflare'
 
 export const realtime = new Hono<{ Bindings: Env; Variables: Variables }>()
 
 // Schema for subscription request
 const subscribeSchema = z.object({
   tables: z.array(z.string()).optional(),
+  // Subscriptions with event types and row filters; validated by parseSubscriptionSpecs
+  subscriptions: z.array(z.unknown()).optional(),
   hookIds: z.array(z.string()).optional(),
 })
 
@@ -47,7 +58,32 @@ realtime.get('/test-sse', async (_c) => {
   })
 })
 
+// Shard of a new connection: its `table` or `channel`, or the single table it subscribes to
+function connectionShard(query: (name: string) => string | undefined): string {
+  let subscriptions: Array<{ table: string }> | undefined
+  const raw = query('subscriptions')
+  if (raw) {
+    try {
+      const parsed: unknown = JSON.parse(raw)
+      if (Array.isArray(parsed)) {
+        subscriptions = parsed.filter((item) => typeof item?.table === 'string')
+      }
+    } catch {
+      // Invalid subscriptions are reported by the Durable Object
+    }
+  }
+
+  return resolveShardName({
+    table: query('table'),
+    channel: query('channel'),
+    tables: query('tables')?.split(','),
+    subscriptions,
+  })
+}
+
 // GET /api/realtime/sse - Server-Sent Events endpoint (using multiAuth middleware)
+// The stream is held by the Durable Object of its table or channel, which delivers the events
+// broadcast by HookManager
 realtime.get('/sse', async (c) => {
   // multiAuth middleware already handles token validation via URL parameter
   // The middleware supports both API keys and user JWT tokens
@@ -57,82 +93,159 @@ realtime.get('/sse', async (c) => {
     return c.text('Unauthorized - Authentication required', 401)
   }
 
+  if (!c.env.REALTIME) {
+    return c.json({ error: 'Realtime service not configured' }, 503)
+  }
+
+  let shard: string
+  try {
+    shard = connectionShard((name) => c.req.query(name))
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Invalid shard' }, 400)
+  }
+  const stub = getShardStub(c.env.REALTIME as CustomDurableObjectNamespace, shard)
+
+  // The client id is announced in the `connected` message; clients pass it to /subscribe.
+  // It is always made here, so a client cannot take over another's stream by naming its id
+  const url = new URL('http://internal/connect')
+  url.searchParams.set('clientId', crypto.randomUUID())
+  url.searchParams.set('shard', shard)
+  // End users only receive events for rows they can read; admins and API keys receive all
   if (authContext.type === 'user') {
+    url.searchParams.set('userId', authContext.user.id)
+    url.searchParams.set('role', authContext.user.role)
+  }
+  // Subscriptions and the `since` cursor are validated by the Durable Object, which answers
+  // 400 on errors
+  for (const name of ['tables', 'subscriptions', 'since']) {
+    const value = c.req.query(name)
+    if (value) {
+      url.searchParams.set(name, value)
+    }
   }
 
-  // Create a simple SSE stream for testing
-  const { readable, writable } = new TransformStream()
-  const writer = writable.getWriter()
-  const encoder = new TextEncoder()
+  // EventSource sends Last-Event-ID (`<table>:<seq>`) itself when it reconnects; clients
+  // opening a new EventSource pass the sequences they saw last as `since` instead
+  const lastEventId = c.req.header('Last-Event-ID') || c.req.query('lastEventId')
+  if (lastEventId) {
+    url.searchParams.set('lastEventId', lastEventId)
+  }
 
-  // Send initial connection message
-  writer.write(
-    encoder.encode(`data: {"type":"connected","timestamp":"${new Date().toISOString()}"}\n\n`)
-  )
+  const response = await stub.fetch(url.toString(), { signal: c.req.raw.signal })
 
-  // Send an immediate test event after connection
-  setTimeout(() => {
-    writer.write(
-      encoder.encode(
-        `data: {"type":"insert","table":"tasks","record":{"id":"test-123","title":"Test Event","created_at":"${new Date().toISOString()}"}}\n\n`
-      )
-    )
-  }, 100)
+  // Copy the response, as headers of responses from Durable Objects are immutable
+  return new Response(response.body, {
+    status: response.status,
+    headers: response.headers,
+  })
+})
 
-  // Send test events every 2 seconds
-  const interval = setInterval(() => {
-    writer.write(
-      encoder.encode(
-        `data: {"type":"insert","table":"tasks","record":{"id":"test-${Date.now()}","title":"Test Event ${Date.now()}","created_at":"${new Date().toISOString()}"}}\n\n`
-      )
-    )
-  }, 2000)
+// GET /api/realtime/ws - WebSocket endpoint
+// The connection is held by the Durable Object of its table or channel, which hibernates
+// between messages; clients send subscribe/unsubscribe/ping frames on the socket instead of
+// calling /subscribe
+realtime.get('/ws', async (c) => {
+  // multiAuth accepts the token as a URL parameter here, as browsers cannot send headers
+  const authContext = c.get('authContext')
 
-  // Cleanup after 30 seconds
-  setTimeout(() => {
-    clearInterval(interval)
-    writer.close()
-  }, 30000)
+  if (!authContext) {
+    return c.text('Unauthorized - Authentication required', 401)
+  }
 
-  return new Response(readable, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-    },
-  })
+  if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+    return c.text('Expected WebSocket upgrade', 426)
+  }
+
+  if (!c.env.REALTIME) {
+    return c.json({ error: 'Realtime service not configured' }, 503)
+  }
+
+  let shard: string
+  try {
+    shard = connectionShard((name) => c.req.query(name))
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Invalid shard' }, 400)
+  }
+  const stub = getShardStub(c.env.REALTIME as CustomDurableObjectNamespace, shard)
+
+  // As for SSE, the client id is never taken from the client
+  const url = new URL('http://internal/websocket')
+  url.searchParams.set('clientId', crypto.randomUUID())
+  url.searchParams.set('shard', shard)
+  // End users only receive events for rows they can read; admins and API keys receive all
+  if (authContext.type === 'user') {
+    url.searchParams.set('userId', authContext.user.id)
+    url.searchParams.set('role', authContext.user.role)
+  }
+  // Subscriptions and the `since` cursor are validated by the Durable Object, which answers
+  // 400 on errors
+  for (const name of ['tables', 'subscriptions', 'since']) {
+    const value = c.req.query(name)
+    if (value) {
+      url.searchParams.set(name, value)
+    }
+  }
+
+  return (await stub.fetch(url.toString(), {
+    headers: c.req.raw.headers,
+  })) as unknown as Response
 })
 
-// POST /api/realtime/subscribe - Update subscriptions
+// POST /api/realtime/subscribe?table=<table> - Update subscriptions
+// The connection's table may be left out when the subscriptions name a single table
 realtime.post('/subscribe', zValidator('json', subscribeSchema), async (c) => {
   try {
-    const { tables, hookIds } = c.req.valid('json')
+    const { tables, subscriptions, hookIds } = c.req.valid('json')
     const clientId = c.req.header('X-Client-Id')
 
     if (!clientId) {
       return c.json({ error: 'Missing X-Client-Id header' }, 400)
     }
 
+    let specs: RealtimeSubscriptionSpec[] | undefined
+    let shard: string
+    try {
+      specs = subscriptions ? parseSubscriptionSpecs(subscriptions) : undefined
+      shard = resolveShardName({ table: c.req.query('table'), tables, subscriptions: specs })
+      const parsedShard = parseShardName(shard)
+      if (parsedShard) {
+        checkShardSubscriptions(parsedShard, [
+          ...(tables ?? []).map((table) => ({ id: table, table })),
+          ...(specs ?? []),
+        ])
+      }
+    } catch (error) {
+      return c.json(
+        { error: error instanceof Error ? error.message : 'Invalid subscriptions' },
+        400
+      )
+    }
+
     if (!c.env.REALTIME) {
       return c.json({ error: 'Realtime service not configured' }, 503)
     }
 
-    // Get Durable Object
-    const realtime = c.env.REALTIME as CustomDurableObjectNamespace
-    const id = realtime.idFromName('global')
-    const stub = realtime.get(id)
+    // Update subscriptions on the shard holding the connection
+    const stub = getShardStub(c.env.REALTIME as CustomDurableObjectNamespace, shard)
+    if (!stub.updateSubscriptions) {
+      return c.json({ error: 'Realtime subscriptions not available' }, 503)
+    }
 
-    // Update subscriptions
-    const extendedStub = stub as DurableObjectStub
-    if (extendedStub.updateSubscriptions) {
-      await extendedStub.updateSubscriptions(clientId, { tables, hookIds })
+    // As for channel messages, the connection must have been opened by the caller
+    const authContext = c.get('authContext')
+    const userId = authContext?.type === 'user' ? authContext.user.id : undefined
+    const result = await stub.updateSubscriptions(clientId, userId, { tables, specs, hookIds })
+    if (!result.success) {
+      return c.json(
+        { error: result.error ?? 'Subscription update rejected' },
+        (result.status ?? 400) as 400 | 403 | 404
+      )
     }
 
     return c.json({
       success: true,
       message: 'Subscriptions updated',
-      subscriptions: { tables, hookIds },
+      subscriptions: { tables, subscriptions: specs, hookIds },
     })
   } catch (error) {
     console.error('Error updating subscriptions:', error)
@@ -145,20 +258,73 @@ realtime.post('/subscribe', zValidator('json', subscribeSchema), async (c) => {
   }
 })
 
-// POST /api/realtime/process-events - Process failed events from queue
-// This endpoint is called periodically to retry failed events (backup mechanism)
-realtime.post('/process-events', async (c) => {
+// Schema for channel messages of SSE clients (WebSocket clients send them as frames)
+const channelMessageSchema = z.object({
+  type: z.enum(['join', 'track', 'untrack', 'leave', 'broadcast']),
+  presence: z.record(z.unknown()).optional(),
+  event: z.string().optional(),
+  payload: z.unknown().optional(),
+})
+
+// POST /api/realtime/channels/:channel - Join, track presence in, leave or broadcast to a channel
+realtime.post('/channels/:channel', zValidator('json', channelMessageSchema), async (c) => {
+  try {
+    const authContext = c.get('authContext')
+    const clientId = c.req.header('X-Client-Id')
+
+    if (!clientId) {
+      return c.json({ error: 'Missing X-Client-Id header' }, 400)
+    }
+
+    if (!c.env.REALTIME) {
+      return c.json({ error: 'Realtime service not configured' }, 503)
+    }
+
+    const channel = c.req.param('channel')
+    const stub = getShardStub(c.env.REALTIME as CustomDurableObjectNamespace, channelShard(channel))
+    if (!stub.channelMessage) {
+      return c.json({ error: 'Realtime channels not available' }, 503)
+    }
+
+    // The stream's identity is checked against the caller's, so a client id alone is not enough
+    const userId = authContext?.type === 'user' ? authContext.user.id : undefined
+    const result = await stub.channelMessage(clientId, userId, {
+      ...c.req.valid('json'),
+      channel,
+    })
+
+    if (!result.success) {
+      return c.json(
+        { error: result.error ?? 'Channel message rejected' },
+        (result.status ?? 400) as 400 | 403 | 404
+      )
+    }
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error handling channel message:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to handle channel message',
+      },
+      500
+    )
+  }
+})
+
+// POST /api/realtime/process-events - Retry broadcasts that failed
+// The cron trigger retries them on its own schedule (see job-runner.ts); this runs a retry now
+realtime.post('/process-events', requireAdmin, async (c) => {
   try {
     if (!c.env.DB || !c.env.REALTIME) {
       return c.json({ error: 'Required services not configured' }, 503)
     }
 
-    const hookManager = new HookManager(c.env.DB)
-
-    // Get unprocessed events (these are typically failed immediate broadcasts)
-    const events = await hookManager.getUnprocessedEvents(100)
+    const { processed, total } = await new RealtimeEventLog(c.env.DB).retryUnpublished(
+      c.env.REALTIME as CustomDurableObjectNamespace
+    )
 
-    if (events.length === 0) {
+    if (total === 0) {
       return c.json({
         success: true,
         message: 'No failed events to retry',
@@ -166,53 +332,11 @@ realtime.post('/process-events', async (c) => {
       })
     }
 
-    // Get Durable Object
-    const realtime = c.env.REALTIME as CustomDurableObjectNamespace
-    const id = realtime.idFromName('global')
-    const stub = realtime.get(id)
-
-    let processedCount = 0
-
-    // Process each event
-    for (const event of events) {
-      try {
-        // Parse event data
-        const eventData = JSON.parse(event.event_data)
-
-        // Broadcast to connected clients
-        const broadcastResponse = await stub.fetch('http://internal/broadcast', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            type: 'event',
-            event: {
-              id: event.id,
-              table: event.table_name,
-              recordId: event.record_id,
-              eventType: event.event_type,
-              data: eventData,
-              timestamp: event.created_at,
-            },
-          }),
-        })
-
-        if (broadcastResponse.ok) {
-          // Mark event as processed
-          await hookManager.markEventProcessed(event.id)
-          processedCount++
-        }
-      } catch (error) {
-        console.error(`Failed to process event ${event.id}:`, error)
-      }
-    }
-
     return c.json({
       success: true,
-      message: `Retried ${processedCount} of ${events.length} failed events`,
-      processed: processedCount,
-      total: events.length,
+      message: `Retried ${processed} of ${total} failed events`,
+      processed,
+      total,
     })
   } catch (error) {
     console.error('Error processing events:', error)
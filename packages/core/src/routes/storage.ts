@@ -1,7 +1,67 @@
 import type { Context } from 'hono'
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
+import { getAuditActor } from '../lib/audit-log'
+import {
+  checkPresetInput,
+  type ImagePresetInput,
+  ImagePresetManager,
+  isValidPresetName,
+} from '../lib/image-presets'
+import {
+  checkSourceImage,
+  decodeImage,
+  deleteTransformedCopies,
+  deleteTransformedImages,
+  detectImageFormat,
+  getTransformKey,
+  IMAGE_CONTENT_TYPES,
+  isTransformKey,
+  MAX_SOURCE_SIZE,
+  readImageSize,
+  renderImage,
+} from '../lib/image-transforms'
+import {
+  checkMultipartInput,
+  checkPartNumber,
+  checkPartsComplete,
+  MAX_PART_SIZE,
+  MAX_PARTS,
+  MIN_PART_SIZE,
+  type MultipartPart,
+  type MultipartUpload,
+  MultipartUploadManager,
+} from '../lib/multipart-uploads'
+import {
+  buildSignedUrlPath,
+  checkSignedUrlInput,
+  parseSignedUrlParams,
+  type SignedUrlAction,
+  SignedUrlManager,
+} from '../lib/signed-urls'
+import {
+  type ByteRange,
+  checkCacheControl,
+  checkCachePrefix,
+  DEFAULT_CACHE_CONTROL,
+  ifRangeMatches,
+  isNotModified,
+  parseRange,
+  StorageCacheRuleManager,
+} from '../lib/storage-cache'
+import {
+  BUCKET_ACCESS_POLICIES,
+  type BucketAccessPolicy,
+  canAccessObject,
+  getBucketName,
+  isValidBucketName,
+  OWNER_METADATA_KEY,
+  type StorageOperation,
+  StoragePolicyManager,
+} from '../lib/storage-policies'
+import { getAuthContext, getCurrentEndUser, requireAdmin } from '../middleware/auth'
 import type { Env, Variables } from '../types'
+import type { R2Bucket, R2Object } from '../types/cloudflare'
 import { ErrorCode } from '../types/errors'
 
 // Response types for Storage API
@@ -36,10 +96,207 @@ const errorResponse = (
       success: false,
       error: { code, message },
     },
-    status as 400 | 403 | 404 | 500
+    status as 400 | 403 | 404 | 413 | 416 | 500
   )
 }
 
+// Origin of the worker, for absolute URLs in responses
+const getBaseUrl = (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const host = c.req.header('host') || c.env.WORKER_DOMAIN || 'localhost:8787'
+  const protocol =
+    c.req.header('x-forwarded-proto') || (host.includes('localhost') ? 'http' : 'https')
+  return `${protocol}://${host}`
+}
+
+// Signed URLs are signed with the server secret and recorded in D1, so both are required
+const getSignedUrlManager = (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  if (!c.env.DB || !c.env.JWT_SECRET) return null
+  return new SignedUrlManager(c.env.DB, c.env.JWT_SECRET)
+}
+
+// Optional numeric parameter; undefined when absent, NaN when malformed
+const optionalNumber = (value: string | number | null | undefined) =>
+  value === undefined || value === null || value === '' ? undefined : Number(value)
+
+// Creator recorded on signed URLs, as `<actor type>:<actor id>`
+const getCreator = (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const actor = getAuditActor(getAuthContext(c))
+  return actor.id ? `${actor.type}:${actor.id}` : null
+}
+
+// Issue a signed URL and return it with its grant
+const createSignedUrl = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  manager: SignedUrlManager,
+  input: {
+    key: string
+    action: SignedUrlAction
+    contentType?: string | null
+    maxSize?: number
+    expiresIn?: number
+  }
+) => {
+  const { grant, params } = await manager.create({ ...input, createdBy: getCreator(c) })
+  return { grant, url: `${getBaseUrl(c)}${buildSignedUrlPath(grant.object_key, params)}` }
+}
+
+// Response streaming a stored object, or the requested range of it, with its HTTP metadata
+const objectResponse = (object: R2Object, cacheControl: string, range?: ByteRange | null) => {
+  const headers = new Headers()
+  if (object.httpMetadata?.contentType) {
+    headers.set('Content-Type', object.httpMetadata.contentType)
+  }
+  if (object.httpMetadata?.contentLanguage) {
+    headers.set('Content-Language', object.httpMetadata.contentLanguage)
+  }
+  if (object.httpMetadata?.contentDisposition) {
+    headers.set('Content-Disposition', object.httpMetadata.contentDisposition)
+  }
+  if (object.httpMetadata?.contentEncoding) {
+    headers.set('Content-Encoding', object.httpMetadata.contentEncoding)
+  }
+
+  headers.set('Cache-Control', cacheControl)
+  headers.set('Accept-Ranges', 'bytes')
+  headers.set('ETag', object.httpEtag)
+  headers.set('Last-Modified', object.uploaded.toUTCString())
+
+  if (range) {
+    const end = range.offset + range.length - 1
+    headers.set('Content-Range', `bytes ${range.offset}-${end}/${object.size}`)
+    headers.set('Content-Length', range.length.toString())
+    return new Response(object.body, { status: 206, headers })
+  }
+
+  headers.set('Content-Length', object.size.toString())
+  return new Response(object.body, { headers })
+}
+
+// Cache-Control of a file: its own, else that of the longest matching prefix rule
+const resolveCacheControl = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  object: R2Object
+) => {
+  if (object.httpMetadata?.cacheControl) return object.httpMetadata.cacheControl
+  if (!c.env.DB) return DEFAULT_CACHE_CONTROL
+
+  try {
+    const ruled = await new StorageCacheRuleManager(c.env.DB).getCacheControl(object.key)
+    return ruled ?? DEFAULT_CACHE_CONTROL
+  } catch (error) {
+    // The download goes on without the rules
+    console.error('Error reading storage cache rules:', error)
+    return DEFAULT_CACHE_CONTROL
+  }
+}
+
+// Serve the content of an object found with head(), answering conditional requests with 304
+// and Range requests with 206. Only the requested bytes are read from R2
+const serveObject = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  bucket: R2Bucket,
+  head: R2Object,
+  cacheControl?: string
+) => {
+  cacheControl ??= await resolveCacheControl(c, head)
+  if (isNotModified(c.req.raw.headers, head)) {
+    return new Response(null, {
+      status: 304,
+      headers: {
+        'Cache-Control': cacheControl,
+        ETag: head.httpEtag,
+        'Last-Modified': head.uploaded.toUTCString(),
+      },
+    })
+  }
+
+  // A Range for another version of the file than the client has is answered with all of it
+  const ifRange = c.req.header('if-range')
+  const range =
+    ifRange && !ifRangeMatches(ifRange, head) ? null : parseRange(c.req.header('range'), head.size)
+  if (range === 'unsatisfiable') {
+    c.header('Content-Range', `bytes */${head.size}`)
+    return errorResponse(c, 416, ErrorCode.VALIDATION_FAILED, 'Requested range is not satisfiable')
+  }
+
+  const object = await bucket.get(head.key, range ? { range } : undefined)
+  if (!object) {
+    return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
+  }
+  return objectResponse(object, cacheControl, range)
+}
+
+// Refuse an end user's access to an object that its bucket policy or its owner does not allow
+// Admins and API keys reach every object. Returns the refusing response, or null when allowed
+const authorizeObject = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  bucket: R2Bucket,
+  key: string,
+  operation: StorageOperation,
+  object?: R2Object | null
+) => {
+  const user = getCurrentEndUser(c)
+  if (!user) return null
+  if (!c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+
+  // Transformed images are only served through the transform endpoint, which checks the source
+  if (isTransformKey(key)) {
+    return operation === 'read'
+      ? errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
+      : errorResponse(c, 403, ErrorCode.UNAUTHORIZED_OPERATION, 'This path is reserved')
+  }
+
+  const policy = await new StoragePolicyManager(c.env.DB).getBucketPolicy(getBucketName(key))
+  if (policy === 'private') {
+    return errorResponse(c, 403, ErrorCode.UNAUTHORIZED_OPERATION, 'This bucket is private')
+  }
+
+  const existing = object === undefined ? await bucket.head(key) : object
+  const allowed = canAccessObject(policy, operation, user.id, {
+    exists: Boolean(existing),
+    ownerId: existing?.customMetadata?.[OWNER_METADATA_KEY],
+  })
+  if (allowed) return null
+
+  // Other users' objects are not disclosed to readers
+  return operation === 'read'
+    ? errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
+    : errorResponse(c, 403, ErrorCode.UNAUTHORIZED_OPERATION, 'Only the owner can change this file')
+}
+
+// Custom metadata to store with a written object. An end user is recorded as its owner and
+// cannot set the owner key; admins and API keys keep the current owner unless they set one
+const withOwner = (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  metadata: Record<string, string>,
+  existing?: R2Object | null
+): Record<string, string> => {
+  const { [OWNER_METADATA_KEY]: requestedOwner, ...rest } = metadata
+  const user = getCurrentEndUser(c)
+  const ownerId = user
+    ? user.id
+    : (requestedOwner ?? existing?.customMetadata?.[OWNER_METADATA_KEY])
+  return ownerId ? { ...rest, [OWNER_METADATA_KEY]: ownerId } : rest
+}
+
+// Deletes the transformed copies of objects that were deleted, moved or overwritten. The
+// operation itself has succeeded by then, so a failure is only logged
+const dropTransformedCopies = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  bucket: R2Bucket,
+  keys: string[]
+) => {
+  if (!c.env.DB || keys.length === 0) return
+  try {
+    const presets = await new ImagePresetManager(c.env.DB).listPresets()
+    await deleteTransformedCopies(bucket, keys, presets)
+  } catch (error) {
+    console.error('Error deleting transformed copies:', error)
+  }
+}
+
 // ファイル一覧取得
 storage.get('/files', async (c) => {
   const bucket = c.env.USER_STORAGE
@@ -58,14 +315,36 @@ storage.get('/files', async (c) => {
 
   const { prefix, limit = 100, cursor, extension } = c.req.query()
 
+  const user = getCurrentEndUser(c)
+  if (user && !c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+
   try {
     const result = await bucket.list({
       prefix,
       limit: parseInt(limit.toString()),
       cursor,
+      include: ['httpMetadata', 'customMetadata'],
     })
 
-    let filteredFiles = result.objects.map((obj) => ({
+    // Transformed copies are not listed. End users only see the objects their bucket policies
+    // let them read
+    let objects = result.objects.filter((obj) => !isTransformKey(obj.key))
+    if (user && c.env.DB) {
+      const policies = new StoragePolicyManager(c.env.DB)
+      const readable: R2Object[] = []
+      for (const obj of objects) {
+        const policy = await policies.getBucketPolicy(getBucketName(obj.key))
+        const ownerId = obj.customMetadata?.[OWNER_METADATA_KEY]
+        if (canAccessObject(policy, 'read', user.id, { exists: true, ownerId })) {
+          readable.push(obj)
+        }
+      }
+      objects = readable
+    }
+
+    let filteredFiles = objects.map((obj) => ({
       name: obj.key,
       size: obj.size,
       contentType: obj.httpMetadata?.contentType || 'application/octet-stream',
@@ -159,6 +438,11 @@ storage.post('/files', async (c) => {
     const path = (formData.get('path') as string) || ''
     const contentType = (formData.get('content_type') as string) || ''
     const metadataString = (formData.get('metadata') as string) || ''
+    const cacheControl = (formData.get('cache_control') as string) || undefined
+    const invalidCacheControl = cacheControl === undefined ? null : checkCacheControl(cacheControl)
+    if (invalidCacheControl) {
+      return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalidCacheControl)
+    }
 
     // Parse metadata from form data
     let customMetadata: Record<string, string> = {
@@ -178,14 +462,20 @@ storage.post('/files', async (c) => {
     }
 
     const key = path ? `${path}/${fileObj.name}` : fileObj.name
+    const existing = await bucket.head(key)
+    const denied = await authorizeObject(c, bucket, key, 'write', existing)
+    if (denied) return denied
+
     const buffer = await fileObj.arrayBuffer()
 
     const result = await bucket.put(key, buffer, {
       httpMetadata: {
         contentType: contentType || fileObj.type || 'application/octet-stream',
+        cacheControl,
       },
-      customMetadata,
+      customMetadata: withOwner(c, customMetadata, existing),
     })
+    if (existing) await dropTransformedCopies(c, bucket, [key])
 
     return c.json({
       success: true,
@@ -246,6 +536,17 @@ storage.put('/files/:fileName', async (c) => {
       )
     }
 
+    // Cache-Control the file is served with, when the upload sets one
+    const cacheControl = c.req.header('x-cache-control')
+    const invalidCacheControl = cacheControl === undefined ? null : checkCacheControl(cacheControl)
+    if (invalidCacheControl) {
+      return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalidCacheControl)
+    }
+
+    const existing = await bucket.head(fileName)
+    const denied = await authorizeObject(c, bucket, fileName, 'write', existing)
+    if (denied) return denied
+
     // Get binary data from request body
     const arrayBuffer = await c.req.arrayBuffer()
     const contentType = c.req.header('content-type') || 'application/octet-stream'
@@ -262,14 +563,17 @@ storage.put('/files/:fileName', async (c) => {
     // Add default metadata
     customMetadata.originalName = fileName
     customMetadata.uploadedAt = new Date().toISOString()
+    const storedMetadata = withOwner(c, customMetadata, existing)
 
     // Upload to R2
     const uploadResult = await bucket.put(fileName, arrayBuffer, {
-      customMetadata,
+      customMetadata: storedMetadata,
       httpMetadata: {
         contentType,
+        cacheControl,
       },
     })
+    if (existing) await dropTransformedCopies(c, bucket, [fileName])
 
     // Get file URL
     const host = c.req.header('host') || c.env.WORKER_DOMAIN || 'localhost:8787'
@@ -287,7 +591,7 @@ storage.put('/files/:fileName', async (c) => {
         contentType,
         lastModified: uploadResult.uploaded.toISOString(),
         etag: uploadResult.etag,
-        metadata: customMetadata,
+        metadata: storedMetadata,
       },
     }
 
@@ -326,6 +630,9 @@ storage.get('/files/:fileName/download', async (c) => {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
 
+    const denied = await authorizeObject(c, bucket, fileName, 'read', object)
+    if (denied) return denied
+
     // ダウンロードURLを返す（実際のファイル取得は別エンドポイント）
     const host = c.req.header('host') || c.env.WORKER_DOMAIN || 'localhost:8787'
     const protocol =
@@ -371,39 +678,111 @@ storage.get('/files/:fileName/content', async (c) => {
   }
 
   try {
-    const object = await bucket.get(fileName)
+    const object = await bucket.head(fileName)
     if (!object) {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
 
-    const headers = new Headers()
-    if (object.httpMetadata?.contentType) {
-      headers.set('Content-Type', object.httpMetadata.contentType)
+    const denied = await authorizeObject(c, bucket, fileName, 'read', object)
+    if (denied) return denied
+
+    return await serveObject(c, bucket, object)
+  } catch (error) {
+    console.error('Error downloading file:', error)
+    if (error instanceof HTTPException) {
+      return errorResponse(c, error.status, ErrorCode.STORAGE_OPERATION_FAILED, error.message)
+    }
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to download file')
+  }
+})
+
+// GET /api/storage/files/:fileName/transform?preset=<name> - The image transformed by a preset
+// The result is stored under a derived key and reused until the file or the preset changes
+storage.get('/files/:fileName/transform', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+  if (!c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+
+  const fileName = c.req.param('fileName')
+  const presetName = c.req.query('preset')
+  if (!presetName) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'preset is required')
+  }
+
+  try {
+    const preset = await new ImagePresetManager(c.env.DB).getPreset(presetName)
+    if (!preset) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Image preset not found')
+    }
+
+    const source = await bucket.head(fileName)
+    if (!source) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
+    }
+
+    const denied = await authorizeObject(c, bucket, fileName, 'read', source)
+    if (denied) return denied
+
+    // The copy is served with the Cache-Control of its source
+    const cacheControl = await resolveCacheControl(c, source)
+    const key = getTransformKey(fileName, preset.name, preset.format)
+    const cached = await bucket.head(key)
+    if (
+      cached?.customMetadata?.sourceEtag === source.etag &&
+      cached.customMetadata?.presetUpdatedAt === preset.updated_at
+    ) {
+      return await serveObject(c, bucket, cached, cacheControl)
+    }
+
+    if (source.size > MAX_SOURCE_SIZE) {
+      return errorResponse(
+        c,
+        413,
+        ErrorCode.VALIDATION_FAILED,
+        `Images larger than ${MAX_SOURCE_SIZE} bytes cannot be transformed`
+      )
     }
-    if (object.httpMetadata?.contentLanguage) {
-      headers.set('Content-Language', object.httpMetadata.contentLanguage)
+
+    const original = await bucket.get(fileName)
+    if (!original) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
-    if (object.httpMetadata?.contentDisposition) {
-      headers.set('Content-Disposition', object.httpMetadata.contentDisposition)
+    const data = await original.arrayBuffer()
+    const bytes = new Uint8Array(data)
+    const format = detectImageFormat(bytes)
+    if (!format) {
+      return errorResponse(
+        c,
+        400,
+        ErrorCode.VALIDATION_FAILED,
+        'File is not a JPEG, PNG, WebP or AVIF image'
+      )
     }
-    if (object.httpMetadata?.contentEncoding) {
-      headers.set('Content-Encoding', object.httpMetadata.contentEncoding)
+
+    // The size is checked from the header, before decoding allocates the pixels
+    const size = readImageSize(bytes, format)
+    if (!size) {
+      return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Image header cannot be read')
     }
-    if (object.httpMetadata?.cacheControl) {
-      headers.set('Cache-Control', object.httpMetadata.cacheControl)
+    const tooLarge = checkSourceImage(size)
+    if (tooLarge) {
+      return errorResponse(c, 413, ErrorCode.VALIDATION_FAILED, tooLarge)
     }
 
-    headers.set('Content-Length', object.size.toString())
-    headers.set('ETag', object.httpEtag)
-    headers.set('Last-Modified', object.uploaded.toUTCString())
+    const image = await decodeImage(data, format)
 
-    return new Response(object.body, { headers })
+    const transformed = await bucket.put(key, await renderImage(image, preset), {
+      httpMetadata: { contentType: IMAGE_CONTENT_TYPES[preset.format] },
+      customMetadata: { sourceEtag: source.etag, presetUpdatedAt: preset.updated_at },
+    })
+    return await serveObject(c, bucket, transformed, cacheControl)
   } catch (error) {
-    console.error('Error downloading file:', error)
-    if (error instanceof HTTPException) {
-      return errorResponse(c, error.status, ErrorCode.STORAGE_OPERATION_FAILED, error.message)
-    }
-    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to download file')
+    console.error('Error transforming image:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to transform image')
   }
 })
 
@@ -434,6 +813,9 @@ storage.get('/files/:fileName', async (c) => {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
 
+    const denied = await authorizeObject(c, bucket, fileName, 'read', object)
+    if (denied) return denied
+
     return c.json({
       success: true,
       data: {
@@ -483,7 +865,11 @@ storage.delete('/files/:fileName', async (c) => {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
 
+    const denied = await authorizeObject(c, bucket, fileName, 'write', existing)
+    if (denied) return denied
+
     await bucket.delete(fileName)
+    await dropTransformedCopies(c, bucket, [fileName])
     return c.json({
       success: true,
       data: {
@@ -525,7 +911,24 @@ storage.delete('/files', async (c) => {
   }
 
   try {
+    // Nothing is deleted unless the end user may delete every file
+    if (getCurrentEndUser(c)) {
+      const refused: string[] = []
+      for (const key of keys) {
+        if (await authorizeObject(c, bucket, key, 'write')) refused.push(key)
+      }
+      if (refused.length > 0) {
+        return errorResponse(
+          c,
+          403,
+          ErrorCode.UNAUTHORIZED_OPERATION,
+          `Not allowed to delete: ${refused.join(', ')}`
+        )
+      }
+    }
+
     await bucket.delete(keys)
+    await dropTransformedCopies(c, bucket, keys)
     return c.json({
       success: true,
       message: `${keys.length} files deleted successfully`,
@@ -543,73 +946,69 @@ storage.delete('/files', async (c) => {
 storage.get('/files/:fileName/url', async (c) => {
   const bucket = c.env.USER_STORAGE
   if (!bucket) {
-    return c.json(
-      {
-        success: false,
-        error: {
-          code: ErrorCode.STORAGE_OPERATION_FAILED,
-          message: 'R2 bucket not configured',
-        },
-      },
-      500
-    )
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
   }
 
   const fileName = c.req.param('fileName')
-  const expiresIn = c.req.query('expires_in')
-
   if (!fileName || fileName.trim() === '') {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'File name is required')
   }
 
+  const manager = getSignedUrlManager(c)
+  if (!manager) {
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Signed URLs require a database and a server secret'
+    )
+  }
+
+  const input = {
+    key: fileName,
+    action: 'download' as const,
+    expiresIn: optionalNumber(c.req.query('expires_in')),
+  }
+  const invalid = checkSignedUrlInput(input)
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
   try {
-    // R2では事前署名URLは直接生成する機能がないため、ダウンロードURLを返す
-    const expirationTime = expiresIn
-      ? new Date(Date.now() + parseInt(expiresIn) * 1000)
-      : new Date(Date.now() + 3600000) // 1時間デフォルト
+    const denied = await authorizeObject(c, bucket, fileName, 'read')
+    if (denied) return denied
 
-    const host = c.req.header('host') || c.env.WORKER_DOMAIN || 'localhost:8787'
-    const protocol =
-      c.req.header('x-forwarded-proto') || (host.includes('localhost') ? 'http' : 'https')
-    const baseUrl = `${protocol}://${host}`
+    const signed = await createSignedUrl(c, manager, input)
 
     return c.json({
       success: true,
       data: {
-        url: `${baseUrl}/api/storage/files/${encodeURIComponent(fileName)}/content`,
-        expires_at: expirationTime.toISOString(),
+        id: signed.grant.id,
+        url: signed.url,
+        expires_at: signed.grant.expires_at,
       },
     })
   } catch (error) {
-    console.error('Error generating presigned URL:', error)
+    console.error('Error generating signed URL:', error)
     return errorResponse(
       c,
       500,
       ErrorCode.STORAGE_OPERATION_FAILED,
-      'Failed to generate presigned URL'
+      'Failed to generate signed URL'
     )
   }
 })
 
-// GET /api/storage/files/:fileName/presigned-url - Get presigned URL with action
+// GET /api/storage/files/:fileName/presigned-url - Get a signed URL for one action
+// Upload URLs can be limited to a content type and a size in bytes
 storage.get('/files/:fileName/presigned-url', async (c) => {
   const bucket = c.env.USER_STORAGE
   if (!bucket) {
-    return c.json(
-      {
-        success: false,
-        error: {
-          code: ErrorCode.STORAGE_OPERATION_FAILED,
-          message: 'R2 bucket not configured',
-        },
-      },
-      500
-    )
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
   }
 
   const fileName = c.req.param('fileName')
   const action = c.req.query('action')
-  const expiresIn = c.req.query('expires_in')
 
   if (!fileName || fileName.trim() === '') {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'File name is required')
@@ -624,26 +1023,55 @@ storage.get('/files/:fileName/presigned-url', async (c) => {
     )
   }
 
-  try {
-    const expirationTime = expiresIn
-      ? new Date(Date.now() + parseInt(expiresIn) * 1000)
-      : new Date(Date.now() + 3600000)
+  if (action === 'upload' && (fileName.includes('..') || fileName.includes('\\'))) {
+    return errorResponse(
+      c,
+      400,
+      ErrorCode.VALIDATION_FAILED,
+      'Invalid file name: Path traversal patterns are not allowed'
+    )
+  }
 
-    const host = c.req.header('host') || c.env.WORKER_DOMAIN || 'localhost:8787'
-    const protocol =
-      c.req.header('x-forwarded-proto') || (host.includes('localhost') ? 'http' : 'https')
-    const baseUrl = `${protocol}://${host}`
+  const manager = getSignedUrlManager(c)
+  if (!manager) {
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Signed URLs require a database and a server secret'
+    )
+  }
+
+  const input = {
+    key: fileName,
+    action: action as SignedUrlAction,
+    contentType: c.req.query('content_type'),
+    maxSize: optionalNumber(c.req.query('max_size')),
+    expiresIn: optionalNumber(c.req.query('expires_in')),
+  }
+  const invalid = checkSignedUrlInput(input)
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
+  try {
+    const denied = await authorizeObject(
+      c,
+      bucket,
+      fileName,
+      action === 'upload' ? 'write' : 'read'
+    )
+    if (denied) return denied
 
-    const url =
-      action === 'upload'
-        ? `${baseUrl}/api/storage/files/${encodeURIComponent(fileName)}/upload`
-        : `${baseUrl}/api/storage/files/${encodeURIComponent(fileName)}/content`
+    const signed = await createSignedUrl(c, manager, input)
 
     return c.json({
       success: true,
       data: {
-        url,
-        expires_at: expirationTime.toISOString(),
+        id: signed.grant.id,
+        url: signed.url,
+        method: action === 'upload' ? 'PUT' : 'GET',
+        expires_at: signed.grant.expires_at,
       },
     })
   } catch (error) {
@@ -678,17 +1106,30 @@ storage.patch('/files/:fileName/metadata', async (c) => {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'File name is required')
   }
 
-  let metadata: Record<string, string>
+  let metadata: Record<string, string> | undefined
+  // undefined keeps the file's Cache-Control; null removes it
+  let cacheControl: string | null | undefined
   try {
-    const body = (await c.req.json()) as { metadata: Record<string, string> }
+    const body = (await c.req.json()) as {
+      metadata?: Record<string, string>
+      cache_control?: string | null
+    }
     metadata = body.metadata
+    cacheControl = body.cache_control
   } catch (_error) {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
   }
 
-  if (!metadata || typeof metadata !== 'object') {
+  if (metadata === undefined && cacheControl === undefined) {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Metadata is required')
   }
+  if (metadata !== undefined && (!metadata || typeof metadata !== 'object')) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Metadata must be an object')
+  }
+  const invalidCacheControl = cacheControl ? checkCacheControl(cacheControl) : null
+  if (invalidCacheControl) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalidCacheControl)
+  }
 
   try {
     // ファイルの存在確認
@@ -697,21 +1138,32 @@ storage.patch('/files/:fileName/metadata', async (c) => {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
 
+    const denied = await authorizeObject(c, bucket, fileName, 'write', existingObject)
+    if (denied) return denied
+
     // メタデータの更新のため、既存ファイルを再アップロード
     const fileObject = await bucket.get(fileName)
     if (!fileObject) {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
     }
 
-    const updatedMetadata = {
-      ...existingObject.customMetadata,
-      ...metadata,
-      updatedAt: new Date().toISOString(),
-    }
+    const updatedMetadata = withOwner(
+      c,
+      {
+        ...existingObject.customMetadata,
+        ...metadata,
+        updatedAt: new Date().toISOString(),
+      },
+      existingObject
+    )
 
     // ファイルを同じ内容で再アップロード（メタデータ更新のため）
+    const httpMetadata =
+      cacheControl === undefined
+        ? existingObject.httpMetadata
+        : { ...existingObject.httpMetadata, cacheControl: cacheControl || undefined }
     const result = await bucket.put(fileName, await fileObject.arrayBuffer(), {
-      httpMetadata: existingObject.httpMetadata,
+      httpMetadata,
       customMetadata: updatedMetadata,
     })
 
@@ -724,6 +1176,7 @@ storage.patch('/files/:fileName/metadata', async (c) => {
         lastModified: result.uploaded?.toISOString(),
         etag: result.etag,
         metadata: updatedMetadata,
+        cacheControl: httpMetadata?.cacheControl ?? null,
       },
     })
   } catch (error) {
@@ -779,15 +1232,32 @@ storage.post('/copy', async (c) => {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Source file metadata not found')
     }
 
+    const deniedSource = await authorizeObject(c, bucket, source, 'read', sourceHead)
+    if (deniedSource) return deniedSource
+    const destinationHead = await bucket.head(destination)
+    const deniedDestination = await authorizeObject(
+      c,
+      bucket,
+      destination,
+      'write',
+      destinationHead
+    )
+    if (deniedDestination) return deniedDestination
+
     // 宛先にファイルをコピー
     const result = await bucket.put(destination, await sourceObject.arrayBuffer(), {
       httpMetadata: sourceHead.httpMetadata,
-      customMetadata: {
-        ...sourceHead.customMetadata,
-        copiedFrom: source,
-        copiedAt: new Date().toISOString(),
-      },
+      customMetadata: withOwner(
+        c,
+        {
+          ...sourceHead.customMetadata,
+          copiedFrom: source,
+          copiedAt: new Date().toISOString(),
+        },
+        destinationHead
+      ),
     })
+    if (destinationHead) await dropTransformedCopies(c, bucket, [destination])
 
     return c.json({
       success: true,
@@ -848,18 +1318,35 @@ storage.post('/move', async (c) => {
       return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Source file metadata not found')
     }
 
+    const deniedSource = await authorizeObject(c, bucket, source, 'write', sourceHead)
+    if (deniedSource) return deniedSource
+    const destinationHead = await bucket.head(destination)
+    const deniedDestination = await authorizeObject(
+      c,
+      bucket,
+      destination,
+      'write',
+      destinationHead
+    )
+    if (deniedDestination) return deniedDestination
+
     // 宛先にファイルをコピー
     const result = await bucket.put(destination, await sourceObject.arrayBuffer(), {
       httpMetadata: sourceHead.httpMetadata,
-      customMetadata: {
-        ...sourceHead.customMetadata,
-        movedFrom: source,
-        movedAt: new Date().toISOString(),
-      },
+      customMetadata: withOwner(
+        c,
+        {
+          ...sourceHead.customMetadata,
+          movedFrom: source,
+          movedAt: new Date().toISOString(),
+        },
+        destinationHead
+      ),
     })
 
     // ソースファイルを削除
     await bucket.delete(source)
+    await dropTransformedCopies(c, bucket, destinationHead ? [source, destination] : [source])
 
     return c.json({
       success: true,
@@ -968,46 +1455,621 @@ storage.get('/stats', async (c) => {
   }
 })
 
-// POST /api/storage/upload-from-url - Upload from URL
-storage.post('/upload-from-url', async (c) => {
+// Multipart uploads are recorded in D1 besides R2; returns the manager, or the refusal
+const getMultipartManager = (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  bucket: R2Bucket
+) => {
+  if (!c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+  return new MultipartUploadManager(c.env.DB, bucket)
+}
+
+// Upload of the request; end users only reach the uploads they started
+const getRequestedUpload = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  manager: MultipartUploadManager
+) => {
+  const upload = await manager.get(c.req.param('uploadId') ?? '')
+  if (!upload || (getCurrentEndUser(c) && upload.created_by !== getCreator(c))) {
+    return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Upload not found')
+  }
+  return upload
+}
+
+// An upload as the API returns it
+const formatUpload = (upload: MultipartUpload, parts?: MultipartPart[]) => ({
+  upload_id: upload.id,
+  file_name: upload.object_key,
+  content_type: upload.content_type,
+  part_size: upload.part_size,
+  total_size: upload.total_size,
+  created_at: upload.created_at,
+  ...(parts && {
+    parts,
+    uploaded_size: parts.reduce((total, part) => total + part.size, 0),
+  }),
+})
+
+// POST /api/storage/multipart - Start a multipart upload
+// Parts are then sent with PUT to /multipart/:uploadId/parts/:partNumber, from 1 up
+storage.post('/multipart', async (c) => {
   const bucket = c.env.USER_STORAGE
   if (!bucket) {
-    return c.json(
-      {
-        success: false,
-        error: {
-          code: ErrorCode.STORAGE_OPERATION_FAILED,
-          message: 'R2 bucket not configured',
-        },
-      },
-      500
-    )
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+  const manager = getMultipartManager(c, bucket)
+  if (manager instanceof Response) return manager
+
+  let body: {
+    file_name: string
+    content_type?: string
+    metadata?: Record<string, string>
+    cache_control?: string
+    part_size?: number
+    total_size?: number
   }
-
-  let url: string,
-    fileName: string,
-    contentType: string | undefined,
-    metadata: Record<string, string> | undefined
   try {
-    const body = (await c.req.json()) as {
-      url: string
-      file_name: string
-      content_type?: string
-      metadata?: Record<string, string>
-    }
-    url = body.url
-    fileName = body.file_name
-    contentType = body.content_type
-    metadata = body.metadata
+    body = await c.req.json()
   } catch (_error) {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
   }
 
-  if (!url || !fileName) {
-    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'URL and file_name are required')
+  const fileName = body.file_name
+  if (!fileName || fileName.trim() === '') {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'file_name is required')
+  }
+  if (fileName.includes('..') || fileName.includes('\\')) {
+    return errorResponse(
+      c,
+      400,
+      ErrorCode.VALIDATION_FAILED,
+      'Invalid file name: Path traversal patterns are not allowed'
+    )
+  }
+
+  const input = {
+    key: fileName,
+    contentType: body.content_type,
+    partSize: optionalNumber(body.part_size),
+    totalSize: optionalNumber(body.total_size),
+    createdBy: getCreator(c),
+  }
+  const invalid =
+    checkMultipartInput(input) ||
+    (body.cache_control === undefined ? null : checkCacheControl(body.cache_control))
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
+  try {
+    const existing = await bucket.head(fileName)
+    const denied = await authorizeObject(c, bucket, fileName, 'write', existing)
+    if (denied) return denied
+
+    const customMetadata = withOwner(
+      c,
+      {
+        ...body.metadata,
+        originalName: fileName,
+        uploadedAt: new Date().toISOString(),
+        uploadMethod: 'multipart',
+      },
+      existing
+    )
+    const upload = await manager.create({
+      ...input,
+      customMetadata,
+      cacheControl: body.cache_control,
+    })
+
+    return c.json(
+      {
+        success: true,
+        data: {
+          ...formatUpload(upload, []),
+          min_part_size: MIN_PART_SIZE,
+          max_part_size: MAX_PART_SIZE,
+          max_parts: MAX_PARTS,
+        },
+      },
+      201
+    )
+  } catch (error) {
+    console.error('Error starting multipart upload:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to start multipart upload'
+    )
+  }
+})
+
+// GET /api/storage/multipart - Multipart uploads in progress, optionally of one file
+// End users only see the uploads they started
+storage.get('/multipart', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
   }
+  const manager = getMultipartManager(c, bucket)
+  if (manager instanceof Response) return manager
 
   try {
+    const uploads = await manager.list({
+      key: c.req.query('file'),
+      createdBy: getCurrentEndUser(c) ? (getCreator(c) ?? undefined) : undefined,
+    })
+    return c.json({
+      success: true,
+      data: { uploads: uploads.map((upload) => formatUpload(upload)) },
+    })
+  } catch (error) {
+    console.error('Error listing multipart uploads:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to list multipart uploads'
+    )
+  }
+})
+
+// GET /api/storage/multipart/:uploadId - An upload with the parts stored so far, to resume it
+storage.get('/multipart/:uploadId', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+  const manager = getMultipartManager(c, bucket)
+  if (manager instanceof Response) return manager
+
+  try {
+    const upload = await getRequestedUpload(c, manager)
+    if (upload instanceof Response) return upload
+
+    const parts = await manager.listParts(upload.id)
+    return c.json({ success: true, data: formatUpload(upload, parts) })
+  } catch (error) {
+    console.error('Error getting multipart upload:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to get multipart upload'
+    )
+  }
+})
+
+// PUT /api/storage/multipart/:uploadId/parts/:partNumber - Store one part; the body is its bytes
+// The body is streamed to R2, which needs its length up front, so Content-Length is required
+storage.put('/multipart/:uploadId/parts/:partNumber', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+  const manager = getMultipartManager(c, bucket)
+  if (manager instanceof Response) return manager
+
+  const partNumber = Number(c.req.param('partNumber'))
+  const invalid = checkPartNumber(partNumber)
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
+  const contentLength = c.req.header('content-length')
+  if (!contentLength || !/^\d+$/.test(contentLength)) {
+    return errorResponse(c, 411, ErrorCode.VALIDATION_FAILED, 'Content-Length is required')
+  }
+  const size = Number(contentLength)
+  if (size > MAX_PART_SIZE) {
+    return errorResponse(
+      c,
+      413,
+      ErrorCode.VALIDATION_FAILED,
+      `Parts cannot be larger than ${MAX_PART_SIZE} bytes`
+    )
+  }
+  const body = c.req.raw.body
+  if (size === 0 || !body) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Part is empty')
+  }
+
+  try {
+    const upload = await getRequestedUpload(c, manager)
+    if (upload instanceof Response) return upload
+
+    const part = await manager.uploadPart(upload, partNumber, body, size)
+    return c.json({ success: true, data: part })
+  } catch (error) {
+    console.error('Error uploading part:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to upload part')
+  }
+})
+
+// POST /api/storage/multipart/:uploadId/complete - Assemble the stored parts into the file
+storage.post('/multipart/:uploadId/complete', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+  const manager = getMultipartManager(c, bucket)
+  if (manager instanceof Response) return manager
+
+  try {
+    const upload = await getRequestedUpload(c, manager)
+    if (upload instanceof Response) return upload
+
+    const parts = await manager.listParts(upload.id)
+    const incomplete = checkPartsComplete(parts)
+    if (incomplete) {
+      return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, incomplete)
+    }
+    const size = parts.reduce((total, part) => total + part.size, 0)
+    if (upload.total_size !== null && size !== upload.total_size) {
+      return errorResponse(
+        c,
+        400,
+        ErrorCode.VALIDATION_FAILED,
+        `Uploaded parts hold ${size} of ${upload.total_size} bytes`
+      )
+    }
+
+    // The file may have been created by someone else since the upload started
+    const denied = await authorizeObject(c, bucket, upload.object_key, 'write')
+    if (denied) return denied
+
+    const object = await manager.complete(upload, parts)
+    await dropTransformedCopies(c, bucket, [object.key])
+
+    const response: StorageResponse<FileInfo> = {
+      success: true,
+      data: {
+        name: object.key,
+        url: `${getBaseUrl(c)}/api/storage/files/${encodeURIComponent(object.key)}`,
+        size: object.size,
+        contentType: upload.content_type || 'application/octet-stream',
+        lastModified: object.uploaded.toISOString(),
+        etag: object.etag,
+        metadata: object.customMetadata || {},
+      },
+    }
+    return c.json(response)
+  } catch (error) {
+    console.error('Error completing multipart upload:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to complete multipart upload'
+    )
+  }
+})
+
+// DELETE /api/storage/multipart/:uploadId - Abort an upload and drop its parts
+storage.delete('/multipart/:uploadId', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+  const manager = getMultipartManager(c, bucket)
+  if (manager instanceof Response) return manager
+
+  try {
+    const upload = await getRequestedUpload(c, manager)
+    if (upload instanceof Response) return upload
+
+    await manager.abort(upload)
+    return c.json({ success: true, data: { message: 'Upload aborted' } })
+  } catch (error) {
+    console.error('Error aborting multipart upload:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to abort multipart upload'
+    )
+  }
+})
+
+// Returns the bucket policy manager, or the error when the database is not configured
+const getBucketPolicyManager = (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  if (!c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+  return new StoragePolicyManager(c.env.DB)
+}
+
+// GET /api/storage/buckets - Buckets with their access policy
+storage.get('/buckets', requireAdmin, async (c) => {
+  const policies = getBucketPolicyManager(c)
+  if (policies instanceof Response) return policies
+
+  try {
+    const buckets = await policies.listBuckets()
+    return c.json({ success: true, data: { buckets } })
+  } catch (error) {
+    console.error('Error listing buckets:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to list buckets')
+  }
+})
+
+// PUT /api/storage/buckets/:name - Create a bucket or change its access policy
+storage.put('/buckets/:name', requireAdmin, async (c) => {
+  const policies = getBucketPolicyManager(c)
+  if (policies instanceof Response) return policies
+
+  const name = c.req.param('name')
+  if (!isValidBucketName(name)) {
+    return errorResponse(
+      c,
+      400,
+      ErrorCode.INVALID_NAME_FORMAT,
+      'Bucket names may only contain letters, digits, "-" and "_"'
+    )
+  }
+
+  let accessPolicy: BucketAccessPolicy
+  try {
+    const body = (await c.req.json()) as { access_policy: BucketAccessPolicy }
+    accessPolicy = body.access_policy
+  } catch (_error) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
+  }
+
+  if (!BUCKET_ACCESS_POLICIES.includes(accessPolicy)) {
+    return errorResponse(
+      c,
+      400,
+      ErrorCode.VALIDATION_FAILED,
+      `access_policy must be one of ${BUCKET_ACCESS_POLICIES.join(', ')}`
+    )
+  }
+
+  try {
+    const bucket = await policies.setBucketPolicy(name, accessPolicy)
+    return c.json({ success: true, data: bucket })
+  } catch (error) {
+    console.error('Error updating bucket policy:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to update bucket policy'
+    )
+  }
+})
+
+// DELETE /api/storage/buckets/:name - Remove a bucket's policy; its files are kept
+storage.delete('/buckets/:name', requireAdmin, async (c) => {
+  const policies = getBucketPolicyManager(c)
+  if (policies instanceof Response) return policies
+
+  try {
+    const deleted = await policies.deleteBucketPolicy(c.req.param('name'))
+    if (!deleted) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Bucket not found')
+    }
+    return c.json({ success: true, data: { message: 'Bucket policy removed' } })
+  } catch (error) {
+    console.error('Error deleting bucket policy:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to delete bucket policy'
+    )
+  }
+})
+
+// Returns the cache rule manager, or the error when the database is not configured
+const getCacheRuleManager = (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  if (!c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+  return new StorageCacheRuleManager(c.env.DB)
+}
+
+// GET /api/storage/cache-rules - Cache-Control rules of key prefixes
+storage.get('/cache-rules', requireAdmin, async (c) => {
+  const rules = getCacheRuleManager(c)
+  if (rules instanceof Response) return rules
+
+  try {
+    return c.json({
+      success: true,
+      data: { rules: await rules.listRules(), default_cache_control: DEFAULT_CACHE_CONTROL },
+    })
+  } catch (error) {
+    console.error('Error listing cache rules:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to list cache rules')
+  }
+})
+
+// PUT /api/storage/cache-rules - Create the rule of a prefix or change its Cache-Control
+storage.put('/cache-rules', requireAdmin, async (c) => {
+  const rules = getCacheRuleManager(c)
+  if (rules instanceof Response) return rules
+
+  let body: { prefix?: unknown; cache_control?: unknown }
+  try {
+    body = await c.req.json()
+  } catch (_error) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
+  }
+
+  const invalid = checkCachePrefix(body.prefix) || checkCacheControl(body.cache_control)
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
+  try {
+    const rule = await rules.setRule(body.prefix as string, body.cache_control as string)
+    return c.json({ success: true, data: rule })
+  } catch (error) {
+    console.error('Error updating cache rule:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to update cache rule')
+  }
+})
+
+// DELETE /api/storage/cache-rules/:id - Remove a rule; its files fall back to the default
+storage.delete('/cache-rules/:id', requireAdmin, async (c) => {
+  const rules = getCacheRuleManager(c)
+  if (rules instanceof Response) return rules
+
+  try {
+    const deleted = await rules.deleteRule(c.req.param('id'))
+    if (!deleted) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Cache rule not found')
+    }
+    return c.json({ success: true, data: { message: 'Cache rule removed' } })
+  } catch (error) {
+    console.error('Error deleting cache rule:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to delete cache rule')
+  }
+})
+
+// Returns the image preset manager, or the error when the database is not configured
+const getImagePresetManager = (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  if (!c.env.DB) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Database not configured')
+  }
+  return new ImagePresetManager(c.env.DB)
+}
+
+// GET /api/storage/image-presets - Presets images can be transformed with
+storage.get('/image-presets', requireAdmin, async (c) => {
+  const presets = getImagePresetManager(c)
+  if (presets instanceof Response) return presets
+
+  try {
+    return c.json({ success: true, data: { presets: await presets.listPresets() } })
+  } catch (error) {
+    console.error('Error listing image presets:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to list image presets')
+  }
+})
+
+// PUT /api/storage/image-presets/:name - Create a preset or replace its settings
+// Copies made with the previous settings are deleted
+storage.put('/image-presets/:name', requireAdmin, async (c) => {
+  const presets = getImagePresetManager(c)
+  if (presets instanceof Response) return presets
+
+  const name = c.req.param('name')
+  if (!isValidPresetName(name)) {
+    return errorResponse(
+      c,
+      400,
+      ErrorCode.INVALID_NAME_FORMAT,
+      'Preset names may only contain letters, digits, "-" and "_"'
+    )
+  }
+
+  let input: ImagePresetInput
+  try {
+    input = await c.req.json()
+  } catch (_error) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
+  }
+
+  const invalid = checkPresetInput(input)
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
+  try {
+    const preset = await presets.setPreset(name, input)
+    if (c.env.USER_STORAGE) {
+      await deleteTransformedImages(c.env.USER_STORAGE, name)
+    }
+    return c.json({ success: true, data: preset })
+  } catch (error) {
+    console.error('Error updating image preset:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to update image preset'
+    )
+  }
+})
+
+// DELETE /api/storage/image-presets/:name - Remove a preset and the copies made with it
+storage.delete('/image-presets/:name', requireAdmin, async (c) => {
+  const presets = getImagePresetManager(c)
+  if (presets instanceof Response) return presets
+
+  const name = c.req.param('name')
+  try {
+    const deleted = await presets.deletePreset(name)
+    if (!deleted) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Image preset not found')
+    }
+    const deletedImages = c.env.USER_STORAGE
+      ? await deleteTransformedImages(c.env.USER_STORAGE, name)
+      : 0
+    return c.json({
+      success: true,
+      data: { message: 'Image preset removed', deleted_images: deletedImages },
+    })
+  } catch (error) {
+    console.error('Error deleting image preset:', error)
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Failed to delete image preset'
+    )
+  }
+})
+
+// POST /api/storage/upload-from-url - Upload from URL
+storage.post('/upload-from-url', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: ErrorCode.STORAGE_OPERATION_FAILED,
+          message: 'R2 bucket not configured',
+        },
+      },
+      500
+    )
+  }
+
+  let url: string,
+    fileName: string,
+    contentType: string | undefined,
+    metadata: Record<string, string> | undefined
+  try {
+    const body = (await c.req.json()) as {
+      url: string
+      file_name: string
+      content_type?: string
+      metadata?: Record<string, string>
+    }
+    url = body.url
+    fileName = body.file_name
+    contentType = body.content_type
+    metadata = body.metadata
+  } catch (_error) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
+  }
+
+  if (!url || !fileName) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'URL and file_name are required')
+  }
+
+  try {
+    const existing = await bucket.head(fileName)
+    const denied = await authorizeObject(c, bucket, fileName, 'write', existing)
+    if (denied) return denied
+
     // URLからファイルを取得
     const response = await fetch(url)
     if (!response.ok) {
@@ -1028,13 +2090,18 @@ storage.post('/upload-from-url', async (c) => {
       httpMetadata: {
         contentType: detectedContentType,
       },
-      customMetadata: {
-        ...metadata,
-        sourceUrl: url,
-        uploadedAt: new Date().toISOString(),
-        uploadMethod: 'url',
-      },
+      customMetadata: withOwner(
+        c,
+        {
+          ...metadata,
+          sourceUrl: url,
+          uploadedAt: new Date().toISOString(),
+          uploadMethod: 'url',
+        },
+        existing
+      ),
     })
+    if (existing) await dropTransformedCopies(c, bucket, [fileName])
 
     return c.json({
       success: true,
@@ -1058,32 +2125,27 @@ storage.post('/upload-from-url', async (c) => {
   }
 })
 
-// POST /api/storage/presigned-upload - Create presigned upload URL
+// POST /api/storage/presigned-upload - Create a signed upload URL
+// The file is sent with PUT to `upload_url`, with the given Content-Type and at most `max_size` bytes
 storage.post('/presigned-upload', async (c) => {
   const bucket = c.env.USER_STORAGE
   if (!bucket) {
-    return c.json(
-      {
-        success: false,
-        error: {
-          code: ErrorCode.STORAGE_OPERATION_FAILED,
-          message: 'R2 bucket not configured',
-        },
-      },
-      500
-    )
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
   }
 
   let fileName: string, contentType: string, expiresIn: number | undefined
+  let maxSize: number | undefined
   try {
     const body = (await c.req.json()) as {
       file_name: string
       content_type: string
       expires_in?: number
+      max_size?: number
     }
     fileName = body.file_name
     contentType = body.content_type
-    expiresIn = body.expires_in
+    expiresIn = optionalNumber(body.expires_in)
+    maxSize = optionalNumber(body.max_size)
   } catch (_error) {
     return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, 'Invalid JSON in request body')
   }
@@ -1097,23 +2159,47 @@ storage.post('/presigned-upload', async (c) => {
     )
   }
 
+  if (fileName.includes('..') || fileName.includes('\\')) {
+    return errorResponse(
+      c,
+      400,
+      ErrorCode.VALIDATION_FAILED,
+      'Invalid file name: Path traversal patterns are not allowed'
+    )
+  }
+
+  const manager = getSignedUrlManager(c)
+  if (!manager) {
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Signed URLs require a database and a server secret'
+    )
+  }
+
+  const input = { key: fileName, action: 'upload' as const, contentType, maxSize, expiresIn }
+  const invalid = checkSignedUrlInput(input)
+  if (invalid) {
+    return errorResponse(c, 400, ErrorCode.VALIDATION_FAILED, invalid)
+  }
+
   try {
-    const expirationTime = expiresIn
-      ? new Date(Date.now() + expiresIn * 1000)
-      : new Date(Date.now() + 3600000)
+    const denied = await authorizeObject(c, bucket, fileName, 'write')
+    if (denied) return denied
 
-    // R2では事前署名URLの直接生成機能がないため、通常のアップロードエンドポイントを返す
-    const host = c.req.header('host') || c.env.WORKER_DOMAIN || 'localhost:8787'
-    const protocol =
-      c.req.header('x-forwarded-proto') || (host.includes('localhost') ? 'http' : 'https')
-    const baseUrl = `${protocol}://${host}`
+    const signed = await createSignedUrl(c, manager, input)
 
     return c.json({
       success: true,
       data: {
-        upload_url: `${baseUrl}/api/storage/files`,
-        file_url: `${baseUrl}/api/storage/files/${encodeURIComponent(fileName)}/content`,
-        expires_at: expirationTime.toISOString(),
+        id: signed.grant.id,
+        upload_url: signed.url,
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+        max_size: signed.grant.max_size,
+        file_url: `${getBaseUrl(c)}/api/storage/files/${encodeURIComponent(fileName)}/content`,
+        expires_at: signed.grant.expires_at,
       },
     })
   } catch (error) {
@@ -1127,4 +2213,185 @@ storage.post('/presigned-upload', async (c) => {
   }
 })
 
+// GET /api/storage/signed-urls - Signed URLs that have not expired, optionally of one file
+// End users only see the URLs they issued
+storage.get('/signed-urls', async (c) => {
+  const manager = getSignedUrlManager(c)
+  if (!manager) {
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Signed URLs require a database and a server secret'
+    )
+  }
+
+  try {
+    const grants = await manager.list({
+      key: c.req.query('file'),
+      createdBy: getCurrentEndUser(c) ? (getCreator(c) ?? undefined) : undefined,
+    })
+    return c.json({ success: true, data: { signed_urls: grants } })
+  } catch (error) {
+    console.error('Error listing signed URLs:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to list signed URLs')
+  }
+})
+
+// DELETE /api/storage/signed-urls/:id - Revoke a signed URL before it expires
+storage.delete('/signed-urls/:id', async (c) => {
+  const manager = getSignedUrlManager(c)
+  if (!manager) {
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Signed URLs require a database and a server secret'
+    )
+  }
+
+  try {
+    // End users can only revoke the URLs they issued
+    if (getCurrentEndUser(c)) {
+      const grant = await manager.get(c.req.param('id'))
+      if (!grant || grant.created_by !== getCreator(c)) {
+        return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Signed URL not found')
+      }
+    }
+
+    const revoked = await manager.revoke(c.req.param('id'))
+    if (!revoked) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'Signed URL not found')
+    }
+    return c.json({ success: true, data: { message: 'Signed URL revoked' } })
+  } catch (error) {
+    console.error('Error revoking signed URL:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to revoke signed URL')
+  }
+})
+
+// Verify the signed URL of a request; returns the grant, or the response refusing the request
+const verifySignedRequest = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  action: SignedUrlAction
+) => {
+  const manager = getSignedUrlManager(c)
+  if (!manager) {
+    return errorResponse(
+      c,
+      500,
+      ErrorCode.STORAGE_OPERATION_FAILED,
+      'Signed URLs require a database and a server secret'
+    )
+  }
+
+  const params = parseSignedUrlParams(c.req.query())
+  if (!params) {
+    return errorResponse(c, 403, ErrorCode.UNAUTHORIZED_OPERATION, 'Missing or malformed signature')
+  }
+
+  const verification = await manager.verify(c.req.param('fileName') ?? '', action, params)
+  if (!verification.valid) {
+    return errorResponse(c, 403, ErrorCode.UNAUTHORIZED_OPERATION, verification.reason)
+  }
+  return verification.grant
+}
+
+// GET /api/storage/signed/:fileName - Download through a signed URL (no auth header)
+storage.get('/signed/:fileName', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+
+  try {
+    const grant = await verifySignedRequest(c, 'download')
+    if (grant instanceof Response) return grant
+
+    const object = await bucket.head(grant.object_key)
+    if (!object) {
+      return errorResponse(c, 404, ErrorCode.RECORD_NOT_FOUND, 'File not found')
+    }
+    return await serveObject(c, bucket, object)
+  } catch (error) {
+    console.error('Error downloading file through signed URL:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to download file')
+  }
+})
+
+// PUT /api/storage/signed/:fileName - Upload through a signed URL (no auth header)
+storage.put('/signed/:fileName', async (c) => {
+  const bucket = c.env.USER_STORAGE
+  if (!bucket) {
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'R2 bucket not configured')
+  }
+
+  try {
+    const grant = await verifySignedRequest(c, 'upload')
+    if (grant instanceof Response) return grant
+
+    const contentType = c.req.header('content-type') || 'application/octet-stream'
+    if (grant.content_type && mediaType(contentType) !== mediaType(grant.content_type)) {
+      return errorResponse(
+        c,
+        403,
+        ErrorCode.UNAUTHORIZED_OPERATION,
+        `This URL only accepts ${grant.content_type} uploads`
+      )
+    }
+
+    // The declared length is checked before reading the body, the actual one after
+    const tooLarge = `File exceeds the limit of ${grant.max_size} bytes of this URL`
+    const declaredLength = Number(c.req.header('content-length'))
+    if (grant.max_size !== null && declaredLength > grant.max_size) {
+      return errorResponse(c, 413, ErrorCode.VALIDATION_FAILED, tooLarge)
+    }
+
+    const arrayBuffer = await c.req.arrayBuffer()
+    if (grant.max_size !== null && arrayBuffer.byteLength > grant.max_size) {
+      return errorResponse(c, 413, ErrorCode.VALIDATION_FAILED, tooLarge)
+    }
+
+    // The end user who issued the URL owns the file; otherwise its current owner is kept
+    const existing = await bucket.head(grant.object_key)
+    const ownerId = grant.created_by?.startsWith('user:')
+      ? grant.created_by.slice('user:'.length)
+      : existing?.customMetadata?.[OWNER_METADATA_KEY]
+    const customMetadata: Record<string, string> = {
+      originalName: grant.object_key,
+      uploadedAt: new Date().toISOString(),
+      signedUrlId: grant.id,
+      ...(ownerId ? { [OWNER_METADATA_KEY]: ownerId } : {}),
+    }
+    const uploadResult = await bucket.put(grant.object_key, arrayBuffer, {
+      customMetadata,
+      httpMetadata: { contentType },
+    })
+    if (existing) await dropTransformedCopies(c, bucket, [grant.object_key])
+
+    const response: StorageResponse<FileInfo> = {
+      success: true,
+      data: {
+        name: grant.object_key,
+        url: `${getBaseUrl(c)}/api/storage/files/${encodeURIComponent(grant.object_key)}`,
+        size: arrayBuffer.byteLength,
+        contentType,
+        lastModified: uploadResult.uploaded.toISOString(),
+        etag: uploadResult.etag,
+        metadata: customMetadata,
+      },
+    }
+
+    return c.json(response, 201)
+  } catch (error) {
+    console.error('Error uploading file through signed URL:', error)
+    return errorResponse(c, 500, ErrorCode.STORAGE_OPERATION_FAILED, 'Failed to upload file')
+  }
+})
+
+// Content type without its parameters (`text/plain; charset=utf-8` is `text/plain`)
+function mediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase()
+}
+
 export { storage }
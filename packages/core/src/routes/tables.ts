@@ -1,7 +1,19 @@
 import { zValidator } from '@hono/zod-validator'
-import { Hono } from 'hono'
+import { type Context, Hono } from 'hono'
 import { z } from 'zod'
+import { getAuditActor } from '../lib/audit-log'
+import { buildMatchExpression } from '../lib/full-text-search'
+import { parseFieldList } from '../lib/projection'
+import { validateRecordData } from '../lib/record-validator'
+import { getPolicyReferences, type PolicyCondition } from '../lib/row-policy'
+import { checkScriptSyntax, MAX_SCRIPT_LENGTH } from '../lib/script-sandbox'
 import { SYSTEM_TABLES, TableManager } from '../lib/table-manager'
+import {
+  MAX_TRIGGER_TIMEOUT_MS,
+  TRIGGER_EVENTS,
+  type TriggerOperation,
+} from '../lib/table-triggers'
+import { getAuthContext, getCurrentEndUser, requireAdmin } from '../middleware/auth'
 import type { Env, Variables } from '../types'
 import type { CustomDurableObjectNamespace } from '../types/cloudflare'
 
@@ -15,10 +27,16 @@ tables.use('*', async (c, next) => {
   }
   c.set(
     'tableManager',
-    new TableManager(c.env.DB, c.env.SYSTEM_STORAGE, c.executionCtx, {
-      REALTIME: c.env.REALTIME as CustomDurableObjectNamespace,
-      WORKER_DOMAIN: c.env.WORKER_DOMAIN,
-    })
+    new TableManager(
+      c.env.DB,
+      c.env.SYSTEM_STORAGE,
+      c.executionCtx,
+      {
+        REALTIME: c.env.REALTIME as CustomDurableObjectNamespace,
+        WORKER_DOMAIN: c.env.WORKER_DOMAIN,
+      },
+      getAuditActor(getAuthContext(c))
+    )
   )
   await next()
 })
@@ -249,6 +267,180 @@ tables.delete('/:tableName/data/:id', async (c) => {
   }
 })
 
+// Bulk record operations - each request runs as a single all-or-nothing batch
+const MAX_BULK_RECORDS = 100
+
+const bulkInsertSchema = z.object({
+  records: z.array(z.record(z.unknown())).min(1).max(MAX_BULK_RECORDS),
+})
+
+const bulkUpdateSchema = z.object({
+  updates: z
+    .array(z.object({ id: z.string().min(1), data: z.record(z.unknown()) }))
+    .min(1)
+    .max(MAX_BULK_RECORDS),
+})
+
+const bulkDeleteSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_BULK_RECORDS),
+})
+
+// Bulk insert records
+tables.post('/:tableName/bulk', async (c) => {
+  const tm = c.get('tableManager')
+  if (!tm) {
+    return c.json({ error: 'Database not available' }, 500)
+  }
+
+  try {
+    const tableName = c.req.param('tableName')
+    const authContext = getAuthContext(c)
+    const currentUser = getCurrentEndUser(c)
+
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({ error: 'Cannot modify system table' }, 403)
+    }
+
+    const parsed = bulkInsertSchema.safeParse(await c.req.json().catch(() => null))
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid bulk insert request', details: parsed.error.issues }, 400)
+    }
+    const { records } = parsed.data
+
+    // Validate every row before touching the database
+    const columns = await tm.getTableColumns(tableName)
+    const errors: string[] = []
+    for (const [index, record] of records.entries()) {
+      const rowErrors = await validateRecordData(record, columns, 'create')
+      errors.push(...rowErrors.map((error) => `records[${index}]: ${error}`))
+    }
+    if (errors.length > 0) {
+      return c.json({ error: 'Validation failed', details: errors }, 400)
+    }
+
+    let created: Record<string, unknown>[]
+    if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+      created = await tm.bulkCreateRecords(tableName, records)
+    } else if (authContext?.type === 'user' && currentUser) {
+      created = await tm.bulkCreateRecordsWithAccessControl(
+        tableName,
+        records,
+        currentUser.id,
+        currentUser.role
+      )
+    } else {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    return c.json({ success: true, inserted: created.length, records: created }, 201)
+  } catch (error) {
+    console.error('Error bulk inserting records:', error)
+    return bulkErrorResponse(c, error, 'Failed to insert records')
+  }
+})
+
+// Bulk update records
+tables.put('/:tableName/bulk', async (c) => {
+  const tm = c.get('tableManager')
+  if (!tm) {
+    return c.json({ error: 'Database not available' }, 500)
+  }
+
+  try {
+    const tableName = c.req.param('tableName')
+    const authContext = getAuthContext(c)
+    const currentUser = getCurrentEndUser(c)
+
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({ error: 'Cannot modify system table' }, 403)
+    }
+
+    const parsed = bulkUpdateSchema.safeParse(await c.req.json().catch(() => null))
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid bulk update request', details: parsed.error.issues }, 400)
+    }
+    const { updates } = parsed.data
+
+    const duplicateIds = findDuplicates(updates.map((update) => update.id))
+    if (duplicateIds.length > 0) {
+      return c.json({ error: `Duplicate ids in request: ${duplicateIds.join(', ')}` }, 400)
+    }
+
+    // Validate every row before touching the database
+    const columns = await tm.getTableColumns(tableName)
+    const errors: string[] = []
+    for (const [index, update] of updates.entries()) {
+      const rowErrors = await validateRecordData(update.data, columns, 'update')
+      errors.push(...rowErrors.map((error) => `updates[${index}]: ${error}`))
+    }
+    if (errors.length > 0) {
+      return c.json({ error: 'Validation failed', details: errors }, 400)
+    }
+
+    let updated: Record<string, unknown>[]
+    if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+      updated = await tm.bulkUpdateRecords(tableName, updates)
+    } else if (authContext?.type === 'user' && currentUser) {
+      updated = await tm.bulkUpdateRecordsWithAccessControl(
+        tableName,
+        updates,
+        currentUser.id,
+        currentUser.role
+      )
+    } else {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    return c.json({ success: true, updated: updated.length, records: updated })
+  } catch (error) {
+    console.error('Error bulk updating records:', error)
+    return bulkErrorResponse(c, error, 'Failed to update records')
+  }
+})
+
+// Bulk delete records
+tables.delete('/:tableName/bulk', async (c) => {
+  const tm = c.get('tableManager')
+  if (!tm) {
+    return c.json({ error: 'Database not available' }, 500)
+  }
+
+  try {
+    const tableName = c.req.param('tableName')
+    const authContext = getAuthContext(c)
+    const currentUser = getCurrentEndUser(c)
+
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({ error: 'Cannot modify system table' }, 403)
+    }
+
+    const parsed = bulkDeleteSchema.safeParse(await c.req.json().catch(() => null))
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid bulk delete request', details: parsed.error.issues }, 400)
+    }
+    const ids = Array.from(new Set(parsed.data.ids))
+
+    let deleted: number
+    if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+      deleted = await tm.bulkDeleteRecords(tableName, ids)
+    } else if (authContext?.type === 'user' && currentUser) {
+      deleted = await tm.bulkDeleteRecordsWithAccessControl(
+        tableName,
+        ids,
+        currentUser.id,
+        currentUser.role
+      )
+    } else {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    return c.json({ success: true, deleted })
+  } catch (error) {
+    console.error('Error bulk deleting records:', error)
+    return bulkErrorResponse(c, error, 'Failed to delete records')
+  }
+})
+
 // Add column to table
 const addColumnSchema = z.object({
   name: z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid column name'),
@@ -560,28 +752,54 @@ tables.delete('/:tableName/indexes/:indexName', async (c) => {
 })
 
 // Search records in table
-const searchQuerySchema = z.object({
-  column: z.string().min(1, 'Column name is required'),
-  operator: z.enum(['eq', 'lt', 'le', 'gt', 'ge', 'ne', 'is_null', 'is_not_null'], {
-    errorMap: () => ({
-      message: 'Invalid operator. Supported: eq, lt, le, gt, ge, ne, is_null, is_not_null',
-    }),
-  }),
-  value: z.string().optional(),
-  limit: z
-    .string()
-    .optional()
-    .transform((val) => (val ? parseInt(val) : undefined)),
-  offset: z
-    .string()
-    .optional()
-    .transform((val) => (val ? parseInt(val) : 0)),
-})
+// With `q`, runs a ranked full-text search; otherwise compares one indexed column
+const MAX_FULL_TEXT_RESULTS = 100
+
+const searchOperatorMessage =
+  'Invalid operator. Supported: eq, lt, le, gt, ge, ne, is_null, is_not_null'
+
+const searchQuerySchema = z
+  .object({
+    q: z.string().optional(),
+    columns: z.string().optional(),
+    column: z.string().optional(),
+    operator: z
+      .enum(['eq', 'lt', 'le', 'gt', 'ge', 'ne', 'is_null', 'is_not_null'], {
+        errorMap: () => ({ message: searchOperatorMessage }),
+      })
+      .optional(),
+    value: z.string().optional(),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val) : undefined)),
+    offset: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val) : 0)),
+  })
+  .superRefine((query, ctx) => {
+    if (query.q !== undefined) return
+    if (!query.column) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['column'],
+        message: 'Column name is required',
+      })
+    }
+    if (!query.operator) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['operator'],
+        message: searchOperatorMessage,
+      })
+    }
+  })
 
 tables.get('/:tableName/search', zValidator('query', searchQuerySchema), async (c) => {
   try {
     const tableName = c.req.param('tableName')
-    const { column, operator, value, limit, offset } = c.req.valid('query')
+    const { q, columns, column, operator, value, limit, offset } = c.req.valid('query')
     const tableManager = c.get('tableManager')
     if (!tableManager) {
       return c.json({ error: 'TableManager not available' }, 500)
@@ -600,6 +818,13 @@ tables.get('/:tableName/search', zValidator('query', searchQuerySchema), async (
       )
     }
 
+    if (q !== undefined) {
+      return searchFullText(c, tableManager, tableName, q, columns, limit, offset)
+    }
+    if (!column || !operator) {
+      return c.json({ error: 'Column and operator are required' }, 400)
+    }
+
     // Validate value requirement for non-null operators
     if (!['is_null', 'is_not_null'].includes(operator) && !value) {
       return c.json(
@@ -729,8 +954,100 @@ tables.get('/:tableName/search', zValidator('query', searchQuerySchema), async (
   }
 })
 
-// Get table access policy
-tables.get('/:tableName/policy', async (c) => {
+// Ranked full-text search, restricted to the rows the caller may read
+async function searchFullText(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  tableManager: TableManager,
+  tableName: string,
+  q: string,
+  columnsParam: string | undefined,
+  limit: number | undefined,
+  offset: number
+) {
+  const config = await tableManager.getFullTextConfig(tableName)
+  if (!config) {
+    return c.json(
+      {
+        error: {
+          code: 'FULL_TEXT_NOT_ENABLED',
+          message: `Full-text search is not enabled on table '${tableName}'`,
+        },
+      },
+      400
+    )
+  }
+
+  const columns = parseFieldList(columnsParam)
+  const unknownColumns = (columns || []).filter((col) => !config.columns.includes(col))
+  if (unknownColumns.length > 0) {
+    return c.json(
+      {
+        error: {
+          code: 'COLUMN_NOT_SEARCHABLE',
+          message: `Column '${unknownColumns[0]}' is not part of the full-text index`,
+          details: { table: tableName, searchableColumns: config.columns },
+        },
+      },
+      400
+    )
+  }
+
+  const pageSize = limit ?? 20
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_FULL_TEXT_RESULTS) {
+    return c.json({ error: `limit must be between 1 and ${MAX_FULL_TEXT_RESULTS}` }, 400)
+  }
+
+  // Reject queries without any searchable word before hitting the database
+  try {
+    buildMatchExpression(q, columns)
+  } catch (error) {
+    return c.json(
+      {
+        error: {
+          code: 'INVALID_SEARCH_QUERY',
+          message: error instanceof Error ? error.message : 'Invalid search query',
+        },
+      },
+      400
+    )
+  }
+
+  const authContext = getAuthContext(c)
+  const currentUser = getCurrentEndUser(c)
+  const options = { query: q, columns, limit: pageSize, offset }
+
+  let result: Awaited<ReturnType<TableManager['searchFullText']>>
+  if (authContext?.type === 'admin' || authContext?.type === 'api_key') {
+    result = await tableManager.searchFullText(tableName, options)
+  } else if (authContext?.type === 'user' && currentUser) {
+    result = await tableManager.searchFullTextWithAccessControl(
+      tableName,
+      currentUser.id,
+      options,
+      currentUser.role
+    )
+  } else {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+
+  return c.json({
+    data: result.data,
+    pagination: {
+      total: result.total,
+      limit: pageSize,
+      offset,
+      hasMore: result.hasMore,
+    },
+    query: {
+      table: tableName,
+      q,
+      columns: columns || config.columns,
+    },
+  })
+}
+
+// Get the full-text search configuration of a table
+tables.get('/:tableName/fulltext', async (c) => {
   try {
     const tableName = c.req.param('tableName')
     const tableManager = c.get('tableManager')
@@ -738,100 +1055,942 @@ tables.get('/:tableName/policy', async (c) => {
       return c.json({ error: 'TableManager not available' }, 500)
     }
 
-    // Check if table is a system table
-    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+    const config = await tableManager.getFullTextConfig(tableName)
+
+    return c.json({
+      table_name: tableName,
+      enabled: config !== null,
+      columns: config?.columns || [],
+      updated_at: config?.updated_at || null,
+    })
+  } catch (error) {
+    console.error('Error getting full-text search config:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get full-text search config',
+      },
+      500
+    )
+  }
+})
+
+const fullTextConfigSchema = z.object({
+  columns: z.array(z.string().min(1)).min(1, 'At least one column is required'),
+})
+
+// Enable full-text search on TEXT columns and (re)build the index (admin only)
+tables.put(
+  '/:tableName/fulltext',
+  requireAdmin,
+  zValidator('json', fullTextConfigSchema),
+  async (c) => {
+    try {
+      const tableName = c.req.param('tableName')
+      const columns = [...new Set(c.req.valid('json').columns)]
+      const tableManager = c.get('tableManager')
+      if (!tableManager) {
+        return c.json({ error: 'TableManager not available' }, 500)
+      }
+
+      if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+        return c.json({ error: 'System tables do not support full-text search' }, 403)
+      }
+
+      const tables = await tableManager.getTables()
+      if (!tables.some((t) => t.name === tableName)) {
+        return c.json({ error: `Table '${tableName}' not found` }, 404)
+      }
+
+      // Only TEXT columns can be indexed
+      const tableColumns = await tableManager.getTableColumns(tableName)
+      const errors = columns.flatMap((name) => {
+        const column = tableColumns.find((col) => col.name === name)
+        if (!column) return [`Column '${name}' does not exist`]
+        if (column.type.toUpperCase() !== 'TEXT') return [`Column '${name}' is not a TEXT column`]
+        return []
+      })
+      if (errors.length > 0) {
+        return c.json({ error: 'Invalid full-text columns', details: errors }, 400)
+      }
+
+      await tableManager.enableFullTextSearch(tableName, columns)
+
       return c.json({
+        success: true,
         table_name: tableName,
-        access_policy: 'system',
-        message: 'System tables have fixed access policies',
+        columns,
+        message: `Full-text search enabled on '${tableName}'`,
       })
+    } catch (error) {
+      console.error('Error enabling full-text search:', error)
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : 'Failed to enable full-text search',
+        },
+        500
+      )
     }
+  }
+)
 
-    const policy = await tableManager.getTableAccessPolicy(tableName)
+// Disable full-text search and drop the index (admin only)
+tables.delete('/:tableName/fulltext', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    await tableManager.disableFullTextSearch(tableName)
 
     return c.json({
+      success: true,
       table_name: tableName,
-      access_policy: policy,
+      message: `Full-text search disabled on '${tableName}'`,
     })
   } catch (error) {
-    console.error('Error getting table policy:', error)
+    console.error('Error disabling full-text search:', error)
     return c.json(
       {
-        error: error instanceof Error ? error.message : 'Failed to get table policy',
+        error: error instanceof Error ? error.message : 'Failed to disable full-text search',
       },
       500
     )
   }
 })
 
-// Update table access policy (admin only)
-const policyUpdateSchema = z.object({
-  access_policy: z.enum(['public', 'private'], {
-    errorMap: () => ({ message: 'Access policy must be either "public" or "private"' }),
-  }),
+// Get the soft delete setting of a table and the size of its trash
+tables.get('/:tableName/soft-delete', async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    const config = await tableManager.getSoftDeleteConfig(tableName)
+    const trash = config ? await tableManager.getTrash(tableName, 1, 0) : null
+
+    return c.json({
+      table_name: tableName,
+      enabled: config !== null,
+      trashed: trash?.total ?? 0,
+      created_at: config?.created_at || null,
+    })
+  } catch (error) {
+    console.error('Error getting soft delete setting:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get soft delete setting',
+      },
+      500
+    )
+  }
 })
 
-tables.put('/:tableName/policy', zValidator('json', policyUpdateSchema), async (c) => {
+// Enable soft delete, adding the deleted_at column when missing (admin only)
+tables.put('/:tableName/soft-delete', requireAdmin, async (c) => {
   try {
     const tableName = c.req.param('tableName')
-    const { access_policy } = c.req.valid('json')
     const tableManager = c.get('tableManager')
     if (!tableManager) {
       return c.json({ error: 'TableManager not available' }, 500)
     }
 
-    // Check if table is a system table
     if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
-      return c.json(
-        {
-          error: 'Cannot modify access policy for system tables',
-        },
-        403
-      )
+      return c.json({ error: 'System tables do not support soft delete' }, 403)
     }
 
-    // Verify table exists
     const tables = await tableManager.getTables()
-    const table = tables.find((t) => t.name === tableName)
-    if (!table) {
-      return c.json(
-        {
-          error: `Table '${tableName}' not found`,
-        },
-        404
-      )
-    }
-
-    // When changing from public to private, verify owner_id column exists
-    if (table.access_policy === 'public' && access_policy === 'private') {
-      const columns = await tableManager.getTableColumns(tableName)
-      const hasOwnerIdColumn = columns.some((col) => col.name === 'owner_id')
-
-      if (!hasOwnerIdColumn) {
-        return c.json(
-          {
-            error: `Cannot change table '${tableName}' to private: missing owner_id column. Private tables require an owner_id column for access control.`,
-          },
-          400
-        )
-      }
+    if (!tables.some((t) => t.name === tableName)) {
+      return c.json({ error: `Table '${tableName}' not found` }, 404)
     }
 
-    await tableManager.setTableAccessPolicy(tableName, access_policy)
+    await tableManager.enableSoftDelete(tableName)
 
     return c.json({
       success: true,
       table_name: tableName,
-      access_policy: access_policy,
-      message: `Access policy for table '${tableName}' updated to '${access_policy}'`,
+      message: `Soft delete enabled on '${tableName}'`,
     })
   } catch (error) {
-    console.error('Error updating table policy:', error)
+    console.error('Error enabling soft delete:', error)
     return c.json(
       {
-        error: error instanceof Error ? error.message : 'Failed to update table policy',
+        error: error instanceof Error ? error.message : 'Failed to enable soft delete',
       },
       500
     )
   }
 })
+
+// Disable soft delete; deletes become permanent again (admin only)
+tables.delete('/:tableName/soft-delete', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    await tableManager.disableSoftDelete(tableName)
+
+    return c.json({
+      success: true,
+      table_name: tableName,
+      message: `Soft delete disabled on '${tableName}'`,
+    })
+  } catch (error) {
+    console.error('Error disabling soft delete:', error)
+    const message = error instanceof Error ? error.message : 'Failed to disable soft delete'
+    return c.json({ error: message }, message.startsWith('Cannot disable') ? 409 : 500)
+  }
+})
+
+// List the records in the trash, most recently deleted first (admin only)
+tables.get('/:tableName/trash', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    const limit = Number(c.req.query('limit') || '100')
+    const offset = Number(c.req.query('offset') || '0')
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return c.json({ error: 'limit must be an integer between 1 and 1000' }, 400)
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return c.json({ error: 'offset must be a non-negative integer' }, 400)
+    }
+
+    const result = await tableManager.getTrash(tableName, limit, offset)
+    return c.json({ ...result, limit, offset })
+  } catch (error) {
+    console.error('Error listing trash:', error)
+    return bulkErrorResponse(c, error, 'Failed to list trash')
+  }
+})
+
+const restoreSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_BULK_RECORDS),
+})
+
+// Restore records from the trash (admin only)
+tables.post('/:tableName/trash/restore', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    const parsed = restoreSchema.safeParse(await c.req.json().catch(() => null))
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid restore request', details: parsed.error.issues }, 400)
+    }
+
+    const records = await tableManager.restoreRecords(tableName, [...new Set(parsed.data.ids)])
+    return c.json({ success: true, restored: records.length, records })
+  } catch (error) {
+    console.error('Error restoring records:', error)
+    return bulkErrorResponse(c, error, 'Failed to restore records')
+  }
+})
+
+const purgeSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_BULK_RECORDS).optional(),
+})
+
+// Permanently delete records from the trash, or empty it when no ids are given (admin only)
+tables.delete('/:tableName/trash', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    // Without a body the whole trash is emptied
+    const parsed = purgeSchema.safeParse(await c.req.json().catch(() => ({})))
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid purge request', details: parsed.error.issues }, 400)
+    }
+
+    const ids = parsed.data.ids && [...new Set(parsed.data.ids)]
+    const purged = await tableManager.purgeRecords(tableName, ids)
+    return c.json({ success: true, purged })
+  } catch (error) {
+    console.error('Error purging records:', error)
+    return bulkErrorResponse(c, error, 'Failed to purge records')
+  }
+})
+
+// Get the audit setting of a table
+tables.get('/:tableName/audit', async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    const config = await tableManager.getAuditConfig(tableName)
+
+    return c.json({
+      table_name: tableName,
+      enabled: config !== null,
+      created_at: config?.created_at || null,
+    })
+  } catch (error) {
+    console.error('Error getting audit setting:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get audit setting',
+      },
+      500
+    )
+  }
+})
+
+// Start recording the change history of a table's records (admin only)
+tables.put('/:tableName/audit', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({ error: 'System tables do not support the audit log' }, 403)
+    }
+
+    const tables = await tableManager.getTables()
+    if (!tables.some((t) => t.name === tableName)) {
+      return c.json({ error: `Table '${tableName}' not found` }, 404)
+    }
+
+    await tableManager.enableAuditLog(tableName)
+
+    return c.json({
+      success: true,
+      table_name: tableName,
+      message: `Audit log enabled on '${tableName}'`,
+    })
+  } catch (error) {
+    console.error('Error enabling audit log:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to enable audit log',
+      },
+      500
+    )
+  }
+})
+
+// Stop recording changes; the history recorded so far is kept (admin only)
+tables.delete('/:tableName/audit', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    await tableManager.disableAuditLog(tableName)
+
+    return c.json({
+      success: true,
+      table_name: tableName,
+      message: `Audit log disabled on '${tableName}'`,
+    })
+  } catch (error) {
+    console.error('Error disabling audit log:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to disable audit log',
+      },
+      500
+    )
+  }
+})
+
+const triggerEventSchema = z.enum(TRIGGER_EVENTS)
+const triggerScriptSchema = z.string().min(1).max(MAX_SCRIPT_LENGTH)
+const triggerTimeoutSchema = z.number().int().min(1).max(MAX_TRIGGER_TIMEOUT_MS)
+
+const triggerSchema = z.object({
+  name: z.string().min(1).max(100),
+  event: triggerEventSchema,
+  script: triggerScriptSchema,
+  enabled: z.boolean().optional(),
+  timeout_ms: triggerTimeoutSchema.optional(),
+})
+
+const triggerTestSchema = z.object({
+  event: triggerEventSchema,
+  script: triggerScriptSchema,
+  operation: z.enum(['insert', 'update', 'delete']).optional(), // after_write only
+  record: z.record(z.unknown()).nullable().optional(),
+  old: z.record(z.unknown()).nullable().optional(),
+  timeout_ms: triggerTimeoutSchema.optional(),
+})
+
+// List the triggers of a table, in the order they run (admin only)
+tables.get('/:tableName/triggers', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    const triggers = await tableManager.listTriggers(tableName)
+
+    return c.json({ table_name: tableName, triggers })
+  } catch (error) {
+    console.error('Error listing triggers:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to list triggers',
+      },
+      500
+    )
+  }
+})
+
+// Attach a trigger to a table (admin only)
+tables.post('/:tableName/triggers', requireAdmin, zValidator('json', triggerSchema), async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const input = c.req.valid('json')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({ error: 'Cannot attach triggers to system tables' }, 403)
+    }
+
+    const tables = await tableManager.getTables()
+    if (!tables.some((t) => t.name === tableName)) {
+      return c.json({ error: `Table '${tableName}' not found` }, 404)
+    }
+
+    const syntaxError = await checkScriptSyntax(input.script)
+    if (syntaxError) {
+      return c.json({ error: `Invalid trigger script: ${syntaxError}` }, 400)
+    }
+
+    const trigger = await tableManager.createTrigger(tableName, input)
+
+    return c.json(
+      {
+        success: true,
+        trigger,
+        message: `Trigger '${trigger.name}' attached to '${tableName}'`,
+      },
+      201
+    )
+  } catch (error) {
+    console.error('Error creating trigger:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to create trigger',
+      },
+      500
+    )
+  }
+})
+
+// Run a script against a sample record without writing anything (admin only)
+tables.post(
+  '/:tableName/triggers/test',
+  requireAdmin,
+  zValidator('json', triggerTestSchema),
+  async (c) => {
+    try {
+      const tableName = c.req.param('tableName')
+      const input = c.req.valid('json')
+      const tableManager = c.get('tableManager')
+      if (!tableManager) {
+        return c.json({ error: 'TableManager not available' }, 500)
+      }
+
+      // Before-triggers imply their operation; after-write ones default to an insert
+      const operation: TriggerOperation =
+        input.event === 'after_write'
+          ? (input.operation ?? 'insert')
+          : (input.event.slice('before_'.length) as TriggerOperation)
+
+      const result = await tableManager.testTriggerScript(
+        input.script,
+        {
+          table: tableName,
+          operation,
+          record: operation === 'delete' ? null : (input.record ?? {}),
+          old: operation === 'insert' ? null : (input.old ?? null),
+          actor: getAuditActor(getAuthContext(c)),
+        },
+        input.timeout_ms
+      )
+
+      return c.json({ result })
+    } catch (error) {
+      console.error('Error testing trigger:', error)
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : 'Failed to test trigger',
+        },
+        500
+      )
+    }
+  }
+)
+
+// Change a trigger (admin only)
+tables.put(
+  '/:tableName/triggers/:id',
+  requireAdmin,
+  zValidator('json', triggerSchema.partial()),
+  async (c) => {
+    try {
+      const tableName = c.req.param('tableName')
+      const changes = c.req.valid('json')
+      const tableManager = c.get('tableManager')
+      if (!tableManager) {
+        return c.json({ error: 'TableManager not available' }, 500)
+      }
+
+      if (changes.script !== undefined) {
+        const syntaxError = await checkScriptSyntax(changes.script)
+        if (syntaxError) {
+          return c.json({ error: `Invalid trigger script: ${syntaxError}` }, 400)
+        }
+      }
+
+      const trigger = await tableManager.updateTrigger(tableName, c.req.param('id'), changes)
+      if (!trigger) {
+        return c.json({ error: 'Trigger not found' }, 404)
+      }
+
+      return c.json({
+        success: true,
+        trigger,
+        message: `Trigger '${trigger.name}' updated`,
+      })
+    } catch (error) {
+      console.error('Error updating trigger:', error)
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : 'Failed to update trigger',
+        },
+        500
+      )
+    }
+  }
+)
+
+// Remove a trigger and its log (admin only)
+tables.delete('/:tableName/triggers/:id', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    if (!(await tableManager.deleteTrigger(tableName, c.req.param('id')))) {
+      return c.json({ error: 'Trigger not found' }, 404)
+    }
+
+    return c.json({ success: true, message: 'Trigger removed' })
+  } catch (error) {
+    console.error('Error deleting trigger:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to delete trigger',
+      },
+      500
+    )
+  }
+})
+
+// Get the recorded runs of a trigger, most recent first (admin only)
+tables.get('/:tableName/triggers/:id/logs', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    const limit = Number(c.req.query('limit') || '50')
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return c.json({ error: 'limit must be an integer between 1 and 100' }, 400)
+    }
+
+    const trigger = await tableManager.getTrigger(tableName, c.req.param('id'))
+    if (!trigger) {
+      return c.json({ error: 'Trigger not found' }, 404)
+    }
+
+    const logs = await tableManager.getTriggerLogs(tableName, trigger.id, limit)
+    return c.json({ trigger_id: trigger.id, logs })
+  } catch (error) {
+    console.error('Error fetching trigger logs:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch trigger logs',
+      },
+      500
+    )
+  }
+})
+
+// Get table access policy
+tables.get('/:tableName/policy', async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    // Check if table is a system table
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({
+        table_name: tableName,
+        access_policy: 'system',
+        message: 'System tables have fixed access policies',
+      })
+    }
+
+    const policy = await tableManager.getTableAccessPolicy(tableName)
+
+    return c.json({
+      table_name: tableName,
+      access_policy: policy,
+    })
+  } catch (error) {
+    console.error('Error getting table policy:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get table policy',
+      },
+      500
+    )
+  }
+})
+
+// Update table access policy (admin only)
+const policyUpdateSchema = z.object({
+  access_policy: z.enum(['public', 'private'], {
+    errorMap: () => ({ message: 'Access policy must be either "public" or "private"' }),
+  }),
+})
+
+tables.put('/:tableName/policy', zValidator('json', policyUpdateSchema), async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const { access_policy } = c.req.valid('json')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    // Check if table is a system table
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json(
+        {
+          error: 'Cannot modify access policy for system tables',
+        },
+        403
+      )
+    }
+
+    // Verify table exists
+    const tables = await tableManager.getTables()
+    const table = tables.find((t) => t.name === tableName)
+    if (!table) {
+      return c.json(
+        {
+          error: `Table '${tableName}' not found`,
+        },
+        404
+      )
+    }
+
+    // When changing from public to private, verify owner_id column exists
+    if (table.access_policy === 'public' && access_policy === 'private') {
+      const columns = await tableManager.getTableColumns(tableName)
+      const hasOwnerIdColumn = columns.some((col) => col.name === 'owner_id')
+
+      if (!hasOwnerIdColumn) {
+        return c.json(
+          {
+            error: `Cannot change table '${tableName}' to private: missing owner_id column. Private tables require an owner_id column for access control.`,
+          },
+          400
+        )
+      }
+    }
+
+    await tableManager.setTableAccessPolicy(tableName, access_policy)
+
+    return c.json({
+      success: true,
+      table_name: tableName,
+      access_policy: access_policy,
+      message: `Access policy for table '${tableName}' updated to '${access_policy}'`,
+    })
+  } catch (error) {
+    console.error('Error updating table policy:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to update table policy',
+      },
+      500
+    )
+  }
+})
+
+// Row-level security policies
+const rowPolicyOperationSchema = z.enum(['read', 'insert', 'update', 'delete'])
+
+const policyScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()])
+
+const policyValueSchema = z.union([
+  policyScalarSchema,
+  z.array(policyScalarSchema),
+  z.object({ auth: z.enum(['user_id', 'role']) }).strict(),
+])
+
+const policyOperatorSchema = z.enum([
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'not_in',
+  'is_null',
+  'is_not_null',
+])
+
+const identifierSchema = z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid identifier')
+
+const policyConditionSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(policyConditionSchema) }).strict(),
+    z.object({ any: z.array(policyConditionSchema) }).strict(),
+    z.object({ not: policyConditionSchema }).strict(),
+    z.object({ allow: z.boolean() }).strict(),
+    z
+      .object({
+        column: identifierSchema,
+        op: policyOperatorSchema,
+        value: policyValueSchema.optional(),
+      })
+      .strict(),
+    z
+      .object({
+        auth: z.enum(['user_id', 'role']),
+        op: policyOperatorSchema,
+        value: policyValueSchema.optional(),
+      })
+      .strict(),
+    z
+      .object({
+        member_of: z
+          .object({
+            table: identifierSchema,
+            column: identifierSchema,
+            foreign_column: identifierSchema.optional(),
+            user_column: identifierSchema.optional(),
+          })
+          .strict(),
+      })
+      .strict(),
+  ])
+)
+
+const rowPolicySchema = z.object({
+  condition: policyConditionSchema,
+})
+
+// Get row-level policies for a table
+tables.get('/:tableName/row-policies', async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+      return c.json({ error: 'System tables do not support row policies' }, 403)
+    }
+
+    const accessPolicy = await tableManager.getTableAccessPolicy(tableName)
+    const rowPolicies = await tableManager.getRowPolicies(tableName)
+
+    return c.json({
+      table_name: tableName,
+      access_policy: accessPolicy,
+      row_policies: rowPolicies,
+    })
+  } catch (error) {
+    console.error('Error getting row policies:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to get row policies',
+      },
+      500
+    )
+  }
+})
+
+// Create or replace the row-level policy for one operation (admin only)
+tables.put(
+  '/:tableName/row-policies/:operation',
+  requireAdmin,
+  zValidator('json', rowPolicySchema),
+  async (c) => {
+    try {
+      const tableName = c.req.param('tableName')
+      const operation = rowPolicyOperationSchema.safeParse(c.req.param('operation'))
+      const { condition } = c.req.valid('json')
+      const tableManager = c.get('tableManager')
+      if (!tableManager) {
+        return c.json({ error: 'TableManager not available' }, 500)
+      }
+
+      if (!operation.success) {
+        return c.json({ error: 'Operation must be one of: read, insert, update, delete' }, 400)
+      }
+
+      if (SYSTEM_TABLES.includes(tableName as (typeof SYSTEM_TABLES)[number])) {
+        return c.json({ error: 'Cannot set row policies on system tables' }, 403)
+      }
+
+      const tables = await tableManager.getTables()
+      if (!tables.some((t) => t.name === tableName)) {
+        return c.json({ error: `Table '${tableName}' not found` }, 404)
+      }
+
+      // Every referenced column and join table must exist
+      const errors = await validateRowPolicyReferences(tableManager, tableName, condition)
+      if (errors.length > 0) {
+        return c.json({ error: 'Invalid row policy', details: errors }, 400)
+      }
+
+      await tableManager.setRowPolicy(tableName, operation.data, condition)
+
+      return c.json({
+        success: true,
+        table_name: tableName,
+        operation: operation.data,
+        condition,
+        message: `Row policy for ${operation.data} on '${tableName}' updated`,
+      })
+    } catch (error) {
+      console.error('Error updating row policy:', error)
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : 'Failed to update row policy',
+        },
+        500
+      )
+    }
+  }
+)
+
+// Remove the row-level policy for one operation (admin only)
+tables.delete('/:tableName/row-policies/:operation', requireAdmin, async (c) => {
+  try {
+    const tableName = c.req.param('tableName')
+    const operation = rowPolicyOperationSchema.safeParse(c.req.param('operation'))
+    const tableManager = c.get('tableManager')
+    if (!tableManager) {
+      return c.json({ error: 'TableManager not available' }, 500)
+    }
+
+    if (!operation.success) {
+      return c.json({ error: 'Operation must be one of: read, insert, update, delete' }, 400)
+    }
+
+    await tableManager.deleteRowPolicy(tableName, operation.data)
+
+    return c.json({
+      success: true,
+      table_name: tableName,
+      operation: operation.data,
+      message: `Row policy for ${operation.data} on '${tableName}' removed`,
+    })
+  } catch (error) {
+    console.error('Error deleting row policy:', error)
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to delete row policy',
+      },
+      500
+    )
+  }
+})
+
+// Helper function to check that a policy only refers to existing columns and user tables
+async function validateRowPolicyReferences(
+  tableManager: TableManager,
+  tableName: string,
+  condition: PolicyCondition
+): Promise<string[]> {
+  const errors: string[] = []
+  const { columns, tables: joinTables } = getPolicyReferences(condition)
+
+  const tableColumns = (await tableManager.getTableColumns(tableName)).map((col) => col.name)
+  for (const column of columns) {
+    if (!tableColumns.includes(column)) {
+      errors.push(`Column '${column}' does not exist in table '${tableName}'`)
+    }
+  }
+
+  const existingTables = (await tableManager.getTables()).map((t) => t.name)
+  for (const joinTable of joinTables) {
+    if (SYSTEM_TABLES.includes(joinTable as (typeof SYSTEM_TABLES)[number])) {
+      errors.push(`System table '${joinTable}' cannot be used in a row policy`)
+    } else if (!existingTables.includes(joinTable)) {
+      errors.push(`Table '${joinTable}' referenced by member_of does not exist`)
+    }
+  }
+
+  return errors
+}
+
+// Helper function to list values that appear more than once
+function findDuplicates(values: string[]): string[] {
+  const seen = new Set<string>()
+  const duplicates = new Set<string>()
+  for (const value of values) {
+    if (seen.has(value)) duplicates.add(value)
+    seen.add(value)
+  }
+  return Array.from(duplicates)
+}
+
+// Helper function to map bulk operation failures to a status code
+function bulkErrorResponse(c: Context, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+  if (message.startsWith('Records not found or access denied')) {
+    return c.json({ error: message }, 404)
+  }
+  if (message.startsWith('Access denied')) {
+    return c.json({ error: message }, 403)
+  }
+  return c.json({ error: message }, 400)
+}
@@ -52,6 +52,8 @@ export interface Variables {
   apiKey?: unknown
   currentEndUser?: User | null
   hookManager?: unknown
+  webhookDispatcher?: unknown
+  jobRunner?: unknown
 }
 
 export interface Admin {
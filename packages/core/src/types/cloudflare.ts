@@ -28,6 +28,29 @@ export interface R2Bucket {
   delete(keys: string | string[]): Promise<void>
   list(options?: R2ListOptions): Promise<R2Objects>
   head(key: string): Promise<R2Object | null>
+  createMultipartUpload(key: string, options?: R2MultipartOptions): Promise<R2MultipartUpload>
+  resumeMultipartUpload(key: string, uploadId: string): R2MultipartUpload
+}
+
+export interface R2MultipartOptions {
+  httpMetadata?: R2HTTPMetadata
+  customMetadata?: Record<string, string>
+}
+
+export interface R2MultipartUpload {
+  key: string
+  uploadId: string
+  uploadPart(
+    partNumber: number,
+    value: ReadableStream | ArrayBuffer | ArrayBufferView | string | Blob
+  ): Promise<R2UploadedPart>
+  abort(): Promise<void>
+  complete(uploadedParts: R2UploadedPart[]): Promise<R2Object>
+}
+
+export interface R2UploadedPart {
+  partNumber: number
+  etag: string
 }
 
 export interface R2Object {
@@ -168,7 +191,16 @@ export type DurableObjectId = CfDurableObjectId
 
 // Extended Durable Object Stub with custom methods
 export interface DurableObjectStub extends CfDurableObjectStub {
-  updateSubscriptions?(clientId: string, data: unknown): Promise<unknown>
+  updateSubscriptions?(
+    clientId: string,
+    userId: string | undefined,
+    data: unknown
+  ): Promise<{ success: boolean; error?: string; status?: number }>
+  channelMessage?(
+    clientId: string,
+    userId: string | undefined,
+    message: unknown
+  ): Promise<{ success: boolean; error?: string; status?: number }>
 }
 
 // Common result types for our application
@@ -208,3 +240,10 @@ export interface TableDataResult {
   total: number
   hasMore?: boolean
 }
+
+export interface CursorPageResult {
+  data: Record<string, unknown>[]
+  nextCursor: string | null
+  hasMore: boolean
+  total?: number // Only counted when requested
+}
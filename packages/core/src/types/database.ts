@@ -1,7 +1,30 @@
 // Database result types for Vibebase
 
-// Type for WHERE clause filters
-export type WhereClause = Record<string, string | number | boolean | null>
+// Types for WHERE clause filters
+export type FilterScalar = string | number | boolean | null
+
+export interface FilterOperators {
+  eq?: FilterScalar
+  ne?: FilterScalar
+  gt?: FilterScalar
+  gte?: FilterScalar
+  lt?: FilterScalar
+  lte?: FilterScalar
+  in?: FilterScalar[]
+  not_in?: FilterScalar[]
+  like?: string // Case-sensitive, % and _ wildcards
+  ilike?: string // Case-insensitive (ASCII), % and _ wildcards
+  is_null?: boolean
+  between?: [FilterScalar, FilterScalar]
+}
+
+// A bare value means equality; `and` / `or` hold nested groups
+export type WhereClause = {
+  and?: WhereClause[]
+  or?: WhereClause[]
+} & {
+  [column: string]: FilterScalar | FilterOperators | WhereClause[] | undefined
+}
 
 export interface TableInfo {
   name: string
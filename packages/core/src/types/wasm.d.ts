@@ -0,0 +1,10 @@
+// WebAssembly modules imported by the Worker are compiled by wrangler at upload
+declare module '@jitl/quickjs-wasmfile-release-sync/wasm' {
+  const module: WebAssembly.Module
+  export default module
+}
+
+declare module '@jsquash/*.wasm?module' {
+  const module: WebAssembly.Module
+  export default module
+}
@@ -1,10 +1,31 @@
-import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vitest/config'
+
+// wrangler compiles `.wasm?module` imports into modules; under Node this plugin does it
+const compiledWasm = (): Plugin => ({
+  name: 'compiled-wasm',
+  enforce: 'pre',
+  load(id) {
+    if (!id.endsWith('.wasm?module')) return null
+    const file = JSON.stringify(id.slice(0, -'?module'.length))
+    return `import { readFileSync } from 'node:fs'\nexport default new WebAssembly.Module(readFileSync(${file}))`
+  },
+})
 
 export default defineConfig({
+  plugins: [compiledWasm()],
+  resolve: {
+    alias: {
+      // wrangler compiles `.wasm` imports into modules; under Node the test helper does it
+      '@jitl/quickjs-wasmfile-release-sync/wasm': fileURLToPath(
+        new URL('./src/__tests__/helpers/quickjs-wasm.ts', import.meta.url)
+      ),
+    },
+  },
   test: {
     globals: true,
     environment: 'node',
     include: ['src/__tests__/**/*.test.ts'],
     exclude: ['node_modules/**'],
   },
-})
\ No newline at end of file
+})
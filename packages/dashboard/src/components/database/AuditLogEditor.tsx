@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'preact/hooks'
+import { type AuditConfig, api } from '../../lib/api'
+import { isSystemTable } from '../../utils/database'
+
+interface AuditLogEditorProps {
+  tableName: string
+}
+
+export function AuditLogEditor({ tableName }: AuditLogEditorProps) {
+  const [config, setConfig] = useState<AuditConfig | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadConfig = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setConfig(await api.getAuditConfig(tableName))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log setting')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isSystemTable(tableName)) {
+      loadConfig()
+    }
+  }, [tableName])
+
+  if (isSystemTable(tableName)) {
+    return null
+  }
+
+  const handleToggle = async () => {
+    if (
+      config?.enabled &&
+      !confirm(`Stop recording changes to "${tableName}"? The history so far is kept.`)
+    ) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      if (config?.enabled) {
+        await api.disableAuditLog(tableName)
+      } else {
+        await api.enableAuditLog(tableName)
+      }
+      await loadConfig()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update audit log setting')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Audit Log</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Records every change with the row before and after it and who made it. Open a record's
+            history from the History button of its row.
+          </p>
+        </div>
+        <span
+          className={`px-2 py-0.5 text-xs rounded-full ${
+            config?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {config?.enabled ? 'enabled' : 'disabled'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleToggle}
+          className={
+            config?.enabled
+              ? 'px-3 py-1.5 text-sm text-red-600 hover:text-red-800'
+              : 'px-3 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50'
+          }
+          disabled={loading || !config}
+        >
+          {config?.enabled ? 'Disable' : 'Enable'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import {
   isSystemTable,
   truncateId,
 } from '../../utils/database'
+import { RecordHistory } from './RecordHistory'
 
 interface DataViewerProps {
   tableName: string
@@ -47,6 +48,7 @@ export function DataViewer({
   const [editingCell, setEditingCell] = useState<EditingCell | null>(null)
   const [editingRecord, setEditingRecord] = useState<EditingRecord | null>(null)
   const [copiedCell, setCopiedCell] = useState<string | null>(null)
+  const [historyRecordId, setHistoryRecordId] = useState<string | null>(null)
   const hasInitializedFocus = useRef(false)
 
   const {
@@ -373,7 +375,16 @@ export function DataViewer({
                       )
                     })}
                     {showEditControls && (
-                      <td className="px-4 py-3 text-sm">
+                      <td className="px-4 py-3 text-sm whitespace-nowrap">
+                        {!isSystemTableType && (
+                          <button
+                            type="button"
+                            onClick={() => setHistoryRecordId(row.id as string)}
+                            className="text-blue-600 hover:text-blue-800 text-sm mr-3"
+                          >
+                            History
+                          </button>
+                        )}
                         <button
                           type="button"
                           onClick={() => handleDeleteRecord(row.id as string)}
@@ -453,6 +464,16 @@ export function DataViewer({
         </div>
       )}
 
+      {/* Record History Modal */}
+      {historyRecordId && (
+        <RecordHistory
+          tableName={tableName}
+          recordId={historyRecordId}
+          onClose={() => setHistoryRecordId(null)}
+          onReverted={onDataChange}
+        />
+      )}
+
       {/* Edit Record Modal */}
       {editingRecord && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
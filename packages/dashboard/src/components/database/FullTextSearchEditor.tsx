@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'preact/hooks'
+import { api, type ColumnInfo, type FullTextConfig } from '../../lib/api'
+import { isSystemTable } from '../../utils/database'
+
+interface FullTextSearchEditorProps {
+  tableName: string
+  tableColumns: ColumnInfo[]
+}
+
+export function FullTextSearchEditor({ tableName, tableColumns }: FullTextSearchEditorProps) {
+  const [config, setConfig] = useState<FullTextConfig | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const textColumns = tableColumns
+    .filter((col) => col.type.toUpperCase() === 'TEXT' && col.name !== 'id')
+    .map((col) => col.name)
+
+  const loadConfig = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await api.getFullTextConfig(tableName)
+      setConfig(result)
+      setSelected(result.columns)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load full-text search config')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isSystemTable(tableName)) {
+      loadConfig()
+    }
+  }, [tableName])
+
+  if (isSystemTable(tableName)) {
+    return null
+  }
+
+  const toggleColumn = (column: string) => {
+    setSelected((current) =>
+      current.includes(column) ? current.filter((name) => name !== column) : [...current, column]
+    )
+  }
+
+  const handleSave = async (e: Event) => {
+    e.preventDefault()
+    if (selected.length === 0) {
+      setError('Select at least one column')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      await api.enableFullTextSearch(tableName, selected)
+      await loadConfig()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable full-text search')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm(`Disable full-text search on "${tableName}"? The search index will be dropped.`)) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      await api.disableFullTextSearch(tableName)
+      await loadConfig()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disable full-text search')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Full-Text Search</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            TEXT columns indexed for ranked search with <code>?q=</code> on the search endpoint.
+            Saving rebuilds the index from the current rows.
+          </p>
+        </div>
+        <span
+          className={`px-2 py-0.5 text-xs rounded-full ${
+            config?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {config?.enabled ? 'enabled' : 'disabled'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {textColumns.length === 0 ? (
+        <p className="text-sm text-gray-500">This table has no TEXT columns to index.</p>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="flex flex-wrap gap-4">
+            {textColumns.map((column) => (
+              <label key={column} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(column)}
+                  onChange={() => toggleColumn(column)}
+                  disabled={loading}
+                />
+                {column}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            {config?.enabled && (
+              <button
+                type="button"
+                onClick={handleDisable}
+                className="px-3 py-1.5 text-sm text-red-600 hover:text-red-800"
+                disabled={loading}
+              >
+                Disable
+              </button>
+            )}
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+              disabled={loading}
+            >
+              {config?.enabled ? 'Update Index' : 'Enable'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'preact/hooks'
+import { type AuditEntry, api } from '../../lib/api'
+import { formatDateTime } from '../../utils/database'
+
+interface RecordHistoryProps {
+  tableName: string
+  recordId: string
+  onClose: () => void
+  onReverted: () => void // Callback when the record was reverted
+}
+
+const OPERATION_STYLES: Record<AuditEntry['operation'], string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-yellow-100 text-yellow-800',
+  purge: 'bg-gray-200 text-gray-800',
+}
+
+// Columns whose value differs between the two row images
+function changedColumns(entry: AuditEntry): string[] {
+  const columns = new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])
+  return [...columns].filter(
+    (column) =>
+      column !== 'updated_at' &&
+      JSON.stringify(entry.before?.[column]) !== JSON.stringify(entry.after?.[column])
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '∅'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+export function RecordHistory({ tableName, recordId, onClose, onReverted }: RecordHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await api.getRecordHistory(tableName, recordId)
+      setEntries(result.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadHistory()
+  }, [tableName, recordId])
+
+  const handleRevert = async (entry: AuditEntry) => {
+    if (!confirm(`Revert record "${recordId}" to the version of ${entry.created_at}?`)) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      await api.revertRecord(tableName, recordId, entry.id)
+      onReverted()
+      await loadHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert record')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="mb-4 flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-semibold">Record History</h3>
+            <p className="text-sm text-gray-500 font-mono">
+              {tableName}/{recordId}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!loading && entries.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No recorded changes. Enable the audit log of this table to record its history.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {entries.map((entry, index) => (
+            <li key={entry.id} className="border rounded-md p-3">
+              <div className="flex justify-between items-center mb-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full ${OPERATION_STYLES[entry.operation]}`}
+                  >
+                    {entry.operation}
+                  </span>
+                  <span className="text-gray-700">
+                    {entry.actor_type}
+                    {entry.actor_id && <span className="font-mono"> {entry.actor_id}</span>}
+                  </span>
+                  <span className="text-gray-500">{formatDateTime(entry.created_at)}</span>
+                </div>
+                {entry.after && index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevert(entry)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                    disabled={loading}
+                  >
+                    Revert to this version
+                  </button>
+                )}
+              </div>
+              {entry.operation === 'update' && (
+                <table className="text-xs w-full">
+                  <tbody>
+                    {changedColumns(entry).map((column) => (
+                      <tr key={column}>
+                        <td className="pr-3 py-0.5 font-medium text-gray-700">{column}</td>
+                        <td className="pr-3 py-0.5 text-red-700 line-through break-all">
+                          {formatValue(entry.before?.[column])}
+                        </td>
+                        <td className="py-0.5 text-green-700 break-all">
+                          {formatValue(entry.after?.[column])}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'preact/hooks'
+import { api, type RowPolicy, type RowPolicyOperation } from '../../lib/api'
+import { isSystemTable } from '../../utils/database'
+
+interface RowPolicyEditorProps {
+  tableName: string
+}
+
+const OPERATIONS: RowPolicyOperation[] = ['read', 'insert', 'update', 'delete']
+
+const EXAMPLE_CONDITION = {
+  any: [
+    { column: 'status', op: 'eq', value: 'published' },
+    { column: 'author_id', op: 'eq', value: { auth: 'user_id' } },
+  ],
+}
+
+export function RowPolicyEditor({ tableName }: RowPolicyEditorProps) {
+  const [policies, setPolicies] = useState<RowPolicy[]>([])
+  const [editingOperation, setEditingOperation] = useState<RowPolicyOperation | null>(null)
+  const [draft, setDraft] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPolicies = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await api.getRowPolicies(tableName)
+      setPolicies(result.row_policies)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load row policies')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setEditingOperation(null)
+    if (!isSystemTable(tableName)) {
+      loadPolicies()
+    }
+  }, [tableName])
+
+  if (isSystemTable(tableName)) {
+    return null
+  }
+
+  const getPolicy = (operation: RowPolicyOperation) =>
+    policies.find((policy) => policy.operation === operation)
+
+  const handleEdit = (operation: RowPolicyOperation) => {
+    const existing = getPolicy(operation)
+    setDraft(JSON.stringify(existing ? existing.condition : EXAMPLE_CONDITION, null, 2))
+    setEditingOperation(operation)
+    setError(null)
+  }
+
+  const handleSave = async (e: Event) => {
+    e.preventDefault()
+    if (!editingOperation) return
+
+    let condition: Record<string, unknown>
+    try {
+      condition = JSON.parse(draft)
+    } catch {
+      setError('Condition must be valid JSON')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      await api.updateRowPolicy(tableName, editingOperation, condition)
+      setEditingOperation(null)
+      await loadPolicies()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save row policy')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRemove = async (operation: RowPolicyOperation) => {
+    if (!confirm(`Remove the ${operation} policy from "${tableName}"?`)) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      await api.deleteRowPolicy(tableName, operation)
+      await loadPolicies()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove row policy')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Row Policies</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Conditions that decide which rows end users can read and write. An operation without a
+          policy falls back to the table's access policy.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {OPERATIONS.map((operation) => {
+          const policy = getPolicy(operation)
+          return (
+            <div key={operation} className="border rounded-md p-3">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 capitalize">{operation}</span>
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full ${
+                      policy ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {policy ? 'custom' : 'default'}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(operation)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                    disabled={loading}
+                  >
+                    {policy ? 'Edit' : 'Add'}
+                  </button>
+                  {policy && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(operation)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                      disabled={loading}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {editingOperation === operation ? (
+                <form onSubmit={handleSave} className="mt-3 space-y-2">
+                  <textarea
+                    value={draft}
+                    onInput={(e) => setDraft((e.target as HTMLTextAreaElement).value)}
+                    rows={10}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingOperation(null)}
+                      className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+                      disabled={loading}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                policy && (
+                  <pre className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-700 overflow-x-auto">
+                    {JSON.stringify(policy.condition, null, 2)}
+                  </pre>
+                )
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'preact/hooks'
+import { api, type SoftDeleteConfig } from '../../lib/api'
+import { isSystemTable } from '../../utils/database'
+
+interface TrashViewerProps {
+  tableName: string
+  onDataChange: () => void
+}
+
+const TRASH_PAGE_SIZE = 50
+
+export function TrashViewer({ tableName, onDataChange }: TrashViewerProps) {
+  const [config, setConfig] = useState<SoftDeleteConfig | null>(null)
+  const [records, setRecords] = useState<Record<string, unknown>[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTrash = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await api.getSoftDeleteConfig(tableName)
+      setConfig(result)
+      setRecords(result.enabled ? (await api.getTrash(tableName, TRASH_PAGE_SIZE)).data : [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isSystemTable(tableName)) {
+      loadTrash()
+    }
+  }, [tableName])
+
+  if (isSystemTable(tableName)) {
+    return null
+  }
+
+  const run = async (action: () => Promise<unknown>, fallback: string, dataChanged = false) => {
+    setLoading(true)
+    setError(null)
+    try {
+      await action()
+      await loadTrash()
+      if (dataChanged) onDataChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleEnable = () =>
+    run(() => api.enableSoftDelete(tableName), 'Failed to enable soft delete', true)
+
+  const handleDisable = () => {
+    if (!confirm(`Disable soft delete on "${tableName}"? Deletes will be permanent again.`)) {
+      return
+    }
+    run(() => api.disableSoftDelete(tableName), 'Failed to disable soft delete')
+  }
+
+  const handleRestore = (id: string) =>
+    run(() => api.restoreRecords(tableName, [id]), 'Failed to restore record', true)
+
+  const handlePurge = (id: string) => {
+    if (!confirm(`Permanently delete record "${id}"? This cannot be undone.`)) {
+      return
+    }
+    run(() => api.purgeRecords(tableName, [id]), 'Failed to purge record')
+  }
+
+  const handleEmptyTrash = () => {
+    if (!confirm(`Permanently delete all ${config?.trashed ?? 0} records in the trash?`)) {
+      return
+    }
+    run(() => api.purgeRecords(tableName), 'Failed to empty trash')
+  }
+
+  const columns = records.length > 0 ? Object.keys(records[0]).filter((key) => key !== 'id') : []
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Trash</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            With soft delete, deleted records get a <code>deleted_at</code> timestamp and are hidden
+            from reads until they are restored or purged.
+          </p>
+        </div>
+        <span
+          className={`px-2 py-0.5 text-xs rounded-full ${
+            config?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {config?.enabled ? 'soft delete' : 'permanent delete'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {config?.enabled && (
+        <div className="mb-4">
+          {records.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">id</th>
+                    {columns.map((column) => (
+                      <th key={column} className="px-3 py-2 text-left font-medium text-gray-500">
+                        {column}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {records.map((record) => {
+                    const id = String(record.id)
+                    return (
+                      <tr key={id}>
+                        <td className="px-3 py-2 font-mono text-gray-900">{id}</td>
+                        {columns.map((column) => (
+                          <td key={column} className="px-3 py-2 text-gray-700 truncate max-w-xs">
+                            {record[column] === null ? '' : String(record[column])}
+                          </td>
+                        ))}
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          <button
+                            type="button"
+                            onClick={() => handleRestore(id)}
+                            className="px-2 text-blue-600 hover:text-blue-800"
+                            disabled={loading}
+                          >
+                            Restore
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handlePurge(id)}
+                            className="px-2 text-red-600 hover:text-red-800"
+                            disabled={loading}
+                          >
+                            Purge
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {config.trashed > records.length && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the {records.length} most recently deleted of {config.trashed} records.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {config?.enabled ? (
+          <>
+            {records.length > 0 && (
+              <button
+                type="button"
+                onClick={handleEmptyTrash}
+                className="px-3 py-1.5 text-sm text-red-600 hover:text-red-800"
+                disabled={loading}
+              >
+                Empty Trash
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleDisable}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              disabled={loading || records.length > 0}
+              title={records.length > 0 ? 'Empty the trash before disabling soft delete' : ''}
+            >
+              Disable
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={handleEnable}
+            className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+            disabled={loading}
+          >
+            Enable Soft Delete
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
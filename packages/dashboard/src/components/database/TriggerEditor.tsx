@@ -0,0 +1,477 @@
+import { useEffect, useState } from 'preact/hooks'
+import {
+  api,
+  type TableTrigger,
+  type TriggerEvent,
+  type TriggerLogEntry,
+  type TriggerLogLine,
+  type TriggerTestResult,
+} from '../../lib/api'
+import { isSystemTable } from '../../utils/database'
+
+interface TriggerEditorProps {
+  tableName: string
+}
+
+const EVENTS: { value: TriggerEvent; label: string }[] = [
+  { value: 'before_insert', label: 'Before insert' },
+  { value: 'before_update', label: 'Before update' },
+  { value: 'before_delete', label: 'Before delete' },
+  { value: 'after_write', label: 'After write' },
+]
+
+const EXAMPLE_SCRIPT = `// ctx.record is the data being written, ctx.old the stored row (null for inserts)
+if (!ctx.record.title) {
+  reject('Title is required')
+}
+ctx.record.slug = ctx.record.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')`
+
+const STATUS_STYLES: Record<TriggerTestResult['status'], string> = {
+  ok: 'bg-green-100 text-green-800',
+  rejected: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+  timeout: 'bg-red-100 text-red-800',
+}
+
+// Console output of a run, one line per call
+const formatLogLines = (lines: TriggerLogLine[]) =>
+  lines.map((line) => `[${line.level}] ${line.message}`).join('\n')
+
+interface TriggerDraft {
+  id: string | null // null for a new trigger
+  name: string
+  event: TriggerEvent
+  script: string
+  timeout_ms: number
+  sampleRecord: string
+  sampleOld: string
+}
+
+export function TriggerEditor({ tableName }: TriggerEditorProps) {
+  const [triggers, setTriggers] = useState<TableTrigger[]>([])
+  const [draft, setDraft] = useState<TriggerDraft | null>(null)
+  const [testResult, setTestResult] = useState<TriggerTestResult | null>(null)
+  const [logsFor, setLogsFor] = useState<string | null>(null)
+  const [logs, setLogs] = useState<TriggerLogEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTriggers = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setTriggers(await api.getTriggers(tableName))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load triggers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setDraft(null)
+    setLogsFor(null)
+    if (!isSystemTable(tableName)) {
+      loadTriggers()
+    }
+  }, [tableName])
+
+  if (isSystemTable(tableName)) {
+    return null
+  }
+
+  const updateDraft = (changes: Partial<TriggerDraft>) => {
+    if (draft) setDraft({ ...draft, ...changes })
+  }
+
+  const handleAdd = () => {
+    setDraft({
+      id: null,
+      name: '',
+      event: 'before_insert',
+      script: EXAMPLE_SCRIPT,
+      timeout_ms: 50,
+      sampleRecord: '{\n  "title": "Hello World"\n}',
+      sampleOld: '{}',
+    })
+    setTestResult(null)
+    setError(null)
+  }
+
+  const handleEdit = (trigger: TableTrigger) => {
+    setDraft({
+      id: trigger.id,
+      name: trigger.name,
+      event: trigger.event,
+      script: trigger.script,
+      timeout_ms: trigger.timeout_ms,
+      sampleRecord: '{}',
+      sampleOld: '{}',
+    })
+    setTestResult(null)
+    setError(null)
+  }
+
+  const handleSave = async (e: Event) => {
+    e.preventDefault()
+    if (!draft) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const fields = {
+        name: draft.name.trim(),
+        event: draft.event,
+        script: draft.script,
+        timeout_ms: draft.timeout_ms,
+      }
+      if (draft.id) {
+        await api.updateTrigger(tableName, draft.id, fields)
+      } else {
+        await api.createTrigger(tableName, { ...fields, enabled: true })
+      }
+      setDraft(null)
+      await loadTriggers()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save trigger')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleTest = async () => {
+    if (!draft) return
+
+    let record: Record<string, unknown>
+    let old: Record<string, unknown>
+    try {
+      record = JSON.parse(draft.sampleRecord || '{}')
+      old = JSON.parse(draft.sampleOld || '{}')
+    } catch {
+      setError('Sample record and stored row must be valid JSON')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      setTestResult(
+        await api.testTrigger(tableName, {
+          event: draft.event,
+          script: draft.script,
+          record,
+          old,
+          timeout_ms: draft.timeout_ms,
+        })
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run trigger test')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggle = async (trigger: TableTrigger) => {
+    setLoading(true)
+    setError(null)
+    try {
+      await api.updateTrigger(tableName, trigger.id, { enabled: !trigger.enabled })
+      await loadTriggers()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update trigger')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRemove = async (trigger: TableTrigger) => {
+    if (!confirm(`Remove the trigger "${trigger.name}" from "${tableName}"?`)) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      await api.deleteTrigger(tableName, trigger.id)
+      if (logsFor === trigger.id) setLogsFor(null)
+      await loadTriggers()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove trigger')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleShowLogs = async (trigger: TableTrigger) => {
+    if (logsFor === trigger.id) {
+      setLogsFor(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      setLogs(await api.getTriggerLogs(tableName, trigger.id))
+      setLogsFor(trigger.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trigger logs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const eventLabel = (event: TriggerEvent) =>
+    EVENTS.find((option) => option.value === event)?.label || event
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Triggers</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            JavaScript run on every write. Before-triggers can change <code>ctx.record</code> or
+            call <code>reject(message)</code>; after-triggers see the committed row.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+            disabled={loading}
+          >
+            Add Trigger
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="mb-4 border rounded-md p-3 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              onInput={(e) => updateDraft({ name: (e.target as HTMLInputElement).value })}
+              placeholder="Trigger name"
+              required
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={draft.event}
+              onChange={(e) =>
+                updateDraft({ event: (e.target as HTMLSelectElement).value as TriggerEvent })
+              }
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {EVENTS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Time limit (ms)
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={draft.timeout_ms}
+                onInput={(e) =>
+                  updateDraft({ timeout_ms: Number((e.target as HTMLInputElement).value) })
+                }
+                className="w-24 px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <textarea
+            value={draft.script}
+            onInput={(e) => updateDraft({ script: (e.target as HTMLTextAreaElement).value })}
+            rows={10}
+            spellcheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {/* Test runner */}
+          <div className="border-t pt-3 space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Test</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="text-xs text-gray-600">
+                ctx.record
+                <textarea
+                  value={draft.sampleRecord}
+                  onInput={(e) =>
+                    updateDraft({ sampleRecord: (e.target as HTMLTextAreaElement).value })
+                  }
+                  rows={4}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                ctx.old (updates and deletes)
+                <textarea
+                  value={draft.sampleOld}
+                  onInput={(e) =>
+                    updateDraft({ sampleOld: (e.target as HTMLTextAreaElement).value })
+                  }
+                  rows={4}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+
+            {testResult && (
+              <div className="p-2 bg-gray-50 rounded text-xs space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[testResult.status]}`}>
+                    {testResult.status}
+                  </span>
+                  <span className="text-gray-500">{testResult.durationMs} ms</span>
+                  {testResult.message && (
+                    <span className="text-gray-700">{testResult.message}</span>
+                  )}
+                </div>
+                {testResult.status === 'ok' && draft.event !== 'after_write' && (
+                  <pre className="text-gray-700 overflow-x-auto">
+                    {JSON.stringify(testResult.record, null, 2)}
+                  </pre>
+                )}
+                {testResult.logs.length > 0 && (
+                  <pre className="font-mono text-gray-600 whitespace-pre-wrap">
+                    {formatLogLines(testResult.logs)}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleTest}
+              className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              disabled={loading}
+            >
+              Run Test
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+              disabled={loading || !draft.name.trim()}
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {triggers.length === 0 ? (
+        !draft && <p className="text-sm text-gray-500">No triggers on this table.</p>
+      ) : (
+        <div className="space-y-3">
+          {triggers.map((trigger) => (
+            <div key={trigger.id} className="border rounded-md p-3">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{trigger.name}</span>
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                    {eventLabel(trigger.event)}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full ${
+                      trigger.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {trigger.enabled ? 'enabled' : 'disabled'}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleShowLogs(trigger)}
+                    className="text-sm text-gray-600 hover:text-gray-800"
+                    disabled={loading}
+                  >
+                    {logsFor === trigger.id ? 'Hide Logs' : 'Logs'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(trigger)}
+                    className="text-sm text-gray-600 hover:text-gray-800"
+                    disabled={loading}
+                  >
+                    {trigger.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(trigger)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                    disabled={loading}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(trigger)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                    disabled={loading}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {logsFor === trigger.id && (
+                <div className="mt-3 space-y-2">
+                  {logs.length === 0 ? (
+                    <p className="text-xs text-gray-500">
+                      No recorded runs. Runs are kept when they fail, reject a write or print
+                      something.
+                    </p>
+                  ) : (
+                    logs.map((entry) => (
+                      <div key={entry.id} className="p-2 bg-gray-50 rounded text-xs space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[entry.status]}`}
+                          >
+                            {entry.status}
+                          </span>
+                          <span className="text-gray-500">
+                            {new Date(entry.created_at).toLocaleString()} · {entry.duration_ms} ms
+                          </span>
+                          {entry.record_id && (
+                            <span className="font-mono text-gray-500">{entry.record_id}</span>
+                          )}
+                        </div>
+                        {entry.message && <div className="text-gray-700">{entry.message}</div>}
+                        {entry.logs.length > 0 && (
+                          <pre className="font-mono text-gray-600 whitespace-pre-wrap">
+                            {formatLogLines(entry.logs)}
+                          </pre>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
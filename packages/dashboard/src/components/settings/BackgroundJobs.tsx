@@ -0,0 +1,331 @@
+import { useEffect, useState } from 'preact/hooks'
+import type { BackgroundJob, JobRun, JobRunStatus } from '../../types/settings'
+import { formatDateTime } from '../../utils/database'
+
+interface BackgroundJobsProps {
+  onError: (error: string | null) => void
+}
+
+// Intervals offered for a job; the cron trigger runs every 5 minutes
+const INTERVAL_OPTIONS = [5, 15, 30, 60, 6 * 60, 12 * 60, 24 * 60, 7 * 24 * 60]
+
+const STATUS_STYLES: Record<JobRunStatus, string> = {
+  success: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}))
+  return `${fallback}: ${response.status} - ${errorData.error || 'Unknown error'}`
+}
+
+function formatInterval(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60)
+    return days === 1 ? 'Every day' : `Every ${days} days`
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60
+    return hours === 1 ? 'Every hour' : `Every ${hours} hours`
+  }
+  return `Every ${minutes} minutes`
+}
+
+function RunSummary({ run }: { run: JobRun }) {
+  return (
+    <span>
+      {formatDateTime(run.started_at)}{' '}
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}
+      >
+        {run.status}
+      </span>
+      <span className="text-gray-500">
+        {' '}
+        · {run.duration_ms} ms{run.message && ` · ${run.message}`}
+      </span>
+    </span>
+  )
+}
+
+export function BackgroundJobs({ onError }: BackgroundJobsProps) {
+  const [jobs, setJobs] = useState<BackgroundJob[]>([])
+  const [loading, setLoading] = useState(false)
+  const [running, setRunning] = useState<string | null>(null)
+
+  const [runs, setRuns] = useState<JobRun[]>([])
+  const [runJobFilter, setRunJobFilter] = useState('')
+  const [runStatusFilter, setRunStatusFilter] = useState<JobRunStatus | ''>('')
+
+  const loadJobs = async () => {
+    try {
+      setLoading(true)
+      onError(null)
+
+      const response = await fetch('/api/jobs', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load jobs'))
+      }
+
+      const data = await response.json()
+      setJobs(data.data || [])
+    } catch (err) {
+      console.error('Failed to load jobs:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load jobs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadRuns = async (jobName: string, status: JobRunStatus | '') => {
+    try {
+      const params = new URLSearchParams({ limit: '50' })
+      if (jobName) params.set('job', jobName)
+      if (status) params.set('status', status)
+
+      const response = await fetch(`/api/jobs/runs?${params}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load job runs'))
+      }
+
+      const data = await response.json()
+      setRuns(data.data || [])
+    } catch (err) {
+      console.error('Failed to load job runs:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load job runs')
+    }
+  }
+
+  const updateJob = async (
+    job: BackgroundJob,
+    update: { enabled?: boolean; interval_minutes?: number }
+  ) => {
+    try {
+      onError(null)
+
+      const response = await fetch(`/api/jobs/${job.name}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(update),
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update job'))
+      }
+
+      await loadJobs()
+    } catch (err) {
+      console.error('Failed to update job:', err)
+      onError(err instanceof Error ? err.message : 'Failed to update job')
+    }
+  }
+
+  const runJob = async (job: BackgroundJob) => {
+    try {
+      setRunning(job.name)
+      onError(null)
+
+      const response = await fetch(`/api/jobs/${job.name}/run`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to run job'))
+      }
+
+      const result = await response.json()
+      if (!result.success) {
+        onError(`${job.name} failed: ${result.data?.message || 'Unknown error'}`)
+      }
+
+      await Promise.all([loadJobs(), loadRuns(runJobFilter, runStatusFilter)])
+    } catch (err) {
+      console.error('Failed to run job:', err)
+      onError(err instanceof Error ? err.message : 'Failed to run job')
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  useEffect(() => {
+    loadJobs()
+  }, [])
+
+  useEffect(() => {
+    loadRuns(runJobFilter, runStatusFilter)
+  }, [runJobFilter, runStatusFilter])
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Background Jobs</h3>
+            <p className="text-sm text-gray-500">
+              Maintenance jobs run by the worker's cron trigger, each on its own schedule
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-4">
+              <p className="text-gray-500">Loading jobs...</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map((job) => (
+                <div key={job.name} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <h4 className="text-sm font-medium text-gray-900 font-mono">{job.name}</h4>
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            job.enabled
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {job.enabled ? 'Enabled' : 'Paused'}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500 mb-2">{job.description}</p>
+                      <div className="space-y-1 text-sm text-gray-600">
+                        <p>
+                          <span className="font-medium">Last run:</span>{' '}
+                          {job.last_run ? <RunSummary run={job.last_run} /> : 'Never'}
+                        </p>
+                        {job.last_failure && job.last_failure.id !== job.last_run?.id && (
+                          <p>
+                            <span className="font-medium">Last failure:</span>{' '}
+                            <RunSummary run={job.last_failure} />
+                          </p>
+                        )}
+                        <p>
+                          <span className="font-medium">Next run:</span>{' '}
+                          {!job.enabled
+                            ? '-'
+                            : job.next_run_at
+                              ? formatDateTime(job.next_run_at)
+                              : 'At the next cron tick'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 ml-4">
+                      <select
+                        value={job.interval_minutes}
+                        onChange={(e) =>
+                          updateJob(job, {
+                            interval_minutes: Number((e.target as HTMLSelectElement).value),
+                          })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        aria-label={`Schedule of ${job.name}`}
+                      >
+                        {[...new Set([...INTERVAL_OPTIONS, job.interval_minutes])]
+                          .sort((a, b) => a - b)
+                          .map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {formatInterval(minutes)}
+                              {minutes === job.default_interval_minutes ? ' (default)' : ''}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => updateJob(job, { enabled: !job.enabled })}
+                        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                      >
+                        {job.enabled ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => runJob(job)}
+                        disabled={running === job.name}
+                        className="px-3 py-1 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {running === job.name ? 'Running...' : 'Run now'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Run History */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Run History</h3>
+            <div className="flex items-center space-x-2">
+              <select
+                value={runJobFilter}
+                onChange={(e) => setRunJobFilter((e.target as HTMLSelectElement).value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All jobs</option>
+                {jobs.map((job) => (
+                  <option key={job.name} value={job.name}>
+                    {job.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={runStatusFilter}
+                onChange={(e) =>
+                  setRunStatusFilter((e.target as HTMLSelectElement).value as JobRunStatus | '')
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All runs</option>
+                <option value="failed">Failed</option>
+                <option value="success">Succeeded</option>
+              </select>
+            </div>
+          </div>
+
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-500">No runs recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm text-left text-gray-600">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="py-1">Job</th>
+                  <th className="py-1">Started</th>
+                  <th className="py-1">Trigger</th>
+                  <th className="py-1">Status</th>
+                  <th className="py-1">Duration</th>
+                  <th className="py-1">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className="border-t border-gray-100">
+                    <td className="py-1 font-mono">{run.job_name}</td>
+                    <td className="py-1">{formatDateTime(run.started_at)}</td>
+                    <td className="py-1">{run.triggered_by}</td>
+                    <td className="py-1">
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}
+                      >
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="py-1">{run.duration_ms} ms</td>
+                    <td className="py-1 break-all">{run.message || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
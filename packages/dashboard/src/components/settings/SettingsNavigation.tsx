@@ -10,6 +10,8 @@ export function SettingsNavigation({ activeSection, onSectionChange }: SettingsN
     { id: 'app-settings' as const, label: 'App Settings', icon: '⚙️' },
     { id: 'admins' as const, label: 'Admins', icon: '👥' },
     { id: 'api-keys' as const, label: 'API Keys', icon: '🔑' },
+    { id: 'webhooks' as const, label: 'Webhooks', icon: '🪝' },
+    { id: 'jobs' as const, label: 'Background Jobs', icon: '⏱️' },
   ]
 
   return (
@@ -0,0 +1,619 @@
+import { useEffect, useState } from 'preact/hooks'
+import { api } from '../../lib/api'
+import type {
+  CreateWebhookRequest,
+  Webhook,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../../types/settings'
+import { formatDateTime, truncateId } from '../../utils/database'
+
+interface WebhooksManagementProps {
+  onError: (error: string | null) => void
+}
+
+const EMPTY_WEBHOOK: CreateWebhookRequest = {
+  table_name: '',
+  event_type: 'insert',
+  target_url: '',
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  delivered: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}))
+  return `${fallback}: ${response.status} - ${errorData.error || 'Unknown error'}`
+}
+
+export function WebhooksManagement({ onError }: WebhooksManagementProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [tables, setTables] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [showCreate, setShowCreate] = useState(false)
+  const [newWebhook, setNewWebhook] = useState<CreateWebhookRequest>(EMPTY_WEBHOOK)
+  const [filtersText, setFiltersText] = useState('')
+  const [createdWebhook, setCreatedWebhook] = useState<Webhook | null>(null)
+  const [deleteConfirm, setDeleteConfirm] = useState<Webhook | null>(null)
+
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+  const [eventStatus, setEventStatus] = useState<WebhookDeliveryStatus>('dead')
+  const [expandedEvent, setExpandedEvent] = useState<string | null>(null)
+  const [attempts, setAttempts] = useState<WebhookDeliveryAttempt[]>([])
+  const [redelivering, setRedelivering] = useState<string | null>(null)
+
+  // Load hooks with a target URL; hooks without one only queue events
+  const loadWebhooks = async () => {
+    try {
+      setLoading(true)
+      onError(null)
+
+      const response = await fetch('/api/hooks', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load webhooks'))
+      }
+
+      const data = await response.json()
+      setWebhooks((data.data || []).filter((hook: Webhook) => hook.target_url))
+    } catch (err) {
+      console.error('Failed to load webhooks:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load webhooks')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadTables = async () => {
+    try {
+      const { tables } = await api.getTables()
+      setTables(tables.filter((table) => table.type === 'user').map((table) => table.name))
+    } catch (err) {
+      console.error('Failed to load tables:', err)
+    }
+  }
+
+  const loadEvents = async (status: WebhookDeliveryStatus) => {
+    try {
+      const response = await fetch(`/api/hooks/events?status=${status}&limit=50`, {
+        credentials: 'include',
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load deliveries'))
+      }
+
+      const data = await response.json()
+      setEvents(data.data || [])
+    } catch (err) {
+      console.error('Failed to load deliveries:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load deliveries')
+    }
+  }
+
+  const createWebhook = async (e: Event) => {
+    e.preventDefault()
+
+    if (!newWebhook.table_name || !newWebhook.target_url.trim()) {
+      onError('Table and target URL are required')
+      return
+    }
+
+    const filters = filtersText
+      .split('\n')
+      .map((filter) => filter.trim())
+      .filter(Boolean)
+
+    try {
+      onError(null)
+
+      const response = await fetch('/api/hooks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...newWebhook,
+          target_url: newWebhook.target_url.trim(),
+          ...(filters.length > 0 && { filters }),
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create webhook'))
+      }
+
+      const result = await response.json()
+      setCreatedWebhook(result.data)
+      setShowCreate(false)
+      setNewWebhook(EMPTY_WEBHOOK)
+      setFiltersText('')
+      await loadWebhooks()
+    } catch (err) {
+      console.error('Failed to create webhook:', err)
+      onError(err instanceof Error ? err.message : 'Failed to create webhook')
+    }
+  }
+
+  const toggleWebhook = async (webhook: Webhook) => {
+    try {
+      onError(null)
+
+      const response = await fetch(`/api/hooks/${webhook.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ enabled: !webhook.enabled }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update webhook'))
+      }
+
+      await loadWebhooks()
+    } catch (err) {
+      console.error('Failed to update webhook:', err)
+      onError(err instanceof Error ? err.message : 'Failed to update webhook')
+    }
+  }
+
+  const deleteWebhook = async (webhookId: string) => {
+    try {
+      onError(null)
+
+      const response = await fetch(`/api/hooks/${webhookId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete webhook'))
+      }
+
+      setDeleteConfirm(null)
+      await Promise.all([loadWebhooks(), loadEvents(eventStatus)])
+    } catch (err) {
+      console.error('Failed to delete webhook:', err)
+      onError(err instanceof Error ? err.message : 'Failed to delete webhook')
+    }
+  }
+
+  const toggleAttempts = async (eventId: string) => {
+    if (expandedEvent === eventId) {
+      setExpandedEvent(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/hooks/events/${eventId}/deliveries`, {
+        credentials: 'include',
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load delivery attempts'))
+      }
+
+      const data = await response.json()
+      setAttempts(data.data?.deliveries || [])
+      setExpandedEvent(eventId)
+    } catch (err) {
+      console.error('Failed to load delivery attempts:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load delivery attempts')
+    }
+  }
+
+  const redeliver = async (eventId: string) => {
+    try {
+      setRedelivering(eventId)
+      onError(null)
+
+      const response = await fetch(`/api/hooks/events/${eventId}/redeliver`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to redeliver event'))
+      }
+
+      const result = await response.json()
+      if (!result.success) {
+        onError(result.message)
+      }
+
+      setExpandedEvent(null)
+      await loadEvents(eventStatus)
+    } catch (err) {
+      console.error('Failed to redeliver event:', err)
+      onError(err instanceof Error ? err.message : 'Failed to redeliver event')
+    } finally {
+      setRedelivering(null)
+    }
+  }
+
+  useEffect(() => {
+    loadWebhooks()
+    loadTables()
+  }, [])
+
+  useEffect(() => {
+    loadEvents(eventStatus)
+  }, [eventStatus])
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Webhooks</h3>
+              <p className="text-sm text-gray-500">
+                Data changes are POSTed to these URLs, signed with each webhook's secret
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowCreate(true)}
+              className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              Create Webhook
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-4">
+              <p className="text-gray-500">Loading webhooks...</p>
+            </div>
+          ) : webhooks.length === 0 ? (
+            <p className="text-sm text-gray-500">No webhooks found. Create one to get started.</p>
+          ) : (
+            <div className="space-y-3">
+              {webhooks.map((webhook) => (
+                <div key={webhook.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <h4 className="text-sm font-medium text-gray-900">
+                          {webhook.table_name} · {webhook.event_type}
+                        </h4>
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            webhook.enabled
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {webhook.enabled ? 'Enabled' : 'Disabled'}
+                        </span>
+                      </div>
+                      <div className="space-y-1 text-sm text-gray-600">
+                        <p className="break-all">
+                          <span className="font-medium">URL:</span> {webhook.target_url}
+                        </p>
+                        {webhook.filters && (
+                          <p>
+                            <span className="font-medium">Filters:</span>{' '}
+                            {(JSON.parse(webhook.filters) as string[]).join(', ')}
+                          </p>
+                        )}
+                        <p>
+                          <span className="font-medium">Created:</span>{' '}
+                          {formatDateTime(webhook.created_at)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 ml-4">
+                      <button
+                        type="button"
+                        onClick={() => toggleWebhook(webhook)}
+                        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                      >
+                        {webhook.enabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setDeleteConfirm(webhook)}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Delivery Log */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Deliveries</h3>
+            <select
+              value={eventStatus}
+              onChange={(e) =>
+                setEventStatus((e.target as HTMLSelectElement).value as WebhookDeliveryStatus)
+              }
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="dead">Dead-lettered</option>
+              <option value="pending">Pending</option>
+              <option value="delivered">Delivered</option>
+            </select>
+          </div>
+
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500">No deliveries with this status.</p>
+          ) : (
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div key={event.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-gray-700 space-x-3">
+                      <span className="font-mono" title={event.id}>
+                        {truncateId(event.id)}
+                      </span>
+                      <span>
+                        {event.table_name} · {event.event_type} · {truncateId(event.record_id)}
+                      </span>
+                      {event.delivery_status && (
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[event.delivery_status]}`}
+                        >
+                          {event.delivery_status}
+                        </span>
+                      )}
+                      <span className="text-gray-500">
+                        {event.attempts} attempt{event.attempts === 1 ? '' : 's'}
+                        {event.last_error && ` · ${event.last_error}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => toggleAttempts(event.id)}
+                        className="text-gray-600 hover:text-gray-900 text-sm"
+                      >
+                        {expandedEvent === event.id ? 'Hide attempts' : 'Attempts'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => redeliver(event.id)}
+                        disabled={redelivering === event.id}
+                        className="px-3 py-1 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {redelivering === event.id ? 'Sending...' : 'Redeliver'}
+                      </button>
+                    </div>
+                  </div>
+
+                  {expandedEvent === event.id && (
+                    <table className="mt-3 w-full text-xs text-left text-gray-600">
+                      <thead>
+                        <tr className="text-gray-500">
+                          <th className="py-1">Attempt</th>
+                          <th className="py-1">Sent</th>
+                          <th className="py-1">Status</th>
+                          <th className="py-1">Duration</th>
+                          <th className="py-1">Error / Response</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {attempts.map((attempt) => (
+                          <tr key={attempt.id} className="border-t border-gray-100">
+                            <td className="py-1">{attempt.attempt}</td>
+                            <td className="py-1">{formatDateTime(attempt.created_at)}</td>
+                            <td className="py-1">{attempt.status_code ?? '-'}</td>
+                            <td className="py-1">{attempt.duration_ms} ms</td>
+                            <td className="py-1 font-mono break-all">
+                              {attempt.error || attempt.response_body || '-'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create Webhook Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">Create Webhook</h3>
+
+            <form onSubmit={createWebhook} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="webhook-table"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Table
+                </label>
+                <select
+                  id="webhook-table"
+                  value={newWebhook.table_name}
+                  onChange={(e) =>
+                    setNewWebhook((prev) => ({
+                      ...prev,
+                      table_name: (e.target as HTMLSelectElement).value,
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  required
+                >
+                  <option value="">Select a table</option>
+                  {tables.map((table) => (
+                    <option key={table} value={table}>
+                      {table}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="webhook-event"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Event
+                </label>
+                <select
+                  id="webhook-event"
+                  value={newWebhook.event_type}
+                  onChange={(e) =>
+                    setNewWebhook((prev) => ({
+                      ...prev,
+                      event_type: (e.target as HTMLSelectElement)
+                        .value as CreateWebhookRequest['event_type'],
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="insert">insert</option>
+                  <option value="update">update</option>
+                  <option value="delete">delete</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="webhook-url"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Target URL
+                </label>
+                <input
+                  id="webhook-url"
+                  type="url"
+                  value={newWebhook.target_url}
+                  onChange={(e) =>
+                    setNewWebhook((prev) => ({
+                      ...prev,
+                      target_url: (e.target as HTMLInputElement).value,
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="https://example.com/webhooks/vibebase"
+                  required
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="webhook-filters"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Row filters
+                </label>
+                <textarea
+                  id="webhook-filters"
+                  value={filtersText}
+                  onInput={(e) => setFiltersText((e.target as HTMLTextAreaElement).value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  rows={3}
+                  placeholder="status=eq.published"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  One column=operator.value filter per line; leave empty to send every event
+                </p>
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowCreate(false)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 text-sm font-medium rounded-md hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700"
+                >
+                  Create Webhook
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">Delete Webhook</h3>
+            <p className="text-gray-700 mb-6">
+              Are you sure you want to delete the webhook to{' '}
+              <span className="font-medium break-all">{deleteConfirm.target_url}</span>? Its queued
+              events and delivery log are deleted with it.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setDeleteConfirm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 text-sm font-medium rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteWebhook(deleteConfirm.id)}
+                className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700"
+              >
+                Delete Webhook
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Created Webhook Secret Modal */}
+      {createdWebhook?.secret && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">Webhook Created</h3>
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-4">
+              <p className="text-sm text-yellow-800">
+                <strong>Important:</strong> This is the only time you'll see the signing secret.
+                Your receiver needs it to verify the X-Vibebase-Signature header.
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 px-2 py-1 bg-gray-100 rounded text-sm font-mono break-all">
+                {createdWebhook.secret}
+              </code>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(createdWebhook.secret ?? '')}
+                className="px-2 py-1 text-blue-600 hover:text-blue-800 text-sm"
+              >
+                Copy
+              </button>
+            </div>
+            <div className="flex justify-end pt-4">
+              <button
+                type="button"
+                onClick={() => setCreatedWebhook(null)}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+              >
+                I've saved the secret
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'preact/hooks'
+
+type BucketAccessPolicy = 'public' | 'owner' | 'private'
+
+interface StorageBucket {
+  id: string
+  name: string
+  access_policy: BucketAccessPolicy
+  updated_at: string
+}
+
+interface BucketPoliciesProps {
+  onError: (error: string | null) => void
+}
+
+const POLICY_LABELS: Record<BucketAccessPolicy, string> = {
+  public: 'Public - every user reads, owners change',
+  owner: 'Owner only - users reach their own files',
+  private: 'Private - admins and API keys only',
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}))
+  return `${fallback}: ${response.status} - ${errorData.error?.message || errorData.error || 'Unknown error'}`
+}
+
+export function BucketPolicies({ onError }: BucketPoliciesProps) {
+  const [buckets, setBuckets] = useState<StorageBucket[]>([])
+  const [newBucket, setNewBucket] = useState('')
+  const [newPolicy, setNewPolicy] = useState<BucketAccessPolicy>('owner')
+
+  const loadBuckets = async () => {
+    try {
+      const response = await fetch('/api/storage/buckets', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load buckets'))
+      }
+
+      const data = await response.json()
+      setBuckets(data.data?.buckets || [])
+    } catch (err) {
+      console.error('Failed to load buckets:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load buckets')
+    }
+  }
+
+  const savePolicy = async (name: string, accessPolicy: BucketAccessPolicy) => {
+    try {
+      onError(null)
+
+      const response = await fetch(`/api/storage/buckets/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ access_policy: accessPolicy }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save bucket policy'))
+      }
+
+      await loadBuckets()
+      return true
+    } catch (err) {
+      console.error('Failed to save bucket policy:', err)
+      onError(err instanceof Error ? err.message : 'Failed to save bucket policy')
+      return false
+    }
+  }
+
+  const removePolicy = async (name: string) => {
+    if (!confirm(`Remove the policy of ${name}? Its files fall back to owner-only access.`)) return
+
+    try {
+      onError(null)
+
+      const response = await fetch(`/api/storage/buckets/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to remove bucket policy'))
+      }
+
+      await loadBuckets()
+    } catch (err) {
+      console.error('Failed to remove bucket policy:', err)
+      onError(err instanceof Error ? err.message : 'Failed to remove bucket policy')
+    }
+  }
+
+  const addBucket = async (e: Event) => {
+    e.preventDefault()
+    if (!newBucket.trim()) return
+    if (await savePolicy(newBucket.trim(), newPolicy)) {
+      setNewBucket('')
+    }
+  }
+
+  useEffect(() => {
+    loadBuckets()
+  }, [])
+
+  return (
+    <div class="bg-white shadow rounded-lg mt-6">
+      <div class="px-4 py-5 sm:p-6">
+        <div class="mb-4">
+          <h3 class="text-lg font-medium text-gray-900">Bucket Policies</h3>
+          <p class="text-sm text-gray-500">
+            A bucket is the first folder of a file's path. Buckets without a policy, and files at
+            the root, are owner only. Admins and API keys reach every file.
+          </p>
+        </div>
+
+        <div class="space-y-2 mb-4">
+          {buckets.length === 0 ? (
+            <p class="text-sm text-gray-500">No bucket policies yet.</p>
+          ) : (
+            buckets.map((bucket) => (
+              <div
+                key={bucket.id}
+                class="flex items-center justify-between border border-gray-200 rounded-md px-3 py-2"
+              >
+                <span class="text-sm font-mono text-gray-900">{bucket.name}/</span>
+                <div class="flex items-center space-x-3">
+                  <select
+                    value={bucket.access_policy}
+                    onChange={(e) =>
+                      savePolicy(
+                        bucket.name,
+                        (e.target as HTMLSelectElement).value as BucketAccessPolicy
+                      )
+                    }
+                    class="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    aria-label={`Policy of ${bucket.name}`}
+                  >
+                    {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+                      <option key={policy} value={policy}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removePolicy(bucket.name)}
+                    class="text-red-600 hover:text-red-800 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={addBucket} class="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newBucket}
+            onInput={(e) => setNewBucket((e.target as HTMLInputElement).value)}
+            placeholder="bucket-name"
+            pattern="[A-Za-z0-9_\-]+"
+            class="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <select
+            value={newPolicy}
+            onChange={(e) =>
+              setNewPolicy((e.target as HTMLSelectElement).value as BucketAccessPolicy)
+            }
+            class="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+              <option key={policy} value={policy}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            class="px-4 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+          >
+            Add Bucket
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
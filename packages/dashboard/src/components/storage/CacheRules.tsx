@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'preact/hooks'
+
+interface StorageCacheRule {
+  id: string
+  prefix: string
+  cache_control: string
+  updated_at: string
+}
+
+interface CacheRulesProps {
+  onError: (error: string | null) => void
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}))
+  return `${fallback}: ${response.status} - ${errorData.error?.message || errorData.error || 'Unknown error'}`
+}
+
+export function CacheRules({ onError }: CacheRulesProps) {
+  const [rules, setRules] = useState<StorageCacheRule[]>([])
+  const [defaultCacheControl, setDefaultCacheControl] = useState('')
+  const [newPrefix, setNewPrefix] = useState('')
+  const [newCacheControl, setNewCacheControl] = useState('public, max-age=86400')
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/storage/cache-rules', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load cache rules'))
+      }
+
+      const data = await response.json()
+      setRules(data.data?.rules || [])
+      setDefaultCacheControl(data.data?.default_cache_control || '')
+    } catch (err) {
+      console.error('Failed to load cache rules:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load cache rules')
+    }
+  }
+
+  const saveRule = async (e: Event) => {
+    e.preventDefault()
+    if (!newPrefix || !newCacheControl.trim()) return
+
+    try {
+      onError(null)
+
+      const response = await fetch('/api/storage/cache-rules', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ prefix: newPrefix, cache_control: newCacheControl.trim() }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save cache rule'))
+      }
+
+      setNewPrefix('')
+      await loadRules()
+    } catch (err) {
+      console.error('Failed to save cache rule:', err)
+      onError(err instanceof Error ? err.message : 'Failed to save cache rule')
+    }
+  }
+
+  const removeRule = async (rule: StorageCacheRule) => {
+    if (!confirm(`Remove the cache rule of ${rule.prefix}?`)) return
+
+    try {
+      onError(null)
+
+      const response = await fetch(`/api/storage/cache-rules/${encodeURIComponent(rule.id)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to remove cache rule'))
+      }
+
+      await loadRules()
+    } catch (err) {
+      console.error('Failed to remove cache rule:', err)
+      onError(err instanceof Error ? err.message : 'Failed to remove cache rule')
+    }
+  }
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  return (
+    <div class="bg-white shadow rounded-lg mt-6">
+      <div class="px-4 py-5 sm:p-6">
+        <div class="mb-4">
+          <h3 class="text-lg font-medium text-gray-900">Cache Rules</h3>
+          <p class="text-sm text-gray-500">
+            The Cache-Control header files are served with. A file's own setting comes first, then
+            the rule of the longest matching prefix, then{' '}
+            <span class="font-mono">{defaultCacheControl}</span>.
+          </p>
+        </div>
+
+        <div class="space-y-2 mb-4">
+          {rules.length === 0 ? (
+            <p class="text-sm text-gray-500">No cache rules yet.</p>
+          ) : (
+            rules.map((rule) => (
+              <div
+                key={rule.id}
+                class="flex items-center justify-between border border-gray-200 rounded-md px-3 py-2"
+              >
+                <span class="text-sm font-mono text-gray-900">{rule.prefix}*</span>
+                <div class="flex items-center space-x-3">
+                  <span class="text-sm font-mono text-gray-600">{rule.cache_control}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeRule(rule)}
+                    class="text-red-600 hover:text-red-800 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={saveRule} class="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newPrefix}
+            onInput={(e) => setNewPrefix((e.target as HTMLInputElement).value)}
+            placeholder="images/"
+            class="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="text"
+            value={newCacheControl}
+            onInput={(e) => setNewCacheControl((e.target as HTMLInputElement).value)}
+            class="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            aria-label="Cache-Control"
+          />
+          <button
+            type="submit"
+            class="px-4 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+          >
+            Save Rule
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
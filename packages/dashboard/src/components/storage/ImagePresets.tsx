@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'preact/hooks'
+
+type ImageFit = 'contain' | 'cover' | 'fill'
+type ImageFormat = 'webp' | 'avif' | 'jpeg'
+
+interface ImagePreset {
+  id: string
+  name: string
+  width: number | null
+  height: number | null
+  fit: ImageFit
+  format: ImageFormat
+  quality: number
+  updated_at: string
+}
+
+interface ImagePresetsProps {
+  onError: (error: string | null) => void
+}
+
+const FIT_LABELS: Record<ImageFit, string> = {
+  contain: 'Contain - fit inside the box',
+  cover: 'Cover - crop to fill the box',
+  fill: 'Fill - stretch to the box',
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}))
+  return `${fallback}: ${response.status} - ${errorData.error?.message || errorData.error || 'Unknown error'}`
+}
+
+const optionalSize = (value: string) => (value.trim() === '' ? null : Number(value))
+
+function describePreset(preset: ImagePreset): string {
+  const size =
+    preset.width === null && preset.height === null
+      ? 'original size'
+      : `${preset.width ?? 'auto'} x ${preset.height ?? 'auto'}, ${preset.fit}`
+  return `${size}, ${preset.format.toUpperCase()} at quality ${preset.quality}`
+}
+
+export function ImagePresets({ onError }: ImagePresetsProps) {
+  const [presets, setPresets] = useState<ImagePreset[]>([])
+  const [name, setName] = useState('')
+  const [width, setWidth] = useState('320')
+  const [height, setHeight] = useState('320')
+  const [fit, setFit] = useState<ImageFit>('cover')
+  const [format, setFormat] = useState<ImageFormat>('webp')
+  const [quality, setQuality] = useState('80')
+
+  const loadPresets = async () => {
+    try {
+      const response = await fetch('/api/storage/image-presets', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load image presets'))
+      }
+
+      const data = await response.json()
+      setPresets(data.data?.presets || [])
+    } catch (err) {
+      console.error('Failed to load image presets:', err)
+      onError(err instanceof Error ? err.message : 'Failed to load image presets')
+    }
+  }
+
+  const savePreset = async (e: Event) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    try {
+      onError(null)
+
+      const response = await fetch(
+        `/api/storage/image-presets/${encodeURIComponent(name.trim())}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({
+            width: optionalSize(width),
+            height: optionalSize(height),
+            fit,
+            format,
+            quality: Number(quality),
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save image preset'))
+      }
+
+      setName('')
+      await loadPresets()
+    } catch (err) {
+      console.error('Failed to save image preset:', err)
+      onError(err instanceof Error ? err.message : 'Failed to save image preset')
+    }
+  }
+
+  const removePreset = async (preset: ImagePreset) => {
+    if (!confirm(`Remove the ${preset.name} preset and the images made with it?`)) return
+
+    try {
+      onError(null)
+
+      const response = await fetch(
+        `/api/storage/image-presets/${encodeURIComponent(preset.name)}`,
+        {
+          method: 'DELETE',
+          credentials: 'include',
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to remove image preset'))
+      }
+
+      await loadPresets()
+    } catch (err) {
+      console.error('Failed to remove image preset:', err)
+      onError(err instanceof Error ? err.message : 'Failed to remove image preset')
+    }
+  }
+
+  useEffect(() => {
+    loadPresets()
+  }, [])
+
+  return (
+    <div class="bg-white shadow rounded-lg mt-6">
+      <div class="px-4 py-5 sm:p-6">
+        <div class="mb-4">
+          <h3 class="text-lg font-medium text-gray-900">Image Presets</h3>
+          <p class="text-sm text-gray-500">
+            Images are transformed through these presets only, at{' '}
+            <span class="font-mono">/api/storage/files/:name/transform?preset=</span>. Results are
+            stored and reused until the image or the preset changes. Leave a side empty to keep the
+            aspect ratio.
+          </p>
+        </div>
+
+        <div class="space-y-2 mb-4">
+          {presets.length === 0 ? (
+            <p class="text-sm text-gray-500">No image presets yet.</p>
+          ) : (
+            presets.map((preset) => (
+              <div
+                key={preset.id}
+                class="flex items-center justify-between border border-gray-200 rounded-md px-3 py-2"
+              >
+                <span class="text-sm font-mono text-gray-900">{preset.name}</span>
+                <div class="flex items-center space-x-3">
+                  <span class="text-sm text-gray-600">{describePreset(preset)}</span>
+                  <button
+                    type="button"
+                    onClick={() => removePreset(preset)}
+                    class="text-red-600 hover:text-red-800 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={savePreset} class="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onInput={(e) => setName((e.target as HTMLInputElement).value)}
+            placeholder="thumbnail"
+            pattern="[A-Za-z0-9_\-]+"
+            class="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="number"
+            min="1"
+            max="4096"
+            value={width}
+            onInput={(e) => setWidth((e.target as HTMLInputElement).value)}
+            placeholder="width"
+            aria-label="Width"
+            class="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="number"
+            min="1"
+            max="4096"
+            value={height}
+            onInput={(e) => setHeight((e.target as HTMLInputElement).value)}
+            placeholder="height"
+            aria-label="Height"
+            class="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <select
+            value={fit}
+            onChange={(e) => setFit((e.target as HTMLSelectElement).value as ImageFit)}
+            class="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(FIT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={format}
+            onChange={(e) => setFormat((e.target as HTMLSelectElement).value as ImageFormat)}
+            class="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="webp">WebP</option>
+            <option value="avif">AVIF</option>
+            <option value="jpeg">JPEG</option>
+          </select>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={quality}
+            onInput={(e) => setQuality((e.target as HTMLInputElement).value)}
+            aria-label="Quality"
+            class="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            type="submit"
+            class="px-4 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+          >
+            Save Preset
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -4,14 +4,25 @@ import { tableApi } from './table-api'
 // Re-export types for backward compatibility
 export type {
   ApiResponse,
+  AuditConfig,
+  AuditEntry,
   ColumnInfo,
   ForeignKeyInfo,
+  FullTextConfig,
   IndexInfo,
   Item,
   OAuthProvider,
+  RowPolicy,
+  RowPolicyOperation,
   SchemaSnapshot,
+  SoftDeleteConfig,
   SupportedProvider,
   TableInfo,
+  TableTrigger,
+  TriggerEvent,
+  TriggerLogEntry,
+  TriggerLogLine,
+  TriggerTestResult,
 } from '../types/api'
 
 // Main API client - orchestrates all API operations
@@ -3,7 +3,23 @@
  * Handles all table-related operations including schema management, data operations, and indexing
  */
 
-import type { ColumnInfo, ForeignKeyInfo, IndexInfo, SchemaSnapshot, TableInfo } from '../types/api'
+import type {
+  AuditConfig,
+  AuditEntry,
+  ColumnInfo,
+  ForeignKeyInfo,
+  FullTextConfig,
+  IndexInfo,
+  RowPolicy,
+  RowPolicyOperation,
+  SchemaSnapshot,
+  SoftDeleteConfig,
+  TableInfo,
+  TableTrigger,
+  TriggerEvent,
+  TriggerLogEntry,
+  TriggerTestResult,
+} from '../types/api'
 import { createApiClient } from './api-client-factory'
 
 // Create API client instance
@@ -343,4 +359,293 @@ export const tableApi = {
     }
     return response.data as NonNullable<typeof response.data>
   },
+
+  // Row-level security policy management
+  async getRowPolicies(tableName: string): Promise<{
+    table_name: string
+    access_policy: 'public' | 'private' | 'system'
+    row_policies: RowPolicy[]
+  }> {
+    const response = await client.get<{
+      table_name: string
+      access_policy: 'public' | 'private' | 'system'
+      row_policies: RowPolicy[]
+    }>(`/api/tables/${tableName}/row-policies`)
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get row policies')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async updateRowPolicy(
+    tableName: string,
+    operation: RowPolicyOperation,
+    condition: Record<string, unknown>
+  ): Promise<{ success: boolean; message: string }> {
+    const response = await client.put<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/row-policies/${operation}`,
+      { condition }
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to update row policy')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async deleteRowPolicy(
+    tableName: string,
+    operation: RowPolicyOperation
+  ): Promise<{ success: boolean; message: string }> {
+    const response = await client.delete<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/row-policies/${operation}`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete row policy')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  // Full-text search management
+  async getFullTextConfig(tableName: string): Promise<FullTextConfig> {
+    const response = await client.get<FullTextConfig>(`/api/tables/${tableName}/fulltext`)
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get full-text search config')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async enableFullTextSearch(
+    tableName: string,
+    columns: string[]
+  ): Promise<{ success: boolean; message: string }> {
+    const response = await client.put<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/fulltext`,
+      { columns }
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to enable full-text search')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async disableFullTextSearch(tableName: string): Promise<{ success: boolean; message: string }> {
+    const response = await client.delete<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/fulltext`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to disable full-text search')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+  // Soft delete and trash management
+  async getSoftDeleteConfig(tableName: string): Promise<SoftDeleteConfig> {
+    const response = await client.get<SoftDeleteConfig>(`/api/tables/${tableName}/soft-delete`)
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get soft delete setting')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async enableSoftDelete(tableName: string): Promise<{ success: boolean; message: string }> {
+    const response = await client.put<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/soft-delete`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to enable soft delete')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async disableSoftDelete(tableName: string): Promise<{ success: boolean; message: string }> {
+    const response = await client.delete<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/soft-delete`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to disable soft delete')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async getTrash(
+    tableName: string,
+    limit = 100,
+    offset = 0
+  ): Promise<{ data: Record<string, unknown>[]; total: number; hasMore: boolean }> {
+    const response = await client.get<{
+      data: Record<string, unknown>[]
+      total: number
+      hasMore: boolean
+    }>(`/api/tables/${tableName}/trash?limit=${limit}&offset=${offset}`)
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to fetch trash')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async restoreRecords(
+    tableName: string,
+    ids: string[]
+  ): Promise<{ success: boolean; restored: number }> {
+    const response = await client.post<{ success: boolean; restored: number }>(
+      `/api/tables/${tableName}/trash/restore`,
+      { ids }
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to restore records')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  // Without ids the whole trash is emptied
+  async purgeRecords(
+    tableName: string,
+    ids?: string[]
+  ): Promise<{ success: boolean; purged: number }> {
+    const response = await client.delete<{ success: boolean; purged: number }>(
+      `/api/tables/${tableName}/trash`,
+      ids ? { body: JSON.stringify({ ids }) } : undefined
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to purge records')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+  // Audit log management
+  async getAuditConfig(tableName: string): Promise<AuditConfig> {
+    const response = await client.get<AuditConfig>(`/api/tables/${tableName}/audit`)
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get audit log setting')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async enableAuditLog(tableName: string): Promise<{ success: boolean; message: string }> {
+    const response = await client.put<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/audit`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to enable audit log')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async disableAuditLog(tableName: string): Promise<{ success: boolean; message: string }> {
+    const response = await client.delete<{ success: boolean; message: string }>(
+      `/api/tables/${tableName}/audit`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to disable audit log')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async getRecordHistory(
+    tableName: string,
+    id: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: AuditEntry[]; pagination: { total: number; hasMore: boolean } }> {
+    const response = await client.get<{
+      data: AuditEntry[]
+      pagination: { total: number; hasMore: boolean }
+    }>(`/api/data/${tableName}/${id}/history?limit=${limit}&offset=${offset}`)
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to fetch record history')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async revertRecord(
+    tableName: string,
+    id: string,
+    entryId: string
+  ): Promise<{ success: boolean; data: Record<string, unknown> | null }> {
+    const response = await client.post<{ success: boolean; data: Record<string, unknown> | null }>(
+      `/api/data/${tableName}/${id}/history/${entryId}/revert`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to revert record')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  // Trigger management
+  async getTriggers(tableName: string): Promise<TableTrigger[]> {
+    const response = await client.get<{ triggers: TableTrigger[] }>(
+      `/api/tables/${tableName}/triggers`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get triggers')
+    }
+    return response.data?.triggers || []
+  },
+
+  async createTrigger(
+    tableName: string,
+    trigger: Pick<TableTrigger, 'name' | 'event' | 'script' | 'enabled' | 'timeout_ms'>
+  ): Promise<TableTrigger> {
+    const response = await client.post<{ trigger: TableTrigger }>(
+      `/api/tables/${tableName}/triggers`,
+      trigger
+    )
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create trigger')
+    }
+    return response.data.trigger
+  },
+
+  async updateTrigger(
+    tableName: string,
+    id: string,
+    changes: Partial<Pick<TableTrigger, 'name' | 'event' | 'script' | 'enabled' | 'timeout_ms'>>
+  ): Promise<TableTrigger> {
+    const response = await client.put<{ trigger: TableTrigger }>(
+      `/api/tables/${tableName}/triggers/${id}`,
+      changes
+    )
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update trigger')
+    }
+    return response.data.trigger
+  },
+
+  async deleteTrigger(tableName: string, id: string): Promise<{ success: boolean }> {
+    const response = await client.delete<{ success: boolean }>(
+      `/api/tables/${tableName}/triggers/${id}`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete trigger')
+    }
+    return response.data as NonNullable<typeof response.data>
+  },
+
+  async getTriggerLogs(tableName: string, id: string, limit = 50): Promise<TriggerLogEntry[]> {
+    const response = await client.get<{ logs: TriggerLogEntry[] }>(
+      `/api/tables/${tableName}/triggers/${id}/logs?limit=${limit}`
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get trigger logs')
+    }
+    return response.data?.logs || []
+  },
+
+  async testTrigger(
+    tableName: string,
+    input: {
+      event: TriggerEvent
+      script: string
+      record?: Record<string, unknown> | null
+      old?: Record<string, unknown> | null
+      timeout_ms?: number
+    }
+  ): Promise<TriggerTestResult> {
+    const response = await client.post<{ result: TriggerTestResult }>(
+      `/api/tables/${tableName}/triggers/test`,
+      input
+    )
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to run trigger test')
+    }
+    return response.data.result
+  },
 }
@@ -1,7 +1,12 @@
 import { useState } from 'preact/hooks'
+import { AuditLogEditor } from '../components/database/AuditLogEditor'
 import { DataViewer } from '../components/database/DataViewer'
+import { FullTextSearchEditor } from '../components/database/FullTextSearchEditor'
+import { RowPolicyEditor } from '../components/database/RowPolicyEditor'
 import { SchemaEditor } from '../components/database/SchemaEditor'
 import { TableList } from '../components/database/TableList'
+import { TrashViewer } from '../components/database/TrashViewer'
+import { TriggerEditor } from '../components/database/TriggerEditor'
 import { SchemaHistory } from '../components/SchemaHistory'
 import { useDatabase } from '../hooks/useDatabase'
 
@@ -118,6 +123,21 @@ export function DatabasePage() {
                   onSchemaChange={handleSchemaChange}
                   loading={loading}
                 />
+
+                {/* Row Policies */}
+                <RowPolicyEditor tableName={selectedTable} />
+
+                {/* Triggers */}
+                <TriggerEditor tableName={selectedTable} />
+
+                {/* Full-Text Search */}
+                <FullTextSearchEditor tableName={selectedTable} tableColumns={tableColumns} />
+
+                {/* Audit Log */}
+                <AuditLogEditor tableName={selectedTable} />
+
+                {/* Soft Delete and Trash */}
+                <TrashViewer tableName={selectedTable} onDataChange={handleSchemaChange} />
               </>
             ) : (
               <div className="bg-white rounded-lg shadow-sm border p-6">
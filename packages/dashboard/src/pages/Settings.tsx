@@ -1,7 +1,9 @@
 import { AdminsManagement } from '../components/settings/AdminsManagement'
 import { APIKeysManagement } from '../components/settings/APIKeysManagement'
 import { AppSettings } from '../components/settings/AppSettings'
+import { BackgroundJobs } from '../components/settings/BackgroundJobs'
 import { SettingsNavigation } from '../components/settings/SettingsNavigation'
+import { WebhooksManagement } from '../components/settings/WebhooksManagement'
 import { useSettings } from '../hooks/useSettings'
 
 export function SettingsPage() {
@@ -15,6 +17,10 @@ export function SettingsPage() {
         return <AdminsManagement onError={setError} />
       case 'api-keys':
         return <APIKeysManagement onError={setError} />
+      case 'webhooks':
+        return <WebhooksManagement onError={setError} />
+      case 'jobs':
+        return <BackgroundJobs onError={setError} />
       default:
         return <AppSettings onError={setError} />
     }
@@ -26,7 +32,8 @@ export function SettingsPage() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
           <p className="mt-2 text-gray-600">
-            Manage your application settings, administrators, and API keys
+            Manage your application settings, administrators, API keys, webhooks, and background
+            jobs
           </p>
         </div>
 
@@ -1,4 +1,7 @@
 import { useEffect, useState } from 'preact/hooks'
+import { BucketPolicies } from '../components/storage/BucketPolicies'
+import { CacheRules } from '../components/storage/CacheRules'
+import { ImagePresets } from '../components/storage/ImagePresets'
 import { formatDateTime } from '../utils/database'
 
 interface StorageObject {
@@ -215,6 +218,9 @@ export function StoragePage() {
               <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Type
               </th>
+              <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Owner
+              </th>
               <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Uploaded
               </th>
@@ -226,7 +232,7 @@ export function StoragePage() {
           <tbody class="bg-white divide-y divide-gray-200">
             {objects.length === 0 ? (
               <tr>
-                <td colSpan={6} class="px-6 py-4 text-center text-gray-500">
+                <td colSpan={7} class="px-6 py-4 text-center text-gray-500">
                   No files uploaded yet
                 </td>
               </tr>
@@ -249,6 +255,11 @@ export function StoragePage() {
                   <td class="px-6 py-4 whitespace-nowrap">
                     <div class="text-sm text-gray-900">{obj.contentType || 'Unknown'}</div>
                   </td>
+                  <td class="px-6 py-4 whitespace-nowrap">
+                    <div class="text-sm text-gray-500 font-mono">
+                      {obj.metadata?.ownerId || '-'}
+                    </div>
+                  </td>
                   <td class="px-6 py-4 whitespace-nowrap">
                     <div class="text-sm text-gray-900">{formatDateTime(obj.lastModified)}</div>
                   </td>
@@ -275,6 +286,10 @@ export function StoragePage() {
           </tbody>
         </table>
       </div>
+
+      <BucketPolicies onError={setError} />
+      <CacheRules onError={setError} />
+      <ImagePresets onError={setError} />
     </div>
   )
 }
@@ -45,6 +45,99 @@ export interface IndexInfo {
   sql: string
 }
 
+// Row-level security policy types
+export type RowPolicyOperation = 'read' | 'insert' | 'update' | 'delete'
+
+export interface RowPolicy {
+  id: string
+  table_name: string
+  operation: RowPolicyOperation
+  condition: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+// Full-text search configuration
+export interface FullTextConfig {
+  table_name: string
+  enabled: boolean
+  columns: string[]
+  updated_at: string | null
+}
+
+// Soft delete setting of a table
+export interface SoftDeleteConfig {
+  table_name: string
+  enabled: boolean
+  trashed: number
+  created_at: string | null
+}
+
+// Audit log setting of a table
+export interface AuditConfig {
+  table_name: string
+  enabled: boolean
+  created_at: string | null
+}
+
+export type AuditOperation = 'insert' | 'update' | 'delete' | 'restore' | 'purge'
+
+// One recorded change of a record (row images are null where the row did not exist)
+export interface AuditEntry {
+  id: string
+  table_name: string
+  record_id: string
+  operation: AuditOperation
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  actor_type: 'admin' | 'api_key' | 'user' | 'system'
+  actor_id: string | null
+  created_at: string
+}
+
+export type TriggerEvent = 'before_insert' | 'before_update' | 'before_delete' | 'after_write'
+
+// A script run around writes to a table
+export interface TableTrigger {
+  id: string
+  table_name: string
+  name: string
+  event: TriggerEvent
+  script: string
+  enabled: boolean
+  timeout_ms: number
+  created_at: string
+  updated_at: string
+}
+
+export interface TriggerLogLine {
+  level: 'log' | 'info' | 'warn' | 'error'
+  message: string
+}
+
+// A trigger run that failed, was rejected or printed something
+export interface TriggerLogEntry {
+  id: string
+  trigger_id: string
+  event: TriggerEvent
+  record_id: string | null
+  status: 'ok' | 'rejected' | 'error' | 'timeout'
+  message: string | null
+  logs: TriggerLogLine[]
+  duration_ms: number
+  created_at: string
+}
+
+// Outcome of a test run; completed runs include the record a before-trigger would write
+export interface TriggerTestResult {
+  status: 'ok' | 'rejected' | 'error' | 'timeout'
+  message?: string
+  value?: unknown
+  record?: Record<string, unknown> | null
+  logs: TriggerLogLine[]
+  durationMs: number
+}
+
 // Schema management types
 export interface SchemaSnapshot {
   id: string
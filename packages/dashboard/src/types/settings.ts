@@ -40,4 +40,75 @@ export interface AppSetting {
   updated_at: string
 }
 
-export type SettingsSection = 'app-settings' | 'admins' | 'api-keys'
+export type WebhookEventType = 'insert' | 'update' | 'delete'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+export interface Webhook {
+  id: string
+  table_name: string
+  event_type: WebhookEventType
+  enabled: boolean
+  target_url: string | null
+  filters: string | null // JSON list of row filters
+  created_at: string
+  updated_at: string
+  secret?: string // Only returned when the secret is set
+}
+
+export interface CreateWebhookRequest {
+  table_name: string
+  event_type: WebhookEventType
+  target_url: string
+  filters?: string[]
+}
+
+export interface WebhookEvent {
+  id: string
+  hook_id: string
+  table_name: string
+  record_id: string
+  event_type: WebhookEventType
+  delivery_status: WebhookDeliveryStatus | null
+  attempts: number
+  next_attempt_at: string | null
+  last_status_code: number | null
+  last_error: string | null
+  created_at: string
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string
+  attempt: number
+  status_code: number | null
+  error: string | null
+  response_body: string | null
+  duration_ms: number
+  created_at: string
+}
+
+export type JobRunStatus = 'success' | 'failed'
+
+export interface JobRun {
+  id: string
+  job_name: string
+  triggered_by: 'schedule' | 'manual'
+  status: JobRunStatus
+  message: string | null
+  started_at: string
+  finished_at: string
+  duration_ms: number
+}
+
+export interface BackgroundJob {
+  name: string
+  description: string
+  enabled: boolean
+  interval_minutes: number
+  default_interval_minutes: number
+  next_run_at: string | null
+  last_run: JobRun | null
+  last_failure: JobRun | null
+}
+
+export type SettingsSection = 'app-settings' | 'admins' | 'api-keys' | 'webhooks' | 'jobs'
@@ -0,0 +1,71 @@
+/**
+ * useAggregate hook tests
+ */
+
+import { renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useAggregate } from '../hooks/use-aggregate'
+
+const aggregate = vi.fn()
+const subscribe = vi.fn(() => ({ unsubscribe: vi.fn() }))
+const client = { data: { aggregate }, realtime: { subscribe } }
+
+vi.mock('../providers/vibebase-provider', () => ({
+  useVibebase: () => ({ client, isReady: true }),
+}))
+
+describe('useAggregate', () => {
+  beforeEach(() => {
+    aggregate.mockReset()
+    subscribe.mockClear()
+  })
+
+  it('should fetch aggregates with the given options', async () => {
+    aggregate.mockResolvedValue({
+      success: true,
+      data: [{ category: 'a', count: 2 }],
+    })
+
+    const { result } = renderHook(() =>
+      useAggregate('orders', { count: true, groupBy: ['category'], where: { status: 'paid' } })
+    )
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    expect(aggregate).toHaveBeenCalledWith('orders', {
+      count: true,
+      groupBy: ['category'],
+      where: { status: 'paid' },
+    })
+    expect(result.current.data).toEqual([{ category: 'a', count: 2 }])
+    expect(subscribe).not.toHaveBeenCalled()
+  })
+
+  it('should not refetch when rerendered with equal options', async () => {
+    aggregate.mockResolvedValue({ success: true, data: [{ count: 1 }] })
+
+    const { result, rerender } = renderHook(() => useAggregate('orders', { sum: ['price'] }))
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+    rerender()
+
+    expect(aggregate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should subscribe to table changes when realtime is enabled', async () => {
+    aggregate.mockResolvedValue({ success: true, data: [] })
+
+    const { result } = renderHook(() => useAggregate('orders', { realtimeEnabled: true }))
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    expect(subscribe).toHaveBeenCalledWith('orders', '*', expect.any(Function))
+    expect(aggregate).toHaveBeenCalledWith('orders', {})
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * useInfiniteData hook tests
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useInfiniteData } from '../hooks/use-infinite-data'
+
+const listWithCursor = vi.fn()
+const client = { data: { listWithCursor } }
+
+vi.mock('../providers/vibebase-provider', () => ({
+  useVibebase: () => ({ client, isReady: true }),
+}))
+
+describe('useInfiniteData', () => {
+  beforeEach(() => {
+    listWithCursor.mockReset()
+  })
+
+  it('should load pages by following next cursors', async () => {
+    listWithCursor
+      .mockResolvedValueOnce({
+        success: true,
+        data: { data: [{ id: '1' }], nextCursor: 'c1', hasMore: true, total: 2 },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: { data: [{ id: '2' }], nextCursor: null, hasMore: false },
+      })
+
+    const { result } = renderHook(() =>
+      useInfiniteData('todos', { limit: 1, includeTotal: true, where: { completed: false } })
+    )
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    expect(listWithCursor).toHaveBeenCalledWith('todos', {
+      limit: 1,
+      orderBy: undefined,
+      orderDirection: undefined,
+      where: { completed: false },
+      includeTotal: true,
+      cursor: undefined,
+    })
+    expect(result.current.records).toEqual([{ id: '1' }])
+    expect(result.current.total).toBe(2)
+    expect(result.current.hasNextPage).toBe(true)
+
+    await act(async () => {
+      await result.current.fetchNextPage()
+    })
+
+    expect(listWithCursor).toHaveBeenLastCalledWith(
+      'todos',
+      expect.objectContaining({ cursor: 'c1' })
+    )
+    expect(result.current.records).toEqual([{ id: '1' }, { id: '2' }])
+    expect(result.current.hasNextPage).toBe(false)
+  })
+
+  it('should surface request errors', async () => {
+    listWithCursor.mockResolvedValueOnce({ success: false, error: 'Invalid cursor' })
+
+    const { result } = renderHook(() => useInfiniteData('todos'))
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    expect(result.current.error?.message).toBe('Invalid cursor')
+  })
+
+  it('should drop the response of a filter that was changed while it loaded', async () => {
+    let resolveOld: (value: unknown) => void = () => {}
+    listWithCursor
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveOld = resolve
+        })
+      )
+      .mockResolvedValueOnce({
+        success: true,
+        data: { data: [{ id: 'new' }], nextCursor: null, hasMore: false },
+      })
+
+    const { result, rerender } = renderHook(
+      ({ completed }) => useInfiniteData('todos', { where: { completed } }),
+      { initialProps: { completed: false } }
+    )
+    rerender({ completed: true })
+
+    await waitFor(() => {
+      expect(result.current.records).toEqual([{ id: 'new' }])
+    })
+
+    await act(async () => {
+      resolveOld({ success: true, data: { data: [{ id: 'old' }], nextCursor: null } })
+    })
+
+    expect(listWithCursor).toHaveBeenLastCalledWith(
+      'todos',
+      expect.objectContaining({ where: { completed: true } })
+    )
+    expect(result.current.records).toEqual([{ id: 'new' }])
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should not refetch while disabled', async () => {
+    const { rerender } = renderHook(
+      ({ completed }) => useInfiniteData('todos', { enabled: false, where: { completed } }),
+      { initialProps: { completed: false } }
+    )
+    rerender({ completed: true })
+
+    await act(async () => {})
+    expect(listWithCursor).not.toHaveBeenCalled()
+  })
+})
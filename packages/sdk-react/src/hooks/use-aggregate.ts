@@ -0,0 +1,57 @@
+/**
+ * Aggregate hook (count, sum, avg, min, max with group by)
+ */
+
+import type { AggregateOptions, TableRow } from '@vibebase/sdk'
+import { useCallback, useEffect } from 'react'
+import { useVibebase } from '../providers/vibebase-provider'
+import type { UseAggregateOptions, UseAggregateResult } from '../types'
+import { useQuery } from './use-query'
+
+export function useAggregate<T extends TableRow = TableRow>(
+  tableName: string,
+  options: UseAggregateOptions<T> = {}
+): UseAggregateResult {
+  const { client } = useVibebase()
+  const { enabled, refetchInterval, realtimeEnabled = false, ...aggregateOptions } = options
+
+  // Serialize the options so a new object with the same content does not refetch
+  const optionsKey = JSON.stringify(aggregateOptions)
+
+  const queryFn = useCallback(async () => {
+    const response = await client.data.aggregate<T>(
+      tableName,
+      JSON.parse(optionsKey) as AggregateOptions<T>
+    )
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to aggregate data')
+    }
+    return response.data || []
+  }, [client, tableName, optionsKey])
+
+  const { data, error, isLoading, refetch } = useQuery(queryFn, {
+    enabled,
+    refetchInterval,
+    refetchOnWindowFocus: false,
+  })
+
+  // Recompute when any change occurs in the table
+  useEffect(() => {
+    if (!realtimeEnabled) return
+
+    const subscription = client.realtime.subscribe(tableName, '*', () => {
+      refetch()
+    })
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [realtimeEnabled, tableName, client, refetch])
+
+  return {
+    data: data || [],
+    error,
+    isLoading,
+    refetch,
+  }
+}
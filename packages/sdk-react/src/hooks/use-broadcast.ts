@@ -0,0 +1,39 @@
+/**
+ * Broadcast hook: ephemeral messages between the members of a realtime channel
+ */
+
+import { useCallback, useEffect } from 'react'
+import { useVibebase } from '../providers/vibebase-provider'
+import type { UseBroadcastOptions, UseBroadcastResult } from '../types'
+
+export function useBroadcast<T = unknown>(
+  channelName: string,
+  event: string,
+  options: UseBroadcastOptions<T> = {}
+): UseBroadcastResult<T> {
+  const { enabled = true, onMessage } = options
+  const { client } = useVibebase()
+
+  // Join the channel for as long as the component is mounted
+  useEffect(() => {
+    if (!enabled) return
+
+    return client.realtime.channel(channelName).join()
+  }, [enabled, client, channelName])
+
+  useEffect(() => {
+    if (!enabled || !onMessage) return
+
+    return client.realtime.channel(channelName).onBroadcast<T>(event, onMessage)
+  }, [enabled, client, channelName, event, onMessage])
+
+  const send = useCallback(
+    (payload: T) => {
+      if (!enabled) return
+      client.realtime.channel(channelName).broadcast(event, payload)
+    },
+    [enabled, client, channelName, event]
+  )
+
+  return { send }
+}
@@ -11,7 +11,7 @@ import { useQuery } from './use-query'
 
 export function useData<T extends TableRow = TableRow>(
   tableName: string,
-  options: UseDataOptions = {}
+  options: UseDataOptions<T> = {}
 ): UseDataResult<T> {
   const { client } = useVibebase()
   const { realtimeEnabled = false, ...queryOptions } = options
@@ -1,5 +1,7 @@
 /**
  * File upload hook with progress tracking
+ * Large files go up in parts, so progress follows the stored parts, and uploading a file again
+ * after a failure continues where it stopped
  */
 
 import type { FileInfo, FileUploadOptions } from '@vibebase/sdk'
@@ -30,25 +32,14 @@ export function useFileUpload(): UseFileUploadResult {
           percentage: 0,
         })
 
-        // Note: The current SDK doesn't support progress tracking
-        // This is a placeholder for future implementation
-        // For now, we'll simulate progress
-        const progressInterval = setInterval(() => {
-          setProgress((prev) => {
-            if (!prev) return null
-            const newPercentage = Math.min(prev.percentage + 10, 90)
-            return {
-              loaded: (file.size * newPercentage) / 100,
-              total: file.size,
-              percentage: newPercentage,
-            }
-          })
-        }, 100)
-
         const finalFileName = fileName || file.name
-        const response = await client.storage.upload(finalFileName, file, options)
-
-        clearInterval(progressInterval)
+        const response = await client.storage.upload(finalFileName, file, {
+          ...options,
+          onProgress: (uploadProgress) => {
+            setProgress(uploadProgress)
+            options?.onProgress?.(uploadProgress)
+          },
+        })
 
         if (!response.success) {
           throw new Error(response.error || 'Failed to upload file')
@@ -90,7 +81,18 @@ export function useFileUpload(): UseFileUploadResult {
         const results: FileInfo[] = []
 
         for (const file of files) {
-          const response = await client.storage.upload(file.name, file, options)
+          const response = await client.storage.upload(file.name, file, {
+            ...options,
+            onProgress: (fileProgress) => {
+              const loaded = uploadedSize + fileProgress.loaded
+              setProgress({
+                loaded,
+                total: totalSize,
+                percentage: Math.round((loaded / totalSize) * 100),
+              })
+              options?.onProgress?.(fileProgress)
+            },
+          })
 
           if (!response.success) {
             throw new Error(response.error || `Failed to upload ${file.name}`)
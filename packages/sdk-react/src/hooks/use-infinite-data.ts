@@ -0,0 +1,79 @@
+/**
+ * Infinite list hook using cursor (keyset) pagination
+ */
+
+import type { CursorPage, TableRow } from '@vibebase/sdk'
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+import { useVibebase } from '../providers/vibebase-provider'
+import type { UseInfiniteDataOptions, UseInfiniteDataResult } from '../types'
+import { useInfiniteQuery } from './use-infinite-query'
+
+export function useInfiniteData<T extends TableRow = TableRow>(
+  tableName: string,
+  options: UseInfiniteDataOptions<T> = {}
+): UseInfiniteDataResult<T> {
+  const { client } = useVibebase()
+  const { enabled, limit, orderBy, orderDirection, where, includeTotal, select, expand } = options
+
+  // Serialize the filter and field lists so new objects with the same content do not refetch
+  const whereKey = where ? JSON.stringify(where) : undefined
+  const selectKey = select?.join(',')
+  const expandKey = expand?.join(',')
+
+  const queryFn = useCallback(
+    async (pageParam: unknown) => {
+      const response = await client.data.listWithCursor<T>(tableName, {
+        limit,
+        orderBy,
+        orderDirection,
+        where: whereKey ? JSON.parse(whereKey) : undefined,
+        includeTotal,
+        select: selectKey ? (selectKey.split(',') as Extract<keyof T, string>[]) : undefined,
+        expand: expandKey?.split(','),
+        cursor: typeof pageParam === 'string' ? pageParam : undefined,
+      })
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch data')
+      }
+      return response.data
+    },
+    [
+      client,
+      tableName,
+      limit,
+      orderBy,
+      orderDirection,
+      whereKey,
+      includeTotal,
+      selectKey,
+      expandKey,
+    ]
+  )
+
+  const query = useInfiniteQuery<CursorPage<T>>(queryFn, {
+    enabled,
+    refetchOnWindowFocus: false,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  })
+
+  // Start over from the first page when the table, sort or filter changes; while disabled, the
+  // change is left pending until the hook is enabled again. Before the first page has loaded,
+  // useInfiniteQuery fetches it with the new query itself
+  const { refetch } = query
+  const hasPages = query.data.length > 0
+  const lastQueryFnRef = useRef(queryFn)
+  useEffect(() => {
+    if (enabled !== false && lastQueryFnRef.current !== queryFn) {
+      lastQueryFnRef.current = queryFn
+      if (hasPages) refetch()
+    }
+  }, [enabled, queryFn, refetch, hasPages])
+
+  const records = useMemo(() => query.data.flatMap((page) => page.data), [query.data])
+
+  return {
+    ...query,
+    records,
+    total: query.data[0]?.total,
+  }
+}
@@ -39,6 +39,13 @@ export function useInfiniteQuery<T = unknown>(
   const [isFetchingPreviousPage, setIsFetchingPreviousPage] = useState(false)
 
   const mountedRef = useRef(true)
+  // Bumped by every first-page fetch; responses of earlier generations are dropped, so a slow
+  // response for an old query cannot overwrite the pages of the current one
+  const generationRef = useRef(0)
+  const isCurrent = useCallback(
+    (generation: number) => mountedRef.current && generationRef.current === generation,
+    []
+  )
 
   // Determine if there are more pages
   const hasNextPage =
@@ -48,6 +55,7 @@ export function useInfiniteQuery<T = unknown>(
 
   const fetchInitialPage = useCallback(async () => {
     if (!mountedRef.current) return
+    const generation = ++generationRef.current
 
     try {
       setIsLoading(true)
@@ -55,28 +63,29 @@ export function useInfiniteQuery<T = unknown>(
 
       const result = await queryFn(undefined)
 
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setPages([result])
         queryOptions.onSuccess?.(result)
       }
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Query failed')
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setError(error)
         queryOptions.onError?.(error)
       }
     } finally {
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setIsLoading(false)
       }
     }
-  }, [queryFn, queryOptions])
+  }, [queryFn, queryOptions, isCurrent])
 
   const fetchNextPage = useCallback(async () => {
     if (!mountedRef.current || !getNextPageParam || pages.length === 0) return
 
     const nextPageParam = getNextPageParam(pages[pages.length - 1], pages)
     if (!nextPageParam) return
+    const generation = generationRef.current
 
     try {
       setIsFetchingNextPage(true)
@@ -84,13 +93,13 @@ export function useInfiniteQuery<T = unknown>(
 
       const result = await queryFn(nextPageParam)
 
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setPages((prev) => [...prev, result])
         queryOptions.onSuccess?.(result)
       }
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Failed to fetch next page')
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setError(error)
         queryOptions.onError?.(error)
       }
@@ -99,13 +108,14 @@ export function useInfiniteQuery<T = unknown>(
         setIsFetchingNextPage(false)
       }
     }
-  }, [queryFn, getNextPageParam, pages, queryOptions])
+  }, [queryFn, getNextPageParam, pages, queryOptions, isCurrent])
 
   const fetchPreviousPage = useCallback(async () => {
     if (!mountedRef.current || !getPreviousPageParam || pages.length === 0) return
 
     const previousPageParam = getPreviousPageParam(pages[0], pages)
     if (!previousPageParam) return
+    const generation = generationRef.current
 
     try {
       setIsFetchingPreviousPage(true)
@@ -113,13 +123,13 @@ export function useInfiniteQuery<T = unknown>(
 
       const result = await queryFn(previousPageParam)
 
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setPages((prev) => [result, ...prev])
         queryOptions.onSuccess?.(result)
       }
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Failed to fetch previous page')
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setError(error)
         queryOptions.onError?.(error)
       }
@@ -128,10 +138,11 @@ export function useInfiniteQuery<T = unknown>(
         setIsFetchingPreviousPage(false)
       }
     }
-  }, [queryFn, getPreviousPageParam, pages, queryOptions])
+  }, [queryFn, getPreviousPageParam, pages, queryOptions, isCurrent])
 
   const refetch = useCallback(async () => {
     if (!mountedRef.current) return
+    const generation = ++generationRef.current
 
     try {
       setIsRefetching(true)
@@ -139,22 +150,24 @@ export function useInfiniteQuery<T = unknown>(
 
       const result = await queryFn(undefined)
 
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setPages([result])
         queryOptions.onSuccess?.(result)
       }
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Refetch failed')
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setError(error)
         queryOptions.onError?.(error)
       }
     } finally {
-      if (mountedRef.current) {
+      if (isCurrent(generation)) {
         setIsRefetching(false)
+        // The refetch may have superseded the first fetch, which then never ends the loading
+        setIsLoading(false)
       }
     }
-  }, [queryFn, queryOptions])
+  }, [queryFn, queryOptions, isCurrent])
 
   // Initial fetch
   useEffect(() => {
@@ -0,0 +1,59 @@
+/**
+ * Presence hook: who else is in a realtime channel
+ */
+
+import type { PresenceMember } from '@vibebase/sdk'
+import { useEffect, useRef, useState } from 'react'
+import { useVibebase } from '../providers/vibebase-provider'
+import type { UsePresenceOptions, UsePresenceResult } from '../types'
+
+export function usePresence(
+  channelName: string,
+  options: UsePresenceOptions = {}
+): UsePresenceResult {
+  const { enabled = true, presence } = options
+  const { client } = useVibebase()
+  const [members, setMembers] = useState<PresenceMember[]>([])
+  // Whether this hook tracks the presence, so that watching alone never untracks another's
+  const trackingRef = useRef(false)
+
+  // Serialize the presence so a new object with the same content is not tracked again
+  const presenceKey = JSON.stringify(presence ?? null)
+
+  // Join the channel for as long as the component is mounted
+  useEffect(() => {
+    if (!enabled) return
+
+    const channel = client.realtime.channel(channelName)
+    const stopListening = channel.onPresence(setMembers)
+    const leave = channel.join()
+    setMembers(channel.getMembers())
+
+    return () => {
+      stopListening()
+      if (trackingRef.current) {
+        channel.untrack()
+        trackingRef.current = false
+      }
+      leave()
+      setMembers([])
+    }
+  }, [enabled, client, channelName])
+
+  // Update this client's presence without leaving the channel
+  useEffect(() => {
+    if (!enabled) return
+
+    const channel = client.realtime.channel(channelName)
+    const state = JSON.parse(presenceKey)
+    if (state) {
+      channel.track(state)
+      trackingRef.current = true
+    } else if (trackingRef.current) {
+      channel.untrack()
+      trackingRef.current = false
+    }
+  }, [enabled, client, channelName, presenceKey])
+
+  return { members }
+}
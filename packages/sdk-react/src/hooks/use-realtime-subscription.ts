@@ -8,6 +8,7 @@ import { useRealtime } from './use-realtime'
 
 interface UseRealtimeSubscriptionOptions {
   enabled?: boolean
+  filters?: string[] // Row filters evaluated by the server, e.g. 'status=eq.open'
   onEvent: (event: RealtimeEvent) => void
 }
 
@@ -16,16 +17,22 @@ export function useRealtimeSubscription(
   eventType: 'insert' | 'update' | 'delete' | '*',
   options: UseRealtimeSubscriptionOptions
 ) {
-  const { enabled = true, onEvent } = options
+  const { enabled = true, filters, onEvent } = options
   const { subscribe, isConnected } = useRealtime()
 
+  // Resubscribe when the filters change, not on every render passing a new array
+  const filterKey = JSON.stringify(filters ?? [])
+
+  // Subscribing opens the connection of the table, so it cannot wait for one
   useEffect(() => {
-    if (!enabled || !isConnected) return
+    if (!enabled) return
 
-    const unsubscribe = subscribe(tableName, eventType, onEvent)
+    const unsubscribe = subscribe(tableName, eventType, onEvent, {
+      filters: JSON.parse(filterKey),
+    })
 
     return unsubscribe
-  }, [enabled, isConnected, tableName, eventType, subscribe, onEvent])
+  }, [enabled, tableName, eventType, subscribe, onEvent, filterKey])
 
   return {
     isConnected,
@@ -2,7 +2,7 @@
  * Realtime connection hook
  */
 
-import type { RealtimeEvent } from '@vibebase/sdk'
+import type { RealtimeEvent, RealtimeSubscribeOptions } from '@vibebase/sdk'
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useVibebase } from '../providers/vibebase-provider'
 import type { UseRealtimeOptions, UseRealtimeResult } from '../types'
@@ -56,14 +56,20 @@ export function useRealtime(options: UseRealtimeOptions = {}): UseRealtimeResult
     (
       tableName: string,
       eventType: 'insert' | 'update' | 'delete' | '*',
-      callback: (event: RealtimeEvent) => void
+      callback: (event: RealtimeEvent) => void,
+      subscribeOptions?: RealtimeSubscribeOptions
     ): (() => void) => {
       if (!enabled) {
         return () => {}
       }
 
       try {
-        const subscription = client.realtime.subscribe(tableName, eventType, callback)
+        const subscription = client.realtime.subscribe(
+          tableName,
+          eventType,
+          callback,
+          subscribeOptions
+        )
         const unsubscribeKey = `${tableName}:${eventType}:${Date.now()}`
 
         const unsubscribe = () => {
@@ -6,10 +6,19 @@
 
 // Re-export core types from SDK
 export type {
+  AggregateOptions,
+  AggregateRow,
+  BroadcastMessage,
+  CursorPage,
+  CursorQueryOptions,
   CustomQuery,
   CustomQueryResult,
+  FieldFilter,
   FileInfo,
   FileUploadOptions,
+  GetOptions,
+  PresenceMember,
+  PresenceState,
   QueryOptions,
   RealtimeEvent,
   RealtimeSubscription,
@@ -18,18 +27,24 @@ export type {
   User,
   UserSession,
   VibebaseConfig,
+  WhereFilter,
 } from '@vibebase/sdk'
+// Aggregate hooks
+export { useAggregate } from './hooks/use-aggregate'
 // Auth hooks
 export { useAuth } from './hooks/use-auth'
+// Realtime hooks
+export { useBroadcast } from './hooks/use-broadcast'
 // Custom query hooks
 export { useCustomQuery } from './hooks/use-custom-query'
 // Data hooks
 export { useData } from './hooks/use-data'
 export { useFileUpload } from './hooks/use-file-upload'
+export { useInfiniteData } from './hooks/use-infinite-data'
 export { useInfiniteQuery } from './hooks/use-infinite-query'
 export { useMutation } from './hooks/use-mutation'
+export { usePresence } from './hooks/use-presence'
 export { useQuery } from './hooks/use-query'
-// Realtime hooks
 export { useRealtime } from './hooks/use-realtime'
 export { useRealtimeSubscription } from './hooks/use-realtime-subscription'
 // Storage hooks
@@ -39,8 +54,16 @@ export { useUser } from './hooks/use-user'
 export { useVibebase, VibebaseProvider } from './providers/vibebase-provider'
 // Types
 export type {
+  UseAggregateOptions,
+  UseAggregateResult,
+  UseBroadcastOptions,
+  UseBroadcastResult,
+  UseInfiniteDataOptions,
+  UseInfiniteDataResult,
   UseInfiniteQueryOptions,
   UseMutationOptions,
+  UsePresenceOptions,
+  UsePresenceResult,
   UseQueryOptions,
   VibebaseContextValue,
   VibebaseProviderProps,
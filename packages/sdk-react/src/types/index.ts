@@ -3,10 +3,18 @@
  */
 
 import type {
+  AggregateOptions,
+  AggregateRow,
+  BroadcastMessage,
+  CursorPage,
+  CursorQueryOptions,
   FileInfo,
   FileUploadOptions,
+  PresenceMember,
+  PresenceState,
   QueryOptions,
   RealtimeEvent,
+  RealtimeSubscribeOptions,
   TableRow,
   VibebaseClient,
   VibebaseConfig,
@@ -80,7 +88,7 @@ export interface UseInfiniteQueryResult<T = unknown> extends Omit<UseQueryResult
 }
 
 // Data hook types
-export interface UseDataOptions extends QueryOptions {
+export interface UseDataOptions<T extends TableRow = TableRow> extends QueryOptions<T> {
   realtimeEnabled?: boolean
 }
 
@@ -98,6 +106,31 @@ export interface UseDataResult<T extends TableRow = TableRow> {
   isDeleting: boolean
 }
 
+export interface UseInfiniteDataOptions<T extends TableRow = TableRow>
+  extends Omit<CursorQueryOptions<T>, 'cursor'> {
+  enabled?: boolean
+}
+
+export interface UseInfiniteDataResult<T extends TableRow = TableRow>
+  extends UseInfiniteQueryResult<CursorPage<T>> {
+  records: T[] // All loaded pages, flattened
+  total?: number // Present when includeTotal is set
+}
+
+// Aggregate hook types
+export interface UseAggregateOptions<T extends TableRow = TableRow> extends AggregateOptions<T> {
+  enabled?: boolean
+  refetchInterval?: number
+  realtimeEnabled?: boolean // Recompute when the table changes
+}
+
+export interface UseAggregateResult {
+  data: AggregateRow[]
+  error: Error | null
+  isLoading: boolean
+  refetch: () => Promise<void>
+}
+
 // File upload types
 export interface UploadProgress {
   loaded: number
@@ -127,11 +160,31 @@ export interface UseRealtimeResult {
   subscribe: (
     tableName: string,
     eventType: 'insert' | 'update' | 'delete' | '*',
-    callback: (event: RealtimeEvent) => void
+    callback: (event: RealtimeEvent) => void,
+    options?: RealtimeSubscribeOptions
   ) => () => void
   unsubscribeAll: () => void
 }
 
+// Presence and broadcast channel types
+export interface UsePresenceOptions {
+  enabled?: boolean
+  presence?: PresenceState // Shown to the other members; omit to only watch
+}
+
+export interface UsePresenceResult {
+  members: PresenceMember[]
+}
+
+export interface UseBroadcastOptions<T = unknown> {
+  enabled?: boolean
+  onMessage?: (message: BroadcastMessage<T>) => void
+}
+
+export interface UseBroadcastResult<T = unknown> {
+  send: (payload: T) => void
+}
+
 // Custom query types
 export interface UseCustomQueryVariables {
   [key: string]: string | number | boolean | Date
@@ -4,6 +4,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { DataClient } from '../lib/data-client'
 import type { HttpClient } from '../lib/http-client'
+import type { TableRow, WhereFilter } from '../types'
 
 describe('DataClient', () => {
   let dataClient: DataClient
@@ -74,6 +75,151 @@ describe('DataClient', () => {
         total: 0,
       })
     })
+
+    it('should serialize filter operators and nested groups', async () => {
+      interface Todo extends TableRow {
+        title: string
+        priority: number
+        completed: boolean
+      }
+
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        data: { data: [], total: 0 },
+      })
+
+      const where: WhereFilter<Todo> = {
+        completed: false,
+        or: [{ priority: { gte: 3 } }, { title: { ilike: '%urgent%' } }],
+      }
+
+      await dataClient.list<Todo>('todos', { where })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/data/todos', {
+        where: JSON.stringify(where),
+      })
+    })
+  })
+
+  describe('select and expand', () => {
+    it('should send select and expand as comma separated lists', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        data: { data: [], pagination: { total: 0 } },
+      })
+
+      await dataClient.list('posts', { select: ['id', 'title'], expand: ['author_id', 'comments'] })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/data/posts', {
+        select: 'id,title',
+        expand: 'author_id,comments',
+      })
+    })
+
+    it('should pass select and expand when getting a record', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        data: { data: { id: '1', _expand: { author_id: { id: 'u1' } } } },
+      })
+
+      const result = await dataClient.get('posts', '1', { expand: ['author_id'] })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/data/posts/1', {
+        expand: 'author_id',
+      })
+      expect(result.data).toEqual({ id: '1', _expand: { author_id: { id: 'u1' } } })
+    })
+  })
+
+  describe('listWithCursor', () => {
+    it('should request a cursor page and flatten pagination info', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        status: 200,
+        data: {
+          data: [{ id: '1', title: 'Test' }],
+          pagination: { mode: 'cursor', limit: 1, next_cursor: 'abc', has_more: true },
+        },
+      })
+
+      const result = await dataClient.listWithCursor('todos', {
+        limit: 1,
+        cursor: 'prev',
+        orderBy: 'created_at',
+        orderDirection: 'asc',
+      })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/data/todos', {
+        pagination: 'cursor',
+        limit: '1',
+        cursor: 'prev',
+        sortBy: 'created_at',
+        sortOrder: 'asc',
+      })
+      expect(result.data).toEqual({
+        data: [{ id: '1', title: 'Test' }],
+        nextCursor: 'abc',
+        hasMore: true,
+      })
+    })
+
+    it('should include the total when requested', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        status: 200,
+        data: { data: [], pagination: { next_cursor: null, has_more: false, total: 0 } },
+      })
+
+      const result = await dataClient.listWithCursor('todos', { includeTotal: true })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/data/todos', {
+        pagination: 'cursor',
+        include_total: 'true',
+      })
+      expect(result.data).toEqual({ data: [], nextCursor: null, hasMore: false, total: 0 })
+    })
+  })
+
+  describe('aggregate', () => {
+    it('should send aggregate functions, grouping and filters', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        status: 200,
+        data: { data: [{ category: 'a', count: 2, sum_price: 30 }], group_by: ['category'] },
+      })
+
+      const result = await dataClient.aggregate('orders', {
+        count: true,
+        sum: ['price'],
+        groupBy: ['category'],
+        where: { status: 'paid' },
+        orderBy: 'sum_price',
+        orderDirection: 'desc',
+      })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/data/orders/aggregate', {
+        count: '',
+        sum: 'price',
+        group_by: 'category',
+        where: JSON.stringify({ status: 'paid' }),
+        sortBy: 'sum_price',
+        sortOrder: 'desc',
+      })
+      expect(result.data).toEqual([{ category: 'a', count: 2, sum_price: 30 }])
+    })
+
+    it('should return no data on failure', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: false,
+        status: 400,
+        error: "Invalid sum column 'x'",
+      })
+
+      const result = await dataClient.aggregate('orders', { sum: ['x'] })
+
+      expect(result.success).toBe(false)
+      expect(result.data).toBeUndefined()
+    })
   })
 
   describe('get', () => {
@@ -169,6 +315,56 @@ describe('DataClient', () => {
       })
       expect(result).toEqual(mockResponse)
     })
+
+    it('should restrict columns and flatten the pagination total', async () => {
+      const match = {
+        id: '1',
+        title: 'Important Todo',
+        _search: { score: 1.2, snippets: { title: '<mark>Important</mark> Todo' } },
+      }
+      vi.mocked(mockHttpClient.get).mockResolvedValueOnce({
+        success: true,
+        status: 200,
+        data: { data: [match], pagination: { total: 7, limit: 5, offset: 5, hasMore: false } },
+      })
+
+      const result = await dataClient.search<{ id: string; title: string }>('todos', 'import*', {
+        columns: ['title'],
+        limit: 5,
+        offset: 5,
+      })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/tables/todos/search', {
+        q: 'import*',
+        columns: 'title',
+        limit: '5',
+        offset: '5',
+      })
+      expect(result.data).toEqual({ data: [match], total: 7 })
+    })
+  })
+
+  describe('batch', () => {
+    it('should send operations and unwrap the results', async () => {
+      const results = [
+        { op: 'create', table: 'orders', id: 'o1', ref: 'order', data: { id: 'o1' } },
+        { op: 'create', table: 'items', id: 'i1', data: { id: 'i1', order_id: 'o1' } },
+      ]
+      vi.mocked(mockHttpClient.post).mockResolvedValueOnce({
+        success: true,
+        status: 200,
+        data: { success: true, results },
+      })
+
+      const operations = [
+        { op: 'create' as const, table: 'orders', data: { total: 10 }, ref: 'order' },
+        { op: 'create' as const, table: 'items', data: { order_id: { $ref: 'order' } } },
+      ]
+      const result = await dataClient.batch(operations)
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/data/_batch', { operations })
+      expect(result.data).toEqual(results)
+    })
   })
 
   describe('bulk operations', () => {
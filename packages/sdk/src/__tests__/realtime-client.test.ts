@@ -176,10 +176,20 @@ describe('RealtimeClient', () => {
   })
 
   describe('connect', () => {
-    it('should manually establish connection', () => {
+    it('should reopen the connections of the subscribed tables', () => {
+      realtimeClient.subscribe('users', 'insert', vi.fn())
+      realtimeClient.disconnect()
+      vi.clearAllMocks()
+
       realtimeClient.connect()
 
-      expect(MockEventSource).toHaveBeenCalled()
+      expect(MockEventSource).toHaveBeenCalledWith(expect.stringContaining('table=users'))
+    })
+
+    it('should not connect without subscriptions or joined channels', () => {
+      realtimeClient.connect()
+
+      expect(MockEventSource).not.toHaveBeenCalled()
     })
   })
 
@@ -255,6 +265,212 @@ describe('RealtimeClient', () => {
     })
   })
 
+  describe('SSE stream', () => {
+    // Deliver a message as the EventSource would
+    const receive = (data: Record<string, unknown>, lastEventId = '') => {
+      const onmessage = mockEventSource.onmessage as unknown as (event: {
+        data: string
+        lastEventId: string
+      }) => void
+      onmessage({ data: JSON.stringify(data), lastEventId })
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should connect with the subscriptions and their filters', () => {
+      const subscription = realtimeClient.subscribe('users', 'insert', vi.fn(), {
+        filters: ['status=eq.active'],
+      })
+
+      const url = new URL((MockEventSource.mock.calls[0] as unknown as [string])[0])
+      expect(JSON.parse(url.searchParams.get('subscriptions') ?? '')).toEqual([
+        { id: subscription.id, table: 'users', events: ['insert'], filters: ['status=eq.active'] },
+      ])
+    })
+
+    it('should deliver events broadcast by the realtime service', () => {
+      const callback = vi.fn()
+      realtimeClient.subscribe('users', 'insert', callback)
+
+      receive(
+        {
+          type: 'event',
+          id: 'evt-1',
+          table: 'users',
+          recordId: '123',
+          eventType: 'insert',
+          data: { id: '123' },
+          timestamp: '2024-01-01T00:00:00Z',
+        },
+        'evt-1'
+      )
+
+      expect(callback).toHaveBeenCalledWith({
+        type: 'insert',
+        table: 'users',
+        record: { id: '123' },
+      })
+    })
+
+    it('should update the subscriptions of the connection when subscriptions are added', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true })
+      vi.stubGlobal('fetch', fetchMock)
+      realtimeClient.setAuth('test-token-123')
+      const inserts = realtimeClient.subscribe('users', 'insert', vi.fn())
+      receive({
+        type: 'connected',
+        clientId: 'client-1',
+        subscriptions: [{ id: inserts.id, table: 'users', events: ['insert'] }],
+      })
+      expect(fetchMock).not.toHaveBeenCalled()
+
+      const updates = realtimeClient.subscribe('users', 'update', vi.fn())
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:8787/api/realtime/subscribe?table=users',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Client-Id': 'client-1',
+            Authorization: 'Bearer test-token-123',
+          },
+          body: JSON.stringify({
+            subscriptions: [
+              { id: inserts.id, table: 'users', events: ['insert'] },
+              { id: updates.id, table: 'users', events: ['update'] },
+            ],
+          }),
+        }
+      )
+    })
+
+    it('should open one connection per table', () => {
+      realtimeClient.subscribe('users', 'insert', vi.fn())
+      realtimeClient.subscribe('tasks', '*', vi.fn())
+      realtimeClient.subscribe('*', '*', vi.fn())
+
+      const urls = MockEventSource.mock.calls.map(
+        (call) => new URL((call as unknown as [string])[0])
+      )
+      expect(urls.map((url) => url.searchParams.get('table'))).toEqual(['users', 'tasks', '*'])
+    })
+
+    it('should deliver events only to the subscriptions the server matched', () => {
+      const open = vi.fn()
+      const closed = vi.fn()
+      const openSubscription = realtimeClient.subscribe('tasks', 'update', open, {
+        filters: ['status=eq.open'],
+      })
+      realtimeClient.subscribe('tasks', 'update', closed, { filters: ['status=eq.closed'] })
+
+      receive({
+        type: 'event',
+        table: 'tasks',
+        eventType: 'update',
+        data: { title: 'Renamed' },
+        subscriptions: [openSubscription.id],
+      })
+
+      expect(open).toHaveBeenCalledTimes(1)
+      expect(closed).not.toHaveBeenCalled()
+    })
+
+    it('should join channels through the channels endpoint once connected', () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true })
+      vi.stubGlobal('fetch', fetchMock)
+      const channel = realtimeClient.channel('doc:42')
+      channel.join()
+      channel.track({ name: 'Ada' })
+      expect(fetchMock).not.toHaveBeenCalled()
+
+      receive({ type: 'connected', clientId: 'client-1', subscriptions: [] })
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:8787/api/realtime/channels/doc%3A42',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Client-Id': 'client-1' },
+          body: JSON.stringify({ type: 'track', presence: { name: 'Ada' } }),
+        }
+      )
+    })
+
+    it('should resume from the last sequence when opening a new EventSource', () => {
+      realtimeClient.subscribe('users', 'insert', vi.fn())
+      receive({
+        type: 'connected',
+        clientId: 'client-1',
+        subscriptions: [],
+        sequences: { users: 40 },
+      })
+      receive({ type: 'event', table: 'users', seq: 42, eventType: 'insert', data: {} }, 'users:42')
+
+      realtimeClient.disconnect()
+      mockEventSource = createMockEventSource()
+      MockEventSource.mockReturnValue(mockEventSource)
+      realtimeClient.connect()
+
+      const url = new URL((MockEventSource.mock.lastCall as unknown as [string])[0])
+      expect(JSON.parse(url.searchParams.get('since') ?? '')).toEqual({ users: 42 })
+    })
+
+    it('should resume from the sequence announced on connect before any event', () => {
+      realtimeClient.subscribe('users', 'insert', vi.fn())
+      receive({
+        type: 'connected',
+        clientId: 'client-1',
+        subscriptions: [],
+        sequences: { users: 7 },
+      })
+
+      realtimeClient.disconnect()
+      realtimeClient.connect()
+
+      expect(MockEventSource).toHaveBeenLastCalledWith(
+        expect.stringContaining(`since=${encodeURIComponent('{"users":7}')}`)
+      )
+    })
+
+    it('should skip replayed events that were already received', () => {
+      const callback = vi.fn()
+      realtimeClient.subscribe('users', '*', callback)
+
+      receive({ type: 'event', table: 'users', seq: 5, eventType: 'insert', data: { id: 'a' } })
+      receive({ type: 'event', table: 'users', seq: 5, eventType: 'insert', data: { id: 'a' } })
+      receive({ type: 'event', table: 'users', seq: 6, eventType: 'update', data: { id: 'a' } })
+
+      expect(callback.mock.calls.map(([event]) => event.seq)).toEqual([5, 6])
+    })
+
+    it('should report tables whose missed events are no longer kept', () => {
+      const onResync = vi.fn()
+      realtimeClient.onResyncRequired(onResync)
+      realtimeClient.subscribe('users', 'insert', vi.fn())
+
+      receive({ type: 'resync_required', table: 'users', seq: 2000 })
+      realtimeClient.disconnect()
+      realtimeClient.connect()
+
+      expect(onResync).toHaveBeenCalledWith('users')
+      expect(MockEventSource).toHaveBeenLastCalledWith(
+        expect.stringContaining(`since=${encodeURIComponent('{"users":2000}')}`)
+      )
+    })
+
+    it('should forget the position of a table once nothing is subscribed to it', () => {
+      const subscription = realtimeClient.subscribe('users', 'insert', vi.fn())
+      receive({ type: 'event', table: 'users', seq: 3, eventType: 'insert', data: {} })
+      subscription.unsubscribe()
+
+      realtimeClient.subscribe('users', 'insert', vi.fn())
+
+      expect(MockEventSource).toHaveBeenLastCalledWith(expect.not.stringContaining('since='))
+    })
+  })
+
   describe('error handling', () => {
     it('should handle JSON parse errors gracefully', () => {
       const callback = vi.fn()
@@ -298,6 +514,278 @@ describe('RealtimeClient', () => {
   })
 })
 
+describe('RealtimeClient (websocket transport)', () => {
+  // Minimal WebSocket double recording the frames sent by the client
+  class MockWebSocket {
+    static instances: MockWebSocket[] = []
+    readyState = 0
+    sent: string[] = []
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: string }) => void) | null = null
+    onerror: ((error: unknown) => void) | null = null
+    onclose: (() => void) | null = null
+    close = vi.fn()
+
+    constructor(public url: string) {
+      MockWebSocket.instances.push(this)
+    }
+
+    send(data: string) {
+      this.sent.push(data)
+    }
+
+    open() {
+      this.readyState = 1
+      this.onopen?.()
+    }
+
+    receive(data: Record<string, unknown>) {
+      this.onmessage?.({ data: JSON.stringify(data) })
+    }
+
+    frames() {
+      return this.sent.map((frame) => JSON.parse(frame))
+    }
+  }
+
+  let realtimeClient: RealtimeClient
+
+  beforeEach(() => {
+    MockWebSocket.instances = []
+    vi.stubGlobal('WebSocket', MockWebSocket)
+    realtimeClient = new RealtimeClient('https://api.example.com', { transport: 'websocket' })
+  })
+
+  afterEach(() => {
+    realtimeClient.disconnect()
+    vi.unstubAllGlobals()
+  })
+
+  it('should connect to the WebSocket endpoint with the token', () => {
+    realtimeClient.setAuth('test-token-123')
+    realtimeClient.subscribe('users', 'insert', vi.fn())
+
+    expect(realtimeClient.getTransport()).toBe('websocket')
+    expect(MockWebSocket.instances).toHaveLength(1)
+    expect(MockWebSocket.instances[0].url).toBe(
+      'wss://api.example.com/api/realtime/ws?token=test-token-123&table=users'
+    )
+  })
+
+  it('should subscribe on open and as subscriptions are added', () => {
+    const inserts = realtimeClient.subscribe('users', 'insert', vi.fn())
+    const updates = realtimeClient.subscribe('users', 'update', vi.fn(), {
+      filters: ['role=in.(admin,owner)'],
+    })
+    const socket = MockWebSocket.instances[0]
+
+    socket.open()
+    const deletes = realtimeClient.subscribe('users', 'delete', vi.fn())
+
+    expect(socket.frames()).toEqual([
+      {
+        type: 'subscribe',
+        subscriptions: [
+          { id: inserts.id, table: 'users', events: ['insert'] },
+          {
+            id: updates.id,
+            table: 'users',
+            events: ['update'],
+            filters: ['role=in.(admin,owner)'],
+          },
+        ],
+      },
+      {
+        type: 'subscribe',
+        subscriptions: [{ id: deletes.id, table: 'users', events: ['delete'] }],
+      },
+    ])
+    expect(realtimeClient.isConnected()).toBe(true)
+  })
+
+  it('should unsubscribe each removed subscription by id', () => {
+    const first = realtimeClient.subscribe('users', 'insert', vi.fn())
+    realtimeClient.subscribe('users', '*', vi.fn())
+    const socket = MockWebSocket.instances[0]
+    socket.open()
+
+    first.unsubscribe()
+
+    expect(socket.frames()[1]).toEqual({ type: 'unsubscribe', ids: [first.id] })
+  })
+
+  it('should deliver broadcast events to matching subscriptions', () => {
+    const insertCallback = vi.fn()
+    const updateCallback = vi.fn()
+    realtimeClient.subscribe('users', 'insert', insertCallback)
+    realtimeClient.subscribe('users', 'update', updateCallback)
+    const socket = MockWebSocket.instances[0]
+    socket.open()
+
+    socket.receive({ type: 'subscriptions_updated', subscriptions: [] })
+    socket.receive({
+      type: 'event',
+      id: 'evt-1',
+      table: 'users',
+      recordId: '123',
+      eventType: 'insert',
+      data: { id: '123', name: 'Test User' },
+      timestamp: '2024-01-01T00:00:00Z',
+    })
+
+    expect(insertCallback).toHaveBeenCalledWith({
+      type: 'insert',
+      table: 'users',
+      record: { id: '123', name: 'Test User' },
+    })
+    expect(updateCallback).not.toHaveBeenCalled()
+  })
+
+  it('should close the socket without reconnecting when the last subscription is removed', () => {
+    vi.useFakeTimers()
+    const subscription = realtimeClient.subscribe('users', 'insert', vi.fn())
+    const socket = MockWebSocket.instances[0]
+    socket.open()
+
+    subscription.unsubscribe()
+    vi.advanceTimersByTime(10000)
+
+    expect(socket.close).toHaveBeenCalledWith(1000, 'Client disconnected')
+    expect(socket.onclose).toBeNull()
+    expect(MockWebSocket.instances).toHaveLength(1)
+    vi.useRealTimers()
+  })
+
+  it('should reconnect and resubscribe after the connection drops', () => {
+    vi.useFakeTimers()
+    const subscription = realtimeClient.subscribe('users', 'insert', vi.fn())
+    MockWebSocket.instances[0].open()
+
+    MockWebSocket.instances[0].onclose?.()
+    vi.advanceTimersByTime(5000)
+
+    const reconnected = MockWebSocket.instances[1]
+    reconnected.open()
+    expect(reconnected.frames()).toEqual([
+      {
+        type: 'subscribe',
+        subscriptions: [{ id: subscription.id, table: 'users', events: ['insert'] }],
+      },
+    ])
+    vi.useRealTimers()
+  })
+
+  it('should deliver events only to the subscriptions of the receiving connection', () => {
+    const users = vi.fn()
+    const everything = vi.fn()
+    realtimeClient.subscribe('users', '*', users)
+    realtimeClient.subscribe('*', '*', everything)
+    realtimeClient.channel('doc:42').join()
+    const [usersSocket, fanOutSocket, channelSocket] = MockWebSocket.instances
+
+    expect(MockWebSocket.instances.map((socket) => new URL(socket.url).search)).toEqual([
+      '?table=users',
+      '?table=*',
+      '?channel=doc%3A42',
+    ])
+
+    // The fan-out connection receives the same event as the table's own connection
+    const event = { type: 'event', table: 'users', eventType: 'insert', data: { id: '1' } }
+    usersSocket.receive(event)
+    fanOutSocket.receive(event)
+    channelSocket.open()
+
+    expect(users).toHaveBeenCalledTimes(1)
+    expect(everything).toHaveBeenCalledTimes(1)
+    expect(channelSocket.frames()).toEqual([{ type: 'join', channel: 'doc:42' }])
+  })
+
+  it('should join channels on open and track presence', () => {
+    const channel = realtimeClient.channel('doc:42')
+    const leave = channel.join()
+    channel.track({ name: 'Ada' })
+    const socket = MockWebSocket.instances[0]
+
+    socket.open()
+    channel.untrack()
+    leave()
+
+    expect(socket.frames()).toEqual([
+      { type: 'track', channel: 'doc:42', presence: { name: 'Ada' } },
+      { type: 'untrack', channel: 'doc:42' },
+      { type: 'leave', channel: 'doc:42' },
+    ])
+    expect(socket.close).toHaveBeenCalledWith(1000, 'Client disconnected')
+  })
+
+  it('should keep the presence of a channel up to date', () => {
+    const channel = realtimeClient.channel('doc:42')
+    const onPresence = vi.fn()
+    channel.onPresence(onPresence)
+    channel.join()
+    const socket = MockWebSocket.instances[0]
+    socket.open()
+
+    const ada = { clientId: 'c1', userId: 'u1', presence: { name: 'Ada' }, joinedAt: 't1' }
+    const bob = { clientId: 'c2', userId: 'u2', presence: { name: 'Bob' }, joinedAt: 't2' }
+    socket.receive({ type: 'presence_sync', channel: 'doc:42', members: [ada] })
+    socket.receive({ type: 'presence_join', channel: 'doc:42', member: bob })
+    socket.receive({ type: 'presence_leave', channel: 'doc:42', clientId: 'c1' })
+    socket.receive({ type: 'presence_join', channel: 'other', member: ada })
+
+    expect(onPresence).toHaveBeenCalledTimes(3)
+    expect(channel.getMembers()).toEqual([bob])
+  })
+
+  it('should send and receive broadcasts of joined channels', () => {
+    const channel = realtimeClient.channel('doc:42')
+    expect(() => channel.broadcast('cursor', { x: 1 })).toThrow('Join channel doc:42')
+
+    const onCursor = vi.fn()
+    const onAny = vi.fn()
+    channel.onBroadcast('cursor', onCursor)
+    channel.onBroadcast('*', onAny)
+    channel.join()
+    const socket = MockWebSocket.instances[0]
+    socket.open()
+
+    channel.broadcast('cursor', { x: 1 })
+    socket.receive({
+      type: 'broadcast',
+      channel: 'doc:42',
+      event: 'typing',
+      payload: true,
+      from: { clientId: 'c2', userId: 'u2' },
+      timestamp: 't',
+    })
+
+    expect(socket.frames()).toEqual([
+      { type: 'join', channel: 'doc:42' },
+      { type: 'broadcast', channel: 'doc:42', event: 'cursor', payload: { x: 1 } },
+    ])
+    expect(onCursor).not.toHaveBeenCalled()
+    expect(onAny).toHaveBeenCalledWith({
+      channel: 'doc:42',
+      event: 'typing',
+      payload: true,
+      from: { clientId: 'c2', userId: 'u2' },
+      timestamp: 't',
+    })
+  })
+
+  it('should ping the server periodically', () => {
+    vi.useFakeTimers()
+    realtimeClient.subscribe('users', 'insert', vi.fn())
+    const socket = MockWebSocket.instances[0]
+    socket.open()
+
+    vi.advanceTimersByTime(30000)
+
+    expect(socket.sent.at(-1)).toBe('{"type":"ping"}')
+    vi.useRealTimers()
+  })
+})
+
 describe('RealtimeManager', () => {
   let realtimeManager: RealtimeManager
   let mockHttpClient: jest.Mocked<HttpClient>
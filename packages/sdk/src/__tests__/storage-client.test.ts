@@ -88,6 +88,74 @@ describe('StorageClient', () => {
     })
   })
 
+  describe('upload in parts', () => {
+    const MiB = 1024 * 1024
+    const file = new Blob([new Uint8Array(12 * MiB)], { type: 'video/mp4' })
+
+    const uploadedPartNumbers = () =>
+      mockHttpClient.request.mock.calls.map(([endpoint]: [string]) =>
+        Number(endpoint.split('/').pop())
+      )
+
+    beforeEach(() => {
+      mockHttpClient.request.mockResolvedValue({ success: true, data: {}, status: 200 })
+      mockHttpClient.post.mockImplementation(async (endpoint: string) =>
+        endpoint === '/api/storage/multipart'
+          ? { success: true, data: { upload_id: 'upload-2', parts: [] }, status: 201 }
+          : { success: true, data: { name: 'video.mp4', size: 12 * MiB }, status: 200 }
+      )
+    })
+
+    it('should send large files in parts and report progress', async () => {
+      mockHttpClient.get.mockResolvedValue({ success: true, data: { uploads: [] }, status: 200 })
+      const onProgress = vi.fn()
+
+      await storageClient.upload('video.mp4', file, { partSize: 5 * MiB, onProgress })
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/storage/multipart', {
+        file_name: 'video.mp4',
+        content_type: 'video/mp4',
+        metadata: undefined,
+        part_size: 5 * MiB,
+        total_size: 12 * MiB,
+      })
+      expect(uploadedPartNumbers()).toEqual([1, 2, 3])
+      expect(mockHttpClient.post).toHaveBeenLastCalledWith(
+        '/api/storage/multipart/upload-2/complete'
+      )
+      expect(onProgress.mock.calls.map(([progress]) => progress.percentage)).toEqual([
+        0, 42, 83, 100,
+      ])
+    })
+
+    it('should resume an unfinished upload of the same file', async () => {
+      const unfinished = { upload_id: 'upload-1', total_size: 12 * MiB, part_size: 5 * MiB }
+      mockHttpClient.get.mockImplementation(async (endpoint: string) =>
+        endpoint === '/api/storage/multipart'
+          ? { success: true, data: { uploads: [unfinished] }, status: 200 }
+          : {
+              success: true,
+              data: { ...unfinished, parts: [{ part_number: 1, size: 5 * MiB }] },
+              status: 200,
+            }
+      )
+
+      await storageClient.upload('video.mp4', file, { partSize: 5 * MiB })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/storage/multipart', {
+        file: 'video.mp4',
+      })
+      expect(mockHttpClient.post).not.toHaveBeenCalledWith(
+        '/api/storage/multipart',
+        expect.anything()
+      )
+      expect(uploadedPartNumbers()).toEqual([2, 3])
+      expect(mockHttpClient.post).toHaveBeenLastCalledWith(
+        '/api/storage/multipart/upload-1/complete'
+      )
+    })
+  })
+
   describe('getInfo', () => {
     it('should get file info', async () => {
       const fileName = 'test.txt'
@@ -400,20 +468,21 @@ describe('StorageClient', () => {
   })
 
   describe('createPresignedUpload', () => {
-    it('should create presigned upload URL', async () => {
+    it('should create a signed upload URL', async () => {
       const fileName = 'test.txt'
       const contentType = 'text/plain'
       const expiresIn = 3600
       const mockResponse = {
         success: true,
         data: {
-          upload_url: 'https://storage.example.com/upload?signature=abc123',
-          file_url: 'https://storage.example.com/test.txt',
+          id: 'grant-1',
+          upload_url:
+            'https://test.example.com/api/storage/signed/test.txt?id=grant-1&expires=1672534800&content_type=text%2Fplain&sig=abc123',
+          method: 'PUT',
+          headers: { 'Content-Type': 'text/plain' },
+          max_size: null,
+          file_url: 'https://test.example.com/api/storage/files/test.txt/content',
           expires_at: '2023-01-01T01:00:00Z',
-          fields: {
-            key: 'test.txt',
-            'Content-Type': 'text/plain',
-          },
         },
         status: 200,
       }
@@ -428,6 +497,21 @@ describe('StorageClient', () => {
       })
       expect(result).toEqual(mockResponse)
     })
+
+    it('should send the size limit of the upload', async () => {
+      mockHttpClient.post.mockResolvedValue({ success: true, data: {}, status: 200 })
+
+      await storageClient.createPresignedUpload('avatar.png', 'image/png', undefined, {
+        maxSize: 1048576,
+      })
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/storage/presigned-upload', {
+        file_name: 'avatar.png',
+        content_type: 'image/png',
+        expires_in: undefined,
+        max_size: 1048576,
+      })
+    })
   })
 
   describe('download', () => {
@@ -457,6 +541,38 @@ describe('StorageClient', () => {
     })
   })
 
+  describe('downloadImage', () => {
+    it('should download an image transformed by a preset', async () => {
+      const image = new Blob(['webp'], { type: 'image/webp' })
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        blob: vi.fn().mockResolvedValue(image),
+      } as unknown as Response)
+
+      const result = await storageClient.downloadImage('photos/a.jpg', 'thumb')
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://test.example.com/api/storage/files/photos%2Fa.jpg/transform?preset=thumb',
+        expect.objectContaining({ method: 'GET', headers: expect.any(Headers) })
+      )
+      expect(result).toEqual({ success: true, data: image, status: 200 })
+    })
+
+    it('should return the error of a refused transform', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: vi.fn().mockResolvedValue({ error: { message: 'Image preset not found' } }),
+      } as unknown as Response)
+
+      const result = await storageClient.downloadImage('photos/a.jpg', 'huge')
+
+      expect(result).toEqual({ success: false, error: 'Image preset not found', status: 404 })
+    })
+  })
+
   describe('getPresignedUrl', () => {
     it('should get presigned URL for download', async () => {
       const fileName = 'test.txt'
@@ -465,7 +581,9 @@ describe('StorageClient', () => {
       const mockResponse = {
         success: true,
         data: {
-          url: 'https://storage.example.com/test.txt?signature=abc123',
+          id: 'grant-1',
+          url: 'https://test.example.com/api/storage/signed/test.txt?id=grant-1&expires=1672534800&sig=abc123',
+          method: 'GET',
           expires_at: '2023-01-01T01:00:00Z',
         },
         status: 200,
@@ -487,7 +605,9 @@ describe('StorageClient', () => {
       const mockResponse = {
         success: true,
         data: {
-          url: 'https://storage.example.com/upload/test.txt?signature=xyz789',
+          id: 'grant-2',
+          url: 'https://test.example.com/api/storage/signed/test.txt?id=grant-2&expires=1672534800&sig=xyz789',
+          method: 'PUT',
           expires_at: '2023-01-01T01:00:00Z',
         },
         status: 200,
@@ -501,6 +621,32 @@ describe('StorageClient', () => {
       })
       expect(result).toEqual(mockResponse)
     })
+
+    it('should limit upload URLs to a content type and size', async () => {
+      mockHttpClient.get.mockResolvedValue({ success: true, data: {}, status: 200 })
+
+      await storageClient.getPresignedUrl('test.csv', 'upload', 600, {
+        contentType: 'text/csv',
+        maxSize: 2048,
+      })
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/storage/files/test.csv/presigned-url', {
+        action: 'upload',
+        expires_in: '600',
+        content_type: 'text/csv',
+        max_size: '2048',
+      })
+    })
+  })
+
+  describe('revokeSignedUrl', () => {
+    it('should revoke a signed URL by its id', async () => {
+      mockHttpClient.delete.mockResolvedValue({ success: true, status: 200 })
+
+      await storageClient.revokeSignedUrl('grant-1')
+
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/api/storage/signed-urls/grant-1')
+    })
   })
 
   describe('updateMetadata', () => {
@@ -530,6 +676,26 @@ describe('StorageClient', () => {
     })
   })
 
+  describe('setCacheControl', () => {
+    it('should set or clear the Cache-Control of a file', async () => {
+      mockHttpClient.patch.mockResolvedValue({ success: true, data: {}, status: 200 })
+
+      await storageClient.setCacheControl('logo.png', 'public, max-age=86400')
+      await storageClient.setCacheControl('logo.png', null)
+
+      expect(mockHttpClient.patch).toHaveBeenNthCalledWith(
+        1,
+        '/api/storage/files/logo.png/metadata',
+        { cache_control: 'public, max-age=86400' }
+      )
+      expect(mockHttpClient.patch).toHaveBeenNthCalledWith(
+        2,
+        '/api/storage/files/logo.png/metadata',
+        { cache_control: null }
+      )
+    })
+  })
+
   describe('getStats', () => {
     it('should get storage statistics', async () => {
       const mockResponse = {
@@ -17,30 +17,56 @@ export type {
   PushSubscriptionData,
 } from './lib/push-client'
 export { PushClient } from './lib/push-client'
+export { RealtimeChannel } from './lib/realtime-channel'
 export { RealtimeClient, RealtimeManager } from './lib/realtime-client'
 export { StorageClient } from './lib/storage-client'
 // Types
 export type {
+  AggregateOptions,
+  AggregateRow,
   ApiError,
   ApiResponse,
   AuthConfig,
+  BatchOperation,
+  BatchReference,
+  BatchResult,
+  BroadcastMessage,
   ColumnDefinition,
   CreateOptions,
+  CursorPage,
+  CursorQueryOptions,
   CustomQuery,
   CustomQueryParameter,
   CustomQueryResult,
+  FieldFilter,
   FileInfo,
   FileUploadOptions,
   ForeignKeyDefinition,
+  GetOptions,
+  MultipartPart,
+  MultipartUpload,
+  MultipartUploadOptions,
+  PresenceMember,
+  PresenceState,
   QueryOptions,
+  RealtimeClientOptions,
   RealtimeEvent,
+  RealtimeSubscribeOptions,
   RealtimeSubscription,
+  RealtimeTransport,
+  SearchOptions,
+  SearchResult,
+  SignedUpload,
+  SignedUrl,
+  SignedUrlOptions,
   TableRow,
   TableSchema,
   UpdateOptions,
+  UploadProgress,
   User,
   UserSession,
   VibebaseConfig,
+  WhereFilter,
 } from './types'
 // Main client
 export { createClient, VibebaseClient } from './vibebase-client'
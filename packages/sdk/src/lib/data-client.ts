@@ -3,10 +3,19 @@
  */
 
 import type {
+  AggregateOptions,
+  AggregateRow,
   ApiResponse,
+  BatchOperation,
+  BatchResult,
   CreateOptions,
+  CursorPage,
+  CursorQueryOptions,
+  GetOptions,
   ListResponse,
   QueryOptions,
+  SearchOptions,
+  SearchResult,
   TableRow,
   TableSchema,
   UpdateOptions,
@@ -28,7 +37,7 @@ export class DataClient {
    */
   async list<T extends TableRow = TableRow>(
     tableName: string,
-    options?: QueryOptions
+    options?: QueryOptions<T>
   ): Promise<ListResponse<T>> {
     const params: Record<string, string> = {}
 
@@ -37,6 +46,7 @@ export class DataClient {
     if (options?.orderBy) params.order_by = options.orderBy
     if (options?.orderDirection) params.order_direction = options.orderDirection
     if (options?.where) params.where = JSON.stringify(options.where)
+    Object.assign(params, readParams(options))
 
     const response = await this.http.get<{
       data: T[]
@@ -69,11 +79,91 @@ export class DataClient {
     }
   }
 
+  /**
+   * List records one page at a time using cursor (keyset) pagination
+   */
+  async listWithCursor<T extends TableRow = TableRow>(
+    tableName: string,
+    options?: CursorQueryOptions<T>
+  ): Promise<ApiResponse<CursorPage<T>>> {
+    const params: Record<string, string> = { pagination: 'cursor' }
+
+    if (options?.limit) params.limit = String(options.limit)
+    if (options?.cursor) params.cursor = options.cursor
+    if (options?.orderBy) params.sortBy = options.orderBy
+    if (options?.orderDirection) params.sortOrder = options.orderDirection
+    if (options?.where) params.where = JSON.stringify(options.where)
+    if (options?.includeTotal) params.include_total = 'true'
+    Object.assign(params, readParams(options))
+
+    const response = await this.http.get<{
+      data: T[]
+      pagination: { next_cursor: string | null; has_more: boolean; total?: number }
+    }>(`/api/data/${tableName}`, params)
+
+    if (!response.success || !response.data) {
+      return { ...response, data: undefined }
+    }
+
+    return {
+      ...response,
+      data: {
+        data: response.data.data,
+        nextCursor: response.data.pagination.next_cursor,
+        hasMore: response.data.pagination.has_more,
+        ...(response.data.pagination.total !== undefined && {
+          total: response.data.pagination.total,
+        }),
+      },
+    }
+  }
+
+  /**
+   * Compute count, sum, avg, min and max over a table, optionally grouped
+   */
+  async aggregate<T extends TableRow = TableRow>(
+    tableName: string,
+    options: AggregateOptions<T> = {}
+  ): Promise<ApiResponse<AggregateRow[]>> {
+    const params: Record<string, string> = {}
+
+    if (options.count === true) params.count = ''
+    else if (Array.isArray(options.count)) params.count = options.count.join(',')
+    for (const fn of ['sum', 'avg', 'min', 'max'] as const) {
+      const columns = options[fn]
+      if (columns?.length) params[fn] = columns.join(',')
+    }
+    if (options.groupBy?.length) params.group_by = options.groupBy.join(',')
+    if (options.where) params.where = JSON.stringify(options.where)
+    if (options.orderBy) params.sortBy = options.orderBy
+    if (options.orderDirection) params.sortOrder = options.orderDirection
+    if (options.limit) params.limit = String(options.limit)
+
+    const response = await this.http.get<{ data: AggregateRow[] }>(
+      `/api/data/${tableName}/aggregate`,
+      params
+    )
+
+    if (!response.success || !response.data) {
+      return { ...response, data: undefined }
+    }
+
+    return { ...response, data: response.data.data }
+  }
+
   /**
    * Get a single record by ID
    */
-  async get<T extends TableRow = TableRow>(tableName: string, id: string): Promise<ApiResponse<T>> {
-    const response = await this.http.get(`/api/data/${tableName}/${id}`)
+  async get<T extends TableRow = TableRow>(
+    tableName: string,
+    id: string,
+    options?: GetOptions<T>
+  ): Promise<ApiResponse<T>> {
+    const params = readParams(options)
+    const response =
+      Object.keys(params).length > 0
+        ? await this.http.get(`/api/data/${tableName}/${id}`, params)
+        : await this.http.get(`/api/data/${tableName}/${id}`)
 
     // Handle response format from API
     if (
@@ -159,6 +249,22 @@ export class DataClient {
     return this.http.delete(`/api/data/${tableName}/${id}`)
   }
 
+  /**
+   * Run create, update and delete operations across tables atomically
+   * Later operations can use the id of an earlier one with `{ $ref: '<ref>' }`
+   */
+  async batch(operations: BatchOperation[]): Promise<ApiResponse<BatchResult[]>> {
+    const response = await this.http.post<{ results: BatchResult[] }>('/api/data/_batch', {
+      operations,
+    })
+
+    if (!response.success || !response.data) {
+      return { ...response, data: undefined }
+    }
+
+    return { ...response, data: response.data.results }
+  }
+
   /**
    * Execute raw SQL query (if enabled)
    */
@@ -170,21 +276,38 @@ export class DataClient {
   }
 
   /**
-   * Search records (if table has searchable columns)
+   * Full-text search, ranked by relevance (full-text search must be enabled on the table)
    */
   async search<T extends TableRow = TableRow>(
     tableName: string,
     query: string,
-    options?: Omit<QueryOptions, 'where'>
-  ): Promise<ApiResponse<{ data: T[]; total: number }>> {
+    options?: SearchOptions<T>
+  ): Promise<ApiResponse<{ data: SearchResult<T>[]; total: number }>> {
     const params: Record<string, string> = {
       q: query,
     }
 
+    if (options?.columns?.length) params.columns = options.columns.join(',')
     if (options?.limit) params.limit = String(options.limit)
     if (options?.offset) params.offset = String(options.offset)
 
-    return this.http.get<{ data: T[]; total: number }>(`/api/tables/${tableName}/search`, params)
+    const response = await this.http.get<{
+      data: SearchResult<T>[]
+      total?: number
+      pagination?: { total: number }
+    }>(`/api/tables/${tableName}/search`, params)
+
+    if (!response.success || !response.data) {
+      return { ...response, data: undefined }
+    }
+
+    return {
+      ...response,
+      data: {
+        data: response.data.data,
+        total: response.data.pagination?.total ?? response.data.total ?? 0,
+      },
+    }
   }
 
   /**
@@ -231,3 +354,11 @@ export class DataClient {
     })
   }
 }
+
+// Query parameters for field projection and relation expansion
+function readParams<T>(options?: GetOptions<T>): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (options?.select?.length) params.select = options.select.join(',')
+  if (options?.expand?.length) params.expand = options.expand.join(',')
+  return params
+}
@@ -0,0 +1,211 @@
+/**
+ * Presence and broadcast channel of the realtime service
+ */
+import type { BroadcastMessage, PresenceMember, PresenceState } from '../types'
+
+// Messages sent to the server for a channel
+export type ChannelFrame =
+  | { type: 'join'; channel: string }
+  | { type: 'track'; channel: string; presence: PresenceState }
+  | { type: 'untrack'; channel: string }
+  | { type: 'leave'; channel: string }
+  | { type: 'broadcast'; channel: string; event: string; payload?: unknown }
+
+interface BroadcastListener {
+  event: string
+  callback: (message: BroadcastMessage) => void
+}
+
+export class RealtimeChannel {
+  readonly name: string
+  private members = new Map<string, PresenceMember>()
+  private presenceListeners = new Set<(members: PresenceMember[]) => void>()
+  private broadcastListeners = new Set<BroadcastListener>()
+  private presence: PresenceState | null = null
+  // Number of callers that joined; the channel is left when the last one leaves
+  private joinCount = 0
+
+  constructor(
+    name: string,
+    private sendFrame: (frame: ChannelFrame) => void,
+    private onMembershipChange: () => void
+  ) {
+    this.name = name
+  }
+
+  /**
+   * Join the channel to receive its broadcasts and presence; returns a function leaving it
+   */
+  join(): () => void {
+    this.joinCount++
+    if (this.joinCount === 1) {
+      this.onMembershipChange()
+      this.sendFrame(this.joinFrame())
+    }
+
+    let joined = true
+    return () => {
+      if (!joined) return
+      joined = false
+      this.joinCount--
+      if (this.joinCount === 0) {
+        this.presence = null
+        this.members.clear()
+        this.notifyPresence()
+        this.sendFrame({ type: 'leave', channel: this.name })
+        this.onMembershipChange()
+      }
+    }
+  }
+
+  /**
+   * Check if the channel is joined
+   */
+  isJoined(): boolean {
+    return this.joinCount > 0
+  }
+
+  /**
+   * Show this client in the channel's presence with the given state, replacing earlier state
+   */
+  track(presence: PresenceState): void {
+    this.presence = presence
+    if (this.isJoined()) {
+      this.sendFrame({ type: 'track', channel: this.name, presence })
+    }
+  }
+
+  /**
+   * Remove this client from the channel's presence while staying joined
+   */
+  untrack(): void {
+    if (!this.presence) return
+    this.presence = null
+    if (this.isJoined()) {
+      this.sendFrame({ type: 'untrack', channel: this.name })
+    }
+  }
+
+  /**
+   * Send an ephemeral message to the other members of the channel
+   */
+  broadcast(event: string, payload?: unknown): void {
+    if (!this.isJoined()) {
+      throw new Error(`Join channel ${this.name} before broadcasting to it`)
+    }
+    this.sendFrame({ type: 'broadcast', channel: this.name, event, payload })
+  }
+
+  /**
+   * Listen to presence changes; the callback receives every tracked member
+   */
+  onPresence(callback: (members: PresenceMember[]) => void): () => void {
+    this.presenceListeners.add(callback)
+    return () => {
+      this.presenceListeners.delete(callback)
+    }
+  }
+
+  /**
+   * Listen to broadcasts of an event, or of every event with '*'
+   */
+  onBroadcast<T = unknown>(
+    event: string,
+    callback: (message: BroadcastMessage<T>) => void
+  ): () => void {
+    const listener: BroadcastListener = {
+      event,
+      callback: callback as (message: BroadcastMessage) => void,
+    }
+    this.broadcastListeners.add(listener)
+    return () => {
+      this.broadcastListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Get the members currently tracked in the channel's presence
+   */
+  getMembers(): PresenceMember[] {
+    return [...this.members.values()]
+  }
+
+  /**
+   * Frame restoring the membership on a new connection
+   */
+  joinFrame(): ChannelFrame {
+    return this.presence
+      ? { type: 'track', channel: this.name, presence: this.presence }
+      : { type: 'join', channel: this.name }
+  }
+
+  /**
+   * Forget the presence of a closed connection; the server sends it again on rejoin
+   */
+  resetPresence(): void {
+    if (this.members.size === 0) return
+    this.members.clear()
+    this.notifyPresence()
+  }
+
+  /**
+   * Handle a presence or broadcast message of this channel
+   */
+  handleMessage(data: {
+    type: string
+    members?: PresenceMember[]
+    member?: PresenceMember
+    clientId?: string
+    event?: string
+    payload?: unknown
+    from?: BroadcastMessage['from']
+    timestamp?: string
+  }): void {
+    switch (data.type) {
+      case 'presence_sync':
+        this.members = new Map((data.members ?? []).map((member) => [member.clientId, member]))
+        this.notifyPresence()
+        return
+      case 'presence_join':
+        if (data.member) {
+          this.members.set(data.member.clientId, data.member)
+          this.notifyPresence()
+        }
+        return
+      case 'presence_leave':
+        if (data.clientId && this.members.delete(data.clientId)) {
+          this.notifyPresence()
+        }
+        return
+      case 'broadcast': {
+        const message: BroadcastMessage = {
+          channel: this.name,
+          event: data.event ?? '',
+          payload: data.payload,
+          from: data.from ?? { clientId: '' },
+          timestamp: data.timestamp ?? new Date().toISOString(),
+        }
+        for (const listener of this.broadcastListeners) {
+          if (listener.event !== '*' && listener.event !== message.event) continue
+          try {
+            listener.callback(message)
+          } catch (error) {
+            console.error('Error in broadcast callback:', error)
+          }
+        }
+        return
+      }
+    }
+  }
+
+  private notifyPresence(): void {
+    const members = this.getMembers()
+    for (const listener of this.presenceListeners) {
+      try {
+        listener(members)
+      } catch (error) {
+        console.error('Error in presence callback:', error)
+      }
+    }
+  }
+}
@@ -1,17 +1,62 @@
 /**
- * Realtime Client for Server-Sent Events
+ * Realtime Client for Server-Sent Events and WebSockets
+ * The realtime service is sharded: every table and every channel is served by its own
+ * connection, and subscriptions to every table ('*') by a fan-out connection
  */
-import type { ApiResponse, RealtimeEvent, RealtimeSubscription } from '../types'
+import type {
+  ApiResponse,
+  RealtimeClientOptions,
+  RealtimeEvent,
+  RealtimeSubscribeOptions,
+  RealtimeSubscription,
+  RealtimeTransport,
+} from '../types'
 import type { HttpClient } from './http-client'
+import { type ChannelFrame, RealtimeChannel } from './realtime-channel'
+
+// The server answers this exact frame without waking the realtime service
+const PING_FRAME = '{"type":"ping"}'
+const PING_INTERVAL = 30000
+const RECONNECT_DELAY = 5000
+
+// WebSocket readyState values (the WebSocket global may not exist outside browsers)
+const SOCKET_CONNECTING = 0
+const SOCKET_OPEN = 1
+
+// A subscription as the server evaluates it: event types and row filters are applied
+// before events are sent
+interface ServerSubscription {
+  id: string
+  table: string
+  events?: Array<'insert' | 'update' | 'delete'>
+  filters?: string[]
+}
+
+// The connection to one shard, named 'table:<table>' or 'channel:<channel>'
+interface ShardConnection {
+  shard: string
+  eventSource: EventSource | null
+  socket: WebSocket | null
+  pingTimer: ReturnType<typeof setInterval> | null
+  // Assigned by the server on each SSE connection, used to update its subscriptions
+  clientId: string | null
+}
 
 export class RealtimeClient {
   private subscriptions = new Map<string, RealtimeSubscription>()
-  private eventSource: EventSource | null = null
+  private channels = new Map<string, RealtimeChannel>()
+  private connections = new Map<string, ShardConnection>()
   private baseUrl: string
   private authToken: string | null = null
+  private transport: RealtimeTransport
+  // Last sequence received per table of each shard, to resume from when reconnecting
+  private sequences = new Map<string, Record<string, number>>()
+  private resyncListeners = new Set<(table: string) => void>()
+  private subscriptionCount = 0
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options: RealtimeClientOptions = {}) {
     this.baseUrl = baseUrl
+    this.transport = options.transport ?? 'sse'
   }
 
   /**
@@ -21,15 +66,25 @@ export class RealtimeClient {
     this.authToken = token
   }
 
+  /**
+   * Get the transport used for the realtime stream
+   */
+  getTransport(): RealtimeTransport {
+    return this.transport
+  }
+
   /**
    * Subscribe to table changes
+   * Filters such as `status=eq.open` or `project_id=in.(a,b)` are evaluated by the server,
+   * which only sends the changes of matching rows
    */
   subscribe(
     tableName: string,
     eventType: 'insert' | 'update' | 'delete' | '*',
-    callback: (event: RealtimeEvent) => void
+    callback: (event: RealtimeEvent) => void,
+    options: RealtimeSubscribeOptions = {}
   ): RealtimeSubscription {
-    const id = `${tableName}:${eventType}:${Date.now()}`
+    const id = `${tableName}:${eventType}:${Date.now()}:${++this.subscriptionCount}`
 
     const subscription: RealtimeSubscription = {
       id,
@@ -38,9 +93,19 @@ export class RealtimeClient {
       callback,
       unsubscribe: () => this.unsubscribe(id),
     }
+    if (options.filters && options.filters.length > 0) {
+      subscription.filters = options.filters
+    }
 
     this.subscriptions.set(id, subscription)
-    this.ensureConnection()
+    const shard = tableShard(tableName)
+    this.ensureConnection(shard)
+
+    // An open connection learns about new subscriptions right away; new ones subscribe on open
+    this.updateServerSubscriptions(shard, {
+      type: 'subscribe',
+      subscriptions: [toServerSubscription(subscription)],
+    })
 
     return subscription
   }
@@ -49,12 +114,20 @@ export class RealtimeClient {
    * Unsubscribe from table changes
    */
   unsubscribe(subscriptionId: string): void {
+    const subscription = this.subscriptions.get(subscriptionId)
+    if (!subscription) return
     this.subscriptions.delete(subscriptionId)
 
-    // Close connection if no more subscriptions
-    if (this.subscriptions.size === 0) {
-      this.disconnect()
+    // Close the connection of the table if it has no more subscriptions; events missed
+    // while nothing is subscribed are not replayed
+    const shard = tableShard(subscription.tableName)
+    if (!this.isInUse(shard)) {
+      this.closeConnection(shard)
+      this.sequences.delete(shard)
+      return
     }
+
+    this.updateServerSubscriptions(shard, { type: 'unsubscribe', ids: [subscriptionId] })
   }
 
   /**
@@ -62,46 +135,154 @@ export class RealtimeClient {
    */
   unsubscribeAll(): void {
     this.subscriptions.clear()
-    this.disconnect()
+
+    // Joined channels keep their connections open
+    for (const shard of [...this.connections.keys()]) {
+      if (!this.isInUse(shard)) {
+        this.closeConnection(shard)
+        this.sequences.delete(shard)
+      }
+    }
+  }
+
+  /**
+   * Get a presence and broadcast channel; join it to start receiving its messages
+   */
+  channel(name: string): RealtimeChannel {
+    let channel = this.channels.get(name)
+    if (!channel) {
+      const shard = channelShard(name)
+      channel = new RealtimeChannel(
+        name,
+        (frame) => this.sendChannelFrame(shard, frame),
+        () => {
+          if (this.isInUse(shard)) {
+            this.ensureConnection(shard)
+          } else {
+            this.closeConnection(shard)
+          }
+        }
+      )
+      this.channels.set(name, channel)
+    }
+    return channel
+  }
+
+  /**
+   * Listen for tables whose missed events could not be replayed after a reconnect
+   * The server only keeps recent events; data shown from such a table should be refetched
+   */
+  onResyncRequired(callback: (table: string) => void): () => void {
+    this.resyncListeners.add(callback)
+    return () => {
+      this.resyncListeners.delete(callback)
+    }
   }
 
   /**
    * Check if client is connected
+   * True when every table and channel in use has an open connection
    */
   isConnected(): boolean {
-    return this.eventSource?.readyState === EventSource.OPEN
+    if (this.connections.size === 0) return false
+
+    for (const connection of this.connections.values()) {
+      const open =
+        this.transport === 'websocket'
+          ? connection.socket?.readyState === SOCKET_OPEN
+          : connection.eventSource?.readyState === EventSource.OPEN
+      if (!open) return false
+    }
+    return true
   }
 
   /**
    * Manually connect to realtime stream
+   * Opens the connections of the subscribed tables and joined channels
    */
   connect(): void {
-    this.ensureConnection()
+    for (const shard of this.getShardsInUse()) {
+      this.ensureConnection(shard)
+    }
   }
 
   /**
    * Disconnect from realtime stream
    */
   disconnect(): void {
-    if (this.eventSource) {
-      this.eventSource.close()
-      this.eventSource = null
+    for (const shard of [...this.connections.keys()]) {
+      this.closeConnection(shard)
+    }
+  }
+
+  /**
+   * Ensure the connection of a shard is active on the configured transport
+   */
+  private ensureConnection(shard: string): void {
+    let connection = this.connections.get(shard)
+    if (!connection) {
+      connection = { shard, eventSource: null, socket: null, pingTimer: null, clientId: null }
+      this.connections.set(shard, connection)
+    }
+
+    if (this.transport === 'websocket') {
+      this.ensureWebSocket(connection)
+    } else {
+      this.ensureEventSource(connection)
+    }
+  }
+
+  /**
+   * Close the connection of a shard on purpose, without reconnecting
+   */
+  private closeConnection(shard: string): void {
+    const connection = this.connections.get(shard)
+    if (!connection) return
+    this.connections.delete(shard)
+
+    this.resetChannelPresence(shard)
+    if (connection.eventSource) {
+      connection.eventSource.close()
+      connection.eventSource = null
+      connection.clientId = null
     }
+    if (connection.pingTimer) {
+      clearInterval(connection.pingTimer)
+      connection.pingTimer = null
+    }
+    if (connection.socket) {
+      const socket = connection.socket
+      // Detach first so that closing on purpose does not trigger a reconnect
+      connection.socket = null
+      socket.onclose = null
+      socket.close(1000, 'Client disconnected')
+    }
+  }
+
+  /**
+   * Reconnect a dropped connection after a delay, unless it was closed or is no longer needed
+   */
+  private scheduleReconnect(connection: ShardConnection): void {
+    setTimeout(() => {
+      if (this.connections.get(connection.shard) === connection && this.isInUse(connection.shard)) {
+        this.ensureConnection(connection.shard)
+      }
+    }, RECONNECT_DELAY)
   }
 
   /**
    * Ensure EventSource connection is active
    */
-  private ensureConnection(): void {
-    if (this.eventSource && this.eventSource.readyState !== EventSource.CLOSED) {
+  private ensureEventSource(connection: ShardConnection): void {
+    if (connection.eventSource && connection.eventSource.readyState !== EventSource.CLOSED) {
       return
     }
 
-    const url = new URL('/api/realtime/sse', this.baseUrl)
+    const url = this.connectionUrl('/api/realtime/sse', connection.shard)
 
-    // Add auth token to URL if available (since EventSource doesn't support headers)
-    if (this.authToken) {
-      url.searchParams.set('token', this.authToken)
+    const subscriptions = this.getServerSubscriptions(connection.shard)
+    if (subscriptions.length > 0) {
+      url.searchParams.set('subscriptions', JSON.stringify(subscriptions))
     }
 
     // Use polyfilled EventSource if available
@@ -111,48 +292,426 @@ export class RealtimeClient {
       throw new Error('EventSource is not available. Please ensure EventSource polyfill is loaded.')
     }
 
-    this.eventSource = new EventSourceConstructor(url.toString())
+    const eventSource = new EventSourceConstructor(url.toString())
+    connection.eventSource = eventSource
 
-    this.eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data)
+    // EventSource sends the id of the last event itself when it reconnects by itself
+    eventSource.onmessage = (event) => {
+      this.handleMessage(connection, event.data)
+    }
 
-        // Skip connection events
-        if (data.type === 'connected') {
-          return
-        }
+    eventSource.onerror = (error) => {
+      console.error('Realtime connection error:', error)
+
+      // Attempt to reconnect after delay
+      this.scheduleReconnect(connection)
+    }
+
+    eventSource.onopen = () => {
+      console.log('Realtime connection established')
+    }
+  }
+
+  /**
+   * Ensure WebSocket connection is active
+   */
+  private ensureWebSocket(connection: ShardConnection): void {
+    if (
+      connection.socket &&
+      (connection.socket.readyState === SOCKET_CONNECTING ||
+        connection.socket.readyState === SOCKET_OPEN)
+    ) {
+      return
+    }
+
+    const url = this.connectionUrl('/api/realtime/ws', connection.shard)
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
 
-        // Only handle realtime events
-        if (data.type && data.table && data.record) {
-          this.handleRealtimeEvent(data as RealtimeEvent)
-        } else {
+    const WebSocketConstructor = (globalThis as { WebSocket?: typeof WebSocket }).WebSocket
+    if (!WebSocketConstructor) {
+      throw new Error('WebSocket is not available in this environment. Use the sse transport.')
+    }
+
+    const socket = new WebSocketConstructor(url.toString())
+    connection.socket = socket
+
+    socket.onopen = () => {
+      const subscriptions = this.getServerSubscriptions(connection.shard)
+      if (subscriptions.length > 0) {
+        this.updateServerSubscriptions(connection.shard, { type: 'subscribe', subscriptions })
+      }
+      const channel = this.getJoinedChannel(connection.shard)
+      if (channel) {
+        this.sendChannelFrame(connection.shard, channel.joinFrame())
+      }
+
+      // Keep the connection alive through proxies; the server answers with a pong
+      connection.pingTimer = setInterval(() => {
+        if (connection.socket?.readyState === SOCKET_OPEN) {
+          connection.socket.send(PING_FRAME)
         }
-      } catch (error) {
-        console.error('Failed to parse realtime event:', error, 'Raw data:', event.data)
+      }, PING_INTERVAL)
+    }
+
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        this.handleMessage(connection, event.data)
       }
     }
 
-    this.eventSource.onerror = (error) => {
+    socket.onerror = (error) => {
       console.error('Realtime connection error:', error)
+    }
+
+    socket.onclose = () => {
+      if (connection.pingTimer) {
+        clearInterval(connection.pingTimer)
+        connection.pingTimer = null
+      }
+      connection.socket = null
+      this.resetChannelPresence(connection.shard)
 
       // Attempt to reconnect after delay
-      setTimeout(() => {
-        if (this.subscriptions.size > 0) {
-          this.ensureConnection()
+      this.scheduleReconnect(connection)
+    }
+  }
+
+  /**
+   * URL of a connection to the table or channel of a shard
+   */
+  private connectionUrl(path: string, shard: string): URL {
+    const url = new URL(path, this.baseUrl)
+
+    // Add auth token to URL if available (since EventSource and browser WebSockets
+    // can't set headers)
+    if (this.authToken) {
+      url.searchParams.set('token', this.authToken)
+    }
+
+    const [kind, name] = splitShard(shard)
+    url.searchParams.set(kind, name)
+
+    // The server replays the events missed since the last ones received
+    const sequences = this.sequences.get(shard)
+    if (sequences && Object.keys(sequences).length > 0) {
+      url.searchParams.set('since', JSON.stringify(sequences))
+    }
+    return url
+  }
+
+  /**
+   * Tell the server about a subscription change on an open connection
+   * WebSockets take subscribe/unsubscribe frames; SSE connections are updated through
+   * /api/realtime/subscribe with the full list of subscriptions of their table
+   */
+  private updateServerSubscriptions(
+    shard: string,
+    frame:
+      | { type: 'subscribe'; subscriptions: ServerSubscription[] }
+      | { type: 'unsubscribe'; ids: string[] }
+  ): void {
+    const connection = this.connections.get(shard)
+    if (!connection) return
+
+    if (this.transport === 'websocket') {
+      if (connection.socket?.readyState === SOCKET_OPEN) {
+        connection.socket.send(JSON.stringify(frame))
+      }
+      return
+    }
+
+    if (connection.clientId) {
+      this.postSubscriptions(connection.clientId, shard, this.getServerSubscriptions(shard))
+    }
+  }
+
+  /**
+   * Replace the subscriptions of an SSE connection
+   */
+  private async postSubscriptions(
+    clientId: string,
+    shard: string,
+    subscriptions: ServerSubscription[]
+  ): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Client-Id': clientId,
+    }
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`
+    }
+
+    try {
+      const url = new URL('/api/realtime/subscribe', this.baseUrl)
+      url.searchParams.set('table', splitShard(shard)[1])
+      const response = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ subscriptions }),
+      })
+      if (!response.ok) {
+        console.error('Failed to update realtime subscriptions:', response.status)
+      }
+    } catch (error) {
+      console.error('Failed to update realtime subscriptions:', error)
+    }
+  }
+
+  /**
+   * Send a channel message on the open connection of the channel
+   * Messages sent before the connection is open are not queued: the joined channel is restored
+   * once it opens, and broadcasts are ephemeral
+   */
+  private sendChannelFrame(shard: string, frame: ChannelFrame): void {
+    const connection = this.connections.get(shard)
+    if (!connection) return
+
+    if (this.transport === 'websocket') {
+      if (connection.socket?.readyState === SOCKET_OPEN) {
+        connection.socket.send(JSON.stringify(frame))
+      }
+      return
+    }
+
+    if (connection.clientId) {
+      this.postChannelFrame(connection.clientId, frame)
+    }
+  }
+
+  /**
+   * Send a channel message of an SSE connection through /api/realtime/channels
+   */
+  private async postChannelFrame(clientId: string, frame: ChannelFrame): Promise<void> {
+    const { channel, ...body } = frame
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Client-Id': clientId,
+    }
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`
+    }
+
+    try {
+      const url = new URL(`/api/realtime/channels/${encodeURIComponent(channel)}`, this.baseUrl)
+      const response = await fetch(url.toString(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      })
+      if (!response.ok) {
+        console.error(`Failed to send ${frame.type} to channel ${channel}:`, response.status)
+      }
+    } catch (error) {
+      console.error(`Failed to send ${frame.type} to channel ${channel}:`, error)
+    }
+  }
+
+  /**
+   * Whether a subscription or the joined channel of a shard needs its connection
+   */
+  private isInUse(shard: string): boolean {
+    const [kind, name] = splitShard(shard)
+    if (kind === 'channel') {
+      return this.getJoinedChannel(shard) !== undefined
+    }
+    return [...this.subscriptions.values()].some((subscription) => subscription.tableName === name)
+  }
+
+  private getShardsInUse(): string[] {
+    const shards = new Set<string>()
+    for (const subscription of this.subscriptions.values()) {
+      shards.add(tableShard(subscription.tableName))
+    }
+    for (const channel of this.channels.values()) {
+      if (channel.isJoined()) {
+        shards.add(channelShard(channel.name))
+      }
+    }
+    return [...shards]
+  }
+
+  private getJoinedChannel(shard: string): RealtimeChannel | undefined {
+    const [kind, name] = splitShard(shard)
+    const channel = kind === 'channel' ? this.channels.get(name) : undefined
+    return channel?.isJoined() ? channel : undefined
+  }
+
+  // Presence belongs to the connection; the server sends it again on rejoin
+  private resetChannelPresence(shard: string): void {
+    const [kind, name] = splitShard(shard)
+    if (kind === 'channel') {
+      this.channels.get(name)?.resetPresence()
+    }
+  }
+
+  /**
+   * Subscriptions of a table's shard to evaluate on the server
+   */
+  private getServerSubscriptions(shard: string): ServerSubscription[] {
+    return [...this.subscriptions.values()]
+      .filter((subscription) => tableShard(subscription.tableName) === shard)
+      .map(toServerSubscription)
+  }
+
+  /**
+   * Parse a message of either transport
+   */
+  private handleMessage(connection: ShardConnection, raw: string): void {
+    try {
+      const data = JSON.parse(raw)
+
+      if (data.type === 'connected') {
+        this.handleConnected(connection, data)
+        return
+      }
+
+      if (data.type === 'resync_required') {
+        this.handleResyncRequired(connection, data)
+        return
+      }
+
+      // Skip control messages
+      if (data.type === 'ping' || data.type === 'pong' || data.type === 'subscriptions_updated') {
+        return
+      }
+
+      if (data.type === 'error') {
+        console.error('Realtime error:', data.message)
+        return
+      }
+
+      // Presence and broadcast messages of joined channels
+      if (
+        data.type === 'presence_sync' ||
+        data.type === 'presence_join' ||
+        data.type === 'presence_leave' ||
+        data.type === 'broadcast'
+      ) {
+        this.channels.get(data.channel)?.handleMessage(data)
+        return
+      }
+
+      // Events broadcast by the realtime service carry the row in `data`
+      // and name the subscriptions whose filters they matched
+      if (data.type === 'event' && data.table && data.eventType) {
+        // Replays may repeat events that were already received
+        if (
+          typeof data.seq === 'number' &&
+          !this.advanceSequence(connection, data.table, data.seq)
+        ) {
+          return
         }
-      }, 5000)
+        this.handleRealtimeEvent(
+          connection.shard,
+          { type: data.eventType, table: data.table, record: data.data, seq: data.seq },
+          Array.isArray(data.subscriptions) ? data.subscriptions : undefined
+        )
+        return
+      }
+
+      // Only handle realtime events
+      if (data.type && data.table && data.record) {
+        this.handleRealtimeEvent(connection.shard, data as RealtimeEvent)
+      }
+    } catch (error) {
+      console.error('Failed to parse realtime event:', error, 'Raw data:', raw)
     }
+  }
 
-    this.eventSource.onopen = () => {
-      console.log('Realtime connection established')
+  /**
+   * Remember the client id of an SSE connection and fix up its subscriptions
+   * EventSource reconnects by itself with the subscriptions of its original URL, which may
+   * be stale
+   */
+  private handleConnected(
+    connection: ShardConnection,
+    data: {
+      clientId?: string
+      subscriptions?: Array<{ id: string }>
+      sequences?: Record<string, number>
+    }
+  ): void {
+    // Tables without events received yet resume from the time of this connection
+    const sequences = this.sequences.get(connection.shard) ?? {}
+    this.sequences.set(connection.shard, { ...data.sequences, ...sequences })
+
+    if (this.transport !== 'sse' || !data.clientId) return
+
+    connection.clientId = data.clientId
+
+    // The channel membership belongs to the previous connection; join again on this one
+    const channel = this.getJoinedChannel(connection.shard)
+    if (channel) {
+      this.postChannelFrame(data.clientId, channel.joinFrame())
+      return
+    }
+
+    const subscriptions = this.getServerSubscriptions(connection.shard)
+    const serverIds = (data.subscriptions ?? []).map((subscription) => subscription.id)
+    if (
+      serverIds.length !== subscriptions.length ||
+      !subscriptions.every((subscription) => serverIds.includes(subscription.id))
+    ) {
+      this.postSubscriptions(data.clientId, connection.shard, subscriptions)
+    }
+  }
+
+  /**
+   * Record the sequence of an event; false when the event was already received
+   */
+  private advanceSequence(connection: ShardConnection, table: string, seq: number): boolean {
+    const sequences = this.sequences.get(connection.shard) ?? {}
+    if (seq <= (sequences[table] ?? 0)) return false
+
+    sequences[table] = seq
+    this.sequences.set(connection.shard, sequences)
+    return true
+  }
+
+  /**
+   * Skip the events of a table that are no longer kept, and let the app refetch it
+   */
+  private handleResyncRequired(
+    connection: ShardConnection,
+    data: { table?: string; seq?: number }
+  ): void {
+    if (!data.table) return
+
+    if (typeof data.seq === 'number') {
+      const sequences = this.sequences.get(connection.shard) ?? {}
+      sequences[data.table] = data.seq
+      this.sequences.set(connection.shard, sequences)
+    }
+
+    for (const listener of this.resyncListeners) {
+      try {
+        listener(data.table)
+      } catch (error) {
+        console.error('Error in resync callback:', error)
+      }
     }
   }
 
   /**
    * Handle incoming realtime events
+   * The fan-out connection also receives the events of tables with their own connection, so
+   * only the subscriptions of the connection's shard are considered
    */
-  private handleRealtimeEvent(event: RealtimeEvent): void {
+  private handleRealtimeEvent(
+    shard: string,
+    event: RealtimeEvent,
+    subscriptionIds?: string[]
+  ): void {
     for (const subscription of this.subscriptions.values()) {
+      if (tableShard(subscription.tableName) !== shard) {
+        continue
+      }
+
+      // The server already matched the event against each subscription's filters
+      if (subscriptionIds && !subscriptionIds.includes(subscription.id)) {
+        continue
+      }
+
       // Match table name
       if (subscription.tableName !== event.table && subscription.tableName !== '*') {
         continue
@@ -172,6 +731,34 @@ export class RealtimeClient {
   }
 }
 
+// Subscriptions to every table ('*') share the fan-out shard 'table:*'
+function tableShard(tableName: string): string {
+  return `table:${tableName}`
+}
+
+function channelShard(channelName: string): string {
+  return `channel:${channelName}`
+}
+
+function splitShard(shard: string): ['table' | 'channel', string] {
+  const separator = shard.indexOf(':')
+  return [shard.slice(0, separator) as 'table' | 'channel', shard.slice(separator + 1)]
+}
+
+function toServerSubscription(subscription: RealtimeSubscription): ServerSubscription {
+  const serverSubscription: ServerSubscription = {
+    id: subscription.id,
+    table: subscription.tableName,
+  }
+  if (subscription.eventType !== '*') {
+    serverSubscription.events = [subscription.eventType]
+  }
+  if (subscription.filters) {
+    serverSubscription.filters = subscription.filters
+  }
+  return serverSubscription
+}
+
 /**
  * Utility functions for working with realtime subscriptions
  */
@@ -3,14 +3,29 @@
  */
 
 import { fetch } from 'cross-fetch'
-import type { ApiResponse, FileInfo, FileUploadOptions } from '../types'
+import type {
+  ApiResponse,
+  FileInfo,
+  FileUploadOptions,
+  MultipartPart,
+  MultipartUpload,
+  MultipartUploadOptions,
+  SignedUpload,
+  SignedUrl,
+  SignedUrlOptions,
+} from '../types'
 import type { HttpClient } from './http-client'
 
+const DEFAULT_MULTIPART_THRESHOLD = 10 * 1024 * 1024
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024
+
 export class StorageClient {
   constructor(private http: HttpClient) {}
 
   /**
    * Upload a file (S3-style binary upload)
+   * Files larger than `multipartThreshold` are sent in parts; uploading the same file again
+   * after a failure continues from the parts already stored
    */
   async upload(
     fileName: string,
@@ -27,6 +42,11 @@ export class StorageClient {
       throw new Error('invalid file name: path traversal patterns are not allowed')
     }
 
+    const size = byteLengthOf(file)
+    if (size !== null && size > (options?.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD)) {
+      return this.uploadInParts(fileName, file as Blob | ArrayBuffer, size, options)
+    }
+
     // Convert input to ArrayBuffer - handle different types
     let arrayBuffer: ArrayBuffer
 
@@ -98,6 +118,9 @@ export class StorageClient {
       contentType = (file as Blob).type || 'application/octet-stream'
     }
     headers['Content-Type'] = contentType
+    if (options?.cacheControl) {
+      headers['X-Cache-Control'] = options.cacheControl
+    }
 
     // Add metadata as headers (x-metadata- prefix)
     if (options?.metadata) {
@@ -121,9 +144,158 @@ export class StorageClient {
       throw new Error(errorMessage)
     }
 
+    options?.onProgress?.({
+      loaded: arrayBuffer.byteLength,
+      total: arrayBuffer.byteLength,
+      percentage: 100,
+    })
     return response
   }
 
+  /**
+   * Start a multipart upload; its parts are sent with uploadPart
+   */
+  async createMultipartUpload(
+    fileName: string,
+    options?: MultipartUploadOptions
+  ): Promise<ApiResponse<MultipartUpload>> {
+    const response = await this.http.post<MultipartUpload>('/api/storage/multipart', {
+      file_name: fileName,
+      content_type: options?.contentType,
+      metadata: options?.metadata,
+      cache_control: options?.cacheControl,
+      part_size: options?.partSize,
+      total_size: options?.totalSize,
+    })
+    return throwOnError(response)
+  }
+
+  /**
+   * Get a multipart upload with the parts stored so far
+   */
+  async getMultipartUpload(uploadId: string): Promise<ApiResponse<MultipartUpload>> {
+    const response = await this.http.get<MultipartUpload>(
+      `/api/storage/multipart/${encodeURIComponent(uploadId)}`
+    )
+    return throwOnError(response)
+  }
+
+  /**
+   * List the unfinished multipart uploads, of one file or of all
+   */
+  async listMultipartUploads(
+    fileName?: string
+  ): Promise<ApiResponse<{ uploads: MultipartUpload[] }>> {
+    const response = await this.http.get<{ uploads: MultipartUpload[] }>(
+      '/api/storage/multipart',
+      fileName ? { file: fileName } : undefined
+    )
+    return throwOnError(response)
+  }
+
+  /**
+   * Store one part of a multipart upload, numbered from 1
+   * Every part but the last must have the same size, of at least 5 MiB
+   */
+  async uploadPart(
+    uploadId: string,
+    partNumber: number,
+    data: ArrayBuffer | Blob
+  ): Promise<ApiResponse<MultipartPart>> {
+    const body = data instanceof ArrayBuffer ? data : await data.arrayBuffer()
+    const response = await this.http.request<MultipartPart>(
+      `/api/storage/multipart/${encodeURIComponent(uploadId)}/parts/${partNumber}`,
+      {
+        method: 'PUT',
+        body,
+        headers: { 'Content-Type': 'application/octet-stream' },
+      }
+    )
+    return throwOnError(response)
+  }
+
+  /**
+   * Assemble the stored parts into the file
+   */
+  async completeMultipartUpload(uploadId: string): Promise<ApiResponse<FileInfo>> {
+    const response = await this.http.post<FileInfo>(
+      `/api/storage/multipart/${encodeURIComponent(uploadId)}/complete`
+    )
+    return throwOnError(response)
+  }
+
+  /**
+   * Abort a multipart upload and drop its stored parts
+   */
+  async abortMultipartUpload(uploadId: string): Promise<ApiResponse<void>> {
+    const response = await this.http.delete<void>(
+      `/api/storage/multipart/${encodeURIComponent(uploadId)}`
+    )
+    return throwOnError(response)
+  }
+
+  // Send the file part by part, skipping the parts an unfinished upload of it already stored
+  private async uploadInParts(
+    fileName: string,
+    file: Blob | ArrayBuffer,
+    size: number,
+    options?: FileUploadOptions
+  ): Promise<ApiResponse<FileInfo>> {
+    const partSize = options?.partSize ?? DEFAULT_PART_SIZE
+    const contentType =
+      options?.contentType ||
+      (file instanceof ArrayBuffer ? '' : file.type) ||
+      'application/octet-stream'
+
+    let upload =
+      options?.resume === false ? null : await this.findUnfinishedUpload(fileName, size, partSize)
+    if (!upload) {
+      const created = await this.createMultipartUpload(fileName, {
+        contentType,
+        metadata: options?.metadata,
+        cacheControl: options?.cacheControl,
+        partSize,
+        totalSize: size,
+      })
+      upload = created.data as MultipartUpload
+    }
+
+    const stored = new Set((upload.parts ?? []).map((part) => part.part_number))
+    let loaded = (upload.parts ?? []).reduce((total, part) => total + part.size, 0)
+    const report = () =>
+      options?.onProgress?.({ loaded, total: size, percentage: Math.round((loaded / size) * 100) })
+    report()
+
+    const partCount = Math.ceil(size / partSize)
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (stored.has(partNumber)) continue
+
+      const start = (partNumber - 1) * partSize
+      const chunk = file.slice(start, Math.min(start + partSize, size))
+      await this.uploadPart(upload.upload_id, partNumber, chunk)
+      loaded += Math.min(partSize, size - start)
+      report()
+    }
+
+    return this.completeMultipartUpload(upload.upload_id)
+  }
+
+  // Newest unfinished upload of the same file with the same part size, with its parts
+  private async findUnfinishedUpload(
+    fileName: string,
+    size: number,
+    partSize: number
+  ): Promise<MultipartUpload | null> {
+    const response = await this.listMultipartUploads(fileName)
+    const unfinished = response.data?.uploads.find(
+      (upload) => upload.total_size === size && upload.part_size === partSize
+    )
+    if (!unfinished) return null
+
+    const withParts = await this.getMultipartUpload(unfinished.upload_id)
+    return withParts.data ?? null
+  }
+
   /**
    * Get file info
    */
@@ -136,24 +308,19 @@ export class StorageClient {
   }
 
   /**
-   * Get file download URL
+   * Get a signed download URL of a file
    */
   async getDownloadUrl(
     fileName: string,
     expiresIn?: number
-  ): Promise<
-    ApiResponse<{
-      url: string
-      expires_at: string
-    }>
-  > {
+  ): Promise<ApiResponse<Omit<SignedUrl, 'method'>>> {
     const params: Record<string, string> = {}
     if (expiresIn) params.expires_in = String(expiresIn)
 
-    const response = await this.http.get<{
-      url: string
-      expires_at: string
-    }>(`/api/storage/files/${encodeURIComponent(fileName)}/url`, params)
+    const response = await this.http.get<Omit<SignedUrl, 'method'>>(
+      `/api/storage/files/${encodeURIComponent(fileName)}/url`,
+      params
+    )
     if (!response.success && response.error) {
       const errorMessage =
         typeof response.error === 'object' ? JSON.stringify(response.error) : response.error
@@ -283,29 +450,20 @@ export class StorageClient {
   }
 
   /**
-   * Generate presigned upload URL
+   * Create a signed upload URL
+   * The file is sent with PUT to `upload_url` and the returned headers, without an auth header
    */
   async createPresignedUpload(
     fileName: string,
     contentType: string,
-    expiresIn?: number
-  ): Promise<
-    ApiResponse<{
-      upload_url: string
-      file_url: string
-      expires_at: string
-      fields?: Record<string, string>
-    }>
-  > {
-    const response = await this.http.post<{
-      upload_url: string
-      file_url: string
-      expires_at: string
-      fields?: Record<string, string>
-    }>('/api/storage/presigned-upload', {
+    expiresIn?: number,
+    options?: Pick<SignedUrlOptions, 'maxSize'>
+  ): Promise<ApiResponse<SignedUpload>> {
+    const response = await this.http.post<SignedUpload>('/api/storage/presigned-upload', {
       file_name: fileName,
       content_type: contentType,
       expires_in: expiresIn,
+      ...(options?.maxSize !== undefined && { max_size: options.maxSize }),
     })
     if (!response.success && response.error) {
       const errorMessage =
@@ -324,17 +482,9 @@ export class StorageClient {
       const url = `${this.http.config.baseUrl}/api/storage/files/${encodeURIComponent(fileName)}/content`
       console.log('[STORAGE-CLIENT] Downloading file content from:', url)
 
-      // Build headers for authentication
-      const headers = new Headers()
-      if (this.http.config.auth?.apiKey) {
-        headers.set('Authorization', `Bearer ${this.http.config.auth.apiKey}`)
-      } else if (this.http.config.auth?.userToken) {
-        headers.set('Authorization', `Bearer ${this.http.config.auth.userToken}`)
-      }
-
       const response = await fetch(url, {
         method: 'GET',
-        headers,
+        headers: this.authHeaders(),
       })
 
       if (!response.ok) {
@@ -379,17 +529,58 @@ export class StorageClient {
   }
 
   /**
-   * Get presigned URL (for both upload and download)
+   * Download an image transformed by a preset the admin configured (a resized thumbnail, say)
+   * The server stores the result, so later downloads of it are not transformed again
+   */
+  async downloadImage(fileName: string, preset: string): Promise<ApiResponse<Blob>> {
+    const url = `${this.http.config.baseUrl}/api/storage/files/${encodeURIComponent(fileName)}/transform?preset=${encodeURIComponent(preset)}`
+    try {
+      const response = await fetch(url, { method: 'GET', headers: this.authHeaders() })
+      if (!response.ok) {
+        const errorJson = await response.json().catch(() => null)
+        return {
+          success: false,
+          error: errorJson?.error?.message || `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+        }
+      }
+      return { success: true, data: await response.blob(), status: response.status }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        status: 0,
+      }
+    }
+  }
+
+  // Authorization header of requests sent with fetch rather than the HTTP client
+  private authHeaders(): Headers {
+    const headers = new Headers()
+    if (this.http.config.auth?.apiKey) {
+      headers.set('Authorization', `Bearer ${this.http.config.auth.apiKey}`)
+    } else if (this.http.config.auth?.userToken) {
+      headers.set('Authorization', `Bearer ${this.http.config.auth.userToken}`)
+    }
+    return headers
+  }
+
+  /**
+   * Get a signed URL to download a file, or to upload it with PUT
+   * Upload URLs can be limited to a content type and a size
    */
   async getPresignedUrl(
     fileName: string,
     action: 'upload' | 'download',
-    expiresIn?: number
-  ): Promise<ApiResponse<{ url: string; expires_at: string }>> {
+    expiresIn?: number,
+    options?: SignedUrlOptions
+  ): Promise<ApiResponse<SignedUrl>> {
     const params: Record<string, string> = { action }
     if (expiresIn) params.expires_in = String(expiresIn)
+    if (options?.contentType) params.content_type = options.contentType
+    if (options?.maxSize !== undefined) params.max_size = String(options.maxSize)
 
-    const response = await this.http.get<{ url: string; expires_at: string }>(
+    const response = await this.http.get<SignedUrl>(
       `/api/storage/files/${encodeURIComponent(fileName)}/presigned-url`,
       params
     )
@@ -401,6 +592,21 @@ export class StorageClient {
     return response
   }
 
+  /**
+   * Revoke a signed URL, so it stops working before it expires
+   */
+  async revokeSignedUrl(id: string): Promise<ApiResponse<void>> {
+    const response = await this.http.delete<void>(
+      `/api/storage/signed-urls/${encodeURIComponent(id)}`
+    )
+    if (!response.success && response.error) {
+      const errorMessage =
+        typeof response.error === 'object' ? JSON.stringify(response.error) : response.error
+      throw new Error(errorMessage)
+    }
+    return response
+  }
+
   /**
    * Update file metadata
    */
@@ -422,6 +628,25 @@ export class StorageClient {
     return response
   }
 
+  /**
+   * Set the Cache-Control a file is served with; null goes back to that of its prefix
+   */
+  async setCacheControl(
+    fileName: string,
+    cacheControl: string | null
+  ): Promise<ApiResponse<FileInfo>> {
+    const response = await this.http.patch<FileInfo>(
+      `/api/storage/files/${encodeURIComponent(fileName)}/metadata`,
+      { cache_control: cacheControl }
+    )
+    if (!response.success && response.error) {
+      const errorMessage =
+        typeof response.error === 'object' ? JSON.stringify(response.error) : response.error
+      throw new Error(errorMessage)
+    }
+    return response
+  }
+
   /**
    * Get storage statistics
    */
@@ -447,3 +672,25 @@ export class StorageClient {
     return response
   }
 }
+
+// Size of a file given as a Blob or an ArrayBuffer; null for strings and other inputs
+function byteLengthOf(file: File | Blob | ArrayBuffer | string): number | null {
+  if (file instanceof ArrayBuffer) return file.byteLength
+  if (
+    typeof file === 'object' &&
+    typeof (file as Blob).size === 'number' &&
+    typeof (file as Blob).slice === 'function'
+  ) {
+    return (file as Blob).size
+  }
+  return null
+}
+
+function throwOnError<T>(response: ApiResponse<T>): ApiResponse<T> {
+  if (!response.success && response.error) {
+    const errorMessage =
+      typeof response.error === 'object' ? JSON.stringify(response.error) : response.error
+    throw new Error(errorMessage)
+  }
+  return response
+}
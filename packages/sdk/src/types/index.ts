@@ -9,6 +9,7 @@ export interface VibebaseConfig {
   userToken?: string
   timeout?: number
   retries?: number
+  realtimeTransport?: RealtimeTransport // Defaults to 'sse'
 }
 
 // Authentication types
@@ -69,13 +70,112 @@ export interface ForeignKeyDefinition {
   to: string
 }
 
+// Filter types
+export interface FieldFilter<V = unknown> {
+  eq?: V | null
+  ne?: V | null
+  gt?: V
+  gte?: V
+  lt?: V
+  lte?: V
+  in?: V[]
+  not_in?: V[]
+  like?: string // Case-sensitive, % and _ wildcards
+  ilike?: string // Case-insensitive, % and _ wildcards
+  is_null?: boolean
+  between?: [V, V]
+}
+
+// A bare value means equality; `and` / `or` hold nested groups
+export type WhereFilter<T = Record<string, unknown>> = {
+  [K in keyof T]?: T[K] | null | FieldFilter<T[K]>
+} & {
+  and?: WhereFilter<T>[]
+  or?: WhereFilter<T>[]
+}
+
+// Read options shared by list and get
+export interface GetOptions<T = Record<string, unknown>> {
+  select?: Extract<keyof T, string>[] // Columns to return (default: all)
+  expand?: string[] // Relations to embed under `_expand`, e.g. ['author_id', 'comments']
+}
+
 // Query options
-export interface QueryOptions {
+export interface QueryOptions<T = Record<string, unknown>> extends GetOptions<T> {
   limit?: number
   offset?: number
   orderBy?: string
   orderDirection?: 'asc' | 'desc'
-  where?: Record<string, unknown>
+  where?: WhereFilter<T>
+}
+
+export interface CursorQueryOptions<T = Record<string, unknown>>
+  extends Omit<QueryOptions<T>, 'offset'> {
+  cursor?: string // next_cursor from the previous page; omit for the first page
+  includeTotal?: boolean // Also count matching rows (slower on large tables)
+}
+
+// Aggregate types
+export interface AggregateOptions<T = Record<string, unknown>> {
+  count?: boolean | Extract<keyof T, string>[] // true counts rows, columns count non-null values
+  sum?: Extract<keyof T, string>[]
+  avg?: Extract<keyof T, string>[]
+  min?: Extract<keyof T, string>[]
+  max?: Extract<keyof T, string>[]
+  groupBy?: Extract<keyof T, string>[]
+  where?: WhereFilter<T>
+  orderBy?: string // A groupBy column or an aggregate name such as 'sum_price'
+  orderDirection?: 'asc' | 'desc'
+  limit?: number // Maximum number of groups (default 100, max 1000)
+}
+
+// One row per group: the groupBy columns plus `count`, `sum_<column>`, `avg_<column>`, ...
+export type AggregateRow = Record<string, string | number | null>
+
+// Full-text search types
+export interface SearchOptions<T = Record<string, unknown>> {
+  columns?: Extract<keyof T, string>[] // Indexed columns to match (default: all indexed columns)
+  limit?: number // Default 20, max 100
+  offset?: number
+}
+
+// A matching record with its relevance and highlighted snippets
+export type SearchResult<T = TableRow> = T & {
+  _search: {
+    score: number // Higher is more relevant
+    snippets: Record<string, string> // Matching text per column, HTML-escaped with matches wrapped in <mark>
+  }
+}
+
+// Transactional batch types
+export interface BatchReference {
+  $ref: string // The ref of an earlier operation; resolves to the id of its record
+}
+
+export type BatchOperation =
+  | { op: 'create'; table: string; data: Record<string, unknown>; ref?: string }
+  | {
+      op: 'update'
+      table: string
+      id: string | BatchReference
+      data: Record<string, unknown>
+      ref?: string
+    }
+  | { op: 'delete'; table: string; id: string | BatchReference; ref?: string }
+
+export interface BatchResult<T = TableRow> {
+  op: BatchOperation['op']
+  table: string
+  id: string
+  ref?: string
+  data: T | null // The record after commit, null once deleted
+}
+
+export interface CursorPage<T = TableRow> {
+  data: T[]
+  nextCursor: string | null
+  hasMore: boolean
+  total?: number
 }
 
 export interface CreateOptions {
@@ -87,25 +187,95 @@ export interface UpdateOptions {
 }
 
 // Realtime types
+export type RealtimeTransport = 'sse' | 'websocket'
+
+export interface RealtimeClientOptions {
+  transport?: RealtimeTransport
+}
+
+export interface RealtimeSubscribeOptions {
+  filters?: string[] // Row filters evaluated by the server, e.g. 'status=eq.open'
+}
+
 export interface RealtimeSubscription {
   id: string
   tableName: string
   eventType: 'insert' | 'update' | 'delete' | '*'
+  filters?: string[]
   callback: (data: RealtimeEvent) => void
   unsubscribe: () => void
 }
 
+export type PresenceState = Record<string, unknown>
+
+export interface PresenceMember {
+  clientId: string
+  userId?: string // Set for end users; admins and API keys have none
+  presence: PresenceState
+  joinedAt: string
+}
+
+export interface BroadcastMessage<T = unknown> {
+  channel: string
+  event: string
+  payload: T
+  from: { clientId: string; userId?: string }
+  timestamp: string
+}
+
 export interface RealtimeEvent {
   type: 'insert' | 'update' | 'delete'
   table: string
   record: TableRow
   old_record?: TableRow
+  seq?: number // Position of the event among the events of its table
 }
 
 // Storage types
 export interface FileUploadOptions {
   contentType?: string
   metadata?: Record<string, string>
+  // Cache-Control the file is served with, instead of that of its prefix or the default
+  cacheControl?: string
+  onProgress?: (progress: UploadProgress) => void
+  // Files larger than this many bytes are sent in parts (10 MiB by default)
+  multipartThreshold?: number
+  partSize?: number // Bytes per part; 8 MiB by default, at least 5 MiB
+  // Continue an unfinished upload of the same file instead of starting over (true by default)
+  resume?: boolean
+}
+
+export interface UploadProgress {
+  loaded: number // Bytes stored so far
+  total: number
+  percentage: number
+}
+
+export interface MultipartPart {
+  part_number: number
+  etag: string
+  size: number
+  uploaded_at: string
+}
+
+// Multipart uploads send a large file in parts; the parts already stored survive a dropped connection
+export interface MultipartUpload {
+  upload_id: string
+  file_name: string
+  content_type: string | null
+  part_size: number | null
+  total_size: number | null
+  created_at: string
+  parts?: MultipartPart[] // Returned when starting or getting one upload
+  uploaded_size?: number
+}
+
+export interface MultipartUploadOptions {
+  contentType?: string
+  metadata?: Record<string, string>
+  cacheControl?: string
+  partSize?: number
+  totalSize?: number // Checked against the stored parts on completion
 }
 
 export interface FileInfo {
@@ -117,6 +287,29 @@ export interface FileInfo {
   uploaded_at: string
 }
 
+// Signed URLs work without an auth header, for one action on one file, until they expire
+export interface SignedUrl {
+  id: string // Revokes the URL with StorageClient.revokeSignedUrl
+  url: string
+  method: 'GET' | 'PUT'
+  expires_at: string
+}
+
+export interface SignedUrlOptions {
+  contentType?: string // Uploads must be sent with this Content-Type
+  maxSize?: number // Largest upload in bytes
+}
+
+export interface SignedUpload {
+  id: string
+  upload_url: string
+  method: 'PUT'
+  headers: Record<string, string> // Headers the upload must be sent with
+  max_size: number | null
+  file_url: string // Authenticated URL of the file once uploaded
+  expires_at: string
+}
+
 // User authentication types
 export interface User {
   id: string
@@ -44,7 +44,9 @@ export class VibebaseClient {
     this.data = new DataClient(this.httpClient)
     this.auth = new AuthClient(this.httpClient)
     this.storage = new StorageClient(this.httpClient)
-    this.realtime = new RealtimeClient(config.apiUrl)
+    this.realtime = new RealtimeClient(config.apiUrl, {
+      transport: config.realtimeTransport,
+    })
     this.realtimeManager = new RealtimeManager(this.httpClient)
     this.customQueries = new CustomQueriesClient(this.httpClient)
     this.push = new PushClient(this.httpClient)
@@ -311,7 +311,7 @@ describe('Team Management E2E Tests', () => {
     it('should search teams by name', async () => {
       const searchTerm = 'Engineering';
       const results = await vibebase.data!.list<Team>('teams', {
-        where: { name: { $like: `%${searchTerm}%` } }
+        where: { name: { ilike: `%${searchTerm}%` } }
       });
 
       if (results.data!.length > 0) {